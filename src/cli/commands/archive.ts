@@ -1,4 +1,6 @@
+import { existsSync, writeFileSync } from 'node:fs';
 import type { Command } from '../types.js';
+import type { MergeReport } from '../../storage/archive-merge.js';
 import { promptPassword, isEncryptedArchive } from '../utils.js';
 
 function formatSize(bytes: number): string {
@@ -11,15 +13,61 @@ function formatCount(n: number): string {
   return n.toLocaleString();
 }
 
+/** Conflicts listed inline before deferring to --report. */
+const MAX_PRINTED_CONFLICTS = 10;
+
+function printMergeReport(report: MergeReport): void {
+  const c = report.counts;
+  console.log(
+    `${report.dryRun ? 'Dry run — would reconcile' : 'Reconciled'}: ` +
+      `${formatCount(c.chunksAdded)} chunks added, ${formatCount(c.chunksDeduplicated)} duplicates, ` +
+      `${formatCount(c.edgesAdded)} edges added (${formatCount(c.edgesMerged)} merged, ${formatCount(c.edgesDropped)} dropped), ` +
+      `${formatCount(c.clustersAdded)} clusters added (${formatCount(c.clustersMatched)} matched), ` +
+      `${formatCount(c.entitiesAdded)} entities added (${formatCount(c.entitiesMerged)} merged, ${formatCount(c.aliasesAdded)} aliases), ` +
+      `${formatCount(c.vectorsAdded)} vectors`,
+  );
+
+  if (report.conflicts.length === 0) {
+    console.log('Conflicts: none');
+    return;
+  }
+  console.log(`Conflicts: ${formatCount(report.conflicts.length)}`);
+  for (const conflict of report.conflicts.slice(0, MAX_PRINTED_CONFLICTS)) {
+    console.log(`  ${conflict.kind}: ${conflict.detail} — ${conflict.resolution}`);
+  }
+  if (report.conflicts.length > MAX_PRINTED_CONFLICTS) {
+    console.log(
+      `  ... ${formatCount(report.conflicts.length - MAX_PRINTED_CONFLICTS)} more (use --report <path> for the full list)`,
+    );
+  }
+}
+
 export const exportCommand: Command = {
   name: 'export',
   description: 'Export memory data',
   usage:
-    'causantic export --output <path> [--no-encrypt] [--projects <slugs>] [--redact-paths] [--redact-code] [--no-vectors]',
+    'causantic export --output <path> [--no-encrypt] [--projects <slugs>] [--redact-paths] [--redact-code] [--no-vectors] [--format <json|ndjson>] [--gzip] [--since <archive|date>]',
   handler: async (args) => {
-    const { exportArchive } = await import('../../storage/archive.js');
+    const formatIndex = args.indexOf('--format');
+    const format = formatIndex >= 0 ? args[formatIndex + 1] : 'json';
+    if (format !== 'json' && format !== 'ndjson') {
+      console.error(`Error: Unknown format "${format}". Use json or ndjson.`);
+      process.exit(2);
+    }
+    const gzip = args.includes('--gzip');
+    const sinceIndex = args.indexOf('--since');
+    const sinceArg = sinceIndex >= 0 ? args[sinceIndex + 1] : undefined;
+    if ((gzip || sinceArg) && format !== 'ndjson') {
+      console.error('Error: --gzip and --since require --format ndjson.');
+      process.exit(2);
+    }
+
     const outputIndex = args.indexOf('--output');
-    const outputPath = outputIndex >= 0 ? args[outputIndex + 1] : 'causantic-backup.causantic';
+    const defaultOutput =
+      format === 'ndjson'
+        ? `causantic-backup.ndjson${gzip ? '.gz' : ''}`
+        : 'causantic-backup.causantic';
+    const outputPath = outputIndex >= 0 ? args[outputIndex + 1] : defaultOutput;
     const noEncrypt = args.includes('--no-encrypt');
     const noVectors = args.includes('--no-vectors');
     const redactPaths = args.includes('--redact-paths');
@@ -32,6 +80,58 @@ export const exportCommand: Command = {
         ? args[projectsIndex + 1].split(',').map((s) => s.trim())
         : undefined;
 
+    if (format === 'ndjson') {
+      if (!noEncrypt) {
+        console.error('Error: NDJSON archives are not encrypted.');
+        console.log('Use --no-encrypt with --format ndjson.');
+        process.exit(2);
+      }
+      const { exportNdjsonArchive, readArchiveHeader } =
+        await import('../../storage/archive-stream.js');
+
+      // --since accepts a previous archive (its watermark) or an ISO date
+      let since: string | undefined;
+      if (sinceArg) {
+        if (existsSync(sinceArg)) {
+          since = (await readArchiveHeader(sinceArg)).watermark;
+        } else if (!Number.isNaN(Date.parse(sinceArg))) {
+          since = new Date(sinceArg).toISOString();
+        } else {
+          console.error(`Error: --since must be an archive path or a date, got "${sinceArg}".`);
+          process.exit(2);
+        }
+      }
+
+      const result = await exportNdjsonArchive({
+        outputPath,
+        gzip,
+        projects,
+        since,
+        redactPaths,
+        redactCode,
+        noVectors,
+      });
+
+      const parts = [
+        `${formatCount(result.chunkCount)} chunks`,
+        `${formatCount(result.edgeCount)} edges`,
+        `${formatCount(result.clusterCount)} clusters`,
+        `${formatCount(result.vectorCount)} vectors`,
+      ];
+      const suffix = [result.compressed ? 'compressed' : null, result.since ? 'incremental' : null]
+        .filter(Boolean)
+        .join(', ');
+
+      console.log(
+        `Exported: ${parts.join(', ')} (${formatSize(result.fileSize)}${suffix ? ` ${suffix}` : ''})`,
+      );
+      console.log(`File: ${outputPath}`);
+      console.log(`Watermark: ${result.watermark} (use --since ${outputPath} for the next export)`);
+      return;
+    }
+
+    const { exportArchive } = await import('../../storage/archive.js');
+
     let password: string | undefined;
     if (!noEncrypt) {
       password = process.env.CAUSANTIC_EXPORT_PASSWORD;
@@ -82,18 +182,57 @@ export const exportCommand: Command = {
 export const importCommand: Command = {
   name: 'import',
   description: 'Import memory data',
-  usage: 'causantic import <file> [--merge] [--dry-run]',
+  usage: 'causantic import <file> [--merge] [--reconcile] [--report <path>] [--dry-run]',
   handler: async (args) => {
     if (args.length === 0) {
       console.error('Error: File path required');
       process.exit(2);
     }
-    const { importArchive } = await import('../../storage/archive.js');
-
-    // Find file path (first arg that isn't a flag)
-    const inputPath = args.find((a) => !a.startsWith('--'))!;
-    const merge = args.includes('--merge');
+    // Find file path (first arg that isn't a flag or a flag's value)
+    const inputPath = args.find((a, i) => !a.startsWith('--') && args[i - 1] !== '--report')!;
+    const reconcile = args.includes('--reconcile');
+    const merge = args.includes('--merge') || reconcile;
     const dryRun = args.includes('--dry-run');
+    const reportIndex = args.indexOf('--report');
+    const reportPath = reportIndex >= 0 ? args[reportIndex + 1] : undefined;
+
+    const { isNdjsonArchive, importNdjsonArchive } =
+      await import('../../storage/archive-stream.js');
+    if (await isNdjsonArchive(inputPath)) {
+      if (reconcile) {
+        console.error('Error: --reconcile is not supported for NDJSON archives.');
+        process.exit(2);
+      }
+      const result = await importNdjsonArchive({ inputPath, merge, dryRun });
+
+      const parts = [
+        `${formatCount(result.chunkCount)} chunks`,
+        `${formatCount(result.edgeCount)} edges`,
+        `${formatCount(result.clusterCount)} clusters`,
+        `${formatCount(result.vectorCount)} vectors`,
+      ];
+
+      if (result.dryRun) {
+        console.log(`Dry run — would import: ${parts.join(', ')}`);
+      } else {
+        console.log(`Imported: ${parts.join(', ')}`);
+      }
+      if (result.resumedFrom > 0) {
+        console.log(`Resumed after ${formatCount(result.resumedFrom)} previously imported records`);
+      }
+      if (result.skippedCount > 0) {
+        console.log(
+          `Skipped ${formatCount(result.skippedCount)} edges/cluster members with missing chunks`,
+        );
+      }
+      if (!result.complete) {
+        console.log('Warning: archive has no footer and may be truncated.');
+        console.log('Re-run the import on the complete file to resume.');
+      }
+      return;
+    }
+
+    const { importArchive } = await import('../../storage/archive.js');
 
     const encrypted = await isEncryptedArchive(inputPath);
 
@@ -119,9 +258,19 @@ export const importCommand: Command = {
       inputPath,
       password,
       merge,
+      reconcile,
       dryRun,
     });
 
+    if (result.report) {
+      printMergeReport(result.report);
+      if (reportPath) {
+        writeFileSync(reportPath, JSON.stringify(result.report, null, 2));
+        console.log(`Conflict report: ${reportPath}`);
+      }
+      return;
+    }
+
     const parts = [
       `${formatCount(result.chunkCount)} chunks`,
       `${formatCount(result.edgeCount)} edges`,
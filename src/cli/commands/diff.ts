@@ -0,0 +1,44 @@
+import { basename } from 'node:path';
+import type { Command } from '../types.js';
+
+export const diffCommand: Command = {
+  name: 'diff',
+  description: 'Show what changed in memory for a project',
+  usage: 'causantic diff [--project <slug>] [--since <date>] [--json]',
+  handler: async (args) => {
+    const projectIndex = args.indexOf('--project');
+    const project = projectIndex !== -1 ? args[projectIndex + 1] : basename(process.cwd());
+    if (!project) {
+      console.error('Error: --project requires a slug');
+      process.exit(2);
+    }
+
+    const { computeMemoryDiff, formatMemoryDiff, parseSince } =
+      await import('../../retrieval/memory-diff.js');
+
+    const sinceIndex = args.indexOf('--since');
+    let since: string;
+    if (sinceIndex !== -1) {
+      const value = args[sinceIndex + 1];
+      if (!value) {
+        console.error('Error: --since requires a date');
+        process.exit(2);
+      }
+      try {
+        since = parseSince(value);
+      } catch (error) {
+        console.error(`Error: ${(error as Error).message}`);
+        process.exit(2);
+      }
+    } else {
+      since = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
+    }
+
+    const diff = computeMemoryDiff(project, since);
+    if (args.includes('--json')) {
+      console.log(JSON.stringify(diff, null, 2));
+    } else {
+      console.log(formatMemoryDiff(diff));
+    }
+  },
+};
@@ -1,6 +1,65 @@
 import type { Command } from '../types.js';
-import { runTask, runAllTasks, getStatus, runDaemon } from '../../maintenance/scheduler.js';
+import {
+  runTask,
+  runAllTasks,
+  getStatus,
+  runDaemon,
+  previewRetention,
+  previewEmbeddingMigration,
+} from '../../maintenance/scheduler.js';
 import { rebuildEdges } from '../../ingest/rebuild-edges.js';
+import type { ProjectRetentionReport } from '../../storage/retention.js';
+
+function formatMb(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Print the retention dry-run report: what the policy would prune and why.
+ */
+async function printRetentionPreview(): Promise<void> {
+  const preview = await previewRetention();
+  console.log('Retention (dry run):');
+  if (!preview.success || !preview.details) {
+    console.log(`  ${preview.message}`);
+    return;
+  }
+
+  const details = preview.details as {
+    dbSizeBytes: number;
+    maxDbSizeBytes: number;
+    projects: ProjectRetentionReport[];
+  };
+  const limit = details.maxDbSizeBytes > 0 ? formatMb(details.maxDbSizeBytes) : 'unlimited';
+  console.log(`  Database: ${formatMb(details.dbSizeBytes)} (limit: ${limit})`);
+
+  for (const p of details.projects) {
+    const planned = p.byAge + p.byCount + p.bySize;
+    if (planned === 0) continue;
+    console.log(
+      `  ${p.project}: ${planned} of ${p.totalChunks} chunks (age: ${p.byAge}, count: ${p.byCount}, size: ${p.bySize}; ${p.protectedChunks} protected)`,
+    );
+  }
+  console.log(`  ${preview.message}`);
+}
+
+/**
+ * Print progress of a pending embedding model migration, if any.
+ */
+async function printEmbeddingMigration(): Promise<void> {
+  const preview = await previewEmbeddingMigration();
+  if (!preview) return;
+
+  console.log('');
+  console.log(`Embedding migration: ${preview.servingModel} → ${preview.targetModel}`);
+  if (!preview.status) {
+    console.log('  Not started (runs with the next migrate-embeddings task)');
+    return;
+  }
+  const pct = Math.floor(preview.status.coverage * 100);
+  console.log(`  Progress: ${preview.status.done}/${preview.status.total} vectors (${pct}%)`);
+  console.log(`  Serving: ${preview.servingModel} until coverage reaches 100%`);
+}
 
 export const maintenanceCommand: Command = {
   name: 'maintenance',
@@ -26,7 +85,9 @@ export const maintenanceCommand: Command = {
         } else {
           console.error('Error: Task name required');
           console.log('Usage: causantic maintenance run <task|all>');
-          console.log('Tasks: scan-projects, update-clusters, cleanup-vectors, vacuum');
+          console.log(
+            'Tasks: scan-projects, update-clusters, cleanup-vectors, enforce-retention, migrate-embeddings, evict-repomap-cache, vacuum',
+          );
           process.exit(2);
         }
         break;
@@ -49,6 +110,8 @@ export const maintenanceCommand: Command = {
           }
           console.log('');
         }
+        await printRetentionPreview();
+        await printEmbeddingMigration();
         break;
       }
       case 'rebuild-edges': {
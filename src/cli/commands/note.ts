@@ -0,0 +1,58 @@
+import { basename } from 'node:path';
+import type { Command } from '../types.js';
+
+/** Flags that consume the following argument. */
+const VALUE_FLAGS = new Set(['--project', '--tags']);
+
+export const noteCommand: Command = {
+  name: 'note',
+  description: 'Store a pinned note in memory',
+  usage: 'causantic note <text> [--project <slug>] [--tags <a,b>] [--no-pin]',
+  handler: async (args) => {
+    const words: string[] = [];
+    for (let i = 0; i < args.length; i++) {
+      if (VALUE_FLAGS.has(args[i])) {
+        i++;
+      } else if (!args[i].startsWith('--')) {
+        words.push(args[i]);
+      }
+    }
+
+    const content = words.join(' ').trim();
+    if (!content) {
+      console.error('Error: Note text required');
+      console.log(`Usage: ${noteCommand.usage}`);
+      process.exit(2);
+    }
+
+    const projectIndex = args.indexOf('--project');
+    const project = projectIndex !== -1 ? args[projectIndex + 1] : basename(process.cwd());
+    if (!project) {
+      console.error('Error: --project requires a slug');
+      process.exit(2);
+    }
+
+    const tagsIndex = args.indexOf('--tags');
+    const rawTags = tagsIndex !== -1 ? args[tagsIndex + 1] : undefined;
+
+    const { storeNote, parseTags } = await import('../../ingest/note.js');
+    const { disposeSearch } = await import('../../retrieval/search-assembler.js');
+
+    try {
+      const note = await storeNote({
+        content,
+        project,
+        tags: parseTags(rawTags),
+        pinned: !args.includes('--no-pin'),
+        projectPath: projectIndex === -1 ? process.cwd() : undefined,
+      });
+
+      console.log(`Stored ${note.pinned ? 'pinned ' : ''}note ${note.id} in project "${project}"`);
+      if (note.tags.length > 0) {
+        console.log(`Tags: ${note.tags.join(', ')}`);
+      }
+    } finally {
+      await disposeSearch();
+    }
+  },
+};
@@ -10,6 +10,7 @@ import { Embedder } from '../../models/embedder.js';
 import { getModel } from '../../models/model-registry.js';
 import { loadConfig, toRuntimeConfig } from '../../config/loader.js';
 import { serializeEmbedding } from '../../utils/embedding-utils.js';
+import { abandonEmbeddingMigration } from '../../storage/embedding-migration.js';
 
 /**
  * Get or create a progress tracking table and return the last completed batch.
@@ -115,6 +116,11 @@ export const reindexCommand: Command = {
       return;
     }
 
+    // Reindexing replaces vectors directly, so a background migration is moot
+    if (abandonEmbeddingMigration()) {
+      console.log('Discarded unfinished background embedding migration');
+    }
+
     // Load the embedder
     const embedder = new Embedder();
     await embedder.load(modelConfig);
@@ -3,8 +3,42 @@ import type { Command } from '../types.js';
 export const serveCommand: Command = {
   name: 'serve',
   description: 'Start the MCP server',
-  usage: 'causantic serve [--health-check]',
-  handler: async (_args) => {
+  usage: 'causantic serve [--http <port>] [--host <address>] [--health-check]',
+  handler: async (args) => {
+    const httpIndex = args.indexOf('--http');
+    if (httpIndex !== -1) {
+      const port = parseInt(args[httpIndex + 1], 10);
+      if (isNaN(port) || port < 0 || port > 65535) {
+        console.error('Error: --http requires a port number');
+        process.exit(2);
+      }
+      const hostIndex = args.indexOf('--host');
+      const host = hostIndex !== -1 ? args[hostIndex + 1] : '127.0.0.1';
+
+      const { startHttpTransport, resolveHttpAuthToken, writeHttpTokenFile, MCP_ENDPOINT } =
+        await import('../../mcp/http-transport.js');
+      const { token, generated } = await resolveHttpAuthToken();
+      const transport = await startHttpTransport({ port, host, authToken: token });
+
+      // stderr keeps stdout clean for scripts that capture it
+      console.error(
+        `Causantic MCP server listening on http://${host}:${transport.port}${MCP_ENDPOINT}`,
+      );
+      if (generated) {
+        const tokenPath = writeHttpTokenFile(token);
+        console.error(`Generated bearer token (saved to secret store), written to ${tokenPath}`);
+      }
+
+      const shutdown = async () => {
+        await transport.close();
+        process.exit(0);
+      };
+      process.on('SIGINT', shutdown);
+      process.on('SIGTERM', shutdown);
+      await new Promise(() => {});
+      return;
+    }
+
     const mcpServer = await import('../../mcp/server.js');
     const startFn =
       (mcpServer as Record<string, unknown>).startMcpServer ??
@@ -11,6 +11,8 @@ import { initCommand } from './commands/init/index.js';
 import { serveCommand } from './commands/serve.js';
 import { ingestCommand, batchIngestCommand } from './commands/ingest.js';
 import { recallCommand } from './commands/search.js';
+import { noteCommand } from './commands/note.js';
+import { diffCommand } from './commands/diff.js';
 import { maintenanceCommand } from './commands/maintenance.js';
 import { configCommand } from './commands/config.js';
 import { statsCommand, healthCommand } from './commands/stats.js';
@@ -28,6 +30,8 @@ const commands: Command[] = [
   ingestCommand,
   batchIngestCommand,
   recallCommand,
+  noteCommand,
+  diffCommand,
   maintenanceCommand,
   configCommand,
   statsCommand,
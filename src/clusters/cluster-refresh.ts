@@ -1,15 +1,15 @@
 /**
  * LLM-based cluster description refresh.
- * Uses Claude API to generate human-readable descriptions for clusters.
+ * Uses the configured LLM provider (Claude API or a local OpenAI-compatible
+ * server) to generate human-readable descriptions for clusters.
  */
 
-import Anthropic from '@anthropic-ai/sdk';
 import { getConfig } from '../config/memory-config.js';
+import { getLLMProvider, callWithRetry, type LLMProvider } from '../models/llm-provider.js';
 import { getClusterById, upsertCluster, getStaleClusters } from '../storage/cluster-store.js';
 import { getChunksByIds } from '../storage/chunk-store.js';
 import type { StoredChunk } from '../storage/types.js';
 import { createLogger } from '../utils/logger.js';
-import { createSecretStore } from '../utils/secret-store.js';
 
 const log = createLogger('cluster-refresh');
 
@@ -59,10 +59,10 @@ class RateLimiter {
 }
 
 /**
- * Cluster refresher for generating descriptions using Claude.
+ * Cluster refresher for generating descriptions using an LLM.
  */
 export class ClusterRefresher {
-  private client: Anthropic | null = null;
+  private provider: LLMProvider | null = null;
   private rateLimiter: RateLimiter;
   private config = getConfig();
 
@@ -71,31 +71,21 @@ export class ClusterRefresher {
   }
 
   /**
-   * Initialize the Anthropic client.
-   * Checks keychain for API key if not set in environment.
+   * Resolve the LLM provider.
+   * Checks keychain for an Anthropic API key if not set in environment.
    */
-  private async getClient(): Promise<Anthropic> {
-    if (!this.client) {
-      // Check if API key is in environment
-      if (!process.env.ANTHROPIC_API_KEY) {
-        // Try to load from keychain
-        const store = createSecretStore();
-        const storedKey = await store.get('anthropic-api-key');
-        if (storedKey) {
-          process.env.ANTHROPIC_API_KEY = storedKey;
-        }
-      }
-
-      if (!process.env.ANTHROPIC_API_KEY) {
+  private async getProvider(): Promise<LLMProvider> {
+    if (!this.provider) {
+      const provider = await getLLMProvider(this.config);
+      if (!provider) {
         throw new Error(
           'No Anthropic API key found. Set ANTHROPIC_API_KEY environment variable ' +
             'or run "causantic config set-key anthropic-api-key" to store in keychain.',
         );
       }
-
-      this.client = new Anthropic();
+      this.provider = provider;
     }
-    return this.client;
+    return this.provider;
   }
 
   /**
@@ -133,16 +123,11 @@ export class ClusterRefresher {
     // Rate limit
     await this.rateLimiter.wait();
 
-    // Call Claude API
-    const client = await this.getClient();
-    const response = await client.messages.create({
-      model,
-      max_tokens: 200,
-      messages: [{ role: 'user', content: prompt }],
-    });
+    // Call the LLM
+    const provider = await this.getProvider();
+    const text = await callWithRetry(provider, { model, prompt, maxTokens: 200 });
 
     // Parse response
-    const text = response.content[0].type === 'text' ? response.content[0].text : '';
     const { name, description } = parseRefreshResponse(text);
 
     // Update cluster
@@ -167,7 +152,7 @@ export class ClusterRefresher {
     options: RefreshOptions & { maxAgeMs?: number } = {},
   ): Promise<RefreshResult[]> {
     // Fail fast if no API key — avoid per-cluster error spam
-    await this.getClient();
+    await this.getProvider();
 
     const { maxAgeMs = 24 * 60 * 60 * 1000, onProgress } = options; // Default: 24 hours
 
@@ -192,7 +177,7 @@ export class ClusterRefresher {
    */
   async refreshAllClusters(options: RefreshOptions = {}): Promise<RefreshResult[]> {
     // Fail fast if no API key — avoid per-cluster error spam
-    await this.getClient();
+    await this.getProvider();
 
     const { onProgress } = options;
     const staleClusters = getStaleClusters(0); // Get all
@@ -12,11 +12,18 @@
 import { existsSync, readFileSync } from 'node:fs';
 import { join } from 'node:path';
 import { resolvePath, DEFAULT_CONFIG, type MemoryConfig } from './memory-config.js';
-import { getAllModelIds } from '../models/model-registry.js';
+import { getAllModelIds, isValidModelId } from '../models/model-registry.js';
 import { createLogger } from '../utils/logger.js';
 
 const log = createLogger('config-loader');
 
+/** Per-project retention limits overriding the retention defaults */
+export interface RetentionOverride {
+  maxAgeDays?: number;
+  maxChunks?: number;
+  keepRetrievedWithinDays?: number;
+}
+
 /** External config file structure (matches config.schema.json) */
 export interface ExternalConfig {
   clustering?: {
@@ -39,8 +46,12 @@ export interface ExternalConfig {
   llm?: {
     clusterRefreshModel?: string;
     refreshRateLimitPerMin?: number;
-    /** Enable LLM-based cluster labelling. Requires Anthropic API key. Default: true. */
+    /** Enable LLM-based cluster labelling. Requires an API key or a local endpoint. Default: true. */
     enableLabelling?: boolean;
+    /** LLM backend: 'anthropic' or 'openai' (OpenAI-compatible chat endpoint). Default: 'anthropic'. */
+    provider?: 'anthropic' | 'openai';
+    /** Base URL for the 'openai' provider. Default: 'http://localhost:11434/v1' (Ollama). */
+    endpoint?: string;
   };
   encryption?: {
     enabled?: boolean;
@@ -53,19 +64,57 @@ export interface ExternalConfig {
     ttlDays?: number;
     /** Maximum number of vectors to keep. Oldest by last_accessed are evicted. 0 = unlimited. Default: 0 */
     maxCount?: number;
+    /** Search large projects through an HNSW approximate nearest-neighbour index. Default: true */
+    annEnabled?: boolean;
+    /** Projects with fewer vectors than this are searched exactly. Default: 5000 */
+    annMinVectors?: number;
+    /** HNSW links per node (the base layer keeps twice as many). Default: 16 */
+    hnswM?: number;
+    /** HNSW candidate list size while inserting. Default: 100 */
+    hnswEfConstruction?: number;
+    /** HNSW candidate list size while searching. Higher is more accurate and slower. Default: 64 */
+    hnswEfSearch?: number;
+    /** In-memory vector encoding: 'none' (float), 'int8' (scalar) or 'binary' (sign bits). Default: 'none' */
+    quantization?: 'none' | 'int8' | 'binary';
+    /** With quantization, re-rank limit × this many candidates with full-precision vectors. Default: 4 */
+    rerankMultiplier?: number;
   };
   embedding?: {
     /** Device for embedding inference: 'auto' | 'coreml' | 'cuda' | 'cpu' | 'wasm'. Default: 'auto'. */
     device?: string;
-    /** Embedding model ID from model registry. Default: 'jina-small'. */
+    /** Embedding model ID: a registry model, 'hash[:<dims>]', or 'openai:<model>'. Default: 'jina-small'. */
     model?: string;
     /** Embed chunks eagerly during ingestion. Default: false. */
     eager?: boolean;
+    /** Base URL of the OpenAI-compatible API used by 'openai:' models. Default: 'http://localhost:11434/v1'. */
+    endpoint?: string;
+    /** Vector dimensions returned by 'openai:' models. Required for those models. */
+    dimensions?: number;
+    /** Vectors re-embedded per migrate-embeddings run after a model change. Default: 500. */
+    migrationBatchSize?: number;
+    /** Sampled queries for the recall@k comparison before a migration flips. 0 = skip. Default: 20. */
+    migrationSampleSize?: number;
   };
   maintenance?: {
     /** Hour of day (0-23) to run reclustering. Default: 2. */
     clusterHour?: number;
   };
+  retention?: {
+    /** Delete chunks selected by the policy. When false the task only reports. Default: false */
+    enabled?: boolean;
+    /** Prune chunks older than this many days. 0 = unlimited. Default: 0 */
+    maxAgeDays?: number;
+    /** Maximum chunks to keep per project. Oldest are pruned first. 0 = unlimited. Default: 0 */
+    maxChunks?: number;
+    /** Prune oldest chunks until the database fits this size in MB. 0 = unlimited. Default: 0 */
+    maxDbSizeMb?: number;
+    /** Keep chunks returned by retrieval within this many days. 0 = disabled. Default: 30 */
+    keepRetrievedWithinDays?: number;
+    /** Allow pinned chunks to be pruned. Default: false */
+    includePinned?: boolean;
+    /** Per-project overrides of maxAgeDays, maxChunks and keepRetrievedWithinDays, keyed by slug. */
+    projects?: Record<string, RetentionOverride>;
+  };
   retrieval?: {
     /** MMR lambda: 0 = pure diversity, 1 = pure relevance. Default: 0.7 */
     mmrLambda?: number;
@@ -75,6 +124,8 @@ export interface ExternalConfig {
     primary?: 'keyword' | 'vector' | 'hybrid';
     /** Use vector search to enrich keyword results when primary is 'keyword'. Default: false. */
     vectorEnrichment?: boolean;
+    /** Extract date, project, agent, file and tool filters from query text. Default: true. */
+    parseQuery?: boolean;
   };
   recency?: {
     /** Amplitude of the time-decay boost (multiplied by exp decay). Default: 0.3 */
@@ -88,6 +139,16 @@ export interface ExternalConfig {
     /** Reference token count for penalty calculation. Must be > 0. Default: 500 */
     referenceTokens?: number;
   };
+  reranker?: {
+    /** Rerank top fused candidates with a local cross-encoder. Default: false */
+    enabled?: boolean;
+    /** Hugging Face id of the ONNX cross-encoder. Default: 'Xenova/ms-marco-MiniLM-L-6-v2' */
+    model?: string;
+    /** Fused candidates to rerank. Default: 30 */
+    topN?: number;
+    /** Stop scoring further candidates after this many ms. Default: 500 */
+    latencyBudgetMs?: number;
+  };
   semanticIndex?: {
     /** Enable semantic index generation. Default: true. */
     enabled?: boolean;
@@ -98,6 +159,14 @@ export interface ExternalConfig {
     /** Use index entries for search when available. Default: true. */
     useForSearch?: boolean;
   };
+  repomap?: {
+    /** Enable repo map generation. Default: true. */
+    enabled?: boolean;
+    /** Maximum tokens for the repo map output. Default: 1024. */
+    maxTokens?: number;
+    /** Directory of tree-sitter grammar packs. Default: '~/.causantic/grammars'. */
+    grammarsDir?: string;
+  };
 }
 
 /** Default external config values */
@@ -122,6 +191,8 @@ const EXTERNAL_DEFAULTS: Required<ExternalConfig> = {
     clusterRefreshModel: 'claude-3-haiku-20240307',
     refreshRateLimitPerMin: 30,
     enableLabelling: true,
+    provider: 'anthropic',
+    endpoint: 'http://localhost:11434/v1',
   },
   encryption: {
     enabled: false,
@@ -132,20 +203,40 @@ const EXTERNAL_DEFAULTS: Required<ExternalConfig> = {
   vectors: {
     ttlDays: 90,
     maxCount: 0,
+    annEnabled: true,
+    annMinVectors: 5000,
+    hnswM: 16,
+    hnswEfConstruction: 100,
+    hnswEfSearch: 64,
+    quantization: 'none',
+    rerankMultiplier: 4,
   },
   embedding: {
     device: 'auto',
     model: 'jina-small',
     eager: false,
+    endpoint: 'http://localhost:11434/v1',
+    migrationBatchSize: 500,
+    migrationSampleSize: 20,
   },
   maintenance: {
     clusterHour: 2,
   },
+  retention: {
+    enabled: false,
+    maxAgeDays: 0,
+    maxChunks: 0,
+    maxDbSizeMb: 0,
+    keepRetrievedWithinDays: 30,
+    includePinned: false,
+    projects: {},
+  },
   retrieval: {
     mmrLambda: 0.7,
     feedbackWeight: 0.1,
     primary: 'hybrid',
     vectorEnrichment: false,
+    parseQuery: true,
   },
   recency: {
     decayFactor: 0.3,
@@ -155,12 +246,23 @@ const EXTERNAL_DEFAULTS: Required<ExternalConfig> = {
     enabled: true,
     referenceTokens: 500,
   },
+  reranker: {
+    enabled: false,
+    model: 'Xenova/ms-marco-MiniLM-L-6-v2',
+    topN: 30,
+    latencyBudgetMs: 500,
+  },
   semanticIndex: {
     enabled: false,
     targetDescriptionTokens: 130,
     batchRefreshLimit: 500,
     useForSearch: true,
   },
+  repomap: {
+    enabled: true,
+    maxTokens: 1024,
+    grammarsDir: '~/.causantic/grammars',
+  },
 };
 
 /**
@@ -210,6 +312,8 @@ export const ENV_MAPPINGS: EnvMapping[] = [
   { env: 'CAUSANTIC_LLM_CLUSTER_REFRESH_MODEL', path: 'llm.clusterRefreshModel', type: 'string' },
   { env: 'CAUSANTIC_LLM_REFRESH_RATE_LIMIT', path: 'llm.refreshRateLimitPerMin', type: 'int' },
   { env: 'CAUSANTIC_LLM_ENABLE_LABELLING', path: 'llm.enableLabelling', type: 'boolean' },
+  { env: 'CAUSANTIC_LLM_PROVIDER', path: 'llm.provider', type: 'string' },
+  { env: 'CAUSANTIC_LLM_ENDPOINT', path: 'llm.endpoint', type: 'string' },
   // Encryption
   { env: 'CAUSANTIC_ENCRYPTION_ENABLED', path: 'encryption.enabled', type: 'boolean' },
   { env: 'CAUSANTIC_ENCRYPTION_CIPHER', path: 'encryption.cipher', type: 'string' },
@@ -218,12 +322,39 @@ export const ENV_MAPPINGS: EnvMapping[] = [
   // Vectors
   { env: 'CAUSANTIC_VECTORS_TTL_DAYS', path: 'vectors.ttlDays', type: 'int' },
   { env: 'CAUSANTIC_VECTORS_MAX_COUNT', path: 'vectors.maxCount', type: 'int' },
+  { env: 'CAUSANTIC_VECTORS_ANN_ENABLED', path: 'vectors.annEnabled', type: 'boolean' },
+  { env: 'CAUSANTIC_VECTORS_ANN_MIN_VECTORS', path: 'vectors.annMinVectors', type: 'int' },
+  { env: 'CAUSANTIC_VECTORS_HNSW_EF_SEARCH', path: 'vectors.hnswEfSearch', type: 'int' },
+  { env: 'CAUSANTIC_VECTORS_QUANTIZATION', path: 'vectors.quantization', type: 'string' },
+  { env: 'CAUSANTIC_VECTORS_RERANK_MULTIPLIER', path: 'vectors.rerankMultiplier', type: 'int' },
   // Maintenance
   { env: 'CAUSANTIC_MAINTENANCE_CLUSTER_HOUR', path: 'maintenance.clusterHour', type: 'int' },
+  // Retention
+  { env: 'CAUSANTIC_RETENTION_ENABLED', path: 'retention.enabled', type: 'boolean' },
+  { env: 'CAUSANTIC_RETENTION_MAX_AGE_DAYS', path: 'retention.maxAgeDays', type: 'int' },
+  { env: 'CAUSANTIC_RETENTION_MAX_CHUNKS', path: 'retention.maxChunks', type: 'int' },
+  { env: 'CAUSANTIC_RETENTION_MAX_DB_SIZE_MB', path: 'retention.maxDbSizeMb', type: 'int' },
+  {
+    env: 'CAUSANTIC_RETENTION_KEEP_RETRIEVED_DAYS',
+    path: 'retention.keepRetrievedWithinDays',
+    type: 'int',
+  },
   // Embedding
   { env: 'CAUSANTIC_EMBEDDING_DEVICE', path: 'embedding.device', type: 'string' },
   { env: 'CAUSANTIC_EMBEDDING_MODEL', path: 'embedding.model', type: 'string' },
   { env: 'CAUSANTIC_EMBEDDING_EAGER', path: 'embedding.eager', type: 'boolean' },
+  { env: 'CAUSANTIC_EMBEDDING_ENDPOINT', path: 'embedding.endpoint', type: 'string' },
+  { env: 'CAUSANTIC_EMBEDDING_DIMENSIONS', path: 'embedding.dimensions', type: 'int' },
+  {
+    env: 'CAUSANTIC_EMBEDDING_MIGRATION_BATCH_SIZE',
+    path: 'embedding.migrationBatchSize',
+    type: 'int',
+  },
+  {
+    env: 'CAUSANTIC_EMBEDDING_MIGRATION_SAMPLE_SIZE',
+    path: 'embedding.migrationSampleSize',
+    type: 'int',
+  },
   // Retrieval
   { env: 'CAUSANTIC_RETRIEVAL_MMR_LAMBDA', path: 'retrieval.mmrLambda', type: 'float' },
   { env: 'CAUSANTIC_RETRIEVAL_FEEDBACK_WEIGHT', path: 'retrieval.feedbackWeight', type: 'float' },
@@ -233,9 +364,19 @@ export const ENV_MAPPINGS: EnvMapping[] = [
     path: 'retrieval.vectorEnrichment',
     type: 'boolean',
   },
+  { env: 'CAUSANTIC_RETRIEVAL_PARSE_QUERY', path: 'retrieval.parseQuery', type: 'boolean' },
   // Recency
   { env: 'CAUSANTIC_RECENCY_DECAY_FACTOR', path: 'recency.decayFactor', type: 'float' },
   { env: 'CAUSANTIC_RECENCY_HALF_LIFE_HOURS', path: 'recency.halfLifeHours', type: 'float' },
+  // Reranker
+  { env: 'CAUSANTIC_RERANKER_ENABLED', path: 'reranker.enabled', type: 'boolean' },
+  { env: 'CAUSANTIC_RERANKER_MODEL', path: 'reranker.model', type: 'string' },
+  { env: 'CAUSANTIC_RERANKER_TOP_N', path: 'reranker.topN', type: 'int' },
+  {
+    env: 'CAUSANTIC_RERANKER_LATENCY_BUDGET_MS',
+    path: 'reranker.latencyBudgetMs',
+    type: 'int',
+  },
   // Semantic Index
   { env: 'CAUSANTIC_SEMANTIC_INDEX_ENABLED', path: 'semanticIndex.enabled', type: 'boolean' },
   {
@@ -243,6 +384,10 @@ export const ENV_MAPPINGS: EnvMapping[] = [
     path: 'semanticIndex.useForSearch',
     type: 'boolean',
   },
+  // Repo map
+  { env: 'CAUSANTIC_REPOMAP_ENABLED', path: 'repomap.enabled', type: 'boolean' },
+  { env: 'CAUSANTIC_REPOMAP_MAX_TOKENS', path: 'repomap.maxTokens', type: 'int' },
+  { env: 'CAUSANTIC_REPOMAP_GRAMMARS_DIR', path: 'repomap.grammarsDir', type: 'string' },
 ];
 
 /**
@@ -382,16 +527,81 @@ export function validateExternalConfig(config: ExternalConfig): string[] {
       errors.push('vectors.maxCount must be >= 0 (0 = unlimited)');
     }
   }
+  if (config.vectors?.annMinVectors !== undefined) {
+    if (config.vectors.annMinVectors < 0) {
+      errors.push('vectors.annMinVectors must be >= 0');
+    }
+  }
+  if (config.vectors?.hnswM !== undefined) {
+    if (config.vectors.hnswM < 2) {
+      errors.push('vectors.hnswM must be at least 2');
+    }
+  }
+  if (config.vectors?.hnswEfConstruction !== undefined) {
+    if (config.vectors.hnswEfConstruction < 1) {
+      errors.push('vectors.hnswEfConstruction must be at least 1');
+    }
+  }
+  if (config.vectors?.hnswEfSearch !== undefined) {
+    if (config.vectors.hnswEfSearch < 1) {
+      errors.push('vectors.hnswEfSearch must be at least 1');
+    }
+  }
+  if (config.vectors?.quantization !== undefined) {
+    if (!['none', 'int8', 'binary'].includes(config.vectors.quantization)) {
+      errors.push(`vectors.quantization must be 'none', 'int8' or 'binary'`);
+    }
+  }
+  if (config.vectors?.rerankMultiplier !== undefined) {
+    if (config.vectors.rerankMultiplier < 1) {
+      errors.push('vectors.rerankMultiplier must be at least 1');
+    }
+  }
+
+  // LLM validation
+  if (config.llm?.provider !== undefined) {
+    if (!['anthropic', 'openai'].includes(config.llm.provider)) {
+      errors.push(`llm.provider must be 'anthropic' or 'openai'`);
+    }
+  }
+  if (config.llm?.endpoint !== undefined) {
+    if (!/^https?:\/\//.test(config.llm.endpoint)) {
+      errors.push('llm.endpoint must be an http(s) URL');
+    }
+  }
 
   // Embedding validation
   if (config.embedding?.model !== undefined) {
-    const validModels = getAllModelIds();
-    if (!validModels.includes(config.embedding.model)) {
+    if (!isValidModelId(config.embedding.model)) {
+      errors.push(
+        `embedding.model '${config.embedding.model}' is not a registered model. Available: ${getAllModelIds().join(', ')}, hash[:<dims>], openai:<model>`,
+      );
+    } else if (config.embedding.model.startsWith('openai:') && !config.embedding.dimensions) {
       errors.push(
-        `embedding.model '${config.embedding.model}' is not a registered model. Available: ${validModels.join(', ')}`,
+        `embedding.dimensions is required for embedding.model '${config.embedding.model}'`,
       );
     }
   }
+  if (config.embedding?.dimensions !== undefined) {
+    if (!Number.isInteger(config.embedding.dimensions) || config.embedding.dimensions < 1) {
+      errors.push('embedding.dimensions must be a positive integer');
+    }
+  }
+  if (config.embedding?.migrationBatchSize !== undefined) {
+    if (config.embedding.migrationBatchSize < 1) {
+      errors.push('embedding.migrationBatchSize must be >= 1');
+    }
+  }
+  if (config.embedding?.migrationSampleSize !== undefined) {
+    if (config.embedding.migrationSampleSize < 0) {
+      errors.push('embedding.migrationSampleSize must be >= 0 (0 = skip recall comparison)');
+    }
+  }
+  if (config.embedding?.endpoint !== undefined) {
+    if (!/^https?:\/\//.test(config.embedding.endpoint)) {
+      errors.push('embedding.endpoint must be an http(s) URL');
+    }
+  }
 
   // Maintenance validation
   if (config.maintenance?.clusterHour !== undefined) {
@@ -400,6 +610,26 @@ export function validateExternalConfig(config: ExternalConfig): string[] {
     }
   }
 
+  // Retention validation
+  if (config.retention) {
+    const limits: Array<[string, number | undefined]> = [
+      ['maxAgeDays', config.retention.maxAgeDays],
+      ['maxChunks', config.retention.maxChunks],
+      ['maxDbSizeMb', config.retention.maxDbSizeMb],
+      ['keepRetrievedWithinDays', config.retention.keepRetrievedWithinDays],
+    ];
+    for (const [slug, override] of Object.entries(config.retention.projects ?? {})) {
+      limits.push([`projects.${slug}.maxAgeDays`, override.maxAgeDays]);
+      limits.push([`projects.${slug}.maxChunks`, override.maxChunks]);
+      limits.push([`projects.${slug}.keepRetrievedWithinDays`, override.keepRetrievedWithinDays]);
+    }
+    for (const [key, value] of limits) {
+      if (value !== undefined && value < 0) {
+        errors.push(`retention.${key} must be >= 0 (0 = unlimited)`);
+      }
+    }
+  }
+
   // Recency validation
   if (config.recency?.halfLifeHours !== undefined) {
     if (config.recency.halfLifeHours <= 0) {
@@ -419,6 +649,16 @@ export function validateExternalConfig(config: ExternalConfig): string[] {
     }
   }
 
+  // Reranker validation
+  if (config.reranker?.topN !== undefined) {
+    if (config.reranker.topN < 2 || config.reranker.topN > 500) {
+      errors.push('reranker.topN must be between 2 and 500');
+    }
+  }
+  if (config.reranker?.latencyBudgetMs !== undefined && config.reranker.latencyBudgetMs <= 0) {
+    errors.push('reranker.latencyBudgetMs must be greater than 0');
+  }
+
   // Retrieval validation
   if (config.retrieval?.primary !== undefined) {
     if (!['keyword', 'vector', 'hybrid'].includes(config.retrieval.primary)) {
@@ -541,9 +781,12 @@ export const CONFIG_MAPPINGS: ConfigMapping[] = [
   // LLM
   { from: 'llm.clusterRefreshModel', to: 'clusterRefreshModel' },
   { from: 'llm.refreshRateLimitPerMin', to: 'refreshRateLimitPerMin' },
+  { from: 'llm.provider', to: 'llmProvider' },
+  { from: 'llm.endpoint', to: 'llmEndpoint' },
   // Retrieval strategy
   { from: 'retrieval.primary', to: 'retrievalPrimary' },
   { from: 'retrieval.vectorEnrichment', to: 'vectorEnrichment' },
+  { from: 'retrieval.parseQuery', to: 'queryParsing' },
   // Embedding
   { from: 'embedding.model', to: 'embeddingModel' },
   { from: 'embedding.eager', to: 'embeddingEager' },
@@ -556,11 +799,20 @@ export const CONFIG_MAPPINGS: ConfigMapping[] = [
   // Length penalty
   { from: 'lengthPenalty.enabled', to: 'lengthPenalty.enabled' },
   { from: 'lengthPenalty.referenceTokens', to: 'lengthPenalty.referenceTokens' },
+  // Reranker
+  { from: 'reranker.enabled', to: 'reranker.enabled' },
+  { from: 'reranker.model', to: 'reranker.model' },
+  { from: 'reranker.topN', to: 'reranker.topN' },
+  { from: 'reranker.latencyBudgetMs', to: 'reranker.latencyBudgetMs' },
   // Semantic index
   { from: 'semanticIndex.enabled', to: 'semanticIndex.enabled' },
   { from: 'semanticIndex.targetDescriptionTokens', to: 'semanticIndex.targetDescriptionTokens' },
   { from: 'semanticIndex.batchRefreshLimit', to: 'semanticIndex.batchRefreshLimit' },
   { from: 'semanticIndex.useForSearch', to: 'semanticIndex.useForSearch' },
+  // Repo map
+  { from: 'repomap.enabled', to: 'repomap.enabled' },
+  { from: 'repomap.maxTokens', to: 'repomap.maxTokens' },
+  { from: 'repomap.grammarsDir', to: 'repomap.grammarsDir' },
 ];
 
 /** Read a value from a nested object using a dot-separated path. */
@@ -602,6 +854,7 @@ export function toRuntimeConfig(external: Required<ExternalConfig>): MemoryConfi
     mmrReranking: { ...DEFAULT_CONFIG.mmrReranking },
     recency: { ...DEFAULT_CONFIG.recency },
     lengthPenalty: { ...DEFAULT_CONFIG.lengthPenalty },
+    reranker: { ...DEFAULT_CONFIG.reranker },
     repomap: { ...DEFAULT_CONFIG.repomap, languages: [...DEFAULT_CONFIG.repomap.languages] },
     semanticIndex: { ...DEFAULT_CONFIG.semanticIndex },
   };
@@ -27,6 +27,10 @@ export interface MemoryConfig {
   clusterRefreshModel: string;
   /** Rate limit for refresh calls (per minute) */
   refreshRateLimitPerMin: number;
+  /** LLM backend: 'anthropic' (Claude API) or 'openai' (any OpenAI-compatible chat endpoint) */
+  llmProvider: 'anthropic' | 'openai';
+  /** Base URL of the OpenAI-compatible API used when llmProvider is 'openai' */
+  llmEndpoint: string;
 
   // Hybrid search
   /** Configuration for hybrid BM25 + vector search */
@@ -74,6 +78,18 @@ export interface MemoryConfig {
     referenceTokens: number;
   };
 
+  /** Cross-encoder reranking of the top fused candidates */
+  reranker: {
+    /** Enable cross-encoder reranking. Default: false */
+    enabled: boolean;
+    /** Hugging Face id of the ONNX cross-encoder. Default: 'Xenova/ms-marco-MiniLM-L-6-v2' */
+    model: string;
+    /** Fused candidates to rerank. Default: 30 */
+    topN: number;
+    /** Latency budget for scoring in ms. Default: 500 */
+    latencyBudgetMs: number;
+  };
+
   // Clustering (incremental)
   /** Ratio of new chunks that triggers a full recluster. Default: 0.3 (30%). */
   incrementalClusterThreshold: number;
@@ -83,9 +99,11 @@ export interface MemoryConfig {
   retrievalPrimary: 'keyword' | 'vector' | 'hybrid';
   /** Use vector search to enrich keyword results when primary is 'keyword'. Default: false. */
   vectorEnrichment: boolean;
+  /** Extract date, project, agent, file and tool filters from query text. Default: true. */
+  queryParsing: boolean;
 
   // Embedding
-  /** Embedding model ID (from model registry). Default: 'jina-small'. */
+  /** Embedding model ID (registry model, 'hash[:<dims>]' or 'openai:<model>'). Default: 'jina-small'. */
   embeddingModel: string;
   /** Embed chunks eagerly during ingestion. When false, chunks stored without vectors. Default: false. */
   embeddingEager: boolean;
@@ -118,6 +136,8 @@ export interface MemoryConfig {
     maxTokens: number;
     /** Supported language extensions. Default: TS/JS only. */
     languages: string[];
+    /** Directory of tree-sitter grammar packs. Default: '~/.causantic/grammars'. */
+    grammarsDir: string;
   };
 }
 
@@ -142,6 +162,8 @@ export const DEFAULT_CONFIG: MemoryConfig = {
   // LLM refresh
   clusterRefreshModel: 'claude-3-haiku-20240307',
   refreshRateLimitPerMin: 30, // Haiku can handle much higher rates
+  llmProvider: 'anthropic',
+  llmEndpoint: 'http://localhost:11434/v1',
 
   // Hybrid search
   hybridSearch: {
@@ -171,12 +193,21 @@ export const DEFAULT_CONFIG: MemoryConfig = {
     referenceTokens: 500,
   },
 
+  // Cross-encoder reranking (opt-in — downloads a model on first search)
+  reranker: {
+    enabled: false,
+    model: 'Xenova/ms-marco-MiniLM-L-6-v2',
+    topN: 30,
+    latencyBudgetMs: 500,
+  },
+
   // Clustering (incremental)
   incrementalClusterThreshold: 0.3,
 
   // Retrieval strategy
   retrievalPrimary: 'hybrid',
   vectorEnrichment: false,
+  queryParsing: true,
 
   // Embedding
   embeddingModel: 'jina-small',
@@ -222,6 +253,7 @@ export const DEFAULT_CONFIG: MemoryConfig = {
       'perl',
       'r',
     ],
+    grammarsDir: '~/.causantic/grammars',
   },
 };
 
@@ -265,6 +297,7 @@ export function getConfig(overrides: Partial<MemoryConfig> = {}): MemoryConfig {
     mmrReranking: { ...base.mmrReranking, ...overrides.mmrReranking },
     recency: { ...base.recency, ...overrides.recency },
     lengthPenalty: { ...base.lengthPenalty, ...overrides.lengthPenalty },
+    reranker: { ...base.reranker, ...overrides.reranker },
     repomap: {
       ...base.repomap,
       ...overrides.repomap,
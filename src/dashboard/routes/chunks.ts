@@ -40,6 +40,7 @@ router.get('/', (req, res) => {
     tokenCount: c.approxTokens,
     codeBlockCount: c.codeBlockCount,
     toolUseCount: c.toolUseCount,
+    toolErrorCount: c.toolErrorCount,
   }));
 
   res.json({ chunks, total, page, limit });
@@ -5,11 +5,52 @@ import { fuseRRF } from '../../retrieval/rrf.js';
 import { getChunksByIds } from '../../storage/chunk-store.js';
 import { asyncHandler } from '../middleware/async-handler.js';
 import { searchContext } from '../../retrieval/search-assembler.js';
+import { hasFacets, queryChunkIdsByFacets, type ChunkFacets } from '../../storage/chunk-facets.js';
 
 const router = Router();
 
 /**
- * GET /api/search — Keyword search with BM25 scores.
+ * Parse facet filters from query params:
+ * tools, files (comma-separated), minToolUses, maxToolUses, hasErrors, hasCode, team, spawnDepth.
+ *
+ * @returns Facets (undefined when none are set), or an error message for invalid values
+ */
+function parseFacetQuery(
+  query: Record<string, unknown>,
+): { facets: ChunkFacets | undefined } | { error: string } {
+  const list = (value: unknown) => {
+    const items = typeof value === 'string' ? value.split(',').map((s) => s.trim()) : [];
+    return items.some(Boolean) ? items.filter(Boolean) : undefined;
+  };
+  const facets: ChunkFacets = {
+    tools: list(query.tools),
+    files: list(query.files),
+    team: typeof query.team === 'string' && query.team ? query.team : undefined,
+  };
+
+  for (const key of ['minToolUses', 'maxToolUses', 'spawnDepth'] as const) {
+    const value = query[key];
+    if (value === undefined || value === '') continue;
+    const count = Number(value);
+    if (!Number.isInteger(count) || count < 0) {
+      return { error: `${key} must be a non-negative integer` };
+    }
+    facets[key] = count;
+  }
+  for (const key of ['hasErrors', 'hasCode'] as const) {
+    const value = query[key];
+    if (value === undefined || value === '') continue;
+    if (value !== 'true' && value !== 'false') {
+      return { error: `${key} must be true or false` };
+    }
+    facets[key] = value === 'true';
+  }
+
+  return { facets: hasFacets(facets) ? facets : undefined };
+}
+
+/**
+ * GET /api/search — Keyword search with BM25 scores, optionally narrowed by facets.
  */
 router.get('/', (req, res) => {
   const query = req.query.q as string;
@@ -21,10 +62,17 @@ router.get('/', (req, res) => {
     return;
   }
 
+  const parsed = parseFacetQuery(req.query);
+  if ('error' in parsed) {
+    res.status(400).json({ error: parsed.error });
+    return;
+  }
+  const { facets } = parsed;
+
   const keywordStore = new KeywordStore();
   const results = project
-    ? keywordStore.searchByProject(query, project, limit)
-    : keywordStore.search(query, limit);
+    ? keywordStore.searchByProject(query, project, limit, undefined, undefined, facets)
+    : keywordStore.search(query, limit, undefined, facets);
 
   // Enrich with chunk previews
   const chunks = getChunksByIds(results.map((r) => r.id));
@@ -46,6 +94,7 @@ router.get('/', (req, res) => {
 
 /**
  * GET /api/search/compare — Side-by-side vector, keyword, fused, and full pipeline results.
+ * Accepts the same facet params as GET /api/search.
  */
 router.get(
   '/compare',
@@ -60,6 +109,13 @@ router.get(
       return;
     }
 
+    const parsed = parseFacetQuery(req.query);
+    if ('error' in parsed) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+    const { facets } = parsed;
+
     // Run full pipeline first to get the shared query embedding.
     // No token budget — result count is controlled by `limit` instead.
     const fullResponse = await searchContext({
@@ -67,6 +123,7 @@ router.get(
       projectFilter: project,
       maxTokens: Infinity,
       vectorSearchLimit: limit * 2,
+      facets,
     });
 
     // Run without clusters if A/B toggle is active
@@ -78,6 +135,7 @@ router.get(
         maxTokens: Infinity,
         vectorSearchLimit: limit * 2,
         skipClusters: true,
+        facets,
       });
     }
 
@@ -87,15 +145,21 @@ router.get(
     // Keyword search
     const keywordStore = new KeywordStore();
     const keywordResults = project
-      ? keywordStore.searchByProject(query, project, limit)
-      : keywordStore.search(query, limit);
+      ? keywordStore.searchByProject(query, project, limit, undefined, undefined, facets)
+      : keywordStore.search(query, limit, undefined, facets);
 
-    // Vector search using the shared embedding
+    // Vector search using the shared embedding, scored only over facet matches
     let vectorResults: Array<{ id: string; score: number }> = [];
     try {
-      const raw = project
-        ? await vectorStore.searchByProject(queryEmbedding, project, limit)
-        : await vectorStore.search(queryEmbedding, limit);
+      const raw = facets
+        ? await vectorStore.searchWithinIds(
+            queryEmbedding,
+            [...queryChunkIdsByFacets(facets, { projects: project })],
+            limit,
+          )
+        : project
+          ? await vectorStore.searchByProject(queryEmbedding, project, limit)
+          : await vectorStore.search(queryEmbedding, limit);
 
       vectorResults = raw.map((r) => ({
         id: r.id,
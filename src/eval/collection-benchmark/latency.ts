@@ -9,7 +9,14 @@ import { getChunkById } from '../../storage/chunk-store.js';
 import { assembleContext } from '../../retrieval/context-assembler.js';
 import { reconstructSession } from '../../retrieval/session-reconstructor.js';
 import { loadConfig, toRuntimeConfig } from '../../config/loader.js';
-import type { LatencyResult, LatencyPercentiles, BenchmarkSample } from './types.js';
+import { vectorStore } from '../../storage/vector-store.js';
+import { resolveServingModel } from '../../storage/embedding-migration.js';
+import type {
+  LatencyResult,
+  LatencyPercentiles,
+  BenchmarkSample,
+  VectorIndexResult,
+} from './types.js';
 
 /**
  * Compute percentiles from a sorted array of durations.
@@ -24,6 +31,53 @@ export function computePercentiles(durations: number[]): LatencyPercentiles {
   };
 }
 
+/**
+ * Compare approximate (HNSW and/or quantized) vector search against an exact
+ * full-precision scan, using the stored embeddings of sampled chunks as queries.
+ *
+ * @returns Recall@10 and timings, or undefined if no sampled chunk has a vector.
+ */
+export async function runVectorIndexBenchmark(
+  queryChunkIds: string[],
+  embeddingModel: string,
+): Promise<VectorIndexResult | undefined> {
+  vectorStore.setModelId(embeddingModel);
+  const annActive = await vectorStore.isAnnActive();
+  const quantization = await vectorStore.getQuantizationMode();
+
+  const approximateDurations: number[] = [];
+  const exactDurations: number[] = [];
+  let found = 0;
+  let expected = 0;
+  for (const chunkId of queryChunkIds) {
+    const query = await vectorStore.get(chunkId);
+    if (!query) continue;
+
+    let start = performance.now();
+    const exact = await vectorStore.searchForEvaluation(query, 10, true);
+    exactDurations.push(performance.now() - start);
+
+    start = performance.now();
+    const approximate = await vectorStore.searchForEvaluation(query, 10, false);
+    approximateDurations.push(performance.now() - start);
+
+    const exactIds = new Set(exact.map((r) => r.id));
+    found += approximate.filter((r) => exactIds.has(r.id)).length;
+    expected += exact.length;
+  }
+
+  if (exactDurations.length === 0) return undefined;
+  return {
+    vectorCount: await vectorStore.count(),
+    annActive,
+    quantization,
+    sampledQueries: exactDurations.length,
+    recallAt10: expected > 0 ? found / expected : 1,
+    approximate: computePercentiles(approximateDurations),
+    exact: computePercentiles(exactDurations),
+  };
+}
+
 /**
  * Run latency benchmarks.
  */
@@ -120,10 +174,17 @@ export async function runLatencyBenchmarks(
     }
   }
 
+  onProgress?.('Vector index recall...');
+  const vectorIndex = await runVectorIndexBenchmark(
+    queryIds,
+    resolveServingModel(config.embeddingModel),
+  );
+
   return {
     recall: computePercentiles(recallDurations),
     search: computePercentiles(searchDurations),
     predict: computePercentiles(predictDurations),
     reconstruct: computePercentiles(reconstructDurations),
+    vectorIndex,
   };
 }
@@ -170,6 +170,26 @@ export function generateMarkdownReport(result: CollectionBenchmarkResult): strin
       `| reconstruct | ${l.reconstruct.p50.toFixed(0)}ms | ${l.reconstruct.p95.toFixed(0)}ms | ${l.reconstruct.p99.toFixed(0)}ms |`,
     );
     lines.push('');
+
+    if (l.vectorIndex) {
+      const v = l.vectorIndex;
+      lines.push('### Vector Index');
+      lines.push('');
+      const quantization = v.quantization === 'none' ? '' : `, ${v.quantization} quantization`;
+      lines.push(
+        `${v.vectorCount} vectors, ${v.annActive ? 'HNSW index active' : 'exact search (below index threshold)'}${quantization}`,
+      );
+      lines.push('');
+      lines.push('| Metric | Value |');
+      lines.push('|--------|-------|');
+      lines.push(`| Recall@10 vs exact | ${(v.recallAt10 * 100).toFixed(1)}% |`);
+      lines.push(
+        `| Approximate p50 / p95 | ${v.approximate.p50.toFixed(1)}ms / ${v.approximate.p95.toFixed(1)}ms |`,
+      );
+      lines.push(`| Exact p50 / p95 | ${v.exact.p50.toFixed(1)}ms / ${v.exact.p95.toFixed(1)}ms |`);
+      lines.push(`| Sampled queries | ${v.sampledQueries} |`);
+      lines.push('');
+    }
   }
 
   // Trend
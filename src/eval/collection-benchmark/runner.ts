@@ -180,6 +180,12 @@ export function generateHighlights(
   // Latency highlights
   if (latency) {
     highlights.push(`p95 recall latency: ${latency.recall.p95.toFixed(0)}ms`);
+    const vectorIndex = latency.vectorIndex;
+    if (vectorIndex && (vectorIndex.annActive || vectorIndex.quantization !== 'none')) {
+      highlights.push(
+        `Vector index recall@10: ${(vectorIndex.recallAt10 * 100).toFixed(1)}% of exact search`,
+      );
+    }
   }
 
   return highlights;
@@ -98,11 +98,26 @@ export interface LatencyPercentiles {
   p99: number;
 }
 
+/** Approximate (HNSW and/or quantized) vector search compared against an exact scan. */
+export interface VectorIndexResult {
+  vectorCount: number;
+  /** Whether searches use the HNSW index at this collection size. */
+  annActive: boolean;
+  /** In-memory vector encoding. */
+  quantization: 'none' | 'int8' | 'binary';
+  sampledQueries: number;
+  /** Fraction of the exact top 10 also returned by approximate search. */
+  recallAt10: number;
+  approximate: LatencyPercentiles;
+  exact: LatencyPercentiles;
+}
+
 export interface LatencyResult {
   recall: LatencyPercentiles;
   search: LatencyPercentiles;
   predict: LatencyPercentiles;
   reconstruct: LatencyPercentiles;
+  vectorIndex?: VectorIndexResult;
 }
 
 // ─── Tuning ──────────────────────────────────────────────────────────────────
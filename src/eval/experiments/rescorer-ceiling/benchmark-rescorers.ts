@@ -2,7 +2,9 @@
  * Re-scorer Benchmark
  *
  * Compares three re-scoring approaches on the same candidate set:
- *   1. Cross-encoder (ms-marco-MiniLM-L-6-v2) — local ONNX model
+ *   1. Cross-encoder (reranker.model, default ms-marco-MiniLM-L-6-v2) — the search
+ *      pipeline's reranker, run over the full pool (ceiling) and with the configured
+ *      reranker.topN and reranker.latencyBudgetMs (what searchContext would see)
  *   2. Query expansion — LLM generates reformulations, max-sim re-scoring
  *   3. LLM reranker — Haiku directly ranks candidates
  *
@@ -15,7 +17,6 @@
  *   npx tsx src/eval/experiments/rescorer-ceiling/benchmark-rescorers.ts [--sample-size=50]
  */
 
-import { pipeline, type TextClassificationPipeline } from '@huggingface/transformers';
 import Anthropic from '@anthropic-ai/sdk';
 import { getDb } from '../../../storage/db.js';
 import { vectorStore, indexVectorStore } from '../../../storage/vector-store.js';
@@ -29,14 +30,14 @@ import { getAllClusters, getClusterChunkIds } from '../../../storage/cluster-sto
 import { Embedder } from '../../../models/embedder.js';
 import { getModel } from '../../../models/model-registry.js';
 import { loadConfig, toRuntimeConfig } from '../../../config/loader.js';
+import { rerankCandidates, disposeReranker } from '../../../retrieval/reranker.js';
+import type { MemoryConfig } from '../../../config/memory-config.js';
 import { cosineSimilarity } from '../../../utils/angular-distance.js';
 import { createSecretStore } from '../../../utils/secret-store.js';
 import { generateSearchQueries, type ChunkForQueryGen } from '../index-vs-chunk/query-generator.js';
 
 // ── Constants ──────────────────────────────────────────────────────────────
 
-const CROSS_ENCODER_MODEL = 'Xenova/ms-marco-MiniLM-L-6-v2';
-const CROSS_ENCODER_MAX_CHARS = 512 * 4; // ~512 tokens
 const VECTOR_K = 500; // Candidate pool size
 const QUERY_EXPANSION_COUNT = 5;
 const LLM_RERANK_TOP_N = 30; // Send top-N to LLM for reranking
@@ -109,34 +110,19 @@ function findRank(items: Array<{ chunkId: string }>, targetId: string): number {
 
 // ── Approach 1: Cross-encoder ──────────────────────────────────────────────
 
-async function loadCrossEncoder(): Promise<TextClassificationPipeline> {
-  console.log(`Loading cross-encoder: ${CROSS_ENCODER_MODEL}...`);
-  const start = Date.now();
-  const pipe = (await pipeline('text-classification', CROSS_ENCODER_MODEL, {
-    dtype: 'fp32',
-  })) as TextClassificationPipeline;
-  console.log(`  Loaded in ${Date.now() - start}ms`);
-  return pipe;
-}
-
 async function crossEncoderRescore(
-  pipe: TextClassificationPipeline,
   query: string,
   candidates: Candidate[],
+  rerankerConfig: MemoryConfig['reranker'],
 ): Promise<Array<{ chunkId: string; score: number }>> {
-  const scored: Array<{ chunkId: string; score: number }> = [];
-
-  for (const c of candidates) {
-    const truncated = c.content.slice(0, CROSS_ENCODER_MAX_CHARS);
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any -- HF pipeline() return type is untyped
-    const result = await (pipe as any)({ text: query, text_pair: truncated }, { topk: 1 });
-    const score = Array.isArray(result)
-      ? (result[0] as { score: number }).score
-      : (result as { score: number }).score;
-    scored.push({ chunkId: c.chunkId, score });
-  }
-
-  return scored.sort((a, b) => b.score - a.score);
+  const contentMap = new Map(candidates.map((c) => [c.chunkId, c.content]));
+  const { items } = await rerankCandidates(
+    query,
+    candidates.map((c) => ({ chunkId: c.chunkId, score: c.vectorScore })),
+    { ...rerankerConfig, enabled: true },
+    (id) => contentMap.get(id),
+  );
+  return items;
 }
 
 // ── Approach 2: Query expansion ────────────────────────────────────────────
@@ -425,44 +411,75 @@ async function runBenchmark() {
 
   // ── Approach 1: Cross-encoder ────────────────────────────────────────────
 
-  console.log('── Cross-encoder (ms-marco-MiniLM-L-6-v2) ──');
-  const crossEncoder = await loadCrossEncoder();
-  let ceTop5 = 0,
-    ceTop10 = 0,
-    ceBudget = 0;
-  const ceRanks: number[] = [];
-  const ceTimings: number[] = [];
-
-  for (let i = 0; i < benchmarkable.length; i++) {
-    const qd = benchmarkable[i];
-    const start = Date.now();
-    const reranked = await crossEncoderRescore(crossEncoder, qd.query, qd.candidates);
-    ceTimings.push(Date.now() - start);
-
-    const rank = findRank(reranked, qd.targetId);
-    ceRanks.push(rank);
-    if (rank > 0 && rank <= 5) ceTop5++;
-    if (rank > 0 && rank <= 10) ceTop10++;
-    if (budgetSurvival(reranked, qd.targetId, tokenMap, maxTokens)) ceBudget++;
-
-    if ((i + 1) % 5 === 0) console.log(`  Query ${i + 1}/${benchmarkable.length}`);
+  const ceVariants: Array<{ label: string; config: MemoryConfig['reranker'] }> = [
+    {
+      label: 'Cross-encoder (full pool)',
+      config: { ...config.reranker, topN: VECTOR_K, latencyBudgetMs: Number.POSITIVE_INFINITY },
+    },
+    {
+      label: `Cross-encoder (top-${config.reranker.topN}, ${config.reranker.latencyBudgetMs}ms)`,
+      config: config.reranker,
+    },
+  ];
+  const ceResults: Array<{
+    label: string;
+    top5: number;
+    top10: number;
+    budget: number;
+    medianRank: number;
+    medianTime: number;
+  }> = [];
+
+  for (const variant of ceVariants) {
+    console.log(`── ${variant.label}: ${config.reranker.model} ──`);
+    let ceTop5 = 0,
+      ceTop10 = 0,
+      ceBudget = 0;
+    const ceRanks: number[] = [];
+    const ceTimings: number[] = [];
+
+    for (let i = 0; i < benchmarkable.length; i++) {
+      const qd = benchmarkable[i];
+      const start = Date.now();
+      const reranked = await crossEncoderRescore(qd.query, qd.candidates, variant.config);
+      ceTimings.push(Date.now() - start);
+
+      const rank = findRank(reranked, qd.targetId);
+      ceRanks.push(rank);
+      if (rank > 0 && rank <= 5) ceTop5++;
+      if (rank > 0 && rank <= 10) ceTop10++;
+      if (budgetSurvival(reranked, qd.targetId, tokenMap, maxTokens)) ceBudget++;
+
+      if ((i + 1) % 5 === 0) console.log(`  Query ${i + 1}/${benchmarkable.length}`);
+    }
+    const ceMedianRank = [...ceRanks].sort((a, b) => a - b)[Math.floor(ceRanks.length / 2)];
+    const ceMedianTime = [...ceTimings].sort((a, b) => a - b)[Math.floor(ceTimings.length / 2)];
+    console.log(
+      `  Top-5: ${ceTop5}/${benchmarkable.length} (${((ceTop5 / benchmarkable.length) * 100).toFixed(0)}%)`,
+    );
+    console.log(
+      `  Top-10: ${ceTop10}/${benchmarkable.length} (${((ceTop10 / benchmarkable.length) * 100).toFixed(0)}%)`,
+    );
+    console.log(
+      `  Budget: ${ceBudget}/${benchmarkable.length} (${((ceBudget / benchmarkable.length) * 100).toFixed(0)}%)`,
+    );
+    console.log(`  Median rank: ${ceMedianRank}`);
+    console.log(`  Median latency: ${ceMedianTime}ms`);
+    console.log(
+      `  Lift over baseline: Top-5 ${ceTop5 - baselineTop5 >= 0 ? '+' : ''}${ceTop5 - baselineTop5}, Top-10 ${ceTop10 - baselineTop10 >= 0 ? '+' : ''}${ceTop10 - baselineTop10}\n`,
+    );
+    ceResults.push({
+      label: variant.label,
+      top5: ceTop5,
+      top10: ceTop10,
+      budget: ceBudget,
+      medianRank: ceMedianRank,
+      medianTime: ceMedianTime,
+    });
   }
-  const ceMedianRank = [...ceRanks].sort((a, b) => a - b)[Math.floor(ceRanks.length / 2)];
-  const ceMedianTime = [...ceTimings].sort((a, b) => a - b)[Math.floor(ceTimings.length / 2)];
-  console.log(
-    `  Top-5: ${ceTop5}/${benchmarkable.length} (${((ceTop5 / benchmarkable.length) * 100).toFixed(0)}%)`,
-  );
-  console.log(
-    `  Top-10: ${ceTop10}/${benchmarkable.length} (${((ceTop10 / benchmarkable.length) * 100).toFixed(0)}%)`,
-  );
-  console.log(
-    `  Budget: ${ceBudget}/${benchmarkable.length} (${((ceBudget / benchmarkable.length) * 100).toFixed(0)}%)`,
-  );
-  console.log(`  Median rank: ${ceMedianRank}`);
-  console.log(`  Median latency: ${ceMedianTime}ms\n`);
 
   // Dispose cross-encoder to free memory before next approach
-  await (crossEncoder as unknown as { dispose?: () => Promise<void> }).dispose?.();
+  await disposeReranker();
 
   // ── Approach 2: Query expansion ──────────────────────────────────────────
 
@@ -576,9 +593,11 @@ async function runBenchmark() {
   console.log(
     `  Baseline (vector)         ${pct(baselineTop5)}    ${pct(baselineTop10)}     ${pct(baselineBudget)}       ${String(baselineMedianRank).padStart(4)}         0ms`,
   );
-  console.log(
-    `  Cross-encoder             ${pct(ceTop5)}    ${pct(ceTop10)}     ${pct(ceBudget)}       ${String(ceMedianRank).padStart(4)}     ${String(ceMedianTime).padStart(5)}ms`,
-  );
+  for (const ce of ceResults) {
+    console.log(
+      `  ${ce.label.padEnd(24)}  ${pct(ce.top5)}    ${pct(ce.top10)}     ${pct(ce.budget)}       ${String(ce.medianRank).padStart(4)}     ${String(ce.medianTime).padStart(5)}ms`,
+    );
+  }
   console.log(
     `  Query expansion           ${pct(qeTop5)}    ${pct(qeTop10)}     ${pct(qeBudget)}       ${String(qeMedianRank).padStart(4)}     ${String(qeMedianTime).padStart(5)}ms`,
   );
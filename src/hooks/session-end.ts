@@ -1,7 +1,8 @@
 /**
  * Session-end hook handler.
  * Called when a Claude Code session ends (clear, logout, exit).
- * Ingests the session into the memory system.
+ * Ingests the session into the memory system, then snapshots the project's
+ * repo map so the next session can report structural changes since.
  *
  * Delegates to shared handleIngestionHook() for retry, metrics, and fallback.
  */
@@ -9,9 +10,11 @@
 import {
   handleIngestionHook,
   ingestionHookCli,
+  logHook,
   type IngestionHookResult,
   type IngestionHookOptions,
 } from './hook-utils.js';
+import { errorMessage } from '../utils/errors.js';
 
 /** Result of session-end hook execution (alias for shared type). */
 export type SessionEndResult = IngestionHookResult;
@@ -31,7 +34,32 @@ export async function handleSessionEnd(
   sessionPath: string,
   options: SessionEndOptions = {},
 ): Promise<SessionEndResult> {
-  return handleIngestionHook('session-end', sessionPath, options);
+  const result = await handleIngestionHook('session-end', sessionPath, options);
+  if (!result.degraded) {
+    await snapshotProjectRepoMap(result.sessionId);
+  }
+  return result;
+}
+
+/**
+ * Snapshot the repo map of the working directory's project.
+ * Best-effort: failures are logged and never fail the hook.
+ */
+async function snapshotProjectRepoMap(sessionId: string): Promise<void> {
+  try {
+    const { getConfig } = await import('../config/memory-config.js');
+    if (!getConfig().repomap.enabled) return;
+
+    const { snapshotRepoMap } = await import('../repomap/index.js');
+    await snapshotRepoMap(process.cwd(), sessionId);
+  } catch (error) {
+    logHook({
+      level: 'warn',
+      hook: 'session-end',
+      event: 'repomap_snapshot_failed',
+      error: errorMessage(error),
+    });
+  }
 }
 
 /**
@@ -5,15 +5,15 @@
  * - 3-5 Jeopardy-style search target queries (embed close to user queries)
  * - 1 summary description (embed close to chunk content, safety net for recall)
  *
- * LLM generation batches chunks into Haiku calls. Each query/summary becomes
- * a separate index entry. Heuristic fallback extracts the first meaningful
- * lines when offline.
+ * LLM generation batches chunks into calls to the configured LLM provider
+ * (Haiku by default, or a local OpenAI-compatible server). Each query/summary
+ * becomes a separate index entry. Heuristic fallback extracts the first
+ * meaningful lines when no LLM is available.
  */
 
-import Anthropic from '@anthropic-ai/sdk';
 import { getConfig } from '../config/memory-config.js';
+import { getLLMProvider, callWithRetry } from '../models/llm-provider.js';
 import { approximateTokens } from '../utils/token-counter.js';
-import { createSecretStore } from '../utils/secret-store.js';
 import { createLogger } from '../utils/logger.js';
 import type { IndexEntryInput } from '../storage/types.js';
 
@@ -74,9 +74,8 @@ export async function generateLLMEntries(
   const model = options?.model ?? config.clusterRefreshModel;
   const maxChunkTokens = options?.maxChunkTokens ?? 500;
 
-  // Get Anthropic client
-  const client = await getAnthropicClient();
-  if (!client) {
+  const provider = await getLLMProvider(config);
+  if (!provider) {
     log.info('No API key available, falling back to heuristic generation');
     return chunks.map((chunk) => generateHeuristicEntry(chunk, sessionSlug));
   }
@@ -105,9 +104,12 @@ export async function generateLLMEntries(
     const prompt = buildGenerationPrompt(truncatedChunks);
 
     try {
-      const response = await callWithRetry(client, model, prompt, batchChunks.length);
+      const text = await callWithRetry(provider, {
+        model,
+        prompt,
+        maxTokens: Math.min(4096, Math.max(400, batchChunks.length * 400)),
+      });
 
-      const text = response.content[0].type === 'text' ? response.content[0].text : '';
       const entriesByChunk = parseGenerationResponse(text, batchChunks.length);
 
       for (let i = 0; i < batchChunks.length; i++) {
@@ -344,64 +346,3 @@ export function parseGenerationResponse(
 
   return results;
 }
-
-/** Max retries for rate-limited or transient API errors. */
-const MAX_RETRIES = 3;
-
-/**
- * Call the API with exponential backoff on rate limit (429) and server errors (5xx).
- */
-async function callWithRetry(
-  client: Anthropic,
-  model: string,
-  prompt: string,
-  batchSize: number,
-): Promise<Anthropic.Message> {
-  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
-    try {
-      return await client.messages.create({
-        model,
-        max_tokens: Math.min(4096, Math.max(400, batchSize * 400)),
-        messages: [{ role: 'user', content: prompt }],
-      });
-    } catch (error) {
-      const status = (error as { status?: number }).status;
-      const isRetryable = status === 429 || (status !== undefined && status >= 500);
-
-      if (!isRetryable || attempt === MAX_RETRIES) {
-        throw error;
-      }
-
-      // Exponential backoff: 2s, 8s, 32s
-      const backoffMs = 2000 * Math.pow(4, attempt);
-      log.info(`API ${status} on attempt ${attempt + 1}, retrying in ${backoffMs / 1000}s`);
-      await new Promise((resolve) => setTimeout(resolve, backoffMs));
-    }
-  }
-
-  // Unreachable, but TypeScript needs it
-  throw new Error('Retry loop exited unexpectedly');
-}
-
-/**
- * Get Anthropic client, returning null if no API key is available.
- */
-async function getAnthropicClient(): Promise<Anthropic | null> {
-  if (!process.env.ANTHROPIC_API_KEY) {
-    try {
-      const store = createSecretStore();
-      const storedKey = await store.get('anthropic-api-key');
-      if (storedKey) {
-        process.env.ANTHROPIC_API_KEY = storedKey;
-      }
-    } catch {
-      // Keychain not available
-    }
-  }
-
-  if (!process.env.ANTHROPIC_API_KEY) {
-    return null;
-  }
-
-  return new Anthropic();
-}
@@ -1,12 +1,12 @@
 /**
  * Batch index entry refinement and backfill.
  *
- * Follows the cluster-refresh.ts pattern: Anthropic client, rate limiter,
+ * Follows the cluster-refresh.ts pattern: LLM provider, rate limiter,
  * keychain API key. Used by the backfill-index maintenance task.
  */
 
-import Anthropic from '@anthropic-ai/sdk';
 import { getConfig } from '../config/memory-config.js';
+import { getLLMProvider } from '../models/llm-provider.js';
 import { getChunksByIds } from '../storage/chunk-store.js';
 import {
   getUnindexedChunkIds,
@@ -15,9 +15,9 @@ import {
 } from '../storage/index-entry-store.js';
 import { getChunkCount } from '../storage/chunk-store.js';
 import { indexVectorStore } from '../storage/vector-store.js';
+import { resolveServingModel } from '../storage/embedding-migration.js';
 import { Embedder } from '../models/embedder.js';
 import { getModel } from '../models/model-registry.js';
-import { createSecretStore } from '../utils/secret-store.js';
 import { createLogger } from '../utils/logger.js';
 import { generateLLMEntries, generateHeuristicEntry } from './index-generator.js';
 import type { ChunkForIndexing } from './index-generator.js';
@@ -63,7 +63,6 @@ export interface BackfillResult {
  * Index entry refresher for batch backfill and refinement.
  */
 export class IndexRefresher {
-  private client: Anthropic | null = null;
   private rateLimiter: RateLimiter;
   private config = getConfig();
 
@@ -71,32 +70,6 @@ export class IndexRefresher {
     this.rateLimiter = new RateLimiter(this.config.refreshRateLimitPerMin);
   }
 
-  /**
-   * Initialize the Anthropic client. Returns null if no API key available.
-   */
-  private async getClient(): Promise<Anthropic | null> {
-    if (!this.client) {
-      if (!process.env.ANTHROPIC_API_KEY) {
-        try {
-          const store = createSecretStore();
-          const storedKey = await store.get('anthropic-api-key');
-          if (storedKey) {
-            process.env.ANTHROPIC_API_KEY = storedKey;
-          }
-        } catch {
-          // Keychain not available
-        }
-      }
-
-      if (!process.env.ANTHROPIC_API_KEY) {
-        return null;
-      }
-
-      this.client = new Anthropic();
-    }
-    return this.client;
-  }
-
   /**
    * Backfill index entries for chunks that don't have them.
    *
@@ -153,12 +126,12 @@ export class IndexRefresher {
 
     // Set up embedder
     const embedder = new Embedder();
-    const embeddingModel = this.config.embeddingModel;
+    const embeddingModel = resolveServingModel(this.config.embeddingModel);
     await embedder.load(getModel(embeddingModel));
     indexVectorStore.setModelId(embeddingModel);
 
     try {
-      const client = await this.getClient();
+      const provider = await getLLMProvider(this.config);
       let sessionIndex = 0;
       const totalSessions = sessionGroups.size;
 
@@ -168,7 +141,7 @@ export class IndexRefresher {
 
         // Generate entries (rate limiting happens per sub-batch inside generateLLMEntries)
         let entries;
-        if (client) {
+        if (provider) {
           entries = await generateLLMEntries(sessionChunks, sessionSlug, {
             onBeforeBatch: () => this.rateLimiter.wait(),
           });
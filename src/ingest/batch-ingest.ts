@@ -8,7 +8,12 @@ import { readdir, stat } from 'fs/promises';
 import { join, basename } from 'path';
 import { Embedder } from '../models/embedder.js';
 import { getModel } from '../models/model-registry.js';
-import { ingestSession, type IngestResult, type IngestOptions } from './ingest-session.js';
+import {
+  ingestSession,
+  resolveIngestionModel,
+  type IngestResult,
+  type IngestOptions,
+} from './ingest-session.js';
 import { linkAllSessions } from './cross-session-linker.js';
 import { createLogger } from '../utils/logger.js';
 
@@ -38,7 +43,7 @@ export interface BatchIngestOptions {
   progressCallback?: (progress: BatchProgress) => void;
   /** Session ID to resume from (skip sessions before this). */
   resumeFrom?: string;
-  /** Embedding model ID. Default: 'jina-small'. */
+  /** Embedding model ID. Default: the configured model, as resolved by resolveServingModel(). */
   embeddingModel?: string;
   /** Skip already-ingested sessions. Default: true. */
   skipExisting?: boolean;
@@ -153,7 +158,7 @@ export async function batchIngest(
   const {
     progressCallback,
     resumeFrom,
-    embeddingModel = 'jina-small',
+    embeddingModel = resolveIngestionModel(),
     skipExisting = true,
     linkCrossSessions = true,
     useIncrementalIngestion = true,
@@ -0,0 +1,140 @@
+/**
+ * Code reference extraction for chunks.
+ *
+ * Links each chunk to the code it concerns:
+ * - Tool paths: file paths passed to the tool calls of the chunk's turns
+ * - Path mentions: file paths written in the chunk text that name an indexed file
+ * - Symbols: identifiers in the chunk text matching a definition in the
+ *   project's persisted repo map tags
+ *
+ * Indexed files and definitions come from the repo map tag cache, so text
+ * matching only applies once a repo map has been built for the project.
+ * Tool paths are always linked.
+ */
+
+import type { Turn } from '../parser/types.js';
+import type { CodeRef } from '../storage/code-ref-store.js';
+import { loadRepoMapTags } from '../storage/repomap-cache-store.js';
+import { toProjectRelativePath } from '../utils/project-path.js';
+
+/** Files and definitions known for a project. */
+export interface CodeIndex {
+  /** Relative paths of indexed files. */
+  files: Set<string>;
+  /** Definition name → relative paths of the files defining it. */
+  definitions: Map<string, string[]>;
+}
+
+/** Names defined in more files than this are too ambiguous to link. */
+const MAX_DEFINING_FILES = 3;
+
+/** Shortest identifier considered for symbol links. */
+const MIN_SYMBOL_LENGTH = 4;
+
+/** Maximum symbol links per chunk. */
+const MAX_SYMBOL_REFS = 20;
+
+/** Tool input keys holding a file path. */
+const PATH_INPUT_KEYS = ['file_path', 'notebook_path'];
+
+const IDENTIFIER_PATTERN = /[A-Za-z_$][\w$]*/g;
+const PATH_PATTERN = /[\w./-]+\.[A-Za-z0-9]+/g;
+
+/**
+ * Load the code index for a project from its persisted repo map tags.
+ * Returns null if no repo map has been built for the project.
+ */
+export function loadCodeIndex(projectPath: string): CodeIndex | null {
+  const persisted = loadRepoMapTags(projectPath);
+  if (persisted.size === 0) return null;
+
+  const files = new Set<string>();
+  const definers = new Map<string, Set<string>>();
+  for (const [file, entry] of persisted) {
+    files.add(file);
+    for (const tag of entry.tags) {
+      if (tag.kind !== 'def') continue;
+      const set = definers.get(tag.name) ?? new Set();
+      set.add(file);
+      definers.set(tag.name, set);
+    }
+  }
+
+  const definitions = new Map<string, string[]>();
+  for (const [name, set] of definers) {
+    definitions.set(name, [...set].sort());
+  }
+  return { files, definitions };
+}
+
+/**
+ * Whether an identifier is distinctive enough to link by name alone:
+ * camelCase, PascalCase with several words, or snake_case.
+ * Plain words ("render", "Config") occur too often in prose.
+ */
+function isDistinctive(name: string): boolean {
+  return /[a-z][A-Z]/.test(name) || /[A-Za-z0-9]_[A-Za-z0-9]/.test(name);
+}
+
+/**
+ * Extract code refs for one chunk.
+ *
+ * @param text - Chunk text
+ * @param turns - The turns the chunk was built from
+ * @param projectPath - Project root, used to relativize paths
+ * @param index - Project code index, or null to link tool paths only
+ */
+export function extractCodeRefs(
+  text: string,
+  turns: Turn[],
+  projectPath: string,
+  index: CodeIndex | null,
+): CodeRef[] {
+  const refs = new Map<string, CodeRef>();
+  const add = (ref: CodeRef): void => {
+    const key = `${ref.filePath}\u0000${ref.symbol ?? ''}`;
+    if (!refs.has(key)) refs.set(key, ref);
+  };
+
+  // 1. Tool paths
+  for (const turn of turns) {
+    for (const exchange of turn.toolExchanges) {
+      for (const key of PATH_INPUT_KEYS) {
+        const value = exchange.input[key];
+        if (typeof value === 'string' && value) {
+          add({ filePath: toProjectRelativePath(value, projectPath), source: 'tool' });
+        }
+      }
+    }
+  }
+
+  if (!index) return [...refs.values()];
+
+  // 2. Path mentions
+  for (const match of text.matchAll(PATH_PATTERN)) {
+    const filePath = toProjectRelativePath(match[0].replace(/^\.\//, ''), projectPath);
+    if (index.files.has(filePath)) {
+      add({ filePath, source: 'mention' });
+    }
+  }
+
+  // 3. Symbols
+  let symbolCount = 0;
+  const seen = new Set<string>();
+  for (const match of text.matchAll(IDENTIFIER_PATTERN)) {
+    const name = match[0];
+    if (seen.has(name)) continue;
+    seen.add(name);
+    if (name.length < MIN_SYMBOL_LENGTH || !isDistinctive(name)) continue;
+
+    const files = index.definitions.get(name);
+    if (!files || files.length > MAX_DEFINING_FILES) continue;
+
+    for (const filePath of files) {
+      add({ filePath, symbol: name, source: 'symbol' });
+    }
+    if (++symbolCount >= MAX_SYMBOL_REFS) break;
+  }
+
+  return [...refs.values()];
+}
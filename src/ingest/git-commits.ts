@@ -0,0 +1,270 @@
+/**
+ * Git commit and pull request extraction from transcripts.
+ *
+ * Finds `git commit` calls in Bash tool exchanges and resolves each to a
+ * commit in the project's local repository:
+ * - The abbreviated SHA from the command output (`[main 1a2b3c4] subject`)
+ * - Otherwise, a commit whose subject matches the `-m` message, made within a
+ *   day of the turn
+ *
+ * Resolved commits carry the full SHA, commit time, per-file line counts and
+ * the patch, capped in size. When the repository is unavailable, the
+ * abbreviated SHA from the output is kept without them.
+ *
+ * Pull requests are found the same way, from the URL `gh pr create` prints.
+ */
+
+import { execFileSync } from 'node:child_process';
+import type { Turn } from '../parser/types.js';
+import type { CommitFileStat } from '../storage/commit-store.js';
+
+/** A commit made during a session. */
+export interface SessionCommit {
+  sha: string;
+  subject: string;
+  committedAt: string | null;
+  files: CommitFileStat[];
+  /** Patch, capped at {@link MAX_PATCH_CHARS}; null when unavailable. */
+  patch: string | null;
+  /** Index of the turn that made the commit. */
+  turnIndex: number;
+}
+
+/** Commit details read from git. */
+export interface GitCommitInfo {
+  sha: string;
+  subject: string;
+  committedAt: string;
+  files: CommitFileStat[];
+  patch: string | null;
+}
+
+/** A pull request opened during a session. */
+export interface SessionPullRequest {
+  url: string;
+  number: number;
+  /** Title from `--title`; empty when gh filled it in (e.g. `--fill`). */
+  title: string;
+  /** Start time of the turn that opened it. */
+  openedAt: string;
+  /** Index of the turn that opened it. */
+  turnIndex: number;
+}
+
+/** Timeout for each git invocation. */
+const GIT_TIMEOUT_MS = 5000;
+
+/** Window around a turn searched when matching commits by subject. */
+const SUBJECT_MATCH_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/** Patches longer than this are truncated before storage. */
+export const MAX_PATCH_CHARS = 8000;
+
+/** Largest patch read from git; bigger commits are stored without one. */
+const MAX_PATCH_READ_BYTES = 16 * 1024 * 1024;
+
+const COMMIT_COMMAND_PATTERN = /\bgit\s+commit\b/;
+const COMMIT_OUTPUT_PATTERN = /^\[[^\]]*? ([0-9a-f]{7,40})\] (.*)$/m;
+const PR_COMMAND_PATTERN = /\bgh\s+pr\s+create\b/;
+const PR_URL_PATTERN = /https?:\/\/[^\s/]+\/[^\s/]+\/[^\s/]+\/pull\/(\d+)/;
+
+/**
+ * Run git in a directory. Returns null if git fails or isn't available.
+ */
+function runGit(projectPath: string, args: string[], maxBuffer?: number): string | null {
+  try {
+    return execFileSync('git', ['-C', projectPath, ...args], {
+      encoding: 'utf-8',
+      timeout: GIT_TIMEOUT_MS,
+      stdio: ['ignore', 'pipe', 'ignore'],
+      maxBuffer,
+    });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse the abbreviated SHA and subject from `git commit` output.
+ */
+export function parseCommitOutput(output: string): { sha: string; subject: string } | null {
+  const match = COMMIT_OUTPUT_PATTERN.exec(output);
+  return match ? { sha: match[1], subject: match[2].trim() } : null;
+}
+
+/**
+ * Parse the subject line of the message passed to `git commit -m`.
+ * Handles quoted messages and `"$(cat <<'EOF' ... EOF)"` heredocs.
+ */
+export function parseCommitSubject(command: string): string | null {
+  const heredoc = /-m\s+"\$\(cat <<-?'?(\w+)'?\n([\s\S]*?)\n\s*\1/.exec(command);
+  const message = heredoc
+    ? heredoc[2]
+    : (/-m\s+"((?:[^"\\]|\\.)*)"/.exec(command)?.[1] ?? /-m\s+'([^']*)'/.exec(command)?.[1]);
+  const subject = message
+    ?.split('\n')
+    .map((l) => l.trim())
+    .find((l) => l);
+  return subject ?? null;
+}
+
+/**
+ * Parse the title passed to `gh pr create --title` (or `-t`).
+ */
+export function parsePullRequestTitle(command: string): string | null {
+  const match =
+    /(?:--title|-t)[\s=]+"((?:[^"\\]|\\.)*)"/.exec(command) ??
+    /(?:--title|-t)[\s=]+'([^']*)'/.exec(command);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Cap a patch at {@link MAX_PATCH_CHARS}, cutting at a line boundary.
+ */
+export function capPatch(patch: string): string {
+  if (patch.length <= MAX_PATCH_CHARS) return patch;
+  const cut = patch.lastIndexOf('\n', MAX_PATCH_CHARS);
+  const kept = patch.slice(0, cut > 0 ? cut : MAX_PATCH_CHARS);
+  return `${kept}\n[patch truncated: ${patch.length - kept.length} more characters]`;
+}
+
+/**
+ * Read a commit's patch, capped in size.
+ */
+function readCommitPatch(projectPath: string, sha: string): string | null {
+  const output = runGit(
+    projectPath,
+    ['show', '--format=', '--patch', '--no-color', '--no-ext-diff', sha, '--'],
+    MAX_PATCH_READ_BYTES,
+  );
+  const patch = output?.trim();
+  return patch ? capPatch(patch) : null;
+}
+
+/**
+ * Read a commit's full SHA, subject, time, per-file line counts and patch.
+ */
+export function readCommit(projectPath: string, ref: string): GitCommitInfo | null {
+  const output = runGit(projectPath, ['show', '--numstat', '--format=%H%x00%s%x00%cI', ref, '--']);
+  if (!output) return null;
+
+  const [header, ...rest] = output.split('\n');
+  const [sha, subject, committedAt] = header.split('\0');
+  if (!sha || committedAt === undefined) return null;
+
+  const files: CommitFileStat[] = [];
+  for (const line of rest) {
+    const [added, removed, path] = line.split('\t');
+    if (path === undefined) continue;
+    files.push({
+      path,
+      insertions: added === '-' ? 0 : Number(added),
+      deletions: removed === '-' ? 0 : Number(removed),
+    });
+  }
+
+  return {
+    sha,
+    subject,
+    committedAt: new Date(committedAt).toISOString(),
+    files,
+    patch: readCommitPatch(projectPath, sha),
+  };
+}
+
+/**
+ * Find a commit by exact subject made within a day of a time.
+ * @returns The newest matching full SHA, or null
+ */
+export function findCommitBySubject(
+  projectPath: string,
+  subject: string,
+  around: string,
+): string | null {
+  const time = new Date(around).getTime();
+  if (isNaN(time)) return null;
+
+  const output = runGit(projectPath, [
+    'log',
+    '--all',
+    '--format=%H%x00%s',
+    `--since=${new Date(time - SUBJECT_MATCH_WINDOW_MS).toISOString()}`,
+    `--until=${new Date(time + SUBJECT_MATCH_WINDOW_MS).toISOString()}`,
+  ]);
+  if (!output) return null;
+
+  for (const line of output.split('\n')) {
+    const [sha, logSubject] = line.split('\0');
+    if (sha && logSubject === subject) return sha;
+  }
+  return null;
+}
+
+/**
+ * Extract the commits made in a list of turns, resolved against the
+ * project's repository. Commits are deduplicated by SHA.
+ */
+export function extractSessionCommits(turns: Turn[], projectPath: string): SessionCommit[] {
+  const commits = new Map<string, SessionCommit>();
+
+  for (const turn of turns) {
+    for (const exchange of turn.toolExchanges) {
+      if (exchange.toolName !== 'Bash' && exchange.toolName !== 'bash') continue;
+      if (exchange.isError) continue;
+      const command = typeof exchange.input.command === 'string' ? exchange.input.command : '';
+      if (!COMMIT_COMMAND_PATTERN.test(command)) continue;
+
+      const fromOutput = parseCommitOutput(exchange.result);
+      let ref = fromOutput?.sha ?? null;
+      if (!ref && projectPath) {
+        const subject = parseCommitSubject(command);
+        ref = subject ? findCommitBySubject(projectPath, subject, turn.startTime) : null;
+      }
+      if (!ref) continue;
+
+      const info = projectPath ? readCommit(projectPath, ref) : null;
+      const commit: SessionCommit = info
+        ? { ...info, turnIndex: turn.index }
+        : {
+            sha: ref,
+            subject: fromOutput?.subject ?? '',
+            committedAt: null,
+            files: [],
+            patch: null,
+            turnIndex: turn.index,
+          };
+      if (!commits.has(commit.sha)) commits.set(commit.sha, commit);
+    }
+  }
+
+  return [...commits.values()];
+}
+
+/**
+ * Extract the pull requests opened in a list of turns by `gh pr create`,
+ * identified by the URL it prints. Pull requests are deduplicated by URL.
+ */
+export function extractSessionPullRequests(turns: Turn[]): SessionPullRequest[] {
+  const pullRequests = new Map<string, SessionPullRequest>();
+
+  for (const turn of turns) {
+    for (const exchange of turn.toolExchanges) {
+      if (exchange.toolName !== 'Bash' && exchange.toolName !== 'bash') continue;
+      if (exchange.isError) continue;
+      const command = typeof exchange.input.command === 'string' ? exchange.input.command : '';
+      if (!PR_COMMAND_PATTERN.test(command)) continue;
+
+      const match = PR_URL_PATTERN.exec(exchange.result);
+      if (!match || pullRequests.has(match[0])) continue;
+      pullRequests.set(match[0], {
+        url: match[0],
+        number: Number(match[1]),
+        title: parsePullRequestTitle(command) ?? '',
+        openedAt: turn.startTime,
+        turnIndex: turn.index,
+      });
+    }
+  }
+
+  return [...pullRequests.values()];
+}
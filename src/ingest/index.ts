@@ -36,3 +36,7 @@ export type { TeamTopology, TeammateFileGroup } from './team-detector.js';
 // Team edge detection
 export { detectTeamEdges } from './team-edge-detector.js';
 export type { TeamEdgePoint } from './team-edge-detector.js';
+
+// User-authored notes
+export { storeNote, parseTags, NOTE_SESSION_PREFIX } from './note.js';
+export type { NoteInput, NoteResult } from './note.js';
@@ -24,6 +24,7 @@ import { Embedder } from '../models/embedder.js';
 import { getModel } from '../models/model-registry.js';
 import { insertChunks, isSessionIngested } from '../storage/chunk-store.js';
 import { vectorStore } from '../storage/vector-store.js';
+import { resolveServingModel } from '../storage/embedding-migration.js';
 import { detectCausalTransitions } from './edge-detector.js';
 import {
   createEdgesFromTransitions,
@@ -58,6 +59,10 @@ import { extractSessionState } from './session-state.js';
 import { extractEntities } from '../utils/entity-extractor.js';
 import { upsertSessionState } from '../storage/session-state-store.js';
 import { resolveEntity, insertEntityMention } from '../storage/entity-store.js';
+import { extractCodeRefs, loadCodeIndex } from './code-refs.js';
+import { insertCodeRefs } from '../storage/code-ref-store.js';
+import { extractSessionCommits, extractSessionPullRequests } from './git-commits.js';
+import { upsertCommit, upsertPullRequest } from '../storage/commit-store.js';
 import { loadConfig, toRuntimeConfig } from '../config/loader.js';
 
 const log = createLogger('ingest-session');
@@ -73,7 +78,7 @@ export interface IngestOptions {
   maxTokensPerChunk?: number;
   /** Include thinking blocks. Default: true. */
   includeThinking?: boolean;
-  /** Embedding model ID. Default: 'jina-small'. */
+  /** Embedding model ID. Default: the configured model, as resolved by resolveServingModel(). */
   embeddingModel?: string;
   /** Skip if already ingested. Default: true. */
   skipIfExists?: boolean;
@@ -288,17 +293,32 @@ interface EmbeddingContext {
   needsDispose: boolean;
 }
 
+/**
+ * The model new vectors should be embedded with: the configured model once
+ * its vectors serve search, otherwise the model still serving it during an
+ * embedding migration.
+ */
+export function resolveIngestionModel(): string {
+  return resolveServingModel(toRuntimeConfig(loadConfig()).embeddingModel);
+}
+
 /**
  * Initialize embedding context based on configuration.
  * Non-fatal — logs and disables embedding on error.
  */
-async function initializeEmbedding(options: IngestOptions): Promise<EmbeddingContext> {
-  const { embeddingModel = 'jina-small', embeddingDevice } = options;
+async function initializeEmbedding(
+  options: IngestOptions,
+  embeddingModel: string,
+): Promise<EmbeddingContext> {
+  const { embeddingDevice } = options;
 
   // Determine whether to embed chunks during ingestion
   const runtimeConfig = toRuntimeConfig(loadConfig());
   const shouldEmbed = runtimeConfig.embeddingEager;
 
+  // Vectors are stored under the model that embedded them
+  vectorStore.setModelId(embeddingModel);
+
   // Set up embedding — single embedder, sequential inference (only when eager)
   const embedder = shouldEmbed ? (options.embedder ?? new Embedder()) : null;
   const needsDispose = shouldEmbed && !options.embedder;
@@ -333,7 +353,6 @@ export async function ingestSession(
   const {
     maxTokensPerChunk = 4096,
     includeThinking = true,
-    embeddingModel = 'jina-small',
     linkCrossSessions = true,
     processSubAgents = true,
     useIncrementalIngestion = true,
@@ -352,7 +371,8 @@ export async function ingestSession(
   const { allTurns: turns, turnsToProcess, startTurnIndex } = turnResult;
 
   // Stage 3: Initialize embedding
-  const embedding = await initializeEmbedding(options);
+  const embeddingModel = options.embeddingModel ?? resolveIngestionModel();
+  const embedding = await initializeEmbedding(options, embeddingModel);
   const { embedAllFn, shouldEmbed } = embedding;
 
   // Track cache stats
@@ -478,6 +498,18 @@ export async function ingestSession(
               );
             }
 
+            const linkedChunks = subChunks.map((c, i) => ({ ...c, id: subChunkIds[i] }));
+            try {
+              saveCodeRefs(linkedChunks, subTurns, projectPath);
+            } catch (error) {
+              log.warn('Failed to link code refs', { error: String(error) });
+            }
+            try {
+              saveCommitLinks(linkedChunks, subTurns, sessionId, projectSlug, projectPath);
+            } catch (error) {
+              log.warn('Failed to link git commits', { error: String(error) });
+            }
+
             // Create within-chain edges
             const subTransitions = detectCausalTransitions(subChunks);
             const subEdgeResult = await createEdgesFromTransitions(subTransitions, subChunkIds);
@@ -790,6 +822,30 @@ async function processMainSession(params: MainSessionParams): Promise<MainSessio
     log.warn('Failed to extract entities', { error: String(error) });
   }
 
+  // Code refs (best-effort, non-blocking)
+  try {
+    saveCodeRefs(
+      mainChunks.map((c, i) => ({ ...c, id: mainChunkIds[i] })),
+      turnsToProcess,
+      projectPath,
+    );
+  } catch (error) {
+    log.warn('Failed to link code refs', { error: String(error) });
+  }
+
+  // Git commits (best-effort, non-blocking)
+  try {
+    saveCommitLinks(
+      mainChunks.map((c, i) => ({ ...c, id: mainChunkIds[i] })),
+      turnsToProcess,
+      sessionId,
+      projectSlug,
+      projectPath,
+    );
+  } catch (error) {
+    log.warn('Failed to link git commits', { error: String(error) });
+  }
+
   // Team edges (team sessions only)
   if (team && team.agentData.size > 0) {
     const mainChunkInputsForEdges = mainChunks.map((c, i) => ({
@@ -860,6 +916,69 @@ function saveEntityMentions(
   }
 }
 
+/**
+ * Link chunks to the files and symbols they touch or mention. Best-effort — failures are logged but don't block ingestion.
+ */
+function saveCodeRefs(
+  chunks: Array<Chunk & { id: string }>,
+  turns: Turn[],
+  projectPath: string,
+): void {
+  const index = projectPath ? loadCodeIndex(projectPath) : null;
+  const turnsByIndex = new Map(turns.map((t) => [t.index, t]));
+
+  for (const chunk of chunks) {
+    const sourceTurns = chunk.metadata.turnIndices
+      .map((i) => turnsByIndex.get(i))
+      .filter((t): t is Turn => t !== undefined);
+    insertCodeRefs(chunk.id, extractCodeRefs(chunk.text, sourceTurns, projectPath, index));
+  }
+}
+
+/**
+ * Resolve commits made and pull requests opened in the turns, and link them to the chunks that made them. Best-effort — failures are logged but don't block ingestion.
+ */
+function saveCommitLinks(
+  chunks: Array<Chunk & { id: string }>,
+  turns: Turn[],
+  sessionId: string,
+  projectSlug: string,
+  projectPath: string,
+): void {
+  for (const commit of extractSessionCommits(turns, projectPath)) {
+    const chunkIds = chunks
+      .filter((c) => c.metadata.turnIndices.includes(commit.turnIndex))
+      .map((c) => c.id);
+    upsertCommit({
+      sha: commit.sha,
+      projectPath,
+      sessionId,
+      sessionSlug: projectSlug,
+      subject: commit.subject,
+      committedAt: commit.committedAt,
+      files: commit.files,
+      patch: commit.patch,
+      chunkIds,
+    });
+  }
+
+  for (const pullRequest of extractSessionPullRequests(turns)) {
+    const chunkIds = chunks
+      .filter((c) => c.metadata.turnIndices.includes(pullRequest.turnIndex))
+      .map((c) => c.id);
+    upsertPullRequest({
+      url: pullRequest.url,
+      number: pullRequest.number,
+      projectPath,
+      sessionId,
+      sessionSlug: projectSlug,
+      title: pullRequest.title,
+      openedAt: pullRequest.openedAt,
+      chunkIds,
+    });
+  }
+}
+
 /**
  * Process a single sub-agent file: parse, chunk, embed, store, create edges.
  * Extracted to reduce duplication between team and non-team paths.
@@ -918,6 +1037,18 @@ async function processSubAgent(
     );
   }
 
+  const linkedChunks = subChunks.map((c, i) => ({ ...c, id: subChunkIds[i] }));
+  try {
+    saveCodeRefs(linkedChunks, subTurns, projectPath);
+  } catch (error) {
+    log.warn('Failed to link code refs', { error: String(error) });
+  }
+  try {
+    saveCommitLinks(linkedChunks, subTurns, sessionId, sessionSlug, projectPath);
+  } catch (error) {
+    log.warn('Failed to link git commits', { error: String(error) });
+  }
+
   const subTransitions = detectCausalTransitions(subChunks);
   const subEdgeResult = await createEdgesFromTransitions(subTransitions, subChunkIds);
 
@@ -1020,6 +1151,8 @@ export function chunkToInput(chunk: Chunk): ChunkInput {
     content: chunk.text,
     codeBlockCount: chunk.metadata.codeBlockCount,
     toolUseCount: chunk.metadata.toolUseCount,
+    toolErrorCount: chunk.metadata.toolErrorCount,
+    toolNames: chunk.metadata.toolNames,
     approxTokens: chunk.metadata.approxTokens,
   };
 }
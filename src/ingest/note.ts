@@ -0,0 +1,156 @@
+/**
+ * User-authored notes stored as first-class chunks.
+ *
+ * A note is a pinned chunk in a per-project pseudo-session (`note:<project>`).
+ * It is indexed like any ingested chunk — FTS triggers cover the keyword
+ * store, and the note is embedded into the vector store and given a heuristic
+ * index entry — so search, recall, and predict find it without special cases.
+ * Pinning boosts the note in search and protects it from forget and retention.
+ */
+
+import { insertChunk, deleteChunk } from '../storage/chunk-store.js';
+import { generateId } from '../storage/db.js';
+import { insertIndexEntries, deleteIndexEntry } from '../storage/index-entry-store.js';
+import { vectorStore, indexVectorStore } from '../storage/vector-store.js';
+import { resolveServingModel } from '../storage/embedding-migration.js';
+import { generateHeuristicEntry } from '../index-entries/index-generator.js';
+import { getEmbedder } from '../retrieval/search-assembler.js';
+import { getConfig } from '../config/memory-config.js';
+import { loadConfig, toRuntimeConfig } from '../config/loader.js';
+import { approximateTokens } from '../utils/token-counter.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('note');
+
+/** Session ID prefix for note pseudo-sessions. */
+export const NOTE_SESSION_PREFIX = 'note:';
+
+/** Input for storing a note. */
+export interface NoteInput {
+  /** Note text */
+  content: string;
+  /** Project slug the note belongs to */
+  project: string;
+  /** Optional tags (trimmed, deduplicated) */
+  tags?: string[];
+  /** Pin the note (default: true) */
+  pinned?: boolean;
+  /** Full project path for disambiguation (optional) */
+  projectPath?: string;
+}
+
+/** Result of storing a note. */
+export interface NoteResult {
+  /** Chunk ID of the stored note */
+  id: string;
+  /** Pseudo-session the note was stored under */
+  sessionId: string;
+  /** Normalized tags */
+  tags: string[];
+  /** Whether the note is pinned */
+  pinned: boolean;
+  /** Whether an index entry was created */
+  indexed: boolean;
+}
+
+/**
+ * Parse a comma-separated tag list into normalized tags.
+ */
+export function parseTags(raw: string | undefined): string[] {
+  if (!raw) return [];
+  return normalizeTags(raw.split(','));
+}
+
+function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  for (const tag of tags) {
+    const trimmed = tag.trim().toLowerCase();
+    if (trimmed) seen.add(trimmed);
+  }
+  return [...seen];
+}
+
+/**
+ * Render note content for storage. Tags are appended so keyword search
+ * matches them alongside the note text.
+ */
+function renderNoteContent(content: string, tags: string[]): string {
+  const body = `[Note] ${content.trim()}`;
+  return tags.length > 0 ? `${body}\nTags: ${tags.join(', ')}` : body;
+}
+
+/**
+ * Store a user-authored note as a chunk and index it for retrieval.
+ *
+ * The note is embedded before its chunk is inserted, and the chunk is removed
+ * again if its vector can't be stored, so a failed call leaves nothing behind
+ * and can simply be retried. Its index entry is handled the same way: a note
+ * is never left with an entry that has no vector.
+ */
+export async function storeNote(input: NoteInput): Promise<NoteResult> {
+  const content = input.content.trim();
+  const project = input.project.trim();
+  if (!content) throw new Error('Note content must not be empty');
+  if (!project) throw new Error('Note project must not be empty');
+
+  const tags = normalizeTags(input.tags ?? []);
+  const pinned = input.pinned ?? true;
+  const rendered = renderNoteContent(content, tags);
+  const now = new Date().toISOString();
+  const sessionId = `${NOTE_SESSION_PREFIX}${project}`;
+  const fences = rendered.match(/```/g);
+
+  const embeddingModel = resolveServingModel(toRuntimeConfig(loadConfig()).embeddingModel);
+  const embedder = await getEmbedder(embeddingModel);
+  const { embedding } = await embedder.embed(rendered, false);
+
+  const id = insertChunk({
+    id: generateId(),
+    sessionId,
+    sessionSlug: project,
+    turnIndices: [],
+    startTime: now,
+    endTime: now,
+    content: rendered,
+    codeBlockCount: fences ? Math.floor(fences.length / 2) : 0,
+    toolUseCount: 0,
+    approxTokens: approximateTokens(rendered),
+    projectPath: input.projectPath,
+    pinned,
+    tags,
+  });
+
+  try {
+    vectorStore.setModelId(embeddingModel);
+    await vectorStore.insert(id, embedding);
+  } catch (error) {
+    deleteChunk(id);
+    throw error;
+  }
+
+  let indexed = false;
+  if (getConfig().semanticIndex.enabled) {
+    try {
+      const entry = generateHeuristicEntry(
+        { id, sessionSlug: project, startTime: now, content, approxTokens: 0 },
+        project,
+      );
+      const entryEmbedding = await embedder.embed(entry.description, false);
+      const [entryId] = insertIndexEntries([entry]);
+      try {
+        indexVectorStore.setModelId(embeddingModel);
+        await indexVectorStore.insert(entryId, entryEmbedding.embedding);
+      } catch (error) {
+        await deleteIndexEntry(entryId);
+        throw error;
+      }
+      indexed = true;
+    } catch (error) {
+      // Non-fatal: the note is still reachable via vector and keyword search
+      log.warn('Failed to index note', { id, error: (error as Error).message });
+    }
+  }
+
+  log.debug('Stored note', { id, project, pinned, tags: tags.length });
+  return { id, sessionId, tags, pinned, indexed };
+}
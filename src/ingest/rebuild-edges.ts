@@ -34,6 +34,8 @@ function storedChunkToParserChunk(stored: StoredChunk): Chunk {
       endTime: stored.endTime,
       codeBlockCount: stored.codeBlockCount,
       toolUseCount: stored.toolUseCount,
+      toolNames: [],
+      toolErrorCount: stored.toolErrorCount,
       hasThinking: false,
       renderMode: 'full',
       approxTokens: stored.approxTokens,
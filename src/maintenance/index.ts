@@ -8,6 +8,8 @@ export {
   runTask,
   runAllTasks,
   getStatus,
+  previewRetention,
+  previewEmbeddingMigration,
   runDaemon,
   type MaintenanceTask,
   type MaintenanceResult,
@@ -8,6 +8,9 @@
  * - scan-projects: Discover and ingest new sessions
  * - update-clusters: Re-run HDBSCAN clustering + refresh labels
  * - cleanup-vectors: Remove expired vectors and chunks (TTL-based)
+ * - enforce-retention: Prune chunks exceeding retention policies
+ * - migrate-embeddings: Re-embed into shadow tables after an embedding model change
+ * - evict-repomap-cache: Drop persisted repo map tags and snapshots for projects no longer on disk
  * - vacuum: Optimize SQLite database
  */
 
@@ -21,7 +24,11 @@ import { updateClusters } from './tasks/update-clusters.js';
 import { vacuum } from './tasks/vacuum.js';
 import { cleanupVectors } from './tasks/cleanup-vectors.js';
 import { backfillIndex } from './tasks/backfill-index.js';
+import { enforceRetention } from './tasks/enforce-retention.js';
+import { migrateEmbeddings } from './tasks/migrate-embeddings.js';
+import { evictRepoMapCache } from './tasks/evict-repomap-cache.js';
 import type { CronSchedule, MaintenanceResult, MaintenanceTask, TaskRun } from './types.js';
+import type { EmbeddingMigrationStatus } from '../storage/embedding-migration.js';
 
 export type { CronSchedule, MaintenanceResult, MaintenanceTask, TaskRun };
 
@@ -235,6 +242,81 @@ async function createCleanupVectorsHandler(): Promise<MaintenanceResult> {
   });
 }
 
+/**
+ * Run retention enforcement, pruning unless dryRun is set.
+ */
+async function runRetention(dryRun: boolean): Promise<MaintenanceResult> {
+  const { planRetention, pruneChunks } = await import('../storage/retention.js');
+  const retention = loadConfig().retention ?? {};
+  const policy = {
+    maxAgeDays: retention.maxAgeDays ?? 0,
+    maxChunks: retention.maxChunks ?? 0,
+    keepRetrievedWithinDays: retention.keepRetrievedWithinDays ?? 30,
+    maxDbSizeMb: retention.maxDbSizeMb ?? 0,
+    includePinned: retention.includePinned ?? false,
+    projects: retention.projects ?? {},
+  };
+  return enforceRetention({
+    planRetention: () => planRetention(policy),
+    pruneChunks,
+    dryRun,
+  });
+}
+
+async function createEnforceRetentionHandler(): Promise<MaintenanceResult> {
+  return runRetention(loadConfig().retention?.enabled !== true);
+}
+
+/** k for the recall@k comparison before an embedding migration flips. */
+const MIGRATION_RECALL_K = 10;
+
+async function createMigrateEmbeddingsHandler(): Promise<MaintenanceResult> {
+  const config = loadConfig();
+  const migration = await import('../storage/embedding-migration.js');
+  const { Embedder } = await import('../models/embedder.js');
+  const { getModel } = await import('../models/model-registry.js');
+  const { generateSamples } = await import('../eval/collection-benchmark/sampler.js');
+  const sampleSize = config.embedding?.migrationSampleSize ?? 20;
+
+  return migrateEmbeddings({
+    configuredModel: config.embedding?.model ?? 'jina-small',
+    resolveServingModel: migration.resolveServingModel,
+    startMigration: migration.startEmbeddingMigration,
+    abandonMigration: migration.abandonEmbeddingMigration,
+    getStatus: migration.getEmbeddingMigrationStatus,
+    getPending: migration.getPendingEmbeddings,
+    createEmbedder: async (targetModel) => {
+      const embedder = new Embedder();
+      await embedder.load(getModel(targetModel), { device: config.embedding?.device });
+      return {
+        embedTexts: async (texts) =>
+          (await embedder.embedBatchTrue(texts, false)).map((r) => r.embedding),
+        dispose: () => embedder.dispose(),
+      };
+    },
+    storeShadow: migration.storeShadowEmbeddings,
+    sampleProbes: () => (sampleSize > 0 ? generateSamples({ sampleSize }).adjacentPairs : []),
+    compareRecall: migration.compareMigrationRecall,
+    flip: migration.flipEmbeddingMigration,
+    batchSize: config.embedding?.migrationBatchSize ?? 500,
+    recallK: MIGRATION_RECALL_K,
+  });
+}
+
+async function createEvictRepoMapCacheHandler(): Promise<MaintenanceResult> {
+  const { getRepoMapCacheProjects, deleteRepoMapCache } =
+    await import('../storage/repomap-cache-store.js');
+  const { deleteRepoMapSnapshots } = await import('../storage/repomap-snapshot-store.js');
+  return evictRepoMapCache({
+    listCachedProjects: () => getRepoMapCacheProjects().map((p) => p.projectPath),
+    projectExists: existsSync,
+    evictProject: (projectPath) => {
+      deleteRepoMapSnapshots(projectPath);
+      return deleteRepoMapCache(projectPath);
+    },
+  });
+}
+
 /**
  * Build maintenance tasks with configurable cluster hour.
  * Cleanup runs 1h after clustering.
@@ -274,6 +356,27 @@ function buildMaintenanceTasks(): MaintenanceTask[] {
       requiresApiKey: false,
       handler: createCleanupVectorsHandler,
     },
+    {
+      name: 'enforce-retention',
+      description: 'Prune chunks exceeding retention policies (dry run unless retention.enabled)',
+      schedule: `45 ${cleanupHour} * * *`, // 15 minutes after cleanup
+      requiresApiKey: false,
+      handler: createEnforceRetentionHandler,
+    },
+    {
+      name: 'migrate-embeddings',
+      description: 'Re-embed vectors in the background after an embedding model change',
+      schedule: '20 * * * *', // Every hour, one batch per run
+      requiresApiKey: false,
+      handler: createMigrateEmbeddingsHandler,
+    },
+    {
+      name: 'evict-repomap-cache',
+      description: 'Drop persisted repo map tags and snapshots for projects no longer on disk',
+      schedule: '50 4 * * 0', // Weekly on Sunday, before vacuum
+      requiresApiKey: false,
+      handler: createEvictRepoMapCacheHandler,
+    },
     {
       name: 'vacuum',
       description: 'Optimize SQLite database',
@@ -365,6 +468,31 @@ export function getStatus(): Array<{
   }));
 }
 
+/**
+ * Report what the retention policy would prune, without deleting anything.
+ */
+export async function previewRetention(): Promise<MaintenanceResult> {
+  return runRetention(true);
+}
+
+/**
+ * Report a pending embedding migration: the model still serving, the
+ * configured target, and progress if the migration has started.
+ * Returns null when the configured model is already serving.
+ */
+export async function previewEmbeddingMigration(): Promise<{
+  servingModel: string;
+  targetModel: string;
+  status: EmbeddingMigrationStatus | null;
+} | null> {
+  const { resolveServingModel, getEmbeddingMigrationStatus } =
+    await import('../storage/embedding-migration.js');
+  const targetModel = loadConfig().embedding?.model ?? 'jina-small';
+  const servingModel = resolveServingModel(targetModel);
+  if (servingModel === targetModel) return null;
+  return { servingModel, targetModel, status: getEmbeddingMigrationStatus(targetModel) };
+}
+
 /**
  * Run the scheduler daemon.
  * Checks every minute for tasks that should run.
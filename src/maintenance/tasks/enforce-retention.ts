@@ -0,0 +1,64 @@
+/**
+ * Maintenance task: Enforce retention policies (age, per-project count, DB size).
+ * Pinned and recently retrieved chunks are kept. In dry-run mode the plan is
+ * reported without deleting anything.
+ */
+
+import type { MaintenanceResult } from '../types.js';
+import type { RetentionPlan, RetentionPruneResult } from '../../storage/retention.js';
+
+export interface EnforceRetentionDeps {
+  planRetention: () => RetentionPlan;
+  pruneChunks: (chunkIds: string[]) => Promise<RetentionPruneResult>;
+  /** Report what would be pruned without deleting */
+  dryRun: boolean;
+}
+
+export async function enforceRetention(deps: EnforceRetentionDeps): Promise<MaintenanceResult> {
+  const startTime = Date.now();
+
+  try {
+    const plan = deps.planRetention();
+    const affected = plan.projects.filter((p) => p.byAge + p.byCount + p.bySize > 0);
+    const report = {
+      dryRun: deps.dryRun,
+      dbSizeBytes: plan.dbSizeBytes,
+      maxDbSizeBytes: plan.maxDbSizeBytes,
+      plannedChunks: plan.chunkIds.length,
+      projects: plan.projects,
+    };
+
+    if (plan.chunkIds.length === 0) {
+      return {
+        success: true,
+        duration: Date.now() - startTime,
+        message: 'No chunks exceed retention limits',
+        details: report,
+      };
+    }
+
+    if (deps.dryRun) {
+      return {
+        success: true,
+        duration: Date.now() - startTime,
+        message: `Would prune ${plan.chunkIds.length} chunks across ${affected.length} projects (dry run)`,
+        details: report,
+      };
+    }
+
+    const pruned = await deps.pruneChunks(plan.chunkIds);
+
+    return {
+      success: true,
+      duration: Date.now() - startTime,
+      message: `Pruned ${pruned.chunksDeleted} chunks across ${affected.length} projects (${pruned.vectorsDeleted} vectors, ${pruned.indexEntriesDeleted} index entries, ${pruned.edgesDeleted} dangling edges)`,
+      details: { ...report, ...pruned },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      duration: Date.now() - startTime,
+      message: `Retention enforcement failed: ${(error as Error).message}`,
+    };
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Maintenance task: Evict persisted repo map tags for projects no longer on disk.
+ */
+
+import type { MaintenanceResult } from '../types.js';
+
+export interface EvictRepoMapCacheDeps {
+  listCachedProjects: () => string[];
+  projectExists: (projectPath: string) => boolean;
+  evictProject: (projectPath: string) => number;
+}
+
+export async function evictRepoMapCache(deps: EvictRepoMapCacheDeps): Promise<MaintenanceResult> {
+  const startTime = Date.now();
+
+  try {
+    const evicted: string[] = [];
+    let filesEvicted = 0;
+
+    for (const projectPath of deps.listCachedProjects()) {
+      if (deps.projectExists(projectPath)) continue;
+      filesEvicted += deps.evictProject(projectPath);
+      evicted.push(projectPath);
+    }
+
+    return {
+      success: true,
+      duration: Date.now() - startTime,
+      message: `Evicted repo map cache for ${evicted.length} missing projects (${filesEvicted} files)`,
+      details: { projectsEvicted: evicted, filesEvicted },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      duration: Date.now() - startTime,
+      message: `Repo map cache eviction failed: ${(error as Error).message}`,
+    };
+  }
+}
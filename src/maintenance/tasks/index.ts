@@ -6,3 +6,6 @@ export { scanProjects, type ScanProjectsDeps } from './scan-projects.js';
 export { updateClusters, type UpdateClustersDeps } from './update-clusters.js';
 export { vacuum, type VacuumDeps } from './vacuum.js';
 export { cleanupVectors, type CleanupVectorsDeps } from './cleanup-vectors.js';
+export { enforceRetention, type EnforceRetentionDeps } from './enforce-retention.js';
+export { migrateEmbeddings, type MigrateEmbeddingsDeps } from './migrate-embeddings.js';
+export { evictRepoMapCache, type EvictRepoMapCacheDeps } from './evict-repomap-cache.js';
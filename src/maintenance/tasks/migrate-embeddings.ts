@@ -0,0 +1,113 @@
+/**
+ * Maintenance task: Migrate vectors to a newly configured embedding model.
+ *
+ * Each run re-embeds at most one batch into the shadow tables while search
+ * keeps serving the old model. When coverage reaches 100% the task compares
+ * recall@k of both models on sampled queries and flips atomically.
+ */
+
+import type { MaintenanceResult } from '../types.js';
+import type {
+  EmbeddingMigrationStatus,
+  MigrationFlipResult,
+  MigrationRecall,
+  PendingEmbedding,
+  RecallProbe,
+} from '../../storage/embedding-migration.js';
+
+/** Target-model embedder, created only when a batch needs embedding. */
+export interface MigrationEmbedder {
+  embedTexts: (texts: string[]) => Promise<number[][]>;
+  dispose: () => Promise<void>;
+}
+
+export interface MigrateEmbeddingsDeps {
+  /** Model configured in `embedding.model` */
+  configuredModel: string;
+  resolveServingModel: (configuredModel: string) => string;
+  startMigration: (sourceModel: string, targetModel: string) => void;
+  abandonMigration: () => boolean;
+  getStatus: (targetModel: string) => EmbeddingMigrationStatus | null;
+  getPending: (targetModel: string, limit: number) => PendingEmbedding[];
+  createEmbedder: (targetModel: string) => Promise<MigrationEmbedder>;
+  storeShadow: (
+    targetModel: string,
+    items: Array<{ table: PendingEmbedding['table']; id: string; embedding: number[] }>,
+  ) => void;
+  /** Sample query/expected pairs for the recall comparison (empty to skip it) */
+  sampleProbes: () => RecallProbe[];
+  compareRecall: (targetModel: string, probes: RecallProbe[], k: number) => MigrationRecall | null;
+  flip: (targetModel: string) => MigrationFlipResult;
+  /** Maximum vectors to re-embed per run */
+  batchSize: number;
+  /** k for recall@k */
+  recallK: number;
+}
+
+export async function migrateEmbeddings(deps: MigrateEmbeddingsDeps): Promise<MaintenanceResult> {
+  const startTime = Date.now();
+  const target = deps.configuredModel;
+
+  try {
+    const source = deps.resolveServingModel(target);
+    if (source === target) {
+      // The configured model is already serving; drop any half-built
+      // migration left behind by switching the model back
+      const abandoned = deps.abandonMigration();
+      return {
+        success: true,
+        duration: Date.now() - startTime,
+        message: abandoned
+          ? `Discarded unfinished embedding migration (${target} is serving)`
+          : 'No embedding migration pending',
+      };
+    }
+
+    deps.startMigration(source, target);
+
+    const pending = deps.getPending(target, deps.batchSize);
+    if (pending.length > 0) {
+      const embedder = await deps.createEmbedder(target);
+      try {
+        const embeddings = await embedder.embedTexts(pending.map((p) => p.text));
+        deps.storeShadow(
+          target,
+          pending.map((p, i) => ({ table: p.table, id: p.id, embedding: embeddings[i] })),
+        );
+      } finally {
+        await embedder.dispose();
+      }
+    }
+
+    const status = deps.getStatus(target)!;
+    if (status.done < status.total) {
+      const pct = Math.floor(status.coverage * 100);
+      return {
+        success: true,
+        duration: Date.now() - startTime,
+        message: `Migrating ${source} → ${target}: ${status.done}/${status.total} vectors (${pct}%), still serving ${source}`,
+        details: { ...status, embedded: pending.length },
+      };
+    }
+
+    const probes = deps.sampleProbes();
+    const recall = probes.length > 0 ? deps.compareRecall(target, probes, deps.recallK) : null;
+    const flipped = deps.flip(target);
+
+    const recallSummary = recall
+      ? `; recall@${recall.k} ${recall.source.toFixed(2)} → ${recall.target.toFixed(2)} over ${recall.sampledQueries} queries`
+      : '';
+    return {
+      success: true,
+      duration: Date.now() - startTime,
+      message: `Flipped to ${target}: ${flipped.vectorsFlipped} vectors, ${flipped.indexVectorsFlipped} index vectors${recallSummary}`,
+      details: { ...status, embedded: pending.length, recall, ...flipped },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      duration: Date.now() - startTime,
+      message: `Embedding migration failed: ${(error as Error).message}`,
+    };
+  }
+}
@@ -0,0 +1,420 @@
+/**
+ * Streamable HTTP transport for the MCP server.
+ *
+ * Serves the same JSON-RPC surface as the stdio transport on a single
+ * `/mcp` endpoint so several clients (or remote machines) can share one
+ * warm server process:
+ *
+ * - POST delivers one message or a batch; replies are JSON, or an SSE
+ *   stream when the client only accepts `text/event-stream`
+ * - GET opens a long-lived SSE stream for server-initiated messages, such
+ *   as resource change notifications
+ * - DELETE ends the session
+ *
+ * Each client gets its own session (`Mcp-Session-Id`, issued on initialize)
+ * backed by its own McpServer instance. The database, vector store, keyword
+ * store and embedder are module-level singletons, so all sessions share them,
+ * as they share one ingestion poller for resource notifications.
+ *
+ * Every request must carry `Authorization: Bearer <token>`. The token is
+ * resolved from the environment or the secret store, and generated on first
+ * use if neither has one; `causantic serve` writes a generated token to
+ * {@link HTTP_TOKEN_FILE} rather than printing it.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { randomBytes, randomUUID, timingSafeEqual } from 'node:crypto';
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { McpServer, type McpMessage, type McpResponse, type McpServerConfig } from './server.js';
+import { getDb, closeDb } from '../storage/db.js';
+import { bootstrap } from '../config/bootstrap.js';
+import { resolvePath } from '../config/memory-config.js';
+import { disposeRetrieval } from '../retrieval/context-assembler.js';
+import { createSecretStore, type SecretStore } from '../utils/secret-store.js';
+import { createLogger } from '../utils/logger.js';
+import { errorMessage } from '../utils/errors.js';
+
+const log = createLogger('mcp-http');
+
+/** Secret store key holding the HTTP bearer token. */
+export const HTTP_TOKEN_KEY = 'causantic-mcp-token';
+
+/** File a generated bearer token is written to, readable only by its owner. */
+export const HTTP_TOKEN_FILE = '~/.causantic/mcp-token';
+
+/** Path of the MCP endpoint. */
+export const MCP_ENDPOINT = '/mcp';
+
+/** Header carrying the session id. */
+const SESSION_HEADER = 'mcp-session-id';
+
+/** Maximum accepted request body (bytes). */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/** Interval between SSE keep-alive comments (ms). */
+const KEEPALIVE_INTERVAL_MS = 25_000;
+
+/** HTTP transport options. */
+export interface HttpTransportOptions {
+  /** Port to listen on (0 picks a free port) */
+  port: number;
+  /** Interface to bind (default: 127.0.0.1) */
+  host?: string;
+  /** Bearer token required on every request */
+  authToken: string;
+  /** Idle time before a session is discarded (default: 30 minutes) */
+  sessionTimeoutMs?: number;
+  /** Config passed to each per-session McpServer */
+  serverConfig?: Omit<McpServerConfig, 'authToken'>;
+  /** Initialize config and database before listening (default: true) */
+  initServices?: boolean;
+}
+
+/** A running HTTP transport. */
+export interface HttpTransport {
+  /** Underlying HTTP server */
+  server: Server;
+  /** Bound port */
+  port: number;
+  /** Number of live sessions */
+  sessionCount(): number;
+  /** Push a server-initiated message to every open SSE stream of a session */
+  notify(sessionId: string, message: Record<string, unknown>): boolean;
+  /** Close all sessions and stop listening */
+  close(): Promise<void>;
+}
+
+/** Per-client session state. */
+interface HttpSession {
+  id: string;
+  server: McpServer;
+  streams: Set<ServerResponse>;
+  lastSeen: number;
+}
+
+/**
+ * Resolve the bearer token for the HTTP transport.
+ *
+ * Order: CAUSANTIC_MCP_AUTH_TOKEN env var, then the secret store. When
+ * neither has a token a new one is generated and saved to the secret store.
+ */
+export async function resolveHttpAuthToken(
+  store: SecretStore = createSecretStore(),
+): Promise<{ token: string; generated: boolean }> {
+  const fromEnv = process.env.CAUSANTIC_MCP_AUTH_TOKEN;
+  if (fromEnv) return { token: fromEnv, generated: false };
+
+  const stored = await store.get(HTTP_TOKEN_KEY);
+  if (stored) return { token: stored, generated: false };
+
+  const token = randomBytes(32).toString('hex');
+  await store.set(HTTP_TOKEN_KEY, token);
+  return { token, generated: true };
+}
+
+/**
+ * Write a bearer token to a file only its owner can read, so it can be handed
+ * to clients without appearing in terminal output or logs.
+ *
+ * @returns The file's resolved path
+ */
+export function writeHttpTokenFile(token: string, filePath: string = HTTP_TOKEN_FILE): string {
+  const resolved = resolvePath(filePath);
+  mkdirSync(dirname(resolved), { recursive: true, mode: 0o700 });
+  // mode only applies when the file is created, so replace any existing file
+  // instead of writing the token into it while it may still be readable
+  rmSync(resolved, { force: true });
+  writeFileSync(resolved, `${token}\n`, { mode: 0o600, flag: 'wx' });
+  return resolved;
+}
+
+/**
+ * Constant-time bearer token check.
+ */
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) return false;
+
+  const presented = Buffer.from(header.slice('Bearer '.length).trim());
+  const expected = Buffer.from(token);
+  return presented.length === expected.length && timingSafeEqual(presented, expected);
+}
+
+/**
+ * Reject browser requests from non-local origins (DNS rebinding protection).
+ */
+function isAllowedOrigin(req: IncomingMessage): boolean {
+  const origin = req.headers.origin;
+  if (!origin) return true;
+  try {
+    const { hostname } = new URL(origin);
+    return hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '[::1]';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read and parse a JSON request body.
+ */
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  sendJson(res, status, { jsonrpc: '2.0', id: null, error: { code, message } });
+}
+
+function writeSseEvent(res: ServerResponse, payload: unknown): void {
+  res.write(`event: message\ndata: ${JSON.stringify(payload)}\n\n`);
+}
+
+/**
+ * Start the MCP server on a streamable HTTP endpoint.
+ */
+export async function startHttpTransport(options: HttpTransportOptions): Promise<HttpTransport> {
+  const host = options.host ?? '127.0.0.1';
+  const sessionTimeoutMs = options.sessionTimeoutMs ?? 30 * 60 * 1000;
+  const sessions = new Map<string, HttpSession>();
+
+  if (options.initServices ?? true) {
+    bootstrap();
+    getDb();
+  }
+
+  const endSession = (session: HttpSession): void => {
+    session.server.setNotificationListener(null);
+    for (const stream of session.streams) {
+      stream.end();
+    }
+    session.streams.clear();
+    sessions.delete(session.id);
+    log.debug('Session closed', { sessionId: session.id });
+  };
+
+  const handlePost = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    session: HttpSession | undefined,
+  ): Promise<void> => {
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      sendRpcError(res, 400, -32700, `Parse error: ${errorMessage(error)}`);
+      return;
+    }
+
+    const isBatch = Array.isArray(body);
+    const messages = (isBatch ? body : [body]) as McpMessage[];
+    const initializing = messages.some((m) => m?.method === 'initialize');
+
+    if (!session) {
+      if (!initializing) {
+        sendRpcError(res, 400, -32600, 'Missing Mcp-Session-Id header');
+        return;
+      }
+      session = {
+        id: randomUUID(),
+        server: new McpServer({ ...options.serverConfig, authToken: '' }),
+        streams: new Set(),
+        lastSeen: Date.now(),
+      };
+      sessions.set(session.id, session);
+      const streams = session.streams;
+      session.server.setNotificationListener((notification) => {
+        for (const stream of streams) {
+          writeSseEvent(stream, notification);
+        }
+      });
+      log.debug('Session opened', { sessionId: session.id });
+    }
+
+    const responses: McpResponse[] = [];
+    for (const message of messages) {
+      const response = await session.server.handleMessage(message, { authenticated: true });
+      if (response) responses.push(response);
+    }
+
+    res.setHeader('Mcp-Session-Id', session.id);
+
+    // Notifications and responses only — nothing to send back
+    if (responses.length === 0) {
+      res.writeHead(202);
+      res.end();
+      return;
+    }
+
+    const accept = req.headers.accept ?? '';
+    const wantsSse = accept.includes('text/event-stream') && !accept.includes('application/json');
+    if (wantsSse) {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+      for (const response of responses) {
+        writeSseEvent(res, response);
+      }
+      res.end();
+      return;
+    }
+
+    sendJson(res, 200, isBatch ? responses : responses[0]);
+  };
+
+  const handleGet = (req: IncomingMessage, res: ServerResponse, session: HttpSession): void => {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'Mcp-Session-Id': session.id,
+    });
+    res.write(': connected\n\n');
+    session.streams.add(res);
+
+    const keepalive = setInterval(() => {
+      res.write(': keepalive\n\n');
+      session.lastSeen = Date.now();
+    }, KEEPALIVE_INTERVAL_MS);
+    keepalive.unref();
+
+    req.on('close', () => {
+      clearInterval(keepalive);
+      session.streams.delete(res);
+    });
+  };
+
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? host}`);
+
+    if (url.pathname !== MCP_ENDPOINT) {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+    if (!isAllowedOrigin(req)) {
+      sendJson(res, 403, { error: 'Forbidden origin' });
+      return;
+    }
+    if (!isAuthorized(req, options.authToken)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendRpcError(res, 401, -32001, 'Unauthorized');
+      return;
+    }
+
+    const sessionId = req.headers[SESSION_HEADER] as string | undefined;
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (sessionId && !session) {
+      sendRpcError(res, 404, -32600, 'Unknown or expired session');
+      return;
+    }
+    if (session) session.lastSeen = Date.now();
+
+    switch (req.method) {
+      case 'POST':
+        handlePost(req, res, session).catch((error) => {
+          log.error('Request failed', { error: errorMessage(error) });
+          if (!res.headersSent) sendRpcError(res, 500, -32603, 'Internal error');
+        });
+        return;
+
+      case 'GET':
+        if (!session) {
+          sendRpcError(res, 400, -32600, 'Missing Mcp-Session-Id header');
+          return;
+        }
+        handleGet(req, res, session);
+        return;
+
+      case 'DELETE':
+        if (!session) {
+          sendRpcError(res, 400, -32600, 'Missing Mcp-Session-Id header');
+          return;
+        }
+        endSession(session);
+        res.writeHead(204);
+        res.end();
+        return;
+
+      default:
+        res.setHeader('Allow', 'GET, POST, DELETE');
+        sendJson(res, 405, { error: 'Method not allowed' });
+    }
+  });
+
+  // Discard sessions that have gone quiet
+  const sweeper = setInterval(
+    () => {
+      const cutoff = Date.now() - sessionTimeoutMs;
+      for (const session of sessions.values()) {
+        if (session.lastSeen < cutoff && session.streams.size === 0) {
+          endSession(session);
+        }
+      }
+    },
+    Math.min(sessionTimeoutMs, 60_000),
+  );
+  sweeper.unref();
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = server.address();
+  const port = typeof address === 'object' && address ? address.port : options.port;
+  log.info('MCP HTTP transport listening', { host, port });
+
+  return {
+    server,
+    port,
+    sessionCount: () => sessions.size,
+    notify(sessionId, message) {
+      const session = sessions.get(sessionId);
+      if (!session || session.streams.size === 0) return false;
+      for (const stream of session.streams) {
+        writeSseEvent(stream, { jsonrpc: '2.0', ...message });
+      }
+      return true;
+    },
+    async close() {
+      clearInterval(sweeper);
+      for (const session of [...sessions.values()]) {
+        endSession(session);
+      }
+      const closed = new Promise<void>((resolve) => server.close(() => resolve()));
+      server.closeAllConnections();
+      await closed;
+      if (options.initServices ?? true) {
+        await disposeRetrieval();
+        closeDb();
+      }
+    },
+  };
+}
@@ -4,6 +4,8 @@
 
 // Server
 export { McpServer, startMcpServer } from './server.js';
+export { startHttpTransport, resolveHttpAuthToken } from './http-transport.js';
+export type { HttpTransport, HttpTransportOptions } from './http-transport.js';
 
 // Tools
 export { tools, getTool, searchTool, recallTool, predictTool } from './tools.js';
@@ -0,0 +1,262 @@
+/**
+ * Structured payloads for the MCP tools' JSON output mode.
+ *
+ * Tools that accept `format: "json"` return one of these payloads serialized
+ * as JSON instead of their text rendering, so scripts and other agents can
+ * read chunk ids, scores, sessions and timestamps without parsing markdown.
+ * Field names are camelCase. Values that could not be looked up are null;
+ * fields that don't apply to a call are omitted.
+ */
+
+import { getChunksByIds } from '../storage/chunk-store.js';
+import { approximateTokens } from '../utils/token-counter.js';
+import type { SessionInfo } from '../storage/chunk-store.js';
+import type { RetrievalResponse } from '../retrieval/context-assembler.js';
+import type { QueryInterpretation } from '../retrieval/query-parser.js';
+import type { ReconstructResult, BriefingResult } from '../retrieval/session-reconstructor.js';
+import type { StoredSessionState } from '../storage/session-state-store.js';
+import type { RepoMapResult } from '../repomap/index.js';
+
+/** Output formats accepted by the `format` tool parameter. */
+export type OutputFormat = 'text' | 'json';
+
+/** A retrieved chunk with its score and provenance. */
+export interface ChunkPayload {
+  id: string;
+  sessionId: string | null;
+  project: string;
+  /** Relevance score (final ranking weight). */
+  score: number;
+  /** Retrieval source that surfaced the chunk, when known. */
+  source?: 'vector' | 'keyword' | 'cluster' | 'entity';
+  startTime: string | null;
+  endTime: string | null;
+  tokens: number | null;
+  agentId: string | null;
+  preview: string;
+}
+
+/** Payload of the search, recall and predict tools. */
+export interface RetrievalPayload {
+  tool: 'search' | 'recall' | 'predict';
+  query: string;
+  chunks: ChunkPayload[];
+  tokenCount: number;
+  totalConsidered: number;
+  durationMs: number;
+  /** Assembled context text, as included in the text rendering. */
+  text: string;
+  /** Session summaries matching the query (recall only). */
+  sessionSummaries?: Array<{ sessionId: string; endedAt: string; summary: string }>;
+  /** Chain walk diagnostics (recall and predict). */
+  diagnostics?: RetrievalResponse['diagnostics'];
+  /** Filters parsed from the query, when any were found. */
+  interpretation?: QueryInterpretation;
+}
+
+/** Payload of the list-sessions tool. */
+export interface SessionsPayload {
+  project: string;
+  totalCount: number;
+  truncated: boolean;
+  sessions: SessionInfo[];
+}
+
+/** Payload of the reconstruct tool in timeline mode. */
+export interface ReconstructPayload {
+  mode: 'timeline';
+  project: string;
+  timeRange: { from: string; to: string };
+  totalTokens: number;
+  truncated: boolean;
+  sessions: SessionInfo[];
+  chunks: Array<{
+    id: string;
+    sessionId: string;
+    startTime: string;
+    tokens: number;
+    agentId: string | null;
+    content: string;
+  }>;
+  commit?: { sha: string; subject: string; sessionId: string; committedAt: string | null };
+}
+
+/** Payload of the reconstruct tool in briefing mode. */
+export interface BriefingPayload {
+  mode: 'briefing';
+  project: string;
+  tokenCount: number;
+  sessionCount: number;
+  hasRepoMap: boolean;
+  text: string;
+}
+
+/** Payload of the repomap tool. */
+export interface RepoMapPayload {
+  projectPath: string;
+  fileCount: number;
+  definitionCount: number;
+  edgeCount: number;
+  parsedCount: number;
+  durationMs: number;
+  /** Approximate token count of the rendered map. */
+  tokens: number;
+  /** The package mapped, when `package` was given. */
+  package?: { name: string; path: string };
+  /** The detected workspace and its package-level dependency edges. */
+  workspace?: {
+    kind: string;
+    packages: Array<{ name: string; path: string; dependencies: string[] }>;
+    edges: Array<{ from: string; to: string; weight: number; declared: boolean }>;
+  };
+  /** The rendered map. */
+  text: string;
+}
+
+/**
+ * Serialize a payload as a tool response.
+ */
+export function serializePayload(payload: object): string {
+  return JSON.stringify(payload, null, 2);
+}
+
+/**
+ * Build chunk payloads for retrieved chunks, adding session ids, timestamps
+ * and token counts from the chunk store.
+ */
+export function buildChunkPayloads(chunks: RetrievalResponse['chunks']): ChunkPayload[] {
+  const stored = new Map(getChunksByIds(chunks.map((c) => c.id)).map((c) => [c.id, c]));
+  return chunks.map((chunk) => {
+    const full = stored.get(chunk.id);
+    return {
+      id: chunk.id,
+      sessionId: full?.sessionId ?? null,
+      project: chunk.sessionSlug,
+      score: chunk.weight,
+      ...(chunk.source ? { source: chunk.source } : {}),
+      startTime: full?.startTime ?? null,
+      endTime: full?.endTime ?? null,
+      tokens: full?.approxTokens ?? null,
+      agentId: full?.agentId ?? null,
+      preview: chunk.preview,
+    };
+  });
+}
+
+/**
+ * Build the payload of a search, recall or predict call.
+ */
+export function buildRetrievalPayload(
+  tool: RetrievalPayload['tool'],
+  query: string,
+  response: Pick<
+    RetrievalResponse,
+    | 'chunks'
+    | 'tokenCount'
+    | 'totalConsidered'
+    | 'durationMs'
+    | 'text'
+    | 'diagnostics'
+    | 'interpretation'
+  >,
+  summaries: StoredSessionState[] = [],
+): RetrievalPayload {
+  const payload: RetrievalPayload = {
+    tool,
+    query,
+    chunks: buildChunkPayloads(response.chunks),
+    tokenCount: response.tokenCount,
+    totalConsidered: response.totalConsidered,
+    durationMs: response.durationMs,
+    text: response.text,
+  };
+  if (tool === 'recall') {
+    payload.sessionSummaries = summaries.map((s) => ({
+      sessionId: s.sessionId,
+      endedAt: s.endedAt,
+      summary: s.summary ?? '',
+    }));
+  }
+  if (response.diagnostics) {
+    payload.diagnostics = response.diagnostics;
+  }
+  if (response.interpretation) {
+    payload.interpretation = response.interpretation;
+  }
+  return payload;
+}
+
+/**
+ * Build the payload of a timeline reconstruction.
+ */
+export function buildReconstructPayload(
+  project: string,
+  result: ReconstructResult,
+): ReconstructPayload {
+  const payload: ReconstructPayload = {
+    mode: 'timeline',
+    project,
+    timeRange: result.timeRange,
+    totalTokens: result.totalTokens,
+    truncated: result.truncated,
+    sessions: result.sessions,
+    chunks: result.chunks.map((c) => ({
+      id: c.id,
+      sessionId: c.sessionId,
+      startTime: c.startTime,
+      tokens: c.approxTokens,
+      agentId: c.agentId,
+      content: c.content,
+    })),
+  };
+  if (result.commit) {
+    payload.commit = {
+      sha: result.commit.sha,
+      subject: result.commit.subject,
+      sessionId: result.commit.sessionId,
+      committedAt: result.commit.committedAt,
+    };
+  }
+  return payload;
+}
+
+/**
+ * Build the payload of a session briefing.
+ */
+export function buildBriefingPayload(project: string, briefing: BriefingResult): BriefingPayload {
+  return {
+    mode: 'briefing',
+    project,
+    tokenCount: briefing.tokenCount,
+    sessionCount: briefing.sessionCount,
+    hasRepoMap: briefing.hasRepoMap,
+    text: briefing.text,
+  };
+}
+
+/**
+ * Build the payload of a repo map.
+ */
+export function buildRepoMapPayload(projectPath: string, result: RepoMapResult): RepoMapPayload {
+  const payload: RepoMapPayload = {
+    projectPath,
+    fileCount: result.fileCount,
+    definitionCount: result.definitionCount,
+    edgeCount: result.edgeCount,
+    parsedCount: result.parsedCount,
+    durationMs: Math.round(result.durationMs),
+    tokens: approximateTokens(result.text),
+    text: result.text,
+  };
+  if (result.package) {
+    payload.package = { name: result.package.name, path: result.package.path };
+  }
+  if (result.workspace) {
+    payload.workspace = {
+      kind: result.workspace.kind,
+      packages: result.workspace.packages,
+      edges: result.packageEdges ?? [],
+    };
+  }
+  return payload;
+}
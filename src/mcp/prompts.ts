@@ -0,0 +1,145 @@
+/**
+ * MCP prompt definitions wrapping common memory workflows.
+ *
+ * Each prompt returns messages with the relevant memory already embedded,
+ * so a client can start the workflow without a tool call.
+ */
+
+import { recall } from '../retrieval/context-assembler.js';
+import { getConfig } from '../config/memory-config.js';
+import { readResource, resourceUri } from './resources.js';
+import type { ResourceContents } from './resources.js';
+
+/** A prompt argument, as listed by prompts/list. */
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required: boolean;
+}
+
+/** A message of a rendered prompt. */
+export interface PromptMessage {
+  role: 'user' | 'assistant';
+  content: { type: 'text'; text: string } | { type: 'resource'; resource: ResourceContents };
+}
+
+/** A rendered prompt, as returned by prompts/get. */
+export interface PromptResult {
+  description: string;
+  messages: PromptMessage[];
+}
+
+/**
+ * Prompt definition for MCP.
+ */
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  handler: (args: Record<string, string>) => Promise<PromptResult>;
+}
+
+/**
+ * Read a required prompt argument.
+ * @throws Error if the argument is missing or blank.
+ */
+function requireArgument(args: Record<string, string>, name: string): string {
+  const value = args[name]?.trim();
+  if (!value) {
+    throw new Error(`Missing required argument: ${name}`);
+  }
+  return value;
+}
+
+/**
+ * Resume project prompt: the project's briefing plus instructions to pick up where it left off.
+ */
+export const resumeProjectPrompt: PromptDefinition = {
+  name: 'resume-project',
+  description:
+    "Resume work on a project: attaches the project's session briefing (recent sessions, open errors, outcomes, repo map) and asks for a summary of where things stand and the next step.",
+  arguments: [
+    {
+      name: 'project',
+      description: 'Project slug. Use the list-projects tool to discover available projects.',
+      required: true,
+    },
+  ],
+  handler: async (args) => {
+    const project = requireArgument(args, 'project');
+    const briefing = await readResource(resourceUri({ kind: 'briefing', project }));
+
+    return {
+      description: `Resume work on ${project}`,
+      messages: [
+        { role: 'user', content: { type: 'resource', resource: briefing } },
+        {
+          role: 'user',
+          content: {
+            type: 'text',
+            text: `I'm resuming work on ${project}. Using the briefing above, summarize where we left off — the goal of the last session, what was completed, open errors and unfinished tasks — and suggest the next step. Use the reconstruct or recall tools if you need more detail.`,
+          },
+        },
+      ],
+    };
+  },
+};
+
+/**
+ * Investigate error prompt: past context about an error plus instructions to diagnose it.
+ */
+export const investigateErrorPrompt: PromptDefinition = {
+  name: 'investigate-error',
+  description:
+    'Investigate an error: recalls past sessions where the error (or something like it) came up and asks whether it was seen before, what caused it and how to fix it.',
+  arguments: [
+    {
+      name: 'error',
+      description: 'The error message or a description of the failure.',
+      required: true,
+    },
+    {
+      name: 'project',
+      description: 'Project slug to limit the recall to. Omit to search all projects.',
+      required: false,
+    },
+  ],
+  handler: async (args) => {
+    const error = requireArgument(args, 'error');
+    const project = args.project?.trim() || undefined;
+
+    const response = await recall(error, {
+      maxTokens: getConfig().mcpMaxResponseTokens,
+      projectFilter: project,
+    });
+    const memory =
+      response.chunks.length > 0
+        ? `Past context (${response.chunks.length} chunks):\n\n${response.text}`
+        : 'No past context about this error was found in memory.';
+
+    return {
+      description: `Investigate: ${error.split('\n')[0].slice(0, 80)}`,
+      messages: [
+        {
+          role: 'user',
+          content: {
+            type: 'text',
+            text: `I'm seeing this error${project ? ` in ${project}` : ''}:\n\n\`\`\`\n${error}\n\`\`\`\n\n${memory}\n\nUsing the context above, tell me whether we've hit this before and how it was resolved, what is likely causing it now, and how to fix it. Use the recall or file-history tools to dig further.`,
+          },
+        },
+      ],
+    };
+  },
+};
+
+/**
+ * All available prompts.
+ */
+export const prompts: PromptDefinition[] = [resumeProjectPrompt, investigateErrorPrompt];
+
+/**
+ * Get prompt by name.
+ */
+export function getPrompt(name: string): PromptDefinition | undefined {
+  return prompts.find((p) => p.name === name);
+}
@@ -0,0 +1,350 @@
+/**
+ * MCP resources: memory a client can attach as context without a tool call.
+ *
+ * - `causantic://project/{slug}/briefing` — session briefing for a project
+ * - `causantic://session/{id}` — a session's chunks in order
+ * - `causantic://chunk/{id}` — a single chunk
+ * - `causantic://repomap/{slug}` — repo map of the directory a project was recorded in
+ *
+ * Sessions are ingested by hook processes, not the server, so new sessions
+ * are detected by polling the chunk store's ingestion watermark, once per
+ * process however many servers subscribe.
+ */
+
+import {
+  getChunkById,
+  getChunksBySession,
+  getDistinctProjects,
+  getSessionsForProject,
+  getProjectPathForSlug,
+  getIngestionWatermark,
+  getSessionsIngestedAfter,
+} from '../storage/chunk-store.js';
+import type { IngestedSession } from '../storage/chunk-store.js';
+import { getConfig } from '../config/memory-config.js';
+import { reconstructSession, formatReconstruction } from '../retrieval/session-reconstructor.js';
+import { buildRepoMap } from '../repomap/index.js';
+import { buildProjectBriefing } from './services.js';
+import { RetrievalError, errorMessage } from '../utils/errors.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('mcp-resources');
+
+/** URI scheme of Causantic resources. */
+export const RESOURCE_SCHEME = 'causantic://';
+
+/** Sessions listed per project by resources/list. */
+const LISTED_SESSIONS_PER_PROJECT = 5;
+
+/** A concrete resource, as returned by resources/list. */
+export interface ResourceDescriptor {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+/** A parameterized resource, as returned by resources/templates/list. */
+export interface ResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+/** The contents of a read resource. */
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+/** A parsed resource URI. */
+export type ResourceRef =
+  | { kind: 'briefing'; project: string }
+  | { kind: 'session'; sessionId: string }
+  | { kind: 'chunk'; chunkId: string }
+  | { kind: 'repomap'; project: string };
+
+/** URI templates for every resource kind. */
+export const resourceTemplates: ResourceTemplate[] = [
+  {
+    uriTemplate: 'causantic://project/{slug}/briefing',
+    name: 'Project briefing',
+    description:
+      'Structured briefing for a project: recent session summaries, open errors, outcomes and, when the project directory is recorded, its repo map.',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'causantic://session/{id}',
+    name: 'Session',
+    description: "A session's chunks in chronological order, trimmed to the response budget.",
+    mimeType: 'text/plain',
+  },
+  {
+    uriTemplate: 'causantic://chunk/{id}',
+    name: 'Chunk',
+    description: 'A single memory chunk with its session, time range and project.',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'causantic://repomap/{slug}',
+    name: 'Repo map',
+    description:
+      "Structural summary of the directory a project's sessions were recorded in — files, definitions and cross-file relationships.",
+    mimeType: 'text/plain',
+  },
+];
+
+/**
+ * Build the URI of a resource.
+ */
+export function resourceUri(ref: ResourceRef): string {
+  switch (ref.kind) {
+    case 'briefing':
+      return `${RESOURCE_SCHEME}project/${encodeURIComponent(ref.project)}/briefing`;
+    case 'session':
+      return `${RESOURCE_SCHEME}session/${encodeURIComponent(ref.sessionId)}`;
+    case 'chunk':
+      return `${RESOURCE_SCHEME}chunk/${encodeURIComponent(ref.chunkId)}`;
+    case 'repomap':
+      return `${RESOURCE_SCHEME}repomap/${encodeURIComponent(ref.project)}`;
+  }
+}
+
+/**
+ * Parse a resource URI. Returns null for URIs that name no Causantic resource.
+ */
+export function parseResourceUri(uri: string): ResourceRef | null {
+  if (!uri.startsWith(RESOURCE_SCHEME)) return null;
+  const parts = uri.slice(RESOURCE_SCHEME.length).split('/');
+
+  let decoded: string[];
+  try {
+    decoded = parts.map((part) => decodeURIComponent(part));
+  } catch {
+    return null;
+  }
+  if (decoded.some((part) => part === '')) return null;
+
+  const [kind, id, suffix] = decoded;
+  if (kind === 'project' && decoded.length === 3 && suffix === 'briefing') {
+    return { kind: 'briefing', project: id };
+  }
+  if (decoded.length !== 2) return null;
+  if (kind === 'session') return { kind: 'session', sessionId: id };
+  if (kind === 'chunk') return { kind: 'chunk', chunkId: id };
+  if (kind === 'repomap') return { kind: 'repomap', project: id };
+  return null;
+}
+
+/**
+ * List concrete resources: a briefing and repo map per project, and each
+ * project's most recent sessions. Chunks are only reachable by template.
+ */
+export function listResources(): ResourceDescriptor[] {
+  const resources: ResourceDescriptor[] = [];
+  const repomapEnabled = getConfig().repomap.enabled;
+
+  for (const project of getDistinctProjects()) {
+    resources.push({
+      uri: resourceUri({ kind: 'briefing', project: project.slug }),
+      name: `${project.slug} briefing`,
+      description: `Session briefing for ${project.slug} (${project.chunkCount} chunks)`,
+      mimeType: 'text/markdown',
+    });
+    if (repomapEnabled && getProjectPathForSlug(project.slug)) {
+      resources.push({
+        uri: resourceUri({ kind: 'repomap', project: project.slug }),
+        name: `${project.slug} repo map`,
+        mimeType: 'text/plain',
+      });
+    }
+    for (const session of getSessionsForProject(project.slug).slice(
+      0,
+      LISTED_SESSIONS_PER_PROJECT,
+    )) {
+      resources.push({
+        uri: resourceUri({ kind: 'session', sessionId: session.sessionId }),
+        name: `${project.slug} session ${session.sessionId.slice(0, 8)}`,
+        description: `${session.firstChunkTime} – ${session.lastChunkTime}, ${session.chunkCount} chunks, ${session.totalTokens} tokens`,
+        mimeType: 'text/plain',
+      });
+    }
+  }
+
+  return resources;
+}
+
+/**
+ * Resolve the directory a project was recorded in.
+ * @throws RetrievalError if none of the project's chunks carry a path.
+ */
+function requireProjectPath(project: string): string {
+  const projectPath = getProjectPathForSlug(project);
+  if (!projectPath) {
+    throw new RetrievalError(
+      `No project directory recorded for "${project}"`,
+      'RESOURCE_NOT_FOUND',
+    );
+  }
+  return projectPath;
+}
+
+/**
+ * Read a resource.
+ * @throws RetrievalError with code `INVALID_RESOURCE_URI` for unknown URIs and
+ *   `RESOURCE_NOT_FOUND` when the project, session or chunk doesn't exist.
+ */
+export async function readResource(uri: string): Promise<ResourceContents> {
+  const ref = parseResourceUri(uri);
+  if (!ref) {
+    throw new RetrievalError(`Unknown resource URI: ${uri}`, 'INVALID_RESOURCE_URI');
+  }
+  const config = getConfig();
+
+  switch (ref.kind) {
+    case 'briefing': {
+      if (!getDistinctProjects().some((p) => p.slug === ref.project)) {
+        throw new RetrievalError(`Unknown project: ${ref.project}`, 'RESOURCE_NOT_FOUND');
+      }
+      const briefing = await buildProjectBriefing({
+        project: ref.project,
+        projectPath: getProjectPathForSlug(ref.project) ?? undefined,
+        maxTokens: config.mcpMaxResponseTokens,
+      });
+      return { uri, mimeType: 'text/markdown', text: briefing.text };
+    }
+
+    case 'session': {
+      const [first] = getChunksBySession(ref.sessionId);
+      if (!first) {
+        throw new RetrievalError(`Unknown session: ${ref.sessionId}`, 'RESOURCE_NOT_FOUND');
+      }
+      const result = reconstructSession({
+        project: first.sessionSlug,
+        sessionId: ref.sessionId,
+        maxTokens: config.mcpMaxResponseTokens,
+        keepNewest: true,
+      });
+      return { uri, mimeType: 'text/plain', text: formatReconstruction(result) };
+    }
+
+    case 'chunk': {
+      const chunk = getChunkById(ref.chunkId);
+      if (!chunk) {
+        throw new RetrievalError(`Unknown chunk: ${ref.chunkId}`, 'RESOURCE_NOT_FOUND');
+      }
+      const agent = chunk.agentId && chunk.agentId !== 'ui' ? `\nAgent: ${chunk.agentId}` : '';
+      const text = [
+        `# Chunk ${chunk.id}`,
+        '',
+        `Project: ${chunk.sessionSlug}`,
+        `Session: ${chunk.sessionId}`,
+        `Time: ${chunk.startTime} – ${chunk.endTime}${agent}`,
+        '',
+        chunk.content,
+      ].join('\n');
+      return { uri, mimeType: 'text/markdown', text };
+    }
+
+    case 'repomap': {
+      if (!config.repomap.enabled) {
+        throw new RetrievalError('Repo map is disabled in configuration.', 'RESOURCE_NOT_FOUND');
+      }
+      const result = await buildRepoMap(requireProjectPath(ref.project), {
+        maxTokens: config.repomap.maxTokens,
+      });
+      return { uri, mimeType: 'text/plain', text: result.text };
+    }
+  }
+}
+
+/**
+ * URIs whose contents change when a session is ingested.
+ */
+export function urisAffectedBy(session: IngestedSession): string[] {
+  return [
+    resourceUri({ kind: 'session', sessionId: session.sessionId }),
+    resourceUri({ kind: 'briefing', project: session.sessionSlug }),
+  ];
+}
+
+/** A running ingestion watcher. */
+export interface IngestionWatcher {
+  stop(): void;
+}
+
+/**
+ * Poll the chunk store for newly ingested sessions.
+ *
+ * Calls `onIngested` with the sessions that gained chunks since the previous
+ * poll. Polling errors (e.g., a locked database) are logged and retried on
+ * the next tick.
+ */
+export function watchIngestion(
+  onIngested: (sessions: IngestedSession[]) => void,
+  intervalMs: number,
+): IngestionWatcher {
+  let watermark = getIngestionWatermark();
+
+  const timer = setInterval(() => {
+    try {
+      const latest = getIngestionWatermark();
+      if (latest === watermark) return;
+      const sessions = getSessionsIngestedAfter(watermark);
+      watermark = latest;
+      if (sessions.length > 0) onIngested(sessions);
+    } catch (error) {
+      log.warn('Ingestion poll failed', { error: errorMessage(error) });
+    }
+  }, intervalMs);
+  timer.unref();
+
+  return {
+    stop: () => clearInterval(timer),
+  };
+}
+
+/** The shared ingestion poller and the callbacks it fans out to. */
+let sharedFeed: {
+  watcher: IngestionWatcher;
+  subscribers: Set<(sessions: IngestedSession[]) => void>;
+} | null = null;
+
+/**
+ * Subscribe to newly ingested sessions through one poller shared by every
+ * subscriber in the process, so many servers (e.g. HTTP sessions) don't each
+ * poll the chunk store. The first subscriber starts the poller at its
+ * interval; the last to stop ends it.
+ */
+export function subscribeToIngestion(
+  onIngested: (sessions: IngestedSession[]) => void,
+  intervalMs: number,
+): IngestionWatcher {
+  if (!sharedFeed) {
+    const subscribers = new Set<(sessions: IngestedSession[]) => void>();
+    const watcher = watchIngestion((sessions) => {
+      for (const subscriber of [...subscribers]) {
+        try {
+          subscriber(sessions);
+        } catch (error) {
+          log.warn('Ingestion subscriber failed', { error: errorMessage(error) });
+        }
+      }
+    }, intervalMs);
+    sharedFeed = { watcher, subscribers };
+  }
+  const feed = sharedFeed;
+  feed.subscribers.add(onIngested);
+
+  return {
+    stop: () => {
+      feed.subscribers.delete(onIngested);
+      if (feed.subscribers.size === 0 && sharedFeed === feed) {
+        feed.watcher.stop();
+        sharedFeed = null;
+      }
+    },
+  };
+}
@@ -1,8 +1,10 @@
 /**
  * MCP (Model Context Protocol) server for memory tools.
- * Provides recall, search, and predict tools for Claude Code integration.
+ * Provides recall, search, and predict tools for Claude Code integration,
+ * plus memory resources and workflow prompts.
  *
  * Features:
+ * - Resources with subscriptions, notified when new sessions are ingested
  * - Health check endpoint (ping)
  * - Structured JSON logging
  * - Graceful shutdown handling
@@ -12,6 +14,16 @@
 
 import { createInterface } from 'readline';
 import { tools, getTool } from './tools.js';
+import {
+  resourceTemplates,
+  listResources,
+  readResource,
+  parseResourceUri,
+  urisAffectedBy,
+  subscribeToIngestion,
+  type IngestionWatcher,
+} from './resources.js';
+import { prompts, getPrompt } from './prompts.js';
 import { getDb, closeDb } from '../storage/db.js';
 import { bootstrap } from '../config/bootstrap.js';
 import { disposeRetrieval } from '../retrieval/context-assembler.js';
@@ -19,7 +31,8 @@ import { getChunkCount } from '../storage/chunk-store.js';
 import { getEdgeCount } from '../storage/edge-store.js';
 import { getClusterCount } from '../storage/cluster-store.js';
 import { createLogger } from '../utils/logger.js';
-import { errorMessage } from '../utils/errors.js';
+import { CausanticError, errorMessage } from '../utils/errors.js';
+import type { IngestedSession } from '../storage/chunk-store.js';
 import { VERSION } from '../utils/version.js';
 
 const log = createLogger('mcp-server');
@@ -34,6 +47,8 @@ export interface McpServerConfig {
   authToken?: string;
   /** Enable health check endpoint */
   enableHealthCheck?: boolean;
+  /** Interval between polls for newly ingested sessions (ms) */
+  resourcePollIntervalMs?: number;
 }
 
 /** Log entry structure */
@@ -56,14 +71,16 @@ const ErrorCodes = {
   INVALID_PARAMS: -32602,
   INTERNAL_ERROR: -32603,
   UNAUTHORIZED: -32001,
-  TOOL_ERROR: -32002,
+  /** Code the MCP specification assigns to unknown resources */
+  RESOURCE_NOT_FOUND: -32002,
+  TOOL_ERROR: -32003,
 } as const;
 
 /**
  * MCP request message.
  */
 /** Incoming JSON-RPC message — notifications omit id. */
-interface McpMessage {
+export interface McpMessage {
   jsonrpc: '2.0';
   id?: string | number;
   method: string;
@@ -81,7 +98,7 @@ interface McpRequest {
 /**
  * MCP response message.
  */
-interface McpResponse {
+export interface McpResponse {
   jsonrpc: '2.0';
   id: string | number | null;
   result?: unknown;
@@ -92,6 +109,18 @@ interface McpResponse {
   };
 }
 
+/** Receives server-initiated notifications for delivery by a transport. */
+export type NotificationListener = (notification: McpMessage) => void;
+
+/** Options for dispatching a message that arrived over a non-stdio transport. */
+export interface MessageContext {
+  /** Transport already verified credentials (e.g. HTTP bearer token) */
+  authenticated?: boolean;
+}
+
+/** Protocol revisions this server can speak. The first entry is the default. */
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2024-11-05', '2025-03-26'] as const;
+
 /**
  * Health check response.
  */
@@ -135,6 +164,10 @@ export class McpServer {
   private config: Required<McpServerConfig>;
   private requestCount = 0;
   private errorCount = 0;
+  private notificationListener: NotificationListener | null = null;
+  private ingestionWatcher: IngestionWatcher | null = null;
+  private initialized = false;
+  private subscriptions = new Set<string>();
 
   constructor(config: McpServerConfig = {}) {
     this.config = {
@@ -145,7 +178,9 @@ export class McpServer {
         'info',
       authToken: config.authToken ?? process.env.CAUSANTIC_MCP_AUTH_TOKEN ?? '',
       enableHealthCheck: config.enableHealthCheck ?? true,
+      resourcePollIntervalMs: config.resourcePollIntervalMs ?? 5000,
     };
+    this.startTime = Date.now();
   }
 
   /**
@@ -183,6 +218,10 @@ export class McpServer {
 
     this.log({ level: 'info', event: 'server_started' });
 
+    this.setNotificationListener((notification) => {
+      console.log(JSON.stringify(notification));
+    });
+
     // Set up graceful shutdown handlers
     this.setupShutdownHandlers();
 
@@ -199,13 +238,9 @@ export class McpServer {
       try {
         const message = JSON.parse(line) as McpMessage;
 
-        // JSON-RPC notifications have no id — silently ignore per spec
+        // JSON-RPC notifications have no id — never answered, per spec
         if (message.id === undefined) {
-          this.log({
-            level: 'debug',
-            event: 'notification_received',
-            method: message.method,
-          });
+          this.handleNotification(message);
           return;
         }
 
@@ -268,10 +303,73 @@ export class McpServer {
     process.on('SIGHUP', () => shutdown('SIGHUP'));
   }
 
+  /**
+   * Deliver server-initiated notifications through a transport, or stop
+   * delivering them with null. Once a listener is set and the client has sent
+   * `notifications/initialized`, the server watches for newly ingested
+   * sessions to notify resource changes.
+   */
+  setNotificationListener(listener: NotificationListener | null): void {
+    this.notificationListener = listener;
+    if (!listener) this.subscriptions.clear();
+    this.updateIngestionWatch();
+  }
+
+  /**
+   * Start or stop watching for ingestion to match the listener and
+   * initialization state.
+   */
+  private updateIngestionWatch(): void {
+    if (this.notificationListener && this.initialized && !this.ingestionWatcher) {
+      this.ingestionWatcher = subscribeToIngestion(
+        (sessions) => this.notifyIngested(sessions),
+        this.config.resourcePollIntervalMs,
+      );
+    } else if (!this.notificationListener && this.ingestionWatcher) {
+      this.ingestionWatcher.stop();
+      this.ingestionWatcher = null;
+    }
+  }
+
+  /**
+   * Handle a JSON-RPC notification from the client. Notifications get no reply.
+   */
+  private handleNotification(message: McpMessage): void {
+    this.log({ level: 'debug', event: 'notification_received', method: message.method });
+    if (message.method === 'notifications/initialized') {
+      this.initialized = true;
+      this.updateIngestionWatch();
+    }
+  }
+
+  /**
+   * Notify that sessions were ingested: the resource list changed, and so did
+   * subscribed resources for those sessions and their projects.
+   */
+  private notifyIngested(sessions: IngestedSession[]): void {
+    const listener = this.notificationListener;
+    if (!listener) return;
+
+    listener({ jsonrpc: '2.0', method: 'notifications/resources/list_changed' });
+
+    const updated = new Set(sessions.flatMap(urisAffectedBy));
+    for (const uri of updated) {
+      if (!this.subscriptions.has(uri)) continue;
+      listener({ jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri } });
+    }
+
+    this.log({
+      level: 'debug',
+      event: 'resources_changed',
+      details: { sessions: sessions.map((s) => s.sessionId) },
+    });
+  }
+
   /**
    * Stop the MCP server gracefully.
    */
   async stop(): Promise<void> {
+    this.setNotificationListener(null);
     if (!this.running) return;
     this.running = false;
 
@@ -298,6 +396,34 @@ export class McpServer {
     }
   }
 
+  /**
+   * Dispatch a single JSON-RPC message received over a non-stdio transport.
+   *
+   * Returns null for notifications, which never get a response.
+   */
+  async handleMessage(
+    message: McpMessage,
+    context: MessageContext = {},
+  ): Promise<McpResponse | null> {
+    this.requestCount++;
+
+    if (!message || typeof message !== 'object' || typeof message.method !== 'string') {
+      this.errorCount++;
+      return createErrorResponse(
+        (message as Partial<McpMessage> | null)?.id ?? null,
+        ErrorCodes.INVALID_REQUEST,
+        'Invalid request',
+      );
+    }
+
+    if (message.id === undefined) {
+      this.handleNotification(message);
+      return null;
+    }
+
+    return this.handleRequest(message as McpRequest, context.authenticated ?? false);
+  }
+
   /**
    * Check authentication if configured.
    */
@@ -311,11 +437,11 @@ export class McpServer {
   /**
    * Handle a single MCP request.
    */
-  private async handleRequest(request: McpRequest): Promise<McpResponse> {
+  private async handleRequest(request: McpRequest, authenticated = false): Promise<McpResponse> {
     const { id, method, params } = request;
 
     // Check authentication for non-system methods
-    if (method !== 'initialize' && !this.checkAuth(params)) {
+    if (method !== 'initialize' && !authenticated && !this.checkAuth(params)) {
       this.log({ level: 'warn', event: 'auth_failed', requestId: id, method });
       return createErrorResponse(id, ErrorCodes.UNAUTHORIZED, 'Unauthorized');
     }
@@ -323,7 +449,7 @@ export class McpServer {
     try {
       switch (method) {
         case 'initialize':
-          return this.handleInitialize(id);
+          return this.handleInitialize(id, params);
 
         case 'tools/list':
           return this.handleToolsList(id);
@@ -345,6 +471,25 @@ export class McpServer {
           });
         }
 
+        case 'resources/list':
+          return { jsonrpc: '2.0', id, result: { resources: listResources() } };
+
+        case 'resources/templates/list':
+          return { jsonrpc: '2.0', id, result: { resourceTemplates } };
+
+        case 'resources/read':
+          return await this.handleResourcesRead(id, params);
+
+        case 'resources/subscribe':
+        case 'resources/unsubscribe':
+          return this.handleSubscription(id, method, params);
+
+        case 'prompts/list':
+          return this.handlePromptsList(id);
+
+        case 'prompts/get':
+          return await this.handlePromptsGet(id, params);
+
         case 'ping':
           return this.handlePing(id);
 
@@ -452,14 +597,21 @@ export class McpServer {
   /**
    * Handle initialize request.
    */
-  private handleInitialize(id: string | number): McpResponse {
+  private handleInitialize(id: string | number, params?: Record<string, unknown>): McpResponse {
+    // Echo the client's revision when we support it, otherwise offer our default
+    const requested = params?.protocolVersion;
+    const protocolVersion =
+      SUPPORTED_PROTOCOL_VERSIONS.find((v) => v === requested) ?? SUPPORTED_PROTOCOL_VERSIONS[0];
+
     return {
       jsonrpc: '2.0',
       id,
       result: {
-        protocolVersion: '2024-11-05',
+        protocolVersion,
         capabilities: {
           tools: {},
+          resources: { subscribe: true, listChanged: true },
+          prompts: {},
         },
         serverInfo: {
           name: 'causantic',
@@ -538,6 +690,112 @@ export class McpServer {
     }
   }
 
+  /**
+   * Handle resources/read request.
+   */
+  private async handleResourcesRead(
+    id: string | number,
+    params?: Record<string, unknown>,
+  ): Promise<McpResponse> {
+    const uri = params?.uri;
+    if (typeof uri !== 'string') {
+      return createErrorResponse(
+        id,
+        ErrorCodes.INVALID_PARAMS,
+        'resources/read requires params.uri',
+      );
+    }
+
+    try {
+      const contents = await readResource(uri);
+      return { jsonrpc: '2.0', id, result: { contents: [contents] } };
+    } catch (error) {
+      if (error instanceof CausanticError && error.code === 'RESOURCE_NOT_FOUND') {
+        return createErrorResponse(id, ErrorCodes.RESOURCE_NOT_FOUND, error.message, { uri });
+      }
+      if (error instanceof CausanticError && error.code === 'INVALID_RESOURCE_URI') {
+        return createErrorResponse(id, ErrorCodes.INVALID_PARAMS, error.message, { uri });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Handle resources/subscribe and resources/unsubscribe requests.
+   */
+  private handleSubscription(
+    id: string | number,
+    method: string,
+    params?: Record<string, unknown>,
+  ): McpResponse {
+    const uri = params?.uri;
+    if (typeof uri !== 'string' || !parseResourceUri(uri)) {
+      return createErrorResponse(
+        id,
+        ErrorCodes.INVALID_PARAMS,
+        `${method} requires a causantic:// resource URI`,
+      );
+    }
+
+    if (method === 'resources/subscribe') {
+      this.subscriptions.add(uri);
+    } else {
+      this.subscriptions.delete(uri);
+    }
+    return { jsonrpc: '2.0', id, result: {} };
+  }
+
+  /**
+   * Handle prompts/list request.
+   */
+  private handlePromptsList(id: string | number): McpResponse {
+    const promptList = prompts.map((p) => ({
+      name: p.name,
+      description: p.description,
+      arguments: p.arguments,
+    }));
+
+    return {
+      jsonrpc: '2.0',
+      id,
+      result: { prompts: promptList },
+    };
+  }
+
+  /**
+   * Handle prompts/get request.
+   */
+  private async handlePromptsGet(
+    id: string | number,
+    params?: Record<string, unknown>,
+  ): Promise<McpResponse> {
+    const name = params?.name;
+    const prompt = typeof name === 'string' ? getPrompt(name) : undefined;
+    if (!prompt) {
+      return createErrorResponse(id, ErrorCodes.INVALID_PARAMS, `Unknown prompt: ${String(name)}`);
+    }
+
+    const args = (params?.arguments ?? {}) as Record<string, string>;
+    const missing = prompt.arguments.find((a) => a.required && !args[a.name]?.trim());
+    if (missing) {
+      return createErrorResponse(
+        id,
+        ErrorCodes.INVALID_PARAMS,
+        `Missing required argument: ${missing.name}`,
+      );
+    }
+
+    try {
+      const result = await prompt.handler(args);
+      return { jsonrpc: '2.0', id, result };
+    } catch (error) {
+      if (error instanceof CausanticError && error.code === 'RESOURCE_NOT_FOUND') {
+        return createErrorResponse(id, ErrorCodes.INVALID_PARAMS, error.message);
+      }
+      throw error;
+    }
+  }
+
   /**
    * Get server statistics.
    */
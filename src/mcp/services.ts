@@ -10,9 +10,19 @@ import { getDb } from '../storage/db.js';
 import { getEdgeCount } from '../storage/edge-store.js';
 import { getClusterCount } from '../storage/cluster-store.js';
 import { getEntityCount } from '../storage/entity-store.js';
+import { getConfig } from '../config/memory-config.js';
+import { buildBriefing } from '../retrieval/session-reconstructor.js';
+import {
+  buildRepoMap,
+  getStructureDiff,
+  hasStructuralChanges,
+  formatStructureDiff,
+} from '../repomap/index.js';
 import { VERSION } from '../utils/version.js';
+import type { BriefingResult } from '../retrieval/session-reconstructor.js';
 import type { SimilarChunkResult } from '../retrieval/search-assembler.js';
 import type { StoredChunk } from '../storage/types.js';
+import type { ProjectInfo } from '../storage/chunk-store.js';
 
 /**
  * Format a project date range as "Mon YYYY" or "Mon YYYY – Mon YYYY".
@@ -60,14 +70,28 @@ export function buildChunkMap(matches: SimilarChunkResult[]): Map<string, Stored
 }
 
 /**
- * Compute memory statistics including version, counts, projects, and agent teams.
+ * Memory statistics reported by the stats tool.
  */
-export function getMemoryStats(): string {
-  const chunks = getChunkCount();
-  const edges = getEdgeCount();
-  const clusters = getClusterCount();
-  const projects = getDistinctProjects();
+export interface MemoryStats {
+  version: string;
+  chunks: number;
+  edges: number;
+  clusters: number;
+  entities: number;
+  projects: ProjectInfo[];
+  /** Agent team statistics; absent when memory holds no agent chunks. */
+  agentTeams?: {
+    agentChunks: number;
+    distinctAgents: number;
+    /** Team edge counts by reference type (team-spawn, team-report, peer-message). */
+    edges: Record<string, number>;
+  };
+}
 
+/**
+ * Compute memory statistics including version, counts, projects, and agent teams.
+ */
+export function collectMemoryStats(): MemoryStats {
   let entities = 0;
   try {
     entities = getEntityCount();
@@ -75,23 +99,14 @@ export function getMemoryStats(): string {
     // Entity tables may not exist yet
   }
 
-  const lines = [
-    `Causantic v${VERSION}`,
-    '',
-    'Memory Statistics:',
-    `- Chunks: ${chunks}`,
-    `- Edges: ${edges}`,
-    `- Clusters: ${clusters}`,
-    `- Entities: ${entities}`,
-  ];
-
-  if (projects.length > 0) {
-    lines.push('', 'Projects:');
-    for (const p of projects) {
-      const range = formatDateRange(p.firstSeen, p.lastSeen);
-      lines.push(`- ${p.slug}: ${p.chunkCount} chunks (${range})`);
-    }
-  }
+  const stats: MemoryStats = {
+    version: VERSION,
+    chunks: getChunkCount(),
+    edges: getEdgeCount(),
+    clusters: getClusterCount(),
+    entities,
+    projects: getDistinctProjects(),
+  };
 
   // Agent team stats
   try {
@@ -108,22 +123,104 @@ export function getMemoryStats(): string {
       .get() as { count: number };
 
     if (agentChunks.count > 0) {
-      lines.push('', 'Agent Teams:');
-      lines.push(`- Agent chunks: ${agentChunks.count}`);
-      lines.push(`- Distinct agents: ${distinctAgents.count}`);
-
       const teamEdgeRows = db
         .prepare(
           "SELECT reference_type, COUNT(*) as count FROM edges WHERE reference_type IN ('team-spawn', 'team-report', 'peer-message') GROUP BY reference_type",
         )
         .all() as Array<{ reference_type: string; count: number }>;
-      for (const row of teamEdgeRows) {
-        lines.push(`- ${row.reference_type} edges: ${row.count}`);
-      }
+      stats.agentTeams = {
+        agentChunks: agentChunks.count,
+        distinctAgents: distinctAgents.count,
+        edges: Object.fromEntries(teamEdgeRows.map((row) => [row.reference_type, row.count])),
+      };
     }
   } catch {
     // Agent stats unavailable (table may not have agent columns yet)
   }
 
+  return stats;
+}
+
+/**
+ * Format memory statistics as text.
+ */
+export function formatMemoryStats(stats: MemoryStats): string {
+  const lines = [
+    `Causantic v${stats.version}`,
+    '',
+    'Memory Statistics:',
+    `- Chunks: ${stats.chunks}`,
+    `- Edges: ${stats.edges}`,
+    `- Clusters: ${stats.clusters}`,
+    `- Entities: ${stats.entities}`,
+  ];
+
+  if (stats.projects.length > 0) {
+    lines.push('', 'Projects:');
+    for (const p of stats.projects) {
+      const range = formatDateRange(p.firstSeen, p.lastSeen);
+      lines.push(`- ${p.slug}: ${p.chunkCount} chunks (${range})`);
+    }
+  }
+
+  if (stats.agentTeams) {
+    lines.push('', 'Agent Teams:');
+    lines.push(`- Agent chunks: ${stats.agentTeams.agentChunks}`);
+    lines.push(`- Distinct agents: ${stats.agentTeams.distinctAgents}`);
+    for (const [type, count] of Object.entries(stats.agentTeams.edges)) {
+      lines.push(`- ${type} edges: ${count}`);
+    }
+  }
+
   return lines.join('\n');
 }
+
+/**
+ * Compute and format memory statistics.
+ */
+export function getMemoryStats(): string {
+  return formatMemoryStats(collectMemoryStats());
+}
+
+/**
+ * Build a session briefing for a project, including its repo map and the
+ * structural changes since the last session when the repo map is enabled and
+ * the project root is known.
+ */
+export async function buildProjectBriefing(options: {
+  project: string;
+  /** Project root, for the repo map and file history. Omit when unknown. */
+  projectPath?: string;
+  maxTokens: number;
+  /** Files to include memory history for. */
+  files?: string[];
+}): Promise<BriefingResult> {
+  const config = getConfig();
+  let repoMapText: string | undefined;
+  let structureDiffText: string | undefined;
+
+  if (config.repomap.enabled && options.projectPath) {
+    try {
+      const result = await buildRepoMap(options.projectPath, {
+        maxTokens: Math.min(config.repomap.maxTokens, Math.floor(options.maxTokens * 0.4)),
+      });
+      repoMapText = result.text;
+
+      const diff = await getStructureDiff(options.projectPath, result.graph);
+      if (diff && hasStructuralChanges(diff.delta)) {
+        structureDiffText = formatStructureDiff(diff);
+      }
+    } catch {
+      // Non-critical — briefing works without repo map
+    }
+  }
+
+  return buildBriefing({
+    project: options.project,
+    repoMapText,
+    structureDiffText,
+    maxTokens: options.maxTokens,
+    projectPath: options.projectPath,
+    files: options.files,
+  });
+}
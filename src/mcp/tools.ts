@@ -12,22 +12,48 @@ import {
   queryChunkIds,
   deleteChunks,
   invalidateProjectsCache,
+  getPinnedChunkIds,
 } from '../storage/chunk-store.js';
 import { vectorStore } from '../storage/vector-store.js';
 import { deleteIndexEntriesForChunks } from '../storage/index-entry-store.js';
-import {
-  reconstructSession,
-  formatReconstruction,
-  buildBriefing,
-} from '../retrieval/session-reconstructor.js';
+import { reconstructSession, formatReconstruction } from '../retrieval/session-reconstructor.js';
 import { searchSessionSummaries } from '../storage/session-state-store.js';
+import { hasFacets, type ChunkFacets } from '../storage/chunk-facets.js';
+import type { StoredSessionState } from '../storage/session-state-store.js';
+import { computeMemoryDiff, formatMemoryDiff, parseSince } from '../retrieval/memory-diff.js';
+import { getFileHistory, formatFileHistory } from '../retrieval/file-history.js';
 import { readHookStatus, formatHookStatusMcp } from '../hooks/hook-status.js';
-import { formatDateRange, formatChunkPreview, buildChunkMap, getMemoryStats } from './services.js';
+import {
+  formatDateRange,
+  formatChunkPreview,
+  buildChunkMap,
+  collectMemoryStats,
+  formatMemoryStats,
+  buildProjectBriefing,
+} from './services.js';
+import {
+  serializePayload,
+  buildRetrievalPayload,
+  buildReconstructPayload,
+  buildBriefingPayload,
+  buildRepoMapPayload,
+  type OutputFormat,
+  type SessionsPayload,
+} from './payloads.js';
 import { errorMessage } from '../utils/errors.js';
-import { buildRepoMap } from '../repomap/index.js';
+import {
+  buildRepoMap,
+  findSymbolInGraph,
+  findSymbolMentions,
+  formatSymbolLookup,
+  suggestSymbols,
+  getStructureDiff,
+  formatStructureDiff,
+} from '../repomap/index.js';
+import { storeNote, parseTags } from '../ingest/note.js';
 import type { RetrievalResponse } from '../retrieval/context-assembler.js';
 import type { SearchResponse } from '../retrieval/search-assembler.js';
-import type { DependencyGraph } from '../repomap/index.js';
+import { formatInterpretation, type QueryInterpretation } from '../retrieval/query-parser.js';
 
 /**
  * Tool definition for MCP.
@@ -43,13 +69,20 @@ export interface ToolDefinition {
   handler: (args: Record<string, unknown>) => Promise<string>;
 }
 
+/**
+ * Append the query interpretation line when filters were parsed from the query.
+ */
+function withInterpretation(text: string, interpretation?: QueryInterpretation): string {
+  return interpretation ? `${text}\n\n${formatInterpretation(interpretation)}` : text;
+}
+
 /**
  * Format retrieval response as text output.
  * Appends chain walk diagnostics when episodic retrieval falls back to search.
  */
 function formatResponse(response: RetrievalResponse): string {
   if (response.chunks.length === 0) {
-    return 'No relevant memory found.';
+    return withInterpretation('No relevant memory found.', response.interpretation);
   }
 
   const header = `Found ${response.chunks.length} relevant memory chunks (${response.tokenCount} tokens):\n\n`;
@@ -61,7 +94,7 @@ function formatResponse(response: RetrievalResponse): string {
     result += `\n\n[Chain walk: fell back to search — ${d.fallbackReason}. Search found ${d.searchResultCount} chunks, ${d.seedCount} seeds, ${d.chainsAttempted} chain(s) attempted, lengths: ${lengths}]`;
   }
 
-  return result;
+  return withInterpretation(result, response.interpretation);
 }
 
 /**
@@ -69,11 +102,11 @@ function formatResponse(response: RetrievalResponse): string {
  */
 function formatSearchResponse(response: SearchResponse): string {
   if (response.chunks.length === 0) {
-    return 'No relevant memory found.';
+    return withInterpretation('No relevant memory found.', response.interpretation);
   }
 
   const header = `Found ${response.chunks.length} relevant memory chunks (${response.tokenCount} tokens):\n\n`;
-  return header + response.text;
+  return withInterpretation(header + response.text, response.interpretation);
 }
 
 /**
@@ -96,6 +129,73 @@ function recordRetrievalSafe(
   }
 }
 
+/**
+ * Parse the `as_of` argument into a normalized ISO timestamp.
+ * @throws Error if the value is not a parseable date.
+ */
+function parseAsOf(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const date = new Date(value as string);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid as_of date: ${String(value)}`);
+  }
+  return date.toISOString();
+}
+
+/**
+ * Parse a comma-separated list argument.
+ */
+function parseList(value: unknown): string[] | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const items = String(value)
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+/**
+ * Parse a non-negative integer argument.
+ * @throws Error if the value is not a non-negative integer.
+ */
+function parseCount(name: string, value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`Invalid ${name}: ${String(value)} (expected a non-negative integer)`);
+  }
+  return count;
+}
+
+/**
+ * Parse a boolean argument.
+ * @throws Error if the value is not a boolean.
+ */
+function parseFlag(name: string, value: unknown): boolean | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (value === true || value === 'true') return true;
+  if (value === false || value === 'false') return false;
+  throw new Error(`Invalid ${name}: ${String(value)} (expected true or false)`);
+}
+
+/**
+ * Extract facet filters from tool args.
+ * @throws Error if a facet value is invalid.
+ */
+function parseFacets(args: Record<string, unknown>): ChunkFacets | undefined {
+  const facets: ChunkFacets = {
+    tools: parseList(args.tools),
+    files: parseList(args.files),
+    minToolUses: parseCount('min_tool_uses', args.min_tool_uses),
+    maxToolUses: parseCount('max_tool_uses', args.max_tool_uses),
+    hasErrors: parseFlag('has_errors', args.has_errors),
+    hasCode: parseFlag('has_code', args.has_code),
+    team: (args.team as string | undefined) || undefined,
+    spawnDepth: parseCount('spawn_depth', args.spawn_depth),
+  };
+  return hasFacets(facets) ? facets : undefined;
+}
+
 /**
  * Extract common retrieval arguments from tool args.
  */
@@ -104,6 +204,7 @@ function extractRetrievalArgs(args: Record<string, unknown>): {
   project: string | undefined;
   agent: string | undefined;
   maxTokens: number;
+  asOf: string | undefined;
 } {
   const config = getConfig();
   return {
@@ -111,9 +212,71 @@ function extractRetrievalArgs(args: Record<string, unknown>): {
     project: args.project as string | undefined,
     agent: args.agent as string | undefined,
     maxTokens: (args.max_tokens as number | undefined) ?? config.mcpMaxResponseTokens,
+    asOf: parseAsOf(args.as_of),
   };
 }
 
+/**
+ * Parse the `format` argument.
+ * @throws Error if the value is not a supported format.
+ */
+function parseFormat(value: unknown): OutputFormat {
+  if (value === undefined || value === null || value === '' || value === 'text') return 'text';
+  if (value === 'json') return 'json';
+  throw new Error(`Invalid format: ${String(value)} (expected "text" or "json")`);
+}
+
+/** Input schema entry for the `format` parameter. */
+const FORMAT_PROPERTY = {
+  type: 'string',
+  description:
+    'Output format: "text" (default) for a readable rendering, or "json" for a structured payload with ids, scores, sessions, timestamps and token counts.',
+};
+
+/** Input schema entry for the point-in-time `as_of` parameter. */
+const AS_OF_PROPERTY = {
+  type: 'string',
+  description:
+    'Only consider memory from before this ISO 8601 date/time (e.g., "2025-06-01"). Use to see what was known before a refactor or regression. Omit for the full corpus.',
+};
+
+/** Input schema entries for the facet filters shared by search and recall. */
+const FACET_PROPERTIES = {
+  tools: {
+    type: 'string',
+    description: 'Only chunks that used any of these tools (comma-separated, e.g., "Bash,Edit").',
+  },
+  files: {
+    type: 'string',
+    description:
+      'Only chunks that touched any of these files (comma-separated). Trailing path segments match, so "db.ts" finds "src/storage/db.ts".',
+  },
+  min_tool_uses: {
+    type: 'number',
+    description: 'Only chunks with at least this many tool calls.',
+  },
+  max_tool_uses: {
+    type: 'number',
+    description: 'Only chunks with at most this many tool calls. Use 0 for pure conversation.',
+  },
+  has_errors: {
+    type: 'boolean',
+    description: 'true: only chunks where a tool call failed; false: only chunks without failures.',
+  },
+  has_code: {
+    type: 'boolean',
+    description: 'true: only chunks containing code blocks; false: only chunks without.',
+  },
+  team: {
+    type: 'string',
+    description: 'Only chunks from this agent team.',
+  },
+  spawn_depth: {
+    type: 'number',
+    description: 'Only chunks at this agent nesting depth (0 = main agent, 1 = sub-agent, ...).',
+  },
+};
+
 /**
  * Search tool: semantic discovery across memory.
  */
@@ -141,20 +304,30 @@ export const searchTool: ToolDefinition = {
         type: 'number',
         description: 'Maximum tokens in response. Defaults to server config.',
       },
+      as_of: AS_OF_PROPERTY,
+      ...FACET_PROPERTIES,
+      format: FORMAT_PROPERTY,
     },
     required: ['query'],
   },
   handler: async (args) => {
-    const { query, project, agent, maxTokens } = extractRetrievalArgs(args);
+    const { query, project, agent, maxTokens, asOf } = extractRetrievalArgs(args);
+    const facets = parseFacets(args);
+    const format = parseFormat(args.format);
 
     const response = await searchContext({
       query,
       maxTokens,
       projectFilter: project,
       agentFilter: agent,
+      asOf,
+      facets,
     });
 
-    const result = formatSearchResponse(response);
+    const result =
+      format === 'json'
+        ? serializePayload(buildRetrievalPayload('search', query, response))
+        : formatSearchResponse(response);
     recordRetrievalSafe(response.chunks, query, 'search');
 
     return result;
@@ -167,7 +340,7 @@ export const searchTool: ToolDefinition = {
 export const recallTool: ToolDefinition = {
   name: 'recall',
   description:
-    'Recall episodic memory — walk backward through causal chains to reconstruct narrative context. Also searches session summaries for supplementary context. Use for "how did we solve the auth bug?" or "what led to this decision?" Returns ordered narrative (problem → solution). For recent/latest session queries, use reconstruct instead.',
+    'Recall episodic memory — walk backward through causal chains to reconstruct narrative context. Also searches session summaries for supplementary context. Use for "how did we solve the auth bug?", "what led to this decision?" or "why was commit abc1234 made?" (commit SHAs in the query start the walk from the chunks that made the commit). Returns ordered narrative (problem → solution). For recent/latest session queries, use reconstruct instead.',
   inputSchema: {
     type: 'object',
     properties: {
@@ -188,16 +361,22 @@ export const recallTool: ToolDefinition = {
         type: 'number',
         description: 'Maximum tokens in response. Defaults to server config.',
       },
+      as_of: AS_OF_PROPERTY,
+      ...FACET_PROPERTIES,
+      format: FORMAT_PROPERTY,
     },
     required: ['query'],
   },
   handler: async (args) => {
-    const { query, project, agent, maxTokens } = extractRetrievalArgs(args);
+    const { query, project, agent, maxTokens, asOf } = extractRetrievalArgs(args);
+    const facets = parseFacets(args);
+    const format = parseFormat(args.format);
 
     // Search session summaries for supplementary context
+    let summaries: StoredSessionState[] = [];
     let summarySection = '';
     try {
-      const summaries = searchSessionSummaries(query, project);
+      summaries = searchSessionSummaries(query, project, undefined, asOf);
       if (summaries.length > 0) {
         const lines = summaries.map((s) => {
           const date = new Date(s.endedAt).toLocaleDateString('en-US', {
@@ -216,12 +395,17 @@ export const recallTool: ToolDefinition = {
       maxTokens,
       projectFilter: project,
       agentFilter: agent,
+      asOf,
+      facets,
     });
 
-    const result = formatResponse(response);
+    const result =
+      format === 'json'
+        ? serializePayload(buildRetrievalPayload('recall', query, response, summaries))
+        : summarySection + formatResponse(response);
     recordRetrievalSafe(response.chunks, query, 'recall');
 
-    return summarySection + result;
+    return result;
   },
 };
 
@@ -252,20 +436,32 @@ export const predictTool: ToolDefinition = {
         type: 'number',
         description: 'Maximum tokens in response. Defaults to server config.',
       },
+      as_of: AS_OF_PROPERTY,
+      format: FORMAT_PROPERTY,
     },
     required: ['context'],
   },
   handler: async (args) => {
-    const { query: context, project, agent, maxTokens } = extractRetrievalArgs(args);
+    const { query: context, project, agent, maxTokens, asOf } = extractRetrievalArgs(args);
+    const format = parseFormat(args.format);
 
     const response = await predict(context, {
       maxTokens,
       projectFilter: project,
       agentFilter: agent,
+      asOf,
     });
 
+    if (format === 'json') {
+      recordRetrievalSafe(response.chunks, context, 'predict');
+      return serializePayload(buildRetrievalPayload('predict', context, response));
+    }
+
     if (response.chunks.length === 0) {
-      return 'No predictions available based on current context.';
+      return withInterpretation(
+        'No predictions available based on current context.',
+        response.interpretation,
+      );
     }
 
     const header = `Potentially relevant context (${response.chunks.length} items):\n\n`;
@@ -279,7 +475,7 @@ export const predictTool: ToolDefinition = {
 
     recordRetrievalSafe(response.chunks, context, 'predict');
 
-    return result;
+    return withInterpretation(result, response.interpretation);
   },
 };
 
@@ -341,6 +537,7 @@ export const listSessionsTool: ToolDefinition = {
         type: 'number',
         description: 'Maximum number of sessions to display (default: 30).',
       },
+      format: FORMAT_PROPERTY,
     },
     required: ['project'],
   },
@@ -350,6 +547,7 @@ export const listSessionsTool: ToolDefinition = {
     let to = args.to as string | undefined;
     const daysBack = args.days_back as number | undefined;
     const limit = (args.limit as number | undefined) ?? 30;
+    const format = parseFormat(args.format);
 
     if (daysBack !== undefined && daysBack > 0 && from === undefined && to === undefined) {
       to = new Date().toISOString();
@@ -358,14 +556,24 @@ export const listSessionsTool: ToolDefinition = {
 
     const sessions = getSessionsForProject(project, from, to);
 
-    if (sessions.length === 0) {
-      return `No sessions found for project "${project}".`;
-    }
-
     const totalCount = sessions.length;
     const truncated = totalCount > limit;
     const displaySessions = truncated ? sessions.slice(0, limit) : sessions;
 
+    if (format === 'json') {
+      const payload: SessionsPayload = {
+        project,
+        totalCount,
+        truncated,
+        sessions: displaySessions,
+      };
+      return serializePayload(payload);
+    }
+
+    if (sessions.length === 0) {
+      return `No sessions found for project "${project}".`;
+    }
+
     const lines = displaySessions.map((s) => {
       const start = new Date(s.firstChunkTime).toLocaleDateString('en-US', {
         month: 'short',
@@ -394,7 +602,7 @@ export const listSessionsTool: ToolDefinition = {
 export const reconstructTool: ToolDefinition = {
   name: 'reconstruct',
   description:
-    'Use this for all recent/latest/last session queries. Rebuild session context for a project. Call with just project to get the most recent history up to the token budget. Optionally specify a time range with from/to, days_back, session_id, or previous_session. Use mode=briefing for a structured startup summary combining session state and project structure.',
+    'Use this for all recent/latest/last session queries. Rebuild session context for a project. Call with just project to get the most recent history up to the token budget. Optionally specify a time range with from/to, days_back, session_id, or previous_session, or a commit SHA to rebuild the session that made it. Use mode=briefing for a structured startup summary combining session state and project structure.',
   inputSchema: {
     type: 'object',
     properties: {
@@ -436,6 +644,16 @@ export const reconstructTool: ToolDefinition = {
         type: 'boolean',
         description: 'Keep newest chunks when truncating to fit token budget (default: true).',
       },
+      commit: {
+        type: 'string',
+        description:
+          'Commit SHA or prefix (at least 4 characters): reconstruct the session that made the commit, up to the commit.',
+      },
+      files: {
+        type: 'string',
+        description:
+          'Briefing mode only: comma-separated file paths (relative to the current working directory) whose memory history to include, e.g., files about to be edited.',
+      },
       agent: {
         type: 'string',
         description: 'Filter to a specific agent (e.g., "researcher"). Omit to include all agents.',
@@ -444,6 +662,7 @@ export const reconstructTool: ToolDefinition = {
         type: 'number',
         description: 'Maximum tokens in response. Defaults to server config.',
       },
+      format: FORMAT_PROPERTY,
     },
     required: ['project'],
   },
@@ -451,34 +670,26 @@ export const reconstructTool: ToolDefinition = {
     const project = args.project as string;
     const agent = args.agent as string | undefined;
     const mode = (args.mode as string | undefined) ?? 'timeline';
+    const format = parseFormat(args.format);
     const config = getConfig();
     const maxTokens = (args.max_tokens as number | undefined) ?? config.mcpMaxResponseTokens;
 
     try {
       // Briefing mode: structured session summary
       if (mode === 'briefing') {
-        let repoMapText: string | undefined;
-
-        // Include repo map if enabled and we can determine project path
-        if (config.repomap.enabled) {
-          try {
-            const result = await buildRepoMap(process.cwd(), {
-              maxTokens: Math.min(config.repomap.maxTokens, Math.floor(maxTokens * 0.4)),
-            });
-            repoMapText = result.text;
-            _cachedRepoMapGraph = result.graph;
-          } catch {
-            // Non-critical — briefing works without repo map
-          }
-        }
+        const filesRaw = args.files as string | undefined;
+        const files = filesRaw ? filesRaw.split(',').map((f) => f.trim()) : undefined;
 
-        const briefing = buildBriefing({
+        const briefing = await buildProjectBriefing({
           project,
-          repoMapText,
+          projectPath: process.cwd(),
           maxTokens,
+          files,
         });
 
-        return briefing.text;
+        return format === 'json'
+          ? serializePayload(buildBriefingPayload(project, briefing))
+          : briefing.text;
       }
 
       // Timeline mode (default)
@@ -490,14 +701,19 @@ export const reconstructTool: ToolDefinition = {
         daysBack: args.days_back as number | undefined,
         previousSession: args.previous_session as boolean | undefined,
         currentSessionId: args.current_session_id as string | undefined,
+        commit: args.commit as string | undefined,
         maxTokens,
         keepNewest: (args.keep_newest as boolean | undefined) ?? true,
         agentFilter: agent,
       });
 
-      return formatReconstruction(result);
+      return format === 'json'
+        ? serializePayload(buildReconstructPayload(project, result))
+        : formatReconstruction(result);
     } catch (error) {
-      return `Error: ${errorMessage(error)}`;
+      return format === 'json'
+        ? serializePayload({ error: errorMessage(error) })
+        : `Error: ${errorMessage(error)}`;
     }
   },
 };
@@ -529,11 +745,15 @@ export const statsTool: ToolDefinition = {
     'Show memory statistics including version, chunk/edge/cluster counts, and per-project breakdowns. Use to check system health and memory usage.',
   inputSchema: {
     type: 'object',
-    properties: {},
+    properties: {
+      format: FORMAT_PROPERTY,
+    },
     required: [],
   },
-  handler: async () => {
-    return getMemoryStats();
+  handler: async (args) => {
+    const format = parseFormat(args.format);
+    const stats = collectMemoryStats();
+    return format === 'json' ? serializePayload(stats) : formatMemoryStats(stats);
   },
 };
 
@@ -606,13 +826,29 @@ function formatDeletedPreview(matches: { id: string; score: number }[], n: numbe
   return lines.join('\n');
 }
 
+/**
+ * Drop pinned chunks from a deletion set unless the caller opted in.
+ */
+function excludePinned(ids: string[], includePinned: boolean): { ids: string[]; kept: number } {
+  if (includePinned) return { ids, kept: 0 };
+  const pinned = getPinnedChunkIds(ids);
+  if (pinned.size === 0) return { ids, kept: 0 };
+  return { ids: ids.filter((id) => !pinned.has(id)), kept: pinned.size };
+}
+
+function formatPinnedNotice(kept: number): string {
+  return kept > 0
+    ? `\n${kept} pinned chunk(s) kept. Set include_pinned=true to delete them too.`
+    : '';
+}
+
 /**
  * Forget tool: delete chunks from memory by project, time range, session, or topic.
  */
 export const forgetTool: ToolDefinition = {
   name: 'forget',
   description:
-    'Delete chunks from memory filtered by project, time range, session, or semantic query. Requires project. Defaults to dry_run=true (preview only). Set dry_run=false to actually delete.',
+    'Delete chunks from memory filtered by project, time range, session, or semantic query. Requires project. Defaults to dry_run=true (preview only). Set dry_run=false to actually delete. Pinned chunks are kept unless include_pinned=true.',
   inputSchema: {
     type: 'object',
     properties: {
@@ -646,6 +882,11 @@ export const forgetTool: ToolDefinition = {
         type: 'boolean',
         description: 'Preview without deleting (default: true). Set to false to actually delete.',
       },
+      include_pinned: {
+        type: 'boolean',
+        description:
+          'Also delete pinned chunks such as notes stored with remember (default: false).',
+      },
     },
     required: ['project'],
   },
@@ -657,6 +898,7 @@ export const forgetTool: ToolDefinition = {
     const query = args.query as string | undefined;
     const threshold = args.threshold as number | undefined;
     const dryRun = (args.dry_run as boolean | undefined) ?? true;
+    const includePinned = (args.include_pinned as boolean | undefined) ?? false;
 
     // Validate query is not empty/whitespace
     if (query !== undefined && typeof query === 'string' && query.trim() === '') {
@@ -689,6 +931,12 @@ export const forgetTool: ToolDefinition = {
         targetIds = semanticMatches.map((m) => m.id);
       }
 
+      const protectedPins = excludePinned(targetIds, includePinned);
+      targetIds = protectedPins.ids;
+      if (targetIds.length === 0) {
+        return `All ${protectedPins.kept} matching chunk(s) are pinned and were kept. Set include_pinned=true to delete them.`;
+      }
+
       // Compute effective threshold for display
       const effectiveThreshold =
         threshold !== undefined && threshold > 1 ? threshold / 100 : (threshold ?? 0.6);
@@ -697,7 +945,10 @@ export const forgetTool: ToolDefinition = {
         // Filter semanticMatches to only those in targetIds for display
         const targetSet = new Set(targetIds);
         const displayMatches = semanticMatches.filter((m) => targetSet.has(m.id));
-        return formatSemanticDryRun(displayMatches, query, effectiveThreshold, project);
+        return (
+          formatSemanticDryRun(displayMatches, query, effectiveThreshold, project) +
+          formatPinnedNotice(protectedPins.kept)
+        );
       }
 
       // Fetch top 3 previews before deletion
@@ -709,18 +960,23 @@ export const forgetTool: ToolDefinition = {
       await deleteIndexEntriesForChunks(targetIds);
       invalidateProjectsCache();
 
-      return `Deleted ${deleted} chunk(s) from project "${project}" (vectors, index entries, and related edges/clusters also removed).${preview}`;
+      return `Deleted ${deleted} chunk(s) from project "${project}" (vectors, index entries, and related edges/clusters also removed).${preview}${formatPinnedNotice(protectedPins.kept)}`;
     }
 
     // Non-semantic deletion path (existing behavior)
-    const ids = queryChunkIds({ project, before, after, sessionId });
+    const matchedIds = queryChunkIds({ project, before, after, sessionId });
 
-    if (ids.length === 0) {
+    if (matchedIds.length === 0) {
       return 'No chunks match the given filters.';
     }
 
+    const { ids, kept } = excludePinned(matchedIds, includePinned);
+    if (ids.length === 0) {
+      return `All ${kept} matching chunk(s) are pinned and were kept. Set include_pinned=true to delete them.`;
+    }
+
     if (dryRun) {
-      return `Dry run: ${ids.length} chunk(s) would be deleted from project "${project}". Set dry_run=false to proceed.`;
+      return `Dry run: ${ids.length} chunk(s) would be deleted from project "${project}". Set dry_run=false to proceed.${formatPinnedNotice(kept)}`;
     }
 
     const deleted = deleteChunks(ids);
@@ -728,15 +984,104 @@ export const forgetTool: ToolDefinition = {
     await deleteIndexEntriesForChunks(ids);
     invalidateProjectsCache();
 
-    return `Deleted ${deleted} chunk(s) from project "${project}" (vectors, index entries, and related edges/clusters also removed).`;
+    return `Deleted ${deleted} chunk(s) from project "${project}" (vectors, index entries, and related edges/clusters also removed).${formatPinnedNotice(kept)}`;
   },
 };
 
 /**
- * Cache for repo map graphs to enable symbol lookup in search.
+ * Remember tool: store a user-authored note as a pinned chunk.
  */
-// Reserved for future symbol lookup in search
-let _cachedRepoMapGraph: DependencyGraph | null = null;
+export const rememberTool: ToolDefinition = {
+  name: 'remember',
+  description:
+    'Store a note in memory for a project — a decision, convention, or fact worth keeping. Notes are pinned by default: they rank higher in search, recall, and predict, and are protected from forget and retention cleanup.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      content: {
+        type: 'string',
+        description: 'The note text to remember.',
+      },
+      project: {
+        type: 'string',
+        description:
+          'Project slug the note belongs to. Use list-projects to see available projects.',
+      },
+      tags: {
+        type: 'string',
+        description: 'Comma-separated tags (e.g., "decision,auth"). Optional.',
+      },
+      pinned: {
+        type: 'boolean',
+        description: 'Pin the note (default: true). Unpinned notes age out like ingested chunks.',
+      },
+    },
+    required: ['content', 'project'],
+  },
+  handler: async (args) => {
+    const content = args.content as string | undefined;
+    const project = args.project as string | undefined;
+    if (!content || content.trim() === '') {
+      return 'Error: content must not be empty.';
+    }
+    if (!project || project.trim() === '') {
+      return 'Error: project must not be empty.';
+    }
+
+    try {
+      const note = await storeNote({
+        content,
+        project,
+        tags: parseTags(args.tags as string | undefined),
+        pinned: (args.pinned as boolean | undefined) ?? true,
+      });
+      const tagText = note.tags.length > 0 ? ` Tags: ${note.tags.join(', ')}.` : '';
+      return `Remembered ${note.pinned ? 'pinned ' : ''}note ${note.id} in project "${project}".${tagText}`;
+    } catch (error) {
+      return `Error: ${errorMessage(error)}`;
+    }
+  },
+};
+
+/**
+ * Diff tool: what changed in a project's memory since a point in time.
+ */
+export const diffTool: ToolDefinition = {
+  name: 'diff',
+  description:
+    'Show what changed in memory for a project since a date: sessions, new and growing topic clusters, newly mentioned entities, newly touched files, resolved and open errors, and outcomes (commits, PRs). Use when returning to a project after time away.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      project: {
+        type: 'string',
+        description: 'Project slug (required). Use list-projects to discover available projects.',
+      },
+      since: {
+        type: 'string',
+        description: 'Start of the diff window (ISO 8601, e.g., "2025-06-01").',
+      },
+      days_back: {
+        type: 'number',
+        description: 'Look back N days from now. Alternative to since (default: 7).',
+      },
+    },
+    required: ['project'],
+  },
+  handler: async (args) => {
+    const project = args.project as string;
+    const daysBack = (args.days_back as number | undefined) ?? 7;
+
+    try {
+      const since = args.since
+        ? parseSince(args.since as string)
+        : new Date(Date.now() - daysBack * 24 * 60 * 60 * 1000).toISOString();
+      return formatMemoryDiff(computeMemoryDiff(project, since));
+    } catch (error) {
+      return `Error: ${errorMessage(error)}`;
+    }
+  },
+};
 
 /**
  * Repo map tool: structural codebase summary.
@@ -744,7 +1089,7 @@ let _cachedRepoMapGraph: DependencyGraph | null = null;
 export const repomapTool: ToolDefinition = {
   name: 'repomap',
   description:
-    'Get a compact structural summary of a project — files, definitions, and cross-file relationships. Shows what is defined where without reading individual files. Use at session start for orientation, or on-demand when you need to locate symbols.',
+    'Get a compact structural summary of a project — files, definitions, and cross-file relationships. Shows what is defined where without reading individual files. In a monorepo workspace (npm/yarn/pnpm workspaces, Cargo workspace, go.work) it lists the packages and their dependencies and gives each package its own sub-map; pass `package` to map one package in full. Use at session start for orientation, or on-demand when you need to locate symbols.',
   inputSchema: {
     type: 'object',
     properties: {
@@ -756,20 +1101,28 @@ export const repomapTool: ToolDefinition = {
       focus_files: {
         type: 'string',
         description:
-          'Comma-separated list of relative file paths to boost to the top of the output.',
+          'Comma-separated list of relative file paths to personalize the ranking toward and list first.',
+      },
+      package: {
+        type: 'string',
+        description:
+          'Workspace package to map on its own, by name (e.g. "@acme/core") or path relative to the project root (e.g. "packages/core").',
       },
       max_tokens: {
         type: 'number',
         description: 'Maximum tokens in response. Default: 1024.',
       },
+      format: FORMAT_PROPERTY,
     },
     required: [],
   },
   handler: async (args) => {
     const config = getConfig();
+    const format = parseFormat(args.format);
 
     if (!config.repomap.enabled) {
-      return 'Repo map is disabled in configuration.';
+      const message = 'Repo map is disabled in configuration.';
+      return format === 'json' ? serializePayload({ error: message }) : message;
     }
 
     const projectPath = (args.project as string | undefined) ?? process.cwd();
@@ -781,15 +1134,156 @@ export const repomapTool: ToolDefinition = {
       const result = await buildRepoMap(projectPath, {
         maxTokens,
         focusFiles,
+        package: args.package as string | undefined,
       });
 
-      // Cache the graph for symbol lookup in search
-      _cachedRepoMapGraph = result.graph;
+      if (format === 'json') {
+        return serializePayload(buildRepoMapPayload(projectPath, result));
+      }
 
-      const header = `Repo map: ${result.fileCount} files, ${result.definitionCount} definitions, ${result.edgeCount} cross-file references (${Math.round(result.durationMs)}ms, ${result.parsedCount} re-parsed)\n\n`;
+      const scope = result.package
+        ? ` for package ${result.package.name} (${result.package.path || '.'})`
+        : '';
+      const header = `Repo map${scope}: ${result.fileCount} files, ${result.definitionCount} definitions, ${result.edgeCount} cross-file references (${Math.round(result.durationMs)}ms, ${result.parsedCount} re-parsed)\n\n`;
       return header + result.text;
     } catch (error) {
-      return `Error building repo map: ${errorMessage(error)}`;
+      const message = `Error building repo map: ${errorMessage(error)}`;
+      return format === 'json' ? serializePayload({ error: message }) : message;
+    }
+  },
+};
+
+/**
+ * Repo map diff tool: structural changes since the last session.
+ */
+export const repomapDiffTool: ToolDefinition = {
+  name: 'repomap-diff',
+  description:
+    "Report how the codebase's structure changed since the last session ended — files added and removed, definitions added, removed, renamed or moved between files, and files with heavy definition churn. Compares the current repo map with the snapshot taken at the end of the project's most recent session. Use when resuming work to learn what changed under you.",
+  inputSchema: {
+    type: 'object',
+    properties: {
+      project: {
+        type: 'string',
+        description:
+          'Absolute path to the project root directory. Defaults to the current working directory if omitted.',
+      },
+    },
+    required: [],
+  },
+  handler: async (args) => {
+    const config = getConfig();
+
+    if (!config.repomap.enabled) {
+      return 'Repo map is disabled in configuration.';
+    }
+
+    const projectPath = (args.project as string | undefined) ?? process.cwd();
+
+    try {
+      const diff = await getStructureDiff(projectPath);
+      if (!diff) {
+        return `No repo map snapshot stored for ${projectPath} yet. Snapshots are taken when a session ends.`;
+      }
+      return formatStructureDiff(diff);
+    } catch (error) {
+      return `Error diffing repo map: ${errorMessage(error)}`;
+    }
+  },
+};
+
+/**
+ * Symbol tool: definitions, references and memory mentions of a symbol.
+ */
+export const symbolTool: ToolDefinition = {
+  name: 'symbol',
+  description:
+    'Look up a code symbol (function, class, type, ...) by exact name: its definitions with signature lines, every file and line that references it, and the memory chunks where it was discussed. Use to jump from code structure to past conversations about a symbol.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'Exact symbol name (case-sensitive), e.g., "buildRepoMap".',
+      },
+      project: {
+        type: 'string',
+        description:
+          'Absolute path to the project root directory. Defaults to the current working directory if omitted.',
+      },
+      max_mentions: {
+        type: 'number',
+        description: 'Maximum memory chunks to list. Default: 5.',
+      },
+    },
+    required: ['name'],
+  },
+  handler: async (args) => {
+    const config = getConfig();
+
+    if (!config.repomap.enabled) {
+      return 'Repo map is disabled in configuration.';
+    }
+
+    const name = args.name as string;
+    const projectPath = (args.project as string | undefined) ?? process.cwd();
+    const maxMentions = (args.max_mentions as number | undefined) ?? 5;
+
+    try {
+      const { graph } = await buildRepoMap(projectPath, { useRecentSessions: false });
+      const { definitions, references } = findSymbolInGraph(graph, projectPath, name);
+      const mentions = findSymbolMentions(projectPath, name, maxMentions);
+
+      if (definitions.length === 0 && references.length === 0 && mentions.length === 0) {
+        const suggestions = suggestSymbols(graph, name);
+        return (
+          `Symbol "${name}" not found in ${projectPath}.` +
+          (suggestions.length > 0 ? ` Did you mean: ${suggestions.join(', ')}?` : '')
+        );
+      }
+
+      return formatSymbolLookup({ name, definitions, references, mentions });
+    } catch (error) {
+      return `Error looking up symbol: ${errorMessage(error)}`;
+    }
+  },
+};
+
+/**
+ * File history tool: what memory records about a source file.
+ */
+export const fileHistoryTool: ToolDefinition = {
+  name: 'file-history',
+  description:
+    'Show what memory records about a source file: past conversation chunks that edited, read or discussed it (including symbols it defines), errors involving it with their resolutions, and the sessions that touched it. Use before changing a file to recover past decisions and known pitfalls.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      file: {
+        type: 'string',
+        description: 'File path, relative to the project root or absolute, e.g., "src/foo.ts".',
+      },
+      project: {
+        type: 'string',
+        description:
+          'Absolute path to the project root directory. Defaults to the current working directory if omitted.',
+      },
+      max_chunks: {
+        type: 'number',
+        description: 'Maximum memory chunks to list. Default: 5.',
+      },
+    },
+    required: ['file'],
+  },
+  handler: async (args) => {
+    const file = args.file as string;
+    const projectPath = (args.project as string | undefined) ?? process.cwd();
+    const maxChunks = (args.max_chunks as number | undefined) ?? 5;
+
+    try {
+      return formatFileHistory(getFileHistory(projectPath, file, { maxChunks }));
+    } catch (error) {
+      return `Error getting file history: ${errorMessage(error)}`;
     }
   },
 };
@@ -808,6 +1302,11 @@ export const tools: ToolDefinition[] = [
   statsTool,
   forgetTool,
   repomapTool,
+  repomapDiffTool,
+  symbolTool,
+  fileHistoryTool,
+  rememberTool,
+  diffTool,
 ];
 
 /**
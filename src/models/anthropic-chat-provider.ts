@@ -0,0 +1,28 @@
+/**
+ * LLM provider backed by the Anthropic Messages API.
+ *
+ * The SDK reads ANTHROPIC_API_KEY from the environment; getLLMProvider()
+ * copies a keychain-stored key there before constructing this provider.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type { LLMCompletionRequest, LLMProvider } from './llm-provider.js';
+
+export class AnthropicChatProvider implements LLMProvider {
+  readonly kind = 'anthropic' as const;
+  private readonly client: Anthropic;
+
+  constructor(client?: Anthropic) {
+    this.client = client ?? new Anthropic();
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<string> {
+    const response = await this.client.messages.create({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      messages: [{ role: 'user', content: request.prompt }],
+    });
+    const first = response.content[0];
+    return first?.type === 'text' ? first.text : '';
+  }
+}
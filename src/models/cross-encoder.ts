@@ -0,0 +1,136 @@
+/**
+ * Local ONNX cross-encoder for query–passage relevance scoring.
+ *
+ * Unlike an embedding model, a cross-encoder reads the query and passage
+ * together and outputs a single relevance logit per pair. Runs on the same
+ * @huggingface/transformers runtime and device selection as the ONNX
+ * embedding provider, falling back to plain CPU if the accelerated backend
+ * fails to initialize.
+ */
+
+import {
+  AutoTokenizer,
+  AutoModelForSequenceClassification,
+  type PreTrainedTokenizer,
+  type PreTrainedModel,
+} from '@huggingface/transformers';
+import { detectDevice, type DeviceDetectionResult } from './device-detector.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('cross-encoder');
+
+/** Maximum tokens per query–passage pair; longer passages are truncated. */
+const MAX_PAIR_TOKENS = 512;
+
+export interface CrossEncoderLoadOptions {
+  /** Override device selection ('auto' | 'coreml' | 'cuda' | 'cpu' | 'wasm'). */
+  device?: string;
+}
+
+export class CrossEncoder {
+  private tokenizer: PreTrainedTokenizer | null = null;
+  private model: PreTrainedModel | null = null;
+  private _modelId: string | null = null;
+  private _device: DeviceDetectionResult | null = null;
+
+  /**
+   * Load a cross-encoder model. Disposes any previously loaded model first.
+   */
+  async load(modelId: string, options: CrossEncoderLoadOptions = {}): Promise<void> {
+    await this.dispose();
+    const start = performance.now();
+
+    const detection = detectDevice(options.device);
+    const isWasm = detection.device === 'wasm';
+    const modelOptions: Record<string, unknown> = {
+      dtype: 'fp32',
+      ...(isWasm ? {} : { device: 'cpu' }),
+    };
+    if (detection.executionProviders.length > 0) {
+      modelOptions.session_options = { executionProviders: detection.executionProviders };
+    }
+
+    const tokenizer = await AutoTokenizer.from_pretrained(modelId);
+    let model: PreTrainedModel;
+    try {
+      model = await AutoModelForSequenceClassification.from_pretrained(modelId, modelOptions);
+      this._device = detection;
+    } catch (epError) {
+      if (detection.device === 'cpu' || detection.device === 'wasm') throw epError;
+      log.warn(`${detection.label} failed, falling back to CPU`, {
+        error: (epError as Error).message,
+      });
+      model = await AutoModelForSequenceClassification.from_pretrained(modelId, {
+        dtype: 'fp32',
+        device: 'cpu',
+      });
+      this._device = {
+        device: 'cpu',
+        executionProviders: ['cpu'],
+        label: 'CPU (native, fallback)',
+        source: detection.source,
+        notes: `${detection.label} failed: ${(epError as Error).message}`,
+      };
+    }
+
+    this.tokenizer = tokenizer;
+    this.model = model;
+    this._modelId = modelId;
+    log.info(
+      `Loaded ${modelId} on ${this._device?.label ?? 'cpu'} in ${(performance.now() - start).toFixed(0)}ms`,
+    );
+  }
+
+  /**
+   * Score passages against a query in one batch.
+   * @returns One relevance logit per passage (higher = more relevant)
+   */
+  async score(query: string, passages: string[]): Promise<number[]> {
+    if (!this.tokenizer || !this.model) {
+      throw new Error('No model loaded. Call load() first.');
+    }
+    if (passages.length === 0) return [];
+
+    const inputs = this.tokenizer(
+      passages.map(() => query),
+      {
+        text_pair: passages,
+        padding: true,
+        truncation: true,
+        max_length: MAX_PAIR_TOKENS,
+      },
+    );
+    const { logits } = await this.model(inputs);
+
+    // Logits are [batch, labels]; ranking models have a single relevance label
+    const data = logits.data as Float32Array;
+    const labels = data.length / passages.length;
+    const scores = passages.map((_, i) => data[i * labels]);
+
+    // Free WASM tensor memory (not GC'd automatically)
+    if (typeof logits.dispose === 'function') {
+      logits.dispose();
+    }
+
+    return scores;
+  }
+
+  async dispose(): Promise<void> {
+    if (this.model) {
+      await this.model.dispose();
+      this.model = null;
+    }
+    this.tokenizer = null;
+    this._modelId = null;
+    this._device = null;
+  }
+
+  /** Id of the loaded model, or null. */
+  get modelId(): string | null {
+    return this._modelId;
+  }
+
+  get device(): DeviceDetectionResult | null {
+    return this._device;
+  }
+}
@@ -1,15 +1,19 @@
 /**
- * Embedding pipeline wrapper around @huggingface/transformers.
+ * Embedding facade over pluggable providers.
  *
  * Loads models sequentially and provides a simple embed() interface.
  * Handles task prefixes for models that need them (nomic).
  * Tracks memory usage for benchmark reporting.
  * Supports true batch embedding for performance.
+ *
+ * Inference is delegated to an EmbeddingProvider (local ONNX, an
+ * OpenAI-compatible endpoint, or the deterministic hash embedder),
+ * selected by ModelConfig.provider.
  */
 
-import { pipeline, type FeatureExtractionPipeline } from '@huggingface/transformers';
 import type { ModelConfig } from './model-registry.js';
-import { detectDevice, type DeviceDetectionResult } from './device-detector.js';
+import type { DeviceDetectionResult } from './device-detector.js';
+import { createEmbeddingProvider, type EmbeddingProvider } from './embedding-provider.js';
 import { createLogger } from '../utils/logger.js';
 
 const log = createLogger('embedder');
@@ -37,9 +41,8 @@ export interface EmbedderLoadOptions {
 }
 
 export class Embedder {
-  private pipe: FeatureExtractionPipeline | null = null;
+  private provider: EmbeddingProvider | null = null;
   private config: ModelConfig | null = null;
-  private _device: DeviceDetectionResult | null = null;
 
   /**
    * Load a model. Disposes any previously loaded model first.
@@ -47,67 +50,22 @@ export class Embedder {
   async load(config: ModelConfig, options: EmbedderLoadOptions = {}): Promise<ModelStats> {
     await this.dispose();
 
-    const detection = detectDevice(options.device);
-    this._device = detection;
-
     const heapBefore = process.memoryUsage().heapUsed;
     const start = performance.now();
 
-    // Build pipeline options. All accelerated backends use onnxruntime-node
-    // (device: 'cpu' in transformers.js) with execution providers overridden.
-    // WASM uses device: undefined to let transformers.js pick its WASM backend.
-    const isWasm = detection.device === 'wasm';
-    const pipelineOptions: Record<string, unknown> = {
-      dtype: 'fp32',
-      ...(isWasm ? {} : { device: 'cpu' }),
-    };
-
-    // Inject execution providers for hardware acceleration
-    if (detection.executionProviders.length > 0) {
-      pipelineOptions.session_options = {
-        executionProviders: detection.executionProviders,
-      };
-    }
+    const provider = createEmbeddingProvider(config);
+    await provider.load({ device: options.device });
 
-    try {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any -- HF pipeline() lacks typed overloads for dynamic task+model args
-      this.pipe = (await (pipeline as any)(
-        'feature-extraction',
-        config.hfId,
-        pipelineOptions,
-      )) as FeatureExtractionPipeline;
-    } catch (epError) {
-      // If accelerated EP fails, retry with plain CPU (no execution providers)
-      if (detection.device !== 'cpu' && detection.device !== 'wasm') {
-        log.warn(`${detection.label} failed, falling back to CPU`, {
-          error: (epError as Error).message,
-        });
-        this._device = {
-          device: 'cpu',
-          executionProviders: ['cpu'],
-          label: 'CPU (native, fallback)',
-          source: detection.source,
-          notes: `${detection.label} failed: ${(epError as Error).message}`,
-        };
-
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any -- HF pipeline() lacks typed overloads for dynamic task+model args
-        this.pipe = (await (pipeline as any)('feature-extraction', config.hfId, {
-          dtype: 'fp32',
-          device: 'cpu',
-        })) as FeatureExtractionPipeline;
-      } else {
-        throw epError;
-      }
-    }
-
-    // Only set config after pipeline is successfully loaded
+    // Only set state after the provider is successfully loaded
+    this.provider = provider;
     this.config = config;
 
     const loadTimeMs = performance.now() - start;
     const heapAfter = process.memoryUsage().heapUsed;
     const heapUsedMB = (heapAfter - heapBefore) / (1024 * 1024);
 
-    log.info(`Loaded ${config.id} on ${this._device.label} in ${loadTimeMs.toFixed(0)}ms`);
+    const backend = provider.device?.label ?? config.provider ?? 'onnx';
+    log.info(`Loaded ${config.id} on ${backend} in ${loadTimeMs.toFixed(0)}ms`);
 
     return {
       modelId: config.id,
@@ -120,25 +78,8 @@ export class Embedder {
    * Embed a single text. Applies document prefix if the model needs it.
    */
   async embed(text: string, isQuery: boolean = false): Promise<EmbedResult> {
-    if (!this.pipe || !this.config) {
-      throw new Error('No model loaded. Call load() first.');
-    }
-
-    const prefixed = this.config.usesPrefix
-      ? (isQuery ? this.config.queryPrefix : this.config.documentPrefix) + text
-      : text;
-
-    const start = performance.now();
-    const output = await this.pipe(prefixed, {
-      pooling: this.config.pooling,
-      normalize: true,
-    });
-    const inferenceMs = performance.now() - start;
-
-    // Output is a Tensor — convert to number[]
-    const embedding = Array.from(output.data as Float32Array).slice(0, this.config.dims);
-
-    return { embedding, inferenceMs };
+    const [result] = await this.embedBatchTrue([text], isQuery, 1);
+    return result;
   }
 
   /**
@@ -155,19 +96,20 @@ export class Embedder {
 
   /**
    * Embed multiple texts using true batch processing.
-   * Passes arrays directly to the HuggingFace pipeline for better performance.
+   * Passes arrays directly to the provider for better performance.
    * Processes in configurable batch sizes to avoid OOM on large batches.
    *
    * @param texts - Array of texts to embed
    * @param isQuery - Whether these are query texts (affects prefix for some models)
-   * @param batchSize - Maximum texts per batch (default 32)
+   * @param batchSize - Maximum texts per batch (default 4)
+   * @throws Error if the provider returns vectors of the wrong dimensionality.
    */
   async embedBatchTrue(
     texts: string[],
     isQuery: boolean = false,
     batchSize: number = DEFAULT_BATCH_SIZE,
   ): Promise<EmbedResult[]> {
-    if (!this.pipe || !this.config) {
+    if (!this.provider || !this.config) {
       throw new Error('No model loaded. Call load() first.');
     }
 
@@ -175,36 +117,28 @@ export class Embedder {
       return [];
     }
 
+    const config = this.config;
     const results: EmbedResult[] = [];
-    const dims = this.config.dims;
 
     // Process in batches to avoid OOM
     for (let i = 0; i < texts.length; i += batchSize) {
       const batch = texts.slice(i, i + batchSize);
       const prefixed = batch.map((t) =>
-        this.config!.usesPrefix
-          ? (isQuery ? this.config!.queryPrefix : this.config!.documentPrefix) + t
-          : t,
+        config.usesPrefix ? (isQuery ? config.queryPrefix : config.documentPrefix) + t : t,
       );
 
       const start = performance.now();
-      const output = await this.pipe(prefixed, {
-        pooling: this.config!.pooling,
-        normalize: true,
-      });
+      const vectors = await this.provider.embedTexts(prefixed);
       const inferenceMs = performance.now() - start;
 
-      // Extract embeddings from flattened tensor
-      const data = output.data as Float32Array;
-      for (let j = 0; j < batch.length; j++) {
-        const embedding = Array.from(data.slice(j * dims, (j + 1) * dims));
+      for (const embedding of vectors) {
+        if (embedding.length !== config.dims) {
+          throw new Error(
+            `Dimension mismatch: ${config.id} produced ${embedding.length} dims, expected ${config.dims}`,
+          );
+        }
         results.push({ embedding, inferenceMs: inferenceMs / batch.length });
       }
-
-      // Free WASM tensor memory (not GC'd automatically)
-      if (typeof output.dispose === 'function') {
-        output.dispose();
-      }
     }
 
     return results;
@@ -214,11 +148,10 @@ export class Embedder {
    * Dispose the current model to free memory.
    */
   async dispose(): Promise<void> {
-    if (this.pipe) {
-      await this.pipe.dispose();
-      this.pipe = null;
+    if (this.provider) {
+      await this.provider.dispose();
+      this.provider = null;
       this.config = null;
-      this._device = null;
       // Hint to GC
       if (global.gc) global.gc();
     }
@@ -229,6 +162,6 @@ export class Embedder {
   }
 
   get currentDevice(): DeviceDetectionResult | null {
-    return this._device;
+    return this.provider?.device ?? null;
   }
 }
@@ -0,0 +1,58 @@
+/**
+ * Pluggable embedding backends.
+ *
+ * An EmbeddingProvider turns already-prefixed texts into vectors. The
+ * Embedder facade owns prefixes, batching and timing; providers only run
+ * inference. The provider is chosen from ModelConfig.provider, which
+ * getModel() derives from the configured model id.
+ */
+
+import type { ModelConfig } from './model-registry.js';
+import type { DeviceDetectionResult } from './device-detector.js';
+import { OnnxEmbeddingProvider } from './onnx-provider.js';
+import { OpenAIEmbeddingProvider } from './openai-provider.js';
+import { HashEmbeddingProvider } from './hash-provider.js';
+
+export interface ProviderLoadOptions {
+  /** Override device selection ('auto' | 'coreml' | 'cuda' | 'cpu' | 'wasm'). ONNX only. */
+  device?: string;
+}
+
+export interface EmbeddingProvider {
+  /** Prepare the backend (download weights, probe the endpoint, ...). */
+  load(options: ProviderLoadOptions): Promise<void>;
+  /**
+   * Embed a batch of texts. Returns one normalized vector per text,
+   * in input order.
+   */
+  embedTexts(texts: string[]): Promise<number[][]>;
+  /** Release resources held by the backend. */
+  dispose(): Promise<void>;
+  /** Device the backend runs on, or null for non-local backends. */
+  readonly device: DeviceDetectionResult | null;
+}
+
+/**
+ * Create the provider for a model config.
+ */
+export function createEmbeddingProvider(config: ModelConfig): EmbeddingProvider {
+  switch (config.provider ?? 'onnx') {
+    case 'openai':
+      return new OpenAIEmbeddingProvider(config);
+    case 'hash':
+      return new HashEmbeddingProvider(config);
+    default:
+      return new OnnxEmbeddingProvider(config);
+  }
+}
+
+/**
+ * Scale a vector to unit length. Zero vectors are returned unchanged.
+ */
+export function normalizeVector(vector: number[]): number[] {
+  let norm = 0;
+  for (const v of vector) norm += v * v;
+  norm = Math.sqrt(norm);
+  if (norm === 0) return vector;
+  return vector.map((v) => v / norm);
+}
@@ -0,0 +1,64 @@
+/**
+ * Deterministic hash embedding provider.
+ *
+ * Feature-hashes lowercase word tokens into a fixed-size vector, so texts
+ * sharing words land close together without loading any model. Output is
+ * stable across runs and platforms, which makes it suitable for tests and
+ * offline environments — it carries no real semantic signal.
+ */
+
+import { createHash } from 'node:crypto';
+import type { ModelConfig } from './model-registry.js';
+import {
+  normalizeVector,
+  type EmbeddingProvider,
+  type ProviderLoadOptions,
+} from './embedding-provider.js';
+import type { DeviceDetectionResult } from './device-detector.js';
+
+export class HashEmbeddingProvider implements EmbeddingProvider {
+  private loaded = false;
+
+  constructor(private readonly config: ModelConfig) {}
+
+  async load(_options: ProviderLoadOptions): Promise<void> {
+    this.loaded = true;
+  }
+
+  async embedTexts(texts: string[]): Promise<number[][]> {
+    if (!this.loaded) {
+      throw new Error('No model loaded. Call load() first.');
+    }
+    return texts.map((text) => hashEmbed(text, this.config.dims));
+  }
+
+  async dispose(): Promise<void> {
+    this.loaded = false;
+  }
+
+  get device(): DeviceDetectionResult | null {
+    return null;
+  }
+}
+
+/**
+ * Embed a text by hashing each token to a signed bucket.
+ * Texts without tokens (or whose buckets cancel out) map to a fixed unit vector.
+ */
+export function hashEmbed(text: string, dims: number): number[] {
+  const vector = new Array<number>(dims).fill(0);
+  const tokens = text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+
+  for (const token of tokens) {
+    const digest = createHash('sha256').update(token).digest();
+    const bucket = digest.readUInt32BE(0) % dims;
+    const sign = (digest[4] & 1) === 0 ? 1 : -1;
+    vector[bucket] += sign;
+  }
+
+  if (!vector.some((v) => v !== 0)) {
+    vector[0] = 1;
+  }
+
+  return normalizeVector(vector);
+}
@@ -0,0 +1,112 @@
+/**
+ * Pluggable LLM backends for index-entry generation and cluster labelling.
+ *
+ * An LLMProvider turns a single-turn prompt into response text. The backend
+ * is chosen from `llm.provider`: the Anthropic API (default) or any
+ * OpenAI-compatible chat endpoint, such as a local Ollama or llama.cpp
+ * server. Callers go through callWithRetry for backoff on transient errors.
+ */
+
+import { getConfig, type MemoryConfig } from '../config/memory-config.js';
+import { createSecretStore } from '../utils/secret-store.js';
+import { createLogger } from '../utils/logger.js';
+import { AnthropicChatProvider } from './anthropic-chat-provider.js';
+import { OpenAIChatProvider } from './openai-chat-provider.js';
+
+const log = createLogger('llm-provider');
+
+export type LLMProviderKind = MemoryConfig['llmProvider'];
+
+export interface LLMCompletionRequest {
+  /** Model name understood by the backend */
+  model: string;
+  /** Single user-turn prompt */
+  prompt: string;
+  /** Upper bound on response tokens */
+  maxTokens: number;
+}
+
+export interface LLMProvider {
+  readonly kind: LLMProviderKind;
+  /** Run one completion and return the response text ('' if the backend returned none). */
+  complete(request: LLMCompletionRequest): Promise<string>;
+}
+
+/**
+ * Error from an LLM backend. `status` carries the HTTP status, matching the
+ * shape of Anthropic SDK errors so retry decisions treat both alike.
+ */
+export class LLMRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+  ) {
+    super(message);
+    this.name = 'LLMRequestError';
+  }
+}
+
+/**
+ * Resolve the configured LLM provider.
+ *
+ * Returns null when the Anthropic backend is selected but no API key is
+ * available in the environment or keychain. The OpenAI-compatible backend is
+ * always returned; an unreachable endpoint surfaces as a request error.
+ */
+export async function getLLMProvider(
+  config: Pick<MemoryConfig, 'llmProvider' | 'llmEndpoint'> = getConfig(),
+): Promise<LLMProvider | null> {
+  if (config.llmProvider === 'openai') {
+    return new OpenAIChatProvider(config.llmEndpoint);
+  }
+
+  if (!process.env.ANTHROPIC_API_KEY) {
+    try {
+      const store = createSecretStore();
+      const storedKey = await store.get('anthropic-api-key');
+      if (storedKey) {
+        process.env.ANTHROPIC_API_KEY = storedKey;
+      }
+    } catch {
+      // Keychain not available
+    }
+  }
+
+  if (!process.env.ANTHROPIC_API_KEY) {
+    return null;
+  }
+
+  return new AnthropicChatProvider();
+}
+
+/** Max retries for rate-limited or transient API errors. */
+const MAX_RETRIES = 3;
+
+/**
+ * Call the provider with exponential backoff on rate limit (429) and server errors (5xx).
+ */
+export async function callWithRetry(
+  provider: LLMProvider,
+  request: LLMCompletionRequest,
+): Promise<string> {
+  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+    try {
+      return await provider.complete(request);
+    } catch (error) {
+      const status = (error as { status?: number }).status;
+      const isRetryable = status === 429 || (status !== undefined && status >= 500);
+
+      if (!isRetryable || attempt === MAX_RETRIES) {
+        throw error;
+      }
+
+      // Exponential backoff: 2s, 8s, 32s
+      const backoffMs = 2000 * Math.pow(4, attempt);
+      log.info(`API ${status} on attempt ${attempt + 1}, retrying in ${backoffMs / 1000}s`);
+      await new Promise((resolve) => setTimeout(resolve, backoffMs));
+    }
+  }
+
+  // Unreachable, but TypeScript needs it
+  throw new Error('Retry loop exited unexpectedly');
+}
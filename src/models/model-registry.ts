@@ -1,11 +1,27 @@
 /**
  * Model configurations for embedding model candidates.
+ *
+ * Besides the static ONNX registry, two dynamic id families are resolved:
+ * - `hash` / `hash:<dims>` — deterministic hash embedder (tests, offline use)
+ * - `openai:<model>` — OpenAI-compatible `/v1/embeddings` endpoint, configured
+ *   via `embedding.endpoint` and `embedding.dimensions`
  */
 
+import { loadConfig } from '../config/loader.js';
+
+/** Embedding backend that serves a model. */
+export type EmbeddingProviderKind = 'onnx' | 'openai' | 'hash';
+
+/** Default dimensions for the `hash` model when none are given. */
+export const DEFAULT_HASH_DIMS = 384;
+
+const HASH_PREFIX = 'hash';
+const OPENAI_PREFIX = 'openai:';
+
 export interface ModelConfig {
   /** Short identifier. */
   id: string;
-  /** HuggingFace model ID. */
+  /** HuggingFace model ID (empty for non-ONNX providers). */
   hfId: string;
   /** Embedding dimensions. */
   dims: number;
@@ -21,6 +37,12 @@ export interface ModelConfig {
   queryPrefix: string;
   /** Notes about the model. */
   notes: string;
+  /** Embedding backend. Default: 'onnx'. */
+  provider?: EmbeddingProviderKind;
+  /** Base URL of an OpenAI-compatible API (provider 'openai'), e.g. http://localhost:11434/v1. */
+  endpoint?: string;
+  /** Model name sent to the remote endpoint (provider 'openai'). */
+  remoteModel?: string;
 }
 
 export const MODEL_REGISTRY: Record<string, ModelConfig> = {
@@ -87,9 +109,12 @@ export const MODEL_REGISTRY: Record<string, ModelConfig> = {
 };
 
 export function getModel(id: string): ModelConfig {
-  const config = MODEL_REGISTRY[id];
+  const config = MODEL_REGISTRY[id] ?? resolveDynamicModel(id);
   if (!config) {
-    throw new Error(`Unknown model: ${id}. Available: ${Object.keys(MODEL_REGISTRY).join(', ')}`);
+    throw new Error(
+      `Unknown model: ${id}. Available: ${Object.keys(MODEL_REGISTRY).join(', ')}, ` +
+        `hash[:<dims>], openai:<model>`,
+    );
   }
   return config;
 }
@@ -97,3 +122,65 @@ export function getModel(id: string): ModelConfig {
 export function getAllModelIds(): string[] {
   return Object.keys(MODEL_REGISTRY);
 }
+
+/**
+ * Check whether an id names a registry model or a well-formed dynamic model.
+ * Does not read configuration, so it is safe to call during config validation.
+ */
+export function isValidModelId(id: string): boolean {
+  if (id in MODEL_REGISTRY) return true;
+  if (id.startsWith(OPENAI_PREFIX)) return id.length > OPENAI_PREFIX.length;
+  return parseHashDims(id) !== null;
+}
+
+/**
+ * Parse `hash` / `hash:<dims>` into a dimension count, or null if not a hash id.
+ */
+function parseHashDims(id: string): number | null {
+  if (id === HASH_PREFIX) return DEFAULT_HASH_DIMS;
+  const match = /^hash:(\d+)$/.exec(id);
+  if (!match) return null;
+  const dims = parseInt(match[1], 10);
+  return dims > 0 ? dims : null;
+}
+
+function resolveDynamicModel(id: string): ModelConfig | null {
+  const hashDims = parseHashDims(id);
+  if (hashDims !== null) {
+    return {
+      id,
+      hfId: '',
+      dims: hashDims,
+      contextTokens: 8192,
+      pooling: 'mean',
+      usesPrefix: false,
+      documentPrefix: '',
+      queryPrefix: '',
+      notes: 'Deterministic token-hash embedder. No semantic quality — for tests and offline use.',
+      provider: 'hash',
+    };
+  }
+
+  if (id.startsWith(OPENAI_PREFIX) && id.length > OPENAI_PREFIX.length) {
+    const embedding = loadConfig().embedding ?? {};
+    if (!embedding.dimensions) {
+      throw new Error(`Model ${id} requires embedding.dimensions to be set`);
+    }
+    return {
+      id,
+      hfId: '',
+      dims: embedding.dimensions,
+      contextTokens: 8192,
+      pooling: 'mean',
+      usesPrefix: false,
+      documentPrefix: '',
+      queryPrefix: '',
+      notes: 'Remote OpenAI-compatible embeddings endpoint.',
+      provider: 'openai',
+      endpoint: embedding.endpoint,
+      remoteModel: id.slice(OPENAI_PREFIX.length),
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,114 @@
+/**
+ * Local ONNX embedding provider backed by @huggingface/transformers.
+ *
+ * Selects an execution provider via device detection and falls back to
+ * plain CPU if the accelerated backend fails to initialize.
+ */
+
+import { pipeline, type FeatureExtractionPipeline } from '@huggingface/transformers';
+import type { ModelConfig } from './model-registry.js';
+import type { EmbeddingProvider, ProviderLoadOptions } from './embedding-provider.js';
+import { detectDevice, type DeviceDetectionResult } from './device-detector.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('onnx-provider');
+
+export class OnnxEmbeddingProvider implements EmbeddingProvider {
+  private pipe: FeatureExtractionPipeline | null = null;
+  private _device: DeviceDetectionResult | null = null;
+
+  constructor(private readonly config: ModelConfig) {}
+
+  async load(options: ProviderLoadOptions): Promise<void> {
+    const detection = detectDevice(options.device);
+    this._device = detection;
+
+    // Build pipeline options. All accelerated backends use onnxruntime-node
+    // (device: 'cpu' in transformers.js) with execution providers overridden.
+    // WASM uses device: undefined to let transformers.js pick its WASM backend.
+    const isWasm = detection.device === 'wasm';
+    const pipelineOptions: Record<string, unknown> = {
+      dtype: 'fp32',
+      ...(isWasm ? {} : { device: 'cpu' }),
+    };
+
+    // Inject execution providers for hardware acceleration
+    if (detection.executionProviders.length > 0) {
+      pipelineOptions.session_options = {
+        executionProviders: detection.executionProviders,
+      };
+    }
+
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any -- HF pipeline() lacks typed overloads for dynamic task+model args
+      this.pipe = (await (pipeline as any)(
+        'feature-extraction',
+        this.config.hfId,
+        pipelineOptions,
+      )) as FeatureExtractionPipeline;
+    } catch (epError) {
+      // If accelerated EP fails, retry with plain CPU (no execution providers)
+      if (detection.device !== 'cpu' && detection.device !== 'wasm') {
+        log.warn(`${detection.label} failed, falling back to CPU`, {
+          error: (epError as Error).message,
+        });
+        this._device = {
+          device: 'cpu',
+          executionProviders: ['cpu'],
+          label: 'CPU (native, fallback)',
+          source: detection.source,
+          notes: `${detection.label} failed: ${(epError as Error).message}`,
+        };
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any -- HF pipeline() lacks typed overloads for dynamic task+model args
+        this.pipe = (await (pipeline as any)('feature-extraction', this.config.hfId, {
+          dtype: 'fp32',
+          device: 'cpu',
+        })) as FeatureExtractionPipeline;
+      } else {
+        this._device = null;
+        throw epError;
+      }
+    }
+  }
+
+  async embedTexts(texts: string[]): Promise<number[][]> {
+    if (!this.pipe) {
+      throw new Error('No model loaded. Call load() first.');
+    }
+
+    const output = await this.pipe(texts, {
+      pooling: this.config.pooling,
+      normalize: true,
+    });
+
+    // Extract embeddings from the flattened tensor. Rows may be wider than
+    // config.dims for Matryoshka models — keep the leading dimensions.
+    const data = output.data as Float32Array;
+    const rowWidth = data.length / texts.length;
+    const vectors: number[][] = [];
+    for (let j = 0; j < texts.length; j++) {
+      const start = j * rowWidth;
+      vectors.push(Array.from(data.slice(start, start + Math.min(rowWidth, this.config.dims))));
+    }
+
+    // Free WASM tensor memory (not GC'd automatically)
+    if (typeof output.dispose === 'function') {
+      output.dispose();
+    }
+
+    return vectors;
+  }
+
+  async dispose(): Promise<void> {
+    if (this.pipe) {
+      await this.pipe.dispose();
+      this.pipe = null;
+    }
+    this._device = null;
+  }
+
+  get device(): DeviceDetectionResult | null {
+    return this._device;
+  }
+}
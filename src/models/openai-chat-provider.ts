@@ -0,0 +1,56 @@
+/**
+ * LLM provider for OpenAI-compatible `/v1/chat/completions` endpoints.
+ *
+ * Works with OpenAI itself and with local servers that expose the same API
+ * (Ollama, llama.cpp server, vLLM, LM Studio). The API key, if any, is read
+ * from CAUSANTIC_LLM_API_KEY so it never lands in config files.
+ */
+
+import { LLMRequestError, type LLMCompletionRequest, type LLMProvider } from './llm-provider.js';
+
+/** Per-request timeout. Local models generate slowly, especially on CPU. */
+const REQUEST_TIMEOUT_MS = 120_000;
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+}
+
+export class OpenAIChatProvider implements LLMProvider {
+  readonly kind = 'openai' as const;
+  private readonly url: string;
+
+  constructor(endpoint: string) {
+    this.url = `${endpoint.replace(/\/+$/, '')}/chat/completions`;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const apiKey = process.env.CAUSANTIC_LLM_API_KEY;
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`;
+    }
+
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        messages: [{ role: 'user', content: request.prompt }],
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new LLMRequestError(
+        `Chat request to ${this.url} failed: ${response.status} ${response.statusText}` +
+          (body ? ` — ${body.slice(0, 200)}` : ''),
+        response.status,
+      );
+    }
+
+    const payload = (await response.json()) as ChatCompletionResponse;
+    return payload.choices?.[0]?.message?.content ?? '';
+  }
+}
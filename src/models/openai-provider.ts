@@ -0,0 +1,110 @@
+/**
+ * Embedding provider for OpenAI-compatible `/v1/embeddings` endpoints.
+ *
+ * Works with OpenAI itself and with local servers that expose the same API
+ * (Ollama, llama.cpp server, vLLM, LM Studio). The API key, if any, is read
+ * from CAUSANTIC_EMBEDDING_API_KEY so it never lands in config files.
+ */
+
+import type { ModelConfig } from './model-registry.js';
+import {
+  normalizeVector,
+  type EmbeddingProvider,
+  type ProviderLoadOptions,
+} from './embedding-provider.js';
+import type { DeviceDetectionResult } from './device-detector.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('openai-provider');
+
+/** Per-request timeout. Local servers can be slow on first (cold) request. */
+const REQUEST_TIMEOUT_MS = 60_000;
+
+/** Default endpoint when the model config does not carry one (Ollama). */
+const DEFAULT_ENDPOINT = 'http://localhost:11434/v1';
+
+interface EmbeddingsResponse {
+  data?: Array<{ embedding: number[]; index?: number }>;
+}
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  private readonly url: string;
+  private readonly remoteModel: string;
+  private loaded = false;
+
+  constructor(private readonly config: ModelConfig) {
+    const endpoint = (config.endpoint ?? DEFAULT_ENDPOINT).replace(/\/+$/, '');
+    this.url = `${endpoint}/embeddings`;
+    this.remoteModel = config.remoteModel ?? config.id;
+  }
+
+  /**
+   * Probe the endpoint once so a wrong URL, model name or dimension count
+   * fails at load time rather than midway through ingestion.
+   */
+  async load(_options: ProviderLoadOptions): Promise<void> {
+    await this.request(['dimension probe']);
+    this.loaded = true;
+    log.info(`Connected to ${this.url} (${this.remoteModel}, ${this.config.dims} dims)`);
+  }
+
+  async embedTexts(texts: string[]): Promise<number[][]> {
+    if (!this.loaded) {
+      throw new Error('No model loaded. Call load() first.');
+    }
+    return this.request(texts);
+  }
+
+  async dispose(): Promise<void> {
+    this.loaded = false;
+  }
+
+  get device(): DeviceDetectionResult | null {
+    return null;
+  }
+
+  private async request(texts: string[]): Promise<number[][]> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const apiKey = process.env.CAUSANTIC_EMBEDDING_API_KEY;
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`;
+    }
+
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model: this.remoteModel, input: texts }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new Error(
+        `Embedding request to ${this.url} failed: ${response.status} ${response.statusText}` +
+          (body ? ` — ${body.slice(0, 200)}` : ''),
+      );
+    }
+
+    const payload = (await response.json()) as EmbeddingsResponse;
+    if (!Array.isArray(payload.data) || payload.data.length !== texts.length) {
+      throw new Error(
+        `Embedding response from ${this.url} returned ${payload.data?.length ?? 0} vectors for ${texts.length} inputs`,
+      );
+    }
+
+    // Servers may return entries out of order; `index` is authoritative when present
+    const ordered = payload.data
+      .map((item, position) => ({ item, index: item.index ?? position }))
+      .sort((a, b) => a.index - b.index);
+
+    return ordered.map(({ item }) => {
+      if (item.embedding.length !== this.config.dims) {
+        throw new Error(
+          `Dimension mismatch: ${this.remoteModel} returned ${item.embedding.length} dims, ` +
+            `but ${this.config.id} is configured for ${this.config.dims} (embedding.dimensions)`,
+        );
+      }
+      return normalizeVector(item.embedding);
+    });
+  }
+}
@@ -207,6 +207,13 @@ export function chunkTurns(turns: Turn[], options: ChunkerOptions): Chunk[] {
           endTime: lastTurn.startTime,
           codeBlockCount: mergeBuffer.turns.reduce((n, t) => n + countCodeBlocks(t), 0),
           toolUseCount: mergeBuffer.turns.reduce((n, t) => n + t.toolExchanges.length, 0),
+          toolNames: [
+            ...new Set(mergeBuffer.turns.flatMap((t) => t.toolExchanges.map((ex) => ex.toolName))),
+          ],
+          toolErrorCount: mergeBuffer.turns.reduce(
+            (n, t) => n + t.toolExchanges.filter((ex) => ex.isError).length,
+            0,
+          ),
           hasThinking: mergeBuffer.turns.some((t) => t.hasThinking),
           renderMode,
           approxTokens: approximateTokens(text),
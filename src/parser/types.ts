@@ -120,6 +120,10 @@ export interface ChunkMetadata {
   endTime: string;
   codeBlockCount: number;
   toolUseCount: number;
+  /** Distinct names of the tools used, in first-use order. */
+  toolNames: string[];
+  /** Tool calls whose result was an error. */
+  toolErrorCount: number;
   hasThinking: boolean;
   renderMode: RenderMode;
   /** Approximate token count of the rendered text. */
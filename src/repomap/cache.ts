@@ -5,26 +5,67 @@
  * When a file's mtime changes, only that file is re-parsed.
  * When the file list changes (new/deleted files), the file list hash
  * is invalidated and a full rescan is triggered.
+ *
+ * Project caches are backed by a persistent store (SQLite), so tags parsed
+ * by one process are reused by the next. A persisted entry whose mtime no
+ * longer matches is still reused when the file's content hash is unchanged
+ * (e.g. after a fresh checkout).
  */
 
 import { createHash } from 'crypto';
-import type { Tag } from './parser.js';
+import { readFileSync } from 'fs';
+import { PARSER_VERSION, type Tag } from './parser.js';
+import type { GrammarPack } from './grammar-packs.js';
 import type { ScannedFile } from './scanner.js';
+import {
+  loadRepoMapTags,
+  saveRepoMapTags,
+  type PersistedFileTags,
+} from '../storage/repomap-cache-store.js';
 
 /** Cached tags for a single file. */
 interface CachedFileTags {
   /** File modification time when tags were extracted. */
   mtimeMs: number;
+  /** Content hash when tags were extracted (persisted caches only). */
+  contentHash?: string;
   /** Extracted tags. */
   tags: Tag[];
 }
 
-/** In-memory tag cache for a project. */
+/** Backing store for a project's tag cache. */
+export interface TagStore {
+  /** Load all persisted entries for the project. */
+  load(): Map<string, PersistedFileTags>;
+  /** Persist changed entries and drop removed files. */
+  save(entries: PersistedFileTags[], removedPaths: string[]): void;
+}
+
+/**
+ * Hash a file's content. Returns null if the file can't be read.
+ */
+function hashFile(absolutePath: string): string | null {
+  try {
+    return createHash('sha256').update(readFileSync(absolutePath)).digest('hex');
+  } catch {
+    return null;
+  }
+}
+
+/** Tag cache for a project, optionally backed by a persistent store. */
 export class TagCache {
   /** Cache keyed by relative file path → cached tags. */
   private fileCache = new Map<string, CachedFileTags>();
   /** Hash of the file list for staleness detection. */
   private fileListHash: string = '';
+  /** Whether persisted entries have been loaded into fileCache. */
+  private storeLoaded = false;
+  /** Entries changed since the last flush, keyed by relative path. */
+  private pendingWrites = new Map<string, PersistedFileTags>();
+  /** Paths removed since the last flush. */
+  private pendingRemovals = new Set<string>();
+
+  constructor(private readonly store?: TagStore) {}
 
   /**
    * Compute a hash of the file list (just paths, sorted).
@@ -50,6 +91,15 @@ export class TagCache {
     /** Whether the file list itself changed (files added/removed). */
     fileListChanged: boolean;
   } {
+    if (this.store && !this.storeLoaded) {
+      for (const [path, entry] of this.store.load()) {
+        if (!this.fileCache.has(path)) {
+          this.fileCache.set(path, entry);
+        }
+      }
+      this.storeLoaded = true;
+    }
+
     const newHash = this.computeFileListHash(files);
     const fileListChanged = newHash !== this.fileListHash;
 
@@ -63,6 +113,8 @@ export class TagCache {
       for (const path of this.fileCache.keys()) {
         if (!currentPaths.has(path)) {
           this.fileCache.delete(path);
+          this.pendingWrites.delete(path);
+          if (this.store) this.pendingRemovals.add(path);
         }
       }
     }
@@ -74,6 +126,11 @@ export class TagCache {
       const entry = this.fileCache.get(file.relativePath);
       if (entry && entry.mtimeMs === file.mtimeMs) {
         cached.set(file.relativePath, entry.tags);
+      } else if (entry?.contentHash && entry.contentHash === hashFile(file.absolutePath)) {
+        // Touched but unchanged — reuse tags and record the new mtime
+        entry.mtimeMs = file.mtimeMs;
+        this.queueWrite(file.relativePath, entry);
+        cached.set(file.relativePath, entry.tags);
       } else {
         stale.push(file);
       }
@@ -86,9 +143,37 @@ export class TagCache {
    * Update the cache with newly parsed tags.
    */
   update(file: ScannedFile, tags: Tag[]): void {
-    this.fileCache.set(file.relativePath, {
-      mtimeMs: file.mtimeMs,
-      tags,
+    const entry: CachedFileTags = { mtimeMs: file.mtimeMs, tags };
+    if (this.store) {
+      const contentHash = hashFile(file.absolutePath);
+      if (contentHash) {
+        entry.contentHash = contentHash;
+        this.queueWrite(file.relativePath, entry);
+      }
+    }
+    this.fileCache.set(file.relativePath, entry);
+  }
+
+  /**
+   * Write pending changes to the persistent store, if any.
+   * Call once after a resolve/update pass so writes share one transaction.
+   */
+  flush(): void {
+    if (!this.store) return;
+    if (this.pendingWrites.size === 0 && this.pendingRemovals.size === 0) return;
+
+    this.store.save([...this.pendingWrites.values()], [...this.pendingRemovals]);
+    this.pendingWrites.clear();
+    this.pendingRemovals.clear();
+  }
+
+  private queueWrite(relativePath: string, entry: CachedFileTags): void {
+    this.pendingRemovals.delete(relativePath);
+    this.pendingWrites.set(relativePath, {
+      relativePath,
+      mtimeMs: entry.mtimeMs,
+      contentHash: entry.contentHash!,
+      tags: entry.tags,
     });
   }
 
@@ -100,31 +185,63 @@ export class TagCache {
   }
 
   /**
-   * Clear the entire cache.
+   * Clear the in-memory cache. Persisted entries are reloaded on the next resolve.
    */
   clear(): void {
     this.fileCache.clear();
     this.fileListHash = '';
+    this.storeLoaded = false;
+    this.pendingWrites.clear();
+    this.pendingRemovals.clear();
   }
 }
 
-/** Global cache instances per project path. */
-const projectCaches = new Map<string, TagCache>();
+/** Global cache instances per project path, with the tag version they hold. */
+const projectCaches = new Map<string, { tagVersion: number; cache: TagCache }>();
+
+/**
+ * Version of the tags extracted with a set of packs.
+ *
+ * PARSER_VERSION when no packs are loaded; otherwise PARSER_VERSION combined
+ * with the packs' fingerprints, so adding, changing or removing a pack makes
+ * persisted tags stale.
+ */
+export function getTagVersion(packs: GrammarPack[]): number {
+  if (packs.length === 0) return PARSER_VERSION;
+  const hash = createHash('sha256')
+    .update(packs.map((pack) => pack.fingerprint).join('\n'))
+    .digest('hex');
+  return PARSER_VERSION * 2 ** 28 + parseInt(hash.slice(0, 7), 16);
+}
+
+/**
+ * Create a tag store backed by the repomap_tags table.
+ */
+function createPersistentTagStore(projectPath: string, tagVersion: number): TagStore {
+  return {
+    load: () => loadRepoMapTags(projectPath, tagVersion),
+    save: (entries, removedPaths) =>
+      saveRepoMapTags(projectPath, tagVersion, entries, removedPaths),
+  };
+}
 
 /**
- * Get or create a cache for a project.
+ * Get or create a persistent cache for a project.
+ * A cache holding another tag version is replaced.
+ *
+ * @param tagVersion - Version of the tags to cache (see getTagVersion). Default: PARSER_VERSION.
  */
-export function getProjectCache(projectPath: string): TagCache {
-  let cache = projectCaches.get(projectPath);
-  if (!cache) {
-    cache = new TagCache();
-    projectCaches.set(projectPath, cache);
+export function getProjectCache(projectPath: string, tagVersion = PARSER_VERSION): TagCache {
+  let entry = projectCaches.get(projectPath);
+  if (!entry || entry.tagVersion !== tagVersion) {
+    entry = { tagVersion, cache: new TagCache(createPersistentTagStore(projectPath, tagVersion)) };
+    projectCaches.set(projectPath, entry);
   }
-  return cache;
+  return entry.cache;
 }
 
 /**
- * Clear all project caches.
+ * Clear all in-memory project caches. Persisted tags are kept.
  */
 export function clearAllCaches(): void {
   projectCaches.clear();
@@ -0,0 +1,173 @@
+/**
+ * Loadable tree-sitter grammar packs.
+ *
+ * A grammar pack adds a language to the repo map without changing the parser:
+ * a directory holding a compiled `.wasm` grammar, a tags query in the
+ * `tags.scm` format used by tree-sitter's tagging, and a `grammar.json`
+ * manifest naming the file extensions it handles.
+ *
+ * ```
+ * ~/.causantic/grammars/
+ *   kotlin/
+ *     grammar.json            { "extensions": [".kt", ".kts"] }
+ *     tree-sitter-kotlin.wasm
+ *     tags.scm
+ * ```
+ *
+ * Packs take precedence over the built-in grammars and the regex fallback for
+ * the extensions they claim.
+ */
+
+import { createHash } from 'crypto';
+import { readdirSync, readFileSync, statSync } from 'fs';
+import { join } from 'path';
+import type { Tag } from './parser.js';
+import { createLogger } from '../utils/logger.js';
+import { errorMessage } from '../utils/errors.js';
+
+const log = createLogger('repomap');
+
+/** Manifest file name inside a pack directory. */
+const MANIFEST_FILE = 'grammar.json';
+
+/** A grammar pack loaded from disk. */
+export interface GrammarPack {
+  /** Language name: the manifest's `name`, or the pack directory name. */
+  name: string;
+  /** File extensions handled by the pack (e.g., '.kt'). */
+  extensions: string[];
+  /** Absolute path to the compiled grammar. */
+  wasmPath: string;
+  /** Tags query source. */
+  query: string;
+  /** Hash of the manifest, query and grammar file; changes invalidate persisted tags. */
+  fingerprint: string;
+}
+
+/** Contents of a pack's grammar.json. */
+interface GrammarManifest {
+  /** Language name. Default: the pack directory name. */
+  name?: string;
+  /** File extensions handled by the pack. Required. */
+  extensions?: string[];
+  /** Grammar file, relative to the pack. Default: `tree-sitter-<name>.wasm`. */
+  wasm?: string;
+  /** Tags query file, relative to the pack. Default: `tags.scm`. */
+  query?: string;
+}
+
+/** Tag types for `@definition.<kind>` captures. Other kinds are recorded as variables. */
+const DEFINITION_KINDS: Record<string, Tag['type']> = {
+  class: 'class',
+  struct: 'class',
+  module: 'class',
+  object: 'class',
+  interface: 'interface',
+  trait: 'interface',
+  protocol: 'interface',
+  function: 'function',
+  macro: 'function',
+  method: 'method',
+  type: 'type',
+  enum: 'enum',
+  constant: 'variable',
+  variable: 'variable',
+  field: 'variable',
+  property: 'variable',
+};
+
+/**
+ * Load one pack directory.
+ * @throws Error if the manifest, grammar or query is missing or invalid.
+ */
+function loadGrammarPack(packDir: string, dirName: string): GrammarPack {
+  const manifestSource = readFileSync(join(packDir, MANIFEST_FILE), 'utf-8');
+  const manifest = JSON.parse(manifestSource) as GrammarManifest;
+
+  const extensions = manifest.extensions;
+  if (
+    !Array.isArray(extensions) ||
+    extensions.length === 0 ||
+    !extensions.every((ext) => typeof ext === 'string' && /^\.[^./\\]+$/.test(ext))
+  ) {
+    throw new Error(`${MANIFEST_FILE} must list extensions such as [".kt"]`);
+  }
+
+  const name = manifest.name ?? dirName;
+  const wasmPath = join(packDir, manifest.wasm ?? `tree-sitter-${name}.wasm`);
+  const query = readFileSync(join(packDir, manifest.query ?? 'tags.scm'), 'utf-8');
+  const wasmStat = statSync(wasmPath);
+
+  const fingerprint = createHash('sha256')
+    .update(manifestSource)
+    .update('\0')
+    .update(query)
+    .update('\0')
+    .update(`${wasmStat.size}:${wasmStat.mtimeMs}`)
+    .digest('hex');
+
+  return { name, extensions, wasmPath, query, fingerprint };
+}
+
+/**
+ * Load the grammar packs in a directory, one per subdirectory with a
+ * grammar.json. Invalid packs are skipped with a warning; a missing
+ * directory yields no packs.
+ *
+ * @param grammarsDir - Absolute path to the grammar pack directory
+ * @returns Packs sorted by name
+ */
+export function loadGrammarPacks(grammarsDir: string): GrammarPack[] {
+  let entries;
+  try {
+    entries = readdirSync(grammarsDir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const packs: GrammarPack[] = [];
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+    const packDir = join(grammarsDir, entry.name);
+    try {
+      statSync(join(packDir, MANIFEST_FILE));
+    } catch {
+      continue; // Not a pack
+    }
+    try {
+      packs.push(loadGrammarPack(packDir, entry.name));
+    } catch (error) {
+      log.warn('Skipping invalid grammar pack', {
+        pack: packDir,
+        error: errorMessage(error),
+      });
+    }
+  }
+
+  return packs.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Find the pack handling a file extension. The first pack by name wins when
+ * several claim the same extension.
+ */
+export function findGrammarPack(packs: GrammarPack[], ext: string): GrammarPack | undefined {
+  return packs.find((pack) => pack.extensions.includes(ext));
+}
+
+/**
+ * Map a tags query capture name to the tag it yields.
+ * `@definition.<kind>` captures yield definitions, `@reference.import` import
+ * references and other `@reference.<kind>` captures identifier references.
+ * Returns null for other captures (`@name`, `@doc`, ...).
+ */
+export function tagForCapture(captureName: string): Pick<Tag, 'kind' | 'type'> | null {
+  const [role, kind = ''] = captureName.split('.', 2);
+  if (role === 'definition') {
+    return { kind: 'def', type: DEFINITION_KINDS[kind] ?? 'variable' };
+  }
+  if (role === 'reference') {
+    return { kind: 'ref', type: kind === 'import' ? 'import' : 'identifier' };
+  }
+  return null;
+}
@@ -2,10 +2,12 @@
  * File dependency graph construction and importance ranking.
  *
  * Builds a graph where files are nodes and cross-file references are edges.
- * Ranks files by importance using degree-weighted scoring.
+ * Importance comes from personalized PageRank over the symbol-level graph
+ * (see pagerank.ts); a file's score is the sum of its symbols' ranks.
  */
 
 import type { Tag } from './parser.js';
+import { rankSymbols, type RankedSymbol } from './pagerank.js';
 
 /** A node in the dependency graph (one per file). */
 export interface FileNode {
@@ -15,7 +17,7 @@ export interface FileNode {
   definitions: Tag[];
   /** All tags (definitions + references). */
   tags: Tag[];
-  /** Importance score (higher = more important). */
+  /** Importance score: sum of the file's symbol ranks (higher = more important). */
   score: number;
 }
 
@@ -39,15 +41,26 @@ export interface DependencyGraph {
   edges: FileEdge[];
   /** Files ranked by importance (descending). */
   rankedFiles: FileNode[];
+  /** Definitions ranked by personalized PageRank (descending). */
+  symbols: RankedSymbol[];
+}
+
+export interface BuildGraphOptions {
+  /** Relative weight per file for personalizing the ranking (e.g. focus or recently touched files). */
+  personalization?: Map<string, number>;
 }
 
 /**
  * Build a dependency graph from parsed tags.
  *
  * @param tagsByFile - Map from relative file path to tags extracted from that file
+ * @param options - Ranking personalization
  * @returns The complete dependency graph with importance ranking
  */
-export function buildGraph(tagsByFile: Map<string, Tag[]>): DependencyGraph {
+export function buildGraph(
+  tagsByFile: Map<string, Tag[]>,
+  options: BuildGraphOptions = {},
+): DependencyGraph {
   // Build index of definitions: symbol name → file paths
   const definitionIndex = new Map<string, Set<string>>();
 
@@ -108,32 +121,26 @@ export function buildGraph(tagsByFile: Map<string, Tag[]>): DependencyGraph {
     edges.push({ from, to, weight, symbols: [...symbols] });
   }
 
-  // Compute importance: sum of weighted in-edges (files that are referenced most)
-  for (const edge of edges) {
-    const targetNode = nodes.get(edge.to);
-    if (targetNode) {
-      targetNode.score += edge.weight;
+  // Rank symbols, then roll their ranks up to files
+  const symbols = rankSymbols(tagsByFile, { personalization: options.personalization });
+  for (const symbol of symbols) {
+    const node = nodes.get(symbol.file);
+    if (node) {
+      node.score += symbol.rank;
     }
   }
 
-  // Also give a small base score based on definition count
-  // (files with many definitions are structurally important even if not referenced)
-  for (const node of nodes.values()) {
-    node.score += node.definitions.length * 0.1;
-  }
-
   // Rank by score descending
   const rankedFiles = [...nodes.values()].sort((a, b) => b.score - a.score);
 
-  return { nodes, edges, rankedFiles };
+  return { nodes, edges, rankedFiles, symbols };
 }
 
 /**
- * Get the most important definitions across all files,
- * respecting file ranking order.
+ * Get the most important definitions across all files.
  *
- * Returns definitions from the most important files first,
- * with definitions within each file ordered by type priority.
+ * Returns definitions in symbol rank order, with equally ranked
+ * definitions ordered by type priority.
  */
 export function getRankedDefinitions(graph: DependencyGraph): Tag[] {
   const typePriority: Record<string, number> = {
@@ -149,17 +156,38 @@ export function getRankedDefinitions(graph: DependencyGraph): Tag[] {
     identifier: 9,
   };
 
-  const result: Tag[] = [];
+  const priority = (tag: Tag) => typePriority[tag.type] ?? 99;
+  const ordered = [...graph.symbols].sort(
+    (a, b) =>
+      b.rank - a.rank ||
+      priority(a.definitions[0]) - priority(b.definitions[0]) ||
+      a.definitions[0].line - b.definitions[0].line,
+  );
 
-  for (const node of graph.rankedFiles) {
-    const sorted = [...node.definitions].sort((a, b) => {
-      const pa = typePriority[a.type] ?? 99;
-      const pb = typePriority[b.type] ?? 99;
-      if (pa !== pb) return pa - pb;
-      return a.line - b.line;
-    });
-    result.push(...sorted);
+  const result: Tag[] = [];
+  for (const symbol of ordered) {
+    result.push(...[...symbol.definitions].sort((a, b) => priority(a) - priority(b)));
   }
 
   return result;
 }
+
+/**
+ * Restrict a graph to a subset of its files.
+ *
+ * Symbols keep the ranks computed over the whole graph, so definitions used
+ * from outside the subset still rank high. Only edges between included files
+ * are kept.
+ */
+export function filterGraph(
+  graph: DependencyGraph,
+  includeFile: (path: string) => boolean,
+): DependencyGraph {
+  const nodes = new Map([...graph.nodes].filter(([path]) => includeFile(path)));
+  return {
+    nodes,
+    edges: graph.edges.filter((e) => nodes.has(e.from) && nodes.has(e.to)),
+    rankedFiles: graph.rankedFiles.filter((f) => nodes.has(f.path)),
+    symbols: graph.symbols.filter((s) => nodes.has(s.file)),
+  };
+}
@@ -17,27 +17,86 @@
 
 import { scanProject, type ScanOptions } from './scanner.js';
 import { parseFile, type Tag } from './parser.js';
-import { buildGraph, type DependencyGraph } from './graph.js';
-import { renderMap, type RenderOptions } from './renderer.js';
-import { getProjectCache } from './cache.js';
+import { buildGraph, filterGraph, type DependencyGraph } from './graph.js';
+import { renderMap, renderWorkspaceMap, type RenderOptions } from './renderer.js';
+import { getProjectCache, getTagVersion } from './cache.js';
+import { loadGrammarPacks } from './grammar-packs.js';
+import {
+  detectWorkspace,
+  findPackage,
+  packageForFile,
+  buildPackageEdges,
+  type Workspace,
+  type WorkspacePackage,
+  type PackageEdge,
+} from './workspace.js';
+import { buildPersonalization, getRecentlyTouchedFiles } from './personalization.js';
+import { snapshotFromGraph, diffStructure, type StructureDiff } from './structure-diff.js';
+import {
+  saveRepoMapSnapshot,
+  getLatestRepoMapSnapshot,
+} from '../storage/repomap-snapshot-store.js';
+import { resolveCanonicalProjectPath } from '../utils/project-path.js';
+import { getConfig, resolvePath } from '../config/memory-config.js';
 
 export type { Tag } from './parser.js';
-export type { DependencyGraph, FileNode, FileEdge } from './graph.js';
+export type { DependencyGraph, FileNode, FileEdge, BuildGraphOptions } from './graph.js';
+export type { RankedSymbol, SymbolRankOptions } from './pagerank.js';
 export type { ScannedFile, ScanOptions } from './scanner.js';
+export type { GrammarPack } from './grammar-packs.js';
+export type { Workspace, WorkspaceKind, WorkspacePackage, PackageEdge } from './workspace.js';
 export type { RenderOptions } from './renderer.js';
 export { scanProject } from './scanner.js';
 export { parseFile, isSupportedExtension, getLanguageForExtension } from './parser.js';
 export { parseFileRegex, isRegexSupportedExtension } from './regex-parser.js';
-export { buildGraph, getRankedDefinitions } from './graph.js';
-export { renderMap, renderMinimalSummary } from './renderer.js';
-export { getProjectCache, clearAllCaches, TagCache } from './cache.js';
+export { loadGrammarPacks } from './grammar-packs.js';
+export { detectWorkspace, findPackage, packageForFile, buildPackageEdges } from './workspace.js';
+export { buildGraph, filterGraph, getRankedDefinitions } from './graph.js';
+export { rankSymbols } from './pagerank.js';
+export {
+  findSymbolInGraph,
+  findSymbolMentions,
+  suggestSymbols,
+  formatSymbolLookup,
+} from './symbol-lookup.js';
+export type {
+  SymbolLookup,
+  SymbolDefinition,
+  SymbolReferences,
+  SymbolMention,
+} from './symbol-lookup.js';
+export {
+  snapshotFromGraph,
+  diffStructure,
+  hasStructuralChanges,
+  formatStructureDiff,
+} from './structure-diff.js';
+export type {
+  StructuralDelta,
+  StructureDiff,
+  DefinitionChange,
+  RenamedDefinition,
+  MovedDefinition,
+  FileChange,
+  ChurnedFile,
+} from './structure-diff.js';
+export { renderMap, renderWorkspaceMap, renderMinimalSummary } from './renderer.js';
+export {
+  getProjectCache,
+  getTagVersion,
+  clearAllCaches,
+  TagCache,
+  type TagStore,
+} from './cache.js';
 
 /** Options for building a repo map. */
 export interface RepoMapOptions {
   /** Maximum tokens for the output. Default: 1024. */
   maxTokens?: number;
-  /** Files to boost to the top of the output. */
+  /** Files to personalize the ranking toward and list first. */
   focusFiles?: string[];
+  /** Personalize the ranking toward files touched in recent sessions. Default: true. */
+  useRecentSessions?: boolean;
   /** Additional extensions to include. */
   extraExtensions?: string[];
   /** Additional directories to skip. */
@@ -46,6 +105,12 @@ export interface RepoMapOptions {
   showLineNumbers?: boolean;
   /** Maximum files to scan. Default: 10000. */
   maxFiles?: number;
+  /** Directory of tree-sitter grammar packs. Default: `repomap.grammarsDir` from config. */
+  grammarsDir?: string;
+  /** Render per-package sub-maps when the project is a monorepo workspace. Default: true. */
+  workspaces?: boolean;
+  /** Workspace package (name or path) to map on its own. */
+  package?: string;
 }
 
 /** Result of building a repo map. */
@@ -62,51 +127,92 @@ export interface RepoMapResult {
   parsedCount: number;
   /** Duration in milliseconds. */
   durationMs: number;
-  /** The dependency graph (for programmatic access). */
+  /** The dependency graph of the whole project (for programmatic access). */
   graph: DependencyGraph;
+  /** The detected workspace, if any. */
+  workspace?: Workspace;
+  /** Package-level dependency edges, for workspaces. */
+  packageEdges?: PackageEdge[];
+  /** The package mapped, when `package` was given. */
+  package?: WorkspacePackage;
 }
 
 /**
- * Build a structural repo map for a project.
- *
- * Pipeline:
- * 1. Scan directory for source files (filtered by gitignore)
- * 2. Parse files with tree-sitter (cached by mtime)
- * 3. Build dependency graph (files → edges → importance ranking)
- * 4. Render ranked definitions within token budget
- *
- * @param projectPath - Absolute path to the project root
- * @param options - Configuration options
- * @returns Repo map result with text and metadata
+ * Scan and parse a project and build its dependency graph.
  */
-export async function buildRepoMap(
+async function loadGraph(
   projectPath: string,
-  options: RepoMapOptions = {},
-): Promise<RepoMapResult> {
-  const start = performance.now();
+  options: RepoMapOptions,
+): Promise<{ fileCount: number; parsedCount: number; graph: DependencyGraph }> {
+  const grammarPacks = loadGrammarPacks(
+    resolvePath(options.grammarsDir ?? getConfig().repomap.grammarsDir),
+  );
 
-  // 1. Scan
+  // 1. Scan (including extensions claimed by grammar packs)
   const scanOptions: ScanOptions = {
-    extraExtensions: options.extraExtensions,
+    extraExtensions: [
+      ...(options.extraExtensions ?? []),
+      ...grammarPacks.flatMap((pack) => pack.extensions),
+    ],
     skipDirs: options.skipDirs,
     maxFiles: options.maxFiles,
   };
   const files = scanProject(projectPath, scanOptions);
 
   // 2. Parse (with caching)
-  const cache = getProjectCache(projectPath);
+  const cache = getProjectCache(projectPath, getTagVersion(grammarPacks));
   const { cached, stale } = cache.resolve(files);
 
   // Parse stale files
   const tagsByFile = new Map<string, Tag[]>(cached);
   for (const file of stale) {
-    const tags = await parseFile(file.absolutePath, file.relativePath);
+    const tags = await parseFile(file.absolutePath, file.relativePath, grammarPacks);
     tagsByFile.set(file.relativePath, tags);
     cache.update(file, tags);
   }
+  cache.flush();
 
   // 3. Build graph
-  const graph = buildGraph(tagsByFile);
+  const recentFiles =
+    options.useRecentSessions === false
+      ? undefined
+      : getRecentlyTouchedFiles(projectPath, new Set(tagsByFile.keys()));
+  const graph = buildGraph(tagsByFile, {
+    personalization: buildPersonalization(options.focusFiles, recentFiles),
+  });
+
+  return { fileCount: files.length, parsedCount: stale.length, graph };
+}
+
+/**
+ * Build a structural repo map for a project.
+ *
+ * Pipeline:
+ * 1. Scan directory for source files (filtered by gitignore)
+ * 2. Parse files with tree-sitter or a grammar pack (cached by mtime + content hash, persisted)
+ * 3. Build dependency graph and rank symbols with personalized PageRank
+ *    (personalized by focus files and files touched in recent sessions)
+ * 4. Render top-ranked definitions within token budget — for a monorepo
+ *    workspace, a package overview and per-package sub-maps, or a single
+ *    package's map when `package` is given
+ *
+ * @param projectPath - Absolute path to the project root
+ * @param options - Configuration options
+ * @returns Repo map result with text and metadata
+ */
+export async function buildRepoMap(
+  projectPath: string,
+  options: RepoMapOptions = {},
+): Promise<RepoMapResult> {
+  const start = performance.now();
+
+  const workspace =
+    options.workspaces === false && !options.package ? null : detectWorkspace(projectPath);
+  const pkg = options.package ? resolvePackage(projectPath, workspace, options.package) : undefined;
+
+  // 1-3. Scan, parse and build graph
+  const { fileCount, parsedCount, graph } = await loadGraph(projectPath, options);
+  const packageEdges = workspace ? buildPackageEdges(workspace, graph) : undefined;
 
   // 4. Render
   const renderOptions: RenderOptions = {
@@ -114,27 +220,60 @@ export async function buildRepoMap(
     focusFiles: options.focusFiles,
     showLineNumbers: options.showLineNumbers,
   };
-  const text = renderMap(graph, renderOptions);
+  let mapped = graph;
+  let text: string;
+  if (pkg) {
+    mapped = filterGraph(graph, (file) => packageForFile(workspace!, file) === pkg);
+    text = renderMap(mapped, renderOptions);
+  } else if (workspace && options.workspaces !== false) {
+    text = renderWorkspaceMap(graph, workspace, packageEdges!, renderOptions);
+  } else {
+    text = renderMap(graph, renderOptions);
+  }
 
   const durationMs = performance.now() - start;
 
   // Count definitions
   let definitionCount = 0;
-  for (const node of graph.nodes.values()) {
+  for (const node of mapped.nodes.values()) {
     definitionCount += node.definitions.length;
   }
 
   return {
     text,
-    fileCount: files.length,
+    fileCount: pkg ? mapped.nodes.size : fileCount,
     definitionCount,
-    edgeCount: graph.edges.length,
-    parsedCount: stale.length,
+    edgeCount: mapped.edges.length,
+    parsedCount,
     durationMs,
     graph,
+    ...(workspace && { workspace, packageEdges }),
+    ...(pkg && { package: pkg }),
   };
 }
 
+/**
+ * Resolve the `package` option against the project's workspace.
+ * @throws Error if the project is not a workspace or has no such package.
+ */
+function resolvePackage(
+  projectPath: string,
+  workspace: Workspace | null,
+  nameOrPath: string,
+): WorkspacePackage {
+  if (!workspace) {
+    throw new Error(
+      `No workspace found in ${projectPath} (looked for pnpm-workspace.yaml, package.json workspaces, Cargo.toml [workspace] and go.work)`,
+    );
+  }
+  const pkg = findPackage(workspace, nameOrPath);
+  if (!pkg) {
+    const names = workspace.packages.map((p) => p.name).join(', ');
+    throw new Error(`Unknown workspace package "${nameOrPath}". Packages: ${names}`);
+  }
+  return pkg;
+}
+
 /**
  * Look up which file defines a given symbol name.
  * Returns the file path and line number, or null if not found.
@@ -152,3 +291,45 @@ export function findSymbol(
   }
   return null;
 }
+
+/**
+ * Store a snapshot of a project's definitions per file at the end of a session.
+ *
+ * @param projectPath - Absolute path to the project root
+ * @param sessionId - The session that just ended
+ * @param graph - Repo map graph to snapshot; built from the project if omitted
+ */
+export async function snapshotRepoMap(
+  projectPath: string,
+  sessionId: string,
+  graph?: DependencyGraph,
+): Promise<void> {
+  const current = graph ?? (await loadGraph(projectPath, { useRecentSessions: false })).graph;
+  saveRepoMapSnapshot(
+    resolveCanonicalProjectPath(projectPath),
+    sessionId,
+    snapshotFromGraph(current),
+  );
+}
+
+/**
+ * Diff a project's current structure against the snapshot taken at the end
+ * of its most recent session.
+ *
+ * @param projectPath - Absolute path to the project root
+ * @param graph - Current repo map graph; built from the project if omitted
+ * @returns The diff, or null if no snapshot has been stored for the project
+ */
+export async function getStructureDiff(
+  projectPath: string,
+  graph?: DependencyGraph,
+): Promise<StructureDiff | null> {
+  const snapshot = getLatestRepoMapSnapshot(resolveCanonicalProjectPath(projectPath));
+  if (!snapshot) return null;
+
+  const current = graph ?? (await loadGraph(projectPath, { useRecentSessions: false })).graph;
+  return {
+    since: { sessionId: snapshot.sessionId, createdAt: snapshot.createdAt },
+    delta: diffStructure(snapshot.files, snapshotFromGraph(current)),
+  };
+}
@@ -9,20 +9,38 @@
  * Rust, Go, Ruby, C#, PHP, Bash (tree-sitter).
  * Fallback regex parsing: Scala, Kotlin, Swift, Haskell, Lua, Dart,
  * Zig, Elixir, Perl, R.
+ * Grammar packs (see grammar-packs.ts) add languages with a `.wasm` grammar
+ * and a tags query, and take precedence for the extensions they claim.
  */
 
 import { readFileSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
-import type { Node as TSNode, Language as TSLanguage, Tree as TSTree } from 'web-tree-sitter';
+import type {
+  Node as TSNode,
+  Language as TSLanguage,
+  Query as TSQuery,
+  Tree as TSTree,
+} from 'web-tree-sitter';
 import {
   parseFileRegex,
   isRegexSupportedExtension,
   getRegexLanguageForExtension,
 } from './regex-parser.js';
+import { findGrammarPack, tagForCapture, type GrammarPack } from './grammar-packs.js';
+import { createLogger } from '../utils/logger.js';
+import { errorMessage } from '../utils/errors.js';
+
+const log = createLogger('repomap');
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
+/**
+ * Version of the tag extraction logic. Bump whenever parsing changes what
+ * tags a file yields so persisted tag caches are invalidated.
+ */
+export const PARSER_VERSION = 1;
+
 /** A tag extracted from a source file. */
 export interface Tag {
   /** The symbol name (e.g., 'MyClass', 'myFunction'). */
@@ -91,8 +109,13 @@ const EXTENSION_TO_LANGUAGE: Record<string, string> = {
 let ParserClass: any = null;
 // eslint-disable-next-line @typescript-eslint/no-explicit-any -- dynamic tree-sitter import lacks typed exports
 let LanguageClass: any = null;
+// eslint-disable-next-line @typescript-eslint/no-explicit-any -- dynamic tree-sitter import lacks typed exports
+let QueryClass: any = null;
 let initPromise: Promise<void> | null = null;
+/** Loaded grammars, keyed by WASM path. */
 const languageCache = new Map<string, TSLanguage>();
+/** Compiled grammar pack queries keyed by pack fingerprint; null if the pack failed to load. */
+const packQueryCache = new Map<string, { language: TSLanguage; query: TSQuery } | null>();
 
 /**
  * Initialize tree-sitter. Must be called before parsing.
@@ -117,6 +140,7 @@ async function ensureInit(): Promise<void> {
     await P.init({ locateFile: () => wasmPath });
     ParserClass = P;
     LanguageClass = mod.Language;
+    QueryClass = mod.Query;
   })();
 
   return initPromise;
@@ -126,11 +150,6 @@ async function ensureInit(): Promise<void> {
  * Load a tree-sitter language grammar.
  */
 async function loadLanguage(languageName: string): Promise<TSLanguage> {
-  const cached = languageCache.get(languageName);
-  if (cached) return cached;
-
-  await ensureInit();
-
   // Resolve the WASM file from @vscode/tree-sitter-wasm
   const wasmFile = `tree-sitter-${languageName}.wasm`;
   const wasmPath = join(
@@ -144,8 +163,20 @@ async function loadLanguage(languageName: string): Promise<TSLanguage> {
     wasmFile,
   );
 
+  return loadLanguageFile(wasmPath);
+}
+
+/**
+ * Load a tree-sitter grammar from a WASM file.
+ */
+async function loadLanguageFile(wasmPath: string): Promise<TSLanguage> {
+  const cached = languageCache.get(wasmPath);
+  if (cached) return cached;
+
+  await ensureInit();
+
   const language = await LanguageClass.load(wasmPath);
-  languageCache.set(languageName, language);
+  languageCache.set(wasmPath, language);
   return language;
 }
 
@@ -574,10 +605,22 @@ function isInterestingVariable(node: TSNode): boolean {
  *
  * @param filePath - Absolute path to the source file
  * @param relativePath - Relative path for tag metadata
+ * @param grammarPacks - Loaded grammar packs, consulted before the built-in grammars
  * @returns Array of tags extracted from the file
  */
-export async function parseFile(filePath: string, relativePath: string): Promise<Tag[]> {
+export async function parseFile(
+  filePath: string,
+  relativePath: string,
+  grammarPacks: GrammarPack[] = [],
+): Promise<Tag[]> {
   const ext = filePath.slice(filePath.lastIndexOf('.'));
+
+  const pack = findGrammarPack(grammarPacks, ext);
+  if (pack) {
+    const tags = await parseFileWithGrammarPack(filePath, relativePath, pack);
+    if (tags) return tags;
+  }
+
   const languageName = EXTENSION_TO_LANGUAGE[ext];
 
   // Fall back to regex parser for languages without tree-sitter grammars
@@ -871,6 +914,92 @@ export async function parseFile(filePath: string, relativePath: string): Promise
   return tags;
 }
 
+// ---------------------------------------------------------------------------
+// Grammar packs
+// ---------------------------------------------------------------------------
+
+/**
+ * Load a grammar pack's grammar and compile its tags query.
+ * Returns null, after logging a warning once, if either fails.
+ */
+async function loadGrammarPackQuery(
+  pack: GrammarPack,
+): Promise<{ language: TSLanguage; query: TSQuery } | null> {
+  const cached = packQueryCache.get(pack.fingerprint);
+  if (cached !== undefined) return cached;
+
+  let loaded: { language: TSLanguage; query: TSQuery } | null = null;
+  try {
+    const language = await loadLanguageFile(pack.wasmPath);
+    loaded = { language, query: new QueryClass(language, pack.query) };
+  } catch (error) {
+    log.warn('Grammar pack failed to load, using built-in parsing', {
+      pack: pack.name,
+      error: errorMessage(error),
+    });
+  }
+  packQueryCache.set(pack.fingerprint, loaded);
+  return loaded;
+}
+
+/**
+ * Extract tags with a grammar pack's tags query.
+ *
+ * Each match's `@name` capture names the tag; `@definition.<kind>` and
+ * `@reference.<kind>` captures in the same match decide its kind and type.
+ * Quotes around names (e.g. Terraform resource labels) are stripped.
+ *
+ * @returns Tags, or null if the pack can't be loaded
+ */
+async function parseFileWithGrammarPack(
+  filePath: string,
+  relativePath: string,
+  pack: GrammarPack,
+): Promise<Tag[] | null> {
+  const loaded = await loadGrammarPackQuery(pack);
+  if (!loaded) return null;
+
+  let source: string;
+  try {
+    source = readFileSync(filePath, 'utf-8');
+  } catch {
+    return [];
+  }
+
+  const parser = new ParserClass();
+  parser.setLanguage(loaded.language);
+  const tree = parser.parse(source) as TSTree | null;
+  if (!tree) {
+    parser.delete();
+    return [];
+  }
+
+  const tags: Tag[] = [];
+  const seen = new Set<string>();
+  for (const match of loaded.query.matches(tree.rootNode)) {
+    const nameNode = match.captures.find((capture) => capture.name === 'name')?.node;
+    if (!nameNode) continue;
+    const name = nameNode.text.replace(/^["'`]|["'`]$/g, '');
+    if (name.length <= 1) continue;
+
+    for (const capture of match.captures) {
+      const tag = tagForCapture(capture.name);
+      if (!tag) continue;
+      const line = (tag.kind === 'def' ? capture.node : nameNode).startPosition.row + 1;
+      // Definitions are kept per line; references once per name, like collectReferences
+      const key = tag.kind === 'def' ? `def:${name}:${line}` : `ref:${tag.type}:${name}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      tags.push({ name, kind: tag.kind, line, file: relativePath, type: tag.type });
+    }
+  }
+
+  tree.delete();
+  parser.delete();
+
+  return tags;
+}
+
 /**
  * Find the last identifier in a node's children (for Java import declarations).
  */
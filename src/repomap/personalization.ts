@@ -0,0 +1,73 @@
+/**
+ * Personalization weights for symbol ranking.
+ *
+ * Combines explicit focus files with files touched in the project's most
+ * recent sessions (from session_states), so the repo map favours the code
+ * currently being worked on.
+ */
+
+import { isAbsolute, relative } from 'path';
+import { getRecentSessionStatesByPath } from '../storage/session-state-store.js';
+import { resolveCanonicalProjectPath } from '../utils/project-path.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('repomap');
+
+/** Weight of each focus file. */
+const FOCUS_WEIGHT = 1;
+
+/** Weight of a file touched in the most recent session; halves per older session. */
+const RECENT_WEIGHT = 0.5;
+
+/** Number of recent sessions to consider. */
+const RECENT_SESSIONS = 10;
+
+/**
+ * Get files touched in recent sessions, weighted by recency.
+ * Paths are made relative to the project and limited to `knownFiles`.
+ * Returns an empty map if session state is unavailable.
+ */
+export function getRecentlyTouchedFiles(
+  projectPath: string,
+  knownFiles: Set<string>,
+): Map<string, number> {
+  const weights = new Map<string, number>();
+
+  let states;
+  try {
+    states = getRecentSessionStatesByPath(
+      resolveCanonicalProjectPath(projectPath),
+      RECENT_SESSIONS,
+    );
+  } catch (error) {
+    log.debug('Session state unavailable for repo map personalization', {
+      error: (error as Error).message,
+    });
+    return weights;
+  }
+
+  states.forEach((state, index) => {
+    const weight = RECENT_WEIGHT / 2 ** index;
+    for (const file of state.filesTouched) {
+      const rel = isAbsolute(file) ? relative(projectPath, file) : file;
+      if (!knownFiles.has(rel)) continue;
+      weights.set(rel, Math.max(weights.get(rel) ?? 0, weight));
+    }
+  });
+
+  return weights;
+}
+
+/**
+ * Build per-file personalization weights from focus files and recent sessions.
+ */
+export function buildPersonalization(
+  focusFiles: string[] = [],
+  recentFiles: Map<string, number> = new Map(),
+): Map<string, number> {
+  const weights = new Map(recentFiles);
+  for (const file of focusFiles) {
+    weights.set(file, (weights.get(file) ?? 0) + FOCUS_WEIGHT);
+  }
+  return weights;
+}
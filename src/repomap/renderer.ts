@@ -2,21 +2,30 @@
  * Render ranked definitions into a compact text repo map.
  *
  * Produces a token-budgeted structural summary showing file paths
- * and key definitions with structural context.
+ * and their highest-ranked definitions.
  */
 
-import type { DependencyGraph, FileNode } from './graph.js';
+import { filterGraph, type DependencyGraph } from './graph.js';
+import type { RankedSymbol } from './pagerank.js';
+import type { Tag } from './parser.js';
+import { packageForFile, type PackageEdge, type Workspace } from './workspace.js';
 import { approximateTokens } from '../utils/token-counter.js';
 
 export interface RenderOptions {
   /** Maximum tokens for the output. Default: 1024. */
   maxTokens?: number;
-  /** Files to boost to the top of the output. */
+  /** Files to list first in the output. */
   focusFiles?: string[];
   /** Whether to show line numbers. Default: true. */
   showLineNumbers?: boolean;
 }
 
+/** Smallest budget worth giving a package sub-map. */
+const MIN_SUBMAP_TOKENS = 64;
+
+/** Label for files outside every workspace package. */
+const ROOT_PACKAGE_LABEL = '(root)';
+
 /** Type label for compact display. */
 const TYPE_LABELS: Record<string, string> = {
   class: 'class',
@@ -43,7 +52,11 @@ const TYPE_LABELS: Record<string, string> = {
  *   fn getSessionsForProject (45)
  * ```
  *
- * @param graph - The dependency graph with ranked files
+ * Includes as many of the top-ranked symbols as fit the token budget,
+ * grouped by file. Files appear in order of their best-ranked included
+ * symbol, with focus files first; symbols within a file appear by line.
+ *
+ * @param graph - The dependency graph with ranked symbols
  * @param options - Render options
  * @returns Compact text representation
  */
@@ -52,90 +65,71 @@ export function renderMap(graph: DependencyGraph, options: RenderOptions = {}):
   const showLineNumbers = options.showLineNumbers ?? true;
   const focusFiles = new Set(options.focusFiles ?? []);
 
-  // Build ordered list of files: focus files first, then by rank
-  const orderedFiles = orderFiles(graph.rankedFiles, focusFiles);
-
-  // Binary search for the maximum number of files we can include
-  const result = fitToTokenBudget(orderedFiles, maxTokens, showLineNumbers);
-  return result;
-}
-
-/**
- * Order files: focus files first (in rank order), then remaining by rank.
- */
-function orderFiles(rankedFiles: FileNode[], focusFiles: Set<string>): FileNode[] {
-  if (focusFiles.size === 0) return rankedFiles;
-
-  const focused: FileNode[] = [];
-  const rest: FileNode[] = [];
+  const symbols = graph.symbols.filter((s) => s.definitions.length > 0);
+  if (symbols.length === 0) {
+    return '(no definitions found)';
+  }
 
-  for (const file of rankedFiles) {
-    if (focusFiles.has(file.path)) {
-      focused.push(file);
+  // Binary search for the largest number of top symbols that fits the budget
+  let best: string | null = null;
+  let lo = 1;
+  let hi = symbols.length;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    const text = renderSymbols(symbols.slice(0, mid), focusFiles, showLineNumbers);
+    if (approximateTokens(text) <= maxTokens) {
+      best = text;
+      lo = mid + 1;
     } else {
-      rest.push(file);
+      hi = mid - 1;
     }
   }
 
-  return [...focused, ...rest];
+  return best ?? '(no definitions found)';
 }
 
 /**
- * Fit files and definitions into the token budget.
- * Uses a greedy approach: add files one by one until budget is exhausted.
+ * Render a set of symbols grouped by file.
  */
-function fitToTokenBudget(
-  orderedFiles: FileNode[],
-  maxTokens: number,
+function renderSymbols(
+  symbols: RankedSymbol[],
+  focusFiles: Set<string>,
   showLineNumbers: boolean,
 ): string {
-  const sections: string[] = [];
-  let currentTokens = 0;
-
-  for (const file of orderedFiles) {
-    if (file.definitions.length === 0) continue;
-
-    const section = renderFileSection(file, showLineNumbers);
-    const sectionTokens = approximateTokens(section);
-
-    if (currentTokens + sectionTokens > maxTokens) {
-      // Try a truncated version with fewer definitions
-      const truncated = renderFileSectionTruncated(
-        file,
-        maxTokens - currentTokens,
-        showLineNumbers,
-      );
-      if (truncated) {
-        sections.push(truncated);
-      }
-      break;
-    }
-
-    sections.push(section);
-    currentTokens += sectionTokens;
+  // Group by file, preserving rank order of first appearance
+  const byFile = new Map<string, Tag[]>();
+  for (const symbol of symbols) {
+    const defs = byFile.get(symbol.file) ?? [];
+    defs.push(...symbol.definitions);
+    byFile.set(symbol.file, defs);
   }
 
-  if (sections.length === 0) {
-    return '(no definitions found)';
-  }
+  const files = [...byFile.keys()];
+  const ordered = [
+    ...files.filter((f) => focusFiles.has(f)),
+    ...files.filter((f) => !focusFiles.has(f)),
+  ];
 
-  return sections.join('\n\n');
+  return ordered
+    .map((file) => renderDefinitions(file, byFile.get(file)!, showLineNumbers))
+    .join('\n\n');
 }
 
 /**
- * Render a single file's section.
+ * Render a file header and its definitions (deduplicated, by line).
  */
-function renderFileSection(file: FileNode, showLineNumbers: boolean): string {
-  const lines: string[] = [file.path];
+function renderDefinitions(path: string, definitions: Tag[], showLineNumbers: boolean): string {
+  const lines: string[] = [path];
 
-  // Deduplicate and sort definitions
   const seen = new Set<string>();
-  const defs = file.definitions.filter((d) => {
-    const key = `${d.type}:${d.name}`;
-    if (seen.has(key)) return false;
-    seen.add(key);
-    return true;
-  });
+  const defs = [...definitions]
+    .sort((a, b) => a.line - b.line)
+    .filter((d) => {
+      const key = `${d.type}:${d.name}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
 
   for (const def of defs) {
     const label = TYPE_LABELS[def.type] ?? def.type;
@@ -147,42 +141,99 @@ function renderFileSection(file: FileNode, showLineNumbers: boolean): string {
 }
 
 /**
- * Render a truncated file section that fits within a token budget.
- * Returns null if even the file header doesn't fit.
+ * Render a workspace: a package overview, then one sub-map per package.
+ *
+ * Output format:
+ * ```
+ * Workspace (pnpm, 3 packages):
+ *   @acme/web (apps/web, 12 files) → @acme/ui, @acme/core
+ *   @acme/core (packages/core, 20 files)
+ *
+ * === @acme/core (packages/core) ===
+ * packages/core/src/index.ts
+ *   fn createClient (12)
+ * ```
+ *
+ * Dependencies are listed by cross-package reference weight, then those only
+ * declared in manifests. The budget left after the overview is split between
+ * packages with a floor per package and the rest in proportion to their
+ * summed symbol ranks, so one heavily referenced package can't crowd out the
+ * others; files outside every package get a `(root)` sub-map.
+ *
+ * @param graph - The dependency graph of the whole project
+ * @param workspace - The detected workspace
+ * @param packageEdges - Package-level dependency edges (see buildPackageEdges)
+ * @param options - Render options
+ * @returns Compact text representation
  */
-function renderFileSectionTruncated(
-  file: FileNode,
-  remainingTokens: number,
-  showLineNumbers: boolean,
-): string | null {
-  if (remainingTokens < 10) return null;
-
-  const lines: string[] = [file.path];
-  let currentTokens = approximateTokens(file.path + '\n');
-
-  const seen = new Set<string>();
-  const defs = file.definitions.filter((d) => {
-    const key = `${d.type}:${d.name}`;
-    if (seen.has(key)) return false;
-    seen.add(key);
-    return true;
-  });
-
-  for (const def of defs) {
-    const label = TYPE_LABELS[def.type] ?? def.type;
-    const lineRef = showLineNumbers ? ` (${def.line})` : '';
-    const line = `  ${label} ${def.name}${lineRef}`;
-    const lineTokens = approximateTokens(line + '\n');
+export function renderWorkspaceMap(
+  graph: DependencyGraph,
+  workspace: Workspace,
+  packageEdges: PackageEdge[],
+  options: RenderOptions = {},
+): string {
+  const maxTokens = options.maxTokens ?? 1024;
 
-    if (currentTokens + lineTokens > remainingTokens) break;
+  // Group files by package label
+  const groups = new Map<string, { path: string; files: Set<string>; rank: number }>();
+  for (const pkg of workspace.packages) {
+    groups.set(pkg.name, { path: pkg.path, files: new Set(), rank: 0 });
+  }
+  const labelOf = new Map<string, string>();
+  for (const file of graph.nodes.keys()) {
+    const label = packageForFile(workspace, file)?.name ?? ROOT_PACKAGE_LABEL;
+    if (!groups.has(label)) groups.set(label, { path: '', files: new Set(), rank: 0 });
+    groups.get(label)!.files.add(file);
+    labelOf.set(file, label);
+  }
+  for (const symbol of graph.symbols) {
+    const label = labelOf.get(symbol.file);
+    if (label) groups.get(label)!.rank += symbol.rank;
+  }
 
-    lines.push(line);
-    currentTokens += lineTokens;
+  // Overview
+  const overview = [`Workspace (${workspace.kind}, ${workspace.packages.length} packages):`];
+  for (const pkg of workspace.packages) {
+    const deps = packageEdges.filter((e) => e.from === pkg.name).map((e) => e.to);
+    const files = groups.get(pkg.name)!.files.size;
+    const arrow = deps.length > 0 ? ` → ${deps.join(', ')}` : '';
+    overview.push(`  ${pkg.name} (${pkg.path || '.'}, ${files} files)${arrow}`);
   }
+  const overviewText = overview.join('\n');
+
+  // Sub-maps, highest ranked package first. Each package that fits gets
+  // MIN_SUBMAP_TOKENS plus a rank-proportional share of the rest; budget a
+  // sub-map leaves unused carries over to the next one.
+  const available = maxTokens - approximateTokens(overviewText);
+  const ranked = [...groups.entries()]
+    .filter(([, group]) => group.rank > 0)
+    .sort((a, b) => b[1].rank - a[1].rank)
+    .slice(0, Math.max(0, Math.floor(available / MIN_SUBMAP_TOKENS)));
+  const totalRank = ranked.reduce((sum, [, group]) => sum + group.rank, 0);
+  const spare = available - ranked.length * MIN_SUBMAP_TOKENS;
+
+  const sections = [overviewText];
+  let carry = 0;
+  for (const [label, group] of ranked) {
+    const heading = `=== ${label}${group.path ? ` (${group.path})` : ''} ===`;
+    const allowance = MIN_SUBMAP_TOKENS + Math.floor((spare * group.rank) / totalRank) + carry;
+
+    const subgraph = filterGraph(graph, (file) => group.files.has(file));
+    const text = renderMap(subgraph, {
+      ...options,
+      maxTokens: allowance - approximateTokens(heading) - 1,
+    });
+    if (text === '(no definitions found)') {
+      carry = allowance;
+      continue;
+    }
 
-  if (lines.length <= 1) return null;
+    const section = `${heading}\n${text}`;
+    sections.push(section);
+    carry = allowance - approximateTokens(section) - 1;
+  }
 
-  return lines.join('\n');
+  return sections.join('\n\n');
 }
 
 /**
@@ -0,0 +1,281 @@
+/**
+ * Structural diff between repo map snapshots.
+ *
+ * Compares the definitions per file of two snapshots and reports files added
+ * and removed, definitions added, removed, renamed and moved between files,
+ * and files whose definitions churned heavily. Methods are left out of
+ * snapshots: the diff tracks a codebase's top-level shape, not class internals.
+ */
+
+import type { DependencyGraph } from './graph.js';
+import type { Tag } from './parser.js';
+import type { SnapshotDefinition } from '../storage/repomap-snapshot-store.js';
+
+/** A definition added or removed in a file. */
+export interface DefinitionChange {
+  file: string;
+  name: string;
+  type: Tag['type'];
+}
+
+/** A definition that changed name within a file. */
+export interface RenamedDefinition {
+  file: string;
+  from: string;
+  to: string;
+  type: Tag['type'];
+}
+
+/** A definition that moved to another file under the same name. */
+export interface MovedDefinition {
+  name: string;
+  type: Tag['type'];
+  from: string;
+  to: string;
+}
+
+/** A file added or removed, with its definition count. */
+export interface FileChange {
+  file: string;
+  definitionCount: number;
+}
+
+/** A file present in both snapshots whose definitions changed heavily. */
+export interface ChurnedFile {
+  file: string;
+  added: number;
+  removed: number;
+  renamed: number;
+}
+
+/** Structural changes between two snapshots. */
+export interface StructuralDelta {
+  addedFiles: FileChange[];
+  removedFiles: FileChange[];
+  /** Definitions added to files present in both snapshots. */
+  added: DefinitionChange[];
+  /** Definitions removed from files present in both snapshots. */
+  removed: DefinitionChange[];
+  renamed: RenamedDefinition[];
+  moved: MovedDefinition[];
+  /** Files with heavy churn, most changed first. */
+  churned: ChurnedFile[];
+}
+
+/** A structural diff against the snapshot taken at the end of a session. */
+export interface StructureDiff {
+  since: { sessionId: string; createdAt: string };
+  delta: StructuralDelta;
+}
+
+/** Files with at least this many changed definitions count as churned. */
+const CHURN_THRESHOLD = 5;
+
+/** Maximum entries listed per section when formatting. */
+const MAX_LISTED = 15;
+
+/**
+ * Take a snapshot of the definitions per file in a repo map graph.
+ */
+export function snapshotFromGraph(graph: DependencyGraph): Map<string, SnapshotDefinition[]> {
+  const files = new Map<string, SnapshotDefinition[]>();
+  for (const [path, node] of graph.nodes) {
+    files.set(
+      path,
+      node.definitions
+        .filter((def) => def.type !== 'method')
+        .map((def) => ({ name: def.name, type: def.type })),
+    );
+  }
+  return files;
+}
+
+function definitionKey(def: SnapshotDefinition): string {
+  return `${def.type}\u0000${def.name}`;
+}
+
+/**
+ * Definitions of `defs` missing from `other`, deduplicated.
+ */
+function missingFrom(
+  defs: SnapshotDefinition[],
+  other: SnapshotDefinition[],
+): SnapshotDefinition[] {
+  const otherKeys = new Set(other.map(definitionKey));
+  const seen = new Set<string>();
+  return defs.filter((def) => {
+    const key = definitionKey(def);
+    if (otherKeys.has(key) || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Compare two snapshots.
+ *
+ * A definition removed from one file and added to exactly one other under the
+ * same name and type is reported as moved. Within a file, a lone removed and
+ * a lone added definition of the same type are reported as a rename.
+ */
+export function diffStructure(
+  before: Map<string, SnapshotDefinition[]>,
+  after: Map<string, SnapshotDefinition[]>,
+): StructuralDelta {
+  const removedByFile = new Map<string, SnapshotDefinition[]>();
+  const addedByFile = new Map<string, SnapshotDefinition[]>();
+  for (const file of new Set([...before.keys(), ...after.keys()])) {
+    const old = before.get(file) ?? [];
+    const current = after.get(file) ?? [];
+    removedByFile.set(file, missingFrom(old, current));
+    addedByFile.set(file, missingFrom(current, old));
+  }
+
+  // 1. Moves: same name and type, removed from one file and added to one other
+  const addedIn = new Map<string, string[]>();
+  for (const [file, defs] of addedByFile) {
+    for (const def of defs) {
+      const key = definitionKey(def);
+      addedIn.set(key, [...(addedIn.get(key) ?? []), file]);
+    }
+  }
+  const moved: MovedDefinition[] = [];
+  for (const [file, defs] of removedByFile) {
+    for (const def of [...defs]) {
+      const key = definitionKey(def);
+      const targets = (addedIn.get(key) ?? []).filter((f) => f !== file);
+      if (targets.length !== 1) continue;
+      moved.push({ name: def.name, type: def.type, from: file, to: targets[0] });
+      addedIn.delete(key);
+      removedByFile.set(
+        file,
+        removedByFile.get(file)!.filter((d) => definitionKey(d) !== key),
+      );
+      addedByFile.set(
+        targets[0],
+        addedByFile.get(targets[0])!.filter((d) => definitionKey(d) !== key),
+      );
+    }
+  }
+
+  const addedFiles: FileChange[] = [];
+  const removedFiles: FileChange[] = [];
+  const added: DefinitionChange[] = [];
+  const removed: DefinitionChange[] = [];
+  const renamed: RenamedDefinition[] = [];
+  const churned: ChurnedFile[] = [];
+
+  for (const file of [...removedByFile.keys()].sort()) {
+    if (!after.has(file)) {
+      removedFiles.push({ file, definitionCount: before.get(file)!.length });
+      continue;
+    }
+    if (!before.has(file)) {
+      addedFiles.push({ file, definitionCount: after.get(file)!.length });
+      continue;
+    }
+
+    // 2. Renames: one removed and one added definition of the same type
+    let fileRemoved = removedByFile.get(file)!;
+    let fileAdded = addedByFile.get(file)!;
+    let fileRenamed = 0;
+    for (const type of new Set(fileRemoved.map((d) => d.type))) {
+      const from = fileRemoved.filter((d) => d.type === type);
+      const to = fileAdded.filter((d) => d.type === type);
+      if (from.length !== 1 || to.length !== 1) continue;
+      renamed.push({ file, from: from[0].name, to: to[0].name, type });
+      fileRemoved = fileRemoved.filter((d) => d !== from[0]);
+      fileAdded = fileAdded.filter((d) => d !== to[0]);
+      fileRenamed++;
+    }
+
+    added.push(...fileAdded.map((d) => ({ file, name: d.name, type: d.type })));
+    removed.push(...fileRemoved.map((d) => ({ file, name: d.name, type: d.type })));
+
+    if (fileAdded.length + fileRemoved.length + fileRenamed >= CHURN_THRESHOLD) {
+      churned.push({
+        file,
+        added: fileAdded.length,
+        removed: fileRemoved.length,
+        renamed: fileRenamed,
+      });
+    }
+  }
+
+  churned.sort((a, b) => b.added + b.removed + b.renamed - (a.added + a.removed + a.renamed));
+
+  return { addedFiles, removedFiles, added, removed, renamed, moved, churned };
+}
+
+/**
+ * Whether a delta has any changes.
+ */
+export function hasStructuralChanges(delta: StructuralDelta): boolean {
+  return (
+    delta.addedFiles.length > 0 ||
+    delta.removedFiles.length > 0 ||
+    delta.added.length > 0 ||
+    delta.removed.length > 0 ||
+    delta.renamed.length > 0 ||
+    delta.moved.length > 0
+  );
+}
+
+/**
+ * Format a titled list, capped at MAX_LISTED entries.
+ */
+function section<T>(title: string, items: T[], format: (item: T) => string): string[] {
+  if (items.length === 0) return [];
+  const lines = ['', `${title} (${items.length}):`];
+  for (const item of items.slice(0, MAX_LISTED)) {
+    lines.push(`  ${format(item)}`);
+  }
+  if (items.length > MAX_LISTED) {
+    lines.push(`  ...and ${items.length - MAX_LISTED} more`);
+  }
+  return lines;
+}
+
+/**
+ * Format a structure diff as text.
+ */
+export function formatStructureDiff(diff: StructureDiff): string {
+  const { delta } = diff;
+  const since = `since session ${diff.since.sessionId.slice(0, 8)} ended (${diff.since.createdAt.slice(0, 10)})`;
+  if (!hasStructuralChanges(delta)) {
+    return `No structural changes ${since}.`;
+  }
+
+  const counts = [
+    `${delta.addedFiles.length} files added`,
+    `${delta.removedFiles.length} removed`,
+    `${delta.added.length} definitions added`,
+    `${delta.removed.length} removed`,
+    `${delta.renamed.length} renamed`,
+    `${delta.moved.length} moved`,
+  ];
+  const lines = [`Structural changes ${since}: ${counts.join(', ')}`];
+
+  lines.push(
+    ...section(
+      'Files added',
+      delta.addedFiles,
+      (f) => `${f.file} (${f.definitionCount} definitions)`,
+    ),
+    ...section(
+      'Files removed',
+      delta.removedFiles,
+      (f) => `${f.file} (${f.definitionCount} definitions)`,
+    ),
+    ...section('Renamed', delta.renamed, (r) => `${r.file}: ${r.from} → ${r.to} [${r.type}]`),
+    ...section('Moved', delta.moved, (m) => `${m.name} [${m.type}]: ${m.from} → ${m.to}`),
+    ...section('Added', delta.added, (d) => `${d.file}: ${d.name} [${d.type}]`),
+    ...section('Removed', delta.removed, (d) => `${d.file}: ${d.name} [${d.type}]`),
+    ...section('High churn', delta.churned, (c) => {
+      const renamed = c.renamed > 0 ? ` ~${c.renamed}` : '';
+      return `${c.file}: +${c.added} -${c.removed}${renamed}`;
+    }),
+  );
+
+  return lines.join('\n');
+}
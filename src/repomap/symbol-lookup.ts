@@ -0,0 +1,195 @@
+/**
+ * Symbol lookup over the repo map graph.
+ *
+ * Resolves a symbol name to its definitions (with the source line as a
+ * signature), every file and line that references it, and the memory
+ * chunks where it was discussed — bridging code structure and past
+ * conversations about it.
+ */
+
+import { readFileSync } from 'fs';
+import { basename, join } from 'path';
+import type { DependencyGraph } from './graph.js';
+import type { Tag } from './parser.js';
+import { KeywordStore } from '../storage/keyword-store.js';
+import { getChunksByIds, getProjectSlugsForPath } from '../storage/chunk-store.js';
+import { resolveCanonicalProjectPath } from '../utils/project-path.js';
+
+/** Maximum characters of a signature line. */
+const MAX_SIGNATURE_LENGTH = 200;
+
+/** A definition of the symbol. */
+export interface SymbolDefinition {
+  file: string;
+  line: number;
+  type: Tag['type'];
+  /** Source line of the definition, trimmed; null if the file can't be read. */
+  signature: string | null;
+}
+
+/** References to the symbol from one file. */
+export interface SymbolReferences {
+  file: string;
+  /** Referencing line numbers, ascending. */
+  lines: number[];
+}
+
+/** A memory chunk that mentions the symbol. */
+export interface SymbolMention {
+  chunkId: string;
+  sessionSlug: string;
+  startTime: string;
+  /** First line of the chunk mentioning the symbol, trimmed. */
+  excerpt: string;
+}
+
+/** Everything known about a symbol. */
+export interface SymbolLookup {
+  name: string;
+  definitions: SymbolDefinition[];
+  references: SymbolReferences[];
+  mentions: SymbolMention[];
+}
+
+/**
+ * Read a single source line, trimmed and capped.
+ */
+function readSignature(projectPath: string, file: string, line: number): string | null {
+  try {
+    const source = readFileSync(join(projectPath, file), 'utf-8');
+    const text = source.split('\n')[line - 1]?.trim();
+    return text ? text.slice(0, MAX_SIGNATURE_LENGTH) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find a symbol's definitions and references in the graph.
+ */
+export function findSymbolInGraph(
+  graph: DependencyGraph,
+  projectPath: string,
+  name: string,
+): Pick<SymbolLookup, 'definitions' | 'references'> {
+  const definitions: SymbolDefinition[] = [];
+  const defSites = new Set<string>();
+  const refLines = new Map<string, Set<number>>();
+
+  for (const node of graph.nodes.values()) {
+    for (const tag of node.tags) {
+      if (tag.name !== name) continue;
+      if (tag.kind === 'def') {
+        const site = `${tag.file}:${tag.line}`;
+        if (defSites.has(site)) continue;
+        defSites.add(site);
+        definitions.push({
+          file: tag.file,
+          line: tag.line,
+          type: tag.type,
+          signature: readSignature(projectPath, tag.file, tag.line),
+        });
+      } else {
+        const lines = refLines.get(tag.file) ?? new Set();
+        lines.add(tag.line);
+        refLines.set(tag.file, lines);
+      }
+    }
+  }
+
+  const references: SymbolReferences[] = [];
+  for (const [file, lines] of refLines) {
+    // A definition's own name is often also tagged as a reference
+    const sites = [...lines].filter((line) => !defSites.has(`${file}:${line}`));
+    if (sites.length > 0) {
+      references.push({ file, lines: sites.sort((a, b) => a - b) });
+    }
+  }
+
+  definitions.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+  references.sort((a, b) => a.file.localeCompare(b.file));
+  return { definitions, references };
+}
+
+/**
+ * Suggest defined symbol names similar to a name that wasn't found.
+ */
+export function suggestSymbols(graph: DependencyGraph, name: string, limit: number = 5): string[] {
+  const needle = name.toLowerCase();
+  const matches = new Set<string>();
+  for (const symbol of graph.symbols) {
+    if (symbol.name.toLowerCase().includes(needle)) {
+      matches.add(symbol.name);
+      if (matches.size >= limit) break;
+    }
+  }
+  return [...matches];
+}
+
+/**
+ * Find memory chunks that mention a symbol.
+ * Searches the projects recorded for the directory, or its basename when none are.
+ */
+export function findSymbolMentions(
+  projectPath: string,
+  name: string,
+  limit: number = 5,
+): SymbolMention[] {
+  const canonicalPath = resolveCanonicalProjectPath(projectPath);
+  const slugs = getProjectSlugsForPath(canonicalPath);
+  if (slugs.length === 0) slugs.push(basename(canonicalPath));
+
+  const results = new KeywordStore().searchByProject(name, slugs, limit);
+  if (results.length === 0) return [];
+
+  const chunks = new Map(getChunksByIds(results.map((r) => r.id)).map((c) => [c.id, c]));
+  const mentions: SymbolMention[] = [];
+  for (const result of results) {
+    const chunk = chunks.get(result.id);
+    if (!chunk) continue;
+    const lines = chunk.content.split('\n');
+    const line = lines.find((l) => l.includes(name)) ?? lines[0];
+    mentions.push({
+      chunkId: chunk.id,
+      sessionSlug: chunk.sessionSlug,
+      startTime: chunk.startTime,
+      excerpt: line.trim().slice(0, MAX_SIGNATURE_LENGTH),
+    });
+  }
+  return mentions;
+}
+
+/**
+ * Format a symbol lookup as plain text.
+ */
+export function formatSymbolLookup(lookup: SymbolLookup): string {
+  const lines = [`Symbol: ${lookup.name}`];
+
+  lines.push('', `Definitions (${lookup.definitions.length}):`);
+  for (const def of lookup.definitions) {
+    const signature = def.signature ? ` — ${def.signature}` : '';
+    lines.push(`  ${def.file}:${def.line} [${def.type}]${signature}`);
+  }
+
+  const siteCount = lookup.references.reduce((sum, r) => sum + r.lines.length, 0);
+  lines.push('', `References (${lookup.references.length} files, ${siteCount} sites):`);
+  if (lookup.references.length === 0) {
+    lines.push('  (none)');
+  }
+  for (const ref of lookup.references) {
+    lines.push(`  ${ref.file}: ${ref.lines.join(', ')}`);
+  }
+
+  lines.push('', `Discussed in memory (${lookup.mentions.length} chunks):`);
+  if (lookup.mentions.length === 0) {
+    lines.push('  (none)');
+  }
+  lookup.mentions.forEach((mention, i) => {
+    const date = mention.startTime.slice(0, 10);
+    lines.push(
+      `  ${i + 1}. [${date}] ${mention.sessionSlug}: "${mention.excerpt}" (chunk ${mention.chunkId.slice(0, 8)})`,
+    );
+  });
+
+  return lines.join('\n');
+}
@@ -0,0 +1,406 @@
+/**
+ * Monorepo workspace detection for the repo map.
+ *
+ * Recognizes npm/yarn `workspaces` in package.json, pnpm-workspace.yaml,
+ * Cargo `[workspace]` members and go.work `use` directives, and resolves them
+ * to packages with their declared dependencies on each other. The repo map
+ * renders a workspace as a package overview plus one sub-map per package, so
+ * a single heavily referenced package can't take the whole token budget.
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join, posix } from 'path';
+import type { DependencyGraph } from './graph.js';
+
+/** Workspace manifest formats. */
+export type WorkspaceKind = 'npm' | 'pnpm' | 'cargo' | 'go';
+
+/** A package of a workspace. */
+export interface WorkspacePackage {
+  /** Package name from its manifest (npm name, crate name or Go module path). */
+  name: string;
+  /** Directory relative to the project root ('' for the root itself). */
+  path: string;
+  /** Names of other workspace packages its manifest depends on. */
+  dependencies: string[];
+}
+
+/** A detected workspace. */
+export interface Workspace {
+  kind: WorkspaceKind;
+  /** Packages sorted by path. */
+  packages: WorkspacePackage[];
+}
+
+/** A dependency between two workspace packages. */
+export interface PackageEdge {
+  /** Depending package name. */
+  from: string;
+  /** Package depended on. */
+  to: string;
+  /** Total weight of file references from `from` into `to`. */
+  weight: number;
+  /** Whether `from`'s manifest declares the dependency. */
+  declared: boolean;
+}
+
+/** Manifest file of a package, per workspace kind. */
+const PACKAGE_MANIFESTS: Record<WorkspaceKind, string> = {
+  npm: 'package.json',
+  pnpm: 'package.json',
+  cargo: 'Cargo.toml',
+  go: 'go.mod',
+};
+
+/** Directories never searched when expanding member globs. */
+const SKIP_DIRS = new Set(['node_modules', 'target', 'dist', 'build', 'vendor']);
+
+/** Maximum directory depth matched by `**`. */
+const MAX_GLOB_DEPTH = 5;
+
+function readText(path: string): string | null {
+  try {
+    return readFileSync(path, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+function readJson(path: string): Record<string, unknown> | null {
+  const text = readText(path);
+  if (text === null) return null;
+  try {
+    return JSON.parse(text) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+}
+
+function subdirectories(dir: string): string[] {
+  try {
+    return readdirSync(dir, { withFileTypes: true })
+      .filter((e) => e.isDirectory() && !e.name.startsWith('.') && !SKIP_DIRS.has(e.name))
+      .map((e) => e.name);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Expand one member pattern (`packages/*`, `crates/**`, `apps/web`) to
+ * directories relative to the root.
+ */
+function expandPattern(root: string, pattern: string): string[] {
+  const segments = posix
+    .normalize(pattern.replace(/\\/g, '/'))
+    .split('/')
+    .filter((s) => s !== '' && s !== '.');
+  const results: string[] = [];
+
+  function visit(dir: string, index: number, depth: number): void {
+    if (index === segments.length) {
+      results.push(dir);
+      return;
+    }
+    const segment = segments[index];
+    const absolute = join(root, dir);
+    if (segment === '**') {
+      visit(dir, index + 1, depth);
+      if (depth >= MAX_GLOB_DEPTH) return;
+      for (const name of subdirectories(absolute)) {
+        visit(posix.join(dir, name), index, depth + 1);
+      }
+    } else if (segment.includes('*')) {
+      const regex = new RegExp(
+        '^' + segment.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*') + '$',
+      );
+      for (const name of subdirectories(absolute)) {
+        if (regex.test(name)) visit(posix.join(dir, name), index + 1, depth);
+      }
+    } else if (existsSync(join(absolute, segment))) {
+      visit(posix.join(dir, segment), index + 1, depth);
+    }
+  }
+
+  visit('', 0, 0);
+  return results;
+}
+
+/**
+ * Expand member patterns to package directories containing a manifest.
+ * Patterns starting with `!` exclude directories.
+ */
+function expandMembers(root: string, patterns: string[], manifest: string): string[] {
+  const excluded = new Set(
+    patterns.filter((p) => p.startsWith('!')).flatMap((p) => expandPattern(root, p.slice(1))),
+  );
+  const dirs = new Set<string>();
+  for (const pattern of patterns) {
+    if (pattern.startsWith('!')) continue;
+    for (const dir of expandPattern(root, pattern)) {
+      if (!excluded.has(dir) && existsSync(join(root, dir, manifest))) dirs.add(dir);
+    }
+  }
+  return [...dirs].sort();
+}
+
+/**
+ * Members listed under `packages:` in pnpm-workspace.yaml.
+ */
+export function parsePnpmWorkspace(yaml: string): string[] {
+  const members: string[] = [];
+  let inPackages = false;
+  for (const line of yaml.split('\n')) {
+    const content = line.replace(/\s+#.*$/, '');
+    if (!content.trim() || content.trim().startsWith('#')) continue;
+    if (/^\S/.test(content)) {
+      inPackages = /^packages\s*:/.test(content);
+      continue;
+    }
+    const item = inPackages ? content.match(/^\s*-\s*(.+?)\s*$/) : null;
+    if (item) members.push(item[1].replace(/^['"]|['"]$/g, ''));
+  }
+  return members;
+}
+
+/**
+ * Lines of a TOML table, e.g. `[workspace]`. Returns null if absent.
+ */
+function tomlTable(toml: string, table: string): string | null {
+  const lines = toml.split('\n');
+  const start = lines.findIndex((l) => l.trim() === `[${table}]`);
+  if (start === -1) return null;
+  const end = lines.findIndex((l, i) => i > start && /^\s*\[/.test(l));
+  return lines.slice(start + 1, end === -1 ? undefined : end).join('\n');
+}
+
+/**
+ * Quoted strings of a TOML array value, e.g. `members = ["a", "b/*"]`.
+ */
+function tomlStringArray(table: string, key: string): string[] {
+  const match = table.match(new RegExp(`^\\s*${key}\\s*=\\s*\\[([\\s\\S]*?)\\]`, 'm'));
+  if (!match) return [];
+  return [...match[1].matchAll(/"([^"]+)"|'([^']+)'/g)].map((m) => m[1] ?? m[2]);
+}
+
+/**
+ * Members of a Cargo `[workspace]` table, including `exclude` as `!` patterns.
+ * Returns null if the manifest has no workspace table.
+ */
+export function parseCargoWorkspace(toml: string): string[] | null {
+  const table = tomlTable(toml, 'workspace');
+  if (table === null) return null;
+  return [
+    ...tomlStringArray(table, 'members'),
+    ...tomlStringArray(table, 'exclude').map((p) => `!${p}`),
+  ];
+}
+
+/**
+ * Directories listed by `use` directives in go.work.
+ */
+export function parseGoWork(goWork: string): string[] {
+  const dirs: string[] = [];
+  const text = goWork.replace(/\/\/.*$/gm, '');
+  for (const block of text.matchAll(/^\s*use\s*\(([\s\S]*?)\)/gm)) {
+    dirs.push(...block[1].split(/\s+/).filter(Boolean));
+  }
+  for (const single of text.matchAll(/^\s*use\s+([^\s(]+)\s*$/gm)) {
+    dirs.push(single[1]);
+  }
+  return dirs.map((d) => d.replace(/^"|"$/g, ''));
+}
+
+/**
+ * Crate name and dependency names from a Cargo.toml.
+ */
+function readCargoManifest(toml: string): { name: string | null; dependencies: string[] } {
+  const name = tomlTable(toml, 'package')?.match(/^\s*name\s*=\s*"([^"]+)"/m)?.[1] ?? null;
+  const dependencies = new Set<string>();
+  let section = '';
+  for (const line of toml.split('\n')) {
+    const header = line.match(/^\s*\[([^\]]+)\]/);
+    if (header) {
+      section = header[1].trim();
+      // [dependencies.foo] tables
+      const table = section.match(/^(?:.*\.)?(?:dev-|build-)?dependencies\.([\w-]+)$/);
+      if (table) dependencies.add(table[1]);
+      continue;
+    }
+    if (/^(?:.*\.)?(?:dev-|build-)?dependencies$/.test(section)) {
+      const key = line.match(/^\s*([\w-]+)\s*[.=]/);
+      if (key) dependencies.add(key[1]);
+    }
+  }
+  return { name, dependencies: [...dependencies] };
+}
+
+/**
+ * Module path and required modules from a go.mod.
+ */
+function readGoModule(goMod: string): { name: string | null; dependencies: string[] } {
+  const text = goMod.replace(/\/\/.*$/gm, '');
+  const name = text.match(/^\s*module\s+(\S+)/m)?.[1] ?? null;
+  const dependencies: string[] = [];
+  for (const block of text.matchAll(/^\s*require\s*\(([\s\S]*?)\)/gm)) {
+    for (const line of block[1].split('\n')) {
+      const module = line.trim().split(/\s+/)[0];
+      if (module) dependencies.push(module);
+    }
+  }
+  for (const single of text.matchAll(/^\s*require\s+([^\s(]+)\s+\S+/gm)) {
+    dependencies.push(single[1]);
+  }
+  return { name, dependencies };
+}
+
+/**
+ * Name and dependency names from a package's manifest.
+ */
+function readPackageManifest(
+  root: string,
+  dir: string,
+  kind: WorkspaceKind,
+): { name: string; dependencies: string[] } {
+  const manifestPath = join(root, dir, PACKAGE_MANIFESTS[kind]);
+  const fallbackName = dir === '' ? posix.basename(root) : dir;
+
+  if (kind === 'cargo' || kind === 'go') {
+    const text = readText(manifestPath) ?? '';
+    const manifest = kind === 'cargo' ? readCargoManifest(text) : readGoModule(text);
+    return { name: manifest.name ?? fallbackName, dependencies: manifest.dependencies };
+  }
+
+  const json = readJson(manifestPath) ?? {};
+  const dependencies = new Set<string>();
+  for (const field of [
+    'dependencies',
+    'devDependencies',
+    'peerDependencies',
+    'optionalDependencies',
+  ]) {
+    const deps = json[field];
+    if (deps && typeof deps === 'object') {
+      for (const dep of Object.keys(deps)) dependencies.add(dep);
+    }
+  }
+  return {
+    name: typeof json.name === 'string' ? json.name : fallbackName,
+    dependencies: [...dependencies],
+  };
+}
+
+/**
+ * Find the workspace member patterns of a project root.
+ */
+function findMemberPatterns(root: string): { kind: WorkspaceKind; patterns: string[] } | null {
+  const pnpm = readText(join(root, 'pnpm-workspace.yaml'));
+  if (pnpm !== null) return { kind: 'pnpm', patterns: parsePnpmWorkspace(pnpm) };
+
+  const workspaces = readJson(join(root, 'package.json'))?.workspaces;
+  const npmPatterns = Array.isArray(workspaces)
+    ? workspaces
+    : (workspaces as { packages?: unknown } | undefined)?.packages;
+  if (Array.isArray(npmPatterns)) {
+    return { kind: 'npm', patterns: npmPatterns.filter((p) => typeof p === 'string') };
+  }
+
+  const cargo = readText(join(root, 'Cargo.toml'));
+  const cargoPatterns = cargo !== null ? parseCargoWorkspace(cargo) : null;
+  if (cargoPatterns) return { kind: 'cargo', patterns: cargoPatterns };
+
+  const goWork = readText(join(root, 'go.work'));
+  if (goWork !== null) return { kind: 'go', patterns: parseGoWork(goWork) };
+
+  return null;
+}
+
+/**
+ * Detect the workspace of a project root.
+ *
+ * Manifests are checked in order: pnpm-workspace.yaml, package.json
+ * `workspaces`, Cargo.toml `[workspace]`, go.work. Returns null if the root
+ * has none of them or they resolve to fewer than two packages.
+ *
+ * @param projectRoot - Absolute path to the project root
+ */
+export function detectWorkspace(projectRoot: string): Workspace | null {
+  const members = findMemberPatterns(projectRoot);
+  if (!members) return null;
+
+  const dirs = expandMembers(projectRoot, members.patterns, PACKAGE_MANIFESTS[members.kind]);
+  const manifests = dirs.map((dir) => ({
+    dir,
+    ...readPackageManifest(projectRoot, dir, members.kind),
+  }));
+  if (manifests.length < 2) return null;
+
+  const names = new Set(manifests.map((m) => m.name));
+  const packages = manifests.map(({ dir, name, dependencies }) => ({
+    name,
+    path: dir,
+    dependencies: dependencies.filter((dep) => dep !== name && names.has(dep)).sort(),
+  }));
+
+  return { kind: members.kind, packages };
+}
+
+/**
+ * Find the package containing a file: the one with the longest matching path.
+ */
+export function packageForFile(
+  workspace: Workspace,
+  relativePath: string,
+): WorkspacePackage | undefined {
+  const path = relativePath.replace(/\\/g, '/');
+  let best: WorkspacePackage | undefined;
+  for (const pkg of workspace.packages) {
+    const contains = pkg.path === '' || path.startsWith(`${pkg.path}/`);
+    if (contains && (!best || pkg.path.length > best.path.length)) best = pkg;
+  }
+  return best;
+}
+
+/**
+ * Find a package by name or by path relative to the project root.
+ */
+export function findPackage(
+  workspace: Workspace,
+  nameOrPath: string,
+): WorkspacePackage | undefined {
+  const path = nameOrPath.replace(/\\/g, '/').replace(/^\.\/|\/$/g, '');
+  return workspace.packages.find((pkg) => pkg.name === nameOrPath || pkg.path === path);
+}
+
+/**
+ * Package-level dependency edges: cross-package file references rolled up
+ * per package pair, plus dependencies declared in manifests.
+ *
+ * @returns Edges sorted by weight (descending), then by names
+ */
+export function buildPackageEdges(workspace: Workspace, graph: DependencyGraph): PackageEdge[] {
+  const edges = new Map<string, PackageEdge>();
+  const edge = (from: string, to: string): PackageEdge => {
+    const key = `${from}\u0000${to}`;
+    let existing = edges.get(key);
+    if (!existing) {
+      existing = { from, to, weight: 0, declared: false };
+      edges.set(key, existing);
+    }
+    return existing;
+  };
+
+  for (const pkg of workspace.packages) {
+    for (const dep of pkg.dependencies) edge(pkg.name, dep).declared = true;
+  }
+  for (const fileEdge of graph.edges) {
+    const from = packageForFile(workspace, fileEdge.from);
+    const to = packageForFile(workspace, fileEdge.to);
+    if (!from || !to || from === to) continue;
+    edge(from.name, to.name).weight += fileEdge.weight;
+  }
+
+  return [...edges.values()].sort(
+    (a, b) => b.weight - a.weight || a.from.localeCompare(b.from) || a.to.localeCompare(b.to),
+  );
+}
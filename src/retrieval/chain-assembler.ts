@@ -5,7 +5,8 @@
  * Used by the `recall` and `predict` MCP tools.
  *
  * Pipeline:
- * 1. Run searchContext() to get seeds and query embedding
+ * 1. Run searchContext() to get seeds and query embedding; when the query
+ *    names recorded commits, the chunks that made them become the seeds
  * 2. Walk chains from seeds (backward for recall, forward for predict)
  * 3. Select best chain by median per-node score
  * 4. If no chain qualifies (all seeds orphaned), fall back to search results
@@ -16,6 +17,10 @@ import { searchContext, getEmbedder, type SearchRequest } from './search-assembl
 import { walkChains, selectBestChain, type Chain } from './chain-walker.js';
 import { formatChainChunk } from './formatting.js';
 import { loadConfig, toRuntimeConfig } from '../config/loader.js';
+import { resolveServingModel } from '../storage/embedding-migration.js';
+import { findCommitsInQuery, formatCommitSummary } from './commit-lookup.js';
+import type { QueryInterpretation } from './query-parser.js';
+import type { ChunkFacets } from '../storage/chunk-facets.js';
 import type { StoredChunk } from '../storage/types.js';
 
 /**
@@ -34,6 +39,10 @@ export interface EpisodicRequest {
   vectorSearchLimit?: number;
   /** Filter results to a specific agent (applies to seed selection only) */
   agentFilter?: string;
+  /** ISO cutoff: restrict seeds and chain walks to chunks/edges before this time */
+  asOf?: string;
+  /** Facet filters (applies to seed selection only) */
+  facets?: ChunkFacets;
 }
 
 /**
@@ -64,7 +73,11 @@ export interface EpisodicResponse {
     chainsAttempted: number;
     chainLengths: number[];
     fallbackReason?: string;
+    /** Abbreviated SHAs of commits named in the query that seeded the walk */
+    commits?: string[];
   };
+  /** Filters parsed from the query and applied to seed search, when any were found */
+  interpretation?: QueryInterpretation;
 }
 
 /**
@@ -97,9 +110,11 @@ async function runEpisodicPipeline(
     maxTokens = 20000,
     vectorSearchLimit,
     agentFilter,
+    asOf,
+    facets,
   } = request;
 
-  // 1. Search for seeds (agent filter applies to seed selection only)
+  // 1. Search for seeds (agent filter and facets apply to seed selection only)
   const searchRequest: SearchRequest = {
     query,
     currentSessionId,
@@ -107,12 +122,28 @@ async function runEpisodicPipeline(
     maxTokens,
     vectorSearchLimit,
     agentFilter,
+    asOf,
+    facets,
   };
 
   const searchResult = await searchContext(searchRequest);
 
+  // Commits named in the query seed the walk from the chunks that made them
+  const projects = projectFilter === undefined ? undefined : [projectFilter].flat();
+  const commits = findCommitsInQuery(query, projects).filter(
+    (c) => !asOf || !c.committedAt || c.committedAt < asOf,
+  );
+  const commitSeedIds = commits.flatMap((c) => c.chunkIds);
+  const seedIds = commitSeedIds.length > 0 ? commitSeedIds : searchResult.seedIds;
+  const commitHeader =
+    commits.length > 0 ? commits.map((c) => formatCommitSummary(c)).join('\n') + '\n\n' : '';
+  const commitDiagnostics =
+    commits.length > 0 ? { commits: commits.map((c) => c.sha.slice(0, 7)) } : {};
+  const { interpretation } = searchResult;
+  const interpretationField = interpretation ? { interpretation } : {};
+
   const searchResultCount = searchResult.chunks.length;
-  const seedCount = searchResult.seedIds.length;
+  const seedCount = seedIds.length;
 
   if (seedCount === 0) {
     const fallbackReason =
@@ -121,8 +152,8 @@ async function runEpisodicPipeline(
         : 'Search found chunks but none suitable as chain seeds';
 
     return {
-      text: searchResult.text,
-      tokenCount: searchResult.tokenCount,
+      text: commitHeader + searchResult.text,
+      tokenCount: searchResult.tokenCount + approximateTokens(commitHeader),
       chunks: searchResult.chunks.map((c) => ({
         id: c.id,
         sessionSlug: c.sessionSlug,
@@ -138,7 +169,9 @@ async function runEpisodicPipeline(
         chainsAttempted: 0,
         chainLengths: [],
         fallbackReason,
+        ...commitDiagnostics,
       },
+      ...interpretationField,
     };
   }
 
@@ -149,7 +182,7 @@ async function runEpisodicPipeline(
   if (queryEmbedding.length === 0) {
     try {
       const runtimeConfig = toRuntimeConfig(loadConfig());
-      const embedder = await getEmbedder(runtimeConfig.embeddingModel);
+      const embedder = await getEmbedder(resolveServingModel(runtimeConfig.embeddingModel));
       const result = await embedder.embed(query, true);
       queryEmbedding = result.embedding;
     } catch {
@@ -161,11 +194,13 @@ async function runEpisodicPipeline(
   }
 
   // Walk chains from seeds
-  const chains = await walkChains(searchResult.seedIds, {
+  const chains = await walkChains(seedIds, {
     direction,
     tokenBudget: maxTokens,
     queryEmbedding,
     agentFilter,
+    // A parsed upper date bound is only kept when earlier than asOf
+    asOf: interpretation?.filters.before ?? asOf,
   });
 
   // 3. Select best chain
@@ -182,8 +217,8 @@ async function runEpisodicPipeline(
     }
 
     return {
-      text: searchResult.text,
-      tokenCount: searchResult.tokenCount,
+      text: commitHeader + searchResult.text,
+      tokenCount: searchResult.tokenCount + approximateTokens(commitHeader),
       chunks: searchResult.chunks.map((c) => ({
         id: c.id,
         sessionSlug: c.sessionSlug,
@@ -199,7 +234,9 @@ async function runEpisodicPipeline(
         chainsAttempted: chains.length,
         chainLengths: chains.map((c) => c.chunkIds.length),
         fallbackReason,
+        ...commitDiagnostics,
       },
+      ...interpretationField,
     };
   }
 
@@ -207,8 +244,8 @@ async function runEpisodicPipeline(
   const formatted = formatChain(bestChain, direction, maxTokens);
 
   return {
-    text: formatted.text,
-    tokenCount: formatted.tokenCount,
+    text: commitHeader + formatted.text,
+    tokenCount: formatted.tokenCount + approximateTokens(commitHeader),
     chunks: formatted.chunks,
     mode: 'chain',
     chainLength: bestChain.chunkIds.length,
@@ -218,7 +255,9 @@ async function runEpisodicPipeline(
       seedCount,
       chainsAttempted: chains.length,
       chainLengths: chains.map((c) => c.chunkIds.length),
+      ...commitDiagnostics,
     },
+    ...interpretationField,
   };
 }
 
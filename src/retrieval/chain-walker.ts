@@ -34,6 +34,12 @@ export interface ChainWalkerOptions {
   maxCandidatesPerSeed?: number;
   /** Max DFS node expansions per seed. Default: 200. */
   maxExpansionsPerSeed?: number;
+  /**
+   * ISO cutoff: only visit chunks that started before this time. Edges are
+   * judged by their endpoints, since edges between earlier chunks may be
+   * created later (e.g. when sessions are linked or re-ingested).
+   */
+  asOf?: string;
 }
 
 /**
@@ -75,6 +81,7 @@ export async function walkChains(seedIds: string[], options: ChainWalkerOptions)
     maxSkippedConsecutive = 5,
     maxCandidatesPerSeed = 10,
     maxExpansionsPerSeed = 200,
+    asOf,
   } = options;
 
   const allCandidates: Chain[] = [];
@@ -90,6 +97,7 @@ export async function walkChains(seedIds: string[], options: ChainWalkerOptions)
       maxExpansionsPerSeed,
       agentFilter,
       maxSkippedConsecutive,
+      asOf,
     );
     allCandidates.push(...seedCandidates);
   }
@@ -113,6 +121,7 @@ async function walkAllPaths(
   maxExpansions: number,
   agentFilter?: string,
   maxSkippedConsecutive: number = 5,
+  asOf?: string,
 ): Promise<Chain[]> {
   const candidates: Chain[] = [];
   const scoreCache = new Map<string, number>();
@@ -120,6 +129,7 @@ async function walkAllPaths(
 
   const seedChunk = getChunkById(seedId);
   if (!seedChunk) return [];
+  if (asOf && seedChunk.startTime >= asOf) return [];
 
   async function scoreMemo(id: string): Promise<number> {
     if (!scoreCache.has(id)) {
@@ -173,6 +183,7 @@ async function walkAllPaths(
       const nextId = direction === 'forward' ? edge.targetChunkId : edge.sourceChunkId;
       const chunk = getChunkById(nextId);
       if (!chunk) continue;
+      if (asOf && chunk.startTime >= asOf) continue;
 
       pathVisited.add(nextId);
 
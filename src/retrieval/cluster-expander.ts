@@ -32,6 +32,9 @@ export const DEFAULT_CLUSTER_EXPANSION: ClusterExpansionConfig = {
  * @param hits - Ranked items from RRF fusion
  * @param config - Expansion parameters
  * @param projectFilter - Optional project filter to restrict siblings
+ * @param agentFilter - Optional agent filter to restrict siblings
+ * @param feedbackWeight - Weight of retrieval feedback applied to sibling scores
+ * @param asOf - Optional ISO cutoff; siblings must start before it
  * @returns Original hits + cluster sibling items (deduplicated)
  */
 export function expandViaClusters(
@@ -40,6 +43,7 @@ export function expandViaClusters(
   projectFilter?: string | string[],
   agentFilter?: string,
   feedbackWeight: number = 0,
+  asOf?: string,
 ): RankedItem[] {
   if (hits.length === 0) return [];
 
@@ -89,6 +93,12 @@ export function expandViaClusters(
           if (agent !== agentFilter) continue;
         }
 
+        // Filter by point-in-time cutoff if needed
+        if (asOf) {
+          const startTime = vectorStore.getChunkTime(siblingId);
+          if (!startTime || startTime >= asOf) continue;
+        }
+
         // Look up this sibling's distance in the cluster for scoring
         const siblingAssignments = getChunkClusterAssignments(siblingId);
         const siblingAssignment = siblingAssignments.find(
@@ -0,0 +1,69 @@
+/**
+ * Commit lookups for retrieval.
+ *
+ * Resolves commit SHAs mentioned in a query (or passed explicitly) to the
+ * commits recorded at ingestion, whose linked chunks seed `recall`/`predict`
+ * chain walks and anchor `reconstruct` — answering "why was commit abc123
+ * made" from the conversation that produced it.
+ */
+
+import { getCommitsByPrefix } from '../storage/commit-store.js';
+import type { StoredCommit } from '../storage/commit-store.js';
+
+/** Hex words long enough to be abbreviated SHAs. */
+const SHA_PATTERN = /\b[0-9a-f]{7,40}\b/gi;
+
+/** Maximum files listed in a commit summary. */
+const MAX_SUMMARY_FILES = 10;
+
+/**
+ * Find recorded commits whose SHAs are mentioned in a query.
+ * Words made only of the letters a–f (e.g. "defaced") are ignored.
+ */
+export function findCommitsInQuery(query: string, projects?: string[]): StoredCommit[] {
+  const commits = new Map<string, StoredCommit>();
+  for (const match of query.matchAll(SHA_PATTERN)) {
+    if (!/\d/.test(match[0])) continue;
+    for (const commit of getCommitsByPrefix(match[0], projects)) {
+      commits.set(commit.sha, commit);
+    }
+  }
+  return [...commits.values()];
+}
+
+/**
+ * Resolve a SHA or SHA prefix to a single commit of a project.
+ * @throws Error if no commit or more than one commit matches.
+ */
+export function resolveCommit(sha: string, project: string): StoredCommit {
+  const matches = getCommitsByPrefix(sha, [project]);
+  if (matches.length === 0) {
+    throw new Error(`Commit not found in project "${project}": ${sha}`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`Commit prefix ${sha} is ambiguous (${matches.length} matches)`);
+  }
+  return matches[0];
+}
+
+/**
+ * Format a commit as a short header: SHA, date, subject and changed files,
+ * optionally followed by its stored patch.
+ */
+export function formatCommitSummary(
+  commit: StoredCommit,
+  options: { includePatch?: boolean } = {},
+): string {
+  const date = commit.committedAt ? ` (${commit.committedAt.slice(0, 10)})` : '';
+  const lines = [`Commit ${commit.sha.slice(0, 7)}${date}: ${commit.subject}`];
+  for (const file of commit.files.slice(0, MAX_SUMMARY_FILES)) {
+    lines.push(`  ${file.path} +${file.insertions} -${file.deletions}`);
+  }
+  if (commit.files.length > MAX_SUMMARY_FILES) {
+    lines.push(`  ...and ${commit.files.length - MAX_SUMMARY_FILES} more files`);
+  }
+  if (options.includePatch && commit.patch) {
+    lines.push('', '```diff', commit.patch, '```');
+  }
+  return lines.join('\n');
+}
@@ -9,6 +9,8 @@
 
 import { searchContext, disposeSearch, type SearchResponse } from './search-assembler.js';
 import { recallContext, predictContext, type EpisodicResponse } from './chain-assembler.js';
+import type { QueryInterpretation } from './query-parser.js';
+import type { ChunkFacets } from '../storage/chunk-facets.js';
 
 // Re-export types from sub-modules
 export type { SearchRequest, SearchResponse } from './search-assembler.js';
@@ -32,6 +34,10 @@ export interface RetrievalRequest {
   vectorSearchLimit?: number;
   /** Filter results to a specific agent */
   agentFilter?: string;
+  /** ISO cutoff: only consider memory from before this time */
+  asOf?: string;
+  /** Facet filters (tools, files, errors, code, team, spawn depth) */
+  facets?: ChunkFacets;
 }
 
 /**
@@ -62,6 +68,8 @@ export interface RetrievalResponse {
     chainLengths: number[];
     fallbackReason?: string;
   };
+  /** Filters parsed from the query and applied, when any were found */
+  interpretation?: QueryInterpretation;
 }
 
 /**
@@ -76,6 +84,8 @@ export async function assembleContext(request: RetrievalRequest): Promise<Retrie
     maxTokens: request.maxTokens,
     vectorSearchLimit: request.vectorSearchLimit,
     agentFilter: request.agentFilter,
+    asOf: request.asOf,
+    facets: request.facets,
   });
 
   return searchResponseToRetrievalResponse(searchResponse);
@@ -95,6 +105,8 @@ export async function recall(
     maxTokens: options.maxTokens,
     vectorSearchLimit: options.vectorSearchLimit,
     agentFilter: options.agentFilter,
+    asOf: options.asOf,
+    facets: options.facets,
   });
 
   return episodicResponseToRetrievalResponse(response);
@@ -114,6 +126,8 @@ export async function predict(
     maxTokens: options.maxTokens,
     vectorSearchLimit: options.vectorSearchLimit,
     agentFilter: options.agentFilter,
+    asOf: options.asOf,
+    facets: options.facets,
   });
 
   return episodicResponseToRetrievalResponse(response);
@@ -135,6 +149,7 @@ function searchResponseToRetrievalResponse(response: SearchResponse): RetrievalR
     chunks: response.chunks,
     totalConsidered: response.totalConsidered,
     durationMs: response.durationMs,
+    ...(response.interpretation ? { interpretation: response.interpretation } : {}),
   };
 }
 
@@ -146,5 +161,6 @@ function episodicResponseToRetrievalResponse(response: EpisodicResponse): Retrie
     totalConsidered: response.chunks.length,
     durationMs: response.durationMs,
     diagnostics: response.diagnostics,
+    ...(response.interpretation ? { interpretation: response.interpretation } : {}),
   };
 }
@@ -0,0 +1,185 @@
+/**
+ * File history: what memory records about a source file.
+ *
+ * Combines chunks linked to the file at ingestion (tool calls on it, mentions
+ * of its path or of symbols it defines) with the sessions that touched it and
+ * the errors they hit involving it. Used by the `file-history` MCP tool and
+ * the briefing's file history section.
+ */
+
+import { basename, isAbsolute, join } from 'path';
+import { getChunksForFile } from '../storage/code-ref-store.js';
+import type { CodeRefSource } from '../storage/code-ref-store.js';
+import { getSessionStatesTouchingFile } from '../storage/session-state-store.js';
+import { resolveCanonicalProjectPath, toProjectRelativePath } from '../utils/project-path.js';
+
+/** Maximum characters of a chunk excerpt. */
+const MAX_EXCERPT_LENGTH = 200;
+
+/** A chunk that concerns the file. */
+export interface FileHistoryChunk {
+  chunkId: string;
+  sessionSlug: string;
+  startTime: string;
+  /** Symbols of the file the chunk mentions. */
+  symbols: string[];
+  sources: CodeRefSource[];
+  /** Line of the chunk mentioning the file or one of its symbols, trimmed. */
+  excerpt: string;
+}
+
+/** An error hit by a session that touched the file and names it. */
+export interface FileHistoryError {
+  sessionId: string;
+  endedAt: string;
+  tool: string;
+  message: string;
+  resolution?: string;
+}
+
+/** A session that touched the file. */
+export interface FileHistorySession {
+  sessionId: string;
+  endedAt: string;
+  summary: string | null;
+}
+
+/** Everything memory records about a file. */
+export interface FileHistory {
+  projectPath: string;
+  /** File path relative to the project root. */
+  filePath: string;
+  /** Linked chunks, newest first. */
+  chunks: FileHistoryChunk[];
+  /** Errors naming the file, newest first. */
+  errors: FileHistoryError[];
+  /** Sessions that touched the file, newest first. */
+  sessions: FileHistorySession[];
+}
+
+export interface FileHistoryOptions {
+  /** Maximum chunks to include. Default: 5. */
+  maxChunks?: number;
+  /** Maximum sessions to scan for errors and summaries. Default: 5. */
+  maxSessions?: number;
+}
+
+/**
+ * Pick the line of a chunk that best shows why it concerns the file.
+ */
+function pickExcerpt(content: string, needles: string[]): string {
+  const lines = content.split('\n').filter((l) => l.trim());
+  const line = lines.find((l) => needles.some((n) => l.includes(n))) ?? lines[0] ?? '';
+  return line.trim().slice(0, MAX_EXCERPT_LENGTH);
+}
+
+/**
+ * Look up what memory records about a file.
+ *
+ * @param projectPath - Project root directory
+ * @param file - File path, absolute or relative to the project root
+ */
+export function getFileHistory(
+  projectPath: string,
+  file: string,
+  options: FileHistoryOptions = {},
+): FileHistory {
+  const maxChunks = options.maxChunks ?? 5;
+  const maxSessions = options.maxSessions ?? 5;
+
+  const canonicalPath = resolveCanonicalProjectPath(projectPath);
+  const filePath = toProjectRelativePath(file, canonicalPath);
+  const fileName = basename(filePath);
+
+  const chunks = getChunksForFile(canonicalPath, filePath, maxChunks).map((c) => ({
+    chunkId: c.chunkId,
+    sessionSlug: c.sessionSlug,
+    startTime: c.startTime,
+    symbols: c.symbols,
+    sources: c.sources,
+    excerpt: pickExcerpt(c.content, [fileName, ...c.symbols]),
+  }));
+
+  // Session states record paths as given to tools, usually absolute
+  const paths = isAbsolute(filePath) ? [filePath] : [filePath, join(canonicalPath, filePath)];
+  const states = getSessionStatesTouchingFile(canonicalPath, paths, maxSessions);
+
+  const errors: FileHistoryError[] = [];
+  for (const state of states) {
+    for (const error of state.errors) {
+      if (!error.message.includes(fileName)) continue;
+      errors.push({ sessionId: state.sessionId, endedAt: state.endedAt, ...error });
+    }
+  }
+
+  return {
+    projectPath: canonicalPath,
+    filePath,
+    chunks,
+    errors,
+    sessions: states.map((s) => ({
+      sessionId: s.sessionId,
+      endedAt: s.endedAt,
+      summary: s.summary,
+    })),
+  };
+}
+
+/**
+ * Whether a file history has anything to show.
+ */
+export function hasFileHistory(history: FileHistory): boolean {
+  return history.chunks.length > 0 || history.sessions.length > 0;
+}
+
+/**
+ * Format the sections of a file history as markdown lines, without a title.
+ */
+export function formatFileHistorySections(history: FileHistory): string[] {
+  const lines: string[] = [];
+
+  if (history.chunks.length > 0) {
+    lines.push(`**Discussed in memory** (${history.chunks.length}):`);
+    history.chunks.forEach((chunk, i) => {
+      const date = chunk.startTime.slice(0, 10);
+      const symbols = chunk.symbols.length > 0 ? ` [${chunk.symbols.join(', ')}]` : '';
+      lines.push(
+        `${i + 1}. [${date}] ${chunk.sessionSlug}: "${chunk.excerpt}"${symbols} (chunk ${chunk.chunkId.slice(0, 8)})`,
+      );
+    });
+  }
+
+  if (history.errors.length > 0) {
+    if (lines.length > 0) lines.push('');
+    lines.push(`**Errors** (${history.errors.length}):`);
+    for (const error of history.errors) {
+      const resolution = error.resolution ? ` → ${error.resolution}` : '';
+      lines.push(
+        `- [${error.endedAt.slice(0, 10)}] \`${error.tool}\`: ${error.message}${resolution}`,
+      );
+    }
+  }
+
+  if (history.sessions.length > 0) {
+    if (lines.length > 0) lines.push('');
+    lines.push(`**Sessions that touched it** (${history.sessions.length}):`);
+    for (const session of history.sessions) {
+      const summary = session.summary ? `: ${session.summary}` : '';
+      lines.push(`- ${session.sessionId.slice(0, 8)} (${session.endedAt.slice(0, 10)})${summary}`);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Format a file history as markdown.
+ */
+export function formatFileHistory(history: FileHistory): string {
+  if (!hasFileHistory(history)) {
+    return `No history recorded for ${history.filePath} in ${history.projectPath}.`;
+  }
+  return [`# File history: ${history.filePath}`, '', ...formatFileHistorySections(history)].join(
+    '\n',
+  );
+}
@@ -38,3 +38,25 @@ export type {
   BriefingRequest,
   BriefingResult,
 } from './session-reconstructor.js';
+
+// Memory diff
+export { computeMemoryDiff, formatMemoryDiff, parseSince } from './memory-diff.js';
+export type { MemoryDiff, DiffSession, DiffError } from './memory-diff.js';
+
+// File history
+export {
+  getFileHistory,
+  formatFileHistory,
+  formatFileHistorySections,
+  hasFileHistory,
+} from './file-history.js';
+export type {
+  FileHistory,
+  FileHistoryChunk,
+  FileHistoryError,
+  FileHistorySession,
+  FileHistoryOptions,
+} from './file-history.js';
+
+// Commit lookup
+export { findCommitsInQuery, resolveCommit, formatCommitSummary } from './commit-lookup.js';
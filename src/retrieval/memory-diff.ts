@@ -0,0 +1,201 @@
+/**
+ * Memory diff: what changed in a project's memory since a point in time.
+ *
+ * Pure SQLite queries over session states, clusters and entities — no
+ * embedding or search. Used by `causantic diff` and the `diff` MCP tool to
+ * catch up on a project after time away.
+ */
+
+import { getSessionsForProject } from '../storage/chunk-store.js';
+import {
+  getSessionStatesByTimeRange,
+  getFilesTouchedBefore,
+} from '../storage/session-state-store.js';
+import { getClusterMembershipChanges } from '../storage/cluster-store.js';
+import type { ClusterMembershipChange } from '../storage/cluster-store.js';
+import { getEntitiesFirstMentionedSince } from '../storage/entity-store.js';
+import type { SessionInfo } from '../storage/chunk-store.js';
+import type { EntityType } from '../utils/entity-extractor.js';
+
+/** A session with activity in the diff window. */
+export interface DiffSession extends SessionInfo {
+  /** Session summary, when one was generated at ingestion */
+  summary: string | null;
+}
+
+/** An error seen in the diff window, deduplicated by tool and message. */
+export interface DiffError {
+  tool: string;
+  message: string;
+  /** First resolution recorded for the error, if any */
+  resolution?: string;
+  /** Number of times the error was recorded */
+  occurrences: number;
+}
+
+/**
+ * Changes to a project's memory between `since` and `until`.
+ */
+export interface MemoryDiff {
+  project: string;
+  since: string;
+  until: string;
+  /** Sessions with chunks in the window, newest first */
+  sessions: DiffSession[];
+  /** Clusters whose project chunks all fall in the window */
+  newClusters: ClusterMembershipChange[];
+  /** Existing clusters that gained project chunks in the window */
+  shiftedClusters: ClusterMembershipChange[];
+  /** Entities first mentioned in the window */
+  newEntities: Array<{ name: string; type: EntityType; mentions: number }>;
+  /** Files touched in the window that no earlier session touched */
+  newFiles: string[];
+  /** Errors with a recorded resolution */
+  resolvedErrors: DiffError[];
+  /** Errors without any recorded resolution */
+  openErrors: DiffError[];
+  /** Outcome labels (git commit, gh pr create, ...) with counts */
+  outcomes: Array<{ outcome: string; count: number }>;
+}
+
+/**
+ * Parse a `since` argument into an ISO timestamp.
+ * @throws Error if the value is not a parseable date.
+ */
+export function parseSince(value: string): string {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid since date: ${value}`);
+  }
+  return date.toISOString();
+}
+
+/**
+ * Compute what changed in a project's memory since a point in time.
+ */
+export function computeMemoryDiff(project: string, since: string): MemoryDiff {
+  const until = new Date().toISOString();
+
+  const states = getSessionStatesByTimeRange(project, since, until);
+  const summaries = new Map(states.map((s) => [s.sessionId, s.summary]));
+  const sessions = getSessionsForProject(project, since).map((s) => ({
+    ...s,
+    summary: summaries.get(s.sessionId) ?? null,
+  }));
+
+  const clusterChanges = getClusterMembershipChanges(project, since);
+
+  const newEntities = getEntitiesFirstMentionedSince(project, since).map((e) => ({
+    name: e.canonicalName,
+    type: e.entityType,
+    mentions: e.mentionCount,
+  }));
+
+  const knownFiles = new Set(getFilesTouchedBefore(project, since));
+  const newFiles = new Set<string>();
+  for (const state of states) {
+    for (const file of state.filesTouched) {
+      if (!knownFiles.has(file)) newFiles.add(file);
+    }
+  }
+
+  const errors = new Map<string, DiffError>();
+  const outcomes = new Map<string, number>();
+  for (const state of states) {
+    for (const error of state.errors) {
+      const key = `${error.tool}\u0000${error.message}`;
+      const existing = errors.get(key);
+      if (existing) {
+        existing.occurrences++;
+        existing.resolution ??= error.resolution;
+      } else {
+        errors.set(key, { ...error, occurrences: 1 });
+      }
+    }
+    for (const outcome of state.outcomes) {
+      outcomes.set(outcome, (outcomes.get(outcome) ?? 0) + 1);
+    }
+  }
+  const allErrors = [...errors.values()];
+
+  return {
+    project,
+    since,
+    until,
+    sessions,
+    newClusters: clusterChanges.filter((c) => c.priorMembers === 0),
+    shiftedClusters: clusterChanges.filter((c) => c.priorMembers > 0),
+    newEntities,
+    newFiles: [...newFiles].sort(),
+    resolvedErrors: allErrors.filter((e) => e.resolution),
+    openErrors: allErrors.filter((e) => !e.resolution),
+    outcomes: [...outcomes.entries()]
+      .map(([outcome, count]) => ({ outcome, count }))
+      .sort((a, b) => b.count - a.count || a.outcome.localeCompare(b.outcome)),
+  };
+}
+
+/** Max items listed per section before collapsing to a count. */
+const MAX_ITEMS_PER_SECTION = 15;
+
+function listSection<T>(title: string, items: T[], format: (item: T) => string): string[] {
+  if (items.length === 0) return [];
+  const lines = [`\n## ${title} (${items.length})\n`];
+  for (const item of items.slice(0, MAX_ITEMS_PER_SECTION)) {
+    lines.push(`- ${format(item)}`);
+  }
+  if (items.length > MAX_ITEMS_PER_SECTION) {
+    lines.push(`- ...and ${items.length - MAX_ITEMS_PER_SECTION} more`);
+  }
+  return lines;
+}
+
+function clusterLabel(c: ClusterMembershipChange): string {
+  return c.name ?? `cluster ${c.clusterId.slice(0, 8)}`;
+}
+
+/**
+ * Format a memory diff as markdown.
+ */
+export function formatMemoryDiff(diff: MemoryDiff): string {
+  const header = `# Memory diff: ${diff.project} since ${diff.since.slice(0, 10)}`;
+
+  const sections = [
+    ...listSection('Sessions', diff.sessions, (s) => {
+      const date = s.firstChunkTime.slice(0, 10);
+      const base = `${s.sessionId.slice(0, 8)} (${date}, ${s.chunkCount} chunks)`;
+      return s.summary ? `${base}: ${s.summary}` : base;
+    }),
+    ...listSection(
+      'New topics',
+      diff.newClusters,
+      (c) => `${clusterLabel(c)} (${c.newMembers} chunks)`,
+    ),
+    ...listSection(
+      'Growing topics',
+      diff.shiftedClusters,
+      (c) => `${clusterLabel(c)} (+${c.newMembers} chunks, ${c.priorMembers} before)`,
+    ),
+    ...listSection(
+      'New entities',
+      diff.newEntities,
+      (e) => `${e.name} [${e.type}] (${e.mentions} mentions)`,
+    ),
+    ...listSection('New files', diff.newFiles, (f) => f),
+    ...listSection(
+      'Resolved errors',
+      diff.resolvedErrors,
+      (e) => `${e.tool}: ${e.message} → ${e.resolution}`,
+    ),
+    ...listSection('Open errors', diff.openErrors, (e) => {
+      const times = e.occurrences > 1 ? ` (×${e.occurrences})` : '';
+      return `${e.tool}: ${e.message}${times}`;
+    }),
+    ...listSection('Outcomes', diff.outcomes, (o) => `${o.outcome} ×${o.count}`),
+  ];
+
+  if (sections.length === 0) {
+    return `${header}\n\nNo changes in memory for "${diff.project}" since ${diff.since}.`;
+  }
+  return `${header}\n${sections.join('\n')}`;
+}
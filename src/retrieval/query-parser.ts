@@ -0,0 +1,430 @@
+/**
+ * Deterministic query understanding for search.
+ *
+ * Agents phrase queries like "what did we do about the migration last Tuesday
+ * in the api project". Searching that whole sentence as BM25/vector text
+ * dilutes it with words that are really filters. The parser extracts:
+ *
+ * - date phrases ("yesterday", "last Tuesday", "3 days ago", "since 2024-03-01",
+ *   "in March") → a start-time range
+ * - project names, when introduced as a project ("in the api project",
+ *   "project api") and matching a known project
+ * - agent names, when introduced as an agent ("by the reviewer agent")
+ * - file paths ("src/db.ts", "auth.py")
+ * - tool names ("WebFetch", "Bash commands", "using Grep")
+ *
+ * Date, project and agent phrases are removed from the search text; file
+ * paths and tool names stay in it, since they also match chunk content.
+ * Dates are interpreted in local time. No I/O: known projects and agents are
+ * passed in.
+ */
+
+/** Filters extracted from a query. Omitted fields were not found. */
+export interface QueryFilters {
+  /** Project slugs named in the query */
+  projects?: string[];
+  /** Agent named in the query */
+  agent?: string;
+  /** ISO lower bound on chunk start time (inclusive) */
+  after?: string;
+  /** ISO upper bound on chunk start time (exclusive) */
+  before?: string;
+  /** File paths named in the query */
+  files?: string[];
+  /** Tool names named in the query */
+  tools?: string[];
+}
+
+/** How a query was interpreted. */
+export interface QueryInterpretation {
+  /** Text searched after removing filter phrases */
+  searchText: string;
+  /** Filters extracted from the query */
+  filters: QueryFilters;
+  /** Query phrases that produced the filters, in query order */
+  phrases: string[];
+}
+
+/** What the parser can match names against. */
+export interface QueryParserContext {
+  /** Known project slugs */
+  projects: string[];
+  /** Known agent ids */
+  agents: string[];
+  /** Reference time for relative dates. Default: now */
+  now?: Date;
+}
+
+/** Claude Code tool names that are distinctive enough to match anywhere. */
+const DISTINCT_TOOLS = ['MultiEdit', 'NotebookEdit', 'WebFetch', 'WebSearch', 'TodoWrite'];
+
+/** Tool names that are also common words; matched only with a tool cue. */
+const COMMON_TOOLS = ['Bash', 'Read', 'Edit', 'Write', 'Grep', 'Glob', 'Task'];
+
+/** File extensions accepted for bare file names (paths with a slash need none). */
+const FILE_EXTENSIONS = new Set([
+  'ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs', 'json', 'md', 'py', 'rb', 'go', 'rs', 'java',
+  'kt', 'swift', 'c', 'h', 'cc', 'cpp', 'hpp', 'cs', 'php', 'sh', 'sql', 'yml', 'yaml',
+  'toml', 'css', 'scss', 'html', 'vue', 'svelte', 'lua', 'ex', 'exs', 'zig', 'dart', 'scala',
+]); // prettier-ignore
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+]; // prettier-ignore
+
+/** A phrase matched in the query. */
+interface Match {
+  start: number;
+  end: number;
+  phrase: string;
+  /** Remove the phrase from the search text */
+  strip: boolean;
+}
+
+interface DateRange {
+  after?: Date;
+  before?: Date;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function addMonths(date: Date, months: number): Date {
+  return new Date(date.getFullYear(), date.getMonth() + months, 1);
+}
+
+/** Monday of the week containing the date. */
+function startOfWeek(date: Date): Date {
+  const day = startOfDay(date);
+  return addDays(day, -((day.getDay() + 6) % 7));
+}
+
+/** Parse YYYY-MM-DD as a local date. */
+function parseIsoDay(value: string): Date | null {
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 ? date : null;
+}
+
+/** Shift a day by a count of units back in time. */
+function unitsAgo(today: Date, count: number, unit: string): Date {
+  if (unit.startsWith('day')) return addDays(today, -count);
+  if (unit.startsWith('week')) return addDays(today, -7 * count);
+  return new Date(today.getFullYear(), today.getMonth() - count, today.getDate());
+}
+
+/**
+ * Date phrase patterns, tried in order. Each returns the range for a match.
+ */
+const DATE_PATTERNS: Array<{
+  pattern: RegExp;
+  range: (m: RegExpExecArray, now: Date) => DateRange | null;
+}> = [
+  {
+    pattern: /\b(?:on\s+|since\s+|after\s+|before\s+|until\s+)?(\d{4}-\d{2}-\d{2})\b/i,
+    range: (m) => {
+      const day = parseIsoDay(m[1]);
+      if (!day) return null;
+      const cue = m[0]
+        .slice(0, m[0].length - m[1].length)
+        .trim()
+        .toLowerCase();
+      if (cue === 'since' || cue === 'after') return { after: day };
+      if (cue === 'before' || cue === 'until') return { before: day };
+      return { after: day, before: addDays(day, 1) };
+    },
+  },
+  {
+    pattern: /\btoday\b/i,
+    range: (_m, now) => ({ after: startOfDay(now), before: addDays(startOfDay(now), 1) }),
+  },
+  {
+    pattern: /\byesterday\b/i,
+    range: (_m, now) => ({ after: addDays(startOfDay(now), -1), before: startOfDay(now) }),
+  },
+  {
+    pattern:
+      /\b(?:(?:in|over|during)\s+)?(?:the\s+)?(?:last|past)\s+(\d+)\s+(days?|weeks?|months?)\b/i,
+    range: (m, now) => ({ after: unitsAgo(startOfDay(now), Number(m[1]), m[2].toLowerCase()) }),
+  },
+  {
+    pattern: /\b(\d+)\s+(days?|weeks?|months?)\s+ago\b/i,
+    range: (m, now) => {
+      const unit = m[2].toLowerCase();
+      const after = unitsAgo(startOfDay(now), Number(m[1]), unit);
+      return { after, before: unitsAgo(after, -1, unit) };
+    },
+  },
+  {
+    pattern: /\b(?:(?:in|over|during)\s+)?the\s+past\s+(week|month)\b/i,
+    range: (m, now) => ({ after: unitsAgo(startOfDay(now), 1, m[1].toLowerCase()) }),
+  },
+  {
+    pattern: /\b(?:(?:earlier\s+)?this|last)\s+(week|month)\b/i,
+    range: (m, now) => {
+      const isWeek = m[1].toLowerCase() === 'week';
+      const current = isWeek ? startOfWeek(now) : addMonths(now, 0);
+      if (!/^last/i.test(m[0])) return { after: current };
+      return { after: isWeek ? addDays(current, -7) : addMonths(now, -1), before: current };
+    },
+  },
+  {
+    pattern: new RegExp(`\\b(?:last|on|this\\s+past)\\s+(${WEEKDAYS.join('|')})\\b`, 'i'),
+    range: (m, now) => {
+      const today = startOfDay(now);
+      const target = WEEKDAYS.indexOf(m[1].toLowerCase());
+      // "on Tuesday" said on a Tuesday means today; "last Tuesday" a week ago
+      const back = (today.getDay() - target + 7) % 7 || (/^on\s/i.test(m[0]) ? 0 : 7);
+      const day = addDays(today, -back);
+      return { after: day, before: addDays(day, 1) };
+    },
+  },
+  {
+    // Capitalized month names only, so "may" as a verb isn't a date
+    pattern: new RegExp(`\\b(?:in|during)\\s+(${MONTHS.join('|')})(?:\\s+(\\d{4}))?\\b`),
+    range: (m, now) => {
+      const month = MONTHS.indexOf(m[1]);
+      const year = m[2]
+        ? Number(m[2])
+        : month <= now.getMonth()
+          ? now.getFullYear()
+          : now.getFullYear() - 1;
+      return { after: new Date(year, month, 1), before: new Date(year, month + 1, 1) };
+    },
+  },
+];
+
+/**
+ * Find the first date phrase in the query.
+ */
+function matchDate(query: string, now: Date): { match: Match; range: DateRange } | null {
+  let best: { match: Match; range: DateRange } | null = null;
+  for (const { pattern, range } of DATE_PATTERNS) {
+    const m = pattern.exec(query);
+    if (!m || (best && m.index >= best.match.start)) continue;
+    const parsed = range(m, now);
+    if (!parsed) continue;
+    best = {
+      match: { start: m.index, end: m.index + m[0].length, phrase: m[0], strip: true },
+      range: parsed,
+    };
+  }
+  return best;
+}
+
+/**
+ * Find names introduced by cue words, e.g. "in the api project" or "project api".
+ */
+function matchNames(
+  query: string,
+  names: string[],
+  nouns: string,
+  prepositions: string,
+): Array<{ match: Match; name: string }> {
+  if (names.length === 0) return [];
+  const byLower = new Map(names.map((n) => [n.toLowerCase(), n]));
+  const alternatives = [...names]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|');
+  const pattern = new RegExp(
+    `(?:\\b(?:${prepositions})\\s+(?:the\\s+)?(${alternatives})\\s+(?:${nouns})\\b)|` +
+      `(?:\\b(?:${nouns})\\s+(${alternatives})(?![\\w.-]))`,
+    'gi',
+  );
+
+  const found: Array<{ match: Match; name: string }> = [];
+  for (const m of query.matchAll(pattern)) {
+    const name = byLower.get((m[1] ?? m[2]).toLowerCase());
+    if (!name) continue;
+    found.push({
+      match: { start: m.index, end: m.index + m[0].length, phrase: m[0], strip: true },
+      name,
+    });
+  }
+  return found;
+}
+
+/**
+ * Find file paths: tokens with a slash and an extension, or bare names with a
+ * known source extension.
+ */
+function matchFiles(query: string): Array<{ match: Match; path: string }> {
+  const found: Array<{ match: Match; path: string }> = [];
+  const pattern =
+    /(?<![\w/.-])((?:\.{0,2}\/)?(?:[\w@.-]+\/)*[\w@-][\w@.-]*\.([A-Za-z][\w]{0,5}))(?![\w/])/g;
+  for (const m of query.matchAll(pattern)) {
+    const path = m[1].replace(/^\.\//, '');
+    const extension = m[2].toLowerCase();
+    if (!path.includes('/') && !FILE_EXTENSIONS.has(extension)) continue;
+    if (/^https?:/i.test(query.slice(Math.max(0, m.index - 8), m.index + 1))) continue;
+    found.push({
+      match: { start: m.index, end: m.index + m[0].length, phrase: m[0], strip: false },
+      path,
+    });
+  }
+  return found;
+}
+
+/**
+ * Find tool names: distinctive names anywhere, common-word names only next to
+ * a cue ("Bash tool", "Grep calls", "using Read").
+ */
+function matchTools(query: string): Array<{ match: Match; tool: string }> {
+  const found: Array<{ match: Match; tool: string }> = [];
+  const distinct = new RegExp(`\\b(${DISTINCT_TOOLS.join('|')})\\b`, 'g');
+  const common = new RegExp(
+    `\\b(?:(?:using|used|via|with|ran|run|running|the)\\s+(${COMMON_TOOLS.join('|')})\\s+(?:tool|command|call)s?\\b|` +
+      `(?:using|used|via|ran|run|running)\\s+(${COMMON_TOOLS.join('|')})\\b|` +
+      `(${COMMON_TOOLS.join('|')})\\s+(?:tool|command|call)s?\\b)`,
+    'g',
+  );
+  for (const pattern of [distinct, common]) {
+    for (const m of query.matchAll(pattern)) {
+      const tool = m[1] ?? m[2] ?? m[3];
+      found.push({
+        match: { start: m.index, end: m.index + m[0].length, phrase: m[0], strip: false },
+        tool,
+      });
+    }
+  }
+  return found;
+}
+
+/**
+ * Remove stripped phrases from the query and tidy what is left.
+ */
+function stripPhrases(query: string, matches: Match[]): string {
+  let text = query;
+  for (const match of [...matches].filter((m) => m.strip).sort((a, b) => b.start - a.start)) {
+    text = text.slice(0, match.start) + ' ' + text.slice(match.end);
+  }
+  return text
+    .replace(/\s+([?.!,;:])/g, '$1')
+    .replace(/\s{2,}/g, ' ')
+    .replace(/^[\s,;:]+|[\s,;:]+$/g, '')
+    .replace(/\s+(?:in|on|from|for|during|by|of|at)\s*([?.!]?)$/i, '$1')
+    .trim();
+}
+
+function unique<T>(values: T[]): T[] {
+  return [...new Set(values)];
+}
+
+/**
+ * Parse a natural-language query into search text and structured filters.
+ *
+ * @returns The interpretation; `filters` is empty and `searchText` equals the
+ *   trimmed query when nothing was recognised
+ */
+export function parseQuery(query: string, context: QueryParserContext): QueryInterpretation {
+  const now = context.now ?? new Date();
+  // Each phrase with the filter it sets, applied only if the phrase is kept
+  const candidates: Array<{ match: Match; apply: (filters: QueryFilters) => void }> = [];
+
+  const date = matchDate(query, now);
+  if (date) {
+    candidates.push({
+      match: date.match,
+      apply: (filters) => {
+        if (date.range.after) filters.after = date.range.after.toISOString();
+        if (date.range.before) filters.before = date.range.before.toISOString();
+      },
+    });
+  }
+
+  const projects = matchNames(
+    query,
+    context.projects,
+    'project|repo|repository|codebase',
+    'in|for|from|on|within',
+  );
+  for (const project of projects) {
+    candidates.push({
+      match: project.match,
+      apply: (filters) => {
+        filters.projects = unique([...(filters.projects ?? []), project.name]);
+      },
+    });
+  }
+
+  const agents = matchNames(query, context.agents, 'agent|subagent', 'by|from|for|of');
+  if (agents.length > 0) {
+    candidates.push({
+      match: agents[0].match,
+      apply: (filters) => {
+        filters.agent = agents[0].name;
+      },
+    });
+  }
+
+  const files = matchFiles(query);
+  for (const file of files) {
+    candidates.push({
+      match: file.match,
+      apply: (filters) => {
+        filters.files = unique([...(filters.files ?? []), file.path]);
+      },
+    });
+  }
+
+  const tools = matchTools(query).filter(
+    (t) => !files.some((f) => t.match.start < f.match.end && f.match.start < t.match.end),
+  );
+  for (const tool of tools) {
+    candidates.push({
+      match: tool.match,
+      apply: (filters) => {
+        filters.tools = unique([...(filters.tools ?? []), tool.tool]);
+      },
+    });
+  }
+
+  // Overlapping phrases (e.g. a date inside a project phrase) keep the earlier match
+  const kept: Match[] = [];
+  const filters: QueryFilters = {};
+  for (const { match, apply } of [...candidates].sort((a, b) => a.match.start - b.match.start)) {
+    if (kept.some((k) => match.start < k.end && k.start < match.end && k.strip && match.strip)) {
+      continue;
+    }
+    kept.push(match);
+    apply(filters);
+  }
+
+  const searchText = stripPhrases(query, kept) || query.trim();
+  return { searchText, filters, phrases: kept.map((m) => m.phrase.trim()) };
+}
+
+/**
+ * Whether an interpretation extracted any filter.
+ */
+export function hasFilters(interpretation: QueryInterpretation): boolean {
+  return Object.keys(interpretation.filters).length > 0;
+}
+
+/**
+ * One-line rendering of an interpretation for tool output.
+ */
+export function formatInterpretation(interpretation: QueryInterpretation): string {
+  const { filters } = interpretation;
+  const parts: string[] = [];
+  if (filters.projects) parts.push(`project=${filters.projects.join(',')}`);
+  if (filters.agent) parts.push(`agent=${filters.agent}`);
+  if (filters.after || filters.before) {
+    parts.push(`time=${filters.after ?? '…'} to ${filters.before ?? 'now'}`);
+  }
+  if (filters.files) parts.push(`files=${filters.files.join(',')}`);
+  if (filters.tools) parts.push(`tools=${filters.tools.join(',')}`);
+  return `[Query interpreted: ${parts.join('; ')}; searched for "${interpretation.searchText}"]`;
+}
@@ -0,0 +1,173 @@
+/**
+ * Cross-encoder reranking of fused search candidates.
+ *
+ * Every earlier stage scores the query and a chunk separately (embeddings,
+ * BM25). This stage reads them together: the top-N fused candidates are
+ * scored by a local cross-encoder and reordered by its relevance logits.
+ *
+ * Candidates are scored in small batches, in fused order, until the latency
+ * budget runs out; only the scored prefix is reordered. Reordered items take
+ * over the prefix's original scores (highest score to the most relevant), so
+ * downstream boosts and normalization see the same score distribution.
+ *
+ * Failures (model download, inference) are logged and leave the fused order
+ * unchanged.
+ */
+
+import { CrossEncoder } from '../models/cross-encoder.js';
+import { createLogger } from '../utils/logger.js';
+import type { RankedItem } from './rrf.js';
+
+const log = createLogger('reranker');
+
+export interface RerankerConfig {
+  /** Enable cross-encoder reranking. Default: false */
+  enabled: boolean;
+  /** Hugging Face id of the ONNX cross-encoder. */
+  model: string;
+  /** Fused candidates to rerank. Default: 30 */
+  topN: number;
+  /** Stop scoring further batches once this many ms have elapsed. Model loading is not counted. Default: 500 */
+  latencyBudgetMs: number;
+}
+
+/** Outcome of a rerank pass, for diagnostics and benchmarks. */
+export interface RerankStats {
+  /** Cross-encoder model id */
+  model: string;
+  /** Candidates eligible for reranking (min of topN and candidate count) */
+  candidates: number;
+  /** Candidates actually scored before the latency budget ran out */
+  scored: number;
+  /** Scoring time in milliseconds */
+  durationMs: number;
+  /** True when the latency budget stopped scoring early */
+  budgetExhausted: boolean;
+}
+
+/** Pairs scored per inference call. Attention memory scales O(batch * seq_len²). */
+const BATCH_SIZE = 8;
+
+/** Passage characters sent to the model (~512 tokens). */
+const MAX_PASSAGE_CHARS = 512 * 4;
+
+let sharedEncoder: CrossEncoder | null = null;
+let sharedEncoderModelId: string | null = null;
+/** Model that failed to load; not retried until the configured model changes. */
+let failedModelId: string | null = null;
+
+/**
+ * Get or load the shared cross-encoder for a model.
+ */
+async function getCrossEncoder(modelId: string): Promise<CrossEncoder> {
+  if (!sharedEncoder || sharedEncoderModelId !== modelId) {
+    if (sharedEncoder) {
+      await sharedEncoder.dispose();
+    }
+    sharedEncoder = new CrossEncoder();
+    sharedEncoderModelId = null;
+    await sharedEncoder.load(modelId);
+    sharedEncoderModelId = modelId;
+  }
+  return sharedEncoder;
+}
+
+/**
+ * Rerank the top candidates with a cross-encoder.
+ *
+ * @param query - Search query text
+ * @param candidates - Fused candidates, best first
+ * @param config - Reranker configuration
+ * @param getContent - Chunk text by id; candidates without content sink to the end of the reranked prefix
+ * @returns Reordered candidates and stats, or the input unchanged (stats null) when
+ *   disabled, there is nothing to reorder, or the model fails
+ */
+export async function rerankCandidates(
+  query: string,
+  candidates: RankedItem[],
+  config: RerankerConfig,
+  getContent: (chunkId: string) => string | undefined,
+): Promise<{ items: RankedItem[]; stats: RerankStats | null }> {
+  const head = candidates.slice(0, config.topN);
+  if (!config.enabled || head.length < 2 || failedModelId === config.model) {
+    return { items: candidates, stats: null };
+  }
+
+  let encoder: CrossEncoder;
+  try {
+    encoder = await getCrossEncoder(config.model);
+  } catch (error) {
+    failedModelId = config.model;
+    log.warn('Cross-encoder failed to load, reranking disabled', {
+      model: config.model,
+      error: (error as Error).message,
+    });
+    return { items: candidates, stats: null };
+  }
+
+  const start = Date.now();
+  const ids = [...new Set(head.map((item) => item.chunkId))];
+  const relevance = new Map<string, number>();
+  let budgetExhausted = false;
+
+  try {
+    for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+      if (i > 0 && Date.now() - start >= config.latencyBudgetMs) {
+        budgetExhausted = true;
+        break;
+      }
+      const batch = ids.slice(i, i + BATCH_SIZE);
+      const passages = batch.map((id) => getContent(id)?.slice(0, MAX_PASSAGE_CHARS));
+      const scorable = batch.filter((_, j) => passages[j] !== undefined);
+      const scores = await encoder.score(
+        query,
+        passages.filter((p): p is string => p !== undefined),
+      );
+      for (const id of batch) relevance.set(id, -Infinity);
+      scorable.forEach((id, j) => relevance.set(id, scores[j]));
+    }
+  } catch (error) {
+    log.warn('Cross-encoder scoring failed, keeping fused order', {
+      error: (error as Error).message,
+    });
+    return { items: candidates, stats: null };
+  }
+
+  // Reorder the scored prefix of the head, keeping its score distribution
+  let prefixLength = 0;
+  while (prefixLength < head.length && relevance.has(head[prefixLength].chunkId)) {
+    prefixLength++;
+  }
+  const prefix = head.slice(0, prefixLength);
+  const prefixScores = prefix.map((item) => item.score).sort((a, b) => b - a);
+  const reordered = [...prefix]
+    .sort((a, b) => {
+      const ra = relevance.get(a.chunkId)!;
+      const rb = relevance.get(b.chunkId)!;
+      return ra === rb ? 0 : rb > ra ? 1 : -1;
+    })
+    .map((item, i) => ({ ...item, score: prefixScores[i] }));
+
+  const stats: RerankStats = {
+    model: config.model,
+    candidates: ids.length,
+    scored: relevance.size,
+    durationMs: Date.now() - start,
+    budgetExhausted,
+  };
+  log.debug('Reranked candidates', { ...stats });
+
+  return { items: [...reordered, ...candidates.slice(prefixLength)], stats };
+}
+
+/**
+ * Dispose the shared cross-encoder.
+ */
+export async function disposeReranker(): Promise<void> {
+  if (sharedEncoder) {
+    await sharedEncoder.dispose();
+    sharedEncoder = null;
+    sharedEncoderModelId = null;
+  }
+  failedModelId = null;
+}
@@ -1,14 +1,17 @@
 /**
  * Pure search pipeline for semantic discovery.
  *
- * Pipeline: embed → [vector, keyword] → RRF → cluster expand → dedupe → recency → budget
+ * Pipeline: parse query → facets → embed → [vector, keyword] → RRF → cluster expand →
+ * [cross-encoder rerank] → dedupe → recency → budget
  *
  * No graph traversal. Used for the `search` MCP tool and as fallback for episodic recall
  * when no qualifying chain is found.
  */
 
 import { vectorStore, indexVectorStore } from '../storage/vector-store.js';
-import { getChunkById } from '../storage/chunk-store.js';
+import { resolveServingModel } from '../storage/embedding-migration.js';
+import { getChunkById, getDistinctProjects, getDistinctAgents } from '../storage/chunk-store.js';
+import { hasFacets, queryChunkIdsByFacets, type ChunkFacets } from '../storage/chunk-facets.js';
 import {
   getIndexEntryCount,
   getIndexedChunkCount,
@@ -23,6 +26,13 @@ import { KeywordStore } from '../storage/keyword-store.js';
 import { fuseRRF, type RankedItem } from './rrf.js';
 import { expandViaClusters } from './cluster-expander.js';
 import { reorderWithMMR } from './mmr.js';
+import { rerankCandidates, disposeReranker, type RerankStats } from './reranker.js';
+import {
+  parseQuery,
+  hasFilters,
+  type QueryFilters,
+  type QueryInterpretation,
+} from './query-parser.js';
 import { extractEntities } from '../utils/entity-extractor.js';
 import { findEntitiesByAlias, getChunkIdsForEntity } from '../storage/entity-store.js';
 import { createLogger } from '../utils/logger.js';
@@ -34,6 +44,15 @@ const log = createLogger('search-assembler');
 /** RRF weight for entity-boosted results. */
 const ENTITY_RRF_BOOST = 1.5;
 
+/** Score multiplier for pinned chunks (user-authored notes). */
+const PINNED_BOOST = 1.5;
+
+/** Facet matches up to this count are scored exhaustively instead of via ANN. */
+const FACET_SCAN_MAX_IDS = 2000;
+
+/** ANN over-fetch multiplier when facet matches filter the results afterwards. */
+const FACET_ANN_OVERFETCH = 5;
+
 /**
  * Request for search-based context retrieval.
  */
@@ -52,6 +71,12 @@ export interface SearchRequest {
   skipClusters?: boolean;
   /** Filter results to a specific agent */
   agentFilter?: string;
+  /** ISO cutoff: only consider chunks that started before this time */
+  asOf?: string;
+  /** Parse filters from the query text (when enabled in config). Default: true */
+  parseQuery?: boolean;
+  /** Facet filters (tools, files, errors, code, team, spawn depth) */
+  facets?: ChunkFacets;
 }
 
 /**
@@ -78,6 +103,10 @@ export interface SearchResponse {
   queryEmbedding: number[];
   /** Top seed IDs from RRF (for chain walking) */
   seedIds: string[];
+  /** Cross-encoder rerank stats, when the reranker ran */
+  rerank?: RerankStats;
+  /** Filters parsed from the query and applied, when any were found */
+  interpretation?: QueryInterpretation;
 }
 
 /**
@@ -132,11 +161,145 @@ function filterByAgent<T extends { id: string }>(
   return items.filter((item) => getAgent(item.id) === agentFilter);
 }
 
+/**
+ * Drop ranked items whose chunk started at or after the as-of cutoff.
+ *
+ * Storage-level searches already apply the cutoff; this covers candidates that
+ * arrive via indirection (index entry dereference, entity lookup).
+ */
+function filterByCutoff(items: RankedItem[], asOf: string | undefined): RankedItem[] {
+  if (!asOf) return items;
+  return items.filter((item) => {
+    const chunk = getChunkById(item.chunkId);
+    return !!chunk && chunk.startTime < asOf;
+  });
+}
+
+/**
+ * Parse filter phrases out of the query against known projects and agents.
+ * Returns null when nothing was recognised or parsing fails.
+ */
+function interpretQuery(query: string): QueryInterpretation | null {
+  try {
+    const interpretation = parseQuery(query, {
+      projects: getDistinctProjects().map((p) => p.slug),
+      agents: getDistinctAgents(),
+    });
+    return hasFilters(interpretation) ? interpretation : null;
+  } catch (error) {
+    log.warn('Query parsing failed, searching the full query', {
+      error: (error as Error).message,
+    });
+    return null;
+  }
+}
+
+/**
+ * Drop parsed filters that an explicit request argument overrides, and upper
+ * bounds that haven't been reached yet.
+ */
+function applicableFilters(filters: QueryFilters, request: SearchRequest): QueryFilters {
+  const applicable = { ...filters };
+  if (request.projectFilter !== undefined) delete applicable.projects;
+  if (request.agentFilter !== undefined) delete applicable.agent;
+  if (request.facets?.files !== undefined) delete applicable.files;
+  if (request.facets?.tools !== undefined) delete applicable.tools;
+  if (request.facets?.after !== undefined) delete applicable.after;
+  if (
+    applicable.before &&
+    (applicable.before > new Date().toISOString() ||
+      (request.asOf !== undefined && request.asOf <= applicable.before))
+  ) {
+    delete applicable.before;
+  }
+  return applicable;
+}
+
+/**
+ * Combine requested facets with the parsed lower time bound, files and tools.
+ * Requested facets win.
+ */
+function mergeFacets(requested: ChunkFacets | undefined, filters: QueryFilters): ChunkFacets {
+  return {
+    ...requested,
+    files: requested?.files ?? filters.files,
+    tools: requested?.tools ?? filters.tools,
+    after: requested?.after ?? filters.after,
+  };
+}
+
+/**
+ * Facets active for a search, with the ids of the chunks that match them.
+ *
+ * The ids are resolved once from the indexed facet columns; vector search keeps
+ * only these chunks and keyword search applies the facets in SQL.
+ */
+interface FacetFilter {
+  facets: ChunkFacets;
+  chunkIds: Set<string>;
+}
+
+/**
+ * Vector search scoped by project, agent and cutoff, narrowed to facet matches.
+ *
+ * A small set of facet matches is scored exhaustively. Otherwise the scoped
+ * (ANN-backed) search over-fetches and keeps the results that match.
+ */
+async function searchVectors(
+  queryEmbedding: number[],
+  projectFilter: string | string[] | undefined,
+  agentFilter: string | undefined,
+  asOf: string | undefined,
+  limit: number,
+  facetFilter: FacetFilter | null,
+) {
+  if (facetFilter && facetFilter.chunkIds.size <= FACET_SCAN_MAX_IDS) {
+    return vectorStore.searchWithinIds(queryEmbedding, [...facetFilter.chunkIds], limit);
+  }
+
+  const fetchLimit = facetFilter ? limit * FACET_ANN_OVERFETCH : limit;
+  const results = await (projectFilter
+    ? vectorStore.searchByProject(queryEmbedding, projectFilter, fetchLimit, agentFilter, asOf)
+    : vectorStore.search(queryEmbedding, fetchLimit, asOf));
+  if (!facetFilter) return results;
+
+  const { chunkIds } = facetFilter;
+  return results.filter((r) => chunkIds.has(r.id)).slice(0, limit);
+}
+
+/**
+ * Keyword search scoped by project, agent, cutoff and facets.
+ */
+function searchKeywords(
+  query: string,
+  projectFilter: string | string[] | undefined,
+  agentFilter: string | undefined,
+  asOf: string | undefined,
+  limit: number,
+  facetFilter: FacetFilter | null,
+): Array<{ id: string; score: number }> {
+  const keywordStore = getKeywordStore();
+  return projectFilter
+    ? keywordStore.searchByProject(
+        query,
+        projectFilter,
+        limit,
+        agentFilter,
+        asOf,
+        facetFilter?.facets,
+      )
+    : keywordStore.search(query, limit, asOf, facetFilter?.facets);
+}
+
 /**
  * Extract entity mentions from the query and find matching chunks.
  * Returns ranked items suitable for RRF fusion.
  */
-function getEntityResults(query: string, projectFilter?: string | string[]): RankedItem[] {
+function getEntityResults(
+  query: string,
+  projectFilter?: string | string[],
+  asOf?: string,
+): RankedItem[] {
   const mentions = extractEntities(query);
   if (mentions.length === 0) return [];
 
@@ -153,11 +316,12 @@ function getEntityResults(query: string, projectFilter?: string | string[]): Ran
     }
   }
 
-  return [...chunkIds].map((id, i) => ({
+  const items = [...chunkIds].map((id, i) => ({
     chunkId: id,
     score: 1.0 / (i + 1),
     source: 'entity' as const,
   }));
+  return filterByCutoff(items, asOf);
 }
 
 /**
@@ -168,9 +332,10 @@ function applyEntityBoost(
   query: string,
   projectFilter: string | string[] | undefined,
   rrfK: number,
+  asOf?: string,
 ): RankedItem[] {
   try {
-    const entityItems = getEntityResults(query, projectFilter);
+    const entityItems = getEntityResults(query, projectFilter, asOf);
     if (entityItems.length > 0) {
       return fuseRRF(
         [
@@ -203,23 +368,24 @@ async function keywordPrimarySearch(
   query: string,
   projectFilter: string | string[] | undefined,
   agentFilter: string | undefined,
+  asOf: string | undefined,
   vectorSearchLimit: number,
   config: MemoryConfig,
+  facetFilter: FacetFilter | null = null,
 ): Promise<RetrievalResult | null> {
   const { hybridSearch, embeddingModel } = config;
   let queryEmbedding: number[] = [];
 
   let keywordResults: Array<{ id: string; score: number }> = [];
   try {
-    const keywordStore = getKeywordStore();
-    keywordResults = projectFilter
-      ? keywordStore.searchByProject(
-          query,
-          projectFilter,
-          hybridSearch.keywordSearchLimit,
-          agentFilter,
-        )
-      : keywordStore.search(query, hybridSearch.keywordSearchLimit);
+    keywordResults = searchKeywords(
+      query,
+      projectFilter,
+      agentFilter,
+      asOf,
+      hybridSearch.keywordSearchLimit,
+      facetFilter,
+    );
   } catch (error) {
     log.warn('Keyword search failed', { error: (error as Error).message });
   }
@@ -244,14 +410,14 @@ async function keywordPrimarySearch(
       const queryResult = await embedder.embed(query, true);
       queryEmbedding = queryResult.embedding;
 
-      let vectorResults = await (projectFilter
-        ? vectorStore.searchByProject(
-            queryResult.embedding,
-            projectFilter,
-            vectorSearchLimit,
-            agentFilter,
-          )
-        : vectorStore.search(queryResult.embedding, vectorSearchLimit));
+      let vectorResults = await searchVectors(
+        queryResult.embedding,
+        projectFilter,
+        agentFilter,
+        asOf,
+        vectorSearchLimit,
+        facetFilter,
+      );
 
       vectorResults = filterByAgent(vectorResults, agentFilter, projectFilter, (id) => {
         const chunk = getChunkById(id);
@@ -281,7 +447,7 @@ async function keywordPrimarySearch(
   }
 
   // Entity boost
-  fusedResults = applyEntityBoost(fusedResults, query, projectFilter, hybridSearch.rrfK);
+  fusedResults = applyEntityBoost(fusedResults, query, projectFilter, hybridSearch.rrfK, asOf);
 
   if (fusedResults.length === 0) {
     return null;
@@ -300,6 +466,7 @@ async function indexBasedSearch(
   query: string,
   projectFilter: string | string[] | undefined,
   agentFilter: string | undefined,
+  asOf: string | undefined,
   vectorSearchLimit: number,
   config: MemoryConfig,
 ): Promise<RetrievalResult | null> {
@@ -313,8 +480,14 @@ async function indexBasedSearch(
   const indexSearchLimit = Math.ceil(vectorSearchLimit * entriesPerChunk);
 
   const indexVectorPromise = projectFilter
-    ? indexVectorStore.searchByProject(queryEmbedding, projectFilter, indexSearchLimit, agentFilter)
-    : indexVectorStore.search(queryEmbedding, indexSearchLimit);
+    ? indexVectorStore.searchByProject(
+        queryEmbedding,
+        projectFilter,
+        indexSearchLimit,
+        agentFilter,
+        asOf,
+      )
+    : indexVectorStore.search(queryEmbedding, indexSearchLimit, asOf);
 
   let indexKeywordResults: Array<{ id: string; score: number }> = [];
   try {
@@ -323,6 +496,7 @@ async function indexBasedSearch(
       hybridSearch.keywordSearchLimit,
       projectFilter,
       agentFilter,
+      asOf,
     );
   } catch (error) {
     log.warn('Index keyword search unavailable', {
@@ -379,7 +553,7 @@ async function indexBasedSearch(
     }
   }
 
-  const fusedResults: RankedItem[] = chunkIds.map((cid) => {
+  const dereferenced: RankedItem[] = chunkIds.map((cid) => {
     const entry = chunkScoreMap.get(cid);
     return {
       chunkId: cid,
@@ -388,6 +562,9 @@ async function indexBasedSearch(
     };
   });
 
+  // An entry that started before the cutoff can still cover later chunks
+  const fusedResults = filterByCutoff(dereferenced, asOf);
+
   return { fusedResults, queryEmbedding, useIndexSearch: true };
 }
 
@@ -401,26 +578,32 @@ async function chunkBasedSearch(
   query: string,
   projectFilter: string | string[] | undefined,
   agentFilter: string | undefined,
+  asOf: string | undefined,
   vectorSearchLimit: number,
   config: MemoryConfig,
+  facetFilter: FacetFilter | null = null,
 ): Promise<RetrievalResult | null> {
   const { hybridSearch } = config;
 
-  const vectorSearchPromise = projectFilter
-    ? vectorStore.searchByProject(queryEmbedding, projectFilter, vectorSearchLimit, agentFilter)
-    : vectorStore.search(queryEmbedding, vectorSearchLimit);
+  const vectorSearchPromise = searchVectors(
+    queryEmbedding,
+    projectFilter,
+    agentFilter,
+    asOf,
+    vectorSearchLimit,
+    facetFilter,
+  );
 
   let keywordResults: Array<{ id: string; score: number }> = [];
   try {
-    const keywordStore = getKeywordStore();
-    keywordResults = projectFilter
-      ? keywordStore.searchByProject(
-          query,
-          projectFilter,
-          hybridSearch.keywordSearchLimit,
-          agentFilter,
-        )
-      : keywordStore.search(query, hybridSearch.keywordSearchLimit);
+    keywordResults = searchKeywords(
+      query,
+      projectFilter,
+      agentFilter,
+      asOf,
+      hybridSearch.keywordSearchLimit,
+      facetFilter,
+    );
   } catch (error) {
     log.warn('Keyword search unavailable, falling back to vector-only', {
       error: (error as Error).message,
@@ -470,7 +653,7 @@ async function chunkBasedSearch(
 /**
  * Shared post-processing pipeline that all retrieval paths converge on.
  *
- * source tracking → seed extraction → dedupe → recency boost + length penalty →
+ * source tracking → seed extraction → dedupe → recency/pin boost + length penalty →
  * size bounding → MMR reranking → score normalization → budget assembly
  */
 async function postProcessResults(
@@ -481,6 +664,7 @@ async function postProcessResults(
     currentSessionId?: string;
     config: MemoryConfig;
     useIndexSearch: boolean;
+    asOf?: string;
   },
 ): Promise<{
   text: string;
@@ -489,7 +673,7 @@ async function postProcessResults(
   totalConsidered: number;
   seedIds: string[];
 }> {
-  const { queryEmbedding, maxTokens, currentSessionId, config, useIndexSearch } = opts;
+  const { queryEmbedding, maxTokens, currentSessionId, config, useIndexSearch, asOf } = opts;
 
   // Track sources
   type ChunkSource = 'vector' | 'keyword' | 'cluster' | 'entity';
@@ -511,9 +695,9 @@ async function postProcessResults(
     return true;
   });
 
-  // Recency boost (time-decay + session boost)
+  // Recency boost (time-decay + session boost), measured from the cutoff when searching as-of
   const { recency } = config;
-  const now = Date.now();
+  const now = asOf ? new Date(asOf).getTime() : Date.now();
   const ln2 = Math.LN2;
   const chunkTokenMap = new Map<string, number>();
 
@@ -532,6 +716,9 @@ async function postProcessResults(
     // Session boost: current session gets additional 1.2x
     const sessionBoost = currentSessionId && chunk.sessionId === currentSessionId ? 1.2 : 1.0;
 
+    // Pin boost: user-pinned chunks outrank equally relevant ingested ones
+    const pinBoost = chunk.pinned ? PINNED_BOOST : 1.0;
+
     // Length penalty: logarithmic penalty for large, keyword-rich chunks
     // Disabled when using index search (entries are normalised, no length bias)
     let lengthFactor = 1.0;
@@ -540,7 +727,7 @@ async function postProcessResults(
         1 / (1 + Math.log2(Math.max(1, chunkTokens / config.lengthPenalty.referenceTokens)));
     }
 
-    item.score *= timeBoost * sessionBoost * lengthFactor;
+    item.score *= timeBoost * sessionBoost * pinBoost * lengthFactor;
   }
   deduped.sort((a, b) => b.score - a.score);
 
@@ -583,23 +770,46 @@ async function postProcessResults(
 /**
  * Run the search pipeline.
  *
- * Keyword-primary mode: keyword → [optional vector enrichment] → recency → MMR → budget
- * Hybrid mode:          embed → [vector, keyword] → RRF → cluster expand → recency → MMR → budget
+ * Keyword-primary mode: keyword → [optional vector enrichment] → [rerank] → recency → MMR → budget
+ * Hybrid mode:          embed → [vector, keyword] → RRF → cluster expand → [rerank] → recency →
+ *                       MMR → budget
+ *
+ * Both modes first parse date, project, agent, file and tool phrases out of the
+ * query (see query-parser.ts). Project, agent and upper date bounds feed the
+ * storage-level filters unless the request sets them explicitly; files, tools
+ * and lower date bounds join the requested facets. Facets skip the semantic
+ * index: they are indexed on chunks, so retrieval searches chunks directly.
  */
 export async function searchContext(request: SearchRequest): Promise<SearchResponse> {
   const startTime = Date.now();
   const externalConfig = loadConfig();
-  const config = toRuntimeConfig(externalConfig);
+  const runtimeConfig = toRuntimeConfig(externalConfig);
 
+  // ── Query understanding: filter phrases become structured filters ────
+  const parsed =
+    runtimeConfig.queryParsing && request.parseQuery !== false
+      ? interpretQuery(request.query)
+      : null;
+  const filters: QueryFilters = parsed ? applicableFilters(parsed.filters, request) : {};
+  const interpretation =
+    parsed && hasFilters({ ...parsed, filters }) ? { ...parsed, filters } : null;
+
+  // During an embedding migration the previous model keeps serving
+  const config = {
+    ...runtimeConfig,
+    embeddingModel: resolveServingModel(runtimeConfig.embeddingModel),
+  };
+
+  const query = parsed?.searchText ?? request.query;
   const {
-    query,
     currentSessionId,
-    projectFilter,
+    projectFilter = filters.projects?.length === 1 ? filters.projects[0] : filters.projects,
     maxTokens = config.mcpMaxResponseTokens,
-    vectorSearchLimit = 20,
     skipClusters = false,
-    agentFilter,
+    agentFilter = filters.agent,
+    vectorSearchLimit = 20,
   } = request;
+  const asOf = filters.before ?? request.asOf;
 
   const { embeddingModel } = config;
   const retrievalMode = config.retrievalPrimary;
@@ -612,8 +822,25 @@ export async function searchContext(request: SearchRequest): Promise<SearchRespo
     durationMs: Date.now() - startTime,
     queryEmbedding: [],
     seedIds: [],
+    ...(interpretation ? { interpretation } : {}),
   };
 
+  // ── Facets: resolve matching chunks from indexed columns ─────────────
+  const facets = mergeFacets(request.facets, filters);
+  let facetFilter: FacetFilter | null = null;
+  if (hasFacets(facets)) {
+    const chunkIds = queryChunkIdsByFacets(facets, {
+      projects: projectFilter,
+      agentId: agentFilter,
+      before: asOf,
+    });
+    if (chunkIds.size === 0) {
+      emptyResponse.durationMs = Date.now() - startTime;
+      return emptyResponse;
+    }
+    facetFilter = { facets, chunkIds };
+  }
+
   let result: RetrievalResult | null;
 
   if (retrievalMode === 'keyword') {
@@ -622,8 +849,10 @@ export async function searchContext(request: SearchRequest): Promise<SearchRespo
       query,
       projectFilter,
       agentFilter,
+      asOf,
       vectorSearchLimit,
       config,
+      facetFilter,
     );
 
     if (!result) {
@@ -643,7 +872,8 @@ export async function searchContext(request: SearchRequest): Promise<SearchRespo
     const queryEmbedding = queryResult.embedding;
 
     // Determine whether to use index-based search
-    const useIndexSearch = config.semanticIndex.useForSearch && getIndexEntryCount() > 0;
+    const useIndexSearch =
+      !facetFilter && config.semanticIndex.useForSearch && getIndexEntryCount() > 0;
 
     if (useIndexSearch) {
       result = await indexBasedSearch(
@@ -651,6 +881,7 @@ export async function searchContext(request: SearchRequest): Promise<SearchRespo
         query,
         projectFilter,
         agentFilter,
+        asOf,
         vectorSearchLimit,
         config,
       );
@@ -660,8 +891,10 @@ export async function searchContext(request: SearchRequest): Promise<SearchRespo
         query,
         projectFilter,
         agentFilter,
+        asOf,
         vectorSearchLimit,
         config,
+        facetFilter,
       );
     }
 
@@ -677,6 +910,7 @@ export async function searchContext(request: SearchRequest): Promise<SearchRespo
       query,
       projectFilter,
       config.hybridSearch.rrfK,
+      asOf,
     );
 
     // Cluster expansion (hybrid/vector path only)
@@ -687,10 +921,26 @@ export async function searchContext(request: SearchRequest): Promise<SearchRespo
         projectFilter,
         agentFilter,
         config.feedbackWeight,
+        asOf,
       );
     }
   }
 
+  // ── Entity and cluster candidates bypass the facet-scoped searches ───
+  if (facetFilter) {
+    const { chunkIds } = facetFilter;
+    result.fusedResults = result.fusedResults.filter((item) => chunkIds.has(item.chunkId));
+  }
+
+  // ── Optional cross-encoder rerank of the top fused candidates ────────
+  const reranked = await rerankCandidates(
+    query,
+    result.fusedResults,
+    config.reranker,
+    (id) => getChunkById(id)?.content,
+  );
+  result.fusedResults = reranked.items;
+
   // ── Shared post-processing ───────────────────────────────────────────
   const processed = await postProcessResults(result.fusedResults, {
     queryEmbedding: result.queryEmbedding,
@@ -698,6 +948,7 @@ export async function searchContext(request: SearchRequest): Promise<SearchRespo
     currentSessionId,
     config,
     useIndexSearch: result.useIndexSearch,
+    asOf,
   });
 
   return {
@@ -708,6 +959,8 @@ export async function searchContext(request: SearchRequest): Promise<SearchRespo
     durationMs: Date.now() - startTime,
     queryEmbedding: result.queryEmbedding,
     seedIds: processed.seedIds,
+    ...(reranked.stats ? { rerank: reranked.stats } : {}),
+    ...(interpretation ? { interpretation } : {}),
   };
 }
 
@@ -837,8 +1090,9 @@ export async function findSimilarChunkIds(options: {
 
   const externalConfig = loadConfig();
   const runtimeConfig = toRuntimeConfig(externalConfig);
-  vectorStore.setModelId(runtimeConfig.embeddingModel);
-  const embedder = await getEmbedder(runtimeConfig.embeddingModel);
+  const embeddingModel = resolveServingModel(runtimeConfig.embeddingModel);
+  vectorStore.setModelId(embeddingModel);
+  const embedder = await getEmbedder(embeddingModel);
   const { embedding } = await embedder.embed(query, true);
 
   // searchByProject is O(n) brute-force regardless of limit — high limit is free
@@ -866,4 +1120,5 @@ export async function disposeSearch(): Promise<void> {
     sharedEmbedder = null;
     sharedEmbedderModelId = null;
   }
+  await disposeReranker();
 }
@@ -9,6 +9,7 @@ import { getConfig } from '../config/memory-config.js';
 import {
   getChunksByTimeRange,
   getChunksBefore,
+  getChunksByIds,
   getPreviousSession,
   ESTIMATED_AVG_TOKENS_PER_CHUNK,
 } from '../storage/chunk-store.js';
@@ -17,6 +18,10 @@ import type { StoredSessionState } from '../storage/session-state-store.js';
 import type { SessionInfo } from '../storage/chunk-store.js';
 import type { StoredChunk } from '../storage/types.js';
 import { approximateTokens } from '../utils/token-counter.js';
+import { getFileHistory, hasFileHistory, formatFileHistorySections } from './file-history.js';
+import { resolveCommit, formatCommitSummary } from './commit-lookup.js';
+import { getCommitsForSession, getPullRequestsForSession } from '../storage/commit-store.js';
+import type { StoredCommit, StoredPullRequest } from '../storage/commit-store.js';
 
 /**
  * Request to reconstruct session context.
@@ -42,6 +47,8 @@ export interface ReconstructRequest {
   keepNewest?: boolean;
   /** Filter to a specific agent */
   agentFilter?: string;
+  /** Commit SHA (or prefix): reconstruct its session up to the chunk that made it */
+  commit?: string;
 }
 
 /**
@@ -65,6 +72,8 @@ export interface ReconstructResult {
   totalTokens: number;
   truncated: boolean;
   timeRange: { from: string; to: string };
+  /** The commit the reconstruction is anchored on, when one was requested */
+  commit?: StoredCommit;
 }
 
 /**
@@ -74,7 +83,18 @@ export function resolveTimeWindow(req: ReconstructRequest): {
   from: string;
   to: string;
   sessionId?: string;
+  commit?: StoredCommit;
 } {
+  if (req.commit) {
+    const commit = resolveCommit(req.commit, req.project);
+    const endTimes = getChunksByIds(commit.chunkIds).map((c) => c.endTime);
+    const to =
+      endTimes.length > 0
+        ? new Date(new Date(endTimes.sort().at(-1)!).getTime() + 1).toISOString()
+        : '9999-12-31T23:59:59Z';
+    return { from: '1970-01-01T00:00:00Z', to, sessionId: commit.sessionId, commit };
+  }
+
   if (req.previousSession) {
     if (!req.currentSessionId) {
       throw new Error('currentSessionId is required when previousSession is true');
@@ -108,7 +128,7 @@ export function resolveTimeWindow(req: ReconstructRequest): {
     };
   }
 
-  throw new Error('Must specify one of: sessionId, from/to, daysBack, or previousSession');
+  throw new Error('Must specify one of: sessionId, commit, from/to, daysBack, or previousSession');
 }
 
 /**
@@ -224,7 +244,10 @@ export function formatReconstruction(result: ReconstructResult): string {
     lines.pop();
   }
 
-  let header = `Reconstructed ${result.chunks.length} chunks from ${result.sessions.length} session(s) (${result.totalTokens} tokens)`;
+  let header = result.commit
+    ? formatCommitSummary(result.commit, { includePatch: true }) + '\n\n'
+    : '';
+  header += `Reconstructed ${result.chunks.length} chunks from ${result.sessions.length} session(s) (${result.totalTokens} tokens)`;
   if (result.truncated) {
     header += ' [truncated to fit token budget]';
   }
@@ -291,6 +314,7 @@ export function reconstructSession(req: ReconstructRequest): ReconstructResult {
 
   // Timeline mode: no explicit time window specified — walk backwards from anchor
   const isTimeline =
+    !req.commit &&
     !req.sessionId &&
     (req.daysBack === undefined || req.daysBack === null) &&
     !req.previousSession &&
@@ -332,7 +356,11 @@ export function reconstructSession(req: ReconstructRequest): ReconstructResult {
 
   const { kept, truncated } = applyTokenBudget(rawChunks, maxTokens, keepNewest);
 
-  return buildResult(kept, truncated, window.to, window.from);
+  const result = buildResult(kept, truncated, window.to, window.from);
+  if (window.commit) {
+    result.commit = window.commit;
+  }
+  return result;
 }
 
 /**
@@ -343,10 +371,16 @@ export interface BriefingRequest {
   project: string;
   /** Optional repo map text to include. */
   repoMapText?: string;
+  /** Optional text of structural changes since the last session's repo map snapshot. */
+  structureDiffText?: string;
   /** Maximum sessions to include. Default: 3. */
   maxSessions?: number;
   /** Token budget. Defaults to mcpMaxResponseTokens. */
   maxTokens?: number;
+  /** Project root directory, needed for file history. */
+  projectPath?: string;
+  /** Files to include memory history for (absolute or relative to projectPath). */
+  files?: string[];
 }
 
 /**
@@ -366,7 +400,11 @@ export interface BriefingResult {
 /**
  * Format a single session state for display in a briefing.
  */
-function formatSessionStateForBriefing(state: StoredSessionState): string {
+function formatSessionStateForBriefing(
+  state: StoredSessionState,
+  commits: StoredCommit[] = [],
+  pullRequests: StoredPullRequest[] = [],
+): string {
   const lines: string[] = [];
 
   const endDate = new Date(state.endedAt);
@@ -407,6 +445,30 @@ function formatSessionStateForBriefing(state: StoredSessionState): string {
     lines.push(`**Outcomes:** ${state.outcomes.join(', ')}`);
   }
 
+  // Commits resolved at ingestion
+  if (commits.length > 0) {
+    lines.push('');
+    lines.push('**Commits:**');
+    for (const commit of commits) {
+      const insertions = commit.files.reduce((sum, f) => sum + f.insertions, 0);
+      const deletions = commit.files.reduce((sum, f) => sum + f.deletions, 0);
+      const stats =
+        commit.files.length > 0
+          ? ` (${commit.files.length} files, +${insertions} -${deletions})`
+          : '';
+      lines.push(`- \`${commit.sha.slice(0, 7)}\` ${commit.subject}${stats}`);
+    }
+  }
+
+  // Pull requests opened with gh pr create
+  if (pullRequests.length > 0) {
+    lines.push('');
+    lines.push('**Pull requests:**');
+    for (const pr of pullRequests) {
+      lines.push(`- #${pr.number}${pr.title ? ` ${pr.title}` : ''} (${pr.url})`);
+    }
+  }
+
   // Errors (show top 3)
   if (state.errors.length > 0) {
     lines.push('');
@@ -439,8 +501,9 @@ function formatSessionStateForBriefing(state: StoredSessionState): string {
  * Build a structured session briefing for resuming work.
  *
  * Combines:
- * - Recent session states (files touched, errors, outcomes, tasks)
- * - Optional repo map text
+ * - Recent session states (files touched, errors, outcomes, commits, tasks)
+ * - Optional repo map text and structural changes since the last session
+ * - Optional history of specific files (linked chunks, errors, sessions)
  *
  * Designed for use at session start via the reconstruct tool's briefing mode.
  */
@@ -467,6 +530,12 @@ export function buildBriefing(req: BriefingRequest): BriefingResult {
     hasRepoMap = true;
   }
 
+  // 1b. Structural changes since the last session
+  if (req.structureDiffText) {
+    sections.push('\n## Structural Changes\n');
+    sections.push(req.structureDiffText);
+  }
+
   // 2. Recent session states
   let sessionStates: StoredSessionState[] = [];
   try {
@@ -480,7 +549,36 @@ export function buildBriefing(req: BriefingRequest): BriefingResult {
     // Show in chronological order (store returns DESC)
     const chronological = [...sessionStates].reverse();
     for (const state of chronological) {
-      sections.push(formatSessionStateForBriefing(state));
+      let commits: StoredCommit[] = [];
+      let pullRequests: StoredPullRequest[] = [];
+      try {
+        commits = getCommitsForSession(state.sessionId);
+        pullRequests = getPullRequestsForSession(state.sessionId);
+      } catch {
+        // Table may not exist yet
+      }
+      sections.push(formatSessionStateForBriefing(state, commits, pullRequests));
+    }
+  }
+
+  // 3. History of files being worked on
+  if (req.projectPath && req.files && req.files.length > 0) {
+    const fileSections: string[] = [];
+    for (const file of req.files) {
+      try {
+        const history = getFileHistory(req.projectPath, file, { maxChunks: 3, maxSessions: 3 });
+        if (hasFileHistory(history)) {
+          fileSections.push(
+            [`### ${history.filePath}`, ...formatFileHistorySections(history)].join('\n'),
+          );
+        }
+      } catch {
+        // Table may not exist yet
+      }
+    }
+    if (fileSections.length > 0) {
+      sections.push('\n## File History\n');
+      sections.push(fileSections.join('\n\n'));
     }
   }
 
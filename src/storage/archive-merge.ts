@@ -0,0 +1,537 @@
+/**
+ * Reconciling merge for archive imports.
+ *
+ * Archives from another machine use their own UUIDs, so merging by ID either
+ * duplicates shared history or overwrites local rows. A reconciling merge
+ * matches records by content instead:
+ *
+ * - Chunks are deduplicated by content hash. Duplicates map to the local
+ *   chunk; an ID that exists locally with different content is re-keyed.
+ * - Edges are remapped onto local chunk IDs and merged with an existing edge
+ *   between the same endpoints.
+ * - Clusters are matched by ID or by majority overlap of their deduplicated
+ *   members; matched clusters gain the new chunks and keep local metadata.
+ * - Entities are matched by alias and their aliases are unioned.
+ *
+ * Local data always wins. Every disagreement is recorded in the report.
+ */
+
+import type Database from 'better-sqlite3-multiple-ciphers';
+import { getDb, generateId } from './db.js';
+import { computeContentHash } from './embedding-cache.js';
+import { computeMembershipHash } from './cluster-store.js';
+import { createChunkFacetWriter } from './chunk-facets.js';
+import { serializeEmbedding, deserializeEmbedding } from '../utils/embedding-utils.js';
+import {
+  ARCHIVE_VECTORS_TABLE_SQL,
+  LEGACY_VECTOR_MODEL,
+  type Archive,
+  type ClusterMember,
+} from './archive.js';
+
+/** Kinds of disagreement between an archive and the local database. */
+export type MergeConflictKind =
+  /** Chunk ID exists locally with different content */
+  | 'chunk-id-collision'
+  /** A deduplicated chunk is in a different local cluster */
+  | 'cluster-assignment'
+  /** A matched cluster has a different name locally */
+  | 'cluster-metadata'
+  /** A matched entity has a different canonical name locally */
+  | 'entity-name'
+  /** An entity's aliases match several local entities */
+  | 'entity-ambiguous'
+  /** Archive embeddings do not match the dimensions of stored vectors */
+  | 'vector-dimensions';
+
+/** A single conflict and how it was resolved. */
+export interface MergeConflict {
+  kind: MergeConflictKind;
+  /** ID of the record in the archive */
+  archiveId: string | null;
+  /** ID of the local record it conflicted with */
+  localId: string | null;
+  /** What the merge did about it */
+  resolution: string;
+  detail: string;
+}
+
+/** Counts of what a reconciling merge changed. */
+export interface MergeCounts {
+  chunksAdded: number;
+  /** Archive chunks whose content already exists locally */
+  chunksDeduplicated: number;
+  /** Archive chunks imported under a new ID because of an ID collision */
+  chunksRekeyed: number;
+  edgesAdded: number;
+  /** Archive edges folded into an existing edge between the same chunks */
+  edgesMerged: number;
+  /** Edges with a missing endpoint, or that became self-loops after deduplication */
+  edgesDropped: number;
+  clustersAdded: number;
+  clustersMatched: number;
+  membershipsAdded: number;
+  entitiesAdded: number;
+  entitiesMerged: number;
+  aliasesAdded: number;
+  mentionsAdded: number;
+  vectorsAdded: number;
+}
+
+/** Result of a reconciling merge. */
+export interface MergeReport {
+  counts: MergeCounts;
+  conflicts: MergeConflict[];
+  /** Archive chunk ID → local chunk ID, for chunks that were deduplicated or re-keyed */
+  remappedChunks: Record<string, string>;
+  dryRun: boolean;
+}
+
+/** Options for a reconciling merge. */
+export interface ReconcileOptions {
+  /** Compute the report, then roll back */
+  dryRun?: boolean;
+}
+
+/** Thrown inside the transaction to roll back a dry run. */
+class DryRunRollback extends Error {}
+
+/**
+ * Merge an archive into the local database by content.
+ * Runs in one transaction; a dry run reports the same result and rolls back.
+ */
+export function reconcileArchive(archive: Archive, options: ReconcileOptions = {}): MergeReport {
+  const db = getDb();
+  const report: MergeReport = {
+    counts: {
+      chunksAdded: 0,
+      chunksDeduplicated: 0,
+      chunksRekeyed: 0,
+      edgesAdded: 0,
+      edgesMerged: 0,
+      edgesDropped: 0,
+      clustersAdded: 0,
+      clustersMatched: 0,
+      membershipsAdded: 0,
+      entitiesAdded: 0,
+      entitiesMerged: 0,
+      aliasesAdded: 0,
+      mentionsAdded: 0,
+      vectorsAdded: 0,
+    },
+    conflicts: [],
+    remappedChunks: {},
+    dryRun: !!options.dryRun,
+  };
+
+  // Ensure vectors table exists
+  db.exec(ARCHIVE_VECTORS_TABLE_SQL);
+
+  try {
+    db.transaction(() => {
+      const { chunkMap, insertedChunks } = mergeChunks(db, archive, report);
+      mergeVectors(db, archive, chunkMap, insertedChunks, report);
+      mergeEdges(db, archive, chunkMap, report);
+      mergeClusters(db, archive, chunkMap, insertedChunks, report);
+      mergeEntities(db, archive, chunkMap, report);
+      if (options.dryRun) throw new DryRunRollback();
+    })();
+  } catch (error) {
+    if (!(error instanceof DryRunRollback)) throw error;
+  }
+
+  return report;
+}
+
+/**
+ * Insert or deduplicate archive chunks.
+ * Returns the archive → local ID map and the set of newly inserted local IDs.
+ */
+function mergeChunks(
+  db: Database.Database,
+  archive: Archive,
+  report: MergeReport,
+): { chunkMap: Map<string, string>; insertedChunks: Set<string> } {
+  const chunkMap = new Map<string, string>();
+  const insertedChunks = new Set<string>();
+
+  // Hash only the local chunks that could match something in the archive
+  const archiveHashes = new Map(archive.chunks.map((c) => [c.id, computeContentHash(c.content)]));
+  const wanted = new Set(archiveHashes.values());
+  const localByHash = new Map<string, string>();
+  const localRows = db.prepare('SELECT id, content FROM chunks').iterate() as IterableIterator<{
+    id: string;
+    content: string;
+  }>;
+  for (const row of localRows) {
+    const hash = computeContentHash(row.content);
+    if (wanted.has(hash) && !localByHash.has(hash)) localByHash.set(hash, row.id);
+  }
+
+  const getContent = db.prepare('SELECT content FROM chunks WHERE id = ?');
+  const insertChunk = db.prepare(`
+    INSERT INTO chunks (id, session_id, session_slug, project_path, content, start_time, end_time, turn_indices, pinned, tags)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const writeFacets = createChunkFacetWriter(db);
+
+  for (const chunk of archive.chunks) {
+    const hash = archiveHashes.get(chunk.id)!;
+    const duplicate = localByHash.get(hash);
+    if (duplicate) {
+      chunkMap.set(chunk.id, duplicate);
+      if (duplicate !== chunk.id) report.remappedChunks[chunk.id] = duplicate;
+      report.counts.chunksDeduplicated++;
+      continue;
+    }
+
+    let id = chunk.id;
+    const existing = getContent.get(id) as { content: string } | undefined;
+    if (existing) {
+      id = generateId();
+      report.remappedChunks[chunk.id] = id;
+      report.counts.chunksRekeyed++;
+      report.conflicts.push({
+        kind: 'chunk-id-collision',
+        archiveId: chunk.id,
+        localId: chunk.id,
+        resolution: `imported as ${id}`,
+        detail: 'A local chunk has the same ID but different content',
+      });
+    }
+
+    insertChunk.run(
+      id,
+      chunk.sessionId ?? '',
+      chunk.sessionSlug,
+      chunk.projectPath ?? null,
+      chunk.content,
+      chunk.startTime,
+      chunk.endTime,
+      JSON.stringify(chunk.turnIndices ?? []),
+      chunk.pinned ? 1 : 0,
+      chunk.tags && chunk.tags.length > 0 ? JSON.stringify(chunk.tags) : null,
+    );
+    writeFacets(id, chunk);
+    chunkMap.set(chunk.id, id);
+    insertedChunks.add(id);
+    // Later archive chunks with the same content deduplicate against this one
+    localByHash.set(hash, id);
+    report.counts.chunksAdded++;
+  }
+
+  return { chunkMap, insertedChunks };
+}
+
+/**
+ * Import vectors for new chunks, and for deduplicated chunks that have none.
+ * Skipped entirely if the archive's dimensions differ from stored vectors of
+ * the same model.
+ */
+function mergeVectors(
+  db: Database.Database,
+  archive: Archive,
+  chunkMap: Map<string, string>,
+  insertedChunks: Set<string>,
+  report: MergeReport,
+): void {
+  if (archive.vectors.length === 0) return;
+
+  const archiveModel = archive.vectors[0].modelId ?? LEGACY_VECTOR_MODEL;
+  const sample = db
+    .prepare('SELECT embedding FROM vectors WHERE model_id = ? LIMIT 1')
+    .get(archiveModel) as { embedding: Buffer } | undefined;
+  const localDims = sample ? deserializeEmbedding(sample.embedding).length : null;
+  const archiveDims = archive.vectors[0].embedding.length;
+  if (localDims !== null && localDims !== archiveDims) {
+    report.conflicts.push({
+      kind: 'vector-dimensions',
+      archiveId: null,
+      localId: null,
+      resolution: 'skipped archive vectors',
+      detail: `Archive vectors have ${archiveDims} dimensions, stored vectors have ${localDims}`,
+    });
+    return;
+  }
+
+  const hasVector = db.prepare('SELECT 1 FROM vectors WHERE id = ?');
+  const insertVector = db.prepare(`
+    INSERT OR REPLACE INTO vectors (id, embedding, orphaned_at, last_accessed, model_id)
+    VALUES (?, ?, NULL, CURRENT_TIMESTAMP, ?)
+  `);
+  for (const vector of archive.vectors) {
+    const id = chunkMap.get(vector.chunkId);
+    if (!id) continue;
+    if (!insertedChunks.has(id) && hasVector.get(id)) continue;
+    insertVector.run(
+      id,
+      serializeEmbedding(vector.embedding),
+      vector.modelId ?? LEGACY_VECTOR_MODEL,
+    );
+    report.counts.vectorsAdded++;
+  }
+}
+
+/**
+ * Remap edge endpoints onto local chunks and merge with existing edges.
+ */
+function mergeEdges(
+  db: Database.Database,
+  archive: Archive,
+  chunkMap: Map<string, string>,
+  report: MergeReport,
+): void {
+  const chunkExists = db.prepare('SELECT 1 FROM chunks WHERE id = ?');
+  const findEdge = db.prepare(`
+    SELECT id, initial_weight, link_count FROM edges
+    WHERE source_chunk_id = ? AND target_chunk_id = ? AND edge_type = ? AND reference_type IS ?
+  `);
+  const edgeIdTaken = db.prepare('SELECT 1 FROM edges WHERE id = ?');
+  const updateEdge = db.prepare('UPDATE edges SET initial_weight = ?, link_count = ? WHERE id = ?');
+  const insertEdge = db.prepare(`
+    INSERT INTO edges (id, source_chunk_id, target_chunk_id, edge_type, reference_type, initial_weight, created_at, link_count)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const resolve = (id: string): string | null =>
+    chunkMap.get(id) ?? (chunkExists.get(id) ? id : null);
+
+  for (const edge of archive.edges) {
+    const source = resolve(edge.source);
+    const target = resolve(edge.target);
+    if (!source || !target || source === target) {
+      report.counts.edgesDropped++;
+      continue;
+    }
+
+    const referenceType = edge.referenceType ?? null;
+    const existing = findEdge.get(source, target, edge.type, referenceType) as
+      | { id: string; initial_weight: number; link_count: number }
+      | undefined;
+    if (existing) {
+      updateEdge.run(
+        Math.max(existing.initial_weight, edge.weight),
+        Math.max(existing.link_count, edge.linkCount ?? 1),
+        existing.id,
+      );
+      report.counts.edgesMerged++;
+      continue;
+    }
+
+    const id = edge.id && !edgeIdTaken.get(edge.id) ? edge.id : generateId();
+    insertEdge.run(
+      id,
+      source,
+      target,
+      edge.type,
+      referenceType,
+      edge.weight,
+      new Date().toISOString(),
+      edge.linkCount ?? 1,
+    );
+    report.counts.edgesAdded++;
+  }
+}
+
+/**
+ * Match archive clusters to local clusters and add new members.
+ * Deduplicated chunks keep their local cluster assignment.
+ */
+function mergeClusters(
+  db: Database.Database,
+  archive: Archive,
+  chunkMap: Map<string, string>,
+  insertedChunks: Set<string>,
+  report: MergeReport,
+): void {
+  const getCluster = db.prepare('SELECT id, name FROM clusters WHERE id = ?');
+  const clustersForChunk = db.prepare('SELECT cluster_id FROM chunk_clusters WHERE chunk_id = ?');
+  const insertCluster = db.prepare(`
+    INSERT INTO clusters (id, name, description, centroid, exemplar_ids, membership_hash)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  const insertMember = db.prepare(`
+    INSERT OR IGNORE INTO chunk_clusters (chunk_id, cluster_id, distance)
+    VALUES (?, ?, ?)
+  `);
+  const memberIds = db.prepare('SELECT chunk_id FROM chunk_clusters WHERE cluster_id = ?');
+  const updateHash = db.prepare('UPDATE clusters SET membership_hash = ? WHERE id = ?');
+
+  for (const cluster of archive.clusters) {
+    // Handle both v1.1 (members with distance) and v1.0 compat (memberChunkIds)
+    const archiveMembers: ClusterMember[] =
+      cluster.members ??
+      (cluster as unknown as { memberChunkIds?: string[] }).memberChunkIds?.map((id) => ({
+        chunkId: id,
+        distance: 0,
+      })) ??
+      [];
+    const members = archiveMembers
+      .filter((m) => chunkMap.has(m.chunkId))
+      .map((m) => ({ chunkId: chunkMap.get(m.chunkId)!, distance: m.distance }));
+
+    // Local cluster assignments of deduplicated members
+    const assignments = new Map<string, string[]>();
+    const tally = new Map<string, number>();
+    for (const member of members) {
+      if (insertedChunks.has(member.chunkId)) continue;
+      const ids = (clustersForChunk.all(member.chunkId) as Array<{ cluster_id: string }>).map(
+        (r) => r.cluster_id,
+      );
+      assignments.set(member.chunkId, ids);
+      for (const id of ids) tally.set(id, (tally.get(id) ?? 0) + 1);
+    }
+
+    // Match by ID first, then by majority overlap of deduplicated members
+    let local = getCluster.get(cluster.id) as { id: string; name: string | null } | undefined;
+    if (!local && assignments.size > 0) {
+      const [bestId, overlap] = [...tally.entries()].sort((a, b) => b[1] - a[1])[0] ?? [];
+      if (bestId && overlap * 2 >= assignments.size) {
+        local = getCluster.get(bestId) as { id: string; name: string | null };
+      }
+    }
+
+    let clusterId: string;
+    if (local) {
+      clusterId = local.id;
+      report.counts.clustersMatched++;
+      if (cluster.name && local.name && cluster.name !== local.name) {
+        report.conflicts.push({
+          kind: 'cluster-metadata',
+          archiveId: cluster.id,
+          localId: local.id,
+          resolution: 'kept local name and description',
+          detail: `Archive name "${cluster.name}" differs from local "${local.name}"`,
+        });
+      }
+    } else {
+      clusterId = generateId();
+      insertCluster.run(
+        clusterId,
+        cluster.name,
+        cluster.description,
+        cluster.centroid ? serializeEmbedding(cluster.centroid) : null,
+        cluster.exemplarIds
+          ? JSON.stringify(cluster.exemplarIds.map((id) => chunkMap.get(id) ?? id))
+          : null,
+        null,
+      );
+      report.counts.clustersAdded++;
+    }
+
+    let added = 0;
+    for (const member of members) {
+      const current = assignments.get(member.chunkId);
+      if (current && current.length > 0 && !current.includes(clusterId)) {
+        report.conflicts.push({
+          kind: 'cluster-assignment',
+          archiveId: cluster.id,
+          localId: current[0],
+          resolution: 'kept local assignment',
+          detail: `Chunk ${member.chunkId} is in local cluster ${current[0]}`,
+        });
+        continue;
+      }
+      added += insertMember.run(member.chunkId, clusterId, member.distance).changes;
+    }
+    report.counts.membershipsAdded += added;
+
+    if (added > 0 || !local) {
+      const ids = (memberIds.all(clusterId) as Array<{ chunk_id: string }>).map((r) => r.chunk_id);
+      updateHash.run(computeMembershipHash(ids), clusterId);
+    }
+  }
+}
+
+/**
+ * Match archive entities to local entities by alias and union their aliases
+ * and mentions.
+ */
+function mergeEntities(
+  db: Database.Database,
+  archive: Archive,
+  chunkMap: Map<string, string>,
+  report: MergeReport,
+): void {
+  const entities = archive.entities ?? [];
+  if (entities.length === 0) return;
+
+  const findByAlias = db.prepare(`
+    SELECT DISTINCT e.id, e.canonical_name FROM entity_aliases ea
+    JOIN entities e ON e.id = ea.entity_id
+    WHERE ea.alias = ? AND ea.entity_type = ? AND ea.project_slug = ?
+    ORDER BY e.created_at, e.id
+  `);
+  const entityIdTaken = db.prepare('SELECT 1 FROM entities WHERE id = ?');
+  const insertEntity = db.prepare(
+    'INSERT INTO entities (id, entity_type, canonical_name, project_slug) VALUES (?, ?, ?, ?)',
+  );
+  const touchEntity = db.prepare('UPDATE entities SET updated_at = CURRENT_TIMESTAMP WHERE id = ?');
+  const insertAlias = db.prepare(
+    'INSERT OR IGNORE INTO entity_aliases (alias, entity_id, entity_type, project_slug) VALUES (?, ?, ?, ?)',
+  );
+  const insertMention = db.prepare(
+    'INSERT OR IGNORE INTO entity_mentions (chunk_id, entity_id, mention_form, confidence) VALUES (?, ?, ?, ?)',
+  );
+
+  for (const entity of entities) {
+    const matches = new Map<string, string>();
+    for (const alias of new Set([entity.canonicalName, ...entity.aliases])) {
+      const rows = findByAlias.all(alias, entity.entityType, entity.projectSlug) as Array<{
+        id: string;
+        canonical_name: string;
+      }>;
+      for (const row of rows) matches.set(row.id, row.canonical_name);
+    }
+
+    let entityId: string;
+    if (matches.size === 0) {
+      entityId = entityIdTaken.get(entity.id) ? generateId() : entity.id;
+      insertEntity.run(entityId, entity.entityType, entity.canonicalName, entity.projectSlug);
+      report.counts.entitiesAdded++;
+    } else {
+      const candidates = [...matches.entries()];
+      const [localId, localName] =
+        candidates.find(([, name]) => name === entity.canonicalName) ?? candidates[0];
+      entityId = localId;
+      touchEntity.run(entityId);
+      report.counts.entitiesMerged++;
+
+      if (candidates.length > 1) {
+        report.conflicts.push({
+          kind: 'entity-ambiguous',
+          archiveId: entity.id,
+          localId,
+          resolution: `merged into ${localId}`,
+          detail: `Aliases match ${candidates.length} local entities: ${candidates.map(([id]) => id).join(', ')}`,
+        });
+      } else if (localName !== entity.canonicalName) {
+        report.conflicts.push({
+          kind: 'entity-name',
+          archiveId: entity.id,
+          localId,
+          resolution: 'kept local canonical name, added archive name as alias',
+          detail: `Archive name "${entity.canonicalName}" differs from local "${localName}"`,
+        });
+      }
+    }
+
+    for (const alias of new Set([entity.canonicalName, ...entity.aliases])) {
+      report.counts.aliasesAdded += insertAlias.run(
+        alias,
+        entityId,
+        entity.entityType,
+        entity.projectSlug,
+      ).changes;
+    }
+    for (const mention of entity.mentions) {
+      const chunkId = chunkMap.get(mention.chunkId);
+      if (!chunkId) continue;
+      report.counts.mentionsAdded += insertMention.run(
+        chunkId,
+        entityId,
+        mention.mentionForm,
+        mention.confidence,
+      ).changes;
+    }
+  }
+}
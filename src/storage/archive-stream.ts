@@ -0,0 +1,801 @@
+/**
+ * Streaming NDJSON archive export/import.
+ *
+ * Archive format v2.0 writes one JSON record per line, optionally gzipped, so
+ * neither export nor import holds the whole memory in RAM:
+ *
+ *   {"type":"header",...}   archive ID, watermark, projects
+ *   {"type":"chunk",...}    one per chunk
+ *   {"type":"vector",...}   one per embedding
+ *   {"type":"edge",...}     one per edge
+ *   {"type":"cluster",...}  one per cluster, members inline
+ *   {"type":"footer",...}   record counts; marks the archive complete
+ *
+ * Imports commit in batches and record progress in `archive_imports`, so an
+ * interrupted import resumes after the last committed batch. Incremental
+ * exports (`since`) emit only records created at or after a prior export's
+ * watermark. The comparison is inclusive at second resolution, so boundary
+ * records may repeat across exports; imports are idempotent.
+ */
+
+import {
+  createReadStream,
+  createWriteStream,
+  existsSync,
+  openSync,
+  readSync,
+  closeSync,
+  statSync,
+} from 'node:fs';
+import { createInterface } from 'node:readline';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { createGzip, createGunzip } from 'node:zlib';
+import { randomUUID } from 'node:crypto';
+import { getDb, sqlPlaceholders } from './db.js';
+import {
+  redactFilePaths,
+  redactCodeBlocks,
+  type ExportedChunk,
+  type ExportedEdge,
+  type ExportedCluster,
+  type ExportedVector,
+  ARCHIVE_VECTORS_TABLE_SQL,
+  LEGACY_VECTOR_MODEL,
+} from './archive.js';
+import {
+  ARCHIVED_FACET_COLUMNS,
+  archivedFacetsFromRow,
+  createChunkFacetWriter,
+  type ArchivedFacetRow,
+} from './chunk-facets.js';
+import { serializeEmbedding, deserializeEmbedding } from '../utils/embedding-utils.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('archive-stream');
+
+/** NDJSON archive format version */
+export const NDJSON_ARCHIVE_VERSION = '2.0';
+
+/** Every NDJSON archive starts with this prefix (header record, `type` key first) */
+const HEADER_PREFIX = '{"type":"header"';
+
+/** Records committed per import transaction */
+const DEFAULT_IMPORT_BATCH_SIZE = 500;
+
+/** First record of an NDJSON archive */
+export interface NdjsonArchiveHeader {
+  type: 'header';
+  format: 'causantic-archive';
+  version: string;
+  /** Unique per export; keys import progress for resumption */
+  archiveId: string;
+  created: string;
+  /** Export start time. Pass as `since` to export only newer records next time. */
+  watermark: string;
+  /** Watermark this archive is incremental to (null for a full export) */
+  since: string | null;
+  projects: string[];
+  embeddingDimensions: number | null;
+}
+
+/** Record counts, written to the footer and returned from export */
+export interface NdjsonRecordCounts {
+  chunks: number;
+  vectors: number;
+  edges: number;
+  clusters: number;
+}
+
+/** Last record of a complete NDJSON archive */
+export interface NdjsonArchiveFooter {
+  type: 'footer';
+  counts: NdjsonRecordCounts;
+}
+
+/** Edge record. The edge's own type moves to `edgeType`, freeing `type` for the record kind. */
+export type NdjsonEdgeRecord = { type: 'edge'; edgeType: string } & Omit<ExportedEdge, 'type'>;
+
+/** Data records between header and footer */
+export type NdjsonArchiveRecord =
+  | ({ type: 'chunk' } & ExportedChunk)
+  | ({ type: 'vector' } & ExportedVector)
+  | NdjsonEdgeRecord
+  | ({ type: 'cluster' } & ExportedCluster);
+
+/** NDJSON export options */
+export interface NdjsonExportOptions {
+  /** Output file path */
+  outputPath: string;
+  /** Gzip the output */
+  gzip?: boolean;
+  /** Filter by project slugs */
+  projects?: string[];
+  /** Only emit records created at or after this watermark (ISO timestamp) */
+  since?: string;
+  /** Redact file paths */
+  redactPaths?: boolean;
+  /** Redact code blocks */
+  redactCode?: boolean;
+  /** Skip vector embeddings */
+  noVectors?: boolean;
+}
+
+/** NDJSON export result */
+export interface NdjsonExportResult {
+  chunkCount: number;
+  edgeCount: number;
+  clusterCount: number;
+  vectorCount: number;
+  fileSize: number;
+  compressed: boolean;
+  /** Watermark to pass as `since` for the next incremental export */
+  watermark: string;
+  since: string | null;
+}
+
+/** NDJSON import options */
+export interface NdjsonImportOptions {
+  /** Input file path */
+  inputPath: string;
+  /** Merge with existing data (required for incremental archives) */
+  merge?: boolean;
+  /** Validate and report without importing */
+  dryRun?: boolean;
+  /** Records per transaction (default: 500) */
+  batchSize?: number;
+}
+
+/** NDJSON import result */
+export interface NdjsonImportResult {
+  chunkCount: number;
+  edgeCount: number;
+  clusterCount: number;
+  vectorCount: number;
+  /** Edges and cluster members skipped because a referenced chunk is missing */
+  skippedCount: number;
+  /** Records skipped because a previous run already committed them */
+  resumedFrom: number;
+  /** Whether the footer was reached */
+  complete: boolean;
+  dryRun: boolean;
+}
+
+/**
+ * Check whether a file starts with gzip magic bytes.
+ */
+function isGzipFile(filePath: string): boolean {
+  const fd = openSync(filePath, 'r');
+  try {
+    const magic = Buffer.alloc(2);
+    const bytesRead = readSync(fd, magic, 0, 2, 0);
+    return bytesRead === 2 && magic[0] === 0x1f && magic[1] === 0x8b;
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * Open a (possibly gzipped) archive as a text stream.
+ */
+function openArchiveStream(filePath: string): { input: Readable; source: Readable } {
+  const input = createReadStream(filePath);
+  if (!isGzipFile(filePath)) {
+    return { input, source: input };
+  }
+  const gunzip = createGunzip();
+  input.on('error', (error) => gunzip.destroy(error));
+  return { input, source: input.pipe(gunzip) };
+}
+
+/**
+ * Stream archive lines, decompressing if needed.
+ */
+async function* readArchiveLines(filePath: string): AsyncGenerator<string> {
+  const { input, source } = openArchiveStream(filePath);
+  const rl = createInterface({ input: source, crlfDelay: Infinity });
+  try {
+    for await (const line of rl) {
+      yield line;
+    }
+  } finally {
+    rl.close();
+    source.destroy();
+    input.destroy();
+  }
+}
+
+/**
+ * Check whether a file is an NDJSON archive by reading only its first bytes.
+ * Single-document JSON archives (v1.x) and encrypted archives return false.
+ */
+export async function isNdjsonArchive(filePath: string): Promise<boolean> {
+  if (!existsSync(filePath)) return false;
+
+  const { input, source } = openArchiveStream(filePath);
+  let prefix = '';
+  try {
+    for await (const chunk of source) {
+      prefix += (chunk as Buffer).toString('utf-8');
+      if (prefix.length >= HEADER_PREFIX.length) break;
+    }
+  } catch {
+    // Corrupt or truncated gzip — not a readable NDJSON archive
+  } finally {
+    source.destroy();
+    input.destroy();
+  }
+  return prefix.startsWith(HEADER_PREFIX);
+}
+
+/**
+ * Validate a parsed header record.
+ */
+function validateHeader(header: Partial<NdjsonArchiveHeader>): NdjsonArchiveHeader {
+  const errors: string[] = [];
+  if (header.type !== 'header') {
+    errors.push('First record is not a header');
+  }
+  if (header.format !== 'causantic-archive') {
+    errors.push(`Invalid archive format: ${header.format ?? 'missing'}`);
+  }
+  if (header.version !== NDJSON_ARCHIVE_VERSION) {
+    errors.push(`Unsupported archive version: ${header.version ?? 'missing'}`);
+  }
+  if (!header.archiveId) {
+    errors.push('Header is missing archiveId');
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid archive: ${errors.join('; ')}`);
+  }
+  return header as NdjsonArchiveHeader;
+}
+
+/**
+ * Read and validate the header record of an NDJSON archive.
+ * Used to resolve a prior export's watermark for `since`.
+ */
+export async function readArchiveHeader(filePath: string): Promise<NdjsonArchiveHeader> {
+  if (!existsSync(filePath)) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+  for await (const line of readArchiveLines(filePath)) {
+    if (!line.trim()) continue;
+    return validateHeader(parseLine(line, 1) as Partial<NdjsonArchiveHeader>);
+  }
+  throw new Error('Invalid archive: file is empty');
+}
+
+function parseLine(line: string, lineNumber: number): unknown {
+  try {
+    return JSON.parse(line);
+  } catch {
+    throw new Error(`Invalid archive: malformed JSON on line ${lineNumber}`);
+  }
+}
+
+/**
+ * Export memory data as a streaming NDJSON archive.
+ */
+export async function exportNdjsonArchive(
+  options: NdjsonExportOptions,
+): Promise<NdjsonExportResult> {
+  const db = getDb();
+  const watermark = new Date().toISOString();
+  const since = options.since ?? null;
+
+  const projects =
+    options.projects ??
+    (
+      db.prepare('SELECT DISTINCT session_slug FROM chunks ORDER BY session_slug').all() as Array<{
+        session_slug: string;
+      }>
+    ).map((r) => r.session_slug);
+  const inProjects = (alias: string) =>
+    `${alias}.session_slug IN (${sqlPlaceholders(projects.length)})`;
+  const createdSince = (column: string) => (since ? ` AND datetime(${column}) >= datetime(?)` : '');
+  const sinceParams = since ? [since] : [];
+
+  const includeVectors =
+    !options.noVectors &&
+    !!db.prepare("SELECT name FROM sqlite_master WHERE type='table' AND name='vectors'").get();
+  let embeddingDimensions: number | null = null;
+  if (includeVectors) {
+    const sample = db.prepare('SELECT embedding FROM vectors LIMIT 1').get() as
+      | { embedding: Buffer }
+      | undefined;
+    embeddingDimensions = sample ? deserializeEmbedding(sample.embedding).length : null;
+  }
+
+  const header: NdjsonArchiveHeader = {
+    type: 'header',
+    format: 'causantic-archive',
+    version: NDJSON_ARCHIVE_VERSION,
+    archiveId: randomUUID(),
+    created: watermark,
+    watermark,
+    since,
+    projects,
+    embeddingDimensions,
+  };
+  const counts: NdjsonRecordCounts = { chunks: 0, vectors: 0, edges: 0, clusters: 0 };
+  const line = (record: object) => `${JSON.stringify(record)}\n`;
+
+  async function* records(): AsyncGenerator<string> {
+    yield line(header);
+
+    // Chunks
+    const chunkRows = db
+      .prepare(
+        `SELECT c.id, c.session_id, c.session_slug, c.project_path, c.content,
+                c.start_time, c.end_time, c.turn_indices, c.pinned, c.tags,
+                ${ARCHIVED_FACET_COLUMNS}
+         FROM chunks c
+         WHERE ${inProjects('c')}${createdSince('c.created_at')}
+         ORDER BY c.start_time, c.id`,
+      )
+      .iterate(...projects, ...sinceParams) as IterableIterator<
+      ArchivedFacetRow & {
+        id: string;
+        session_id: string;
+        session_slug: string;
+        project_path: string | null;
+        content: string;
+        start_time: string;
+        end_time: string;
+        turn_indices: string;
+        pinned: number | null;
+        tags: string | null;
+      }
+    >;
+    for (const row of chunkRows) {
+      let content = row.content;
+      if (options.redactPaths) content = redactFilePaths(content);
+      if (options.redactCode) content = redactCodeBlocks(content);
+      counts.chunks++;
+      yield line({
+        type: 'chunk',
+        id: row.id,
+        sessionId: row.session_id,
+        sessionSlug: row.session_slug,
+        projectPath: row.project_path,
+        content,
+        startTime: row.start_time,
+        endTime: row.end_time,
+        turnIndices: JSON.parse(row.turn_indices || '[]'),
+        pinned: row.pinned === 1,
+        tags: row.tags ? (JSON.parse(row.tags) as string[]) : [],
+        ...archivedFacetsFromRow(row),
+      });
+    }
+
+    // Vectors for the exported chunks
+    if (includeVectors) {
+      const vectorRows = db
+        .prepare(
+          `SELECT v.id, v.embedding, v.model_id FROM vectors v
+           JOIN chunks c ON c.id = v.id
+           WHERE ${inProjects('c')}${createdSince('c.created_at')}`,
+        )
+        .iterate(...projects, ...sinceParams) as IterableIterator<{
+        id: string;
+        embedding: Buffer;
+        model_id: string;
+      }>;
+      for (const row of vectorRows) {
+        counts.vectors++;
+        yield line({
+          type: 'vector',
+          chunkId: row.id,
+          embedding: deserializeEmbedding(row.embedding),
+          modelId: row.model_id,
+        });
+      }
+    }
+
+    // Edges — both endpoints must be in the exported projects
+    const edgeRows = db
+      .prepare(
+        `SELECT e.id, e.source_chunk_id, e.target_chunk_id, e.edge_type, e.reference_type,
+                e.initial_weight, e.link_count
+         FROM edges e
+         JOIN chunks s ON s.id = e.source_chunk_id
+         JOIN chunks t ON t.id = e.target_chunk_id
+         WHERE ${inProjects('s')} AND ${inProjects('t')}${createdSince('e.created_at')}`,
+      )
+      .iterate(...projects, ...projects, ...sinceParams) as IterableIterator<{
+      id: string;
+      source_chunk_id: string;
+      target_chunk_id: string;
+      edge_type: string;
+      reference_type: string | null;
+      initial_weight: number;
+      link_count: number;
+    }>;
+    for (const row of edgeRows) {
+      counts.edges++;
+      const record: NdjsonEdgeRecord = {
+        type: 'edge',
+        id: row.id,
+        source: row.source_chunk_id,
+        target: row.target_chunk_id,
+        edgeType: row.edge_type,
+        referenceType: row.reference_type,
+        weight: row.initial_weight,
+        linkCount: row.link_count,
+      };
+      yield line(record);
+    }
+
+    // Clusters with their members in the exported projects. Incremental
+    // exports include clusters refreshed since the watermark or that gained
+    // new chunks.
+    const clusterSince = since
+      ? ` AND (datetime(COALESCE(cl.refreshed_at, cl.created_at)) >= datetime(?)
+           OR cl.id IN (
+             SELECT cc2.cluster_id FROM chunk_clusters cc2
+             JOIN chunks c2 ON c2.id = cc2.chunk_id
+             WHERE datetime(c2.created_at) >= datetime(?)))`
+      : '';
+    const memberRows = db
+      .prepare(
+        `SELECT cl.id, cl.name, cl.description, cl.centroid, cl.exemplar_ids, cl.membership_hash,
+                cc.chunk_id, cc.distance
+         FROM clusters cl
+         JOIN chunk_clusters cc ON cc.cluster_id = cl.id
+         JOIN chunks c ON c.id = cc.chunk_id
+         WHERE ${inProjects('c')}${clusterSince}
+         ORDER BY cl.id`,
+      )
+      .iterate(...projects, ...sinceParams, ...sinceParams) as IterableIterator<{
+      id: string;
+      name: string | null;
+      description: string | null;
+      centroid: Buffer | null;
+      exemplar_ids: string | null;
+      membership_hash: string | null;
+      chunk_id: string;
+      distance: number;
+    }>;
+    let cluster: ({ type: 'cluster' } & ExportedCluster) | null = null;
+    for (const row of memberRows) {
+      if (cluster && cluster.id !== row.id) {
+        counts.clusters++;
+        yield line(cluster);
+        cluster = null;
+      }
+      if (!cluster) {
+        cluster = {
+          type: 'cluster',
+          id: row.id,
+          name: row.name,
+          description: row.description,
+          centroid: row.centroid ? deserializeEmbedding(row.centroid) : null,
+          exemplarIds: row.exemplar_ids ? JSON.parse(row.exemplar_ids) : null,
+          membershipHash: row.membership_hash,
+          members: [],
+        };
+      }
+      cluster.members.push({ chunkId: row.chunk_id, distance: row.distance });
+    }
+    if (cluster) {
+      counts.clusters++;
+      yield line(cluster);
+    }
+
+    const footer: NdjsonArchiveFooter = { type: 'footer', counts };
+    yield line(footer);
+  }
+
+  const output = createWriteStream(options.outputPath);
+  if (options.gzip) {
+    await pipeline(Readable.from(records()), createGzip(), output);
+  } else {
+    await pipeline(Readable.from(records()), output);
+  }
+
+  const result: NdjsonExportResult = {
+    chunkCount: counts.chunks,
+    edgeCount: counts.edges,
+    clusterCount: counts.clusters,
+    vectorCount: counts.vectors,
+    fileSize: statSync(options.outputPath).size,
+    compressed: !!options.gzip,
+    watermark,
+    since,
+  };
+
+  log.info('NDJSON export completed', { ...result });
+  return result;
+}
+
+/**
+ * Import memory data from a streaming NDJSON archive.
+ *
+ * Records are applied in batches of `batchSize`, each in one transaction that
+ * also advances the archive's row in `archive_imports`. Re-running an
+ * interrupted import skips the committed records. Edges and cluster members
+ * whose chunks are missing (e.g. an incremental archive imported without its
+ * base) are skipped and counted.
+ */
+export async function importNdjsonArchive(
+  options: NdjsonImportOptions,
+): Promise<NdjsonImportResult> {
+  if (!existsSync(options.inputPath)) {
+    throw new Error(`File not found: ${options.inputPath}`);
+  }
+
+  const batchSize = options.batchSize ?? DEFAULT_IMPORT_BATCH_SIZE;
+  const result: NdjsonImportResult = {
+    chunkCount: 0,
+    edgeCount: 0,
+    clusterCount: 0,
+    vectorCount: 0,
+    skippedCount: 0,
+    resumedFrom: 0,
+    complete: false,
+    dryRun: !!options.dryRun,
+  };
+
+  const lines = readArchiveLines(options.inputPath);
+  let lineNumber = 0;
+  let header: NdjsonArchiveHeader | null = null;
+
+  try {
+    // Read the header with next() so the generator stays open for the records
+    while (!header) {
+      const next = await lines.next();
+      if (next.done) break;
+      lineNumber++;
+      if (!next.value.trim()) continue;
+      header = validateHeader(parseLine(next.value, lineNumber) as Partial<NdjsonArchiveHeader>);
+    }
+    if (!header) {
+      throw new Error('Invalid archive: file is empty');
+    }
+    if (header.since && !options.merge && !options.dryRun) {
+      throw new Error(
+        `Archive is incremental (since ${header.since}) and must be imported with merge`,
+      );
+    }
+
+    const db = options.dryRun ? null : getDb();
+    let batch: NdjsonArchiveRecord[] = [];
+    let apply: (record: NdjsonArchiveRecord) => void = () => {};
+    let commit: (recordsCommitted: number) => void = () => {};
+
+    if (db) {
+      // Ensure vectors table exists
+      db.exec(ARCHIVE_VECTORS_TABLE_SQL);
+
+      const progress = db
+        .prepare('SELECT records_committed, completed_at FROM archive_imports WHERE archive_id = ?')
+        .get(header.archiveId) as
+        | { records_committed: number; completed_at: string | null }
+        | undefined;
+      if (progress && !progress.completed_at) {
+        result.resumedFrom = progress.records_committed;
+        log.info('Resuming archive import', {
+          archiveId: header.archiveId,
+          recordsCommitted: progress.records_committed,
+        });
+      } else {
+        db.prepare(
+          `INSERT INTO archive_imports (archive_id, source_path, records_committed)
+           VALUES (?, ?, 0)
+           ON CONFLICT(archive_id) DO UPDATE SET
+             source_path = excluded.source_path, records_committed = 0,
+             started_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP, completed_at = NULL`,
+        ).run(header.archiveId, options.inputPath);
+      }
+
+      apply = createRecordApplier(db, result);
+      const updateProgress = db.prepare(
+        'UPDATE archive_imports SET records_committed = ?, updated_at = CURRENT_TIMESTAMP WHERE archive_id = ?',
+      );
+      const archiveId = header.archiveId;
+      let needsClear = !options.merge && result.resumedFrom === 0;
+      commit = (recordsCommitted) => {
+        db.transaction(() => {
+          if (needsClear) {
+            db.prepare('DELETE FROM chunk_clusters').run();
+            db.prepare('DELETE FROM clusters').run();
+            db.prepare('DELETE FROM edges').run();
+            db.prepare('DELETE FROM vectors').run();
+            db.prepare('DELETE FROM chunks').run();
+            needsClear = false;
+          }
+          for (const record of batch) {
+            apply(record);
+          }
+          updateProgress.run(recordsCommitted, archiveId);
+        })();
+        batch = [];
+      };
+    }
+
+    let recordIndex = 0;
+
+    for await (const raw of lines) {
+      lineNumber++;
+      if (!raw.trim()) continue;
+      const record = parseLine(raw, lineNumber) as NdjsonArchiveRecord | NdjsonArchiveFooter;
+
+      if (record.type === 'footer') {
+        result.complete = true;
+        break;
+      }
+      if (!['chunk', 'vector', 'edge', 'cluster'].includes(record.type)) {
+        throw new Error(
+          `Invalid archive: unknown record type "${record.type}" on line ${lineNumber}`,
+        );
+      }
+
+      recordIndex++;
+      if (recordIndex <= result.resumedFrom) continue;
+
+      if (options.dryRun) {
+        countRecord(record, result);
+        continue;
+      }
+
+      batch.push(record);
+      if (batch.length >= batchSize) {
+        commit(recordIndex);
+      }
+    }
+
+    if (!options.dryRun) {
+      commit(recordIndex);
+      if (result.complete) {
+        getDb()
+          .prepare(
+            'UPDATE archive_imports SET completed_at = CURRENT_TIMESTAMP WHERE archive_id = ?',
+          )
+          .run(header.archiveId);
+      }
+    }
+  } finally {
+    await lines.return(undefined);
+  }
+
+  if (!result.complete) {
+    log.warn('Archive has no footer record and may be truncated', {
+      path: options.inputPath,
+    });
+  }
+
+  log.info(options.dryRun ? 'Dry run — no changes made' : 'NDJSON import completed', {
+    ...result,
+  });
+  return result;
+}
+
+function countRecord(record: NdjsonArchiveRecord, result: NdjsonImportResult): void {
+  switch (record.type) {
+    case 'chunk':
+      result.chunkCount++;
+      break;
+    case 'vector':
+      result.vectorCount++;
+      break;
+    case 'edge':
+      result.edgeCount++;
+      break;
+    case 'cluster':
+      result.clusterCount++;
+      break;
+  }
+}
+
+/**
+ * Build a function that writes one archive record to the database.
+ * Upserts avoid INSERT OR REPLACE so re-imported chunks keep their edges
+ * and cluster memberships (REPLACE deletes the row, cascading).
+ */
+function createRecordApplier(
+  db: ReturnType<typeof getDb>,
+  result: NdjsonImportResult,
+): (record: NdjsonArchiveRecord) => void {
+  const upsertChunk = db.prepare(`
+    INSERT INTO chunks (id, session_id, session_slug, project_path, content, start_time, end_time, turn_indices, pinned, tags)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      session_id = excluded.session_id, session_slug = excluded.session_slug,
+      project_path = excluded.project_path, content = excluded.content,
+      start_time = excluded.start_time, end_time = excluded.end_time,
+      turn_indices = excluded.turn_indices, pinned = excluded.pinned, tags = excluded.tags
+  `);
+  const writeFacets = createChunkFacetWriter(db);
+  const upsertVector = db.prepare(`
+    INSERT OR REPLACE INTO vectors (id, embedding, orphaned_at, last_accessed, model_id)
+    VALUES (?, ?, NULL, CURRENT_TIMESTAMP, ?)
+  `);
+  const upsertEdge = db.prepare(`
+    INSERT INTO edges (id, source_chunk_id, target_chunk_id, edge_type, reference_type, initial_weight, created_at, link_count)
+    SELECT ?, ?, ?, ?, ?, ?, ?, ?
+    WHERE EXISTS (SELECT 1 FROM chunks WHERE id = ?) AND EXISTS (SELECT 1 FROM chunks WHERE id = ?)
+    ON CONFLICT(id) DO UPDATE SET
+      edge_type = excluded.edge_type, reference_type = excluded.reference_type,
+      initial_weight = excluded.initial_weight, link_count = excluded.link_count
+  `);
+  const upsertCluster = db.prepare(`
+    INSERT INTO clusters (id, name, description, centroid, exemplar_ids, membership_hash)
+    VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      name = excluded.name, description = excluded.description, centroid = excluded.centroid,
+      exemplar_ids = excluded.exemplar_ids, membership_hash = excluded.membership_hash
+  `);
+  const upsertMember = db.prepare(`
+    INSERT INTO chunk_clusters (chunk_id, cluster_id, distance)
+    SELECT ?, ?, ?
+    WHERE EXISTS (SELECT 1 FROM chunks WHERE id = ?)
+    ON CONFLICT(chunk_id, cluster_id) DO UPDATE SET distance = excluded.distance
+  `);
+
+  return (record) => {
+    switch (record.type) {
+      case 'chunk':
+        upsertChunk.run(
+          record.id,
+          record.sessionId ?? '',
+          record.sessionSlug,
+          record.projectPath ?? null,
+          record.content,
+          record.startTime,
+          record.endTime,
+          JSON.stringify(record.turnIndices ?? []),
+          record.pinned ? 1 : 0,
+          record.tags && record.tags.length > 0 ? JSON.stringify(record.tags) : null,
+        );
+        writeFacets(record.id, record);
+        result.chunkCount++;
+        break;
+      case 'vector':
+        upsertVector.run(
+          record.chunkId,
+          serializeEmbedding(record.embedding),
+          record.modelId ?? LEGACY_VECTOR_MODEL,
+        );
+        result.vectorCount++;
+        break;
+      case 'edge': {
+        const { changes } = upsertEdge.run(
+          record.id,
+          record.source,
+          record.target,
+          record.edgeType,
+          record.referenceType ?? null,
+          record.weight,
+          new Date().toISOString(),
+          record.linkCount ?? 1,
+          record.source,
+          record.target,
+        );
+        if (changes > 0) result.edgeCount++;
+        else result.skippedCount++;
+        break;
+      }
+      case 'cluster':
+        upsertCluster.run(
+          record.id,
+          record.name,
+          record.description,
+          record.centroid ? serializeEmbedding(record.centroid) : null,
+          record.exemplarIds ? JSON.stringify(record.exemplarIds) : null,
+          record.membershipHash ?? null,
+        );
+        for (const member of record.members ?? []) {
+          const { changes } = upsertMember.run(
+            member.chunkId,
+            record.id,
+            member.distance,
+            member.chunkId,
+          );
+          if (changes === 0) result.skippedCount++;
+        }
+        result.clusterCount++;
+        break;
+    }
+  };
+}
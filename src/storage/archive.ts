@@ -2,7 +2,8 @@
  * Export/import functionality for Causantic memory data.
  *
  * Supports encrypted and unencrypted archives with optional gzip compression.
- * Archive format v1.1 adds vector embeddings and full cluster data.
+ * Archive format v1.1 adds vector embeddings and full cluster data; v1.2 adds
+ * entities with their aliases and mentions.
  */
 
 import { readFileSync, writeFileSync, existsSync } from 'node:fs';
@@ -11,14 +12,22 @@ import { encrypt, decrypt, serializeEncrypted, deserializeEncrypted } from './en
 import { getDb, generateId, sqlPlaceholders } from './db.js';
 import { serializeEmbedding, deserializeEmbedding } from '../utils/embedding-utils.js';
 import { createLogger } from '../utils/logger.js';
+import { reconcileArchive, type MergeReport } from './archive-merge.js';
+import {
+  ARCHIVED_FACET_COLUMNS,
+  archivedFacetsFromRow,
+  createChunkFacetWriter,
+  type ArchivedChunkFacets,
+  type ArchivedFacetRow,
+} from './chunk-facets.js';
 
 const log = createLogger('archive');
 
 /** Archive format version */
-const ARCHIVE_VERSION = '1.1';
+const ARCHIVE_VERSION = '1.2';
 
 /** Accepted versions on import */
-const ACCEPTED_VERSIONS = ['1.0', '1.1'];
+const ACCEPTED_VERSIONS = ['1.0', '1.1', '1.2'];
 
 /** Magic bytes for encrypted archives */
 const ENCRYPTED_MAGIC = Buffer.from('CST\x00');
@@ -34,12 +43,14 @@ export interface ArchiveMetadata {
   edgeCount: number;
   clusterCount: number;
   vectorCount: number;
+  /** Entities in the archive (v1.2+) */
+  entityCount?: number;
   embeddingDimensions: number | null;
   projects: string[];
 }
 
 /** Chunk data for export */
-export interface ExportedChunk {
+export interface ExportedChunk extends ArchivedChunkFacets {
   id: string;
   sessionId: string;
   sessionSlug: string;
@@ -48,6 +59,10 @@ export interface ExportedChunk {
   startTime: string;
   endTime: string;
   turnIndices: number[];
+  /** Protected from forget and retention; absent in older archives */
+  pinned?: boolean;
+  /** User-supplied tags (notes); absent in older archives */
+  tags?: string[];
 }
 
 /** Edge data for export */
@@ -82,6 +97,39 @@ export interface ExportedCluster {
 export interface ExportedVector {
   chunkId: string;
   embedding: number[];
+  /** Model that produced the embedding; absent in older archives ({@link LEGACY_VECTOR_MODEL}) */
+  modelId?: string;
+}
+
+/** Model of archived vectors that carry no model ID. */
+export const LEGACY_VECTOR_MODEL = 'jina-small';
+
+/** Vectors table as archive imports create it when no vector store has yet. */
+export const ARCHIVE_VECTORS_TABLE_SQL = `
+  CREATE TABLE IF NOT EXISTS vectors (
+    id TEXT PRIMARY KEY,
+    embedding BLOB NOT NULL,
+    orphaned_at TEXT DEFAULT NULL,
+    last_accessed TEXT DEFAULT CURRENT_TIMESTAMP,
+    model_id TEXT DEFAULT '${LEGACY_VECTOR_MODEL}'
+  )
+`;
+
+/** Entity mention in an exported chunk */
+export interface ExportedEntityMention {
+  chunkId: string;
+  mentionForm: string;
+  confidence: number;
+}
+
+/** Entity data for export (v1.2+) */
+export interface ExportedEntity {
+  id: string;
+  entityType: string;
+  canonicalName: string;
+  projectSlug: string;
+  aliases: string[];
+  mentions: ExportedEntityMention[];
 }
 
 /** Complete archive structure */
@@ -94,6 +142,8 @@ export interface Archive {
   edges: ExportedEdge[];
   clusters: ExportedCluster[];
   vectors: ExportedVector[];
+  /** Absent in v1.0/v1.1 archives */
+  entities?: ExportedEntity[];
 }
 
 /** Export options */
@@ -131,6 +181,12 @@ export interface ImportOptions {
   password?: string;
   /** Merge with existing data */
   merge?: boolean;
+  /**
+   * Merge by content instead of by ID: deduplicate chunks, remap edges,
+   * union entity aliases, reconcile clusters, and report conflicts.
+   * Implies merge.
+   */
+  reconcile?: boolean;
   /** Validate and report without importing */
   dryRun?: boolean;
 }
@@ -141,7 +197,10 @@ export interface ImportResult {
   edgeCount: number;
   clusterCount: number;
   vectorCount: number;
+  entityCount: number;
   dryRun: boolean;
+  /** Present when importing with `reconcile` */
+  report?: MergeReport;
 }
 
 /** Validation result */
@@ -185,6 +244,14 @@ export function validateArchive(archive: Archive): ValidationResult {
         `Metadata clusterCount (${archive.metadata.clusterCount}) does not match actual (${archive.clusters?.length ?? 0})`,
       );
     }
+    if (
+      archive.metadata.entityCount !== undefined &&
+      archive.metadata.entityCount !== (archive.entities?.length ?? 0)
+    ) {
+      warnings.push(
+        `Metadata entityCount (${archive.metadata.entityCount}) does not match actual (${archive.entities?.length ?? 0})`,
+      );
+    }
   }
 
   // Edge referential integrity
@@ -242,20 +309,25 @@ export async function exportArchive(options: ExportOptions): Promise<ExportResul
 
   // Export chunks
   const chunksQuery = db.prepare(`
-    SELECT id, session_id, session_slug, project_path, content, start_time, end_time, turn_indices
-    FROM chunks
-    WHERE session_slug IN (${sqlPlaceholders(targetProjects.length)})
+    SELECT c.id, c.session_id, c.session_slug, c.project_path, c.content, c.start_time,
+           c.end_time, c.turn_indices, c.pinned, c.tags, ${ARCHIVED_FACET_COLUMNS}
+    FROM chunks c
+    WHERE c.session_slug IN (${sqlPlaceholders(targetProjects.length)})
   `);
-  const chunksResult = chunksQuery.all(...targetProjects) as Array<{
-    id: string;
-    session_id: string;
-    session_slug: string;
-    project_path: string | null;
-    content: string;
-    start_time: string;
-    end_time: string;
-    turn_indices: string;
-  }>;
+  const chunksResult = chunksQuery.all(...targetProjects) as Array<
+    ArchivedFacetRow & {
+      id: string;
+      session_id: string;
+      session_slug: string;
+      project_path: string | null;
+      content: string;
+      start_time: string;
+      end_time: string;
+      turn_indices: string;
+      pinned: number | null;
+      tags: string | null;
+    }
+  >;
 
   let chunks: ExportedChunk[] = chunksResult.map((row) => ({
     id: row.id,
@@ -266,6 +338,9 @@ export async function exportArchive(options: ExportOptions): Promise<ExportResul
     startTime: row.start_time,
     endTime: row.end_time,
     turnIndices: JSON.parse(row.turn_indices || '[]'),
+    pinned: row.pinned === 1,
+    tags: row.tags ? (JSON.parse(row.tags) as string[]) : [],
+    ...archivedFacetsFromRow(row),
   }));
 
   // Apply redactions
@@ -382,17 +457,19 @@ export async function exportArchive(options: ExportOptions): Promise<ExportResul
       .get();
     if (tableExists) {
       const vectorsQuery = db.prepare(`
-        SELECT id, embedding FROM vectors
+        SELECT id, embedding, model_id FROM vectors
         WHERE id IN (${sqlPlaceholders(chunkIds.length)})
       `);
       const vectorsResult = vectorsQuery.all(...chunkIds) as Array<{
         id: string;
         embedding: Buffer;
+        model_id: string;
       }>;
 
       vectors = vectorsResult.map((row) => ({
         chunkId: row.id,
         embedding: deserializeEmbedding(row.embedding),
+        modelId: row.model_id,
       }));
 
       if (vectors.length > 0) {
@@ -401,6 +478,51 @@ export async function exportArchive(options: ExportOptions): Promise<ExportResul
     }
   }
 
+  // Export entities in the target projects, with mentions in exported chunks
+  const entities: ExportedEntity[] = [];
+  if (targetProjects.length > 0) {
+    const entitiesResult = db
+      .prepare(
+        `SELECT id, entity_type, canonical_name, project_slug FROM entities
+         WHERE project_slug IN (${sqlPlaceholders(targetProjects.length)})`,
+      )
+      .all(...targetProjects) as Array<{
+      id: string;
+      entity_type: string;
+      canonical_name: string;
+      project_slug: string;
+    }>;
+    const aliasesQuery = db.prepare('SELECT alias FROM entity_aliases WHERE entity_id = ?');
+    const mentionsQuery = db.prepare(
+      'SELECT chunk_id, mention_form, confidence FROM entity_mentions WHERE entity_id = ?',
+    );
+
+    for (const row of entitiesResult) {
+      const aliases = (aliasesQuery.all(row.id) as Array<{ alias: string }>).map((a) => a.alias);
+      const mentions = (
+        mentionsQuery.all(row.id) as Array<{
+          chunk_id: string;
+          mention_form: string;
+          confidence: number;
+        }>
+      )
+        .filter((m) => chunkIdSet.has(m.chunk_id))
+        .map((m) => ({
+          chunkId: m.chunk_id,
+          mentionForm: m.mention_form,
+          confidence: m.confidence,
+        }));
+      entities.push({
+        id: row.id,
+        entityType: row.entity_type,
+        canonicalName: row.canonical_name,
+        projectSlug: row.project_slug,
+        aliases,
+        mentions,
+      });
+    }
+  }
+
   // Build archive
   const archive: Archive = {
     format: 'causantic-archive',
@@ -413,6 +535,7 @@ export async function exportArchive(options: ExportOptions): Promise<ExportResul
       edgeCount: edges.length,
       clusterCount: clusters.length,
       vectorCount: vectors.length,
+      entityCount: entities.length,
       embeddingDimensions,
       projects: targetProjects,
     },
@@ -420,6 +543,7 @@ export async function exportArchive(options: ExportOptions): Promise<ExportResul
     edges,
     clusters,
     vectors,
+    entities,
   };
 
   // Serialize: JSON -> gzip -> (optional) encrypt -> write
@@ -502,19 +626,30 @@ export async function importArchive(options: ImportOptions): Promise<ImportResul
     throw new Error(`Invalid archive: ${validation.errors.join('; ')}`);
   }
 
-  // Normalize v1.0 archives
+  // Normalize v1.0/v1.1 archives
   if (!archive.vectors) {
     archive.vectors = [];
   }
+  const entities = archive.entities ?? [];
 
   const result: ImportResult = {
     chunkCount: archive.chunks.length,
     edgeCount: archive.edges.length,
     clusterCount: archive.clusters.length,
     vectorCount: archive.vectors.length,
+    entityCount: entities.length,
     dryRun: !!options.dryRun,
   };
 
+  if (options.reconcile) {
+    result.report = reconcileArchive(archive, { dryRun: options.dryRun });
+    log.info(options.dryRun ? 'Dry run — no changes made' : 'Reconciling import completed', {
+      ...result.report.counts,
+      conflicts: result.report.conflicts.length,
+    });
+    return result;
+  }
+
   if (options.dryRun) {
     log.info('Dry run — no changes made', { ...result });
     return result;
@@ -523,14 +658,7 @@ export async function importArchive(options: ImportOptions): Promise<ImportResul
   const db = getDb();
 
   // Ensure vectors table exists
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS vectors (
-      id TEXT PRIMARY KEY,
-      embedding BLOB NOT NULL,
-      orphaned_at TEXT DEFAULT NULL,
-      last_accessed TEXT DEFAULT CURRENT_TIMESTAMP
-    )
-  `);
+  db.exec(ARCHIVE_VECTORS_TABLE_SQL);
 
   // Start transaction
   const transaction = db.transaction(() => {
@@ -541,13 +669,15 @@ export async function importArchive(options: ImportOptions): Promise<ImportResul
       db.prepare('DELETE FROM edges').run();
       db.prepare('DELETE FROM vectors').run();
       db.prepare('DELETE FROM chunks').run();
+      db.prepare('DELETE FROM entities').run();
     }
 
     // Import chunks
     const insertChunk = db.prepare(`
-      INSERT OR REPLACE INTO chunks (id, session_id, session_slug, project_path, content, start_time, end_time, turn_indices)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT OR REPLACE INTO chunks (id, session_id, session_slug, project_path, content, start_time, end_time, turn_indices, pinned, tags)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
+    const writeFacets = createChunkFacetWriter(db);
     for (const chunk of archive.chunks) {
       insertChunk.run(
         chunk.id,
@@ -558,7 +688,10 @@ export async function importArchive(options: ImportOptions): Promise<ImportResul
         chunk.startTime,
         chunk.endTime,
         JSON.stringify(chunk.turnIndices),
+        chunk.pinned ? 1 : 0,
+        chunk.tags && chunk.tags.length > 0 ? JSON.stringify(chunk.tags) : null,
       );
+      writeFacets(chunk.id, chunk);
     }
 
     // Import edges
@@ -614,11 +747,45 @@ export async function importArchive(options: ImportOptions): Promise<ImportResul
     // Import vectors
     if (archive.vectors.length > 0) {
       const insertVector = db.prepare(`
-        INSERT OR REPLACE INTO vectors (id, embedding, orphaned_at, last_accessed)
-        VALUES (?, ?, NULL, CURRENT_TIMESTAMP)
+        INSERT OR REPLACE INTO vectors (id, embedding, orphaned_at, last_accessed, model_id)
+        VALUES (?, ?, NULL, CURRENT_TIMESTAMP, ?)
       `);
       for (const vector of archive.vectors) {
-        insertVector.run(vector.chunkId, serializeEmbedding(vector.embedding));
+        insertVector.run(
+          vector.chunkId,
+          serializeEmbedding(vector.embedding),
+          vector.modelId ?? LEGACY_VECTOR_MODEL,
+        );
+      }
+    }
+
+    // Import entities (v1.2+). Existing entities and aliases are kept;
+    // mentions are only imported for chunks that exist.
+    const insertEntity = db.prepare(`
+      INSERT OR IGNORE INTO entities (id, entity_type, canonical_name, project_slug)
+      VALUES (?, ?, ?, ?)
+    `);
+    const insertAlias = db.prepare(`
+      INSERT OR IGNORE INTO entity_aliases (alias, entity_id, entity_type, project_slug)
+      VALUES (?, ?, ?, ?)
+    `);
+    const insertMention = db.prepare(`
+      INSERT OR IGNORE INTO entity_mentions (chunk_id, entity_id, mention_form, confidence)
+      SELECT ?, ?, ?, ? WHERE EXISTS (SELECT 1 FROM chunks WHERE id = ?)
+    `);
+    for (const entity of entities) {
+      insertEntity.run(entity.id, entity.entityType, entity.canonicalName, entity.projectSlug);
+      for (const alias of entity.aliases) {
+        insertAlias.run(alias, entity.id, entity.entityType, entity.projectSlug);
+      }
+      for (const mention of entity.mentions) {
+        insertMention.run(
+          mention.chunkId,
+          entity.id,
+          mention.mentionForm,
+          mention.confidence,
+          mention.chunkId,
+        );
       }
     }
   });
@@ -632,7 +799,7 @@ export async function importArchive(options: ImportOptions): Promise<ImportResul
 /**
  * Redact file paths in content.
  */
-function redactFilePaths(content: string): string {
+export function redactFilePaths(content: string): string {
   const pathPattern = /(?:\/[\w.-]+)+\.\w+|(?:[A-Z]:\\[\w.-\\]+)|(?:~\/[\w.-\/]+)/g;
   return content.replace(pathPattern, '[REDACTED_PATH]');
 }
@@ -640,7 +807,7 @@ function redactFilePaths(content: string): string {
 /**
  * Redact code blocks in content.
  */
-function redactCodeBlocks(content: string): string {
+export function redactCodeBlocks(content: string): string {
   const codeBlockPattern = /```[\s\S]*?```/g;
   return content.replace(codeBlockPattern, '```\n[REDACTED_CODE]\n```');
 }
@@ -0,0 +1,249 @@
+/**
+ * Faceted chunk filters backed by indexed columns.
+ *
+ * Facets narrow search to chunks by how they were produced: the tools they
+ * used (`chunk_tools`), the files their session touched (`session_states`) or
+ * they link to (`chunk_code_refs`), whether a tool call failed or a code block
+ * was written, and the agent team and spawn depth that produced them. Each
+ * facet is a SQL condition on an indexed column or table, so keyword search
+ * applies them inside its FTS query and vector search keeps only the matching
+ * chunks.
+ */
+
+import { getDb, sqlPlaceholders } from './db.js';
+
+/** Facet filters on chunks. Omitted facets don't filter. */
+export interface ChunkFacets {
+  /** Chunks that used any of these tools (e.g. "Bash", "Edit") */
+  tools?: string[];
+  /** Minimum number of tool uses */
+  minToolUses?: number;
+  /** Maximum number of tool uses */
+  maxToolUses?: number;
+  /**
+   * Chunks whose session touched any of these files (per session state), or
+   * that are linked to one of them. Matches stored paths exactly or by
+   * trailing path segments, so "db.ts" finds "src/storage/db.ts".
+   */
+  files?: string[];
+  /** true: only chunks with a failed tool call; false: only chunks without */
+  hasErrors?: boolean;
+  /** true: only chunks with code blocks; false: only chunks without */
+  hasCode?: boolean;
+  /** Agent team name */
+  team?: string;
+  /** Agent nesting depth: 0 = main agent, 1 = sub-agent, ... */
+  spawnDepth?: number;
+  /** ISO lower bound on chunk start time (inclusive) */
+  after?: string;
+}
+
+/** Scope that storage-level searches already apply alongside facets. */
+export interface FacetScope {
+  projects?: string | string[];
+  agentId?: string;
+  /** ISO upper bound on chunk start time (exclusive) */
+  before?: string;
+}
+
+/**
+ * Whether any facet is set.
+ */
+export function hasFacets(facets: ChunkFacets | undefined): facets is ChunkFacets {
+  if (!facets) return false;
+  return Object.entries(facets).some(([, value]) =>
+    Array.isArray(value) ? value.length > 0 : value !== undefined,
+  );
+}
+
+/**
+ * SQL condition matching a stored path column against one requested path:
+ * exactly, or by trailing path segments in either direction. Takes 4 params.
+ */
+function pathMatches(column: string): string {
+  return `(${column} = ? OR substr(${column}, -length(?) - 1) = '/' || ? OR substr(?, -length(${column}) - 1) = '/' || ${column})`;
+}
+
+/**
+ * Build SQL conditions for facets on a chunks table alias.
+ *
+ * @returns Conditions to AND into a WHERE clause, with their parameters in order
+ */
+export function buildFacetConditions(
+  facets: ChunkFacets,
+  alias: string = 'chunks',
+): { conditions: string[]; params: unknown[] } {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  if (facets.tools && facets.tools.length > 0) {
+    conditions.push(
+      `${alias}.id IN (SELECT chunk_id FROM chunk_tools WHERE tool_name IN (${sqlPlaceholders(facets.tools.length)}))`,
+    );
+    params.push(...facets.tools);
+  }
+  if (facets.minToolUses !== undefined) {
+    conditions.push(`${alias}.tool_use_count >= ?`);
+    params.push(facets.minToolUses);
+  }
+  if (facets.maxToolUses !== undefined) {
+    conditions.push(`${alias}.tool_use_count <= ?`);
+    params.push(facets.maxToolUses);
+  }
+  if (facets.files && facets.files.length > 0) {
+    const stateMatches = facets.files.map(() => pathMatches('f.value')).join(' OR ');
+    const refMatches = facets.files.map(() => pathMatches('file_path')).join(' OR ');
+    conditions.push(
+      `(${alias}.session_id IN (SELECT s.session_id FROM session_states s, json_each(s.files_touched) f WHERE ${stateMatches})` +
+        ` OR ${alias}.id IN (SELECT chunk_id FROM chunk_code_refs WHERE ${refMatches}))`,
+    );
+    for (let i = 0; i < 2; i++) {
+      for (const file of facets.files) params.push(file, file, file, file);
+    }
+  }
+  if (facets.hasErrors !== undefined) {
+    conditions.push(
+      facets.hasErrors ? `${alias}.tool_error_count > 0` : `${alias}.tool_error_count = 0`,
+    );
+  }
+  if (facets.hasCode !== undefined) {
+    conditions.push(
+      facets.hasCode ? `${alias}.code_block_count > 0` : `${alias}.code_block_count = 0`,
+    );
+  }
+  if (facets.team !== undefined) {
+    conditions.push(`${alias}.team_name = ?`);
+    params.push(facets.team);
+  }
+  if (facets.spawnDepth !== undefined) {
+    conditions.push(`${alias}.spawn_depth = ?`);
+    params.push(facets.spawnDepth);
+  }
+  if (facets.after !== undefined) {
+    conditions.push(`${alias}.start_time >= ?`);
+    params.push(facets.after);
+  }
+
+  return { conditions, params };
+}
+
+/**
+ * Get ids of chunks matching facets within a scope.
+ */
+export function queryChunkIdsByFacets(facets: ChunkFacets, scope: FacetScope = {}): Set<string> {
+  const { conditions, params } = buildFacetConditions(facets, 'c');
+
+  if (scope.projects !== undefined) {
+    const projects = [scope.projects].flat();
+    if (projects.length === 0) return new Set();
+    conditions.push(`c.session_slug IN (${sqlPlaceholders(projects.length)})`);
+    params.push(...projects);
+  }
+  if (scope.agentId) {
+    conditions.push('c.agent_id = ?');
+    params.push(scope.agentId);
+  }
+  if (scope.before) {
+    conditions.push('c.start_time < ?');
+    params.push(scope.before);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const rows = getDb()
+    .prepare(`SELECT c.id FROM chunks c ${where}`)
+    .all(...params) as Array<{ id: string }>;
+  return new Set(rows.map((row) => row.id));
+}
+
+/** Facet data carried by archived chunks; archives from before v22 omit it. */
+export interface ArchivedChunkFacets {
+  codeBlockCount?: number;
+  toolUseCount?: number;
+  toolErrorCount?: number;
+  toolNames?: string[];
+  agentId?: string | null;
+  spawnDepth?: number;
+  teamName?: string | null;
+}
+
+/** Columns to select (on chunks alias `c`) when exporting facet data. */
+export const ARCHIVED_FACET_COLUMNS = `c.code_block_count, c.tool_use_count, c.tool_error_count,
+  c.agent_id, c.spawn_depth, c.team_name,
+  (SELECT json_group_array(tool_name) FROM chunk_tools t WHERE t.chunk_id = c.id) AS tool_names`;
+
+/** Row shape of {@link ARCHIVED_FACET_COLUMNS}. */
+export interface ArchivedFacetRow {
+  code_block_count: number | null;
+  tool_use_count: number | null;
+  tool_error_count: number | null;
+  agent_id: string | null;
+  spawn_depth: number | null;
+  team_name: string | null;
+  tool_names: string;
+}
+
+/**
+ * Map exported facet columns to archive fields.
+ */
+export function archivedFacetsFromRow(row: ArchivedFacetRow): ArchivedChunkFacets {
+  return {
+    codeBlockCount: row.code_block_count ?? 0,
+    toolUseCount: row.tool_use_count ?? 0,
+    toolErrorCount: row.tool_error_count ?? 0,
+    toolNames: JSON.parse(row.tool_names) as string[],
+    agentId: row.agent_id,
+    spawnDepth: row.spawn_depth ?? 0,
+    teamName: row.team_name,
+  };
+}
+
+/**
+ * Recover tool and code block facets from rendered chunk content: `[Tool:Name]`
+ * markers and code fences. Tool errors aren't rendered, so none are counted.
+ */
+export function facetsFromContent(content: string): ArchivedChunkFacets {
+  const toolMarkers = [...content.matchAll(/\[Tool:([\w-]+)\]/g)].map((match) => match[1]);
+  const fences = content.match(/```/g)?.length ?? 0;
+  return {
+    codeBlockCount: Math.floor(fences / 2),
+    toolUseCount: toolMarkers.length,
+    toolErrorCount: 0,
+    toolNames: [...new Set(toolMarkers)],
+  };
+}
+
+/**
+ * Build a function that writes an imported chunk's facet columns and tool
+ * names, falling back to what its content reveals when the archive has none.
+ */
+export function createChunkFacetWriter(
+  db: ReturnType<typeof getDb>,
+): (chunkId: string, chunk: ArchivedChunkFacets & { content: string }) => void {
+  const updateChunk = db.prepare(`
+    UPDATE chunks SET
+      code_block_count = ?, tool_use_count = ?, tool_error_count = ?,
+      agent_id = ?, spawn_depth = ?, team_name = ?
+    WHERE id = ?
+  `);
+  const clearTools = db.prepare('DELETE FROM chunk_tools WHERE chunk_id = ?');
+  const insertTool = db.prepare(
+    'INSERT OR IGNORE INTO chunk_tools (chunk_id, tool_name) VALUES (?, ?)',
+  );
+
+  return (chunkId, chunk) => {
+    const derived = chunk.toolNames === undefined ? facetsFromContent(chunk.content) : {};
+    updateChunk.run(
+      chunk.codeBlockCount ?? derived.codeBlockCount ?? 0,
+      chunk.toolUseCount ?? derived.toolUseCount ?? 0,
+      chunk.toolErrorCount ?? 0,
+      chunk.agentId ?? null,
+      chunk.spawnDepth ?? 0,
+      chunk.teamName ?? null,
+      chunkId,
+    );
+    clearTools.run(chunkId);
+    for (const toolName of chunk.toolNames ?? derived.toolNames ?? []) {
+      insertTool.run(chunkId, toolName);
+    }
+  };
+}
@@ -25,10 +25,13 @@ export function insertChunks(chunks: ChunkInput[]): string[] {
   const stmt = db.prepare(`
     INSERT OR IGNORE INTO chunks (
       id, session_id, session_slug, turn_indices, start_time, end_time,
-      content, code_block_count, tool_use_count, approx_tokens,
-      agent_id, spawn_depth, project_path, team_name
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      content, code_block_count, tool_use_count, tool_error_count, approx_tokens,
+      agent_id, spawn_depth, project_path, team_name, pinned, tags
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
+  const toolStmt = db.prepare(
+    'INSERT OR IGNORE INTO chunk_tools (chunk_id, tool_name) VALUES (?, ?)',
+  );
 
   const insertMany = db.transaction((chunks: ChunkInput[]) => {
     for (const chunk of chunks) {
@@ -43,12 +46,18 @@ export function insertChunks(chunks: ChunkInput[]): string[] {
         chunk.content,
         chunk.codeBlockCount,
         chunk.toolUseCount,
+        chunk.toolErrorCount ?? 0,
         chunk.approxTokens,
         chunk.agentId ?? null,
         chunk.spawnDepth ?? 0,
         chunk.projectPath ?? null,
         chunk.teamName ?? null,
+        chunk.pinned ? 1 : 0,
+        chunk.tags && chunk.tags.length > 0 ? JSON.stringify(chunk.tags) : null,
       );
+      for (const toolName of chunk.toolNames ?? []) {
+        toolStmt.run(id, toolName);
+      }
       ids.push(id);
     }
   });
@@ -261,6 +270,66 @@ export function getChunkIdsByProject(projectSlug: string): string[] {
   return rows.map((r) => r.id);
 }
 
+/**
+ * Get the project slugs whose chunks were recorded in a project directory.
+ */
+export function getProjectSlugsForPath(projectPath: string): string[] {
+  const db = getDb();
+  const rows = db
+    .prepare('SELECT DISTINCT session_slug FROM chunks WHERE project_path = ?')
+    .all(projectPath) as { session_slug: string }[];
+  return rows.map((r) => r.session_slug);
+}
+
+/**
+ * Get the directory a project slug was most recently recorded in.
+ * Returns null when none of the project's chunks carry a path.
+ */
+export function getProjectPathForSlug(projectSlug: string): string | null {
+  const db = getDb();
+  const row = db
+    .prepare(
+      'SELECT project_path FROM chunks WHERE session_slug = ? AND project_path IS NOT NULL ORDER BY start_time DESC LIMIT 1',
+    )
+    .get(projectSlug) as { project_path: string } | undefined;
+  return row?.project_path ?? null;
+}
+
+/**
+ * A session with chunks inserted after an ingestion watermark.
+ */
+export interface IngestedSession {
+  sessionId: string;
+  sessionSlug: string;
+}
+
+/**
+ * Get the current ingestion watermark: the last ingestion sequence number handed out.
+ * The sequence only grows, even as chunks are deleted, so a changed watermark means new chunks.
+ */
+export function getIngestionWatermark(): number {
+  const db = getDb();
+  const row = db.prepare('SELECT value FROM ingestion_sequence WHERE id = 1').get() as
+    | { value: number }
+    | undefined;
+  return row?.value ?? 0;
+}
+
+/**
+ * Get the sessions with chunks inserted after a watermark from getIngestionWatermark().
+ */
+export function getSessionsIngestedAfter(watermark: number): IngestedSession[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT session_id AS sessionId, session_slug AS sessionSlug
+       FROM chunks WHERE ingest_seq > ?
+       GROUP BY session_id, session_slug
+       ORDER BY MIN(ingest_seq)`,
+    )
+    .all(watermark) as IngestedSession[];
+}
+
 /**
  * Project summary info.
  */
@@ -314,6 +383,17 @@ export function getDistinctProjects(): ProjectInfo[] {
   return rows;
 }
 
+/**
+ * Get distinct agent ids that have created chunks, sorted.
+ */
+export function getDistinctAgents(): string[] {
+  const db = getDb();
+  const rows = db
+    .prepare('SELECT DISTINCT agent_id FROM chunks WHERE agent_id IS NOT NULL ORDER BY agent_id')
+    .all() as Array<{ agent_id: string }>;
+  return rows.map((row) => row.agent_id);
+}
+
 /**
  * Session summary info.
  */
@@ -480,6 +560,34 @@ export function queryChunkIds(filters: ChunkQueryFilters): string[] {
   return rows.map((r) => r.id);
 }
 
+/**
+ * Return the subset of the given chunk IDs that are pinned.
+ * Used by forget and retention to protect pinned chunks from deletion.
+ */
+export function getPinnedChunkIds(ids: string[]): Set<string> {
+  if (ids.length === 0) {
+    return new Set();
+  }
+
+  const db = getDb();
+  const placeholders = sqlPlaceholders(ids.length);
+  const rows = db
+    .prepare(`SELECT id FROM chunks WHERE pinned = 1 AND id IN (${placeholders})`)
+    .all(...ids) as { id: string }[];
+  return new Set(rows.map((r) => r.id));
+}
+
+/**
+ * Set or clear the pinned flag on a chunk.
+ *
+ * @returns true if the chunk exists
+ */
+export function setChunkPinned(id: string, pinned: boolean): boolean {
+  const db = getDb();
+  const result = db.prepare('UPDATE chunks SET pinned = ? WHERE id = ?').run(pinned ? 1 : 0, id);
+  return result.changes > 0;
+}
+
 // Internal types and helpers
 
 interface DbChunkRow {
@@ -492,12 +600,15 @@ interface DbChunkRow {
   content: string;
   code_block_count: number;
   tool_use_count: number;
+  tool_error_count?: number | null;
   approx_tokens: number;
   created_at: string;
   agent_id: string | null;
   spawn_depth: number | null;
   project_path: string | null;
   team_name: string | null;
+  pinned?: number | null;
+  tags?: string | null;
 }
 
 function rowToChunk(row: DbChunkRow): StoredChunk {
@@ -511,11 +622,14 @@ function rowToChunk(row: DbChunkRow): StoredChunk {
     content: row.content,
     codeBlockCount: row.code_block_count,
     toolUseCount: row.tool_use_count,
+    toolErrorCount: row.tool_error_count ?? 0,
     approxTokens: row.approx_tokens,
     createdAt: row.created_at,
     agentId: row.agent_id,
     spawnDepth: row.spawn_depth ?? 0,
     projectPath: row.project_path,
     teamName: row.team_name,
+    pinned: row.pinned === 1,
+    tags: row.tags ? (JSON.parse(row.tags) as string[]) : [],
   };
 }
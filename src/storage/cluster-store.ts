@@ -237,6 +237,57 @@ export function getClusterProjectRelevance(
     .sort((a, b) => b.relevance - a.relevance);
 }
 
+/** Project chunks a cluster gained since a cutoff. */
+export interface ClusterMembershipChange {
+  clusterId: string;
+  name: string | null;
+  /** Project chunks starting at or after the cutoff */
+  newMembers: number;
+  /** Project chunks starting before the cutoff */
+  priorMembers: number;
+}
+
+/**
+ * Get clusters that gained project chunks since a cutoff.
+ * Membership is judged by chunk start time, so results survive full reclusters
+ * (which replace cluster IDs). Clusters with priorMembers = 0 are new topics.
+ */
+export function getClusterMembershipChanges(
+  projectSlug: string,
+  since: string,
+): ClusterMembershipChange[] {
+  const db = getDb();
+  const rows = db
+    .prepare(
+      `
+      SELECT cl.id AS cluster_id,
+             cl.name,
+             SUM(CASE WHEN c.start_time >= ? THEN 1 ELSE 0 END) AS new_members,
+             SUM(CASE WHEN c.start_time < ? THEN 1 ELSE 0 END) AS prior_members
+      FROM chunk_clusters cc
+      JOIN chunks c ON cc.chunk_id = c.id
+      JOIN clusters cl ON cc.cluster_id = cl.id
+      WHERE c.session_slug = ?
+      GROUP BY cl.id
+      HAVING new_members > 0
+      ORDER BY new_members DESC, cl.id
+    `,
+    )
+    .all(since, since, projectSlug) as Array<{
+    cluster_id: string;
+    name: string | null;
+    new_members: number;
+    prior_members: number;
+  }>;
+
+  return rows.map((r) => ({
+    clusterId: r.cluster_id,
+    name: r.name,
+    newMembers: r.new_members,
+    priorMembers: r.prior_members,
+  }));
+}
+
 /**
  * Remove all cluster assignments for a chunk.
  */
@@ -0,0 +1,136 @@
+/**
+ * CRUD operations for chunk_code_refs table.
+ *
+ * Links memory chunks to the files and symbols they touch or mention,
+ * populated during ingestion. File paths are relative to the project root
+ * when the file lies inside it, so lookups match repo map paths.
+ */
+
+import { getDb } from './db.js';
+
+/**
+ * How a link was found:
+ * - tool: file path passed to a tool call (Read, Edit, Write, ...)
+ * - mention: file path written in the chunk text
+ * - symbol: identifier in the chunk text matching a repo map definition
+ */
+export type CodeRefSource = 'tool' | 'mention' | 'symbol';
+
+/** A link from a chunk to a file, optionally narrowed to a symbol. */
+export interface CodeRef {
+  filePath: string;
+  /** Defined symbol the chunk mentions; omitted for file-level links. */
+  symbol?: string;
+  source: CodeRefSource;
+}
+
+/** A chunk linked to a file. */
+export interface FileChunkRef {
+  chunkId: string;
+  sessionId: string;
+  sessionSlug: string;
+  startTime: string;
+  content: string;
+  /** Symbols of the file the chunk mentions, sorted. */
+  symbols: string[];
+  /** How the chunk was linked, sorted. */
+  sources: CodeRefSource[];
+}
+
+/**
+ * Insert code refs for a chunk.
+ * Uses INSERT OR IGNORE to handle re-ingestion safely.
+ */
+export function insertCodeRefs(chunkId: string, refs: CodeRef[]): void {
+  if (refs.length === 0) return;
+
+  const db = getDb();
+  const insert = db.prepare(
+    'INSERT OR IGNORE INTO chunk_code_refs (chunk_id, file_path, symbol, source) VALUES (?, ?, ?, ?)',
+  );
+  db.transaction(() => {
+    for (const ref of refs) {
+      insert.run(chunkId, ref.filePath, ref.symbol ?? '', ref.source);
+    }
+  })();
+}
+
+/**
+ * Get code refs recorded for a chunk.
+ */
+export function getCodeRefsForChunk(chunkId: string): CodeRef[] {
+  const db = getDb();
+  const rows = db
+    .prepare(
+      `SELECT file_path, symbol, source FROM chunk_code_refs
+       WHERE chunk_id = ? ORDER BY file_path, symbol`,
+    )
+    .all(chunkId) as Array<{ file_path: string; symbol: string; source: CodeRefSource }>;
+
+  return rows.map((row) => ({
+    filePath: row.file_path,
+    ...(row.symbol ? { symbol: row.symbol } : {}),
+    source: row.source,
+  }));
+}
+
+/**
+ * Get the most recent chunks of a project linked to a file, newest first.
+ */
+export function getChunksForFile(
+  projectPath: string,
+  filePath: string,
+  limit: number = 10,
+): FileChunkRef[] {
+  const db = getDb();
+  const rows = db
+    .prepare(
+      `SELECT r.chunk_id, r.symbol, r.source,
+              c.session_id, c.session_slug, c.start_time, c.content
+       FROM chunk_code_refs r
+       JOIN chunks c ON c.id = r.chunk_id
+       WHERE r.file_path = ? AND r.chunk_id IN (
+         SELECT DISTINCT r2.chunk_id FROM chunk_code_refs r2
+         JOIN chunks c2 ON c2.id = r2.chunk_id
+         WHERE r2.file_path = ? AND c2.project_path = ?
+         ORDER BY c2.start_time DESC
+         LIMIT ?
+       )
+       ORDER BY c.start_time DESC, r.chunk_id`,
+    )
+    .all(filePath, filePath, projectPath, limit) as Array<{
+    chunk_id: string;
+    symbol: string;
+    source: CodeRefSource;
+    session_id: string;
+    session_slug: string;
+    start_time: string;
+    content: string;
+  }>;
+
+  const byChunk = new Map<string, FileChunkRef>();
+  for (const row of rows) {
+    let entry = byChunk.get(row.chunk_id);
+    if (!entry) {
+      entry = {
+        chunkId: row.chunk_id,
+        sessionId: row.session_id,
+        sessionSlug: row.session_slug,
+        startTime: row.start_time,
+        content: row.content,
+        symbols: [],
+        sources: [],
+      };
+      byChunk.set(row.chunk_id, entry);
+    }
+    if (row.symbol && !entry.symbols.includes(row.symbol)) entry.symbols.push(row.symbol);
+    if (!entry.sources.includes(row.source)) entry.sources.push(row.source);
+  }
+
+  const entries = [...byChunk.values()];
+  for (const entry of entries) {
+    entry.symbols.sort();
+    entry.sources.sort();
+  }
+  return entries;
+}
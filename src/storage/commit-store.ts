@@ -0,0 +1,240 @@
+/**
+ * CRUD operations for git_commits, commit_chunks, pull_requests and
+ * pull_request_chunks tables.
+ *
+ * Records commits made during sessions (resolved against the project's git
+ * repository at ingestion) and the chunks whose turns made them, so retrieval
+ * can walk from a commit back to the conversation that produced it. Pull
+ * requests opened with `gh pr create` are linked to chunks the same way.
+ */
+
+import { getDb } from './db.js';
+
+/** Lines changed in one file by a commit. */
+export interface CommitFileStat {
+  path: string;
+  /** Lines added; 0 for binary files. */
+  insertions: number;
+  /** Lines removed; 0 for binary files. */
+  deletions: number;
+}
+
+/** A commit to record. */
+export interface CommitInput {
+  /** Full SHA, or the abbreviated one when it could not be resolved. */
+  sha: string;
+  projectPath: string;
+  sessionId: string;
+  sessionSlug: string;
+  subject: string;
+  /** Commit time (ISO 8601); null when the commit could not be read from git. */
+  committedAt: string | null;
+  files: CommitFileStat[];
+  /** Patch, capped in size; null or omitted when it could not be read. */
+  patch?: string | null;
+  /** Chunks whose turns made the commit. */
+  chunkIds: string[];
+}
+
+/** A stored commit with its linked chunks. */
+export interface StoredCommit extends CommitInput {
+  patch: string | null;
+  createdAt: string;
+}
+
+/** A pull request to record. */
+export interface PullRequestInput {
+  url: string;
+  number: number;
+  projectPath: string;
+  sessionId: string;
+  sessionSlug: string;
+  /** Empty when the title wasn't given on the command line. */
+  title: string;
+  /** When the pull request was opened (ISO 8601). */
+  openedAt: string;
+  /** Chunks whose turns opened the pull request. */
+  chunkIds: string[];
+}
+
+/** A stored pull request with its linked chunks. */
+export interface StoredPullRequest extends PullRequestInput {
+  createdAt: string;
+}
+
+/** Row shape from SQLite (JSON columns as strings). */
+interface DbCommitRow {
+  sha: string;
+  project_path: string;
+  session_id: string;
+  session_slug: string;
+  subject: string;
+  committed_at: string | null;
+  files: string;
+  patch: string | null;
+  created_at: string;
+}
+
+/** Row shape of pull_requests. */
+interface DbPullRequestRow {
+  url: string;
+  number: number;
+  project_path: string;
+  session_id: string;
+  session_slug: string;
+  title: string;
+  opened_at: string;
+  created_at: string;
+}
+
+/** SHA prefixes shorter than this are too ambiguous to look up. */
+const MIN_SHA_PREFIX = 4;
+
+/**
+ * Attach linked chunk IDs to commit rows.
+ */
+function rowsToCommits(rows: DbCommitRow[]): StoredCommit[] {
+  if (rows.length === 0) return [];
+
+  const db = getDb();
+  const linkStmt = db.prepare('SELECT chunk_id FROM commit_chunks WHERE sha = ? ORDER BY chunk_id');
+
+  return rows.map((row) => ({
+    sha: row.sha,
+    projectPath: row.project_path,
+    sessionId: row.session_id,
+    sessionSlug: row.session_slug,
+    subject: row.subject,
+    committedAt: row.committed_at,
+    files: JSON.parse(row.files),
+    patch: row.patch,
+    chunkIds: (linkStmt.all(row.sha) as Array<{ chunk_id: string }>).map((r) => r.chunk_id),
+    createdAt: row.created_at,
+  }));
+}
+
+/**
+ * Insert or update a commit and link it to its chunks.
+ * Existing chunk links are kept, so re-ingestion only adds links.
+ */
+export function upsertCommit(input: CommitInput): void {
+  const db = getDb();
+  const upsert = db.prepare(`
+    INSERT INTO git_commits
+      (sha, project_path, session_id, session_slug, subject, committed_at, files, patch)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT (sha) DO UPDATE SET
+      subject = excluded.subject,
+      committed_at = COALESCE(excluded.committed_at, git_commits.committed_at),
+      files = CASE WHEN excluded.files != '[]' THEN excluded.files ELSE git_commits.files END,
+      patch = COALESCE(excluded.patch, git_commits.patch)
+  `);
+  const link = db.prepare('INSERT OR IGNORE INTO commit_chunks (sha, chunk_id) VALUES (?, ?)');
+
+  db.transaction(() => {
+    upsert.run(
+      input.sha,
+      input.projectPath,
+      input.sessionId,
+      input.sessionSlug,
+      input.subject,
+      input.committedAt,
+      JSON.stringify(input.files),
+      input.patch ?? null,
+    );
+    for (const chunkId of input.chunkIds) {
+      link.run(input.sha, chunkId);
+    }
+  })();
+}
+
+/**
+ * Find commits whose SHA starts with a prefix, optionally within projects.
+ * Returns an empty list for prefixes that are too short or not hexadecimal.
+ */
+export function getCommitsByPrefix(prefix: string, projects?: string[]): StoredCommit[] {
+  if (prefix.length < MIN_SHA_PREFIX || !/^[0-9a-f]+$/i.test(prefix)) return [];
+
+  const db = getDb();
+  const params: unknown[] = [`${prefix.toLowerCase()}%`];
+  let sql = 'SELECT * FROM git_commits WHERE sha LIKE ?';
+  if (projects && projects.length > 0) {
+    sql += ` AND session_slug IN (${projects.map(() => '?').join(', ')})`;
+    params.push(...projects);
+  }
+  sql += ' ORDER BY committed_at DESC';
+
+  return rowsToCommits(db.prepare(sql).all(...params) as DbCommitRow[]);
+}
+
+/**
+ * Get commits made during a session, oldest first.
+ */
+export function getCommitsForSession(sessionId: string): StoredCommit[] {
+  const db = getDb();
+  const rows = db
+    .prepare(
+      'SELECT * FROM git_commits WHERE session_id = ? ORDER BY COALESCE(committed_at, created_at)',
+    )
+    .all(sessionId) as DbCommitRow[];
+
+  return rowsToCommits(rows);
+}
+
+/**
+ * Insert or update a pull request and link it to its chunks.
+ * Existing chunk links are kept, so re-ingestion only adds links.
+ */
+export function upsertPullRequest(input: PullRequestInput): void {
+  const db = getDb();
+  const upsert = db.prepare(`
+    INSERT INTO pull_requests
+      (url, number, project_path, session_id, session_slug, title, opened_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT (url) DO UPDATE SET
+      title = CASE WHEN excluded.title != '' THEN excluded.title ELSE pull_requests.title END
+  `);
+  const link = db.prepare(
+    'INSERT OR IGNORE INTO pull_request_chunks (url, chunk_id) VALUES (?, ?)',
+  );
+
+  db.transaction(() => {
+    upsert.run(
+      input.url,
+      input.number,
+      input.projectPath,
+      input.sessionId,
+      input.sessionSlug,
+      input.title,
+      input.openedAt,
+    );
+    for (const chunkId of input.chunkIds) {
+      link.run(input.url, chunkId);
+    }
+  })();
+}
+
+/**
+ * Get pull requests opened during a session, oldest first.
+ */
+export function getPullRequestsForSession(sessionId: string): StoredPullRequest[] {
+  const db = getDb();
+  const rows = db
+    .prepare('SELECT * FROM pull_requests WHERE session_id = ? ORDER BY opened_at')
+    .all(sessionId) as DbPullRequestRow[];
+  const linkStmt = db.prepare(
+    'SELECT chunk_id FROM pull_request_chunks WHERE url = ? ORDER BY chunk_id',
+  );
+
+  return rows.map((row) => ({
+    url: row.url,
+    number: row.number,
+    projectPath: row.project_path,
+    sessionId: row.session_id,
+    sessionSlug: row.session_slug,
+    title: row.title,
+    openedAt: row.opened_at,
+    chunkIds: (linkStmt.all(row.url) as Array<{ chunk_id: string }>).map((r) => r.chunk_id),
+    createdAt: row.created_at,
+  }));
+}
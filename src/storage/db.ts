@@ -289,6 +289,26 @@ export function clearAllData(database?: Database.Database): void {
   } catch (e) {
     if (!isTableNotFoundError(e)) throw e;
   }
+  // Clean up chunk code refs if the table exists
+  try {
+    d.exec('DELETE FROM chunk_code_refs');
+  } catch (e) {
+    if (!isTableNotFoundError(e)) throw e;
+  }
+  // Clean up git commit links if the tables exist
+  try {
+    d.exec('DELETE FROM commit_chunks');
+    d.exec('DELETE FROM git_commits');
+  } catch (e) {
+    if (!isTableNotFoundError(e)) throw e;
+  }
+  // Clean up pull request links if the tables exist
+  try {
+    d.exec('DELETE FROM pull_request_chunks');
+    d.exec('DELETE FROM pull_requests');
+  } catch (e) {
+    if (!isTableNotFoundError(e)) throw e;
+  }
 }
 
 /**
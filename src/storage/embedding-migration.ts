@@ -0,0 +1,459 @@
+/**
+ * Zero-downtime embedding model migration.
+ *
+ * When `embedding.model` changes, search keeps serving the vectors of the
+ * model that is actually stored (the source) while the `migrate-embeddings`
+ * maintenance task re-embeds them into shadow tables (`vectors_shadow`,
+ * `index_vectors_shadow`) a batch at a time. Progress is derived from the
+ * shadow tables themselves, so an interrupted run simply resumes. Once every
+ * source vector has a shadow counterpart, recall@k of both models is compared
+ * on sampled queries and the shadow tables are swapped in within a single
+ * transaction.
+ */
+
+import type Database from 'better-sqlite3-multiple-ciphers';
+import { getDb } from './db.js';
+import { isValidModelId } from '../models/model-registry.js';
+import { serializeEmbedding, deserializeEmbedding } from '../utils/embedding-utils.js';
+import { angularDistance } from '../utils/angular-distance.js';
+import { ensureQuantizationColumns } from './vector-quantization.js';
+
+/** A live vectors table, its shadow, and where its source texts live. */
+interface MigrationTable {
+  live: 'vectors' | 'index_vectors';
+  shadow: 'vectors_shadow' | 'index_vectors_shadow';
+  textTable: 'chunks' | 'index_entries';
+  textColumn: 'content' | 'description';
+}
+
+const MIGRATION_TABLES: MigrationTable[] = [
+  { live: 'vectors', shadow: 'vectors_shadow', textTable: 'chunks', textColumn: 'content' },
+  {
+    live: 'index_vectors',
+    shadow: 'index_vectors_shadow',
+    textTable: 'index_entries',
+    textColumn: 'description',
+  },
+];
+
+/** Recall@k of both models on the same sampled queries. */
+export interface MigrationRecall {
+  k: number;
+  sampledQueries: number;
+  source: number;
+  target: number;
+}
+
+/** Persisted state of a migration toward one target model. */
+export interface EmbeddingMigrationStatus {
+  sourceModel: string;
+  targetModel: string;
+  startedAt: string;
+  updatedAt: string;
+  /** Source vectors (with text still available) that need a shadow vector */
+  total: number;
+  /** Source vectors that already have a shadow vector */
+  done: number;
+  /** done / total, 1 when there is nothing to migrate */
+  coverage: number;
+  recall: MigrationRecall | null;
+  flippedAt: string | null;
+}
+
+/** A text awaiting re-embedding. */
+export interface PendingEmbedding {
+  table: MigrationTable['live'];
+  id: string;
+  text: string;
+}
+
+/** Query/expected-result pair used for the recall comparison. */
+export interface RecallProbe {
+  queryChunkId: string;
+  adjacentChunkId: string;
+}
+
+/** Counts of rows swapped in by a flip. */
+export interface MigrationFlipResult {
+  vectorsFlipped: number;
+  indexVectorsFlipped: number;
+  /** Source vectors with no text to re-embed from, dropped at the flip */
+  orphansDropped: number;
+}
+
+interface MigrationRow {
+  source_model: string;
+  target_model: string;
+  started_at: string;
+  updated_at: string;
+  recall_k: number | null;
+  recall_samples: number | null;
+  recall_source: number | null;
+  recall_target: number | null;
+  flipped_at: string | null;
+}
+
+function tableExists(db: Database.Database, name: string): boolean {
+  return !!db.prepare("SELECT 1 FROM sqlite_master WHERE type='table' AND name = ?").get(name);
+}
+
+function ensureMigrationTables(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS embedding_migrations (
+      target_model TEXT PRIMARY KEY,
+      source_model TEXT NOT NULL,
+      started_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      recall_k INTEGER,
+      recall_samples INTEGER,
+      recall_source REAL,
+      recall_target REAL,
+      flipped_at TEXT
+    )
+  `);
+  for (const table of MIGRATION_TABLES) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS ${table.shadow} (
+        id TEXT PRIMARY KEY,
+        embedding BLOB NOT NULL,
+        model_id TEXT NOT NULL
+      )
+    `);
+  }
+}
+
+/** Tables whose live side exists (index_vectors is created lazily). */
+function activeTables(db: Database.Database): MigrationTable[] {
+  return MIGRATION_TABLES.filter(
+    (t) => tableExists(db, t.live) && tableExists(db, t.shadow) && tableExists(db, t.textTable),
+  );
+}
+
+function getMigrationRow(db: Database.Database, targetModel: string): MigrationRow | undefined {
+  if (!tableExists(db, 'embedding_migrations')) return undefined;
+  return db
+    .prepare('SELECT * FROM embedding_migrations WHERE target_model = ?')
+    .get(targetModel) as MigrationRow | undefined;
+}
+
+/**
+ * Resolve the model that search and ingestion should use right now.
+ *
+ * Returns the configured model unless its vectors are still being built:
+ * while a migration toward it is unflipped, or before one has started
+ * (no vectors for it yet but vectors for another model exist), the stored
+ * model keeps serving.
+ */
+export function resolveServingModel(configuredModel: string): string {
+  const db = getDb();
+  if (!tableExists(db, 'vectors')) return configuredModel;
+
+  const migration = getMigrationRow(db, configuredModel);
+  if (migration && !migration.flipped_at) return migration.source_model;
+
+  const hasConfigured = db
+    .prepare('SELECT 1 FROM vectors WHERE model_id = ? LIMIT 1')
+    .get(configuredModel);
+  if (hasConfigured) return configuredModel;
+
+  const other = db.prepare('SELECT model_id FROM vectors LIMIT 1').get() as
+    | { model_id: string | null }
+    | undefined;
+  if (other?.model_id && isValidModelId(other.model_id)) return other.model_id;
+  return configuredModel;
+}
+
+/**
+ * Start (or continue) a migration from sourceModel to targetModel.
+ * A previous flipped or differently-sourced migration to the same target is restarted.
+ */
+export function startEmbeddingMigration(sourceModel: string, targetModel: string): void {
+  const db = getDb();
+  ensureMigrationTables(db);
+
+  const existing = getMigrationRow(db, targetModel);
+  if (existing && !existing.flipped_at && existing.source_model === sourceModel) return;
+
+  const now = new Date().toISOString();
+  db.transaction(() => {
+    // Shadow rows from an unrelated migration would be counted as progress
+    for (const table of MIGRATION_TABLES) {
+      db.prepare(`DELETE FROM ${table.shadow}`).run();
+    }
+    db.prepare('DELETE FROM embedding_migrations WHERE flipped_at IS NULL').run();
+    db.prepare(
+      `INSERT INTO embedding_migrations (target_model, source_model, started_at, updated_at)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(target_model) DO UPDATE SET
+         source_model = excluded.source_model,
+         started_at = excluded.started_at,
+         updated_at = excluded.updated_at,
+         recall_k = NULL, recall_samples = NULL, recall_source = NULL, recall_target = NULL,
+         flipped_at = NULL`,
+    ).run(targetModel, sourceModel, now, now);
+  })();
+}
+
+/**
+ * Get the state of the migration toward targetModel, or null if none exists.
+ */
+export function getEmbeddingMigrationStatus(targetModel: string): EmbeddingMigrationStatus | null {
+  const db = getDb();
+  const row = getMigrationRow(db, targetModel);
+  if (!row) return null;
+
+  let total = 0;
+  let done = 0;
+  if (!row.flipped_at) {
+    for (const table of activeTables(db)) {
+      const counts = db
+        .prepare(
+          `SELECT COUNT(*) AS total, COUNT(s.id) AS done
+           FROM ${table.live} v
+           JOIN ${table.textTable} t ON t.id = v.id
+           LEFT JOIN ${table.shadow} s ON s.id = v.id
+           WHERE v.model_id = ?`,
+        )
+        .get(row.source_model) as { total: number; done: number };
+      total += counts.total;
+      done += counts.done;
+    }
+  }
+
+  return {
+    sourceModel: row.source_model,
+    targetModel: row.target_model,
+    startedAt: row.started_at,
+    updatedAt: row.updated_at,
+    total,
+    done,
+    coverage: total === 0 ? 1 : done / total,
+    recall:
+      row.recall_k !== null
+        ? {
+            k: row.recall_k,
+            sampledQueries: row.recall_samples ?? 0,
+            source: row.recall_source ?? 0,
+            target: row.recall_target ?? 0,
+          }
+        : null,
+    flippedAt: row.flipped_at,
+  };
+}
+
+/**
+ * Select up to `limit` source vectors that have no shadow vector yet,
+ * chunk vectors first.
+ */
+export function getPendingEmbeddings(targetModel: string, limit: number): PendingEmbedding[] {
+  const db = getDb();
+  const row = getMigrationRow(db, targetModel);
+  if (!row || row.flipped_at) return [];
+
+  const pending: PendingEmbedding[] = [];
+  for (const table of activeTables(db)) {
+    const remaining = limit - pending.length;
+    if (remaining <= 0) break;
+    const rows = db
+      .prepare(
+        `SELECT v.id, t.${table.textColumn} AS text
+         FROM ${table.live} v
+         JOIN ${table.textTable} t ON t.id = v.id
+         WHERE v.model_id = ?
+           AND NOT EXISTS (SELECT 1 FROM ${table.shadow} s WHERE s.id = v.id)
+         ORDER BY v.id
+         LIMIT ?`,
+      )
+      .all(row.source_model, remaining) as Array<{ id: string; text: string }>;
+    for (const r of rows) {
+      pending.push({ table: table.live, id: r.id, text: r.text });
+    }
+  }
+  return pending;
+}
+
+/**
+ * Store shadow vectors for the migration toward targetModel.
+ */
+export function storeShadowEmbeddings(
+  targetModel: string,
+  items: Array<{ table: PendingEmbedding['table']; id: string; embedding: number[] }>,
+): void {
+  const db = getDb();
+  ensureMigrationTables(db);
+
+  const statements = new Map(
+    MIGRATION_TABLES.map((t) => [
+      t.live,
+      db.prepare(`INSERT OR REPLACE INTO ${t.shadow} (id, embedding, model_id) VALUES (?, ?, ?)`),
+    ]),
+  );
+
+  db.transaction(() => {
+    for (const item of items) {
+      statements.get(item.table)!.run(item.id, serializeEmbedding(item.embedding), targetModel);
+    }
+    db.prepare('UPDATE embedding_migrations SET updated_at = ? WHERE target_model = ?').run(
+      new Date().toISOString(),
+      targetModel,
+    );
+  })();
+}
+
+function loadEmbeddings(
+  db: Database.Database,
+  table: string,
+  modelId: string,
+): Map<string, number[]> {
+  const map = new Map<string, number[]>();
+  const rows = db
+    .prepare(`SELECT id, embedding FROM ${table} WHERE model_id = ?`)
+    .iterate(modelId) as Iterable<{ id: string; embedding: Buffer }>;
+  for (const row of rows) {
+    map.set(row.id, deserializeEmbedding(row.embedding));
+  }
+  return map;
+}
+
+/**
+ * Fraction of probes whose expected chunk is among the k nearest
+ * neighbours of the query chunk's own vector (excluding itself).
+ */
+function recallAtK(vectors: Map<string, number[]>, probes: RecallProbe[], k: number): number {
+  if (probes.length === 0) return 0;
+  let hits = 0;
+  for (const probe of probes) {
+    const query = vectors.get(probe.queryChunkId)!;
+    const ranked: Array<{ id: string; distance: number }> = [];
+    for (const [id, embedding] of vectors) {
+      if (id === probe.queryChunkId) continue;
+      ranked.push({ id, distance: angularDistance(query, embedding) });
+    }
+    ranked.sort((a, b) => a.distance - b.distance);
+    if (ranked.slice(0, k).some((r) => r.id === probe.adjacentChunkId)) hits++;
+  }
+  return hits / probes.length;
+}
+
+/**
+ * Compare recall@k of the source and shadow chunk vectors on the given probes
+ * and record the result on the migration. Probes whose chunks lack a vector in
+ * either model are ignored. Does not touch last_accessed.
+ */
+export function compareMigrationRecall(
+  targetModel: string,
+  probes: RecallProbe[],
+  k: number,
+): MigrationRecall | null {
+  const db = getDb();
+  const row = getMigrationRow(db, targetModel);
+  if (!row || row.flipped_at) return null;
+
+  const source = loadEmbeddings(db, 'vectors', row.source_model);
+  const target = loadEmbeddings(db, 'vectors_shadow', targetModel);
+  const usable = probes.filter(
+    (p) =>
+      source.has(p.queryChunkId) &&
+      source.has(p.adjacentChunkId) &&
+      target.has(p.queryChunkId) &&
+      target.has(p.adjacentChunkId),
+  );
+
+  const recall: MigrationRecall = {
+    k,
+    sampledQueries: usable.length,
+    source: recallAtK(source, usable, k),
+    target: recallAtK(target, usable, k),
+  };
+
+  db.prepare(
+    `UPDATE embedding_migrations
+     SET recall_k = ?, recall_samples = ?, recall_source = ?, recall_target = ?, updated_at = ?
+     WHERE target_model = ?`,
+  ).run(
+    recall.k,
+    recall.sampledQueries,
+    recall.source,
+    recall.target,
+    new Date().toISOString(),
+    targetModel,
+  );
+
+  return recall;
+}
+
+/**
+ * Swap the shadow vectors in for the source vectors in one transaction.
+ * Vectors keep their orphaned_at and last_accessed so TTL cleanup is unaffected.
+ * @throws Error if the migration is missing, already flipped, or coverage is below 100%.
+ */
+export function flipEmbeddingMigration(targetModel: string): MigrationFlipResult {
+  const db = getDb();
+
+  return db.transaction(() => {
+    // Re-check inside the transaction so vectors ingested since the last
+    // batch can't be dropped by the swap
+    const status = getEmbeddingMigrationStatus(targetModel);
+    if (!status) throw new Error(`No embedding migration to ${targetModel}`);
+    if (status.flippedAt) throw new Error(`Embedding migration to ${targetModel} already flipped`);
+    if (status.done < status.total) {
+      throw new Error(
+        `Embedding migration to ${targetModel} is incomplete (${status.done}/${status.total})`,
+      );
+    }
+
+    const result: MigrationFlipResult = {
+      vectorsFlipped: 0,
+      indexVectorsFlipped: 0,
+      orphansDropped: 0,
+    };
+
+    for (const table of activeTables(db)) {
+      // Quantized blobs were derived from the old embeddings
+      ensureQuantizationColumns(db, table.live);
+      const flipped = db
+        .prepare(
+          `UPDATE ${table.live}
+           SET embedding = (SELECT s.embedding FROM ${table.shadow} s WHERE s.id = ${table.live}.id),
+               embedding_quantized = NULL,
+               quantization = NULL,
+               model_id = ?
+           WHERE model_id = ? AND id IN (SELECT id FROM ${table.shadow})`,
+        )
+        .run(targetModel, status.sourceModel).changes;
+      const orphans = db
+        .prepare(`DELETE FROM ${table.live} WHERE model_id = ?`)
+        .run(status.sourceModel).changes;
+      db.prepare(`DELETE FROM ${table.shadow}`).run();
+
+      if (table.live === 'vectors') result.vectorsFlipped = flipped;
+      else result.indexVectorsFlipped = flipped;
+      result.orphansDropped += orphans;
+    }
+
+    db.prepare(
+      'UPDATE embedding_migrations SET flipped_at = ?, updated_at = ? WHERE target_model = ?',
+    ).run(new Date().toISOString(), new Date().toISOString(), targetModel);
+
+    return result;
+  })();
+}
+
+/**
+ * Discard any unflipped migration and its shadow vectors.
+ * Used when vectors are rebuilt directly (e.g. `causantic reindex`).
+ * @returns Whether a migration was discarded.
+ */
+export function abandonEmbeddingMigration(): boolean {
+  const db = getDb();
+  if (!tableExists(db, 'embedding_migrations')) return false;
+
+  return db.transaction(() => {
+    for (const table of MIGRATION_TABLES) {
+      if (tableExists(db, table.shadow)) db.prepare(`DELETE FROM ${table.shadow}`).run();
+    }
+    return (
+      db.prepare('DELETE FROM embedding_migrations WHERE flipped_at IS NULL').run().changes > 0
+    );
+  })();
+}
@@ -166,6 +166,31 @@ export function getEntitiesForChunk(chunkId: string): StoredEntity[] {
   return rows.map(rowToEntity);
 }
 
+/**
+ * Get entities whose first mention is in a chunk starting at or after a cutoff,
+ * with their mention counts. Ordered by mention count, most mentioned first.
+ */
+export function getEntitiesFirstMentionedSince(
+  projectSlug: string,
+  since: string,
+): Array<StoredEntity & { mentionCount: number }> {
+  const db = getDb();
+  const rows = db
+    .prepare(
+      `SELECT e.*, COUNT(DISTINCT em.chunk_id) AS mention_count
+       FROM entities e
+       JOIN entity_mentions em ON em.entity_id = e.id
+       JOIN chunks c ON c.id = em.chunk_id
+       WHERE e.project_slug = ?
+       GROUP BY e.id
+       HAVING MIN(c.start_time) >= ?
+       ORDER BY mention_count DESC, e.canonical_name`,
+    )
+    .all(projectSlug, since) as Array<DbEntityRow & { mention_count: number }>;
+
+  return rows.map((row) => ({ ...rowToEntity(row), mentionCount: row.mention_count }));
+}
+
 /**
  * Get total entity count, optionally filtered by project.
  */
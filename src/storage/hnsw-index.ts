@@ -0,0 +1,362 @@
+/**
+ * Hierarchical Navigable Small World (HNSW) graph for approximate nearest-neighbour search.
+ *
+ * Pure TypeScript implementation of Malkov & Yashunin's algorithm. The graph
+ * holds ids and links only; vectors are read through the `vectorOf` callback,
+ * so the owning store keeps a single copy of each embedding (plain or typed
+ * arrays, e.g. int8-quantized).
+ *
+ * Distances inside the graph are cosine distances (1 − cosine similarity),
+ * which rank identically to angular distance but are cheaper to compute, or
+ * a custom distance such as Hamming distance for binary codes. Callers that
+ * report distances should re-score the returned ids with `angularDistance()`.
+ *
+ * Deletion repairs the links of the removed node's neighbours, so the graph
+ * never needs tombstones. Links from other nodes to a removed id may remain
+ * and are skipped during search; `dropDanglingLinks()` clears them.
+ *
+ * @module storage/hnsw-index
+ */
+
+import { dot } from '../utils/angular-distance.js';
+
+/** A graph node: its top level and its neighbour ids on each level (0 = base layer). */
+export interface HnswNode {
+  id: string;
+  level: number;
+  neighbors: string[][];
+}
+
+/** A search hit with its cosine distance to the query. */
+export interface HnswHit {
+  id: string;
+  distance: number;
+}
+
+/** Graph construction parameters. */
+export interface HnswOptions {
+  /** Links per node on upper levels; the base layer keeps up to 2 × m. */
+  m: number;
+  /** Candidate list size while inserting. Higher builds a better graph, more slowly. */
+  efConstruction: number;
+  /** Random source for level assignment. Default: Math.random. */
+  random?: () => number;
+  /** Distance between two vectors, replacing cosine distance (e.g. for binary codes). */
+  distance?: (a: ArrayLike<number>, b: ArrayLike<number>) => number;
+}
+
+/**
+ * Insert into a list kept sorted by distance.
+ * Ascending lists keep the closest hit first; descending lists keep it last, for pop().
+ */
+function insertSorted(list: HnswHit[], hit: HnswHit, descending: boolean): void {
+  let lo = 0;
+  let hi = list.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    const before = descending
+      ? list[mid].distance > hit.distance
+      : list[mid].distance <= hit.distance;
+    if (before) lo = mid + 1;
+    else hi = mid;
+  }
+  list.splice(lo, 0, hit);
+}
+
+/**
+ * HNSW graph over externally stored vectors.
+ */
+export class HnswIndex {
+  private readonly nodes: Map<string, HnswNode> = new Map();
+  private readonly norms: Map<string, number> = new Map();
+  private entryPoint: string | null = null;
+
+  private readonly m: number;
+  private readonly m0: number;
+  private readonly efConstruction: number;
+  private readonly levelMultiplier: number;
+  private readonly random: () => number;
+  private readonly customDistance?: (a: ArrayLike<number>, b: ArrayLike<number>) => number;
+
+  constructor(
+    private readonly vectorOf: (id: string) => ArrayLike<number> | undefined,
+    options: HnswOptions,
+  ) {
+    this.m = Math.max(2, options.m);
+    this.m0 = this.m * 2;
+    this.efConstruction = Math.max(this.m, options.efConstruction);
+    this.levelMultiplier = 1 / Math.log(this.m);
+    this.random = options.random ?? Math.random;
+    this.customDistance = options.distance;
+  }
+
+  /** Number of nodes in the graph. */
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  /** Whether an id is in the graph. */
+  has(id: string): boolean {
+    return this.nodes.has(id);
+  }
+
+  /** Get a node (for persistence). */
+  getNode(id: string): HnswNode | undefined {
+    return this.nodes.get(id);
+  }
+
+  /**
+   * Insert a vector, replacing any existing node with the same id.
+   * @returns Ids of the nodes whose links changed, including the new node.
+   * @throws Error if `vectorOf` has no vector for the id.
+   */
+  add(id: string): Set<string> {
+    const touched = this.nodes.has(id) ? this.remove(id) : new Set<string>();
+    const vector = this.requireVector(id);
+    const vectorNorm = this.normOf(vector);
+    this.norms.set(id, vectorNorm);
+
+    const level = Math.floor(-Math.log(1 - this.random()) * this.levelMultiplier);
+    const node: HnswNode = {
+      id,
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => []),
+    };
+    touched.add(id);
+
+    const entry = this.entryPoint !== null ? this.nodes.get(this.entryPoint) : undefined;
+    if (!entry) {
+      this.nodes.set(id, node);
+      this.entryPoint = id;
+      return touched;
+    }
+
+    let entries: HnswHit[] = [
+      { id: entry.id, distance: this.distance(vector, vectorNorm, entry.id) },
+    ];
+    for (let lc = entry.level; lc > level; lc--) {
+      entries = this.searchLayer(vector, vectorNorm, entries, 1, lc);
+    }
+
+    for (let lc = Math.min(entry.level, level); lc >= 0; lc--) {
+      const found = this.searchLayer(vector, vectorNorm, entries, this.efConstruction, lc);
+      node.neighbors[lc] = this.selectNeighbors(found, this.m);
+
+      for (const neighborId of node.neighbors[lc]) {
+        const neighbor = this.nodes.get(neighborId);
+        if (!neighbor) continue;
+        const links = neighbor.neighbors[lc];
+        links.push(id);
+        const maxLinks = lc === 0 ? this.m0 : this.m;
+        if (links.length > maxLinks) {
+          neighbor.neighbors[lc] = this.relink(neighborId, links, maxLinks);
+        }
+        touched.add(neighborId);
+      }
+      entries = found;
+    }
+
+    this.nodes.set(id, node);
+    if (level > entry.level) this.entryPoint = id;
+    return touched;
+  }
+
+  /**
+   * Remove a node and reconnect its neighbours among themselves.
+   * @returns Ids of the remaining nodes whose links changed.
+   */
+  remove(id: string): Set<string> {
+    const touched = new Set<string>();
+    const node = this.nodes.get(id);
+    if (!node) return touched;
+    this.nodes.delete(id);
+
+    for (let lc = 0; lc <= node.level; lc++) {
+      for (const neighborId of node.neighbors[lc]) {
+        const neighbor = this.nodes.get(neighborId);
+        if (!neighbor || lc > neighbor.level) continue;
+        const links = neighbor.neighbors[lc];
+        if (!links.includes(id)) continue;
+
+        const candidates = new Set([...links, ...node.neighbors[lc]]);
+        candidates.delete(id);
+        candidates.delete(neighborId);
+        neighbor.neighbors[lc] = this.relink(
+          neighborId,
+          [...candidates].filter((c) => this.nodes.has(c)),
+          lc === 0 ? this.m0 : this.m,
+        );
+        touched.add(neighborId);
+      }
+    }
+
+    this.norms.delete(id);
+    if (this.entryPoint === id) this.entryPoint = this.highestNode();
+    return touched;
+  }
+
+  /**
+   * Add a previously persisted node without searching for links.
+   * Call `dropDanglingLinks()` once all nodes are restored.
+   * @throws Error if `vectorOf` has no vector for the id.
+   */
+  restore(node: HnswNode): void {
+    const vector = this.requireVector(node.id);
+    this.norms.set(node.id, this.normOf(vector));
+    this.nodes.set(node.id, {
+      id: node.id,
+      level: node.level,
+      neighbors: Array.from({ length: node.level + 1 }, (_, lc) => [...(node.neighbors[lc] ?? [])]),
+    });
+
+    const entry = this.entryPoint !== null ? this.nodes.get(this.entryPoint) : undefined;
+    if (!entry || node.level > entry.level) this.entryPoint = node.id;
+  }
+
+  /**
+   * Remove links to ids that are no longer in the graph.
+   * @returns Ids of the nodes whose links changed.
+   */
+  dropDanglingLinks(): Set<string> {
+    const touched = new Set<string>();
+    for (const node of this.nodes.values()) {
+      for (let lc = 0; lc <= node.level; lc++) {
+        const links = node.neighbors[lc];
+        const kept = links.filter((id) => id !== node.id && this.nodes.has(id));
+        if (kept.length !== links.length) {
+          node.neighbors[lc] = kept;
+          touched.add(node.id);
+        }
+      }
+    }
+    return touched;
+  }
+
+  /**
+   * Find approximate nearest neighbours of a query.
+   *
+   * @param query - Query vector
+   * @param ef - Candidate list size; the number of hits returned (at most). Higher is more accurate.
+   * @returns Up to `ef` hits sorted by cosine distance ascending
+   */
+  search(query: ArrayLike<number>, ef: number): HnswHit[] {
+    const entry = this.entryPoint !== null ? this.nodes.get(this.entryPoint) : undefined;
+    if (!entry) return [];
+
+    const queryNorm = this.normOf(query);
+    let entries: HnswHit[] = [
+      { id: entry.id, distance: this.distance(query, queryNorm, entry.id) },
+    ];
+    for (let lc = entry.level; lc > 0; lc--) {
+      entries = this.searchLayer(query, queryNorm, entries, 1, lc);
+    }
+    return this.searchLayer(query, queryNorm, entries, Math.max(1, ef), 0);
+  }
+
+  /**
+   * Greedy best-first search of one level, returning the `ef` closest nodes found.
+   */
+  private searchLayer(
+    query: ArrayLike<number>,
+    queryNorm: number,
+    entries: HnswHit[],
+    ef: number,
+    level: number,
+  ): HnswHit[] {
+    const visited = new Set(entries.map((e) => e.id));
+    const candidates: HnswHit[] = [];
+    const results: HnswHit[] = [];
+    for (const entry of entries) {
+      insertSorted(candidates, entry, true);
+      insertSorted(results, entry, false);
+    }
+    while (results.length > ef) results.pop();
+
+    while (candidates.length > 0) {
+      const current = candidates.pop()!;
+      if (results.length >= ef && current.distance > results[results.length - 1].distance) break;
+
+      const node = this.nodes.get(current.id);
+      if (!node || level > node.level) continue;
+
+      for (const neighborId of node.neighbors[level]) {
+        if (visited.has(neighborId)) continue;
+        visited.add(neighborId);
+        if (!this.nodes.has(neighborId)) continue;
+
+        const distance = this.distance(query, queryNorm, neighborId);
+        if (results.length < ef || distance < results[results.length - 1].distance) {
+          const hit = { id: neighborId, distance };
+          insertSorted(candidates, hit, true);
+          insertSorted(results, hit, false);
+          if (results.length > ef) results.pop();
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Pick up to `m` diverse neighbours from candidates sorted by distance
+   * (the heuristic of the HNSW paper): a candidate is kept only if it is
+   * closer to the base node than to every neighbour already kept.
+   */
+  private selectNeighbors(candidates: HnswHit[], m: number): string[] {
+    const selected: HnswHit[] = [];
+    for (const candidate of candidates) {
+      if (selected.length >= m) break;
+      if (selected.every((s) => this.pairDistance(candidate.id, s.id) > candidate.distance)) {
+        selected.push(candidate);
+      }
+    }
+    return selected.map((s) => s.id);
+  }
+
+  /**
+   * Re-select a node's links from a candidate list.
+   */
+  private relink(id: string, candidateIds: string[], maxLinks: number): string[] {
+    const candidates = candidateIds
+      .map((c) => ({ id: c, distance: this.pairDistance(id, c) }))
+      .sort((a, b) => a.distance - b.distance);
+    return this.selectNeighbors(candidates, maxLinks);
+  }
+
+  /** Id of a node on the highest level, or null if the graph is empty. */
+  private highestNode(): string | null {
+    let best: HnswNode | null = null;
+    for (const node of this.nodes.values()) {
+      if (!best || node.level > best.level) best = node;
+    }
+    return best?.id ?? null;
+  }
+
+  private requireVector(id: string): ArrayLike<number> {
+    const vector = this.vectorOf(id);
+    if (!vector) throw new Error(`No vector for HNSW node ${id}`);
+    return vector;
+  }
+
+  /** Norm cached for cosine distance; custom distances don't use it. */
+  private normOf(vector: ArrayLike<number>): number {
+    return this.customDistance ? 1 : Math.sqrt(dot(vector, vector));
+  }
+
+  /** Distance between a vector and a stored node. Missing vectors are maximally distant. */
+  private distance(vector: ArrayLike<number>, vectorNorm: number, id: string): number {
+    const other = this.vectorOf(id);
+    const otherNorm = this.norms.get(id);
+    if (!other || !otherNorm || vectorNorm === 0) return 2;
+    if (this.customDistance) return this.customDistance(vector, other);
+    return 1 - dot(vector, other) / (vectorNorm * otherNorm);
+  }
+
+  /** Cosine distance between two stored nodes. */
+  private pairDistance(a: string, b: string): number {
+    const vector = this.vectorOf(a);
+    const vectorNorm = this.norms.get(a);
+    if (!vector || !vectorNorm) return 2;
+    return this.distance(vector, vectorNorm, b);
+  }
+}
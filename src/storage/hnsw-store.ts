@@ -0,0 +1,165 @@
+/**
+ * SQLite persistence for HNSW graphs.
+ *
+ * One row per graph node in `vector_hnsw_nodes`, keyed by the vector table,
+ * model, quantization mode and vector id, so graphs are saved incrementally as
+ * nodes are inserted or relinked. Graphs built over binary codes link nodes by
+ * Hamming distance, so each mode keeps its own graph. Each row records the partition (project) whose graph
+ * it belongs to and the rowid of the vector it was built from: a vector that
+ * was rewritten since (INSERT OR REPLACE assigns a new rowid) no longer
+ * matches its node and is re-inserted when the graph is next loaded.
+ *
+ * The table is created lazily, like the vector tables themselves. A table
+ * from before graphs were keyed by quantization mode is dropped and rebuilt.
+ *
+ * @module storage/hnsw-store
+ */
+
+import type Database from 'better-sqlite3-multiple-ciphers';
+import { sqlPlaceholders } from './db.js';
+import type { HnswNode } from './hnsw-index.js';
+import type { QuantizationMode } from './vector-quantization.js';
+
+/** A persisted graph node. */
+export interface StoredHnswNode extends HnswNode {
+  partition: string;
+  vectorRowid: number;
+}
+
+type VectorTable = 'vectors' | 'index_vectors';
+
+/** Ids deleted per statement. */
+const DELETE_BATCH_SIZE = 500;
+
+/**
+ * Create the node table if it doesn't exist.
+ */
+export function ensureHnswTable(db: Database.Database): void {
+  const columns = db.prepare('PRAGMA table_info(vector_hnsw_nodes)').all() as { name: string }[];
+  if (columns.length > 0 && !columns.some((c) => c.name === 'quantization')) {
+    db.exec('DROP TABLE vector_hnsw_nodes');
+  }
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS vector_hnsw_nodes (
+      vector_table TEXT NOT NULL,
+      model_id TEXT NOT NULL,
+      quantization TEXT NOT NULL,
+      id TEXT NOT NULL,
+      partition TEXT NOT NULL,
+      vector_rowid INTEGER NOT NULL,
+      level INTEGER NOT NULL,
+      neighbors TEXT NOT NULL,
+      PRIMARY KEY (vector_table, model_id, quantization, id)
+    )
+  `);
+  db.exec(
+    'CREATE INDEX IF NOT EXISTS idx_vector_hnsw_nodes_partition ON vector_hnsw_nodes(vector_table, model_id, quantization, partition)',
+  );
+}
+
+/**
+ * Load the persisted nodes of one partition's graph.
+ */
+export function loadHnswNodes(
+  db: Database.Database,
+  vectorTable: VectorTable,
+  modelId: string,
+  quantization: QuantizationMode,
+  partition: string,
+): StoredHnswNode[] {
+  const rows = db
+    .prepare(
+      `SELECT id, vector_rowid, level, neighbors FROM vector_hnsw_nodes
+       WHERE vector_table = ? AND model_id = ? AND quantization = ? AND partition = ?`,
+    )
+    .all(vectorTable, modelId, quantization, partition) as Array<{
+    id: string;
+    vector_rowid: number;
+    level: number;
+    neighbors: string;
+  }>;
+
+  return rows.map((row) => ({
+    id: row.id,
+    partition,
+    vectorRowid: row.vector_rowid,
+    level: row.level,
+    neighbors: JSON.parse(row.neighbors) as string[][],
+  }));
+}
+
+/**
+ * Insert or update nodes in one transaction.
+ */
+export function saveHnswNodes(
+  db: Database.Database,
+  vectorTable: VectorTable,
+  modelId: string,
+  quantization: QuantizationMode,
+  nodes: StoredHnswNode[],
+): void {
+  if (nodes.length === 0) return;
+  const stmt = db.prepare(
+    `INSERT OR REPLACE INTO vector_hnsw_nodes
+       (vector_table, model_id, quantization, id, partition, vector_rowid, level, neighbors)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+  );
+  db.transaction(() => {
+    for (const node of nodes) {
+      stmt.run(
+        vectorTable,
+        modelId,
+        quantization,
+        node.id,
+        node.partition,
+        node.vectorRowid,
+        node.level,
+        JSON.stringify(node.neighbors),
+      );
+    }
+  })();
+}
+
+/**
+ * Delete nodes by vector id, from the graphs of every quantization mode.
+ */
+export function deleteHnswNodes(
+  db: Database.Database,
+  vectorTable: VectorTable,
+  modelId: string,
+  ids: string[],
+): void {
+  for (let i = 0; i < ids.length; i += DELETE_BATCH_SIZE) {
+    const batch = ids.slice(i, i + DELETE_BATCH_SIZE);
+    db.prepare(
+      `DELETE FROM vector_hnsw_nodes
+       WHERE vector_table = ? AND model_id = ? AND id IN (${sqlPlaceholders(batch.length)})`,
+    ).run(vectorTable, modelId, ...batch);
+  }
+}
+
+/**
+ * Delete nodes whose vector no longer exists for their model: removed by
+ * another process, a cleanup query, an archive import, or moved to a new
+ * model by a reindex or embedding migration.
+ * @returns Number of nodes deleted
+ */
+export function deleteStaleHnswNodes(db: Database.Database, vectorTable: VectorTable): number {
+  return db
+    .prepare(
+      `DELETE FROM vector_hnsw_nodes
+       WHERE vector_table = ?
+         AND NOT EXISTS (
+           SELECT 1 FROM ${vectorTable} v
+           WHERE v.id = vector_hnsw_nodes.id AND v.model_id = vector_hnsw_nodes.model_id
+         )`,
+    )
+    .run(vectorTable).changes;
+}
+
+/**
+ * Delete every node of a vector table's graphs.
+ */
+export function clearHnswNodes(db: Database.Database, vectorTable: VectorTable): void {
+  db.prepare('DELETE FROM vector_hnsw_nodes WHERE vector_table = ?').run(vectorTable);
+}
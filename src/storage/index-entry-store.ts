@@ -343,6 +343,7 @@ export function searchIndexEntriesByKeyword(
   limit: number,
   projectFilter?: string | string[],
   agentFilter?: string,
+  before?: string,
 ): Array<{ id: string; score: number }> {
   const db = getDb();
 
@@ -369,6 +370,11 @@ export function searchIndexEntriesByKeyword(
       params.push(agentFilter);
     }
 
+    if (before) {
+      sql += ' AND ie.start_time < ?';
+      params.push(before);
+    }
+
     sql += ' ORDER BY bm25(index_entries_fts) LIMIT ?';
     params.push(limit);
 
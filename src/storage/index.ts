@@ -48,6 +48,8 @@ export {
   deleteChunks,
   getSessionIds,
   getChunkCount,
+  getPinnedChunkIds,
+  setChunkPinned,
 } from './chunk-store.js';
 
 // Edge store
@@ -121,3 +123,19 @@ export {
   countSessionStates,
 } from './session-state-store.js';
 export type { StoredSessionState } from './session-state-store.js';
+
+// Retention
+export {
+  resolveRetentionLimits,
+  getDbSizeBytes,
+  planRetention,
+  deleteDanglingEdges,
+  pruneChunks,
+} from './retention.js';
+export type {
+  RetentionLimits,
+  RetentionPolicy,
+  ProjectRetentionReport,
+  RetentionPlan,
+  RetentionPruneResult,
+} from './retention.js';
@@ -6,6 +6,7 @@
  */
 
 import { getDb, sqlPlaceholders } from './db.js';
+import { buildFacetConditions, type ChunkFacets } from './chunk-facets.js';
 import { createLogger } from '../utils/logger.js';
 
 const log = createLogger('keyword-store');
@@ -51,26 +52,48 @@ export class KeywordStore {
 
   /**
    * Full-text search with BM25 ranking.
+   *
+   * @param before - Optional ISO cutoff; only chunks whose start_time precedes it match
+   * @param facets - Optional facet filters, applied in the same query
    */
-  search(query: string, limit: number): KeywordSearchResult[] {
+  search(
+    query: string,
+    limit: number,
+    before?: string,
+    facets?: ChunkFacets,
+  ): KeywordSearchResult[] {
     const sanitized = sanitizeQuery(query);
     if (!sanitized) return [];
 
     const db = this.getDatabase();
 
-    try {
-      const rows = db
-        .prepare(
-          `
+    let sql = `
         SELECT chunks.id, bm25(chunks_fts) as score
         FROM chunks_fts
         JOIN chunks ON chunks.rowid = chunks_fts.rowid
-        WHERE chunks_fts MATCH ?
+        WHERE chunks_fts MATCH ?`;
+    const params: unknown[] = [sanitized];
+
+    if (before) {
+      sql += '\n          AND chunks.start_time < ?';
+      params.push(before);
+    }
+
+    if (facets) {
+      const facetFilter = buildFacetConditions(facets);
+      for (const condition of facetFilter.conditions) {
+        sql += `\n          AND ${condition}`;
+      }
+      params.push(...facetFilter.params);
+    }
+
+    sql += `
         ORDER BY bm25(chunks_fts)
-        LIMIT ?
-      `,
-        )
-        .all(sanitized, limit) as Array<{ id: string; score: number }>;
+        LIMIT ?`;
+    params.push(limit);
+
+    try {
+      const rows = db.prepare(sql).all(...params) as Array<{ id: string; score: number }>;
 
       // bm25() returns negative scores (lower = better match), negate for conventional scoring
       return rows.map((r) => ({
@@ -85,12 +108,17 @@ export class KeywordStore {
 
   /**
    * Full-text search filtered by project(s).
+   *
+   * @param before - Optional ISO cutoff; only chunks whose start_time precedes it match
+   * @param facets - Optional facet filters, applied in the same query
    */
   searchByProject(
     query: string,
     projects: string | string[],
     limit: number,
     agentId?: string,
+    before?: string,
+    facets?: ChunkFacets,
   ): KeywordSearchResult[] {
     const sanitized = sanitizeQuery(query);
     if (!sanitized) return [];
@@ -114,6 +142,19 @@ export class KeywordStore {
       params.push(agentId);
     }
 
+    if (before) {
+      sql += '\n          AND chunks.start_time < ?';
+      params.push(before);
+    }
+
+    if (facets) {
+      const facetFilter = buildFacetConditions(facets);
+      for (const condition of facetFilter.conditions) {
+        sql += `\n          AND ${condition}`;
+      }
+      params.push(...facetFilter.params);
+    }
+
     sql += `
         ORDER BY bm25(chunks_fts)
         LIMIT ?`;
@@ -11,6 +11,7 @@ import { basename, join } from 'path';
 import { homedir } from 'os';
 import { loadSchemaStatements } from './schema-loader.js';
 import { errorMessage } from '../utils/errors.js';
+import { ensureQuantizationColumns } from './vector-quantization.js';
 
 /**
  * Run all pending migrations on the database.
@@ -88,6 +89,30 @@ export function runMigrations(database: Database.Database): void {
   if (currentVersion < 16) {
     migrateToV16(database);
   }
+  if (currentVersion < 17) {
+    migrateToV17(database);
+  }
+  if (currentVersion < 18) {
+    migrateToV18(database);
+  }
+  if (currentVersion < 19) {
+    migrateToV19(database);
+  }
+  if (currentVersion < 20) {
+    migrateToV20(database);
+  }
+  if (currentVersion < 21) {
+    migrateToV21(database);
+  }
+  if (currentVersion < 22) {
+    migrateToV22(database);
+  }
+  if (currentVersion < 23) {
+    migrateToV23(database);
+  }
+  if (currentVersion < 24) {
+    migrateToV24(database);
+  }
 }
 
 /**
@@ -715,6 +740,288 @@ function migrateToV16(database: Database.Database): void {
   database.exec('INSERT OR REPLACE INTO schema_version (version) VALUES (16)');
 }
 
+/**
+ * Migrate from v16 to v17 (add pinned flag and tags to chunks for user-authored notes).
+ */
+function migrateToV17(database: Database.Database): void {
+  const chunkColumns = [
+    { name: 'pinned', type: 'INTEGER DEFAULT 0' },
+    { name: 'tags', type: 'TEXT' },
+  ];
+
+  for (const col of chunkColumns) {
+    try {
+      database.exec(`ALTER TABLE chunks ADD COLUMN ${col.name} ${col.type}`);
+    } catch (error) {
+      const message = errorMessage(error);
+      if (!message.includes('duplicate column')) {
+        throw error;
+      }
+    }
+  }
+
+  database.exec('CREATE INDEX IF NOT EXISTS idx_chunks_pinned ON chunks(pinned)');
+
+  database.exec('INSERT OR REPLACE INTO schema_version (version) VALUES (17)');
+}
+
+/**
+ * Migrate from v17 to v18 (add archive import progress for resumable imports).
+ */
+function migrateToV18(database: Database.Database): void {
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS archive_imports (
+      archive_id TEXT PRIMARY KEY,
+      source_path TEXT NOT NULL,
+      records_committed INTEGER NOT NULL DEFAULT 0,
+      started_at TEXT DEFAULT CURRENT_TIMESTAMP,
+      updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+      completed_at TEXT
+    )
+  `);
+
+  database.exec('INSERT OR REPLACE INTO schema_version (version) VALUES (18)');
+}
+
+/**
+ * Migrate from v18 to v19 (add chunk-to-code links for file history).
+ */
+function migrateToV19(database: Database.Database): void {
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS chunk_code_refs (
+      chunk_id TEXT NOT NULL,
+      file_path TEXT NOT NULL,
+      symbol TEXT NOT NULL DEFAULT '',
+      source TEXT NOT NULL,
+      PRIMARY KEY (chunk_id, file_path, symbol),
+      FOREIGN KEY (chunk_id) REFERENCES chunks(id) ON DELETE CASCADE
+    )
+  `);
+  database.exec(
+    'CREATE INDEX IF NOT EXISTS idx_chunk_code_refs_file ON chunk_code_refs(file_path)',
+  );
+  database.exec(
+    'CREATE INDEX IF NOT EXISTS idx_chunk_code_refs_chunk ON chunk_code_refs(chunk_id)',
+  );
+
+  database.exec('INSERT OR REPLACE INTO schema_version (version) VALUES (19)');
+}
+
+/**
+ * Migrate from v19 to v20 (add git commits and their chunk links).
+ */
+function migrateToV20(database: Database.Database): void {
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS git_commits (
+      sha TEXT PRIMARY KEY,
+      project_path TEXT NOT NULL,
+      session_id TEXT NOT NULL,
+      session_slug TEXT NOT NULL,
+      subject TEXT NOT NULL,
+      committed_at TEXT,
+      files TEXT NOT NULL DEFAULT '[]',
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+  database.exec('CREATE INDEX IF NOT EXISTS idx_git_commits_session ON git_commits(session_id)');
+
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS commit_chunks (
+      sha TEXT NOT NULL,
+      chunk_id TEXT NOT NULL,
+      PRIMARY KEY (sha, chunk_id),
+      FOREIGN KEY (sha) REFERENCES git_commits(sha) ON DELETE CASCADE,
+      FOREIGN KEY (chunk_id) REFERENCES chunks(id) ON DELETE CASCADE
+    )
+  `);
+  database.exec('CREATE INDEX IF NOT EXISTS idx_commit_chunks_chunk ON commit_chunks(chunk_id)');
+
+  database.exec('INSERT OR REPLACE INTO schema_version (version) VALUES (20)');
+}
+
+/**
+ * Migrate from v20 to v21 (add quantized vector blobs). Existing vectors are
+ * quantized when the vector store next loads them.
+ */
+function migrateToV21(database: Database.Database): void {
+  // Vector tables are created lazily by VectorStore.load() — they may not exist yet
+  for (const table of ['vectors', 'index_vectors'] as const) {
+    const exists =
+      (
+        database
+          .prepare("SELECT count(*) as cnt FROM sqlite_master WHERE type='table' AND name=?")
+          .get(table) as { cnt: number }
+      ).cnt > 0;
+    if (!exists) continue;
+
+    ensureQuantizationColumns(database, table);
+  }
+
+  database.exec('INSERT OR REPLACE INTO schema_version (version) VALUES (21)');
+}
+
+/**
+ * Migrate from v21 to v22 (add search facets: tool error counts, per-chunk
+ * tool names, and indexes on the faceted columns).
+ *
+ * Tool names are backfilled from the `[Tool:Name]` markers in chunk content.
+ * Tool errors aren't recorded in content, so existing chunks count none.
+ */
+function migrateToV22(database: Database.Database): void {
+  // Counts predate v22 in the main schema; older trimmed schemas may lack them
+  const chunkColumns = [
+    { name: 'code_block_count', type: 'INTEGER DEFAULT 0' },
+    { name: 'tool_use_count', type: 'INTEGER DEFAULT 0' },
+    { name: 'tool_error_count', type: 'INTEGER DEFAULT 0' },
+  ];
+
+  for (const col of chunkColumns) {
+    try {
+      database.exec(`ALTER TABLE chunks ADD COLUMN ${col.name} ${col.type}`);
+    } catch (error) {
+      const message = errorMessage(error);
+      if (!message.includes('duplicate column')) {
+        throw error;
+      }
+    }
+  }
+
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS chunk_tools (
+      chunk_id TEXT NOT NULL,
+      tool_name TEXT NOT NULL,
+      PRIMARY KEY (chunk_id, tool_name),
+      FOREIGN KEY (chunk_id) REFERENCES chunks(id) ON DELETE CASCADE
+    )
+  `);
+
+  const indexes = [
+    'CREATE INDEX IF NOT EXISTS idx_chunk_tools_tool ON chunk_tools(tool_name)',
+    'CREATE INDEX IF NOT EXISTS idx_chunks_tool_use_count ON chunks(tool_use_count)',
+    'CREATE INDEX IF NOT EXISTS idx_chunks_tool_error_count ON chunks(tool_error_count)',
+    'CREATE INDEX IF NOT EXISTS idx_chunks_code_block_count ON chunks(code_block_count)',
+    'CREATE INDEX IF NOT EXISTS idx_chunks_spawn_depth ON chunks(spawn_depth)',
+  ];
+  for (const sql of indexes) {
+    database.exec(sql);
+  }
+
+  // Backfill in rowid-bounded batches so large stores never hold all content at once
+  const BATCH_SIZE = 500;
+  const selectBatch = database.prepare(
+    `SELECT rowid, id, content FROM chunks
+     WHERE rowid > ? AND content LIKE '%[Tool:%'
+     ORDER BY rowid LIMIT ?`,
+  );
+  const insert = database.prepare(
+    'INSERT OR IGNORE INTO chunk_tools (chunk_id, tool_name) VALUES (?, ?)',
+  );
+  database.transaction(() => {
+    let lastRowid = 0;
+    for (;;) {
+      const rows = selectBatch.all(lastRowid, BATCH_SIZE) as Array<{
+        rowid: number;
+        id: string;
+        content: string;
+      }>;
+      if (rows.length === 0) break;
+      for (const row of rows) {
+        for (const match of row.content.matchAll(/\[Tool:([\w-]+)\]/g)) {
+          insert.run(row.id, match[1]);
+        }
+      }
+      lastRowid = rows[rows.length - 1].rowid;
+    }
+  })();
+
+  database.exec('INSERT OR REPLACE INTO schema_version (version) VALUES (22)');
+}
+
+/**
+ * Migrate from v22 to v23 (add commit patches, and pull requests with their
+ * chunk links).
+ */
+function migrateToV23(database: Database.Database): void {
+  try {
+    database.exec('ALTER TABLE git_commits ADD COLUMN patch TEXT');
+  } catch (error) {
+    const message = errorMessage(error);
+    if (!message.includes('duplicate column')) {
+      throw error;
+    }
+  }
+
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS pull_requests (
+      url TEXT PRIMARY KEY,
+      number INTEGER NOT NULL,
+      project_path TEXT NOT NULL,
+      session_id TEXT NOT NULL,
+      session_slug TEXT NOT NULL,
+      title TEXT NOT NULL DEFAULT '',
+      opened_at TEXT NOT NULL,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+  database.exec(
+    'CREATE INDEX IF NOT EXISTS idx_pull_requests_session ON pull_requests(session_id)',
+  );
+
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS pull_request_chunks (
+      url TEXT NOT NULL,
+      chunk_id TEXT NOT NULL,
+      PRIMARY KEY (url, chunk_id),
+      FOREIGN KEY (url) REFERENCES pull_requests(url) ON DELETE CASCADE,
+      FOREIGN KEY (chunk_id) REFERENCES chunks(id) ON DELETE CASCADE
+    )
+  `);
+  database.exec(
+    'CREATE INDEX IF NOT EXISTS idx_pull_request_chunks_chunk ON pull_request_chunks(chunk_id)',
+  );
+
+  database.exec('INSERT OR REPLACE INTO schema_version (version) VALUES (23)');
+}
+
+/**
+ * Migrate from v23 to v24 (number chunks by an ingestion sequence that never
+ * moves backwards; existing chunks keep their rowid order).
+ */
+function migrateToV24(database: Database.Database): void {
+  try {
+    database.exec('ALTER TABLE chunks ADD COLUMN ingest_seq INTEGER');
+  } catch (error) {
+    const message = errorMessage(error);
+    if (!message.includes('duplicate column')) {
+      throw error;
+    }
+  }
+
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS ingestion_sequence (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      value INTEGER NOT NULL
+    )
+  `);
+  database.exec('UPDATE chunks SET ingest_seq = rowid WHERE ingest_seq IS NULL');
+  database.exec('INSERT OR IGNORE INTO ingestion_sequence (id, value) VALUES (1, 0)');
+  database.exec(`
+    UPDATE ingestion_sequence
+    SET value = MAX(value, (SELECT COALESCE(MAX(ingest_seq), 0) FROM chunks))
+    WHERE id = 1
+  `);
+  database.exec('CREATE INDEX IF NOT EXISTS idx_chunks_ingest_seq ON chunks(ingest_seq)');
+  database.exec(`
+    CREATE TRIGGER IF NOT EXISTS chunks_ingest_seq AFTER INSERT ON chunks BEGIN
+      UPDATE ingestion_sequence SET value = value + 1 WHERE id = 1;
+      UPDATE chunks SET ingest_seq = (SELECT value FROM ingestion_sequence WHERE id = 1)
+      WHERE rowid = new.rowid;
+    END
+  `);
+
+  database.exec('INSERT OR REPLACE INTO schema_version (version) VALUES (24)');
+}
+
 /**
  * Extract sessionId and cwd from first few lines of a JSONL file.
  */
@@ -0,0 +1,168 @@
+/**
+ * Persistent repo map tag cache.
+ *
+ * Stores parsed tags per file, keyed by project path and relative path, so
+ * `buildRepoMap` is warm from the first call in any process. Each row records
+ * the file's mtime and content hash at parse time and the parser version that
+ * produced the tags; rows from another parser version are discarded on load.
+ */
+
+import type Database from 'better-sqlite3-multiple-ciphers';
+import { getDb } from './db.js';
+import type { Tag } from '../repomap/parser.js';
+
+/** Tags persisted for a single file. */
+export interface PersistedFileTags {
+  relativePath: string;
+  mtimeMs: number;
+  contentHash: string;
+  tags: Tag[];
+}
+
+/** A project with persisted tags. */
+export interface RepoMapCacheProject {
+  projectPath: string;
+  fileCount: number;
+  updatedAt: string;
+}
+
+/**
+ * Create the repomap_tags table if it doesn't exist yet.
+ */
+function ensureTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS repomap_tags (
+      project_path TEXT NOT NULL,
+      relative_path TEXT NOT NULL,
+      mtime_ms REAL NOT NULL,
+      content_hash TEXT NOT NULL,
+      parser_version INTEGER NOT NULL,
+      tags TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      PRIMARY KEY (project_path, relative_path)
+    )
+  `);
+}
+
+/**
+ * Load persisted tags for a project.
+ * When a parser version is given, rows written by a different version are
+ * deleted rather than returned; readers that don't own the cache omit it.
+ */
+export function loadRepoMapTags(
+  projectPath: string,
+  parserVersion?: number,
+): Map<string, PersistedFileTags> {
+  const db = getDb();
+  ensureTable(db);
+
+  if (parserVersion !== undefined) {
+    db.prepare('DELETE FROM repomap_tags WHERE project_path = ? AND parser_version != ?').run(
+      projectPath,
+      parserVersion,
+    );
+  }
+
+  const rows = db
+    .prepare(
+      `SELECT relative_path, mtime_ms, content_hash, tags
+       FROM repomap_tags WHERE project_path = ?`,
+    )
+    .all(projectPath) as Array<{
+    relative_path: string;
+    mtime_ms: number;
+    content_hash: string;
+    tags: string;
+  }>;
+
+  const result = new Map<string, PersistedFileTags>();
+  for (const row of rows) {
+    result.set(row.relative_path, {
+      relativePath: row.relative_path,
+      mtimeMs: row.mtime_ms,
+      contentHash: row.content_hash,
+      tags: JSON.parse(row.tags),
+    });
+  }
+  return result;
+}
+
+/**
+ * Write parsed tags and drop entries for removed files, in one transaction.
+ */
+export function saveRepoMapTags(
+  projectPath: string,
+  parserVersion: number,
+  entries: PersistedFileTags[],
+  removedPaths: string[] = [],
+): void {
+  if (entries.length === 0 && removedPaths.length === 0) return;
+
+  const db = getDb();
+  ensureTable(db);
+
+  const upsert = db.prepare(`
+    INSERT INTO repomap_tags
+      (project_path, relative_path, mtime_ms, content_hash, parser_version, tags, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT (project_path, relative_path) DO UPDATE SET
+      mtime_ms = excluded.mtime_ms,
+      content_hash = excluded.content_hash,
+      parser_version = excluded.parser_version,
+      tags = excluded.tags,
+      updated_at = excluded.updated_at
+  `);
+  const remove = db.prepare(
+    'DELETE FROM repomap_tags WHERE project_path = ? AND relative_path = ?',
+  );
+
+  const now = new Date().toISOString();
+  db.transaction(() => {
+    for (const entry of entries) {
+      upsert.run(
+        projectPath,
+        entry.relativePath,
+        entry.mtimeMs,
+        entry.contentHash,
+        parserVersion,
+        JSON.stringify(entry.tags),
+        now,
+      );
+    }
+    for (const path of removedPaths) {
+      remove.run(projectPath, path);
+    }
+  })();
+}
+
+/**
+ * List projects that have persisted tags.
+ */
+export function getRepoMapCacheProjects(): RepoMapCacheProject[] {
+  const db = getDb();
+  ensureTable(db);
+
+  const rows = db
+    .prepare(
+      `SELECT project_path, COUNT(*) AS file_count, MAX(updated_at) AS updated_at
+       FROM repomap_tags GROUP BY project_path ORDER BY project_path`,
+    )
+    .all() as Array<{ project_path: string; file_count: number; updated_at: string }>;
+
+  return rows.map((row) => ({
+    projectPath: row.project_path,
+    fileCount: row.file_count,
+    updatedAt: row.updated_at,
+  }));
+}
+
+/**
+ * Delete all persisted tags for a project.
+ * @returns Number of file entries deleted
+ */
+export function deleteRepoMapCache(projectPath: string): number {
+  const db = getDb();
+  ensureTable(db);
+
+  return db.prepare('DELETE FROM repomap_tags WHERE project_path = ?').run(projectPath).changes;
+}
@@ -0,0 +1,116 @@
+/**
+ * Repo map snapshots.
+ *
+ * Stores the definitions per file of a project's repo map at the end of each
+ * session, so the next session can report how the codebase's structure
+ * changed since. Only the most recent snapshots of each project are kept.
+ */
+
+import type Database from 'better-sqlite3-multiple-ciphers';
+import { getDb } from './db.js';
+import type { Tag } from '../repomap/parser.js';
+
+/** A definition recorded in a snapshot. */
+export interface SnapshotDefinition {
+  name: string;
+  type: Tag['type'];
+}
+
+/** A stored repo map snapshot. */
+export interface RepoMapSnapshot {
+  projectPath: string;
+  sessionId: string;
+  createdAt: string;
+  /** Relative file path → definitions in the file. */
+  files: Map<string, SnapshotDefinition[]>;
+}
+
+/** Snapshots kept per project; older ones are pruned on save. */
+const MAX_SNAPSHOTS_PER_PROJECT = 5;
+
+/**
+ * Create the repomap_snapshots table if it doesn't exist yet.
+ */
+function ensureTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS repomap_snapshots (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      project_path TEXT NOT NULL,
+      session_id TEXT NOT NULL,
+      files TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    )
+  `);
+  db.exec(
+    'CREATE INDEX IF NOT EXISTS idx_repomap_snapshots_project ON repomap_snapshots(project_path, id)',
+  );
+}
+
+/**
+ * Store a snapshot of a project's definitions and prune old snapshots.
+ */
+export function saveRepoMapSnapshot(
+  projectPath: string,
+  sessionId: string,
+  files: Map<string, SnapshotDefinition[]>,
+): void {
+  const db = getDb();
+  ensureTable(db);
+
+  const insert = db.prepare(
+    'INSERT INTO repomap_snapshots (project_path, session_id, files, created_at) VALUES (?, ?, ?, ?)',
+  );
+  const prune = db.prepare(`
+    DELETE FROM repomap_snapshots
+    WHERE project_path = ? AND id NOT IN (
+      SELECT id FROM repomap_snapshots WHERE project_path = ? ORDER BY id DESC LIMIT ?
+    )
+  `);
+
+  db.transaction(() => {
+    insert.run(
+      projectPath,
+      sessionId,
+      JSON.stringify(Object.fromEntries(files)),
+      new Date().toISOString(),
+    );
+    prune.run(projectPath, projectPath, MAX_SNAPSHOTS_PER_PROJECT);
+  })();
+}
+
+/**
+ * Get the most recent snapshot of a project, or null if none was stored.
+ */
+export function getLatestRepoMapSnapshot(projectPath: string): RepoMapSnapshot | null {
+  const db = getDb();
+  ensureTable(db);
+
+  const row = db
+    .prepare(
+      `SELECT project_path, session_id, files, created_at FROM repomap_snapshots
+       WHERE project_path = ? ORDER BY id DESC LIMIT 1`,
+    )
+    .get(projectPath) as
+    | { project_path: string; session_id: string; files: string; created_at: string }
+    | undefined;
+  if (!row) return null;
+
+  return {
+    projectPath: row.project_path,
+    sessionId: row.session_id,
+    createdAt: row.created_at,
+    files: new Map(Object.entries(JSON.parse(row.files) as Record<string, SnapshotDefinition[]>)),
+  };
+}
+
+/**
+ * Delete all snapshots of a project.
+ * @returns Number of snapshots deleted
+ */
+export function deleteRepoMapSnapshots(projectPath: string): number {
+  const db = getDb();
+  ensureTable(db);
+
+  return db.prepare('DELETE FROM repomap_snapshots WHERE project_path = ?').run(projectPath)
+    .changes;
+}
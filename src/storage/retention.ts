@@ -0,0 +1,256 @@
+/**
+ * Retention policy planning and pruning.
+ *
+ * A retention plan selects chunks to prune per project by age and chunk
+ * count, then across all projects by database size. Pinned chunks and chunks
+ * returned by retrieval within the keep window are never selected. Planning is
+ * read-only, so the same plan backs both the dry-run report and the pruning run.
+ */
+
+import { getDb } from './db.js';
+import { deleteChunks } from './chunk-store.js';
+import { deleteIndexEntriesForChunks } from './index-entry-store.js';
+import { vectorStore } from './vector-store.js';
+
+/** Maximum IDs per DELETE statement. */
+const PRUNE_BATCH_SIZE = 500;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Limits that can be set per project. 0 disables a limit. */
+export interface RetentionLimits {
+  /** Prune chunks older than this many days */
+  maxAgeDays: number;
+  /** Maximum chunks to keep in the project (oldest pruned first) */
+  maxChunks: number;
+  /** Keep chunks returned by retrieval within this many days */
+  keepRetrievedWithinDays: number;
+}
+
+/** Full retention policy: defaults, per-project overrides, and global limits. */
+export interface RetentionPolicy extends RetentionLimits {
+  /** Prune oldest chunks across all projects until the database fits this size */
+  maxDbSizeMb: number;
+  /** Allow pinned chunks to be pruned */
+  includePinned: boolean;
+  /** Per-project overrides keyed by project slug */
+  projects: Record<string, Partial<RetentionLimits>>;
+}
+
+/** Per-project section of a retention plan. */
+export interface ProjectRetentionReport {
+  project: string;
+  /** Limits in effect for the project after applying overrides */
+  limits: RetentionLimits;
+  totalChunks: number;
+  /** Chunks protected by pinning or recent retrieval */
+  protectedChunks: number;
+  /** Chunks selected because they exceed maxAgeDays */
+  byAge: number;
+  /** Chunks selected because the project exceeds maxChunks */
+  byCount: number;
+  /** Chunks selected because the database exceeds maxDbSizeMb */
+  bySize: number;
+}
+
+/** Chunks a retention run would prune, and why. */
+export interface RetentionPlan {
+  /** Projects with chunks, sorted by slug */
+  projects: ProjectRetentionReport[];
+  /** All chunk IDs selected for pruning */
+  chunkIds: string[];
+  /** Bytes used by live pages in the database */
+  dbSizeBytes: number;
+  /** Configured size limit in bytes (0 = unlimited) */
+  maxDbSizeBytes: number;
+}
+
+/** Counts of rows removed by a pruning run. */
+export interface RetentionPruneResult {
+  chunksDeleted: number;
+  vectorsDeleted: number;
+  indexEntriesDeleted: number;
+  edgesDeleted: number;
+  clustersDeleted: number;
+}
+
+interface CandidateRow {
+  id: string;
+  session_slug: string;
+  start_time: string;
+  pinned: number | null;
+  last_retrieved: number | null;
+}
+
+/**
+ * Resolve the limits for a project by applying its override to the defaults.
+ */
+export function resolveRetentionLimits(policy: RetentionPolicy, project: string): RetentionLimits {
+  const override = policy.projects[project] ?? {};
+  return {
+    maxAgeDays: override.maxAgeDays ?? policy.maxAgeDays,
+    maxChunks: override.maxChunks ?? policy.maxChunks,
+    keepRetrievedWithinDays: override.keepRetrievedWithinDays ?? policy.keepRetrievedWithinDays,
+  };
+}
+
+/**
+ * Get the bytes used by live (non-free) pages in the database.
+ */
+export function getDbSizeBytes(): number {
+  const db = getDb();
+  const pageCount = db.pragma('page_count', { simple: true }) as number;
+  const freePages = db.pragma('freelist_count', { simple: true }) as number;
+  const pageSize = db.pragma('page_size', { simple: true }) as number;
+  return (pageCount - freePages) * pageSize;
+}
+
+/**
+ * Build a retention plan without modifying the database.
+ *
+ * @param policy - Retention policy to evaluate
+ * @param now - Reference time in ms (default: Date.now())
+ */
+export function planRetention(policy: RetentionPolicy, now: number = Date.now()): RetentionPlan {
+  const db = getDb();
+  const rows = db
+    .prepare(
+      `SELECT c.id, c.session_slug, c.start_time, c.pinned, f.last_retrieved
+       FROM chunks c
+       LEFT JOIN (
+         SELECT chunk_id, CAST(strftime('%s', MAX(returned_at)) AS INTEGER) AS last_retrieved
+         FROM retrieval_feedback GROUP BY chunk_id
+       ) f ON f.chunk_id = c.id
+       ORDER BY c.start_time ASC, c.id ASC`,
+    )
+    .all() as CandidateRow[];
+
+  const byProject = new Map<string, CandidateRow[]>();
+  for (const row of rows) {
+    const list = byProject.get(row.session_slug);
+    if (list) list.push(row);
+    else byProject.set(row.session_slug, [row]);
+  }
+
+  const selected = new Set<string>();
+  const reports = new Map<string, ProjectRetentionReport>();
+  const protectedIds = new Set<string>();
+
+  for (const [project, chunks] of byProject) {
+    const limits = resolveRetentionLimits(policy, project);
+    const keepAfter =
+      limits.keepRetrievedWithinDays > 0 ? now - limits.keepRetrievedWithinDays * MS_PER_DAY : null;
+    const unprotected = chunks.filter((row) => {
+      const pinned = row.pinned === 1 && !policy.includePinned;
+      const recent =
+        keepAfter !== null && row.last_retrieved !== null && row.last_retrieved * 1000 >= keepAfter;
+      if (pinned || recent) protectedIds.add(row.id);
+      return !pinned && !recent;
+    });
+
+    const report: ProjectRetentionReport = {
+      project,
+      limits,
+      totalChunks: chunks.length,
+      protectedChunks: chunks.length - unprotected.length,
+      byAge: 0,
+      byCount: 0,
+      bySize: 0,
+    };
+
+    if (limits.maxAgeDays > 0) {
+      const cutoff = now - limits.maxAgeDays * MS_PER_DAY;
+      for (const row of unprotected) {
+        if (Date.parse(row.start_time) < cutoff) {
+          selected.add(row.id);
+          report.byAge++;
+        }
+      }
+    }
+
+    if (limits.maxChunks > 0) {
+      let excess = chunks.length - report.byAge - limits.maxChunks;
+      for (const row of unprotected) {
+        if (excess <= 0) break;
+        if (selected.has(row.id)) continue;
+        selected.add(row.id);
+        report.byCount++;
+        excess--;
+      }
+    }
+
+    reports.set(project, report);
+  }
+
+  const dbSizeBytes = getDbSizeBytes();
+  const maxDbSizeBytes = policy.maxDbSizeMb * 1024 * 1024;
+
+  if (maxDbSizeBytes > 0 && dbSizeBytes > maxDbSizeBytes && rows.length > 0) {
+    // Estimate how many chunks must go from the average footprint per chunk
+    const bytesPerChunk = dbSizeBytes / rows.length;
+    let needed = Math.ceil((dbSizeBytes - maxDbSizeBytes) / bytesPerChunk) - selected.size;
+
+    for (const row of rows) {
+      if (needed <= 0) break;
+      if (selected.has(row.id) || protectedIds.has(row.id)) continue;
+      selected.add(row.id);
+      reports.get(row.session_slug)!.bySize++;
+      needed--;
+    }
+  }
+
+  return {
+    projects: [...reports.values()].sort((a, b) => a.project.localeCompare(b.project)),
+    chunkIds: rows.filter((row) => selected.has(row.id)).map((row) => row.id),
+    dbSizeBytes,
+    maxDbSizeBytes,
+  };
+}
+
+/**
+ * Delete edges whose source or target chunk no longer exists.
+ * FK cascades normally prevent these; this catches rows left behind when
+ * foreign keys were disabled.
+ */
+export function deleteDanglingEdges(): number {
+  const db = getDb();
+  const result = db
+    .prepare(
+      `DELETE FROM edges
+       WHERE source_chunk_id NOT IN (SELECT id FROM chunks)
+          OR target_chunk_id NOT IN (SELECT id FROM chunks)`,
+    )
+    .run();
+  return result.changes;
+}
+
+/**
+ * Prune chunks and everything derived from them: vectors, index entries,
+ * dangling edges, and clusters left without members.
+ */
+export async function pruneChunks(chunkIds: string[]): Promise<RetentionPruneResult> {
+  const result: RetentionPruneResult = {
+    chunksDeleted: 0,
+    vectorsDeleted: 0,
+    indexEntriesDeleted: 0,
+    edgesDeleted: 0,
+    clustersDeleted: 0,
+  };
+  if (chunkIds.length === 0) return result;
+
+  for (let i = 0; i < chunkIds.length; i += PRUNE_BATCH_SIZE) {
+    const batch = chunkIds.slice(i, i + PRUNE_BATCH_SIZE);
+    result.vectorsDeleted += await vectorStore.deleteBatch(batch);
+    result.indexEntriesDeleted += await deleteIndexEntriesForChunks(batch);
+    result.chunksDeleted += deleteChunks(batch);
+  }
+
+  result.edgesDeleted = deleteDanglingEdges();
+  result.clustersDeleted = getDb()
+    .prepare(
+      'DELETE FROM clusters WHERE id NOT IN (SELECT DISTINCT cluster_id FROM chunk_clusters)',
+    )
+    .run().changes;
+
+  return result;
+}
@@ -12,12 +12,16 @@ CREATE TABLE IF NOT EXISTS chunks (
   content TEXT NOT NULL,       -- Full chunk text
   code_block_count INTEGER DEFAULT 0,
   tool_use_count INTEGER DEFAULT 0,
+  tool_error_count INTEGER DEFAULT 0, -- Tool calls whose result was an error
   approx_tokens INTEGER DEFAULT 0,
   created_at TEXT DEFAULT CURRENT_TIMESTAMP,
   agent_id TEXT,               -- Agent that created this chunk (null = main UI agent)
   spawn_depth INTEGER DEFAULT 0, -- Nesting level: 0=main, 1=sub-agent, 2=sub-sub-agent
   project_path TEXT,             -- Full cwd path for disambiguation
-  team_name TEXT                 -- Team name for agent team sessions (null for non-team)
+  team_name TEXT,                -- Team name for agent team sessions (null for non-team)
+  pinned INTEGER DEFAULT 0,      -- 1 = protected from forget/retention, boosted in search
+  tags TEXT,                     -- JSON array of user-supplied tags (notes only)
+  ingest_seq INTEGER             -- Ingestion sequence number (set by chunks_ingest_seq)
 );
 
 -- Clusters for topic grouping
@@ -65,6 +69,7 @@ CREATE INDEX IF NOT EXISTS idx_chunks_agent_id ON chunks(agent_id);
 CREATE INDEX IF NOT EXISTS idx_chunks_team_name ON chunks(team_name);
 CREATE INDEX IF NOT EXISTS idx_chunks_agent_start ON chunks(agent_id, start_time);
 CREATE INDEX IF NOT EXISTS idx_chunks_team_start ON chunks(team_name, start_time);
+CREATE INDEX IF NOT EXISTS idx_chunks_pinned ON chunks(pinned);
 CREATE INDEX IF NOT EXISTS idx_edges_source ON edges(source_chunk_id);
 CREATE INDEX IF NOT EXISTS idx_edges_target ON edges(target_chunk_id);
 CREATE INDEX IF NOT EXISTS idx_edges_type ON edges(edge_type);
@@ -246,5 +251,98 @@ CREATE TABLE IF NOT EXISTS entity_mentions (
 CREATE INDEX IF NOT EXISTS idx_entity_mentions_entity ON entity_mentions(entity_id);
 CREATE INDEX IF NOT EXISTS idx_entity_mentions_chunk ON entity_mentions(chunk_id);
 
--- Insert initial version if not exists (v16 adds entity tables)
-INSERT OR IGNORE INTO schema_version (version) VALUES (16);
+-- Streaming archive import progress (one row per archive, for resumable imports)
+CREATE TABLE IF NOT EXISTS archive_imports (
+  archive_id TEXT PRIMARY KEY,
+  source_path TEXT NOT NULL,
+  records_committed INTEGER NOT NULL DEFAULT 0,
+  started_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  completed_at TEXT
+);
+
+-- Links from chunks to the files and symbols they touch or mention
+CREATE TABLE IF NOT EXISTS chunk_code_refs (
+  chunk_id TEXT NOT NULL,
+  file_path TEXT NOT NULL,       -- Relative to the project root when inside it
+  symbol TEXT NOT NULL DEFAULT '', -- Empty for file-level links
+  source TEXT NOT NULL,          -- 'tool' | 'mention' | 'symbol'
+  PRIMARY KEY (chunk_id, file_path, symbol),
+  FOREIGN KEY (chunk_id) REFERENCES chunks(id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS idx_chunk_code_refs_file ON chunk_code_refs(file_path);
+CREATE INDEX IF NOT EXISTS idx_chunk_code_refs_chunk ON chunk_code_refs(chunk_id);
+
+-- Git commits made during sessions, resolved against the project's repository
+CREATE TABLE IF NOT EXISTS git_commits (
+  sha TEXT PRIMARY KEY,          -- Full SHA, or the abbreviated one when unresolved
+  project_path TEXT NOT NULL,
+  session_id TEXT NOT NULL,
+  session_slug TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  committed_at TEXT,             -- Null when the commit could not be read from git
+  files TEXT NOT NULL DEFAULT '[]', -- JSON array of {path, insertions, deletions}
+  patch TEXT,                    -- Size-capped patch; null when unavailable
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_git_commits_session ON git_commits(session_id);
+
+-- Chunks that produced each commit (many-to-many)
+CREATE TABLE IF NOT EXISTS commit_chunks (
+  sha TEXT NOT NULL,
+  chunk_id TEXT NOT NULL,
+  PRIMARY KEY (sha, chunk_id),
+  FOREIGN KEY (sha) REFERENCES git_commits(sha) ON DELETE CASCADE,
+  FOREIGN KEY (chunk_id) REFERENCES chunks(id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS idx_commit_chunks_chunk ON commit_chunks(chunk_id);
+
+-- Pull requests opened during sessions with `gh pr create`
+CREATE TABLE IF NOT EXISTS pull_requests (
+  url TEXT PRIMARY KEY,
+  number INTEGER NOT NULL,
+  project_path TEXT NOT NULL,
+  session_id TEXT NOT NULL,
+  session_slug TEXT NOT NULL,
+  title TEXT NOT NULL DEFAULT '', -- Empty when not given on the command line
+  opened_at TEXT NOT NULL,
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_pull_requests_session ON pull_requests(session_id);
+
+-- Chunks that opened each pull request (many-to-many)
+CREATE TABLE IF NOT EXISTS pull_request_chunks (
+  url TEXT NOT NULL,
+  chunk_id TEXT NOT NULL,
+  PRIMARY KEY (url, chunk_id),
+  FOREIGN KEY (url) REFERENCES pull_requests(url) ON DELETE CASCADE,
+  FOREIGN KEY (chunk_id) REFERENCES chunks(id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS idx_pull_request_chunks_chunk ON pull_request_chunks(chunk_id);
+
+-- Tools each chunk used, for faceted search
+CREATE TABLE IF NOT EXISTS chunk_tools (
+  chunk_id TEXT NOT NULL,
+  tool_name TEXT NOT NULL,
+  PRIMARY KEY (chunk_id, tool_name),
+  FOREIGN KEY (chunk_id) REFERENCES chunks(id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS idx_chunk_tools_tool ON chunk_tools(tool_name);
+
+-- Ingestion sequence: a counter that only grows, unlike rowids, which SQLite
+-- reuses after the newest rows are deleted. idx_chunks_ingest_seq is created by
+-- migration v24, since older chunks tables lack the column until then.
+CREATE TABLE IF NOT EXISTS ingestion_sequence (
+  id INTEGER PRIMARY KEY CHECK (id = 1),
+  value INTEGER NOT NULL
+);
+INSERT OR IGNORE INTO ingestion_sequence (id, value) VALUES (1, 0);
+
+CREATE TRIGGER IF NOT EXISTS chunks_ingest_seq AFTER INSERT ON chunks BEGIN
+  UPDATE ingestion_sequence SET value = value + 1 WHERE id = 1;
+  UPDATE chunks SET ingest_seq = (SELECT value FROM ingestion_sequence WHERE id = 1)
+  WHERE rowid = new.rowid;
+END;
+
+-- Insert initial version if not exists (v24 adds the ingestion sequence)
+INSERT OR IGNORE INTO schema_version (version) VALUES (24);
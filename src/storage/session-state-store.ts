@@ -110,6 +110,21 @@ export function getRecentSessionStates(project: string, limit: number = 5): Stor
   return rows.map(rowToSessionState);
 }
 
+/**
+ * Get recent session states for a project directory, ordered by ended_at descending.
+ */
+export function getRecentSessionStatesByPath(
+  projectPath: string,
+  limit: number = 10,
+): StoredSessionState[] {
+  const db = getDb();
+  const rows = db
+    .prepare('SELECT * FROM session_states WHERE project_path = ? ORDER BY ended_at DESC LIMIT ?')
+    .all(projectPath, limit) as DbSessionStateRow[];
+
+  return rows.map(rowToSessionState);
+}
+
 /**
  * Get session states within a time range for a project.
  */
@@ -128,6 +143,48 @@ export function getSessionStatesByTimeRange(
   return rows.map(rowToSessionState);
 }
 
+/**
+ * Get every file touched by a project's sessions that ended before a cutoff.
+ */
+export function getFilesTouchedBefore(project: string, before: string): string[] {
+  const db = getDb();
+  const rows = db
+    .prepare(
+      `SELECT DISTINCT f.value AS path
+       FROM session_states s, json_each(s.files_touched) f
+       WHERE s.session_slug = ? AND s.ended_at < ?`,
+    )
+    .all(project, before) as Array<{ path: string }>;
+
+  return rows.map((r) => r.path);
+}
+
+/**
+ * Get session states for a project directory whose sessions touched a file,
+ * ordered by ended_at descending. `paths` lists the forms the file may have
+ * been recorded under (absolute, relative).
+ */
+export function getSessionStatesTouchingFile(
+  projectPath: string,
+  paths: string[],
+  limit: number = 10,
+): StoredSessionState[] {
+  if (paths.length === 0) return [];
+
+  const db = getDb();
+  const placeholders = paths.map(() => '?').join(', ');
+  const rows = db
+    .prepare(
+      `SELECT * FROM session_states s
+       WHERE s.project_path = ?
+         AND EXISTS (SELECT 1 FROM json_each(s.files_touched) f WHERE f.value IN (${placeholders}))
+       ORDER BY s.ended_at DESC LIMIT ?`,
+    )
+    .all(projectPath, ...paths, limit) as DbSessionStateRow[];
+
+  return rows.map(rowToSessionState);
+}
+
 /**
  * Delete session state for a session.
  */
@@ -193,6 +250,7 @@ export function searchSessionSummaries(
   query: string,
   project?: string,
   limit: number = 5,
+  before?: string,
 ): StoredSessionState[] {
   const db = getDb();
 
@@ -212,6 +270,10 @@ export function searchSessionSummaries(
     sql += ' AND session_slug = ?';
     params.push(project);
   }
+  if (before) {
+    sql += ' AND ended_at < ?';
+    params.push(before);
+  }
   sql += ' ORDER BY ended_at DESC LIMIT ?';
   params.push(limit);
 
@@ -74,6 +74,8 @@ export interface StoredChunk {
   codeBlockCount: number;
   /** Number of tool use blocks in content */
   toolUseCount: number;
+  /** Number of tool calls whose result was an error */
+  toolErrorCount: number;
   /** Approximate token count for budget calculation */
   approxTokens: number;
   /** ISO timestamp when chunk was stored */
@@ -86,6 +88,10 @@ export interface StoredChunk {
   projectPath: string | null;
   /** Team name for agent team sessions (null for non-team sessions) */
   teamName: string | null;
+  /** Pinned chunks are boosted in search and protected from forget/retention */
+  pinned: boolean;
+  /** User-supplied tags (notes only, empty for ingested chunks) */
+  tags: string[];
 }
 
 /**
@@ -113,6 +119,10 @@ export interface ChunkInput {
   codeBlockCount: number;
   /** Tool use count */
   toolUseCount: number;
+  /** Failed tool call count (optional, defaults to 0) */
+  toolErrorCount?: number;
+  /** Names of the tools used (optional), indexed for faceted search */
+  toolNames?: string[];
   /** Approximate tokens */
   approxTokens: number;
   /** Agent ID (optional, defaults to 'ui') */
@@ -123,6 +133,10 @@ export interface ChunkInput {
   projectPath?: string;
   /** Team name for agent team sessions */
   teamName?: string;
+  /** Pin the chunk (optional, defaults to false) */
+  pinned?: boolean;
+  /** User-supplied tags (optional) */
+  tags?: string[];
 }
 
 /**
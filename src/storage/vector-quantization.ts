@@ -0,0 +1,174 @@
+/**
+ * Vector quantization for the in-memory embedding index.
+ *
+ * Two encodings shrink the vectors `VectorStore` holds in memory:
+ *
+ * - **int8**: each dimension scaled by the vector's largest magnitude to
+ *   [-127, 127]. 1 byte per dimension; cosine similarity is nearly preserved.
+ * - **binary**: one sign bit per dimension, compared by Hamming distance.
+ *   The fraction of differing bits estimates the angle between vectors, so
+ *   Hamming distance / dims approximates angular distance.
+ *
+ * Quantized distances only pick candidates; the store re-ranks the top
+ * candidates with the full-precision Float32 embeddings kept in SQLite.
+ *
+ * Quantized blobs are persisted next to the float blob in the
+ * `embedding_quantized` column, with the encoding in `quantization`. Rows
+ * written by other code paths (imports, reindex) leave both NULL and are
+ * quantized when the store next loads them.
+ *
+ * @module storage/vector-quantization
+ */
+
+import type Database from 'better-sqlite3-multiple-ciphers';
+
+/** In-memory vector encoding (`vectors.quantization` in config). */
+export type QuantizationMode = 'none' | 'int8' | 'binary';
+
+/** A quantized encoding. */
+export type QuantizedMode = Exclude<QuantizationMode, 'none'>;
+
+/** A quantized vector: Int8Array for int8, packed sign bits for binary. */
+export type QuantizedVector = Int8Array | Uint8Array;
+
+type VectorTable = 'vectors' | 'index_vectors';
+
+/** Set-bit count of every byte value. */
+const POPCOUNT = Uint8Array.from({ length: 256 }, (_, byte) => {
+  let count = 0;
+  for (let b = byte; b > 0; b >>= 1) count += b & 1;
+  return count;
+});
+
+/**
+ * Scale a vector to int8 by its largest magnitude.
+ */
+export function quantizeInt8(embedding: ArrayLike<number>): Int8Array {
+  let maxAbs = 0;
+  for (let i = 0; i < embedding.length; i++) {
+    maxAbs = Math.max(maxAbs, Math.abs(embedding[i]));
+  }
+  const codes = new Int8Array(embedding.length);
+  if (maxAbs === 0) return codes;
+  const scale = 127 / maxAbs;
+  for (let i = 0; i < embedding.length; i++) {
+    codes[i] = Math.round(embedding[i] * scale);
+  }
+  return codes;
+}
+
+/**
+ * Pack the sign of each dimension into bits (set = positive), 8 dimensions per byte.
+ */
+export function quantizeBinary(embedding: ArrayLike<number>): Uint8Array {
+  const bits = new Uint8Array(Math.ceil(embedding.length / 8));
+  for (let i = 0; i < embedding.length; i++) {
+    if (embedding[i] > 0) bits[i >> 3] |= 1 << (i & 7);
+  }
+  return bits;
+}
+
+/**
+ * Quantize a vector with the given encoding.
+ */
+export function quantize(embedding: ArrayLike<number>, mode: QuantizedMode): QuantizedVector {
+  return mode === 'int8' ? quantizeInt8(embedding) : quantizeBinary(embedding);
+}
+
+/**
+ * Byte length of a quantized vector of the given dimensions.
+ */
+export function quantizedLength(dims: number, mode: QuantizedMode): number {
+  return mode === 'int8' ? dims : Math.ceil(dims / 8);
+}
+
+/**
+ * Serialize a quantized vector for SQLite storage.
+ */
+export function serializeQuantized(vector: QuantizedVector): Buffer {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength);
+}
+
+/**
+ * Deserialize a quantized vector from a SQLite BLOB. The bytes are copied,
+ * so the result doesn't pin the driver's buffer.
+ */
+export function deserializeQuantized(buffer: Buffer, mode: QuantizedMode): QuantizedVector {
+  const bytes = Uint8Array.from(buffer);
+  return mode === 'int8' ? new Int8Array(bytes.buffer) : bytes;
+}
+
+/**
+ * Number of differing bits between two packed bit vectors.
+ */
+export function hammingDistance(a: Uint8Array, b: Uint8Array): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    distance += POPCOUNT[a[i] ^ b[i]];
+  }
+  return distance;
+}
+
+/**
+ * Build a function estimating the angular distance ([0, 1]) from a query to
+ * quantized vectors. int8 vectors are compared with the full-precision query;
+ * binary vectors with the query's own sign bits.
+ */
+export function quantizedDistance(
+  query: ArrayLike<number>,
+  mode: QuantizedMode,
+): (vector: QuantizedVector) => number {
+  if (mode === 'binary') {
+    const bits = quantizeBinary(query);
+    const dims = query.length;
+    return (vector) => hammingDistance(bits, vector as Uint8Array) / dims;
+  }
+
+  let queryNormSq = 0;
+  for (let i = 0; i < query.length; i++) queryNormSq += query[i] * query[i];
+  const queryNorm = Math.sqrt(queryNormSq);
+  return (vector) => {
+    let dotProduct = 0;
+    let normSq = 0;
+    for (let i = 0; i < vector.length; i++) {
+      dotProduct += query[i] * vector[i];
+      normSq += vector[i] * vector[i];
+    }
+    if (queryNorm === 0 || normSq === 0) return 0.5;
+    const cos = Math.max(-1, Math.min(1, dotProduct / (queryNorm * Math.sqrt(normSq))));
+    return Math.acos(cos) / Math.PI;
+  };
+}
+
+/**
+ * Add the quantized blob columns to a vectors table if missing.
+ */
+export function ensureQuantizationColumns(db: Database.Database, table: VectorTable): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some((c) => c.name === 'embedding_quantized')) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN embedding_quantized BLOB DEFAULT NULL`);
+  }
+  if (!columns.some((c) => c.name === 'quantization')) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN quantization TEXT DEFAULT NULL`);
+  }
+}
+
+/**
+ * Store quantized blobs for rows, by rowid, in one transaction.
+ */
+export function saveQuantizedVectors(
+  db: Database.Database,
+  table: VectorTable,
+  mode: QuantizedMode,
+  rows: Array<{ rowid: number; vector: QuantizedVector }>,
+): void {
+  if (rows.length === 0) return;
+  const stmt = db.prepare(
+    `UPDATE ${table} SET embedding_quantized = ?, quantization = ? WHERE rowid = ?`,
+  );
+  db.transaction(() => {
+    for (const row of rows) {
+      stmt.run(serializeQuantized(row.vector), mode, row.rowid);
+    }
+  })();
+}
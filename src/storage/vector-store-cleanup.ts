@@ -14,6 +14,12 @@
 import type Database from 'better-sqlite3-multiple-ciphers';
 import { sqlPlaceholders, isTableNotFoundError } from './db.js';
 
+/**
+ * SQL predicate excluding pinned chunks from TTL/eviction candidates.
+ * Only applies to the chunk vector table — index vectors have no pin flag.
+ */
+const UNPINNED_CONDITION = 'id NOT IN (SELECT id FROM chunks WHERE pinned = 1)';
+
 /**
  * Remove vectors and all related data (chunks, clusters, index entries) by ID.
  *
@@ -87,6 +93,7 @@ export function removeVectorsAndRelated(
 
 /**
  * Find vector IDs that have expired based on their last_accessed timestamp.
+ * Pinned chunks never expire.
  *
  * @param db - Database instance
  * @param tableName - Vector table name
@@ -103,6 +110,7 @@ export function findExpiredVectorIds(
       `
     SELECT id FROM ${tableName}
     WHERE last_accessed < datetime('now', '-' || ? || ' days')
+    ${tableName === 'vectors' ? `AND ${UNPINNED_CONDITION}` : ''}
   `,
     )
     .all(ttlDays) as { id: string }[];
@@ -112,6 +120,7 @@ export function findExpiredVectorIds(
 
 /**
  * Find the oldest vector IDs that exceed a maximum count.
+ * Pinned chunks are never selected for eviction.
  *
  * @param db - Database instance
  * @param tableName - Vector table name
@@ -127,6 +136,7 @@ export function findOldestVectorIds(
     .prepare(
       `
     SELECT id FROM ${tableName}
+    ${tableName === 'vectors' ? `WHERE ${UNPINNED_CONDITION}` : ''}
     ORDER BY last_accessed ASC
     LIMIT ?
   `,
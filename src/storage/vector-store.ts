@@ -3,7 +3,8 @@
  *
  * Provides vector similarity search for chunk embeddings using angular distance.
  * Embeddings are stored as Float32Array blobs in SQLite and loaded into memory
- * on first access for fast brute-force search.
+ * on first access. Small projects are searched by brute force; large ones
+ * through an HNSW approximate nearest-neighbour graph per project.
  *
  * ## Architecture
  *
@@ -13,11 +14,32 @@
  * │  ┌─────────────────────┐    ┌─────────────────────────────┐ │
  * │  │  In-Memory Index    │    │    SQLite Persistence       │ │
  * │  │  Map<id, number[]>  │ ◄──┤  vectors (id, embedding,    │ │
- * │  └─────────────────────┘    │           last_accessed)    │ │
+ * │  │  HNSW per project   │ ◄──┤           last_accessed)    │ │
+ * │  └─────────────────────┘    │  vector_hnsw_nodes          │ │
  * │                             └─────────────────────────────┘ │
  * └─────────────────────────────────────────────────────────────┘
  * ```
  *
+ * ## Approximate Search
+ *
+ * Vectors are partitioned by project. Once a partition holds
+ * `vectors.annMinVectors` vectors, its searches go through an HNSW graph
+ * (`hnsw-index.ts`), built on first search and saved node by node to
+ * `vector_hnsw_nodes` (per model and quantization mode) so later processes
+ * only insert what changed. Graph hits are re-scored with exact angular
+ * distance. Filtered searches (agent, as-of) widen the candidate list when too
+ * few hits pass the filter, and fall back to an exact scan of the partition if
+ * that still isn't enough.
+ *
+ * ## Quantization
+ *
+ * With `vectors.quantization` set to `int8` or `binary`, the in-memory index
+ * holds quantized vectors (`vector-quantization.ts`) instead of `number[]`
+ * (8 bytes per dimension). Quantized distances select
+ * `limit × vectors.rerankMultiplier` candidates, which are re-ranked with
+ * their Float32 embeddings read back from SQLite. Quantized blobs are stored
+ * alongside the float blobs so later loads skip re-quantizing.
+ *
  * ## TTL (Time To Live)
  *
  * Vectors have a `last_accessed` timestamp that is updated when they are
@@ -53,11 +75,11 @@
  * ## Performance Notes
  *
  * - Initial load: O(n) to deserialize all vectors from SQLite
- * - Insert: O(1) amortized (memory + single row insert)
- * - Search: O(n) brute-force (sufficient for <100k vectors)
- * - Memory: ~4KB per vector (1024 dimensions × 4 bytes)
- *
- * For larger scale, consider upgrading to LanceDB or FAISS.
+ * - Insert: O(1) amortized (memory + single row insert), O(log n) when the
+ *   project's HNSW graph is built
+ * - Search: O(n) brute-force below `annMinVectors` per project, O(log n) above
+ * - Memory: ~8KB per vector (1024 dimensions × 8 bytes as `number[]`), 1KB
+ *   with int8 quantization, 128 bytes with binary, plus ~50 bytes per graph link
  *
  * @module storage/vector-store
  */
@@ -67,11 +89,93 @@ import { angularDistance } from '../utils/angular-distance.js';
 import type { VectorSearchResult } from './types.js';
 import { serializeEmbedding, deserializeEmbedding } from '../utils/embedding-utils.js';
 import { getModel } from '../models/model-registry.js';
+import { loadConfig } from '../config/loader.js';
+import { createLogger } from '../utils/logger.js';
 import {
   removeVectorsAndRelated,
   findExpiredVectorIds,
   findOldestVectorIds,
 } from './vector-store-cleanup.js';
+import { HnswIndex } from './hnsw-index.js';
+import {
+  quantize,
+  quantizedLength,
+  quantizedDistance,
+  hammingDistance,
+  serializeQuantized,
+  deserializeQuantized,
+  ensureQuantizationColumns,
+  saveQuantizedVectors,
+  type QuantizationMode,
+  type QuantizedMode,
+  type QuantizedVector,
+} from './vector-quantization.js';
+import {
+  ensureHnswTable,
+  loadHnswNodes,
+  saveHnswNodes,
+  deleteHnswNodes,
+  deleteStaleHnswNodes,
+  clearHnswNodes,
+  type StoredHnswNode,
+} from './hnsw-store.js';
+
+const log = createLogger('vector-store');
+
+/** Approximate nearest-neighbour search settings (`vectors.*` in config). */
+export interface AnnOptions {
+  /** Search large partitions through HNSW graphs. */
+  enabled: boolean;
+  /** Partitions with fewer vectors are searched exactly. */
+  minVectors: number;
+  /** HNSW links per node. */
+  m: number;
+  /** HNSW candidate list size while inserting. */
+  efConstruction: number;
+  /** HNSW candidate list size while searching. */
+  efSearch: number;
+}
+
+/** Default ANN settings, matching the config defaults. */
+export const DEFAULT_ANN_OPTIONS: AnnOptions = {
+  enabled: true,
+  minVectors: 5000,
+  m: 16,
+  efConstruction: 100,
+  efSearch: 64,
+};
+
+/** In-memory encoding settings (`vectors.*` in config). */
+export interface QuantizationOptions {
+  /** How vectors are held in memory. */
+  mode: QuantizationMode;
+  /** Candidates re-ranked at full precision, as a multiple of the result limit. */
+  rerankMultiplier: number;
+}
+
+/** Default quantization settings, matching the config defaults. */
+export const DEFAULT_QUANTIZATION_OPTIONS: QuantizationOptions = {
+  mode: 'none',
+  rerankMultiplier: 4,
+};
+
+/** Times a filtered graph search may widen its candidate list before scanning exactly. */
+const MAX_EF_EXPANSIONS = 2;
+
+/** Ids per metadata lookup query. */
+const METADATA_BATCH_SIZE = 500;
+
+/** A vector row as loaded from SQLite: the quantized blob if current, else the float blob. */
+interface VectorRow {
+  rowid: number;
+  id: string;
+  embedding: Buffer | null;
+  quantized: Buffer | null;
+}
+
+/** A vector held in memory: plain floats, or quantized. */
+type StoredVector = number[] | QuantizedVector;
+
 /**
  * In-memory vector index backed by SQLite for persistence.
  *
@@ -83,7 +187,7 @@ import {
  */
 // Export class for testing (allows creating fresh instances)
 export class VectorStore {
-  private vectors: Map<string, number[]> = new Map();
+  private vectors: Map<string, StoredVector> = new Map();
   private loaded = false;
   /** chunkId → projectSlug index for project-filtered search */
   private chunkProjectIndex: Map<string, string> = new Map();
@@ -91,6 +195,31 @@ export class VectorStore {
   private chunkAgentIndex: Map<string, string> = new Map();
   /** chunkId → teamName index for team-filtered queries */
   private chunkTeamIndex: Map<string, string> = new Map();
+  /** chunkId → start_time index for as-of (point-in-time) search */
+  private chunkTimeIndex: Map<string, string> = new Map();
+  /** partition (project slug, '' when unknown) → vector ids */
+  private partitionIds: Map<string, Set<string>> = new Map();
+  /** vector id → partition */
+  private vectorPartition: Map<string, string> = new Map();
+  /** vector id → SQLite rowid, to detect vectors rewritten since their graph node was saved */
+  private vectorRowids: Map<string, number> = new Map();
+  /** Highest rowid loaded; rows above it were written after the last load or sync */
+  private maxRowid = 0;
+  /** Set when the active model is re-selected: the next operation syncs with SQLite */
+  private syncPending = false;
+
+  /** HNSW graphs of the partitions searched approximately */
+  private hnswGraphs: Map<string, HnswIndex> = new Map();
+  /** Whether persisted nodes of deleted vectors were purged since the last load */
+  private hnswPurged = false;
+  /** ANN overrides given to the constructor (for testing) */
+  private readonly annOverrides: Partial<AnnOptions>;
+  /** Resolved ANN settings, read from config on first use */
+  private annOptions: AnnOptions | null = null;
+  /** Quantization overrides given to the constructor (for testing) */
+  private readonly quantizationOverrides: Partial<QuantizationOptions>;
+  /** Resolved quantization settings, read from config on load */
+  private quantizationOptions: QuantizationOptions | null = null;
 
   /** The model ID to filter vectors by. Set via setModelId(). */
   private modelId: string = 'jina-small';
@@ -105,22 +234,33 @@ export class VectorStore {
   constructor(options?: {
     tableName?: 'vectors' | 'index_vectors';
     metadataTable?: string | null;
+    ann?: Partial<AnnOptions>;
+    quantization?: Partial<QuantizationOptions>;
   }) {
     this.tableName = options?.tableName ?? 'vectors';
     this.metadataTable = options?.metadataTable ?? null;
+    this.annOverrides = options?.ann ?? {};
+    this.quantizationOverrides = options?.quantization ?? {};
   }
 
   /**
    * Set the active model ID for this vector store.
    * Only vectors matching this model_id are loaded and returned from search.
+   *
+   * Re-selecting the current model keeps the loaded vectors and graphs, and
+   * the next operation picks up vectors other processes wrote since.
    */
   setModelId(modelId: string): void {
     const model = getModel(modelId); // throws if unknown
+    const changed = modelId !== this.modelId;
     this.modelId = modelId;
     this.expectedDims = model.dims;
-    // Force reload to pick up model-filtered vectors
-    if (this.loaded) {
+    if (!this.loaded) return;
+    if (changed) {
+      // Force reload to pick up model-filtered vectors
       this.reset();
+    } else {
+      this.syncPending = true;
     }
   }
 
@@ -133,9 +273,13 @@ export class VectorStore {
 
   /**
    * Load vectors from database into memory.
+   * @throws Error if stored vectors for the active model don't match its dimensions.
    */
   async load(): Promise<void> {
-    if (this.loaded) return;
+    if (this.loaded) {
+      if (this.syncPending) await this.sync();
+      return;
+    }
 
     const db = getDb();
 
@@ -146,7 +290,9 @@ export class VectorStore {
         embedding BLOB NOT NULL,
         orphaned_at TEXT DEFAULT NULL,
         last_accessed TEXT DEFAULT CURRENT_TIMESTAMP,
-        model_id TEXT DEFAULT 'jina-small'
+        model_id TEXT DEFAULT 'jina-small',
+        embedding_quantized BLOB DEFAULT NULL,
+        quantization TEXT DEFAULT NULL
       )
     `);
 
@@ -174,19 +320,10 @@ export class VectorStore {
         `CREATE INDEX IF NOT EXISTS idx_${this.tableName}_model ON ${this.tableName}(model_id)`,
       );
     }
+    ensureQuantizationColumns(db, this.tableName);
 
     // Load only vectors matching the active model_id
-    const rows = db
-      .prepare(`SELECT id, embedding FROM ${this.tableName} WHERE model_id = ?`)
-      .all(this.modelId) as {
-      id: string;
-      embedding: Buffer;
-    }[];
-
-    for (const row of rows) {
-      const embedding = deserializeEmbedding(row.embedding);
-      this.vectors.set(row.id, embedding);
-    }
+    this.addRows(this.selectRows('model_id = ?', [this.modelId]));
 
     // Populate metadata indexes (project, agent, team)
     const metaTable = this.metadataTable ?? 'chunks';
@@ -226,9 +363,204 @@ export class VectorStore {
       if (!isTableNotFoundError(e)) throw e;
     }
 
+    try {
+      const timeRows = db.prepare(`SELECT id, start_time FROM ${metaTable}`).all() as Array<{
+        id: string;
+        start_time: string;
+      }>;
+
+      for (const row of timeRows) {
+        this.chunkTimeIndex.set(row.id, row.start_time);
+      }
+    } catch (e) {
+      if (!isTableNotFoundError(e)) throw e;
+    }
+
+    for (const id of this.vectors.keys()) {
+      this.assignPartition(id);
+    }
+
     this.loaded = true;
   }
 
+  /**
+   * Pick up vectors other processes (hooks, CLI commands) wrote since the last
+   * load. New and rewritten vectors are added incrementally; if vectors were
+   * deleted the store reloads.
+   */
+  private async sync(): Promise<void> {
+    this.syncPending = false;
+    const db = getDb();
+
+    const { count } = db
+      .prepare(`SELECT COUNT(*) AS count FROM ${this.tableName} WHERE model_id = ?`)
+      .get(this.modelId) as { count: number };
+    // The row at maxRowid is re-read: a deleted last row's rowid can be reused
+    const rows = [
+      ...this.selectRows('model_id = ? AND rowid >= ?', [this.modelId, this.maxRowid]),
+    ].filter((row) => this.vectorRowids.get(row.id) !== row.rowid);
+
+    if (rows.length > 0) {
+      this.addRows(rows);
+      const ids = rows.map((r) => r.id);
+      this.indexMetadata(ids);
+      this.addToGraphs(ids);
+    }
+
+    if (count !== this.vectors.size) {
+      this.reset();
+      await this.load();
+    }
+  }
+
+  /**
+   * Read vector rows, fetching the quantized blob where it is current for the
+   * active encoding and the float blob otherwise.
+   */
+  private selectRows(where: string, params: unknown[]): IterableIterator<VectorRow> {
+    const db = getDb();
+    const { mode } = this.getQuantizationOptions();
+    if (mode === 'none') {
+      return db
+        .prepare(
+          `SELECT rowid, id, embedding, NULL AS quantized FROM ${this.tableName} WHERE ${where}`,
+        )
+        .iterate(...params) as IterableIterator<VectorRow>;
+    }
+
+    const current = 'quantization = ? AND length(embedding_quantized) = ?';
+    const length = quantizedLength(this.expectedDims, mode);
+    return db
+      .prepare(
+        `SELECT rowid, id,
+           CASE WHEN ${current} THEN embedding_quantized END AS quantized,
+           CASE WHEN ${current} THEN NULL ELSE embedding END AS embedding
+         FROM ${this.tableName} WHERE ${where}`,
+      )
+      .iterate(mode, length, mode, length, ...params) as IterableIterator<VectorRow>;
+  }
+
+  /**
+   * Add vector rows read from SQLite to the in-memory index, quantizing (and
+   * saving the quantized blobs of) rows stored without the active encoding.
+   * @throws Error if a row's dimensions don't match the active model.
+   */
+  private addRows(rows: Iterable<VectorRow>): void {
+    const { mode } = this.getQuantizationOptions();
+    const converted: Array<{ rowid: number; vector: QuantizedVector }> = [];
+
+    for (const row of rows) {
+      let vector: StoredVector;
+      if (row.quantized && mode !== 'none') {
+        vector = deserializeQuantized(row.quantized, mode);
+      } else {
+        const embedding = deserializeEmbedding(row.embedding!);
+        // Same model id with a different width means the model behind the id
+        // changed (e.g. embedding.dimensions was edited) — refuse to mix spaces.
+        if (embedding.length !== this.expectedDims) {
+          this.vectors.clear();
+          throw new Error(
+            `Dimension mismatch: stored ${this.tableName} for model ${this.modelId} have ` +
+              `${embedding.length} dims, but the model produces ${this.expectedDims}. ` +
+              `Run 'causantic reindex' to re-embed, or restore the previous embedding settings.`,
+          );
+        }
+        vector = this.encode(embedding);
+        if (mode !== 'none')
+          converted.push({ rowid: row.rowid, vector: vector as QuantizedVector });
+      }
+      this.vectors.set(row.id, vector);
+      this.vectorRowids.set(row.id, row.rowid);
+      this.maxRowid = Math.max(this.maxRowid, row.rowid);
+    }
+
+    if (converted.length > 0 && mode !== 'none') {
+      log.info('Quantizing vectors', { table: this.tableName, mode, count: converted.length });
+      saveQuantizedVectors(getDb(), this.tableName, mode, converted);
+    }
+  }
+
+  /**
+   * Encode an embedding for the in-memory index.
+   */
+  private encode(embedding: number[]): StoredVector {
+    const { mode } = this.getQuantizationOptions();
+    return mode === 'none' ? embedding : quantize(embedding, mode);
+  }
+
+  /**
+   * Column values for a stored vector's quantized blob and encoding.
+   */
+  private quantizedColumns(vector: StoredVector): [Buffer | null, QuantizedMode | null] {
+    const { mode } = this.getQuantizationOptions();
+    if (mode === 'none' || Array.isArray(vector)) return [null, null];
+    return [serializeQuantized(vector as QuantizedVector), mode];
+  }
+
+  /**
+   * Look up project, agent, team and start time for vectors and assign their partitions.
+   */
+  private indexMetadata(ids: string[]): void {
+    const db = getDb();
+    const metaTable = this.metadataTable ?? 'chunks';
+    try {
+      for (let i = 0; i < ids.length; i += METADATA_BATCH_SIZE) {
+        const batch = ids.slice(i, i + METADATA_BATCH_SIZE);
+        const rows = db
+          .prepare(
+            `SELECT id, session_slug, agent_id, team_name, start_time FROM ${metaTable} WHERE id IN (${sqlPlaceholders(batch.length)})`,
+          )
+          .all(...batch) as Array<{
+          id: string;
+          session_slug: string;
+          agent_id: string | null;
+          team_name: string | null;
+          start_time: string;
+        }>;
+        for (const row of rows) {
+          if (row.session_slug) {
+            this.chunkProjectIndex.set(row.id, row.session_slug);
+          }
+          if (row.agent_id) {
+            this.chunkAgentIndex.set(row.id, row.agent_id);
+          }
+          if (row.team_name) {
+            this.chunkTeamIndex.set(row.id, row.team_name);
+          }
+          if (row.start_time) {
+            this.chunkTimeIndex.set(row.id, row.start_time);
+          }
+        }
+      }
+    } catch (e) {
+      if (!isTableNotFoundError(e)) throw e;
+    }
+
+    for (const id of ids) {
+      this.assignPartition(id);
+    }
+  }
+
+  /**
+   * Put a vector in its project's partition, moving it out of a previous one.
+   */
+  private assignPartition(id: string): void {
+    const partition = this.chunkProjectIndex.get(id) ?? '';
+    const previous = this.vectorPartition.get(id);
+    if (previous === partition) return;
+    if (previous !== undefined) {
+      this.partitionIds.get(previous)?.delete(id);
+      this.removeFromGraphs([id], previous);
+    }
+    this.vectorPartition.set(id, partition);
+    let members = this.partitionIds.get(partition);
+    if (!members) {
+      members = new Set();
+      this.partitionIds.set(partition, members);
+    }
+    members.add(id);
+  }
+
   /**
    * Insert a vector.
    * @throws Error if embedding dimensions don't match the current model's expected dimensions.
@@ -244,33 +576,20 @@ export class VectorStore {
 
     const db = getDb();
     const blob = serializeEmbedding(embedding);
+    const vector = this.encode(embedding);
 
-    db.prepare(
-      `INSERT OR REPLACE INTO ${this.tableName} (id, embedding, orphaned_at, last_accessed, model_id) VALUES (?, ?, NULL, CURRENT_TIMESTAMP, ?)`,
-    ).run(id, blob, this.modelId);
+    const result = db
+      .prepare(
+        `INSERT OR REPLACE INTO ${this.tableName} (id, embedding, embedding_quantized, quantization, orphaned_at, last_accessed, model_id) VALUES (?, ?, ?, ?, NULL, CURRENT_TIMESTAMP, ?)`,
+      )
+      .run(id, blob, ...this.quantizedColumns(vector), this.modelId);
 
-    this.vectors.set(id, embedding);
+    this.vectors.set(id, vector);
+    this.trackRowid(id, Number(result.lastInsertRowid));
 
-    // Update project, agent, and team indexes
-    const metaTable = this.metadataTable ?? 'chunks';
-    try {
-      const row = db
-        .prepare(`SELECT session_slug, agent_id, team_name FROM ${metaTable} WHERE id = ?`)
-        .get(id) as
-        | { session_slug: string; agent_id: string | null; team_name: string | null }
-        | undefined;
-      if (row?.session_slug) {
-        this.chunkProjectIndex.set(id, row.session_slug);
-      }
-      if (row?.agent_id) {
-        this.chunkAgentIndex.set(id, row.agent_id);
-      }
-      if (row?.team_name) {
-        this.chunkTeamIndex.set(id, row.team_name);
-      }
-    } catch (e) {
-      if (!isTableNotFoundError(e)) throw e;
-    }
+    // Update project, agent, and team indexes, then the project's graph
+    this.indexMetadata([id]);
+    this.addToGraphs([id]);
   }
 
   /**
@@ -291,71 +610,57 @@ export class VectorStore {
 
     const db = getDb();
     const stmt = db.prepare(
-      `INSERT OR REPLACE INTO ${this.tableName} (id, embedding, orphaned_at, last_accessed, model_id) VALUES (?, ?, NULL, CURRENT_TIMESTAMP, ?)`,
+      `INSERT OR REPLACE INTO ${this.tableName} (id, embedding, embedding_quantized, quantization, orphaned_at, last_accessed, model_id) VALUES (?, ?, ?, ?, NULL, CURRENT_TIMESTAMP, ?)`,
     );
 
     const modelId = this.modelId;
     const insertMany = db.transaction((items: Array<{ id: string; embedding: number[] }>) => {
       for (const item of items) {
         const blob = serializeEmbedding(item.embedding);
-        stmt.run(item.id, blob, modelId);
-        this.vectors.set(item.id, item.embedding);
+        const vector = this.encode(item.embedding);
+        const result = stmt.run(item.id, blob, ...this.quantizedColumns(vector), modelId);
+        this.vectors.set(item.id, vector);
+        this.trackRowid(item.id, Number(result.lastInsertRowid));
       }
     });
 
     insertMany(items);
 
-    // Update project, agent, and team indexes for batch
-    const metaTable = this.metadataTable ?? 'chunks';
-    try {
-      const ids = items.map((i) => i.id);
-      if (ids.length > 0) {
-        const placeholders = sqlPlaceholders(ids.length);
-        const rows = db
-          .prepare(
-            `SELECT id, session_slug, agent_id, team_name FROM ${metaTable} WHERE id IN (${placeholders}) AND session_slug != ''`,
-          )
-          .all(...ids) as Array<{
-          id: string;
-          session_slug: string;
-          agent_id: string | null;
-          team_name: string | null;
-        }>;
-        for (const row of rows) {
-          this.chunkProjectIndex.set(row.id, row.session_slug);
-          if (row.agent_id) {
-            this.chunkAgentIndex.set(row.id, row.agent_id);
-          }
-          if (row.team_name) {
-            this.chunkTeamIndex.set(row.id, row.team_name);
-          }
-        }
-      }
-    } catch (e) {
-      if (!isTableNotFoundError(e)) throw e;
-    }
+    // Update project, agent, and team indexes for batch, then the projects' graphs
+    const ids = items.map((i) => i.id);
+    this.indexMetadata(ids);
+    this.addToGraphs(ids);
+  }
+
+  private trackRowid(id: string, rowid: number): void {
+    this.vectorRowids.set(id, rowid);
+    this.maxRowid = Math.max(this.maxRowid, rowid);
   }
 
   /**
-   * Get a vector by ID.
+   * Get a vector by ID. Quantized stores read the full-precision vector from SQLite.
    */
   async get(id: string): Promise<number[] | null> {
     await this.load();
-    return this.vectors.get(id) ?? null;
+    const vector = this.vectors.get(id);
+    if (!vector) return null;
+    if (Array.isArray(vector)) return vector;
+    return this.readEmbeddings([id]).get(id) ?? null;
   }
 
   /**
    * Search for similar vectors using angular distance.
    *
-   * Uses brute-force search over all vectors in memory. For small to medium
-   * datasets (<100k vectors), this is fast enough. For larger datasets,
-   * consider approximate nearest neighbor (ANN) algorithms.
+   * Uses brute-force search over all vectors in memory while the store is
+   * smaller than `vectors.annMinVectors`. Larger stores search each project's
+   * partition (exactly or through its HNSW graph) and merge the results.
    *
    * Also updates `last_accessed` timestamp for returned vectors, keeping
    * them alive for TTL purposes.
    *
    * @param query - Query embedding vector (must match stored dimensionality)
    * @param limit - Maximum number of results to return
+   * @param before - Optional ISO cutoff; only vectors whose start_time precedes it are scored
    * @returns Results sorted by distance ascending (closest first)
    *
    * @example
@@ -366,17 +671,27 @@ export class VectorStore {
    * }
    * ```
    */
-  async search(query: number[], limit: number): Promise<VectorSearchResult[]> {
+  async search(query: number[], limit: number, before?: string): Promise<VectorSearchResult[]> {
     await this.load();
 
+    if (this.annActive()) {
+      const accept = before ? (id: string) => this.isBefore(id, before) : undefined;
+      const candidates = this.candidateLimit(limit);
+      const results = [...this.partitionIds.keys()].flatMap((partition) =>
+        this.searchPartition(partition, query, candidates, accept),
+      );
+      return this.rankAndTouch(query, results, limit);
+    }
+
     const results: VectorSearchResult[] = [];
+    const distanceTo = this.distanceFrom(query);
 
-    for (const [id, embedding] of this.vectors) {
-      const distance = angularDistance(query, embedding);
-      results.push({ id, distance });
+    for (const [id, vector] of this.vectors) {
+      if (before && !this.isBefore(id, before)) continue;
+      results.push({ id, distance: distanceTo(vector) });
     }
 
-    return this.rankAndTouch(results, limit);
+    return this.rankAndTouch(query, results, limit);
   }
 
   /**
@@ -392,14 +707,14 @@ export class VectorStore {
 
     const results: VectorSearchResult[] = [];
     const idSet = new Set(candidateIds);
+    const distanceTo = this.distanceFrom(query);
 
-    for (const [id, embedding] of this.vectors) {
+    for (const [id, vector] of this.vectors) {
       if (!idSet.has(id)) continue;
-      const distance = angularDistance(query, embedding);
-      results.push({ id, distance });
+      results.push({ id, distance: distanceTo(vector) });
     }
 
-    return this.rankAndTouch(results, limit);
+    return this.rankAndTouch(query, results, limit);
   }
 
   /**
@@ -411,6 +726,8 @@ export class VectorStore {
    * @param query - Query embedding vector
    * @param projects - Single project slug or array of project slugs
    * @param limit - Maximum results
+   * @param agentId - Optional agent filter
+   * @param before - Optional ISO cutoff; only vectors whose start_time precedes it are scored
    * @returns Results sorted by distance ascending
    */
   async searchByProject(
@@ -418,13 +735,30 @@ export class VectorStore {
     projects: string | string[],
     limit: number,
     agentId?: string,
+    before?: string,
   ): Promise<VectorSearchResult[]> {
     await this.load();
 
     const projectSet = new Set(Array.isArray(projects) ? projects : [projects]);
+
+    if (this.annActive()) {
+      const accept =
+        agentId || before
+          ? (id: string) =>
+              (!agentId || this.chunkAgentIndex.get(id) === agentId) &&
+              (!before || this.isBefore(id, before))
+          : undefined;
+      const candidates = this.candidateLimit(limit);
+      const results = [...projectSet].flatMap((project) =>
+        this.searchPartition(project, query, candidates, accept),
+      );
+      return this.rankAndTouch(query, results, limit);
+    }
+
     const results: VectorSearchResult[] = [];
+    const distanceTo = this.distanceFrom(query);
 
-    for (const [id, embedding] of this.vectors) {
+    for (const [id, vector] of this.vectors) {
       const project = this.chunkProjectIndex.get(id);
       if (!project || !projectSet.has(project)) continue;
 
@@ -433,11 +767,12 @@ export class VectorStore {
         if (chunkAgent !== agentId) continue;
       }
 
-      const distance = angularDistance(query, embedding);
-      results.push({ id, distance });
+      if (before && !this.isBefore(id, before)) continue;
+
+      results.push({ id, distance: distanceTo(vector) });
     }
 
-    return this.rankAndTouch(results, limit);
+    return this.rankAndTouch(query, results, limit);
   }
 
   /**
@@ -454,6 +789,21 @@ export class VectorStore {
     return this.chunkAgentIndex.get(id);
   }
 
+  /**
+   * Get the start time (ISO) for a chunk ID.
+   */
+  getChunkTime(id: string): string | undefined {
+    return this.chunkTimeIndex.get(id);
+  }
+
+  /**
+   * Whether a vector's start_time precedes the cutoff. Unknown times never match.
+   */
+  private isBefore(id: string, before: string): boolean {
+    const time = this.chunkTimeIndex.get(id);
+    return time !== undefined && time < before;
+  }
+
   /**
    * Get the team name for a chunk ID.
    */
@@ -470,10 +820,7 @@ export class VectorStore {
     const db = getDb();
     const result = db.prepare(`DELETE FROM ${this.tableName} WHERE id = ?`).run(id);
 
-    this.vectors.delete(id);
-    this.chunkProjectIndex.delete(id);
-    this.chunkAgentIndex.delete(id);
-    this.chunkTeamIndex.delete(id);
+    this.removeFromMemory([id]);
     return result.changes > 0;
   }
 
@@ -491,13 +838,7 @@ export class VectorStore {
       .prepare(`DELETE FROM ${this.tableName} WHERE id IN (${placeholders})`)
       .run(...ids);
 
-    for (const id of ids) {
-      this.vectors.delete(id);
-      this.chunkProjectIndex.delete(id);
-      this.chunkAgentIndex.delete(id);
-      this.chunkTeamIndex.delete(id);
-    }
-
+    this.removeFromMemory(ids);
     return result.changes;
   }
 
@@ -523,7 +864,13 @@ export class VectorStore {
   async clear(): Promise<void> {
     const db = getDb();
     db.exec(`DELETE FROM ${this.tableName}`);
+    ensureHnswTable(db);
+    clearHnswNodes(db, this.tableName);
     this.vectors.clear();
+    this.vectorRowids.clear();
+    this.partitionIds.clear();
+    this.vectorPartition.clear();
+    this.hnswGraphs.clear();
   }
 
   /**
@@ -539,10 +886,13 @@ export class VectorStore {
    */
   async getAllVectors(): Promise<Array<{ id: string; embedding: number[] }>> {
     await this.load();
-    return Array.from(this.vectors.entries()).map(([id, embedding]) => ({
-      id,
-      embedding,
-    }));
+    if (this.getQuantizationOptions().mode === 'none') {
+      return Array.from(this.vectors.entries()).map(([id, embedding]) => ({
+        id,
+        embedding: embedding as number[],
+      }));
+    }
+    return Array.from(this.fullPrecisionVectors(), ([id, embedding]) => ({ id, embedding }));
   }
 
   /**
@@ -553,9 +903,344 @@ export class VectorStore {
     this.chunkProjectIndex.clear();
     this.chunkAgentIndex.clear();
     this.chunkTeamIndex.clear();
+    this.chunkTimeIndex.clear();
+    this.partitionIds.clear();
+    this.vectorPartition.clear();
+    this.vectorRowids.clear();
+    this.hnswGraphs.clear();
+    this.hnswPurged = false;
+    this.maxRowid = 0;
+    this.syncPending = false;
+    this.annOptions = null;
+    this.quantizationOptions = null;
     this.loaded = false;
   }
 
+  // ─── Approximate Search ─────────────────────────────────────────────────────
+
+  /**
+   * Whether searches go through partitions (and their HNSW graphs) rather
+   * than one brute-force scan.
+   */
+  async isAnnActive(): Promise<boolean> {
+    await this.load();
+    return this.annActive();
+  }
+
+  /**
+   * The in-memory encoding of the loaded vectors.
+   */
+  async getQuantizationMode(): Promise<QuantizationMode> {
+    await this.load();
+    return this.getQuantizationOptions().mode;
+  }
+
+  /**
+   * Search without updating last_accessed, either as `search()` would or by
+   * brute force over full-precision vectors. Used by the collection benchmark
+   * to measure the recall of approximate and quantized search against exact
+   * search.
+   */
+  async searchForEvaluation(
+    query: number[],
+    limit: number,
+    exact: boolean,
+  ): Promise<VectorSearchResult[]> {
+    await this.load();
+
+    if (exact) {
+      return Array.from(this.fullPrecisionVectors(), ([id, embedding]) => ({
+        id,
+        distance: angularDistance(query, embedding),
+      }))
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, limit);
+    }
+
+    let results: VectorSearchResult[];
+    if (this.annActive()) {
+      const candidates = this.candidateLimit(limit);
+      results = [...this.partitionIds.keys()].flatMap((partition) =>
+        this.searchPartition(partition, query, candidates),
+      );
+    } else {
+      const distanceTo = this.distanceFrom(query);
+      results = Array.from(this.vectors, ([id, vector]) => ({ id, distance: distanceTo(vector) }));
+    }
+    return this.rank(query, results, limit);
+  }
+
+  private getAnnOptions(): AnnOptions {
+    if (!this.annOptions) {
+      const vectors = loadConfig().vectors;
+      this.annOptions = {
+        enabled: vectors.annEnabled ?? DEFAULT_ANN_OPTIONS.enabled,
+        minVectors: vectors.annMinVectors ?? DEFAULT_ANN_OPTIONS.minVectors,
+        m: vectors.hnswM ?? DEFAULT_ANN_OPTIONS.m,
+        efConstruction: vectors.hnswEfConstruction ?? DEFAULT_ANN_OPTIONS.efConstruction,
+        efSearch: vectors.hnswEfSearch ?? DEFAULT_ANN_OPTIONS.efSearch,
+        ...this.annOverrides,
+      };
+    }
+    return this.annOptions;
+  }
+
+  private getQuantizationOptions(): QuantizationOptions {
+    if (!this.quantizationOptions) {
+      const vectors = loadConfig().vectors;
+      this.quantizationOptions = {
+        mode: vectors.quantization ?? DEFAULT_QUANTIZATION_OPTIONS.mode,
+        rerankMultiplier: vectors.rerankMultiplier ?? DEFAULT_QUANTIZATION_OPTIONS.rerankMultiplier,
+        ...this.quantizationOverrides,
+      };
+    }
+    return this.quantizationOptions;
+  }
+
+  private annActive(): boolean {
+    const options = this.getAnnOptions();
+    return options.enabled && this.vectors.size >= options.minVectors;
+  }
+
+  /**
+   * Search one partition: by scanning while it's small, otherwise through its
+   * graph. Hits are scored like scanned vectors: with exact angular distance,
+   * or its quantized estimate.
+   *
+   * @param accept - Optional filter; the graph's candidate list is widened
+   *   until `limit` hits pass it, then the partition is scanned exactly.
+   */
+  private searchPartition(
+    partition: string,
+    query: number[],
+    limit: number,
+    accept?: (id: string) => boolean,
+  ): VectorSearchResult[] {
+    const members = this.partitionIds.get(partition);
+    if (!members || members.size === 0) return [];
+
+    const options = this.getAnnOptions();
+    const distanceTo = this.distanceFrom(query);
+    if (members.size >= options.minVectors) {
+      const graph = this.ensureGraph(partition);
+      const graphQuery =
+        this.getQuantizationOptions().mode === 'binary' ? quantize(query, 'binary') : query;
+      let ef = Math.max(options.efSearch, limit);
+      for (let expansion = 0; expansion <= MAX_EF_EXPANSIONS; expansion++) {
+        const hits = graph.search(graphQuery, ef).filter((hit) => !accept || accept(hit.id));
+        if (hits.length >= limit) {
+          return hits.slice(0, limit).map((hit) => ({
+            id: hit.id,
+            distance: distanceTo(this.vectors.get(hit.id)!),
+          }));
+        }
+        if (ef >= members.size) break;
+        ef *= 4;
+      }
+    }
+
+    const results: VectorSearchResult[] = [];
+    for (const id of members) {
+      if (accept && !accept(id)) continue;
+      results.push({ id, distance: distanceTo(this.vectors.get(id)!) });
+    }
+    return results.sort((a, b) => a.distance - b.distance).slice(0, limit);
+  }
+
+  /**
+   * Get a partition's graph, loading its persisted nodes and inserting the
+   * vectors added or rewritten since they were saved.
+   */
+  private ensureGraph(partition: string): HnswIndex {
+    const existing = this.hnswGraphs.get(partition);
+    if (existing) return existing;
+
+    const db = getDb();
+    ensureHnswTable(db);
+    if (!this.hnswPurged) {
+      deleteStaleHnswNodes(db, this.tableName);
+      this.hnswPurged = true;
+    }
+
+    const options = this.getAnnOptions();
+    const { mode } = this.getQuantizationOptions();
+    const graph = new HnswIndex((id) => this.vectors.get(id), {
+      m: options.m,
+      efConstruction: options.efConstruction,
+      // Binary codes are compared bitwise; int8 and float vectors by cosine
+      distance:
+        mode === 'binary' ? (a, b) => hammingDistance(a as Uint8Array, b as Uint8Array) : undefined,
+    });
+    const members = this.partitionIds.get(partition) ?? new Set<string>();
+
+    const outdated: string[] = [];
+    for (const node of loadHnswNodes(db, this.tableName, this.modelId, mode, partition)) {
+      if (members.has(node.id) && this.vectorRowids.get(node.id) === node.vectorRowid) {
+        graph.restore(node);
+      } else {
+        outdated.push(node.id);
+      }
+    }
+    const touched = graph.dropDanglingLinks();
+
+    const missing = [...members].filter((id) => !graph.has(id));
+    if (missing.length > 0) {
+      log.info('Building HNSW graph', {
+        table: this.tableName,
+        partition,
+        restored: graph.size,
+        inserting: missing.length,
+      });
+    }
+    for (const id of missing) {
+      for (const changed of graph.add(id)) touched.add(changed);
+    }
+
+    deleteHnswNodes(db, this.tableName, this.modelId, outdated);
+    this.hnswGraphs.set(partition, graph);
+    this.saveGraphNodes(partition, touched);
+    return graph;
+  }
+
+  /**
+   * Insert vectors into the graphs of their partitions, where built.
+   * Unbuilt graphs pick the vectors up when first loaded.
+   */
+  private addToGraphs(ids: string[]): void {
+    const touched = new Map<string, Set<string>>();
+    for (const id of ids) {
+      const partition = this.vectorPartition.get(id);
+      const graph = partition !== undefined ? this.hnswGraphs.get(partition) : undefined;
+      if (!graph || partition === undefined) continue;
+      let changed = touched.get(partition);
+      if (!changed) {
+        changed = new Set();
+        touched.set(partition, changed);
+      }
+      for (const node of graph.add(id)) changed.add(node);
+    }
+    for (const [partition, changed] of touched) {
+      this.saveGraphNodes(partition, changed);
+    }
+  }
+
+  /**
+   * Remove vectors from the graphs of a partition (or of their own partitions)
+   * and delete their persisted nodes.
+   */
+  private removeFromGraphs(ids: string[], partition?: string): void {
+    const touched = new Map<string, Set<string>>();
+    for (const id of ids) {
+      const owner = partition ?? this.vectorPartition.get(id);
+      const graph = owner !== undefined ? this.hnswGraphs.get(owner) : undefined;
+      if (!graph || owner === undefined) continue;
+      let changed = touched.get(owner);
+      if (!changed) {
+        changed = new Set();
+        touched.set(owner, changed);
+      }
+      for (const node of graph.remove(id)) changed.add(node);
+    }
+
+    if (this.hnswGraphs.size > 0 || this.hnswPurged) {
+      deleteHnswNodes(getDb(), this.tableName, this.modelId, ids);
+    }
+    for (const [owner, changed] of touched) {
+      this.saveGraphNodes(owner, changed);
+    }
+  }
+
+  private saveGraphNodes(partition: string, ids: Iterable<string>): void {
+    const graph = this.hnswGraphs.get(partition);
+    if (!graph) return;
+    const nodes: StoredHnswNode[] = [];
+    for (const id of ids) {
+      const node = graph.getNode(id);
+      const vectorRowid = this.vectorRowids.get(id);
+      if (!node || vectorRowid === undefined) continue;
+      nodes.push({ ...node, partition, vectorRowid });
+    }
+    saveHnswNodes(getDb(), this.tableName, this.modelId, this.getQuantizationOptions().mode, nodes);
+  }
+
+  // ─── Quantization ───────────────────────────────────────────────────────────
+
+  /**
+   * Build the distance function scans use: exact angular distance for float
+   * vectors, its quantized estimate otherwise.
+   */
+  private distanceFrom(query: number[]): (vector: StoredVector) => number {
+    const { mode } = this.getQuantizationOptions();
+    if (mode === 'none') return (vector) => angularDistance(query, vector as number[]);
+    const estimate = quantizedDistance(query, mode);
+    return (vector) => estimate(vector as QuantizedVector);
+  }
+
+  /** Number of candidates a search keeps for the final ranking. */
+  private candidateLimit(limit: number): number {
+    const { mode, rerankMultiplier } = this.getQuantizationOptions();
+    return mode === 'none' ? limit : limit * rerankMultiplier;
+  }
+
+  /**
+   * Sort results and take the top-k. Quantized stores re-rank the top
+   * `limit × rerankMultiplier` candidates by exact distance to their
+   * full-precision vectors.
+   */
+  private rank(
+    query: number[],
+    results: VectorSearchResult[],
+    limit: number,
+  ): VectorSearchResult[] {
+    results.sort((a, b) => a.distance - b.distance);
+    if (this.getQuantizationOptions().mode === 'none') return results.slice(0, limit);
+
+    const candidates = results.slice(0, this.candidateLimit(limit));
+    const embeddings = this.readEmbeddings(candidates.map((r) => r.id));
+    const reranked: VectorSearchResult[] = [];
+    for (const { id } of candidates) {
+      const embedding = embeddings.get(id);
+      if (embedding) reranked.push({ id, distance: angularDistance(query, embedding) });
+    }
+    return reranked.sort((a, b) => a.distance - b.distance).slice(0, limit);
+  }
+
+  /**
+   * Read full-precision vectors from SQLite.
+   */
+  private readEmbeddings(ids: string[]): Map<string, number[]> {
+    const db = getDb();
+    const embeddings = new Map<string, number[]>();
+    for (let i = 0; i < ids.length; i += METADATA_BATCH_SIZE) {
+      const batch = ids.slice(i, i + METADATA_BATCH_SIZE);
+      const rows = db
+        .prepare(
+          `SELECT id, embedding FROM ${this.tableName} WHERE id IN (${sqlPlaceholders(batch.length)})`,
+        )
+        .all(...batch) as Array<{ id: string; embedding: Buffer }>;
+      for (const row of rows) {
+        embeddings.set(row.id, deserializeEmbedding(row.embedding));
+      }
+    }
+    return embeddings;
+  }
+
+  /**
+   * Iterate the full-precision vectors of every loaded id.
+   */
+  private *fullPrecisionVectors(): Generator<[string, number[]]> {
+    if (this.getQuantizationOptions().mode === 'none') {
+      yield* this.vectors as Map<string, number[]>;
+      return;
+    }
+    const rows = getDb()
+      .prepare(`SELECT id, embedding FROM ${this.tableName} WHERE model_id = ?`)
+      .iterate(this.modelId) as IterableIterator<{ id: string; embedding: Buffer }>;
+    for (const row of rows) {
+      if (this.vectors.has(row.id)) yield [row.id, deserializeEmbedding(row.embedding)];
+    }
+  }
+
   // ─── TTL Management ─────────────────────────────────────────────────────────
 
   /**
@@ -566,9 +1251,12 @@ export class VectorStore {
    * Sort results by distance, take top-k, and touch last_accessed timestamps.
    * Shared post-processing for all search methods.
    */
-  private rankAndTouch(results: VectorSearchResult[], limit: number): VectorSearchResult[] {
-    results.sort((a, b) => a.distance - b.distance);
-    const topResults = results.slice(0, limit);
+  private rankAndTouch(
+    query: number[],
+    results: VectorSearchResult[],
+    limit: number,
+  ): VectorSearchResult[] {
+    const topResults = this.rank(query, results, limit);
 
     if (topResults.length > 0) {
       this.touchLastAccessed(topResults.map((r) => r.id));
@@ -602,11 +1290,17 @@ export class VectorStore {
    * Remove IDs from all in-memory indexes.
    */
   private removeFromMemory(ids: string[]): void {
+    this.removeFromGraphs(ids);
     for (const id of ids) {
+      const partition = this.vectorPartition.get(id);
+      if (partition !== undefined) this.partitionIds.get(partition)?.delete(id);
+      this.vectorPartition.delete(id);
+      this.vectorRowids.delete(id);
       this.vectors.delete(id);
       this.chunkProjectIndex.delete(id);
       this.chunkAgentIndex.delete(id);
       this.chunkTeamIndex.delete(id);
+      this.chunkTimeIndex.delete(id);
     }
   }
 
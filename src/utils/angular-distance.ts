@@ -8,9 +8,9 @@
  */
 
 /**
- * Compute the dot product of two vectors.
+ * Compute the dot product of two vectors (plain or typed arrays).
  */
-export function dot(a: number[], b: number[]): number {
+export function dot(a: ArrayLike<number>, b: ArrayLike<number>): number {
   let sum = 0;
   for (let i = 0; i < a.length; i++) {
     sum += a[i] * b[i];
@@ -9,7 +9,7 @@
 
 import { execFileSync } from 'node:child_process';
 import { readFileSync, statSync } from 'node:fs';
-import { join, dirname } from 'node:path';
+import { join, dirname, isAbsolute, normalize, relative } from 'node:path';
 import { createLogger } from './logger.js';
 
 const log = createLogger('project-path');
@@ -38,6 +38,16 @@ export function resolveCanonicalProjectPath(cwd: string): string {
   return resolved;
 }
 
+/**
+ * Make a file path relative to a project root when it lies inside it.
+ * Relative paths are normalized; paths outside the project are returned as-is.
+ */
+export function toProjectRelativePath(path: string, projectPath: string): string {
+  if (!projectPath || !isAbsolute(path)) return normalize(path);
+  const rel = relative(projectPath, path);
+  return rel && !rel.startsWith('..') && !isAbsolute(rel) ? rel : path;
+}
+
 /**
  * Clear the path cache. Intended for testing.
  */
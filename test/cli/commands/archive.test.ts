@@ -3,6 +3,9 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { existsSync, readFileSync, unlinkSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 
 // Mock dependencies before importing the commands
 vi.mock('../../../src/storage/archive.js', () => ({
@@ -10,6 +13,13 @@ vi.mock('../../../src/storage/archive.js', () => ({
   importArchive: vi.fn(),
 }));
 
+vi.mock('../../../src/storage/archive-stream.js', () => ({
+  exportNdjsonArchive: vi.fn(),
+  importNdjsonArchive: vi.fn(),
+  isNdjsonArchive: vi.fn(),
+  readArchiveHeader: vi.fn(),
+}));
+
 vi.mock('../../../src/cli/utils.js', () => ({
   promptPassword: vi.fn(),
   isEncryptedArchive: vi.fn(),
@@ -17,10 +27,20 @@ vi.mock('../../../src/cli/utils.js', () => ({
 
 import { exportCommand, importCommand } from '../../../src/cli/commands/archive.js';
 import { exportArchive, importArchive } from '../../../src/storage/archive.js';
+import {
+  exportNdjsonArchive,
+  importNdjsonArchive,
+  isNdjsonArchive,
+  readArchiveHeader,
+} from '../../../src/storage/archive-stream.js';
 import { promptPassword, isEncryptedArchive } from '../../../src/cli/utils.js';
 
 const mockExportArchive = vi.mocked(exportArchive);
 const mockImportArchive = vi.mocked(importArchive);
+const mockExportNdjson = vi.mocked(exportNdjsonArchive);
+const mockImportNdjson = vi.mocked(importNdjsonArchive);
+const mockIsNdjsonArchive = vi.mocked(isNdjsonArchive);
+const mockReadArchiveHeader = vi.mocked(readArchiveHeader);
 const mockPromptPassword = vi.mocked(promptPassword);
 const mockIsEncryptedArchive = vi.mocked(isEncryptedArchive);
 
@@ -29,6 +49,7 @@ beforeEach(() => {
   vi.spyOn(console, 'log').mockImplementation(() => {});
   vi.spyOn(console, 'error').mockImplementation(() => {});
   vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+  mockIsNdjsonArchive.mockResolvedValue(false);
 });
 
 const sampleExportResult = {
@@ -41,11 +62,34 @@ const sampleExportResult = {
   encrypted: true,
 };
 
+const sampleNdjsonExportResult = {
+  chunkCount: 100,
+  edgeCount: 50,
+  clusterCount: 10,
+  vectorCount: 100,
+  fileSize: 4096,
+  compressed: true,
+  watermark: '2026-06-01T00:00:00.000Z',
+  since: null,
+};
+
+const sampleNdjsonImportResult = {
+  chunkCount: 100,
+  edgeCount: 50,
+  clusterCount: 10,
+  vectorCount: 100,
+  skippedCount: 0,
+  resumedFrom: 0,
+  complete: true,
+  dryRun: false,
+};
+
 const sampleImportResult = {
   chunkCount: 100,
   edgeCount: 50,
   clusterCount: 10,
   vectorCount: 100,
+  entityCount: 5,
   dryRun: false,
 };
 
@@ -169,6 +213,71 @@ describe('exportCommand', () => {
     expect(console.log).toHaveBeenCalledWith(expect.stringContaining('compressed'));
     expect(console.log).toHaveBeenCalledWith(expect.stringContaining('encrypted'));
   });
+
+  describe('--format ndjson', () => {
+    it('exports a gzipped NDJSON archive to the default path', async () => {
+      mockExportNdjson.mockResolvedValue(sampleNdjsonExportResult);
+
+      await exportCommand.handler(['--format', 'ndjson', '--gzip', '--no-encrypt']);
+
+      expect(mockExportNdjson).toHaveBeenCalledWith({
+        outputPath: 'causantic-backup.ndjson.gz',
+        gzip: true,
+        projects: undefined,
+        since: undefined,
+        redactPaths: false,
+        redactCode: false,
+        noVectors: false,
+      });
+      expect(mockExportArchive).not.toHaveBeenCalled();
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('Watermark: 2026-06-01T00:00:00.000Z'),
+      );
+    });
+
+    it('resolves --since from a previous archive watermark', async () => {
+      mockExportNdjson.mockResolvedValue(sampleNdjsonExportResult);
+      mockReadArchiveHeader.mockResolvedValue({
+        watermark: '2026-05-01T00:00:00.000Z',
+      } as Awaited<ReturnType<typeof readArchiveHeader>>);
+
+      // Any existing file is treated as an archive
+      await exportCommand.handler(['--format', 'ndjson', '--no-encrypt', '--since', __filename]);
+
+      expect(mockReadArchiveHeader).toHaveBeenCalledWith(__filename);
+      expect(mockExportNdjson).toHaveBeenCalledWith(
+        expect.objectContaining({ since: '2026-05-01T00:00:00.000Z' }),
+      );
+    });
+
+    it('accepts a date for --since', async () => {
+      mockExportNdjson.mockResolvedValue(sampleNdjsonExportResult);
+
+      await exportCommand.handler(['--format', 'ndjson', '--no-encrypt', '--since', '2026-05-01']);
+
+      expect(mockExportNdjson).toHaveBeenCalledWith(
+        expect.objectContaining({ since: '2026-05-01T00:00:00.000Z' }),
+      );
+    });
+
+    it('requires --no-encrypt', async () => {
+      await exportCommand.handler(['--format', 'ndjson']);
+
+      expect(console.error).toHaveBeenCalledWith('Error: NDJSON archives are not encrypted.');
+      expect(process.exit).toHaveBeenCalledWith(2);
+    });
+
+    it('rejects --gzip without --format ndjson', async () => {
+      mockExportArchive.mockResolvedValue(sampleExportResult);
+
+      await exportCommand.handler(['--no-encrypt', '--gzip']);
+
+      expect(console.error).toHaveBeenCalledWith(
+        'Error: --gzip and --since require --format ndjson.',
+      );
+      expect(process.exit).toHaveBeenCalledWith(2);
+    });
+  });
 });
 
 describe('importCommand', () => {
@@ -189,6 +298,7 @@ describe('importCommand', () => {
       inputPath: '/tmp/backup.causantic',
       password: undefined,
       merge: false,
+      reconcile: false,
       dryRun: false,
     });
     expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Imported:'));
@@ -281,4 +391,99 @@ describe('importCommand', () => {
       }),
     );
   });
+
+  it('imports NDJSON archives with the streaming importer', async () => {
+    mockIsNdjsonArchive.mockResolvedValue(true);
+    mockImportNdjson.mockResolvedValue({
+      ...sampleNdjsonImportResult,
+      resumedFrom: 500,
+      skippedCount: 3,
+    });
+
+    await importCommand.handler(['/tmp/backup.ndjson.gz', '--merge']);
+
+    expect(mockImportNdjson).toHaveBeenCalledWith({
+      inputPath: '/tmp/backup.ndjson.gz',
+      merge: true,
+      dryRun: false,
+    });
+    expect(mockImportArchive).not.toHaveBeenCalled();
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Resumed after 500'));
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Skipped 3'));
+  });
+
+  it('warns when an NDJSON archive is truncated', async () => {
+    mockIsNdjsonArchive.mockResolvedValue(true);
+    mockImportNdjson.mockResolvedValue({ ...sampleNdjsonImportResult, complete: false });
+
+    await importCommand.handler(['/tmp/backup.ndjson']);
+
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining('may be truncated'));
+  });
+
+  it('prints a merge report and writes it with --reconcile --report', async () => {
+    const reportPath = join(tmpdir(), `causantic-report-${Date.now()}.json`);
+    mockIsEncryptedArchive.mockResolvedValue(false);
+    mockImportArchive.mockResolvedValue({
+      ...sampleImportResult,
+      report: {
+        counts: {
+          chunksAdded: 2,
+          chunksDeduplicated: 98,
+          chunksRekeyed: 0,
+          edgesAdded: 1,
+          edgesMerged: 49,
+          edgesDropped: 0,
+          clustersAdded: 0,
+          clustersMatched: 10,
+          membershipsAdded: 2,
+          entitiesAdded: 0,
+          entitiesMerged: 5,
+          aliasesAdded: 1,
+          mentionsAdded: 2,
+          vectorsAdded: 2,
+        },
+        conflicts: [
+          {
+            kind: 'cluster-metadata',
+            archiveId: 'remote',
+            localId: 'local',
+            resolution: 'kept local name and description',
+            detail: 'Archive name "A" differs from local "B"',
+          },
+        ],
+        remappedChunks: {},
+        dryRun: false,
+      },
+    });
+
+    try {
+      await importCommand.handler(['--report', reportPath, '/tmp/backup.causantic', '--reconcile']);
+
+      expect(mockImportArchive).toHaveBeenCalledWith(
+        expect.objectContaining({
+          inputPath: '/tmp/backup.causantic',
+          merge: true,
+          reconcile: true,
+        }),
+      );
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('98 duplicates'));
+      expect(console.log).toHaveBeenCalledWith('Conflicts: 1');
+      expect(JSON.parse(readFileSync(reportPath, 'utf-8')).conflicts).toHaveLength(1);
+    } finally {
+      if (existsSync(reportPath)) unlinkSync(reportPath);
+    }
+  });
+
+  it('rejects --reconcile for NDJSON archives', async () => {
+    mockIsNdjsonArchive.mockResolvedValue(true);
+    mockImportNdjson.mockResolvedValue(sampleNdjsonImportResult);
+
+    await importCommand.handler(['/tmp/backup.ndjson', '--reconcile']);
+
+    expect(console.error).toHaveBeenCalledWith(
+      'Error: --reconcile is not supported for NDJSON archives.',
+    );
+    expect(process.exit).toHaveBeenCalledWith(2);
+  });
 });
@@ -0,0 +1,76 @@
+/**
+ * Tests for the diff CLI command handler.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../../src/retrieval/memory-diff.js', async (importOriginal) => ({
+  ...(await importOriginal<Record<string, unknown>>()),
+  computeMemoryDiff: vi.fn(),
+}));
+
+import { diffCommand } from '../../../src/cli/commands/diff.js';
+import { computeMemoryDiff, type MemoryDiff } from '../../../src/retrieval/memory-diff.js';
+
+const mockComputeMemoryDiff = vi.mocked(computeMemoryDiff);
+
+function diff(project: string, since: string): MemoryDiff {
+  return {
+    project,
+    since,
+    until: '2026-03-08T00:00:00.000Z',
+    sessions: [],
+    newClusters: [],
+    shiftedClusters: [],
+    newEntities: [],
+    newFiles: [],
+    resolvedErrors: [],
+    openErrors: [],
+    outcomes: [{ outcome: 'git commit', count: 3 }],
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+  mockComputeMemoryDiff.mockImplementation(diff);
+});
+
+describe('diffCommand', () => {
+  it('has correct name and usage', () => {
+    expect(diffCommand.name).toBe('diff');
+    expect(diffCommand.usage).toContain('--since');
+  });
+
+  it('prints the formatted diff for a project and date', async () => {
+    await diffCommand.handler(['--project', 'my-app', '--since', '2026-03-01']);
+
+    expect(mockComputeMemoryDiff).toHaveBeenCalledWith('my-app', '2026-03-01T00:00:00.000Z');
+    const output = vi.mocked(console.log).mock.calls[0][0] as string;
+    expect(output).toContain('# Memory diff: my-app since 2026-03-01');
+    expect(output).toContain('- git commit ×3');
+  });
+
+  it('prints JSON with --json', async () => {
+    await diffCommand.handler(['--project', 'my-app', '--since', '2026-03-01', '--json']);
+
+    const output = JSON.parse(vi.mocked(console.log).mock.calls[0][0] as string);
+    expect(output.outcomes).toEqual([{ outcome: 'git commit', count: 3 }]);
+  });
+
+  it('exits with code 2 on an invalid date', async () => {
+    vi.mocked(process.exit).mockImplementation(() => {
+      throw new Error('exit');
+    });
+
+    await expect(
+      diffCommand.handler(['--project', 'my-app', '--since', 'someday']),
+    ).rejects.toThrow('exit');
+
+    expect(mockComputeMemoryDiff).not.toHaveBeenCalled();
+    expect(console.error).toHaveBeenCalledWith('Error: Invalid since date: someday');
+    expect(process.exit).toHaveBeenCalledWith(2);
+  });
+});
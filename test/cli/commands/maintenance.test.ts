@@ -10,21 +10,39 @@ vi.mock('../../../src/maintenance/scheduler.js', () => ({
   runAllTasks: vi.fn(),
   getStatus: vi.fn(),
   runDaemon: vi.fn(),
+  previewRetention: vi.fn(),
+  previewEmbeddingMigration: vi.fn(),
 }));
 
 import { maintenanceCommand } from '../../../src/cli/commands/maintenance.js';
-import { runTask, runAllTasks, getStatus, runDaemon } from '../../../src/maintenance/scheduler.js';
+import {
+  runTask,
+  runAllTasks,
+  getStatus,
+  runDaemon,
+  previewRetention,
+  previewEmbeddingMigration,
+} from '../../../src/maintenance/scheduler.js';
 
 const mockRunTask = vi.mocked(runTask);
 const mockRunAllTasks = vi.mocked(runAllTasks);
 const mockGetStatus = vi.mocked(getStatus);
 const mockRunDaemon = vi.mocked(runDaemon);
+const mockPreviewRetention = vi.mocked(previewRetention);
+const mockPreviewEmbeddingMigration = vi.mocked(previewEmbeddingMigration);
 
 beforeEach(() => {
   vi.clearAllMocks();
   vi.spyOn(console, 'log').mockImplementation(() => {});
   vi.spyOn(console, 'error').mockImplementation(() => {});
   vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+  mockPreviewRetention.mockResolvedValue({
+    success: true,
+    duration: 1,
+    message: 'No chunks exceed retention limits',
+    details: { dbSizeBytes: 0, maxDbSizeBytes: 0, projects: [] },
+  });
+  mockPreviewEmbeddingMigration.mockResolvedValue(null);
 });
 
 describe('maintenanceCommand', () => {
@@ -165,6 +183,106 @@ describe('maintenanceCommand', () => {
       );
       expect(nextRunCalls.length).toBe(0);
     });
+
+    it('prints the retention dry-run report', async () => {
+      mockGetStatus.mockReturnValue([]);
+      mockPreviewRetention.mockResolvedValue({
+        success: true,
+        duration: 1,
+        message: 'Would prune 3 chunks across 1 projects (dry run)',
+        details: {
+          dbSizeBytes: 3 * 1024 * 1024,
+          maxDbSizeBytes: 0,
+          projects: [
+            {
+              project: 'app',
+              limits: { maxAgeDays: 90, maxChunks: 0, keepRetrievedWithinDays: 30 },
+              totalChunks: 10,
+              protectedChunks: 2,
+              byAge: 3,
+              byCount: 0,
+              bySize: 0,
+            },
+            {
+              project: 'lib',
+              limits: { maxAgeDays: 90, maxChunks: 0, keepRetrievedWithinDays: 30 },
+              totalChunks: 4,
+              protectedChunks: 0,
+              byAge: 0,
+              byCount: 0,
+              bySize: 0,
+            },
+          ],
+        },
+      });
+
+      await maintenanceCommand.handler(['status']);
+
+      expect(mockPreviewRetention).toHaveBeenCalledOnce();
+      expect(console.log).toHaveBeenCalledWith('Retention (dry run):');
+      expect(console.log).toHaveBeenCalledWith('  Database: 3.0 MB (limit: unlimited)');
+      expect(console.log).toHaveBeenCalledWith(
+        '  app: 3 of 10 chunks (age: 3, count: 0, size: 0; 2 protected)',
+      );
+      expect(console.log).not.toHaveBeenCalledWith(expect.stringContaining('  lib:'));
+      expect(console.log).toHaveBeenCalledWith(
+        '  Would prune 3 chunks across 1 projects (dry run)',
+      );
+    });
+
+    it('prints the retention error when the preview fails', async () => {
+      mockGetStatus.mockReturnValue([]);
+      mockPreviewRetention.mockResolvedValue({
+        success: false,
+        duration: 1,
+        message: 'Retention enforcement failed: no such table: chunks',
+      });
+
+      await maintenanceCommand.handler(['status']);
+
+      expect(console.log).toHaveBeenCalledWith(
+        '  Retention enforcement failed: no such table: chunks',
+      );
+    });
+
+    it('prints embedding migration progress when a migration is pending', async () => {
+      mockGetStatus.mockReturnValue([]);
+      mockPreviewEmbeddingMigration.mockResolvedValue({
+        servingModel: 'jina-small',
+        targetModel: 'nomic-v1.5',
+        status: {
+          sourceModel: 'jina-small',
+          targetModel: 'nomic-v1.5',
+          startedAt: '2026-01-01T00:00:00.000Z',
+          updatedAt: '2026-01-01T01:00:00.000Z',
+          total: 400,
+          done: 100,
+          coverage: 0.25,
+          recall: null,
+          flippedAt: null,
+        },
+      });
+
+      await maintenanceCommand.handler(['status']);
+
+      expect(console.log).toHaveBeenCalledWith('Embedding migration: jina-small → nomic-v1.5');
+      expect(console.log).toHaveBeenCalledWith('  Progress: 100/400 vectors (25%)');
+    });
+
+    it('prints a not-started embedding migration', async () => {
+      mockGetStatus.mockReturnValue([]);
+      mockPreviewEmbeddingMigration.mockResolvedValue({
+        servingModel: 'jina-small',
+        targetModel: 'hash',
+        status: null,
+      });
+
+      await maintenanceCommand.handler(['status']);
+
+      expect(console.log).toHaveBeenCalledWith(
+        '  Not started (runs with the next migrate-embeddings task)',
+      );
+    });
   });
 
   describe('daemon subcommand', () => {
@@ -0,0 +1,76 @@
+/**
+ * Tests for the note CLI command handler.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../../src/ingest/note.js', () => ({
+  storeNote: vi.fn(),
+  parseTags: vi.fn((raw?: string) => (raw ? raw.split(',') : [])),
+}));
+
+vi.mock('../../../src/retrieval/search-assembler.js', () => ({
+  disposeSearch: vi.fn(async () => {}),
+}));
+
+import { noteCommand } from '../../../src/cli/commands/note.js';
+import { storeNote } from '../../../src/ingest/note.js';
+import { disposeSearch } from '../../../src/retrieval/search-assembler.js';
+
+const mockStoreNote = vi.mocked(storeNote);
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+  mockStoreNote.mockResolvedValue({
+    id: 'note-1',
+    sessionId: 'note:my-app',
+    tags: ['auth'],
+    pinned: true,
+    indexed: true,
+  });
+});
+
+describe('noteCommand', () => {
+  it('has correct name and description', () => {
+    expect(noteCommand.name).toBe('note');
+    expect(noteCommand.description).toContain('note');
+  });
+
+  it('exits with code 2 when no text provided', async () => {
+    await noteCommand.handler(['--project', 'my-app']);
+
+    expect(console.error).toHaveBeenCalledWith('Error: Note text required');
+    expect(process.exit).toHaveBeenCalledWith(2);
+  });
+
+  it('stores the joined text with project and tags', async () => {
+    await noteCommand.handler(['Use', 'JWT', '--project', 'my-app', '--tags', 'auth']);
+
+    expect(mockStoreNote).toHaveBeenCalledWith({
+      content: 'Use JWT',
+      project: 'my-app',
+      tags: ['auth'],
+      pinned: true,
+      projectPath: undefined,
+    });
+    expect(console.log).toHaveBeenCalledWith('Stored pinned note note-1 in project "my-app"');
+    expect(disposeSearch).toHaveBeenCalled();
+  });
+
+  it('defaults the project to the current directory name', async () => {
+    await noteCommand.handler(['remember', 'this']);
+
+    const input = mockStoreNote.mock.calls[0][0];
+    expect(input.project).toBe(process.cwd().split('/').pop());
+    expect(input.projectPath).toBe(process.cwd());
+  });
+
+  it('stores unpinned notes with --no-pin', async () => {
+    await noteCommand.handler(['scratch', '--project', 'my-app', '--no-pin']);
+
+    expect(mockStoreNote).toHaveBeenCalledWith(expect.objectContaining({ pinned: false }));
+  });
+});
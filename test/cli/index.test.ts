@@ -27,6 +27,7 @@ describe('cli', () => {
       'ingest',
       'batch-ingest',
       'recall',
+      'note',
       'maintenance',
       'config',
       'stats',
@@ -99,6 +99,10 @@ describe('loadConfig', () => {
       expect(config.semanticIndex.batchRefreshLimit).toBe(500);
       expect(config.semanticIndex.useForSearch).toBe(true);
       expect(config.maintenance.clusterHour).toBe(2);
+      expect(config.retention.enabled).toBe(false);
+      expect(config.retention.maxAgeDays).toBe(0);
+      expect(config.retention.keepRetrievedWithinDays).toBe(30);
+      expect(config.retention.includePinned).toBe(false);
       expect(config.vectors.maxCount).toBe(0);
       expect(config.embedding.eager).toBe(false);
       expect(config.embedding.model).toBe('jina-small');
@@ -252,6 +256,53 @@ describe('loadConfig', () => {
       expect(config.vectors.maxCount).toBe(10000);
     });
 
+    it('overrides vector index settings from env', () => {
+      process.env.CAUSANTIC_VECTORS_ANN_ENABLED = 'false';
+      process.env.CAUSANTIC_VECTORS_ANN_MIN_VECTORS = '20000';
+      process.env.CAUSANTIC_VECTORS_HNSW_EF_SEARCH = '128';
+
+      const config = loadConfig({
+        skipProjectConfig: true,
+        skipUserConfig: true,
+      });
+
+      expect(config.vectors.annEnabled).toBe(false);
+      expect(config.vectors.annMinVectors).toBe(20000);
+      expect(config.vectors.hnswEfSearch).toBe(128);
+    });
+
+    it('overrides vector quantization settings from env', () => {
+      process.env.CAUSANTIC_VECTORS_QUANTIZATION = 'binary';
+      process.env.CAUSANTIC_VECTORS_RERANK_MULTIPLIER = '8';
+
+      const config = loadConfig({
+        skipProjectConfig: true,
+        skipUserConfig: true,
+      });
+
+      expect(config.vectors.quantization).toBe('binary');
+      expect(config.vectors.rerankMultiplier).toBe(8);
+    });
+
+    it('overrides reranker settings from env', () => {
+      process.env.CAUSANTIC_RERANKER_ENABLED = 'true';
+      process.env.CAUSANTIC_RERANKER_MODEL = 'Xenova/bge-reranker-base';
+      process.env.CAUSANTIC_RERANKER_TOP_N = '50';
+      process.env.CAUSANTIC_RERANKER_LATENCY_BUDGET_MS = '250';
+
+      const config = loadConfig({
+        skipProjectConfig: true,
+        skipUserConfig: true,
+      });
+
+      expect(config.reranker).toEqual({
+        enabled: true,
+        model: 'Xenova/bge-reranker-base',
+        topN: 50,
+        latencyBudgetMs: 250,
+      });
+    });
+
     it('overrides maintenance cluster hour from env', () => {
       process.env.CAUSANTIC_MAINTENANCE_CLUSTER_HOUR = '14';
 
@@ -263,6 +314,22 @@ describe('loadConfig', () => {
       expect(config.maintenance.clusterHour).toBe(14);
     });
 
+    it('overrides retention limits from env', () => {
+      process.env.CAUSANTIC_RETENTION_ENABLED = 'true';
+      process.env.CAUSANTIC_RETENTION_MAX_AGE_DAYS = '180';
+      process.env.CAUSANTIC_RETENTION_MAX_DB_SIZE_MB = '512';
+
+      const config = loadConfig({
+        skipProjectConfig: true,
+        skipUserConfig: true,
+      });
+
+      expect(config.retention.enabled).toBe(true);
+      expect(config.retention.maxAgeDays).toBe(180);
+      expect(config.retention.maxDbSizeMb).toBe(512);
+      expect(config.retention.keepRetrievedWithinDays).toBe(30);
+    });
+
     it('overrides embedding model from env', () => {
       process.env.CAUSANTIC_EMBEDDING_MODEL = 'jina-code';
 
@@ -274,6 +341,32 @@ describe('loadConfig', () => {
       expect(config.embedding.model).toBe('jina-code');
     });
 
+    it('overrides embedding endpoint and dimensions from env', () => {
+      process.env.CAUSANTIC_EMBEDDING_ENDPOINT = 'http://127.0.0.1:8080/v1';
+      process.env.CAUSANTIC_EMBEDDING_DIMENSIONS = '768';
+
+      const config = loadConfig({
+        skipProjectConfig: true,
+        skipUserConfig: true,
+      });
+
+      expect(config.embedding.endpoint).toBe('http://127.0.0.1:8080/v1');
+      expect(config.embedding.dimensions).toBe(768);
+    });
+
+    it('overrides llm provider and endpoint from env', () => {
+      process.env.CAUSANTIC_LLM_PROVIDER = 'openai';
+      process.env.CAUSANTIC_LLM_ENDPOINT = 'http://127.0.0.1:8080/v1';
+
+      const config = loadConfig({
+        skipProjectConfig: true,
+        skipUserConfig: true,
+      });
+
+      expect(config.llm.provider).toBe('openai');
+      expect(config.llm.endpoint).toBe('http://127.0.0.1:8080/v1');
+    });
+
     it('overrides embedding eager from env', () => {
       process.env.CAUSANTIC_EMBEDDING_EAGER = 'true';
 
@@ -318,6 +411,18 @@ describe('loadConfig', () => {
       expect(config.retrieval.vectorEnrichment).toBe(true);
     });
 
+    it('disables query parsing from env', () => {
+      process.env.CAUSANTIC_RETRIEVAL_PARSE_QUERY = 'false';
+
+      const config = loadConfig({
+        skipProjectConfig: true,
+        skipUserConfig: true,
+      });
+
+      expect(config.retrieval.parseQuery).toBe(false);
+      expect(toRuntimeConfig(config).queryParsing).toBe(false);
+    });
+
     it('overrides recency decay factor from env', () => {
       process.env.CAUSANTIC_RECENCY_DECAY_FACTOR = '0.6';
 
@@ -362,6 +467,17 @@ describe('loadConfig', () => {
       expect(config.semanticIndex.useForSearch).toBe(false);
     });
 
+    it('overrides repo map grammars dir from env', () => {
+      process.env.CAUSANTIC_REPOMAP_GRAMMARS_DIR = '/opt/grammars';
+
+      const config = loadConfig({
+        skipProjectConfig: true,
+        skipUserConfig: true,
+      });
+
+      expect(config.repomap.grammarsDir).toBe('/opt/grammars');
+    });
+
     it('skips env vars when skipEnv is true', () => {
       process.env.CAUSANTIC_CLUSTERING_THRESHOLD = '0.99';
 
@@ -731,6 +847,47 @@ describe('validateExternalConfig', () => {
     expect(errors).toContain('vectors.maxCount must be >= 0 (0 = unlimited)');
   });
 
+  it('reports invalid vector index settings', () => {
+    const errors = validateExternalConfig({
+      vectors: { annMinVectors: -1, hnswM: 1, hnswEfConstruction: 0, hnswEfSearch: 0 },
+    });
+    expect(errors).toContain('vectors.annMinVectors must be >= 0');
+    expect(errors).toContain('vectors.hnswM must be at least 2');
+    expect(errors).toContain('vectors.hnswEfConstruction must be at least 1');
+    expect(errors).toContain('vectors.hnswEfSearch must be at least 1');
+  });
+
+  it('reports invalid vector quantization settings', () => {
+    const errors = validateExternalConfig({
+      vectors: { quantization: 'float16' as 'int8', rerankMultiplier: 0 },
+    });
+    expect(errors).toContain("vectors.quantization must be 'none', 'int8' or 'binary'");
+    expect(errors).toContain('vectors.rerankMultiplier must be at least 1');
+  });
+
+  it('reports invalid reranker settings', () => {
+    const errors = validateExternalConfig({
+      reranker: { topN: 1, latencyBudgetMs: 0 },
+    });
+    expect(errors).toContain('reranker.topN must be between 2 and 500');
+    expect(errors).toContain('reranker.latencyBudgetMs must be greater than 0');
+  });
+
+  it('reports negative retention limits, including project overrides', () => {
+    const errors = validateExternalConfig({
+      retention: { maxChunks: -1, projects: { app: { maxAgeDays: -5 } } },
+    });
+    expect(errors).toContain('retention.maxChunks must be >= 0 (0 = unlimited)');
+    expect(errors).toContain('retention.projects.app.maxAgeDays must be >= 0 (0 = unlimited)');
+  });
+
+  it('accepts retention limits of 0 (unlimited)', () => {
+    const errors = validateExternalConfig({
+      retention: { maxAgeDays: 0, maxChunks: 0, maxDbSizeMb: 0, projects: { app: {} } },
+    });
+    expect(errors).toEqual([]);
+  });
+
   it('accepts vectors.maxCount of 0 (unlimited)', () => {
     const errors = validateExternalConfig({
       vectors: { maxCount: 0 },
@@ -753,6 +910,42 @@ describe('validateExternalConfig', () => {
     expect(errors).toEqual([]);
   });
 
+  it('accepts hash and openai embedding models', () => {
+    expect(validateExternalConfig({ embedding: { model: 'hash' } })).toEqual([]);
+    expect(validateExternalConfig({ embedding: { model: 'hash:256' } })).toEqual([]);
+    expect(
+      validateExternalConfig({ embedding: { model: 'openai:nomic-embed-text', dimensions: 768 } }),
+    ).toEqual([]);
+  });
+
+  it('rejects malformed hash model ids', () => {
+    const errors = validateExternalConfig({ embedding: { model: 'hash:abc' } });
+    expect(errors[0]).toContain("embedding.model 'hash:abc' is not a registered model");
+  });
+
+  it('requires embedding.dimensions for openai models', () => {
+    const errors = validateExternalConfig({ embedding: { model: 'openai:nomic-embed-text' } });
+    expect(errors).toEqual([
+      "embedding.dimensions is required for embedding.model 'openai:nomic-embed-text'",
+    ]);
+  });
+
+  it('reports invalid embedding dimensions and endpoint', () => {
+    const errors = validateExternalConfig({
+      embedding: { dimensions: 0, endpoint: 'localhost:11434' },
+    });
+    expect(errors).toContain('embedding.dimensions must be a positive integer');
+    expect(errors).toContain('embedding.endpoint must be an http(s) URL');
+  });
+
+  it('reports invalid llm provider and endpoint', () => {
+    const errors = validateExternalConfig({
+      llm: { provider: 'ollama' as 'openai', endpoint: 'localhost:11434' },
+    });
+    expect(errors).toContain(`llm.provider must be 'anthropic' or 'openai'`);
+    expect(errors).toContain('llm.endpoint must be an http(s) URL');
+  });
+
   it('reports lengthPenalty.referenceTokens <= 0', () => {
     const errors = validateExternalConfig({
       lengthPenalty: { referenceTokens: 0 },
@@ -872,6 +1065,8 @@ describe('toRuntimeConfig', () => {
     expect(runtime.vectorStorePath).toBe(external.storage.vectorPath);
     expect(runtime.clusterRefreshModel).toBe(external.llm.clusterRefreshModel);
     expect(runtime.refreshRateLimitPerMin).toBe(external.llm.refreshRateLimitPerMin);
+    expect(runtime.llmProvider).toBe(external.llm.provider);
+    expect(runtime.llmEndpoint).toBe(external.llm.endpoint);
   });
 
   it('default-converted config matches DEFAULT_CONFIG', () => {
@@ -939,6 +1134,28 @@ describe('toRuntimeConfig', () => {
     expect(runtime.mmrReranking.lambda).toBe(0.7);
   });
 
+  it('maps reranker settings and defaults to disabled', () => {
+    const defaults = toRuntimeConfig(
+      loadConfig({ skipEnv: true, skipProjectConfig: true, skipUserConfig: true }),
+    );
+    const configured = toRuntimeConfig(
+      loadConfig({
+        skipEnv: true,
+        skipProjectConfig: true,
+        skipUserConfig: true,
+        cliOverrides: { reranker: { enabled: true, topN: 20 } },
+      }),
+    );
+
+    expect(defaults.reranker.enabled).toBe(false);
+    expect(configured.reranker).toEqual({
+      enabled: true,
+      model: 'Xenova/ms-marco-MiniLM-L-6-v2',
+      topN: 20,
+      latencyBudgetMs: 500,
+    });
+  });
+
   it('defaults retrievalPrimary to hybrid', () => {
     const external = loadConfig({
       skipEnv: true,
@@ -1068,7 +1285,24 @@ describe('toRuntimeConfig', () => {
     expect(runtime.vectorEnrichment).toBe(true);
   });
 
-  it('preserves repomap from DEFAULT_CONFIG (no external mapping)', () => {
+  it('maps repomap settings from external config', () => {
+    const external = loadConfig({
+      skipEnv: true,
+      skipProjectConfig: true,
+      skipUserConfig: true,
+      cliOverrides: {
+        repomap: { maxTokens: 2048, grammarsDir: '/opt/grammars' },
+      },
+    });
+
+    const runtime = toRuntimeConfig(external);
+
+    expect(runtime.repomap.maxTokens).toBe(2048);
+    expect(runtime.repomap.grammarsDir).toBe('/opt/grammars');
+    expect(runtime.repomap.languages).toEqual(DEFAULT_CONFIG.repomap.languages);
+  });
+
+  it('preserves repomap defaults from DEFAULT_CONFIG', () => {
     const external = loadConfig({
       skipEnv: true,
       skipProjectConfig: true,
@@ -973,6 +973,30 @@ describe('GET /api/search — project filter and no results', () => {
   });
 });
 
+describe('GET /api/search — facets', () => {
+  it('narrows results by tool use and code blocks', async () => {
+    insertChunk({ ...makeChunk({ id: 'facet-tool', content: 'deploy script' }), toolUseCount: 2 });
+    insertChunk({
+      ...makeChunk({ id: 'facet-code', content: 'deploy config' }),
+      codeBlockCount: 1,
+    });
+
+    const byTools = await (await get('/api/search?q=deploy&minToolUses=1')).json();
+    const byCode = await (await get('/api/search?q=deploy&hasCode=true')).json();
+
+    expect(byTools.results.map((r: { id: string }) => r.id)).toEqual(['facet-tool']);
+    expect(byCode.results.map((r: { id: string }) => r.id)).toEqual(['facet-code']);
+  });
+
+  it('returns 400 for invalid facet values', async () => {
+    const res = await get('/api/search?q=deploy&hasErrors=maybe');
+    const data = await res.json();
+
+    expect(res.status).toBe(400);
+    expect(data.error).toBe('hasErrors must be true or false');
+  });
+});
+
 describe('GET /api/timeline — limit parameter', () => {
   it('respects limit parameter', async () => {
     for (let i = 0; i < 3; i++) {
@@ -1,9 +1,25 @@
 /**
- * Tests for latency percentile calculations.
+ * Tests for latency percentile calculations and the vector index benchmark.
  */
 
-import { describe, it, expect } from 'vitest';
-import { computePercentiles } from '../../../src/eval/collection-benchmark/latency.js';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../../src/storage/vector-store.js', () => ({
+  vectorStore: {
+    setModelId: vi.fn(),
+    isAnnActive: vi.fn(),
+    getQuantizationMode: vi.fn(),
+    get: vi.fn(),
+    count: vi.fn(),
+    searchForEvaluation: vi.fn(),
+  },
+}));
+
+import {
+  computePercentiles,
+  runVectorIndexBenchmark,
+} from '../../../src/eval/collection-benchmark/latency.js';
+import { vectorStore } from '../../../src/storage/vector-store.js';
 
 describe('computePercentiles', () => {
   it('should return zeros for empty array', () => {
@@ -58,3 +74,41 @@ describe('computePercentiles', () => {
     expect(result.p50).toBeGreaterThan(30);
   });
 });
+
+describe('runVectorIndexBenchmark', () => {
+  const hits = (ids: string[]) => ids.map((id, i) => ({ id, distance: i / 10 }));
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(vectorStore.isAnnActive).mockResolvedValue(true);
+    vi.mocked(vectorStore.count).mockResolvedValue(8000);
+    vi.mocked(vectorStore.getQuantizationMode).mockResolvedValue('int8');
+  });
+
+  it('should measure approximate recall against exact search', async () => {
+    vi.mocked(vectorStore.get).mockImplementation(async (id) => (id === 'missing' ? null : [1, 0]));
+    vi.mocked(vectorStore.searchForEvaluation).mockImplementation(async (_query, _limit, exact) =>
+      exact ? hits(['a', 'b', 'c', 'd']) : hits(['a', 'b', 'c', 'x']),
+    );
+
+    const result = await runVectorIndexBenchmark(['q1', 'missing', 'q2'], 'jina-small');
+
+    expect(vectorStore.setModelId).toHaveBeenCalledWith('jina-small');
+    expect(result).toMatchObject({
+      vectorCount: 8000,
+      annActive: true,
+      quantization: 'int8',
+      sampledQueries: 2,
+      recallAt10: 0.75,
+    });
+    expect(vectorStore.searchForEvaluation).toHaveBeenCalledWith([1, 0], 10, true);
+    expect(vectorStore.searchForEvaluation).toHaveBeenCalledWith([1, 0], 10, false);
+  });
+
+  it('should return undefined when no sampled chunk has a vector', async () => {
+    vi.mocked(vectorStore.get).mockResolvedValue(null);
+
+    expect(await runVectorIndexBenchmark(['q1'], 'jina-small')).toBeUndefined();
+    expect(vectorStore.searchForEvaluation).not.toHaveBeenCalled();
+  });
+});
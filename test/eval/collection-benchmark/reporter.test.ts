@@ -174,6 +174,32 @@ describe('generateMarkdownReport', () => {
     expect(md).toContain('| recall | 23ms | 45ms | 89ms |');
   });
 
+  it('should include vector index recall when measured', () => {
+    const result = makeMinimalResult({
+      latency: {
+        recall: { p50: 23, p95: 45, p99: 89 },
+        search: { p50: 31, p95: 52, p99: 95 },
+        predict: { p50: 28, p95: 48, p99: 91 },
+        reconstruct: { p50: 12, p95: 28, p99: 42 },
+        vectorIndex: {
+          vectorCount: 12000,
+          annActive: true,
+          quantization: 'int8',
+          sampledQueries: 30,
+          recallAt10: 0.973,
+          approximate: { p50: 1.2, p95: 2.4, p99: 3.1 },
+          exact: { p50: 14.5, p95: 18.2, p99: 20 },
+        },
+      },
+    });
+    const md = generateMarkdownReport(result);
+
+    expect(md).toContain('### Vector Index');
+    expect(md).toContain('12000 vectors, HNSW index active, int8 quantization');
+    expect(md).toContain('| Recall@10 vs exact | 97.3% |');
+    expect(md).toContain('| Exact p50 / p95 | 14.5ms / 18.2ms |');
+  });
+
   it('should include skipped benchmarks when present', () => {
     const result = makeMinimalResult({
       skipped: [
@@ -187,4 +187,35 @@ describe('generateHighlights', () => {
 
     expect(highlights.some((h) => h.includes('p95') || h.includes('latency'))).toBe(true);
   });
+
+  it('should highlight vector index recall when the index or quantization is active', () => {
+    const health = makeHealth();
+    const vectorIndex = {
+      vectorCount: 12000,
+      annActive: true,
+      quantization: 'none' as const,
+      sampledQueries: 30,
+      recallAt10: 0.96,
+      approximate: { p50: 1, p95: 2, p99: 3 },
+      exact: { p50: 10, p95: 12, p99: 14 },
+    };
+
+    const active = generateHighlights(health, undefined, undefined, makeLatency({ vectorIndex }));
+    const quantized = generateHighlights(
+      health,
+      undefined,
+      undefined,
+      makeLatency({ vectorIndex: { ...vectorIndex, annActive: false, quantization: 'binary' } }),
+    );
+    const inactive = generateHighlights(
+      health,
+      undefined,
+      undefined,
+      makeLatency({ vectorIndex: { ...vectorIndex, annActive: false } }),
+    );
+
+    expect(active).toContain('Vector index recall@10: 96.0% of exact search');
+    expect(quantized).toContain('Vector index recall@10: 96.0% of exact search');
+    expect(inactive.some((h) => h.includes('Vector index'))).toBe(false);
+  });
 });
@@ -23,10 +23,20 @@ vi.mock('../../src/utils/logger.js', () => ({
   })),
 }));
 
+vi.mock('../../src/config/memory-config.js', () => ({
+  getConfig: vi.fn(() => ({ repomap: { enabled: true } })),
+}));
+
+vi.mock('../../src/repomap/index.js', () => ({
+  snapshotRepoMap: vi.fn(),
+}));
+
 import { handleSessionEnd } from '../../src/hooks/session-end.js';
 import { handleIngestionHook } from '../../src/hooks/hook-utils.js';
+import { snapshotRepoMap } from '../../src/repomap/index.js';
 
 const mockHandleIngestionHook = vi.mocked(handleIngestionHook);
+const mockSnapshotRepoMap = vi.mocked(snapshotRepoMap);
 
 describe('session-end', () => {
   beforeEach(() => {
@@ -106,6 +116,38 @@ describe('session-end', () => {
       const result = await handleSessionEnd('/path/to/session.jsonl');
 
       expect(result.degraded).toBe(true);
+      expect(mockSnapshotRepoMap).not.toHaveBeenCalled();
+    });
+
+    it('snapshots the repo map of the working directory after ingestion', async () => {
+      mockHandleIngestionHook.mockResolvedValue({
+        sessionId: 'sess-123',
+        chunkCount: 5,
+        edgeCount: 3,
+        clustersAssigned: 0,
+        durationMs: 50,
+        skipped: false,
+      });
+
+      await handleSessionEnd('/path/to/session.jsonl');
+
+      expect(mockSnapshotRepoMap).toHaveBeenCalledWith(process.cwd(), 'sess-123');
+    });
+
+    it('returns the ingestion result when the snapshot fails', async () => {
+      mockHandleIngestionHook.mockResolvedValue({
+        sessionId: 'sess-123',
+        chunkCount: 5,
+        edgeCount: 3,
+        clustersAssigned: 0,
+        durationMs: 50,
+        skipped: false,
+      });
+      mockSnapshotRepoMap.mockRejectedValueOnce(new Error('parse failed'));
+
+      const result = await handleSessionEnd('/path/to/session.jsonl');
+
+      expect(result.chunkCount).toBe(5);
     });
   });
 });
@@ -0,0 +1,131 @@
+/**
+ * Tests for chunk code reference extraction.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type Database from 'better-sqlite3-multiple-ciphers';
+import { createTestDb, setupTestDb, teardownTestDb } from '../storage/test-utils.js';
+import { extractCodeRefs, loadCodeIndex } from '../../src/ingest/code-refs.js';
+import type { CodeIndex } from '../../src/ingest/code-refs.js';
+import { saveRepoMapTags } from '../../src/storage/repomap-cache-store.js';
+import { PARSER_VERSION } from '../../src/repomap/parser.js';
+import type { Turn, ToolExchange } from '../../src/parser/types.js';
+
+const PROJECT = '/work/my-app';
+
+/** Helper to build a minimal turn with tool exchanges. */
+function makeTurn(exchanges: Partial<ToolExchange>[]): Turn {
+  return {
+    index: 0,
+    startTime: '2025-01-01T00:00:00Z',
+    userText: 'test',
+    assistantBlocks: [],
+    toolExchanges: exchanges.map((e) => ({
+      toolName: e.toolName ?? 'Unknown',
+      toolUseId: e.toolUseId ?? 'tu-1',
+      input: e.input ?? {},
+      result: e.result ?? '',
+      isError: e.isError ?? false,
+    })),
+    hasThinking: false,
+    rawMessages: [],
+  };
+}
+
+const index: CodeIndex = {
+  files: new Set(['src/auth.ts', 'src/tokens.ts', 'src/config.ts']),
+  definitions: new Map([
+    ['refreshToken', ['src/tokens.ts']],
+    ['MAX_RETRIES', ['src/config.ts']],
+    ['login', ['src/auth.ts']],
+    ['handleError', ['a.ts', 'b.ts', 'c.ts', 'd.ts']],
+  ]),
+};
+
+describe('extractCodeRefs', () => {
+  it('links tool paths relative to the project', () => {
+    const turns = [
+      makeTurn([
+        { toolName: 'Edit', input: { file_path: `${PROJECT}/src/auth.ts` } },
+        { toolName: 'Read', input: { file_path: '/etc/hosts' } },
+        { toolName: 'NotebookEdit', input: { notebook_path: `${PROJECT}/notes.ipynb` } },
+        { toolName: 'Bash', input: { command: 'npm test' } },
+      ]),
+    ];
+
+    expect(extractCodeRefs('', turns, PROJECT, null)).toEqual([
+      { filePath: 'src/auth.ts', source: 'tool' },
+      { filePath: '/etc/hosts', source: 'tool' },
+      { filePath: 'notes.ipynb', source: 'tool' },
+    ]);
+  });
+
+  it('links mentioned paths of indexed files only', () => {
+    const text = 'The bug is in ./src/tokens.ts, not src/unknown.ts or package.json.';
+
+    expect(extractCodeRefs(text, [], PROJECT, index)).toEqual([
+      { filePath: 'src/tokens.ts', source: 'mention' },
+    ]);
+  });
+
+  it('links distinctive identifiers to the files defining them', () => {
+    const text =
+      'refreshToken retries MAX_RETRIES times; login is fine. handleError is everywhere.';
+
+    expect(extractCodeRefs(text, [], PROJECT, index)).toEqual([
+      { filePath: 'src/tokens.ts', symbol: 'refreshToken', source: 'symbol' },
+      { filePath: 'src/config.ts', symbol: 'MAX_RETRIES', source: 'symbol' },
+    ]);
+  });
+
+  it('skips text matching without a code index', () => {
+    expect(extractCodeRefs('refreshToken in src/tokens.ts', [], PROJECT, null)).toEqual([]);
+  });
+});
+
+describe('loadCodeIndex', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = createTestDb();
+    setupTestDb(db);
+  });
+
+  afterEach(() => {
+    teardownTestDb(db);
+  });
+
+  it('returns null before a repo map is built', () => {
+    expect(loadCodeIndex(PROJECT)).toBeNull();
+  });
+
+  it('collects files and definitions from persisted tags', () => {
+    saveRepoMapTags(PROJECT, PARSER_VERSION, [
+      {
+        relativePath: 'src/tokens.ts',
+        mtimeMs: 1,
+        contentHash: 'a',
+        tags: [
+          { name: 'refreshToken', kind: 'def', line: 3, file: 'src/tokens.ts', type: 'function' },
+          { name: 'login', kind: 'ref', line: 9, file: 'src/tokens.ts', type: 'identifier' },
+        ],
+      },
+      {
+        relativePath: 'src/auth.ts',
+        mtimeMs: 1,
+        contentHash: 'b',
+        tags: [{ name: 'login', kind: 'def', line: 1, file: 'src/auth.ts', type: 'function' }],
+      },
+    ]);
+
+    const loaded = loadCodeIndex(PROJECT)!;
+
+    expect([...loaded.files].sort()).toEqual(['src/auth.ts', 'src/tokens.ts']);
+    expect(loaded.definitions).toEqual(
+      new Map([
+        ['refreshToken', ['src/tokens.ts']],
+        ['login', ['src/auth.ts']],
+      ]),
+    );
+  });
+});
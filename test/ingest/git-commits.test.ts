@@ -0,0 +1,269 @@
+/**
+ * Tests for git commit and pull request extraction from transcripts.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('node:child_process', () => ({
+  execFileSync: vi.fn(),
+}));
+
+import { execFileSync } from 'node:child_process';
+import {
+  parseCommitOutput,
+  parseCommitSubject,
+  parsePullRequestTitle,
+  capPatch,
+  readCommit,
+  findCommitBySubject,
+  extractSessionCommits,
+  extractSessionPullRequests,
+  MAX_PATCH_CHARS,
+} from '../../src/ingest/git-commits.js';
+import type { Turn, ToolExchange } from '../../src/parser/types.js';
+
+const mockExecFileSync = vi.mocked(execFileSync);
+
+const PROJECT = '/work/my-app';
+const SHA = '1a2b3c4d5e6f708192a3b4c5d6e7f8091a2b3c4d';
+const SHOW_OUTPUT = `${SHA}\0Fix token refresh race\x002026-03-05T10:00:00+01:00\n\n12\t3\tsrc/tokens.ts\n-\t-\tassets/logo.png\n`;
+const PATCH = 'diff --git a/src/tokens.ts b/src/tokens.ts\n+refresh();\n';
+
+/** Helper to build a minimal turn with tool exchanges. */
+function makeTurn(exchanges: Partial<ToolExchange>[], index = 0): Turn {
+  return {
+    index,
+    startTime: '2026-03-05T09:00:00Z',
+    userText: 'test',
+    assistantBlocks: [],
+    toolExchanges: exchanges.map((e) => ({
+      toolName: e.toolName ?? 'Bash',
+      toolUseId: e.toolUseId ?? 'tu-1',
+      input: e.input ?? {},
+      result: e.result ?? '',
+      isError: e.isError ?? false,
+    })),
+    hasThinking: false,
+    rawMessages: [],
+  };
+}
+
+describe('parseCommitOutput', () => {
+  it('parses branch, SHA and subject', () => {
+    const output = '[main 1a2b3c4] Fix token refresh race\n 1 file changed, 12 insertions(+)';
+    expect(parseCommitOutput(output)).toEqual({
+      sha: '1a2b3c4',
+      subject: 'Fix token refresh race',
+    });
+  });
+
+  it('parses root commits', () => {
+    expect(parseCommitOutput('[main (root-commit) 1a2b3c4] Initial commit')).toEqual({
+      sha: '1a2b3c4',
+      subject: 'Initial commit',
+    });
+  });
+
+  it('returns null when nothing was committed', () => {
+    expect(parseCommitOutput('nothing to commit, working tree clean')).toBeNull();
+  });
+});
+
+describe('parseCommitSubject', () => {
+  it('parses double- and single-quoted messages', () => {
+    expect(parseCommitSubject('git commit -m "Fix the \\"race\\""')).toBe('Fix the \\"race\\"');
+    expect(parseCommitSubject("git add -A && git commit -m 'Fix race'")).toBe('Fix race');
+  });
+
+  it('parses the first line of heredoc messages', () => {
+    const command = `git commit -m "$(cat <<'EOF'\nFix race\n\nLonger body.\nEOF\n)"`;
+    expect(parseCommitSubject(command)).toBe('Fix race');
+  });
+
+  it('returns null without a message', () => {
+    expect(parseCommitSubject('git commit --amend --no-edit')).toBeNull();
+  });
+});
+
+describe('readCommit', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('reads SHA, subject, time, per-file line counts and patch', () => {
+    mockExecFileSync.mockReturnValueOnce(SHOW_OUTPUT).mockReturnValueOnce(PATCH);
+
+    expect(readCommit(PROJECT, '1a2b3c4')).toEqual({
+      sha: SHA,
+      subject: 'Fix token refresh race',
+      committedAt: '2026-03-05T09:00:00.000Z',
+      files: [
+        { path: 'src/tokens.ts', insertions: 12, deletions: 3 },
+        { path: 'assets/logo.png', insertions: 0, deletions: 0 },
+      ],
+      patch: PATCH.trim(),
+    });
+    expect(mockExecFileSync.mock.calls[1][1]).toContain('--patch');
+    expect(mockExecFileSync.mock.calls[0][1]).toEqual([
+      '-C',
+      PROJECT,
+      'show',
+      '--numstat',
+      '--format=%H%x00%s%x00%cI',
+      '1a2b3c4',
+      '--',
+    ]);
+  });
+
+  it('returns null when git fails', () => {
+    mockExecFileSync.mockImplementation(() => {
+      throw new Error('not a git repository');
+    });
+
+    expect(readCommit(PROJECT, '1a2b3c4')).toBeNull();
+  });
+});
+
+describe('capPatch', () => {
+  it('keeps short patches and cuts long ones at a line boundary', () => {
+    expect(capPatch(PATCH)).toBe(PATCH);
+
+    const long = Array.from({ length: 2000 }, (_, i) => `+line ${i}`).join('\n');
+    const capped = capPatch(long);
+    const [kept, marker] = [capped.slice(0, capped.lastIndexOf('\n')), capped.split('\n').at(-1)];
+    expect(kept.length).toBeLessThanOrEqual(MAX_PATCH_CHARS);
+    expect(long.startsWith(kept + '\n')).toBe(true);
+    expect(marker).toBe(`[patch truncated: ${long.length - kept.length} more characters]`);
+  });
+});
+
+describe('findCommitBySubject', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns the first commit with the exact subject', () => {
+    mockExecFileSync.mockReturnValue(`aaaa\0Fix race later\n${SHA}\0Fix race\n`);
+
+    expect(findCommitBySubject(PROJECT, 'Fix race', '2026-03-05T09:00:00Z')).toBe(SHA);
+  });
+
+  it('returns null for an invalid time', () => {
+    expect(findCommitBySubject(PROJECT, 'Fix race', 'not a date')).toBeNull();
+    expect(mockExecFileSync).not.toHaveBeenCalled();
+  });
+});
+
+describe('extractSessionCommits', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('resolves commits from command output against the repository', () => {
+    mockExecFileSync.mockReturnValue(SHOW_OUTPUT);
+    const turns = [
+      makeTurn([{ input: { command: 'npm test' }, result: 'ok' }], 0),
+      makeTurn(
+        [
+          {
+            input: { command: 'git commit -m "Fix token refresh race"' },
+            result: '[main 1a2b3c4] Fix token refresh race',
+          },
+        ],
+        1,
+      ),
+    ];
+
+    const commits = extractSessionCommits(turns, PROJECT);
+
+    expect(commits).toHaveLength(1);
+    expect(commits[0]).toMatchObject({ sha: SHA, turnIndex: 1 });
+    expect(commits[0].files).toHaveLength(2);
+  });
+
+  it('matches by subject when the output has no SHA', () => {
+    mockExecFileSync
+      .mockReturnValueOnce(`${SHA}\0Fix token refresh race\n`)
+      .mockReturnValueOnce(SHOW_OUTPUT);
+    const turns = [
+      makeTurn([{ input: { command: 'git commit -q -m "Fix token refresh race"' }, result: '' }]),
+    ];
+
+    expect(extractSessionCommits(turns, PROJECT).map((c) => c.sha)).toEqual([SHA]);
+  });
+
+  it('keeps the abbreviated SHA when the repository is unavailable', () => {
+    mockExecFileSync.mockImplementation(() => {
+      throw new Error('not a git repository');
+    });
+    const turns = [
+      makeTurn([
+        { input: { command: 'git commit -m "Fix race"' }, result: '[main 1a2b3c4] Fix race' },
+      ]),
+    ];
+
+    expect(extractSessionCommits(turns, PROJECT)).toEqual([
+      {
+        sha: '1a2b3c4',
+        subject: 'Fix race',
+        committedAt: null,
+        files: [],
+        patch: null,
+        turnIndex: 0,
+      },
+    ]);
+  });
+
+  it('skips failed commits and other tools', () => {
+    const turns = [
+      makeTurn([
+        { input: { command: 'git commit -m "x"' }, result: 'error', isError: true },
+        { toolName: 'Read', input: { command: 'git commit' }, result: '[main 1a2b3c4] x' },
+      ]),
+    ];
+
+    expect(extractSessionCommits(turns, PROJECT)).toEqual([]);
+    expect(mockExecFileSync).not.toHaveBeenCalled();
+  });
+});
+
+describe('parsePullRequestTitle', () => {
+  it('parses --title and -t in either quote style', () => {
+    expect(parsePullRequestTitle('gh pr create --title "Fix race" --body "..."')).toBe('Fix race');
+    expect(parsePullRequestTitle("gh pr create -t 'Fix race'")).toBe('Fix race');
+    expect(parsePullRequestTitle('gh pr create --fill')).toBeNull();
+  });
+});
+
+describe('extractSessionPullRequests', () => {
+  it('finds pull requests by the URL gh prints', () => {
+    const url = 'https://github.com/acme/my-app/pull/42';
+    const turns = [
+      makeTurn(
+        [
+          { input: { command: 'gh pr create --title "Fix race" --body "b"' }, result: `${url}\n` },
+          {
+            input: { command: 'gh pr create --fill' },
+            result: `Warning: 1 uncommitted change\n${url}`,
+          },
+        ],
+        3,
+      ),
+    ];
+
+    expect(extractSessionPullRequests(turns)).toEqual([
+      { url, number: 42, title: 'Fix race', openedAt: '2026-03-05T09:00:00Z', turnIndex: 3 },
+    ]);
+  });
+
+  it('skips failed commands and output without a URL', () => {
+    const turns = [
+      makeTurn([
+        { input: { command: 'gh pr create --fill' }, result: 'no commits', isError: true },
+        { input: { command: 'gh pr create --fill' }, result: 'a pull request already exists' },
+      ]),
+    ];
+
+    expect(extractSessionPullRequests(turns)).toEqual([]);
+  });
+});
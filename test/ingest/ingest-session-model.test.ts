@@ -0,0 +1,97 @@
+/**
+ * Tests for the embedding model ingestion stores new vectors under.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { join } from 'node:path';
+import Database from 'better-sqlite3-multiple-ciphers';
+import { createSampleChunk, insertTestChunk } from '../storage/test-utils.js';
+
+const SOURCE = 'hash:4';
+const TARGET = 'hash:8';
+
+vi.mock('../../src/config/loader.js', async (importOriginal) => {
+  const actual = await importOriginal<Record<string, unknown>>();
+  const loadConfig = actual.loadConfig as (options: Record<string, unknown>) => unknown;
+  return {
+    ...actual,
+    loadConfig: vi.fn(() =>
+      loadConfig({
+        skipUserConfig: true,
+        skipProjectConfig: true,
+        skipEnv: true,
+        cliOverrides: { embedding: { model: TARGET, eager: true } },
+      }),
+    ),
+  };
+});
+
+import { ingestSession } from '../../src/ingest/ingest-session.js';
+import { setDb, resetDb } from '../../src/storage/db.js';
+import { runMigrations } from '../../src/storage/migrations.js';
+import {
+  resolveServingModel,
+  startEmbeddingMigration,
+  getPendingEmbeddings,
+  storeShadowEmbeddings,
+  flipEmbeddingMigration,
+} from '../../src/storage/embedding-migration.js';
+import { vectorStore, indexVectorStore } from '../../src/storage/vector-store.js';
+import { getChunksBySession } from '../../src/storage/chunk-store.js';
+import { Embedder } from '../../src/models/embedder.js';
+import { getModel } from '../../src/models/model-registry.js';
+
+const FIXTURE = join(import.meta.dirname, '..', 'fixtures', 'sample-session.jsonl');
+
+describe('ingestSession embedding model', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    runMigrations(db);
+    setDb(db);
+    vectorStore.reset();
+    indexVectorStore.reset();
+  });
+
+  afterEach(() => {
+    vectorStore.reset();
+    indexVectorStore.reset();
+    db.close();
+    resetDb();
+  });
+
+  it('embeds new sessions with the configured model once a migration has flipped', async () => {
+    insertTestChunk(db, createSampleChunk({ id: 'old' }));
+    vectorStore.setModelId(SOURCE);
+    await vectorStore.insert('old', [1, 0, 0, 0]);
+    await indexVectorStore.count();
+    startEmbeddingMigration(SOURCE, TARGET);
+    storeShadowEmbeddings(
+      TARGET,
+      getPendingEmbeddings(TARGET, 100).map((p) => ({
+        table: p.table,
+        id: p.id,
+        embedding: new Array(8).fill(0.5),
+      })),
+    );
+    flipEmbeddingMigration(TARGET);
+
+    const result = await ingestSession(FIXTURE, {
+      linkCrossSessions: false,
+      processSubAgents: false,
+      useEmbeddingCache: false,
+    });
+    expect(result.chunkCount).toBeGreaterThan(0);
+
+    const [chunk] = getChunksBySession(result.sessionId);
+    const embedder = new Embedder();
+    await embedder.load(getModel(TARGET));
+    const { embedding } = await embedder.embed(chunk.content, true);
+    await embedder.dispose();
+
+    vectorStore.setModelId(resolveServingModel(TARGET));
+    const hits = await vectorStore.search(embedding, 10);
+    expect(hits.map((hit) => hit.id)).toContain(chunk.id);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Tests for user-authored notes stored as pinned chunks.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type Database from 'better-sqlite3-multiple-ciphers';
+import { createTestDb } from '../storage/test-utils.js';
+import { setDb, resetDb } from '../../src/storage/db.js';
+
+const mockEmbed = vi.fn(async () => ({ embedding: [0.1, 0.2, 0.3] }));
+
+vi.mock('../../src/retrieval/search-assembler.js', () => ({
+  getEmbedder: vi.fn(async () => ({ embed: mockEmbed })),
+}));
+
+vi.mock('../../src/storage/vector-store.js', () => ({
+  vectorStore: { setModelId: vi.fn(), insert: vi.fn(async () => {}) },
+  indexVectorStore: { setModelId: vi.fn(), insert: vi.fn(async () => {}) },
+}));
+
+vi.mock('../../src/storage/index-entry-store.js', () => ({
+  insertIndexEntries: vi.fn(() => ['entry-1']),
+  deleteIndexEntry: vi.fn(async () => true),
+}));
+
+vi.mock('../../src/config/memory-config.js', () => ({
+  getConfig: vi.fn(() => ({ semanticIndex: { enabled: true } })),
+}));
+
+vi.mock('../../src/config/loader.js', () => ({
+  loadConfig: vi.fn(() => ({})),
+  toRuntimeConfig: vi.fn(() => ({ embeddingModel: 'jina-small' })),
+}));
+
+import { storeNote, parseTags, NOTE_SESSION_PREFIX } from '../../src/ingest/note.js';
+import { getChunkById } from '../../src/storage/chunk-store.js';
+import { KeywordStore } from '../../src/storage/keyword-store.js';
+import { vectorStore, indexVectorStore } from '../../src/storage/vector-store.js';
+import { insertIndexEntries, deleteIndexEntry } from '../../src/storage/index-entry-store.js';
+import { getConfig } from '../../src/config/memory-config.js';
+
+describe('parseTags', () => {
+  it('splits, trims, lowercases, and dedupes', () => {
+    expect(parseTags(' Auth, decision,auth,, ')).toEqual(['auth', 'decision']);
+  });
+
+  it('returns an empty list for missing input', () => {
+    expect(parseTags(undefined)).toEqual([]);
+    expect(parseTags('')).toEqual([]);
+  });
+});
+
+describe('storeNote', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db = createTestDb();
+    setDb(db);
+  });
+
+  afterEach(() => {
+    db.close();
+    resetDb();
+  });
+
+  it('stores a pinned chunk with tags in the project note session', async () => {
+    const result = await storeNote({
+      content: 'Use JWT for API auth',
+      project: 'my-app',
+      tags: ['Decision', 'auth'],
+    });
+
+    const chunk = getChunkById(result.id);
+    expect(chunk).not.toBeNull();
+    expect(chunk!.pinned).toBe(true);
+    expect(chunk!.tags).toEqual(['decision', 'auth']);
+    expect(chunk!.sessionId).toBe(`${NOTE_SESSION_PREFIX}my-app`);
+    expect(chunk!.sessionSlug).toBe('my-app');
+    expect(chunk!.content).toContain('Use JWT for API auth');
+    expect(chunk!.content).toContain('Tags: decision, auth');
+  });
+
+  it('indexes the note for keyword search', async () => {
+    const result = await storeNote({ content: 'Prefer pnpm over npm', project: 'my-app' });
+
+    const hits = new KeywordStore().search('pnpm', 10);
+    expect(hits.map((h) => h.id)).toContain(result.id);
+  });
+
+  it('embeds the note into the vector store and index', async () => {
+    const result = await storeNote({ content: 'Deploy from main only', project: 'my-app' });
+
+    expect(vectorStore.setModelId).toHaveBeenCalledWith('jina-small');
+    expect(vectorStore.insert).toHaveBeenCalledWith(result.id, [0.1, 0.2, 0.3]);
+    expect(insertIndexEntries).toHaveBeenCalledWith([
+      expect.objectContaining({ chunkIds: [result.id], sessionSlug: 'my-app' }),
+    ]);
+    expect(indexVectorStore.insert).toHaveBeenCalledWith('entry-1', [0.1, 0.2, 0.3]);
+    expect(result.indexed).toBe(true);
+  });
+
+  it('skips the index entry when the semantic index is disabled', async () => {
+    vi.mocked(getConfig).mockReturnValueOnce({
+      semanticIndex: { enabled: false },
+    } as ReturnType<typeof getConfig>);
+
+    const result = await storeNote({ content: 'No index', project: 'my-app' });
+
+    expect(insertIndexEntries).not.toHaveBeenCalled();
+    expect(result.indexed).toBe(false);
+  });
+
+  it('stores unpinned notes when asked', async () => {
+    const result = await storeNote({ content: 'Scratch', project: 'my-app', pinned: false });
+
+    expect(getChunkById(result.id)!.pinned).toBe(false);
+  });
+
+  it('stores nothing when embedding fails', async () => {
+    mockEmbed.mockRejectedValueOnce(new Error('model unavailable'));
+
+    await expect(storeNote({ content: 'Use JWT', project: 'my-app' })).rejects.toThrow(
+      'model unavailable',
+    );
+
+    const row = db.prepare('SELECT COUNT(*) as cnt FROM chunks').get() as { cnt: number };
+    expect(row.cnt).toBe(0);
+    expect(vectorStore.insert).not.toHaveBeenCalled();
+  });
+
+  it('removes the chunk when its vector cannot be stored', async () => {
+    vi.mocked(vectorStore.insert).mockRejectedValueOnce(new Error('dimension mismatch'));
+
+    await expect(storeNote({ content: 'Use JWT', project: 'my-app' })).rejects.toThrow(
+      'dimension mismatch',
+    );
+
+    const row = db.prepare('SELECT COUNT(*) as cnt FROM chunks').get() as { cnt: number };
+    expect(row.cnt).toBe(0);
+  });
+
+  it('adds no index entry when its description cannot be embedded', async () => {
+    mockEmbed
+      .mockResolvedValueOnce({ embedding: [0.1, 0.2, 0.3] })
+      .mockRejectedValueOnce(new Error('model unavailable'));
+
+    const result = await storeNote({ content: 'Use JWT', project: 'my-app' });
+
+    expect(insertIndexEntries).not.toHaveBeenCalled();
+    expect(getChunkById(result.id)).not.toBeNull();
+    expect(result.indexed).toBe(false);
+  });
+
+  it('removes the index entry when its vector cannot be stored', async () => {
+    vi.mocked(indexVectorStore.insert).mockRejectedValueOnce(new Error('dimension mismatch'));
+
+    const result = await storeNote({ content: 'Use JWT', project: 'my-app' });
+
+    expect(deleteIndexEntry).toHaveBeenCalledWith('entry-1');
+    expect(getChunkById(result.id)).not.toBeNull();
+    expect(result.indexed).toBe(false);
+  });
+
+  it('rejects empty content and project', async () => {
+    await expect(storeNote({ content: '  ', project: 'my-app' })).rejects.toThrow(
+      'Note content must not be empty',
+    );
+    await expect(storeNote({ content: 'x', project: ' ' })).rejects.toThrow(
+      'Note project must not be empty',
+    );
+  });
+});
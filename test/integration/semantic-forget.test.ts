@@ -18,6 +18,10 @@ vi.mock('../../src/storage/vector-store.js', () => ({
   },
 }));
 
+vi.mock('../../src/storage/embedding-migration.js', () => ({
+  resolveServingModel: (model: string) => model,
+}));
+
 vi.mock('../../src/storage/chunk-store.js', () => ({
   getChunkById: () => null,
 }));
@@ -49,6 +49,15 @@ vi.mock('../../src/maintenance/tasks/cleanup-vectors.js', () => ({
 vi.mock('../../src/maintenance/tasks/backfill-index.js', () => ({
   backfillIndex: vi.fn(),
 }));
+vi.mock('../../src/maintenance/tasks/enforce-retention.js', () => ({
+  enforceRetention: vi.fn(),
+}));
+vi.mock('../../src/maintenance/tasks/migrate-embeddings.js', () => ({
+  migrateEmbeddings: vi.fn(),
+}));
+vi.mock('../../src/maintenance/tasks/evict-repomap-cache.js', () => ({
+  evictRepoMapCache: vi.fn(),
+}));
 
 import {
   MAINTENANCE_TASKS,
@@ -61,8 +70,8 @@ import {
 } from '../../src/maintenance/scheduler.js';
 
 describe('MAINTENANCE_TASKS', () => {
-  it('has exactly 5 tasks', () => {
-    expect(MAINTENANCE_TASKS).toHaveLength(5);
+  it('has exactly 8 tasks', () => {
+    expect(MAINTENANCE_TASKS).toHaveLength(8);
   });
 
   it('contains all expected task names', () => {
@@ -72,6 +81,9 @@ describe('MAINTENANCE_TASKS', () => {
       'update-clusters',
       'backfill-index',
       'cleanup-vectors',
+      'enforce-retention',
+      'migrate-embeddings',
+      'evict-repomap-cache',
       'vacuum',
     ]);
   });
@@ -94,6 +106,15 @@ describe('MAINTENANCE_TASKS', () => {
     }
   });
 
+  it('runs migrate-embeddings hourly so each run handles one batch', () => {
+    expect(getTask('migrate-embeddings')!.schedule).toBe('20 * * * *');
+  });
+
+  it('schedules enforce-retention after cleanup-vectors', () => {
+    expect(getTask('cleanup-vectors')!.schedule).toBe('30 3 * * *');
+    expect(getTask('enforce-retention')!.schedule).toBe('45 3 * * *');
+  });
+
   it('no tasks require API key (label refresh is handled by update-clusters)', () => {
     for (const task of MAINTENANCE_TASKS) {
       expect(task.requiresApiKey).toBe(false);
@@ -193,10 +214,10 @@ describe('runTask', () => {
 });
 
 describe('getStatus', () => {
-  it('returns status for all 5 tasks', () => {
+  it('returns status for all 8 tasks', () => {
     const status = getStatus();
 
-    expect(status).toHaveLength(5);
+    expect(status).toHaveLength(8);
   });
 
   it('each status entry has required fields', () => {
@@ -264,7 +285,7 @@ describe('runDaemon', () => {
 });
 
 describe('runAllTasks', () => {
-  it('runs all 5 tasks and returns results map', async () => {
+  it('runs all 8 tasks and returns results map', async () => {
     // Replace all handlers with simple stubs
     const originals = MAINTENANCE_TASKS.map((t) => t.handler);
     for (const task of MAINTENANCE_TASKS) {
@@ -278,7 +299,7 @@ describe('runAllTasks', () => {
     try {
       const results = await runAllTasks();
 
-      expect(results.size).toBe(5);
+      expect(results.size).toBe(8);
       for (const task of MAINTENANCE_TASKS) {
         const result = results.get(task.name);
         expect(result).toBeDefined();
@@ -314,11 +335,11 @@ describe('runAllTasks', () => {
     try {
       const results = await runAllTasks();
 
-      expect(results.size).toBe(5);
+      expect(results.size).toBe(8);
       expect(results.get('update-clusters')!.success).toBe(false);
       expect(results.get('scan-projects')!.success).toBe(true);
       expect(results.get('vacuum')!.success).toBe(true);
-      expect(callOrder).toHaveLength(5);
+      expect(callOrder).toHaveLength(8);
     } finally {
       MAINTENANCE_TASKS.forEach((t, i) => {
         t.handler = originals[i];
@@ -10,6 +10,14 @@ import { scanProjects } from '../../src/maintenance/tasks/scan-projects.js';
 import { updateClusters } from '../../src/maintenance/tasks/update-clusters.js';
 import { vacuum } from '../../src/maintenance/tasks/vacuum.js';
 import { cleanupVectors } from '../../src/maintenance/tasks/cleanup-vectors.js';
+import { enforceRetention } from '../../src/maintenance/tasks/enforce-retention.js';
+import {
+  migrateEmbeddings,
+  type MigrateEmbeddingsDeps,
+} from '../../src/maintenance/tasks/migrate-embeddings.js';
+import { evictRepoMapCache } from '../../src/maintenance/tasks/evict-repomap-cache.js';
+import type { RetentionPlan } from '../../src/storage/retention.js';
+import type { EmbeddingMigrationStatus } from '../../src/storage/embedding-migration.js';
 
 describe('scanProjects', () => {
   it('returns success when projects directory does not exist', async () => {
@@ -209,3 +217,247 @@ describe('cleanupVectors', () => {
     expect(cleanupExpired).toHaveBeenCalledWith(45);
   });
 });
+
+describe('enforceRetention', () => {
+  const limits = { maxAgeDays: 90, maxChunks: 0, keepRetrievedWithinDays: 30 };
+  const plan: RetentionPlan = {
+    projects: [
+      {
+        project: 'app',
+        limits,
+        totalChunks: 10,
+        protectedChunks: 2,
+        byAge: 3,
+        byCount: 0,
+        bySize: 0,
+      },
+      {
+        project: 'lib',
+        limits,
+        totalChunks: 4,
+        protectedChunks: 0,
+        byAge: 0,
+        byCount: 0,
+        bySize: 0,
+      },
+    ],
+    chunkIds: ['a', 'b', 'c'],
+    dbSizeBytes: 1024,
+    maxDbSizeBytes: 0,
+  };
+  const pruned = {
+    chunksDeleted: 3,
+    vectorsDeleted: 3,
+    indexEntriesDeleted: 1,
+    edgesDeleted: 0,
+    clustersDeleted: 0,
+  };
+
+  it('reports the plan without pruning in dry-run mode', async () => {
+    const pruneChunks = vi.fn();
+
+    const result = await enforceRetention({ planRetention: () => plan, pruneChunks, dryRun: true });
+
+    expect(result.success).toBe(true);
+    expect(result.message).toBe('Would prune 3 chunks across 1 projects (dry run)');
+    expect(result.details).toMatchObject({ dryRun: true, plannedChunks: 3 });
+    expect(pruneChunks).not.toHaveBeenCalled();
+  });
+
+  it('prunes planned chunks when not a dry run', async () => {
+    const pruneChunks = vi.fn().mockResolvedValue(pruned);
+
+    const result = await enforceRetention({
+      planRetention: () => plan,
+      pruneChunks,
+      dryRun: false,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.message).toContain('Pruned 3 chunks across 1 projects');
+    expect(result.details).toMatchObject({ dryRun: false, chunksDeleted: 3 });
+    expect(pruneChunks).toHaveBeenCalledWith(['a', 'b', 'c']);
+  });
+
+  it('skips pruning when nothing exceeds the limits', async () => {
+    const pruneChunks = vi.fn();
+
+    const result = await enforceRetention({
+      planRetention: () => ({ ...plan, chunkIds: [] }),
+      pruneChunks,
+      dryRun: false,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.message).toBe('No chunks exceed retention limits');
+    expect(pruneChunks).not.toHaveBeenCalled();
+  });
+
+  it('returns failure when pruning throws', async () => {
+    const pruneChunks = vi.fn().mockRejectedValue(new Error('database is locked'));
+
+    const result = await enforceRetention({
+      planRetention: () => plan,
+      pruneChunks,
+      dryRun: false,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('database is locked');
+  });
+});
+
+describe('migrateEmbeddings', () => {
+  function status(done: number, total: number): EmbeddingMigrationStatus {
+    return {
+      sourceModel: 'jina-small',
+      targetModel: 'nomic-v1.5',
+      startedAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+      total,
+      done,
+      coverage: total === 0 ? 1 : done / total,
+      recall: null,
+      flippedAt: null,
+    };
+  }
+
+  function deps(overrides: Partial<MigrateEmbeddingsDeps> = {}): MigrateEmbeddingsDeps {
+    return {
+      configuredModel: 'nomic-v1.5',
+      resolveServingModel: () => 'jina-small',
+      startMigration: vi.fn(),
+      abandonMigration: vi.fn().mockReturnValue(false),
+      getStatus: () => status(2, 10),
+      getPending: () => [
+        { table: 'vectors', id: 'a', text: 'alpha' },
+        { table: 'index_vectors', id: 'e', text: 'entry' },
+      ],
+      createEmbedder: vi.fn().mockResolvedValue({
+        embedTexts: async (texts: string[]) => texts.map(() => [0.1, 0.2]),
+        dispose: vi.fn().mockResolvedValue(undefined),
+      }),
+      storeShadow: vi.fn(),
+      sampleProbes: () => [{ queryChunkId: 'a', adjacentChunkId: 'b' }],
+      compareRecall: vi.fn().mockReturnValue({ k: 10, sampledQueries: 1, source: 0.5, target: 1 }),
+      flip: vi
+        .fn()
+        .mockReturnValue({ vectorsFlipped: 9, indexVectorsFlipped: 1, orphansDropped: 0 }),
+      batchSize: 2,
+      recallK: 10,
+      ...overrides,
+    };
+  }
+
+  it('does nothing when the configured model is serving', async () => {
+    const d = deps({ resolveServingModel: (m) => m });
+
+    const result = await migrateEmbeddings(d);
+
+    expect(result.success).toBe(true);
+    expect(result.message).toBe('No embedding migration pending');
+    expect(d.startMigration).not.toHaveBeenCalled();
+  });
+
+  it('discards a half-built migration when the model was switched back', async () => {
+    const d = deps({
+      resolveServingModel: (m) => m,
+      abandonMigration: vi.fn().mockReturnValue(true),
+    });
+
+    const result = await migrateEmbeddings(d);
+
+    expect(result.message).toBe('Discarded unfinished embedding migration (nomic-v1.5 is serving)');
+  });
+
+  it('embeds one batch into the shadow tables and keeps serving the source', async () => {
+    const d = deps();
+
+    const result = await migrateEmbeddings(d);
+
+    expect(d.startMigration).toHaveBeenCalledWith('jina-small', 'nomic-v1.5');
+    expect(d.createEmbedder).toHaveBeenCalledWith('nomic-v1.5');
+    expect(d.storeShadow).toHaveBeenCalledWith('nomic-v1.5', [
+      { table: 'vectors', id: 'a', embedding: [0.1, 0.2] },
+      { table: 'index_vectors', id: 'e', embedding: [0.1, 0.2] },
+    ]);
+    expect(d.flip).not.toHaveBeenCalled();
+    expect(result.message).toBe(
+      'Migrating jina-small → nomic-v1.5: 2/10 vectors (20%), still serving jina-small',
+    );
+  });
+
+  it('compares recall and flips once coverage reaches 100%', async () => {
+    const d = deps({ getPending: () => [], getStatus: () => status(10, 10) });
+
+    const result = await migrateEmbeddings(d);
+
+    expect(d.createEmbedder).not.toHaveBeenCalled();
+    expect(d.compareRecall).toHaveBeenCalledWith(
+      'nomic-v1.5',
+      [{ queryChunkId: 'a', adjacentChunkId: 'b' }],
+      10,
+    );
+    expect(d.flip).toHaveBeenCalledWith('nomic-v1.5');
+    expect(result.message).toBe(
+      'Flipped to nomic-v1.5: 9 vectors, 1 index vectors; recall@10 0.50 → 1.00 over 1 queries',
+    );
+  });
+
+  it('flips without a comparison when no probes can be sampled', async () => {
+    const d = deps({ getPending: () => [], getStatus: () => status(0, 0), sampleProbes: () => [] });
+
+    const result = await migrateEmbeddings(d);
+
+    expect(d.compareRecall).not.toHaveBeenCalled();
+    expect(result.message).toBe('Flipped to nomic-v1.5: 9 vectors, 1 index vectors');
+  });
+
+  it('returns failure and disposes the embedder when embedding throws', async () => {
+    const dispose = vi.fn().mockResolvedValue(undefined);
+    const d = deps({
+      createEmbedder: vi.fn().mockResolvedValue({
+        embedTexts: vi.fn().mockRejectedValue(new Error('connection refused')),
+        dispose,
+      }),
+    });
+
+    const result = await migrateEmbeddings(d);
+
+    expect(result.success).toBe(false);
+    expect(result.message).toBe('Embedding migration failed: connection refused');
+    expect(dispose).toHaveBeenCalled();
+    expect(d.storeShadow).not.toHaveBeenCalled();
+  });
+});
+
+describe('evictRepoMapCache', () => {
+  it('evicts only projects missing from disk', async () => {
+    const evictProject = vi.fn((path: string) => (path === '/gone/a' ? 120 : 30));
+
+    const result = await evictRepoMapCache({
+      listCachedProjects: () => ['/gone/a', '/home/me/app', '/gone/b'],
+      projectExists: (path) => path === '/home/me/app',
+      evictProject,
+    });
+
+    expect(result.success).toBe(true);
+    expect(evictProject).toHaveBeenCalledTimes(2);
+    expect(evictProject).not.toHaveBeenCalledWith('/home/me/app');
+    expect(result.message).toBe('Evicted repo map cache for 2 missing projects (150 files)');
+    expect(result.details).toEqual({ projectsEvicted: ['/gone/a', '/gone/b'], filesEvicted: 150 });
+  });
+
+  it('returns failure when the cache cannot be listed', async () => {
+    const result = await evictRepoMapCache({
+      listCachedProjects: () => {
+        throw new Error('database is locked');
+      },
+      projectExists: () => true,
+      evictProject: vi.fn(),
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('database is locked');
+  });
+});
@@ -0,0 +1,356 @@
+/**
+ * Tests for the MCP streamable HTTP transport.
+ *
+ * Starts the transport on an ephemeral port with heavy dependencies mocked
+ * and drives it with fetch. Covers bearer auth, session lifecycle,
+ * JSON/SSE responses, notifications, and token resolution.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  lstatSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  symlinkSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+vi.mock('../../src/mcp/tools.js', () => {
+  const fakeTool = {
+    name: 'search',
+    description: 'Search memory',
+    inputSchema: { type: 'object', properties: {}, required: [] },
+    handler: vi.fn(async () => 'search result'),
+  };
+  const fakeTools = [fakeTool];
+  return {
+    tools: fakeTools,
+    getTool: vi.fn((name: string) => fakeTools.find((t) => t.name === name)),
+  };
+});
+
+vi.mock('../../src/storage/db.js', () => ({
+  getDb: vi.fn(),
+  closeDb: vi.fn(),
+}));
+
+vi.mock('../../src/config/bootstrap.js', () => ({
+  bootstrap: vi.fn(),
+}));
+
+vi.mock('../../src/retrieval/context-assembler.js', () => ({
+  disposeRetrieval: vi.fn(async () => {}),
+}));
+
+vi.mock('../../src/utils/logger.js', () => ({
+  createLogger: vi.fn(() => ({ debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() })),
+}));
+
+vi.mock('../../src/storage/chunk-store.js', () => ({
+  getChunkCount: vi.fn(() => 0),
+  getIngestionWatermark: vi.fn(() => 0),
+  getSessionsIngestedAfter: vi.fn(() => []),
+}));
+vi.mock('../../src/storage/edge-store.js', () => ({ getEdgeCount: vi.fn(() => 0) }));
+vi.mock('../../src/storage/cluster-store.js', () => ({ getClusterCount: vi.fn(() => 0) }));
+
+import {
+  startHttpTransport,
+  resolveHttpAuthToken,
+  writeHttpTokenFile,
+  HTTP_TOKEN_KEY,
+  type HttpTransport,
+} from '../../src/mcp/http-transport.js';
+import type { SecretStore } from '../../src/utils/secret-store.js';
+import { getIngestionWatermark, getSessionsIngestedAfter } from '../../src/storage/chunk-store.js';
+
+const TOKEN = 'test-token';
+
+function rpc(method: string, id?: number, params?: Record<string, unknown>) {
+  return {
+    jsonrpc: '2.0',
+    method,
+    ...(id !== undefined ? { id } : {}),
+    ...(params ? { params } : {}),
+  };
+}
+
+describe('HTTP transport', () => {
+  let transport: HttpTransport;
+  let url: string;
+
+  async function post(body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+    return fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        Authorization: `Bearer ${TOKEN}`,
+        ...headers,
+      },
+      body: JSON.stringify(body),
+    });
+  }
+
+  async function openSession(): Promise<string> {
+    const res = await post(rpc('initialize', 1));
+    return res.headers.get('mcp-session-id')!;
+  }
+
+  beforeEach(async () => {
+    vi.mocked(getIngestionWatermark).mockReturnValue(0);
+    transport = await startHttpTransport({
+      port: 0,
+      authToken: TOKEN,
+      serverConfig: { resourcePollIntervalMs: 20 },
+    });
+    url = `http://127.0.0.1:${transport.port}/mcp`;
+  });
+
+  afterEach(async () => {
+    await transport.close();
+  });
+
+  it('rejects requests without a bearer token', async () => {
+    const res = await post(rpc('initialize', 1), { Authorization: '' });
+    expect(res.status).toBe(401);
+    expect(res.headers.get('www-authenticate')).toBe('Bearer');
+  });
+
+  it('rejects requests with the wrong token', async () => {
+    const res = await post(rpc('initialize', 1), { Authorization: 'Bearer nope' });
+    expect(res.status).toBe(401);
+  });
+
+  it('rejects non-local browser origins', async () => {
+    const res = await post(rpc('initialize', 1), { Origin: 'https://evil.example' });
+    expect(res.status).toBe(403);
+  });
+
+  it('issues a session id on initialize', async () => {
+    const res = await post(rpc('initialize', 1, { protocolVersion: '2025-03-26' }));
+    expect(res.status).toBe(200);
+    expect(res.headers.get('mcp-session-id')).toBeTruthy();
+
+    const body = await res.json();
+    expect(body.result.serverInfo.name).toBe('causantic');
+    expect(body.result.protocolVersion).toBe('2025-03-26');
+    expect(transport.sessionCount()).toBe(1);
+  });
+
+  it('requires a session for non-initialize requests', async () => {
+    const res = await post(rpc('tools/list', 2));
+    expect(res.status).toBe(400);
+  });
+
+  it('returns 404 for unknown sessions', async () => {
+    const res = await post(rpc('tools/list', 2), { 'Mcp-Session-Id': 'missing' });
+    expect(res.status).toBe(404);
+  });
+
+  it('calls tools without _auth once the bearer token is verified', async () => {
+    const sessionId = await openSession();
+    const res = await post(rpc('tools/call', 2, { name: 'search', arguments: { query: 'x' } }), {
+      'Mcp-Session-Id': sessionId,
+    });
+
+    const body = await res.json();
+    expect(body.error).toBeUndefined();
+    expect(body.result.content[0].text).toBe('search result');
+  });
+
+  it('keeps sessions isolated', async () => {
+    const a = await openSession();
+    const b = await openSession();
+    expect(a).not.toBe(b);
+    expect(transport.sessionCount()).toBe(2);
+  });
+
+  it('answers notifications with 202', async () => {
+    const sessionId = await openSession();
+    const res = await post(rpc('notifications/initialized'), { 'Mcp-Session-Id': sessionId });
+    expect(res.status).toBe(202);
+  });
+
+  it('handles batches', async () => {
+    const sessionId = await openSession();
+    const res = await post([rpc('ping', 2), rpc('tools/list', 3)], {
+      'Mcp-Session-Id': sessionId,
+    });
+
+    const body = await res.json();
+    expect(body).toHaveLength(2);
+    expect(body.map((r: { id: number }) => r.id)).toEqual([2, 3]);
+  });
+
+  it('streams responses as SSE when the client only accepts event streams', async () => {
+    const sessionId = await openSession();
+    const res = await post(rpc('ping', 2), {
+      'Mcp-Session-Id': sessionId,
+      Accept: 'text/event-stream',
+    });
+
+    expect(res.headers.get('content-type')).toContain('text/event-stream');
+    const text = await res.text();
+    expect(text).toContain('event: message');
+    expect(JSON.parse(text.split('data: ')[1]).result.pong).toBe(true);
+  });
+
+  it('returns a parse error for malformed JSON', async () => {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${TOKEN}`, 'Content-Type': 'application/json' },
+      body: '{not json',
+    });
+    expect(res.status).toBe(400);
+    expect((await res.json()).error.code).toBe(-32700);
+  });
+
+  it('ends sessions on DELETE', async () => {
+    const sessionId = await openSession();
+    const res = await fetch(url, {
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${TOKEN}`, 'Mcp-Session-Id': sessionId },
+    });
+
+    expect(res.status).toBe(204);
+    expect(transport.sessionCount()).toBe(0);
+  });
+
+  it('returns 404 for other paths', async () => {
+    const res = await fetch(`http://127.0.0.1:${transport.port}/other`, {
+      headers: { Authorization: `Bearer ${TOKEN}` },
+    });
+    expect(res.status).toBe(404);
+  });
+
+  it('notify reports false without an open stream', async () => {
+    const sessionId = await openSession();
+    expect(transport.notify(sessionId, { method: 'notifications/test' })).toBe(false);
+  });
+
+  it('streams resource notifications when sessions are ingested', async () => {
+    const sessionId = await openSession();
+    await post(rpc('notifications/initialized'), { 'Mcp-Session-Id': sessionId });
+    await post(rpc('resources/subscribe', 2, { uri: 'causantic://session/s9' }), {
+      'Mcp-Session-Id': sessionId,
+    });
+    const stream = await fetch(url, {
+      headers: { Authorization: `Bearer ${TOKEN}`, 'Mcp-Session-Id': sessionId },
+    });
+    const reader = stream.body!.getReader();
+    await reader.read(); // ': connected'
+
+    vi.mocked(getIngestionWatermark).mockReturnValue(7);
+    vi.mocked(getSessionsIngestedAfter).mockReturnValue([
+      { sessionId: 's9', sessionSlug: 'my-app' },
+    ]);
+
+    let text = '';
+    while (!text.includes('notifications/resources/updated')) {
+      const { value } = await reader.read();
+      text += new TextDecoder().decode(value);
+    }
+    await reader.cancel();
+
+    const messages = text
+      .split('data: ')
+      .slice(1)
+      .map((data) => JSON.parse(data.split('\n')[0]));
+    expect(messages).toEqual([
+      { jsonrpc: '2.0', method: 'notifications/resources/list_changed' },
+      {
+        jsonrpc: '2.0',
+        method: 'notifications/resources/updated',
+        params: { uri: 'causantic://session/s9' },
+      },
+    ]);
+  });
+});
+
+describe('resolveHttpAuthToken', () => {
+  const original = process.env.CAUSANTIC_MCP_AUTH_TOKEN;
+
+  function memoryStore(initial: Record<string, string> = {}): SecretStore {
+    const values = new Map(Object.entries(initial));
+    return {
+      type: 'memory',
+      isAvailable: () => true,
+      get: async (key) => values.get(key) ?? null,
+      set: async (key, value) => {
+        values.set(key, value);
+      },
+      delete: async (key) => values.delete(key),
+    };
+  }
+
+  beforeEach(() => {
+    delete process.env.CAUSANTIC_MCP_AUTH_TOKEN;
+  });
+
+  afterEach(() => {
+    if (original === undefined) delete process.env.CAUSANTIC_MCP_AUTH_TOKEN;
+    else process.env.CAUSANTIC_MCP_AUTH_TOKEN = original;
+  });
+
+  it('prefers the environment variable', async () => {
+    process.env.CAUSANTIC_MCP_AUTH_TOKEN = 'from-env';
+    const result = await resolveHttpAuthToken(memoryStore({ [HTTP_TOKEN_KEY]: 'stored' }));
+    expect(result).toEqual({ token: 'from-env', generated: false });
+  });
+
+  it('reads an existing token from the secret store', async () => {
+    const result = await resolveHttpAuthToken(memoryStore({ [HTTP_TOKEN_KEY]: 'stored' }));
+    expect(result).toEqual({ token: 'stored', generated: false });
+  });
+
+  it('generates and saves a token when none exists', async () => {
+    const store = memoryStore();
+    const result = await resolveHttpAuthToken(store);
+
+    expect(result.generated).toBe(true);
+    expect(result.token).toMatch(/^[0-9a-f]{64}$/);
+    expect(await store.get(HTTP_TOKEN_KEY)).toBe(result.token);
+  });
+});
+
+describe('writeHttpTokenFile', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'causantic-token-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes the token to a file only its owner can read', () => {
+    const path = join(dir, 'nested', 'mcp-token');
+    writeFileSync(join(dir, 'existing'), 'old', { mode: 0o644 });
+
+    expect(writeHttpTokenFile('secret-token', path)).toBe(path);
+    expect(readFileSync(path, 'utf-8')).toBe('secret-token\n');
+    expect(statSync(path).mode & 0o777).toBe(0o600);
+
+    writeHttpTokenFile('rotated', join(dir, 'existing'));
+    expect(readFileSync(join(dir, 'existing'), 'utf-8')).toBe('rotated\n');
+    expect(statSync(join(dir, 'existing')).mode & 0o777).toBe(0o600);
+  });
+
+  it('replaces a symlink instead of writing through it', () => {
+    const target = join(dir, 'target');
+    writeFileSync(target, 'untouched', { mode: 0o644 });
+    symlinkSync(target, join(dir, 'mcp-token'));
+
+    writeHttpTokenFile('secret-token', join(dir, 'mcp-token'));
+
+    expect(readFileSync(target, 'utf-8')).toBe('untouched');
+    expect(lstatSync(join(dir, 'mcp-token')).isSymbolicLink()).toBe(false);
+    expect(readFileSync(join(dir, 'mcp-token'), 'utf-8')).toBe('secret-token\n');
+  });
+});
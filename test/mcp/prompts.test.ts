@@ -0,0 +1,124 @@
+/**
+ * Tests for MCP prompt definitions.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../src/retrieval/context-assembler.js', () => ({
+  recall: vi.fn(),
+}));
+
+vi.mock('../../src/mcp/resources.js', async (importOriginal) => ({
+  ...(await importOriginal<Record<string, unknown>>()),
+  readResource: vi.fn(),
+}));
+
+vi.mock('../../src/config/memory-config.js', () => ({
+  getConfig: vi.fn(() => ({ mcpMaxResponseTokens: 2000 })),
+}));
+
+import {
+  prompts,
+  getPrompt,
+  resumeProjectPrompt,
+  investigateErrorPrompt,
+} from '../../src/mcp/prompts.js';
+import { recall } from '../../src/retrieval/context-assembler.js';
+import type { RetrievalResponse } from '../../src/retrieval/context-assembler.js';
+import { readResource } from '../../src/mcp/resources.js';
+
+function recallResponse(chunkCount: number, text = ''): RetrievalResponse {
+  return {
+    text,
+    tokenCount: 10,
+    chunks: Array.from({ length: chunkCount }, (_, i) => ({
+      id: `c${i}`,
+      sessionSlug: 'my-app',
+      weight: 0.5,
+      preview: '',
+    })),
+    totalConsidered: chunkCount,
+    durationMs: 1,
+  } as RetrievalResponse;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('prompts', () => {
+  it('registers resume-project and investigate-error', () => {
+    expect(prompts.map((p) => p.name)).toEqual(['resume-project', 'investigate-error']);
+    expect(getPrompt('investigate-error')).toBe(investigateErrorPrompt);
+    expect(getPrompt('nonexistent')).toBeUndefined();
+  });
+
+  describe('resume-project', () => {
+    it('embeds the project briefing resource', async () => {
+      const briefing = {
+        uri: 'causantic://project/my-app/briefing',
+        mimeType: 'text/markdown',
+        text: '## Recent sessions',
+      };
+      vi.mocked(readResource).mockResolvedValue(briefing);
+
+      const result = await resumeProjectPrompt.handler({ project: 'my-app' });
+
+      expect(readResource).toHaveBeenCalledWith('causantic://project/my-app/briefing');
+      expect(result.description).toBe('Resume work on my-app');
+      expect(result.messages[0].content).toEqual({ type: 'resource', resource: briefing });
+      expect(result.messages[1].content).toMatchObject({ type: 'text' });
+    });
+
+    it('requires a project', async () => {
+      await expect(resumeProjectPrompt.handler({ project: '  ' })).rejects.toThrow(
+        'Missing required argument: project',
+      );
+    });
+  });
+
+  describe('investigate-error', () => {
+    it('embeds recalled context about the error', async () => {
+      vi.mocked(recall).mockResolvedValue(recallResponse(2, 'Fixed by raising the pool size'));
+
+      const result = await investigateErrorPrompt.handler({
+        error: 'ECONNRESET in db pool\n  at connect',
+        project: 'my-app',
+      });
+
+      expect(recall).toHaveBeenCalledWith('ECONNRESET in db pool\n  at connect', {
+        maxTokens: 2000,
+        projectFilter: 'my-app',
+      });
+      expect(result.description).toBe('Investigate: ECONNRESET in db pool');
+      const content = result.messages[0].content;
+      expect(content.type).toBe('text');
+      if (content.type === 'text') {
+        expect(content.text).toContain('in my-app');
+        expect(content.text).toContain('Past context (2 chunks)');
+        expect(content.text).toContain('Fixed by raising the pool size');
+      }
+    });
+
+    it('says when memory has nothing on the error', async () => {
+      vi.mocked(recall).mockResolvedValue(recallResponse(0));
+
+      const result = await investigateErrorPrompt.handler({ error: 'Segfault' });
+
+      expect(recall).toHaveBeenCalledWith('Segfault', {
+        maxTokens: 2000,
+        projectFilter: undefined,
+      });
+      const content = result.messages[0].content;
+      if (content.type === 'text') {
+        expect(content.text).toContain('No past context about this error was found in memory.');
+      }
+    });
+
+    it('requires an error', async () => {
+      await expect(investigateErrorPrompt.handler({})).rejects.toThrow(
+        'Missing required argument: error',
+      );
+    });
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * Tests for MCP resources: URI parsing, listing, reading and ingestion polling.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type Database from 'better-sqlite3-multiple-ciphers';
+import {
+  createTestDb,
+  setupTestDb,
+  teardownTestDb,
+  createSampleChunk,
+  insertTestChunk,
+} from '../storage/test-utils.js';
+
+vi.mock('../../src/config/memory-config.js', async (importOriginal) => ({
+  ...(await importOriginal<Record<string, unknown>>()),
+  getConfig: vi.fn(),
+}));
+
+vi.mock('../../src/repomap/index.js', async (importOriginal) => ({
+  ...(await importOriginal<Record<string, unknown>>()),
+  buildRepoMap: vi.fn(),
+  getStructureDiff: vi.fn(async () => null),
+}));
+
+import {
+  parseResourceUri,
+  resourceUri,
+  listResources,
+  readResource,
+  urisAffectedBy,
+  watchIngestion,
+  subscribeToIngestion,
+} from '../../src/mcp/resources.js';
+import { getConfig } from '../../src/config/memory-config.js';
+import type { MemoryConfig } from '../../src/config/memory-config.js';
+import { buildRepoMap } from '../../src/repomap/index.js';
+import type { RepoMapResult } from '../../src/repomap/index.js';
+import { invalidateProjectsCache } from '../../src/storage/chunk-store.js';
+import { upsertSessionState } from '../../src/storage/session-state-store.js';
+
+let db: Database.Database;
+
+function chunk(
+  id: string,
+  sessionId: string,
+  startTime: string,
+  project = 'my-app',
+  projectPath: string | null = '/work/my-app',
+): void {
+  insertTestChunk(
+    db,
+    createSampleChunk({
+      id,
+      sessionId,
+      sessionSlug: project,
+      startTime,
+      endTime: startTime,
+      content: `Content of ${id}`,
+      projectPath,
+    }),
+  );
+}
+
+function setRepomapEnabled(enabled: boolean): void {
+  vi.mocked(getConfig).mockReturnValue({
+    mcpMaxResponseTokens: 2000,
+    repomap: { enabled, maxTokens: 512 },
+  } as unknown as MemoryConfig);
+}
+
+beforeEach(() => {
+  db = createTestDb();
+  setupTestDb(db);
+  invalidateProjectsCache();
+  setRepomapEnabled(true);
+
+  chunk('c1', 'session-aaaaaaaa', '2026-03-01T10:00:00Z');
+  chunk('c2', 'session-aaaaaaaa', '2026-03-01T10:05:00Z');
+  chunk('c3', 'session-bbbbbbbb', '2026-03-02T09:00:00Z');
+  chunk('c4', 'session-cccccccc', '2026-03-03T09:00:00Z', 'notes', null);
+});
+
+afterEach(() => {
+  invalidateProjectsCache();
+  teardownTestDb(db);
+});
+
+describe('resource URIs', () => {
+  it('round-trips every resource kind', () => {
+    const refs = [
+      { kind: 'briefing', project: 'my-app' },
+      { kind: 'session', sessionId: 'session-aaaaaaaa' },
+      { kind: 'chunk', chunkId: 'c1' },
+      { kind: 'repomap', project: 'org/app name' },
+    ] as const;
+
+    for (const ref of refs) {
+      expect(parseResourceUri(resourceUri(ref))).toEqual(ref);
+    }
+    expect(resourceUri({ kind: 'repomap', project: 'org/app name' })).toBe(
+      'causantic://repomap/org%2Fapp%20name',
+    );
+  });
+
+  it('rejects URIs that name no resource', () => {
+    expect(parseResourceUri('file:///tmp/x')).toBeNull();
+    expect(parseResourceUri('causantic://project/my-app')).toBeNull();
+    expect(parseResourceUri('causantic://session/')).toBeNull();
+    expect(parseResourceUri('causantic://chunk/c1/extra')).toBeNull();
+    expect(parseResourceUri('causantic://cluster/k1')).toBeNull();
+    expect(parseResourceUri('causantic://chunk/%E0%A4%A')).toBeNull();
+  });
+
+  it('lists the URIs a newly ingested session changes', () => {
+    expect(urisAffectedBy({ sessionId: 's1', sessionSlug: 'my-app' })).toEqual([
+      'causantic://session/s1',
+      'causantic://project/my-app/briefing',
+    ]);
+  });
+});
+
+describe('listResources', () => {
+  it('lists briefings, repo maps and recent sessions per project', () => {
+    const uris = listResources().map((r) => r.uri);
+
+    expect(uris).toContain('causantic://project/my-app/briefing');
+    expect(uris).toContain('causantic://repomap/my-app');
+    expect(uris).toContain('causantic://session/session-aaaaaaaa');
+    expect(uris).toContain('causantic://session/session-bbbbbbbb');
+    expect(uris).toContain('causantic://project/notes/briefing');
+    // No recorded directory, so no repo map
+    expect(uris).not.toContain('causantic://repomap/notes');
+  });
+
+  it('omits repo maps when the repo map is disabled', () => {
+    setRepomapEnabled(false);
+
+    expect(listResources().some((r) => r.uri.startsWith('causantic://repomap/'))).toBe(false);
+  });
+});
+
+describe('readResource', () => {
+  it('reads a chunk with its provenance', async () => {
+    const contents = await readResource('causantic://chunk/c3');
+
+    expect(contents.mimeType).toBe('text/markdown');
+    expect(contents.text).toContain('# Chunk c3');
+    expect(contents.text).toContain('Session: session-bbbbbbbb');
+    expect(contents.text).toContain('Content of c3');
+  });
+
+  it('reads a session in chronological order', async () => {
+    const contents = await readResource('causantic://session/session-aaaaaaaa');
+
+    expect(contents.text).toContain('=== Session session-');
+    expect(contents.text.indexOf('Content of c1')).toBeLessThan(
+      contents.text.indexOf('Content of c2'),
+    );
+    expect(contents.text).not.toContain('Content of c3');
+  });
+
+  it('reads a project briefing', async () => {
+    setRepomapEnabled(false);
+    upsertSessionState('session-bbbbbbbb', 'my-app', '/work/my-app', '2026-03-02T10:00:00Z', {
+      filesTouched: ['/work/my-app/src/auth.ts'],
+      errors: [],
+      outcomes: ['git commit'],
+      tasks: [],
+    });
+
+    const contents = await readResource('causantic://project/my-app/briefing');
+
+    expect(contents.mimeType).toBe('text/markdown');
+    expect(contents.text).toContain('src/auth.ts');
+  });
+
+  it('omits the repo map from briefings of projects without a recorded directory', async () => {
+    vi.mocked(buildRepoMap).mockClear();
+
+    const contents = await readResource('causantic://project/notes/briefing');
+
+    expect(contents.mimeType).toBe('text/markdown');
+    expect(buildRepoMap).not.toHaveBeenCalled();
+  });
+
+  it('reads the repo map of the recorded project directory', async () => {
+    vi.mocked(buildRepoMap).mockResolvedValue({
+      text: 'src/auth.ts\n  fn login (2)',
+    } as RepoMapResult);
+
+    const contents = await readResource('causantic://repomap/my-app');
+
+    expect(buildRepoMap).toHaveBeenCalledWith('/work/my-app', { maxTokens: 512 });
+    expect(contents.text).toBe('src/auth.ts\n  fn login (2)');
+  });
+
+  it('reports missing resources as not found', async () => {
+    await expect(readResource('causantic://chunk/missing')).rejects.toMatchObject({
+      code: 'RESOURCE_NOT_FOUND',
+    });
+    await expect(readResource('causantic://session/missing')).rejects.toMatchObject({
+      code: 'RESOURCE_NOT_FOUND',
+    });
+    await expect(readResource('causantic://project/missing/briefing')).rejects.toMatchObject({
+      code: 'RESOURCE_NOT_FOUND',
+    });
+    await expect(readResource('causantic://repomap/notes')).rejects.toMatchObject({
+      code: 'RESOURCE_NOT_FOUND',
+    });
+  });
+
+  it('rejects unknown URIs', async () => {
+    await expect(readResource('causantic://cluster/k1')).rejects.toMatchObject({
+      code: 'INVALID_RESOURCE_URI',
+    });
+  });
+});
+
+describe('watchIngestion', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reports sessions that gained chunks since the last poll', () => {
+    const onIngested = vi.fn();
+    const watcher = watchIngestion(onIngested, 1000);
+
+    vi.advanceTimersByTime(1000);
+    expect(onIngested).not.toHaveBeenCalled();
+
+    chunk('c5', 'session-dddddddd', '2026-03-04T09:00:00Z');
+    chunk('c6', 'session-bbbbbbbb', '2026-03-04T09:10:00Z');
+    vi.advanceTimersByTime(1000);
+
+    expect(onIngested).toHaveBeenCalledOnce();
+    expect(onIngested).toHaveBeenCalledWith([
+      { sessionId: 'session-dddddddd', sessionSlug: 'my-app' },
+      { sessionId: 'session-bbbbbbbb', sessionSlug: 'my-app' },
+    ]);
+
+    vi.advanceTimersByTime(1000);
+    expect(onIngested).toHaveBeenCalledOnce();
+
+    watcher.stop();
+    chunk('c7', 'session-eeeeeeee', '2026-03-05T09:00:00Z');
+    vi.advanceTimersByTime(1000);
+    expect(onIngested).toHaveBeenCalledOnce();
+  });
+});
+
+describe('subscribeToIngestion', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('fans one poller out to every subscriber until the last stops', () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    const a = subscribeToIngestion(first, 1000);
+    const b = subscribeToIngestion(second, 1000);
+    expect(vi.getTimerCount()).toBe(1);
+
+    chunk('c5', 'session-dddddddd', '2026-03-04T09:00:00Z');
+    vi.advanceTimersByTime(1000);
+
+    const ingested = [{ sessionId: 'session-dddddddd', sessionSlug: 'my-app' }];
+    expect(first).toHaveBeenCalledWith(ingested);
+    expect(second).toHaveBeenCalledWith(ingested);
+
+    a.stop();
+    expect(vi.getTimerCount()).toBe(1);
+    b.stop();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
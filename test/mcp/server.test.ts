@@ -6,6 +6,7 @@
  * - Request routing to the correct handler
  * - Authentication enforcement and bypass
  * - Tool execution, unknown tools, and tool errors
+ * - Resource listing, reading and subscriptions; prompt listing and rendering
  * - Initialize response structure
  * - Ping and health check responses
  * - Shutdown behaviour
@@ -35,6 +36,49 @@ vi.mock('../../src/mcp/tools.js', () => {
   };
 });
 
+vi.mock('../../src/mcp/resources.js', () => ({
+  resourceTemplates: [
+    {
+      uriTemplate: 'causantic://chunk/{id}',
+      name: 'Chunk',
+      description: 'A chunk',
+      mimeType: 'text/markdown',
+    },
+  ],
+  listResources: vi.fn(() => [
+    {
+      uri: 'causantic://project/my-app/briefing',
+      name: 'my-app briefing',
+      mimeType: 'text/markdown',
+    },
+  ]),
+  readResource: vi.fn(),
+  parseResourceUri: vi.fn((uri: string) =>
+    uri.startsWith('causantic://') ? { kind: 'chunk', chunkId: 'x' } : null,
+  ),
+  urisAffectedBy: vi.fn((session: { sessionId: string; sessionSlug: string }) => [
+    `causantic://session/${session.sessionId}`,
+    `causantic://project/${session.sessionSlug}/briefing`,
+  ]),
+  subscribeToIngestion: vi.fn(() => ({ stop: vi.fn() })),
+}));
+
+vi.mock('../../src/mcp/prompts.js', () => {
+  const fakePrompt = {
+    name: 'resume-project',
+    description: 'Resume work on a project',
+    arguments: [{ name: 'project', description: 'Project slug', required: true }],
+    handler: vi.fn(async (args: Record<string, string>) => ({
+      description: `Resume work on ${args.project}`,
+      messages: [{ role: 'user', content: { type: 'text', text: 'briefing' } }],
+    })),
+  };
+  return {
+    prompts: [fakePrompt],
+    getPrompt: vi.fn((name: string) => (name === fakePrompt.name ? fakePrompt : undefined)),
+  };
+});
+
 vi.mock('../../src/storage/db.js', () => ({
   getDb: vi.fn(() => ({
     prepare: vi.fn(() => ({ get: vi.fn(() => ({ '1': 1 })) })),
@@ -76,6 +120,8 @@ import { McpServer } from '../../src/mcp/server.js';
 import { getTool, tools } from '../../src/mcp/tools.js';
 import { closeDb } from '../../src/storage/db.js';
 import { disposeRetrieval } from '../../src/retrieval/context-assembler.js';
+import { readResource, subscribeToIngestion } from '../../src/mcp/resources.js';
+import { RetrievalError } from '../../src/utils/errors.js';
 
 const mockGetTool = vi.mocked(getTool);
 const mockCloseDb = vi.mocked(closeDb);
@@ -154,7 +200,11 @@ describe('McpServer', () => {
       expect(res.jsonrpc).toBe('2.0');
       expect(res.id).toBe(1);
       expect(res.result.protocolVersion).toBe('2024-11-05');
-      expect(res.result.capabilities).toEqual({ tools: {} });
+      expect(res.result.capabilities).toEqual({
+        tools: {},
+        resources: { subscribe: true, listChanged: true },
+        prompts: {},
+      });
       expect(res.result.serverInfo.name).toBe('causantic');
       expect(res.result.serverInfo.version).toBeTruthy();
     });
@@ -240,11 +290,144 @@ describe('McpServer', () => {
       });
 
       expect(res.error).toBeDefined();
-      expect(res.error.code).toBe(-32002); // TOOL_ERROR
+      expect(res.error.code).toBe(-32003); // TOOL_ERROR
       expect(res.error.message).toContain('embedding service unavailable');
     });
   });
 
+  // ─── Resources ──────────────────────────────────────────────────────────
+
+  describe('resources', () => {
+    it('lists resources and templates', async () => {
+      const list = await handle(server, 'resources/list');
+      const templates = await handle(server, 'resources/templates/list');
+
+      expect(list.result.resources[0].uri).toBe('causantic://project/my-app/briefing');
+      expect(templates.result.resourceTemplates[0].uriTemplate).toBe('causantic://chunk/{id}');
+    });
+
+    it('reads a resource into a contents array', async () => {
+      vi.mocked(readResource).mockResolvedValueOnce({
+        uri: 'causantic://chunk/c1',
+        mimeType: 'text/markdown',
+        text: '# Chunk c1',
+      });
+
+      const res = await handle(server, 'resources/read', 1, { uri: 'causantic://chunk/c1' });
+
+      expect(res.result.contents).toEqual([
+        { uri: 'causantic://chunk/c1', mimeType: 'text/markdown', text: '# Chunk c1' },
+      ]);
+    });
+
+    it('returns resource-not-found for missing resources', async () => {
+      vi.mocked(readResource).mockRejectedValueOnce(
+        new RetrievalError('Unknown chunk: c9', 'RESOURCE_NOT_FOUND'),
+      );
+
+      const res = await handle(server, 'resources/read', 1, { uri: 'causantic://chunk/c9' });
+
+      expect(res.error.code).toBe(-32002);
+      expect(res.error.message).toBe('Unknown chunk: c9');
+      expect(res.error.data).toEqual({ uri: 'causantic://chunk/c9' });
+    });
+
+    it('rejects reads without a uri', async () => {
+      const res = await handle(server, 'resources/read', 1, {});
+
+      expect(res.error.code).toBe(-32602);
+    });
+
+    it('rejects subscriptions to non-causantic URIs', async () => {
+      const res = await handle(server, 'resources/subscribe', 1, { uri: 'file:///etc/hosts' });
+
+      expect(res.error.code).toBe(-32602);
+    });
+
+    const initialized = { jsonrpc: '2.0', method: 'notifications/initialized' } as const;
+
+    it('watches for ingestion only once the client is initialized', async () => {
+      vi.mocked(subscribeToIngestion).mockClear();
+      server.setNotificationListener(vi.fn());
+      expect(subscribeToIngestion).not.toHaveBeenCalled();
+
+      expect(await server.handleMessage(initialized)).toBeNull();
+
+      expect(subscribeToIngestion).toHaveBeenCalledOnce();
+    });
+
+    it('notifies list changes and subscribed resource updates on ingestion', async () => {
+      vi.mocked(subscribeToIngestion).mockClear();
+      const listener = vi.fn();
+      server.setNotificationListener(listener);
+      await server.handleMessage(initialized);
+      const onIngested = vi.mocked(subscribeToIngestion).mock.calls[0][0];
+
+      await handle(server, 'resources/subscribe', 1, { uri: 'causantic://session/s1' });
+      await handle(server, 'resources/subscribe', 2, { uri: 'causantic://session/s2' });
+      await handle(server, 'resources/unsubscribe', 3, { uri: 'causantic://session/s2' });
+      onIngested([
+        { sessionId: 's1', sessionSlug: 'my-app' },
+        { sessionId: 's2', sessionSlug: 'my-app' },
+      ]);
+
+      expect(listener.mock.calls.map(([n]) => n)).toEqual([
+        { jsonrpc: '2.0', method: 'notifications/resources/list_changed' },
+        {
+          jsonrpc: '2.0',
+          method: 'notifications/resources/updated',
+          params: { uri: 'causantic://session/s1' },
+        },
+      ]);
+    });
+
+    it('stops watching for ingestion when the listener is removed', async () => {
+      vi.mocked(subscribeToIngestion).mockClear();
+      server.setNotificationListener(vi.fn());
+      await server.handleMessage(initialized);
+      const watcher = vi.mocked(subscribeToIngestion).mock.results[0].value;
+
+      server.setNotificationListener(null);
+
+      expect(watcher.stop).toHaveBeenCalled();
+    });
+  });
+
+  // ─── Prompts ────────────────────────────────────────────────────────────
+
+  describe('prompts', () => {
+    it('lists prompts without handler functions', async () => {
+      const res = await handle(server, 'prompts/list');
+
+      expect(res.result.prompts).toEqual([
+        {
+          name: 'resume-project',
+          description: 'Resume work on a project',
+          arguments: [{ name: 'project', description: 'Project slug', required: true }],
+        },
+      ]);
+    });
+
+    it('renders a prompt with its arguments', async () => {
+      const res = await handle(server, 'prompts/get', 1, {
+        name: 'resume-project',
+        arguments: { project: 'my-app' },
+      });
+
+      expect(res.result.description).toBe('Resume work on my-app');
+      expect(res.result.messages).toHaveLength(1);
+    });
+
+    it('rejects unknown prompts and missing required arguments', async () => {
+      const unknown = await handle(server, 'prompts/get', 1, { name: 'nope' });
+      const missing = await handle(server, 'prompts/get', 2, { name: 'resume-project' });
+
+      expect(unknown.error.code).toBe(-32602);
+      expect(missing.error.code).toBe(-32602);
+      expect(missing.error.message).toBe('Missing required argument: project');
+    });
+  });
+
   // ─── Health Check ───────────────────────────────────────────────────────
 
   describe('health', () => {
@@ -6,7 +6,7 @@
  * and error handling.
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 vi.mock('../../src/retrieval/context-assembler.js', () => ({
   recall: vi.fn(),
@@ -26,6 +26,12 @@ vi.mock('../../src/storage/chunk-store.js', () => ({
   queryChunkIds: vi.fn(),
   deleteChunks: vi.fn(),
   invalidateProjectsCache: vi.fn(),
+  getPinnedChunkIds: vi.fn(() => new Set()),
+}));
+
+vi.mock('../../src/ingest/note.js', async (importOriginal) => ({
+  ...(await importOriginal<Record<string, unknown>>()),
+  storeNote: vi.fn(),
 }));
 
 vi.mock('../../src/storage/edge-store.js', () => ({
@@ -51,6 +57,23 @@ vi.mock('../../src/retrieval/session-reconstructor.js', () => ({
   formatReconstruction: vi.fn(),
 }));
 
+vi.mock('../../src/retrieval/memory-diff.js', async (importOriginal) => ({
+  ...(await importOriginal<Record<string, unknown>>()),
+  computeMemoryDiff: vi.fn(),
+}));
+
+vi.mock('../../src/retrieval/file-history.js', async (importOriginal) => ({
+  ...(await importOriginal<Record<string, unknown>>()),
+  getFileHistory: vi.fn(),
+}));
+
+vi.mock('../../src/repomap/index.js', async (importOriginal) => ({
+  ...(await importOriginal<Record<string, unknown>>()),
+  buildRepoMap: vi.fn(),
+  findSymbolMentions: vi.fn(() => []),
+  getStructureDiff: vi.fn(async () => null),
+}));
+
 vi.mock('../../src/config/memory-config.js', () => ({
   getConfig: vi.fn(() => ({ mcpMaxResponseTokens: 2000 })),
 }));
@@ -64,7 +87,25 @@ import {
   reconstructTool,
   statsTool,
   forgetTool,
+  rememberTool,
+  diffTool,
+  symbolTool,
+  repomapTool,
+  repomapDiffTool,
+  fileHistoryTool,
 } from '../../src/mcp/tools.js';
+import { computeMemoryDiff } from '../../src/retrieval/memory-diff.js';
+import { getFileHistory } from '../../src/retrieval/file-history.js';
+import {
+  buildRepoMap,
+  buildGraph,
+  findSymbolMentions,
+  getStructureDiff,
+} from '../../src/repomap/index.js';
+import type { RepoMapResult } from '../../src/repomap/index.js';
+import { getConfig } from '../../src/config/memory-config.js';
+import type { MemoryConfig } from '../../src/config/memory-config.js';
+import type { StoredChunk } from '../../src/storage/types.js';
 
 import { recall, predict } from '../../src/retrieval/context-assembler.js';
 import { searchContext, findSimilarChunkIds } from '../../src/retrieval/search-assembler.js';
@@ -76,7 +117,9 @@ import {
   queryChunkIds,
   deleteChunks,
   invalidateProjectsCache,
+  getPinnedChunkIds,
 } from '../../src/storage/chunk-store.js';
+import { storeNote } from '../../src/ingest/note.js';
 import { vectorStore } from '../../src/storage/vector-store.js';
 import { getEdgeCount } from '../../src/storage/edge-store.js';
 import { getClusterCount } from '../../src/storage/cluster-store.js';
@@ -101,6 +144,8 @@ const mockInvalidateProjectsCache = vi.mocked(invalidateProjectsCache);
 const mockVectorStoreDeletBatch = vi.mocked(vectorStore.deleteBatch);
 const mockFindSimilarChunkIds = vi.mocked(findSimilarChunkIds);
 const mockGetChunksByIds = vi.mocked(getChunksByIds);
+const mockGetPinnedChunkIds = vi.mocked(getPinnedChunkIds);
+const mockStoreNote = vi.mocked(storeNote);
 
 /** Helper to build a minimal RetrievalResponse. */
 function makeResponse(
@@ -214,6 +259,22 @@ describe('searchTool.handler', () => {
     expect(result).toBe('No relevant memory found.');
   });
 
+  it('reports filters parsed from the query', async () => {
+    mockSearchContext.mockResolvedValue({
+      ...sampleSearchResponse,
+      interpretation: {
+        searchText: 'auth fixes',
+        filters: { projects: ['api'] },
+        phrases: ['in the api project'],
+      },
+    });
+
+    const result = await searchTool.handler({ query: 'auth fixes in the api project' });
+
+    expect(result).toContain('Search results text');
+    expect(result).toContain('[Query interpreted: project=api; searched for "auth fixes"]');
+  });
+
   it('uses max_tokens override when provided', async () => {
     mockSearchContext.mockResolvedValue(sampleSearchResponse);
 
@@ -221,6 +282,121 @@ describe('searchTool.handler', () => {
 
     expect(mockSearchContext).toHaveBeenCalledWith(expect.objectContaining({ maxTokens: 500 }));
   });
+
+  it('normalizes as_of to an ISO cutoff', async () => {
+    mockSearchContext.mockResolvedValue(sampleSearchResponse);
+
+    await searchTool.handler({ query: 'test', as_of: '2025-06-01' });
+
+    expect(mockSearchContext).toHaveBeenCalledWith(
+      expect.objectContaining({ asOf: '2025-06-01T00:00:00.000Z' }),
+    );
+  });
+
+  it('rejects an unparseable as_of', async () => {
+    await expect(searchTool.handler({ query: 'test', as_of: 'last tuesday' })).rejects.toThrow(
+      'Invalid as_of date',
+    );
+    expect(mockSearchContext).not.toHaveBeenCalled();
+  });
+
+  it('passes facet filters', async () => {
+    mockSearchContext.mockResolvedValue(sampleSearchResponse);
+
+    await searchTool.handler({
+      query: 'test',
+      tools: 'Bash, Edit',
+      files: 'src/db.ts',
+      min_tool_uses: 2,
+      has_errors: true,
+      has_code: false,
+      team: 'platform',
+      spawn_depth: 0,
+    });
+
+    expect(mockSearchContext).toHaveBeenCalledWith(
+      expect.objectContaining({
+        facets: {
+          tools: ['Bash', 'Edit'],
+          files: ['src/db.ts'],
+          minToolUses: 2,
+          hasErrors: true,
+          hasCode: false,
+          team: 'platform',
+          spawnDepth: 0,
+        },
+      }),
+    );
+  });
+
+  it('rejects invalid facet values', async () => {
+    await expect(searchTool.handler({ query: 'test', min_tool_uses: -1 })).rejects.toThrow(
+      'Invalid min_tool_uses',
+    );
+    await expect(searchTool.handler({ query: 'test', has_errors: 'yes' })).rejects.toThrow(
+      'Invalid has_errors',
+    );
+    expect(mockSearchContext).not.toHaveBeenCalled();
+  });
+
+  it('returns a JSON payload with chunk provenance when format is json', async () => {
+    mockSearchContext.mockResolvedValue(sampleSearchResponse);
+    mockGetChunksByIds.mockReturnValue([
+      {
+        id: 'c1',
+        sessionId: 'session-1',
+        startTime: '2025-01-15T14:30:00Z',
+        endTime: '2025-01-15T14:35:00Z',
+        approxTokens: 180,
+        agentId: null,
+      },
+    ] as unknown as StoredChunk[]);
+
+    const result = await searchTool.handler({ query: 'auth', format: 'json' });
+    const payload = JSON.parse(result);
+
+    expect(mockGetChunksByIds).toHaveBeenCalledWith(['c1', 'c2']);
+    expect(payload).toMatchObject({
+      tool: 'search',
+      query: 'auth',
+      tokenCount: 350,
+      totalConsidered: 2,
+      text: 'Search results text',
+    });
+    expect(payload.chunks).toEqual([
+      {
+        id: 'c1',
+        sessionId: 'session-1',
+        project: 'proj',
+        score: 0.9,
+        source: 'vector',
+        startTime: '2025-01-15T14:30:00Z',
+        endTime: '2025-01-15T14:35:00Z',
+        tokens: 180,
+        agentId: null,
+        preview: 'chunk 1 preview',
+      },
+      {
+        id: 'c2',
+        sessionId: null,
+        project: 'proj',
+        score: 0.7,
+        source: 'keyword',
+        startTime: null,
+        endTime: null,
+        tokens: null,
+        agentId: null,
+        preview: 'chunk 2 preview',
+      },
+    ]);
+  });
+
+  it('rejects an unknown format', async () => {
+    await expect(searchTool.handler({ query: 'test', format: 'xml' })).rejects.toThrow(
+      'Invalid format: xml',
+    );
+    expect(mockSearchContext).not.toHaveBeenCalled();
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -275,6 +451,28 @@ describe('recallTool.handler', () => {
 
     expect(mockRecall).toHaveBeenCalledWith('test', expect.objectContaining({ maxTokens: 800 }));
   });
+
+  it('passes as_of through to recall', async () => {
+    mockRecall.mockResolvedValue(sampleResponse);
+
+    await recallTool.handler({ query: 'test', as_of: '2025-06-01T12:00:00Z' });
+
+    expect(mockRecall).toHaveBeenCalledWith(
+      'test',
+      expect.objectContaining({ asOf: '2025-06-01T12:00:00.000Z' }),
+    );
+  });
+
+  it('passes facet filters through to recall', async () => {
+    mockRecall.mockResolvedValue(sampleResponse);
+
+    await recallTool.handler({ query: 'test', tools: 'Bash', has_errors: true });
+
+    expect(mockRecall).toHaveBeenCalledWith(
+      'test',
+      expect.objectContaining({ facets: { tools: ['Bash'], hasErrors: true } }),
+    );
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -320,6 +518,17 @@ describe('predictTool.handler', () => {
     expect(mockPredict).toHaveBeenCalledWith('test', expect.objectContaining({ maxTokens: 1000 }));
   });
 
+  it('passes as_of through to predict', async () => {
+    mockPredict.mockResolvedValue(sampleResponse);
+
+    await predictTool.handler({ context: 'test', as_of: '2025-06-01' });
+
+    expect(mockPredict).toHaveBeenCalledWith(
+      'test',
+      expect.objectContaining({ asOf: '2025-06-01T00:00:00.000Z' }),
+    );
+  });
+
   it('returns "Potentially relevant context..." header for non-empty results', async () => {
     mockPredict.mockResolvedValue(sampleResponse);
 
@@ -592,6 +801,22 @@ describe('listSessionsTool.handler', () => {
     expect(result).toContain('abc12345');
     expect(result).toContain('def67890');
   });
+
+  it('returns a JSON payload when format is json', async () => {
+    mockGetSessionsForProject.mockReturnValue([
+      ...sampleSessions,
+      { ...sampleSessions[0], sessionId: 'def67890-full-id' },
+    ]);
+
+    const result = await listSessionsTool.handler({ project: 'my-app', limit: 1, format: 'json' });
+
+    expect(JSON.parse(result)).toEqual({
+      project: 'my-app',
+      totalCount: 2,
+      truncated: true,
+      sessions: sampleSessions,
+    });
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -661,6 +886,17 @@ describe('reconstructTool.handler', () => {
     });
   });
 
+  it('passes commit to reconstructSession', async () => {
+    mockReconstructSession.mockReturnValue(sampleReconstructResult);
+    mockFormatReconstruction.mockReturnValue('output');
+
+    await reconstructTool.handler({ project: 'my-app', commit: '1a2b3c4' });
+
+    expect(mockReconstructSession).toHaveBeenCalledWith(
+      expect.objectContaining({ project: 'my-app', commit: '1a2b3c4' }),
+    );
+  });
+
   it('defaults keep_newest to true when not provided', async () => {
     mockReconstructSession.mockReturnValue(sampleReconstructResult);
     mockFormatReconstruction.mockReturnValue('output');
@@ -703,6 +939,54 @@ describe('reconstructTool.handler', () => {
 
     expect(result).toBe('Error: unexpected string error');
   });
+
+  it('returns a JSON payload with chunk content when format is json', async () => {
+    mockReconstructSession.mockReturnValue({
+      ...sampleReconstructResult,
+      chunks: [
+        {
+          id: 'r1',
+          sessionId: 's1',
+          content: 'chunk text',
+          startTime: '2025-01-15T14:30:00Z',
+          approxTokens: 100,
+          agentId: null,
+        },
+      ],
+    });
+
+    const result = await reconstructTool.handler({ project: 'my-app', format: 'json' });
+
+    expect(mockFormatReconstruction).not.toHaveBeenCalled();
+    expect(JSON.parse(result)).toEqual({
+      mode: 'timeline',
+      project: 'my-app',
+      timeRange: sampleReconstructResult.timeRange,
+      totalTokens: 100,
+      truncated: false,
+      sessions: sampleReconstructResult.sessions,
+      chunks: [
+        {
+          id: 'r1',
+          sessionId: 's1',
+          startTime: '2025-01-15T14:30:00Z',
+          tokens: 100,
+          agentId: null,
+          content: 'chunk text',
+        },
+      ],
+    });
+  });
+
+  it('returns errors as a JSON payload when format is json', async () => {
+    mockReconstructSession.mockImplementation(() => {
+      throw new Error('No session found');
+    });
+
+    const result = await reconstructTool.handler({ project: 'my-app', format: 'json' });
+
+    expect(JSON.parse(result)).toEqual({ error: 'No session found' });
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -749,6 +1033,30 @@ describe('statsTool.handler', () => {
     expect(result).toContain('Chunks: 0');
     expect(result).not.toContain('Projects:');
   });
+
+  it('returns the statistics as JSON when format is json', async () => {
+    mockGetChunkCount.mockReturnValue(100);
+    mockGetEdgeCount.mockReturnValue(50);
+    mockGetClusterCount.mockReturnValue(10);
+    mockGetDistinctProjects.mockReturnValue([
+      {
+        slug: 'my-app',
+        chunkCount: 100,
+        firstSeen: '2025-01-01T00:00:00Z',
+        lastSeen: '2025-02-01T00:00:00Z',
+      },
+    ]);
+
+    const payload = JSON.parse(await statsTool.handler({ format: 'json' }));
+
+    expect(payload).toMatchObject({
+      chunks: 100,
+      edges: 50,
+      clusters: 10,
+      projects: [{ slug: 'my-app', chunkCount: 100 }],
+    });
+    expect(payload.version).toMatch(/^\d+\.\d+\.\d+/);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -807,6 +1115,43 @@ describe('forgetTool.handler', () => {
       sessionId: 'sess-123',
     });
   });
+
+  it('keeps pinned chunks unless include_pinned is set', async () => {
+    mockQueryChunkIds.mockReturnValue(['c1', 'note-1']);
+    mockGetPinnedChunkIds.mockReturnValueOnce(new Set(['note-1']));
+    mockDeleteChunks.mockReturnValue(1);
+
+    const result = await forgetTool.handler({ project: 'my-app', dry_run: false });
+
+    expect(mockDeleteChunks).toHaveBeenCalledWith(['c1']);
+    expect(mockVectorStoreDeletBatch).toHaveBeenCalledWith(['c1']);
+    expect(result).toContain('1 pinned chunk(s) kept');
+  });
+
+  it('reports when every match is pinned', async () => {
+    mockQueryChunkIds.mockReturnValue(['note-1']);
+    mockGetPinnedChunkIds.mockReturnValueOnce(new Set(['note-1']));
+
+    const result = await forgetTool.handler({ project: 'my-app', dry_run: false });
+
+    expect(result).toContain('All 1 matching chunk(s) are pinned');
+    expect(mockDeleteChunks).not.toHaveBeenCalled();
+  });
+
+  it('deletes pinned chunks with include_pinned=true', async () => {
+    mockQueryChunkIds.mockReturnValue(['c1', 'note-1']);
+    mockDeleteChunks.mockReturnValue(2);
+
+    const result = await forgetTool.handler({
+      project: 'my-app',
+      dry_run: false,
+      include_pinned: true,
+    });
+
+    expect(mockGetPinnedChunkIds).not.toHaveBeenCalled();
+    expect(mockDeleteChunks).toHaveBeenCalledWith(['c1', 'note-1']);
+    expect(result).not.toContain('pinned');
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -1035,3 +1380,383 @@ describe('forgetTool.handler semantic deletion', () => {
     expect(result).toContain('for more selective results');
   });
 });
+
+// ---------------------------------------------------------------------------
+// rememberTool.handler
+// ---------------------------------------------------------------------------
+describe('rememberTool.handler', () => {
+  it('stores a pinned note with parsed tags', async () => {
+    mockStoreNote.mockResolvedValue({
+      id: 'note-1',
+      sessionId: 'note:my-app',
+      tags: ['auth', 'decision'],
+      pinned: true,
+      indexed: true,
+    });
+
+    const result = await rememberTool.handler({
+      content: 'Use JWT for API auth',
+      project: 'my-app',
+      tags: 'Auth, decision,,',
+    });
+
+    expect(mockStoreNote).toHaveBeenCalledWith({
+      content: 'Use JWT for API auth',
+      project: 'my-app',
+      tags: ['auth', 'decision'],
+      pinned: true,
+    });
+    expect(result).toContain('Remembered pinned note note-1');
+    expect(result).toContain('Tags: auth, decision.');
+  });
+
+  it('passes pinned=false through', async () => {
+    mockStoreNote.mockResolvedValue({
+      id: 'note-2',
+      sessionId: 'note:my-app',
+      tags: [],
+      pinned: false,
+      indexed: true,
+    });
+
+    const result = await rememberTool.handler({
+      content: 'Scratch note',
+      project: 'my-app',
+      pinned: false,
+    });
+
+    expect(mockStoreNote).toHaveBeenCalledWith(expect.objectContaining({ pinned: false }));
+    expect(result).toBe('Remembered note note-2 in project "my-app".');
+  });
+
+  it('rejects empty content', async () => {
+    const result = await rememberTool.handler({ content: '  ', project: 'my-app' });
+
+    expect(result).toBe('Error: content must not be empty.');
+    expect(mockStoreNote).not.toHaveBeenCalled();
+  });
+
+  it('returns storage errors as text', async () => {
+    mockStoreNote.mockRejectedValue(new Error('Model not loaded'));
+
+    const result = await rememberTool.handler({ content: 'x', project: 'my-app' });
+
+    expect(result).toBe('Error: Model not loaded');
+  });
+});
+
+describe('diffTool.handler', () => {
+  const mockComputeMemoryDiff = vi.mocked(computeMemoryDiff);
+
+  function emptyDiff(project: string, since: string) {
+    return {
+      project,
+      since,
+      until: '2026-03-08T00:00:00.000Z',
+      sessions: [],
+      newClusters: [],
+      shiftedClusters: [],
+      newEntities: [],
+      newFiles: ['/src/billing.ts'],
+      resolvedErrors: [],
+      openErrors: [],
+      outcomes: [],
+    };
+  }
+
+  beforeEach(() => {
+    mockComputeMemoryDiff.mockImplementation(emptyDiff);
+  });
+
+  it('diffs from the given since date', async () => {
+    const result = await diffTool.handler({ project: 'my-app', since: '2026-03-01' });
+
+    expect(mockComputeMemoryDiff).toHaveBeenCalledWith('my-app', '2026-03-01T00:00:00.000Z');
+    expect(result).toContain('# Memory diff: my-app since 2026-03-01');
+    expect(result).toContain('- /src/billing.ts');
+  });
+
+  it('defaults to the last 7 days', async () => {
+    const week = 7 * 24 * 60 * 60 * 1000;
+    const before = Date.now();
+
+    await diffTool.handler({ project: 'my-app' });
+
+    const since = new Date(mockComputeMemoryDiff.mock.calls[0][1]).getTime();
+    expect(since).toBeGreaterThanOrEqual(before - week);
+    expect(since).toBeLessThanOrEqual(Date.now() - week);
+  });
+
+  it('returns invalid dates as errors', async () => {
+    const result = await diffTool.handler({ project: 'my-app', since: 'yesterday-ish' });
+
+    expect(result).toBe('Error: Invalid since date: yesterday-ish');
+    expect(mockComputeMemoryDiff).not.toHaveBeenCalled();
+  });
+});
+
+describe('symbolTool.handler', () => {
+  const mockBuildRepoMap = vi.mocked(buildRepoMap);
+  const mockFindSymbolMentions = vi.mocked(findSymbolMentions);
+
+  beforeEach(() => {
+    vi.mocked(getConfig).mockReturnValue({
+      mcpMaxResponseTokens: 2000,
+      repomap: { enabled: true, maxTokens: 1024, languages: [] },
+    } as unknown as MemoryConfig);
+
+    const graph = buildGraph(
+      new Map([
+        [
+          'src/tokens.ts',
+          [{ name: 'refreshToken', kind: 'def', line: 3, file: 'src/tokens.ts', type: 'function' }],
+        ],
+        [
+          'src/auth.ts',
+          [
+            { name: 'login', kind: 'def', line: 1, file: 'src/auth.ts', type: 'function' },
+            { name: 'refreshToken', kind: 'ref', line: 7, file: 'src/auth.ts', type: 'identifier' },
+          ],
+        ],
+      ]),
+    );
+    mockBuildRepoMap.mockResolvedValue({ graph } as RepoMapResult);
+    mockFindSymbolMentions.mockReturnValue([]);
+  });
+
+  afterEach(() => {
+    vi.mocked(getConfig).mockReturnValue({ mcpMaxResponseTokens: 2000 } as MemoryConfig);
+  });
+
+  it('lists definitions, references and memory mentions', async () => {
+    mockFindSymbolMentions.mockReturnValue([
+      {
+        chunkId: 'abcdef123456',
+        sessionSlug: 'my-app',
+        startTime: '2026-03-05T09:00:00Z',
+        excerpt: 'refreshToken races with logout',
+      },
+    ]);
+
+    const result = await symbolTool.handler({ name: 'refreshToken', project: '/work/my-app' });
+
+    expect(mockBuildRepoMap).toHaveBeenCalledWith('/work/my-app', { useRecentSessions: false });
+    expect(mockFindSymbolMentions).toHaveBeenCalledWith('/work/my-app', 'refreshToken', 5);
+    expect(result).toContain('src/tokens.ts:3 [function]');
+    expect(result).toContain('src/auth.ts: 7');
+    expect(result).toContain('my-app: "refreshToken races with logout" (chunk abcdef12)');
+  });
+
+  it('suggests similar names when nothing matches', async () => {
+    const result = await symbolTool.handler({ name: 'Token', project: '/work/my-app' });
+
+    expect(result).toBe('Symbol "Token" not found in /work/my-app. Did you mean: refreshToken?');
+  });
+
+  it('reports a disabled repo map', async () => {
+    vi.mocked(getConfig).mockReturnValue({
+      repomap: { enabled: false },
+    } as unknown as MemoryConfig);
+
+    const result = await symbolTool.handler({ name: 'refreshToken' });
+
+    expect(result).toBe('Repo map is disabled in configuration.');
+    expect(mockBuildRepoMap).not.toHaveBeenCalled();
+  });
+});
+
+describe('repomapTool.handler', () => {
+  const mockBuildRepoMap = vi.mocked(buildRepoMap);
+
+  beforeEach(() => {
+    vi.mocked(getConfig).mockReturnValue({
+      mcpMaxResponseTokens: 2000,
+      repomap: { enabled: true, maxTokens: 1024, languages: [] },
+    } as unknown as MemoryConfig);
+  });
+
+  afterEach(() => {
+    vi.mocked(getConfig).mockReturnValue({ mcpMaxResponseTokens: 2000 } as MemoryConfig);
+  });
+
+  it('maps a single workspace package', async () => {
+    mockBuildRepoMap.mockResolvedValue({
+      text: 'packages/core/src/client.ts\n  fn createClient (3)',
+      fileCount: 4,
+      definitionCount: 9,
+      edgeCount: 2,
+      parsedCount: 0,
+      durationMs: 12,
+      package: { name: '@acme/core', path: 'packages/core', dependencies: [] },
+    } as unknown as RepoMapResult);
+
+    const result = await repomapTool.handler({ project: '/work/acme', package: '@acme/core' });
+
+    expect(mockBuildRepoMap).toHaveBeenCalledWith('/work/acme', {
+      maxTokens: 1024,
+      focusFiles: undefined,
+      package: '@acme/core',
+    });
+    expect(result).toMatch(/^Repo map for package @acme\/core \(packages\/core\): 4 files/);
+    expect(result).toContain('fn createClient (3)');
+  });
+
+  it('returns error message for an unknown package', async () => {
+    mockBuildRepoMap.mockRejectedValue(
+      new Error('Unknown workspace package "web". Packages: @acme/core'),
+    );
+
+    const result = await repomapTool.handler({ package: 'web' });
+
+    expect(result).toBe(
+      'Error building repo map: Unknown workspace package "web". Packages: @acme/core',
+    );
+  });
+
+  it('returns a JSON payload with workspace packages when format is json', async () => {
+    const workspace = {
+      kind: 'pnpm',
+      packages: [
+        { name: '@acme/core', path: 'packages/core', dependencies: [] },
+        { name: '@acme/web', path: 'packages/web', dependencies: ['@acme/core'] },
+      ],
+    };
+    mockBuildRepoMap.mockResolvedValue({
+      text: 'Workspace (pnpm, 2 packages):',
+      fileCount: 8,
+      definitionCount: 20,
+      edgeCount: 5,
+      parsedCount: 1,
+      durationMs: 12.4,
+      workspace,
+      packageEdges: [{ from: '@acme/web', to: '@acme/core', weight: 1.5, declared: true }],
+    } as unknown as RepoMapResult);
+
+    const result = await repomapTool.handler({ project: '/work/acme', format: 'json' });
+
+    expect(JSON.parse(result)).toEqual({
+      projectPath: '/work/acme',
+      fileCount: 8,
+      definitionCount: 20,
+      edgeCount: 5,
+      parsedCount: 1,
+      durationMs: 12,
+      tokens: expect.any(Number),
+      workspace: {
+        ...workspace,
+        edges: [{ from: '@acme/web', to: '@acme/core', weight: 1.5, declared: true }],
+      },
+      text: 'Workspace (pnpm, 2 packages):',
+    });
+  });
+});
+
+describe('repomapDiffTool.handler', () => {
+  const mockGetStructureDiff = vi.mocked(getStructureDiff);
+
+  beforeEach(() => {
+    vi.mocked(getConfig).mockReturnValue({
+      mcpMaxResponseTokens: 2000,
+      repomap: { enabled: true, maxTokens: 1024, languages: [] },
+    } as unknown as MemoryConfig);
+  });
+
+  afterEach(() => {
+    vi.mocked(getConfig).mockReturnValue({ mcpMaxResponseTokens: 2000 } as MemoryConfig);
+  });
+
+  it('formats changes since the last snapshot', async () => {
+    mockGetStructureDiff.mockResolvedValue({
+      since: { sessionId: 'abcdef1234567890', createdAt: '2026-03-05T10:00:00.000Z' },
+      delta: {
+        addedFiles: [],
+        removedFiles: [],
+        added: [],
+        removed: [],
+        renamed: [{ file: 'src/auth.ts', from: 'login', to: 'signIn', type: 'function' }],
+        moved: [],
+        churned: [],
+      },
+    });
+
+    const result = await repomapDiffTool.handler({ project: '/work/my-app' });
+
+    expect(mockGetStructureDiff).toHaveBeenCalledWith('/work/my-app');
+    expect(result).toContain('since session abcdef12 ended (2026-03-05)');
+    expect(result).toContain('src/auth.ts: login → signIn [function]');
+  });
+
+  it('explains when no snapshot exists', async () => {
+    mockGetStructureDiff.mockResolvedValue(null);
+
+    const result = await repomapDiffTool.handler({ project: '/work/my-app' });
+
+    expect(result).toBe(
+      'No repo map snapshot stored for /work/my-app yet. Snapshots are taken when a session ends.',
+    );
+  });
+
+  it('returns error message on failure', async () => {
+    mockGetStructureDiff.mockRejectedValue(new Error('scan failed'));
+
+    const result = await repomapDiffTool.handler({ project: '/work/my-app' });
+
+    expect(result).toBe('Error diffing repo map: scan failed');
+  });
+});
+
+describe('fileHistoryTool.handler', () => {
+  const mockGetFileHistory = vi.mocked(getFileHistory);
+
+  it('formats the history of a file', async () => {
+    mockGetFileHistory.mockReturnValue({
+      projectPath: '/work/my-app',
+      filePath: 'src/auth.ts',
+      chunks: [
+        {
+          chunkId: 'abcdef123456',
+          sessionSlug: 'my-app',
+          startTime: '2026-03-05T09:00:00Z',
+          symbols: ['refreshToken'],
+          sources: ['symbol', 'tool'],
+          excerpt: 'refreshToken races with logout',
+        },
+      ],
+      errors: [
+        {
+          sessionId: 'session-1',
+          endedAt: '2026-03-05T10:00:00Z',
+          tool: 'Bash',
+          message: 'auth.ts: type error',
+          resolution: 'Narrowed the token type.',
+        },
+      ],
+      sessions: [{ sessionId: 'session-1', endedAt: '2026-03-05T10:00:00Z', summary: null }],
+    });
+
+    const result = await fileHistoryTool.handler({
+      file: 'src/auth.ts',
+      project: '/work/my-app',
+      max_chunks: 3,
+    });
+
+    expect(mockGetFileHistory).toHaveBeenCalledWith('/work/my-app', 'src/auth.ts', {
+      maxChunks: 3,
+    });
+    expect(result).toContain('# File history: src/auth.ts');
+    expect(result).toContain(
+      '1. [2026-03-05] my-app: "refreshToken races with logout" [refreshToken] (chunk abcdef12)',
+    );
+    expect(result).toContain('`Bash`: auth.ts: type error → Narrowed the token type.');
+  });
+
+  it('returns lookup failures as errors', async () => {
+    mockGetFileHistory.mockImplementation(() => {
+      throw new Error('no such table: chunk_code_refs');
+    });
+
+    const result = await fileHistoryTool.handler({ file: 'src/auth.ts' });
+
+    expect(result).toBe('Error getting file history: no such table: chunk_code_refs');
+  });
+});
@@ -158,8 +158,8 @@ describe('mcp-tools', () => {
       expect(statsTool.inputSchema.required).toEqual([]);
     });
 
-    it('has no required properties', () => {
-      expect(Object.keys(statsTool.inputSchema.properties)).toEqual([]);
+    it('only accepts an output format', () => {
+      expect(Object.keys(statsTool.inputSchema.properties)).toEqual(['format']);
     });
   });
 
@@ -225,7 +225,7 @@ describe('mcp-tools', () => {
 
   describe('tools array', () => {
     it('contains all tools', () => {
-      expect(tools.length).toBe(10);
+      expect(tools.length).toBe(15);
     });
 
     it('contains search tool', () => {
@@ -256,6 +256,14 @@ describe('mcp-tools', () => {
       expect(tools.find((t) => t.name === 'forget')).toBeTruthy();
     });
 
+    it('contains remember tool', () => {
+      expect(tools.find((t) => t.name === 'remember')).toBeTruthy();
+    });
+
+    it('contains diff tool', () => {
+      expect(tools.find((t) => t.name === 'diff')).toBeTruthy();
+    });
+
     it('all tools have required fields', () => {
       for (const tool of tools) {
         expect(tool.name).toBeTruthy();
@@ -372,7 +380,7 @@ describe('mcp-tools', () => {
         inputSchema: t.inputSchema,
       }));
 
-      expect(toolList.length).toBe(10);
+      expect(toolList.length).toBe(15);
       expect(toolList[0]).not.toHaveProperty('handler'); // Handler not included
       expect(toolList[0]).toHaveProperty('name');
       expect(toolList[0]).toHaveProperty('description');
@@ -0,0 +1,231 @@
+/**
+ * Tests for pluggable embedding providers.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  getModel,
+  isValidModelId,
+  DEFAULT_HASH_DIMS,
+  type ModelConfig,
+} from '../../src/models/model-registry.js';
+import { createEmbeddingProvider, normalizeVector } from '../../src/models/embedding-provider.js';
+import { HashEmbeddingProvider, hashEmbed } from '../../src/models/hash-provider.js';
+import { OpenAIEmbeddingProvider } from '../../src/models/openai-provider.js';
+import { OnnxEmbeddingProvider } from '../../src/models/onnx-provider.js';
+import { Embedder } from '../../src/models/embedder.js';
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot;
+}
+
+describe('model resolution', () => {
+  afterEach(() => {
+    delete process.env.CAUSANTIC_EMBEDDING_DIMENSIONS;
+    delete process.env.CAUSANTIC_EMBEDDING_ENDPOINT;
+  });
+
+  it('resolves hash models with default and explicit dimensions', () => {
+    expect(getModel('hash').dims).toBe(DEFAULT_HASH_DIMS);
+    expect(getModel('hash').provider).toBe('hash');
+    expect(getModel('hash:64').dims).toBe(64);
+  });
+
+  it('resolves openai models from embedding config', () => {
+    process.env.CAUSANTIC_EMBEDDING_DIMENSIONS = '768';
+    process.env.CAUSANTIC_EMBEDDING_ENDPOINT = 'http://127.0.0.1:9999/v1';
+
+    const model = getModel('openai:nomic-embed-text');
+    expect(model.provider).toBe('openai');
+    expect(model.dims).toBe(768);
+    expect(model.endpoint).toBe('http://127.0.0.1:9999/v1');
+    expect(model.remoteModel).toBe('nomic-embed-text');
+  });
+
+  it('throws for unknown and malformed ids', () => {
+    expect(() => getModel('hash:0')).toThrow(/Unknown model: hash:0/);
+    expect(() => getModel('nope')).toThrow(/Unknown model: nope/);
+  });
+
+  it('validates ids without reading config', () => {
+    expect(isValidModelId('jina-small')).toBe(true);
+    expect(isValidModelId('hash:128')).toBe(true);
+    expect(isValidModelId('openai:text-embedding-3-small')).toBe(true);
+    expect(isValidModelId('openai:')).toBe(false);
+    expect(isValidModelId('hash:-1')).toBe(false);
+  });
+});
+
+describe('createEmbeddingProvider', () => {
+  it('picks the implementation from the model provider', () => {
+    expect(createEmbeddingProvider(getModel('hash'))).toBeInstanceOf(HashEmbeddingProvider);
+    expect(createEmbeddingProvider(getModel('jina-small'))).toBeInstanceOf(OnnxEmbeddingProvider);
+    expect(
+      createEmbeddingProvider({ ...getModel('hash'), provider: 'openai', remoteModel: 'm' }),
+    ).toBeInstanceOf(OpenAIEmbeddingProvider);
+  });
+});
+
+describe('hash embedder', () => {
+  it('is deterministic and unit length', () => {
+    const a = hashEmbed('Fix the flaky auth test', 128);
+    const b = hashEmbed('Fix the flaky auth test', 128);
+
+    expect(a).toEqual(b);
+    expect(a).toHaveLength(128);
+    expect(cosine(a, a)).toBeCloseTo(1, 6);
+  });
+
+  it('places texts with shared words closer than unrelated texts', () => {
+    const base = hashEmbed('database migration failed on startup', 256);
+    const related = hashEmbed('migration failed for the database', 256);
+    const unrelated = hashEmbed('colour palette for dashboard charts', 256);
+
+    expect(cosine(base, related)).toBeGreaterThan(cosine(base, unrelated));
+  });
+
+  it('maps empty text to a fixed unit vector', () => {
+    const v = hashEmbed('', 16);
+    expect(v[0]).toBe(1);
+    expect(v.slice(1).every((x) => x === 0)).toBe(true);
+  });
+
+  it('runs through the Embedder facade', async () => {
+    const embedder = new Embedder();
+    const stats = await embedder.load(getModel('hash:32'));
+
+    expect(stats.modelId).toBe('hash:32');
+    expect(embedder.currentDevice).toBeNull();
+
+    const single = await embedder.embed('hello world');
+    const batch = await embedder.embedBatchTrue(['hello world', 'other text', 'third'], false, 2);
+
+    expect(single.embedding).toHaveLength(32);
+    expect(batch).toHaveLength(3);
+    expect(batch[0].embedding).toEqual(single.embedding);
+
+    await embedder.dispose();
+    expect(embedder.currentModel).toBeNull();
+  });
+
+  it('applies model prefixes before embedding', async () => {
+    const prefixed: ModelConfig = {
+      ...getModel('hash:32'),
+      usesPrefix: true,
+      documentPrefix: 'document ',
+      queryPrefix: 'query ',
+    };
+    const embedder = new Embedder();
+    await embedder.load(prefixed);
+
+    const asQuery = await embedder.embed('text', true);
+    expect(asQuery.embedding).toEqual(hashEmbed('query text', 32));
+
+    await embedder.dispose();
+  });
+});
+
+describe('OpenAI-compatible provider', () => {
+  let server: Server;
+  let endpoint: string;
+  const requests: Array<{ body: { model: string; input: string[] }; auth?: string }> = [];
+  let respond: (input: string[]) => { status: number; body: unknown };
+
+  function readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve) => {
+      let data = '';
+      req.on('data', (chunk) => (data += chunk));
+      req.on('end', () => resolve(data));
+    });
+  }
+
+  beforeAll(async () => {
+    server = createServer(async (req, res) => {
+      const body = JSON.parse(await readBody(req));
+      requests.push({ body, auth: req.headers.authorization });
+      const { status, body: payload } = respond(body.input);
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(payload));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  afterEach(() => {
+    requests.length = 0;
+    delete process.env.CAUSANTIC_EMBEDDING_API_KEY;
+  });
+
+  function model(dims: number): ModelConfig {
+    return {
+      ...getModel(`hash:${dims}`),
+      id: 'openai:stand-in',
+      provider: 'openai',
+      endpoint,
+      remoteModel: 'stand-in',
+    };
+  }
+
+  /** Returns entries in reverse order with explicit indexes. */
+  function reversed(dims: number) {
+    return (input: string[]) => ({
+      status: 200,
+      body: {
+        data: input
+          .map((text, index) => ({ index, embedding: new Array(dims).fill(text.length) }))
+          .reverse(),
+      },
+    });
+  }
+
+  it('embeds through the endpoint and restores input order', async () => {
+    respond = reversed(4);
+    const embedder = new Embedder();
+    await embedder.load(model(4));
+
+    const results = await embedder.embedBatchTrue(['a', 'bbb'], false, 8);
+
+    // Probe request on load, then the batch
+    expect(requests).toHaveLength(2);
+    expect(requests[1].body).toEqual({ model: 'stand-in', input: ['a', 'bbb'] });
+    expect(results.map((r) => r.embedding)).toEqual([
+      normalizeVector([1, 1, 1, 1]),
+      normalizeVector([3, 3, 3, 3]),
+    ]);
+
+    await embedder.dispose();
+  });
+
+  it('sends the API key from the environment', async () => {
+    respond = reversed(4);
+    process.env.CAUSANTIC_EMBEDDING_API_KEY = 'secret';
+
+    const provider = new OpenAIEmbeddingProvider(model(4));
+    await provider.load({});
+
+    expect(requests[0].auth).toBe('Bearer secret');
+  });
+
+  it('fails to load when the endpoint returns the wrong dimensions', async () => {
+    respond = reversed(3);
+    const embedder = new Embedder();
+
+    await expect(embedder.load(model(4))).rejects.toThrow(/Dimension mismatch.*3 dims.*4/);
+    expect(embedder.currentModel).toBeNull();
+  });
+
+  it('surfaces HTTP errors', async () => {
+    respond = () => ({ status: 404, body: { error: 'model not found' } });
+    const provider = new OpenAIEmbeddingProvider(model(4));
+
+    await expect(provider.load({})).rejects.toThrow(/failed: 404.*model not found/);
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Tests for pluggable LLM providers.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+vi.mock('../../src/utils/secret-store.js', () => ({
+  createSecretStore: () => ({ get: async () => null }),
+}));
+
+import {
+  getLLMProvider,
+  callWithRetry,
+  LLMRequestError,
+  type LLMProvider,
+} from '../../src/models/llm-provider.js';
+import { AnthropicChatProvider } from '../../src/models/anthropic-chat-provider.js';
+import { OpenAIChatProvider } from '../../src/models/openai-chat-provider.js';
+import { generateLLMEntries } from '../../src/index-entries/index-generator.js';
+import {
+  DEFAULT_CONFIG,
+  initRuntimeConfig,
+  resetRuntimeConfig,
+} from '../../src/config/memory-config.js';
+
+describe('getLLMProvider', () => {
+  const originalKey = process.env.ANTHROPIC_API_KEY;
+
+  afterEach(() => {
+    if (originalKey) {
+      process.env.ANTHROPIC_API_KEY = originalKey;
+    } else {
+      delete process.env.ANTHROPIC_API_KEY;
+    }
+  });
+
+  it('returns null for anthropic without an API key', async () => {
+    delete process.env.ANTHROPIC_API_KEY;
+
+    expect(await getLLMProvider(DEFAULT_CONFIG)).toBeNull();
+  });
+
+  it('returns the Anthropic provider when a key is set', async () => {
+    process.env.ANTHROPIC_API_KEY = 'sk-ant-test';
+
+    expect(await getLLMProvider(DEFAULT_CONFIG)).toBeInstanceOf(AnthropicChatProvider);
+  });
+
+  it('returns the OpenAI-compatible provider without any key', async () => {
+    delete process.env.ANTHROPIC_API_KEY;
+
+    const provider = await getLLMProvider({
+      llmProvider: 'openai',
+      llmEndpoint: 'http://127.0.0.1:9/v1',
+    });
+
+    expect(provider).toBeInstanceOf(OpenAIChatProvider);
+    expect(provider!.kind).toBe('openai');
+  });
+});
+
+describe('callWithRetry', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function failingProvider(statuses: number[]): LLMProvider & { calls: number } {
+    const provider = {
+      kind: 'openai' as const,
+      calls: 0,
+      async complete() {
+        const status = statuses[provider.calls++];
+        if (status !== undefined) {
+          throw new LLMRequestError(`status ${status}`, status);
+        }
+        return 'ok';
+      },
+    };
+    return provider;
+  }
+
+  const request = { model: 'm', prompt: 'p', maxTokens: 10 };
+
+  it('retries rate-limit and server errors with backoff', async () => {
+    vi.useFakeTimers();
+    const provider = failingProvider([429, 503]);
+
+    const result = callWithRetry(provider, request);
+    await vi.advanceTimersByTimeAsync(2000 + 8000);
+
+    expect(await result).toBe('ok');
+    expect(provider.calls).toBe(3);
+  });
+
+  it('does not retry client errors', async () => {
+    const provider = failingProvider([400]);
+
+    await expect(callWithRetry(provider, request)).rejects.toThrow('status 400');
+    expect(provider.calls).toBe(1);
+  });
+
+  it('gives up after three retries', async () => {
+    vi.useFakeTimers();
+    const provider = failingProvider([500, 500, 500, 500]);
+
+    const result = callWithRetry(provider, request);
+    const assertion = expect(result).rejects.toThrow('status 500');
+    await vi.advanceTimersByTimeAsync(2000 + 8000 + 32000);
+
+    await assertion;
+    expect(provider.calls).toBe(4);
+  });
+});
+
+describe('OpenAI-compatible chat provider', () => {
+  let server: Server;
+  let endpoint: string;
+  const requests: Array<{ url?: string; body: Record<string, unknown>; auth?: string }> = [];
+  let respond: (body: Record<string, unknown>) => { status: number; body: unknown };
+
+  function readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve) => {
+      let data = '';
+      req.on('data', (chunk) => (data += chunk));
+      req.on('end', () => resolve(data));
+    });
+  }
+
+  function reply(content: string) {
+    return () => ({ status: 200, body: { choices: [{ message: { content } }] } });
+  }
+
+  beforeAll(async () => {
+    server = createServer(async (req, res) => {
+      const body = JSON.parse(await readBody(req));
+      requests.push({ url: req.url, body, auth: req.headers.authorization });
+      const { status, body: payload } = respond(body);
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(payload));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  afterEach(() => {
+    requests.length = 0;
+    delete process.env.CAUSANTIC_LLM_API_KEY;
+    resetRuntimeConfig();
+  });
+
+  it('posts a single user message to /chat/completions', async () => {
+    respond = reply('Name: Auth\nDescription: Login flow.');
+    process.env.CAUSANTIC_LLM_API_KEY = 'secret';
+
+    const text = await new OpenAIChatProvider(endpoint).complete({
+      model: 'llama3.1:8b',
+      prompt: 'label this',
+      maxTokens: 200,
+    });
+
+    expect(text).toBe('Name: Auth\nDescription: Login flow.');
+    expect(requests[0].url).toBe('/v1/chat/completions');
+    expect(requests[0].auth).toBe('Bearer secret');
+    expect(requests[0].body).toEqual({
+      model: 'llama3.1:8b',
+      max_tokens: 200,
+      messages: [{ role: 'user', content: 'label this' }],
+    });
+  });
+
+  it('surfaces HTTP errors with their status', async () => {
+    respond = () => ({ status: 404, body: { error: 'model not found' } });
+
+    const error = await new OpenAIChatProvider(endpoint)
+      .complete({ model: 'missing', prompt: 'p', maxTokens: 10 })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(LLMRequestError);
+    expect((error as LLMRequestError).status).toBe(404);
+    expect((error as Error).message).toMatch(/failed: 404.*model not found/);
+  });
+
+  it('generates index entries through a local endpoint', async () => {
+    respond = reply(
+      '0:\n- How was the token refresh race fixed?\n- Why did login fail after expiry?\nSUMMARY: Fixed a race in token refresh.',
+    );
+    initRuntimeConfig({
+      ...DEFAULT_CONFIG,
+      llmProvider: 'openai',
+      llmEndpoint: endpoint,
+      clusterRefreshModel: 'llama3.1:8b',
+    });
+
+    const entries = await generateLLMEntries(
+      [
+        {
+          id: 'c1',
+          sessionSlug: 'proj',
+          startTime: '2026-01-01T00:00:00Z',
+          content: 'Fixed the token refresh race in auth middleware.',
+          approxTokens: 10,
+        },
+      ],
+      'proj',
+    );
+
+    expect(requests[0].body.model).toBe('llama3.1:8b');
+    expect(entries.map((e) => [e.generationMethod, e.description])).toEqual([
+      ['jeopardy', 'How was the token refresh race fixed?'],
+      ['jeopardy', 'Why did login fail after expiry?'],
+      ['llm', 'Fixed a race in token refresh.'],
+    ]);
+  });
+});
@@ -104,4 +104,19 @@ describe('chunkTurns', () => {
       expect(chunk.metadata.approxTokens).toBeGreaterThan(0);
     }
   });
+
+  it('records tool names and failed tool calls', async () => {
+    const messages = await readSessionMessages(FIXTURE);
+    const turns = assembleTurns(messages);
+    turns[1].toolExchanges[0].isError = true;
+    const chunks = chunkTurns(turns, {
+      maxTokens: 8000,
+      minTokens: 100000,
+      sessionId: 'sess-001',
+      sessionSlug: 'test-session',
+    });
+
+    expect(chunks[0].metadata.toolNames).toContain('Glob');
+    expect(chunks[0].metadata.toolErrorCount).toBe(1);
+  });
 });
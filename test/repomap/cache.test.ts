@@ -2,10 +2,15 @@
  * Tests for file tag cache.
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
-import { TagCache } from '../../src/repomap/cache.js';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TagCache, getTagVersion, type TagStore } from '../../src/repomap/cache.js';
+import type { PersistedFileTags } from '../../src/storage/repomap-cache-store.js';
 import type { ScannedFile } from '../../src/repomap/scanner.js';
-import type { Tag } from '../../src/repomap/parser.js';
+import { PARSER_VERSION, type Tag } from '../../src/repomap/parser.js';
+import type { GrammarPack } from '../../src/repomap/grammar-packs.js';
 
 function makeFile(path: string, mtimeMs: number = Date.now()): ScannedFile {
   return {
@@ -112,3 +117,110 @@ describe('TagCache', () => {
     expect(result.fileListChanged).toBe(false);
   });
 });
+
+describe('TagCache with a persistent store', () => {
+  let dir: string;
+  let rows: Map<string, PersistedFileTags>;
+  let saves: number;
+  let store: TagStore;
+
+  function diskFile(path: string, content: string, mtimeMs: number): ScannedFile {
+    writeFileSync(join(dir, path), content);
+    return { absolutePath: join(dir, path), relativePath: path, extension: '.ts', mtimeMs };
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'tag-cache-'));
+    rows = new Map();
+    saves = 0;
+    store = {
+      load: () => new Map([...rows].map(([k, v]) => [k, { ...v }])),
+      save: (entries, removedPaths) => {
+        saves++;
+        for (const e of entries) rows.set(e.relativePath, e);
+        for (const p of removedPaths) rows.delete(p);
+      },
+    };
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('is warm from the first resolve of a new instance', () => {
+    const file = diskFile('a.ts', 'export function foo() {}', 1000);
+    const tags = [makeTag('foo', 'a.ts')];
+
+    const first = new TagCache(store);
+    first.resolve([file]);
+    first.update(file, tags);
+    first.flush();
+
+    const result = new TagCache(store).resolve([file]);
+    expect(result.stale).toEqual([]);
+    expect(result.cached.get('a.ts')).toEqual(tags);
+  });
+
+  it('reuses tags when only the mtime changed', () => {
+    const file = diskFile('a.ts', 'export function foo() {}', 1000);
+    const first = new TagCache(store);
+    first.resolve([file]);
+    first.update(file, [makeTag('foo', 'a.ts')]);
+    first.flush();
+
+    const touched = { ...file, mtimeMs: 5000 };
+    const second = new TagCache(store);
+    expect(second.resolve([touched]).stale).toEqual([]);
+    second.flush();
+
+    expect(rows.get('a.ts')!.mtimeMs).toBe(5000);
+  });
+
+  it('re-parses files whose content changed', () => {
+    const file = diskFile('a.ts', 'export function foo() {}', 1000);
+    const first = new TagCache(store);
+    first.resolve([file]);
+    first.update(file, [makeTag('foo', 'a.ts')]);
+    first.flush();
+
+    const edited = diskFile('a.ts', 'export function bar() {}', 2000);
+    expect(new TagCache(store).resolve([edited]).stale).toEqual([edited]);
+  });
+
+  it('drops persisted entries for removed files and batches writes', () => {
+    const a = diskFile('a.ts', 'a', 1000);
+    const b = diskFile('b.ts', 'b', 1000);
+    const first = new TagCache(store);
+    first.resolve([a, b]);
+    first.update(a, [makeTag('foo', 'a.ts')]);
+    first.update(b, [makeTag('bar', 'b.ts')]);
+    first.flush();
+
+    const second = new TagCache(store);
+    second.resolve([a]);
+    second.flush();
+    second.flush();
+
+    expect([...rows.keys()]).toEqual(['a.ts']);
+    expect(saves).toBe(2);
+  });
+});
+
+describe('getTagVersion', () => {
+  function makePack(fingerprint: string): GrammarPack {
+    return { name: 'kotlin', extensions: ['.kt'], wasmPath: '/g/k.wasm', query: '', fingerprint };
+  }
+
+  it('is the parser version without grammar packs', () => {
+    expect(getTagVersion([])).toBe(PARSER_VERSION);
+  });
+
+  it('changes with the packs loaded', () => {
+    const version = getTagVersion([makePack('aaaa')]);
+
+    expect(version).not.toBe(PARSER_VERSION);
+    expect(Number.isSafeInteger(version)).toBe(true);
+    expect(getTagVersion([makePack('aaaa')])).toBe(version);
+    expect(getTagVersion([makePack('bbbb')])).not.toBe(version);
+  });
+});
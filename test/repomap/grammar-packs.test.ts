@@ -0,0 +1,193 @@
+/**
+ * Tests for loadable tree-sitter grammar packs.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { copyFileSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadGrammarPacks, tagForCapture } from '../../src/repomap/grammar-packs.js';
+import { parseFile } from '../../src/repomap/parser.js';
+
+/** A bundled grammar used as a stand-in for a third-party one. */
+const PYTHON_WASM = join(
+  __dirname,
+  '..',
+  '..',
+  'node_modules',
+  '@vscode',
+  'tree-sitter-wasm',
+  'wasm',
+  'tree-sitter-python.wasm',
+);
+
+const STARLARK_TAGS = `
+(function_definition
+  name: (identifier) @name) @definition.function
+
+(call
+  function: (identifier) @name) @reference.call
+
+((comment)* @doc
+  .
+  (expression_statement (assignment left: (identifier) @name)) @definition.constant
+  (#strip! @doc "^#\\\\s*")
+  (#select-adjacent! @doc @definition.constant))
+`;
+
+describe('grammar packs', () => {
+  let dir: string;
+
+  /** Write a pack directory with a grammar, tags query and manifest. */
+  function writePack(
+    name: string,
+    manifest: Record<string, unknown>,
+    query = STARLARK_TAGS,
+    wasmFile = `tree-sitter-${name}.wasm`,
+  ): void {
+    const packDir = join(dir, 'grammars', name);
+    mkdirSync(packDir, { recursive: true });
+    writeFileSync(join(packDir, 'grammar.json'), JSON.stringify(manifest));
+    writeFileSync(join(packDir, 'tags.scm'), query);
+    copyFileSync(PYTHON_WASM, join(packDir, wasmFile));
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'causantic-grammar-packs-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('loadGrammarPacks', () => {
+    it('returns no packs for a missing directory', () => {
+      expect(loadGrammarPacks(join(dir, 'missing'))).toEqual([]);
+    });
+
+    it('loads packs with default grammar and query file names', () => {
+      writePack('starlark', { extensions: ['.star', '.bzl'] });
+
+      const [pack] = loadGrammarPacks(join(dir, 'grammars'));
+
+      expect(pack).toMatchObject({
+        name: 'starlark',
+        extensions: ['.star', '.bzl'],
+        wasmPath: join(dir, 'grammars', 'starlark', 'tree-sitter-starlark.wasm'),
+        query: STARLARK_TAGS,
+      });
+      expect(pack.fingerprint).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('honours manifest name and grammar file', () => {
+      writePack(
+        'bazel',
+        { name: 'starlark', extensions: ['.star'], wasm: 'grammar.wasm' },
+        STARLARK_TAGS,
+        'grammar.wasm',
+      );
+
+      const [pack] = loadGrammarPacks(join(dir, 'grammars'));
+
+      expect(pack.name).toBe('starlark');
+      expect(pack.wasmPath).toBe(join(dir, 'grammars', 'bazel', 'grammar.wasm'));
+    });
+
+    it('skips invalid packs and directories without a manifest', () => {
+      writePack('valid', { extensions: ['.star'] });
+      writePack('no-extensions', { extensions: [] });
+      writePack('bad-extension', { extensions: ['star'] });
+      writePack('no-grammar', { extensions: ['.star'], wasm: 'missing.wasm' });
+      mkdirSync(join(dir, 'grammars', 'not-a-pack'));
+
+      expect(loadGrammarPacks(join(dir, 'grammars')).map((p) => p.name)).toEqual(['valid']);
+    });
+
+    it('changes the fingerprint when the query changes', () => {
+      writePack('starlark', { extensions: ['.star'] });
+      const before = loadGrammarPacks(join(dir, 'grammars'))[0].fingerprint;
+
+      writeFileSync(join(dir, 'grammars', 'starlark', 'tags.scm'), '(identifier) @name');
+
+      expect(loadGrammarPacks(join(dir, 'grammars'))[0].fingerprint).not.toBe(before);
+    });
+  });
+
+  describe('tagForCapture', () => {
+    it('maps definition kinds to tag types', () => {
+      expect(tagForCapture('definition.class')).toEqual({ kind: 'def', type: 'class' });
+      expect(tagForCapture('definition.struct')).toEqual({ kind: 'def', type: 'class' });
+      expect(tagForCapture('definition.trait')).toEqual({ kind: 'def', type: 'interface' });
+      expect(tagForCapture('definition.method')).toEqual({ kind: 'def', type: 'method' });
+      expect(tagForCapture('definition.constant')).toEqual({ kind: 'def', type: 'variable' });
+      expect(tagForCapture('definition.resource')).toEqual({ kind: 'def', type: 'variable' });
+    });
+
+    it('maps references to import or identifier references', () => {
+      expect(tagForCapture('reference.import')).toEqual({ kind: 'ref', type: 'import' });
+      expect(tagForCapture('reference.call')).toEqual({ kind: 'ref', type: 'identifier' });
+    });
+
+    it('ignores other captures', () => {
+      expect(tagForCapture('name')).toBeNull();
+      expect(tagForCapture('doc')).toBeNull();
+    });
+  });
+
+  describe('parseFile with packs', () => {
+    it('extracts tags with the pack query for claimed extensions', async () => {
+      writePack('starlark', { extensions: ['.star'] });
+      const packs = loadGrammarPacks(join(dir, 'grammars'));
+      const file = join(dir, 'BUILD.star');
+      writeFileSync(
+        file,
+        `# Default flags\nDEFAULT_COPTS = ["-O2"]\n\ndef cc_library_wrapper(name):\n    native_rule(name = name)\n    native_rule(name = name + "_test")\n`,
+      );
+
+      const tags = await parseFile(file, 'BUILD.star', packs);
+
+      expect(tags).toEqual([
+        { name: 'DEFAULT_COPTS', kind: 'def', line: 2, file: 'BUILD.star', type: 'variable' },
+        { name: 'cc_library_wrapper', kind: 'def', line: 4, file: 'BUILD.star', type: 'function' },
+        { name: 'native_rule', kind: 'ref', line: 5, file: 'BUILD.star', type: 'identifier' },
+      ]);
+    });
+
+    it('takes precedence over built-in grammars', async () => {
+      writePack(
+        'python-classes',
+        {
+          extensions: ['.py'],
+          wasm: 'tree-sitter-python.wasm',
+        },
+        '(class_definition name: (identifier) @name) @definition.class',
+        'tree-sitter-python.wasm',
+      );
+      const packs = loadGrammarPacks(join(dir, 'grammars'));
+      const file = join(dir, 'sample.py');
+      writeFileSync(file, 'class Widget:\n    pass\n\ndef make_widget():\n    return Widget()\n');
+
+      const tags = await parseFile(file, 'sample.py', packs);
+
+      expect(tags.map((t) => t.name)).toEqual(['Widget']);
+    });
+
+    it('falls back to built-in parsing when the query is invalid', async () => {
+      writePack(
+        'broken',
+        { extensions: ['.py'], wasm: 'grammar.wasm' },
+        '(no_such_node) @name',
+        'grammar.wasm',
+      );
+      const packs = loadGrammarPacks(join(dir, 'grammars'));
+      const file = join(dir, 'sample.py');
+      writeFileSync(file, 'def make_widget():\n    pass\n');
+
+      const tags = await parseFile(file, 'sample.py', packs);
+
+      expect(tags).toContainEqual(
+        expect.objectContaining({ name: 'make_widget', kind: 'def', type: 'function' }),
+      );
+    });
+  });
+});
@@ -2,12 +2,32 @@
  * Integration test: build repo map of causantic itself.
  */
 
-import { describe, it, expect } from 'vitest';
-import { buildRepoMap, findSymbol, clearAllCaches } from '../../src/repomap/index.js';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type Database from 'better-sqlite3-multiple-ciphers';
+import {
+  buildRepoMap,
+  findSymbol,
+  clearAllCaches,
+  snapshotRepoMap,
+  getStructureDiff,
+  hasStructuralChanges,
+} from '../../src/repomap/index.js';
+import { createTestDb, setupTestDb, teardownTestDb } from '../storage/test-utils.js';
 
 const PROJECT_ROOT = process.cwd();
 
 describe('buildRepoMap integration', () => {
+  let db: Database.Database;
+
+  beforeAll(() => {
+    db = createTestDb();
+    setupTestDb(db);
+  });
+
+  afterAll(() => {
+    teardownTestDb(db);
+  });
+
   it('scans causantic and produces a map', async () => {
     const result = await buildRepoMap(PROJECT_ROOT, { maxTokens: 1024 });
 
@@ -44,8 +64,9 @@ describe('buildRepoMap integration', () => {
   });
 
   it('uses cache on second run', async () => {
-    // Clear cache to ensure a fresh cold run
+    // Clear both caches to ensure a fresh cold run
     clearAllCaches();
+    db.exec('DROP TABLE IF EXISTS repomap_tags');
 
     // First run — everything parsed
     const r1 = await buildRepoMap(PROJECT_ROOT, { maxTokens: 512 });
@@ -57,6 +78,15 @@ describe('buildRepoMap integration', () => {
     expect(r2.durationMs).toBeLessThan(r1.durationMs);
   });
 
+  it('is warm from persisted tags after the in-memory cache is dropped', async () => {
+    await buildRepoMap(PROJECT_ROOT, { maxTokens: 512 });
+    clearAllCaches();
+
+    const result = await buildRepoMap(PROJECT_ROOT, { maxTokens: 512 });
+    expect(result.parsedCount).toBe(0);
+    expect(result.definitionCount).toBeGreaterThan(100);
+  });
+
   it('boosts focus files to top of output', async () => {
     const result = await buildRepoMap(PROJECT_ROOT, {
       maxTokens: 2048,
@@ -85,4 +115,14 @@ describe('buildRepoMap integration', () => {
     const found = findSymbol(result.graph, 'nonExistentSymbolXYZ123');
     expect(found).toBeNull();
   });
+
+  it('diffs the current structure against the last session snapshot', async () => {
+    expect(await getStructureDiff(PROJECT_ROOT)).toBeNull();
+
+    await snapshotRepoMap(PROJECT_ROOT, 'sess-1');
+    const diff = await getStructureDiff(PROJECT_ROOT);
+
+    expect(diff?.since.sessionId).toBe('sess-1');
+    expect(hasStructuralChanges(diff!.delta)).toBe(false);
+  });
 });
@@ -0,0 +1,101 @@
+/**
+ * Tests for personalized PageRank over the symbol graph.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { rankSymbols } from '../../src/repomap/pagerank.js';
+import type { Tag } from '../../src/repomap/parser.js';
+
+function defTag(name: string, file: string, line = 1, type: Tag['type'] = 'function'): Tag {
+  return { name, kind: 'def', line, file, type };
+}
+
+function refTag(name: string, file: string, line = 1): Tag {
+  return { name, kind: 'ref', line, file, type: 'identifier' };
+}
+
+/** A hub file with one widely used function and several unused ones. */
+function hubProject(): Map<string, Tag[]> {
+  return new Map([
+    [
+      'hub.ts',
+      [
+        defTag('usedEverywhere', 'hub.ts', 10),
+        defTag('neverUsedA', 'hub.ts', 20),
+        defTag('neverUsedB', 'hub.ts', 30),
+        defTag('neverUsedC', 'hub.ts', 40),
+      ],
+    ],
+    ['a.ts', [defTag('featureA', 'a.ts', 1), refTag('usedEverywhere', 'a.ts', 2)]],
+    ['b.ts', [defTag('featureB', 'b.ts', 1), refTag('usedEverywhere', 'b.ts', 2)]],
+    ['c.ts', [defTag('featureC', 'c.ts', 1), refTag('usedEverywhere', 'c.ts', 2)]],
+  ]);
+}
+
+function rankOf(symbols: ReturnType<typeof rankSymbols>, name: string): number {
+  return symbols.findIndex((s) => s.name === name);
+}
+
+describe('rankSymbols', () => {
+  it('ranks referenced symbols above unused ones in the same file', () => {
+    const symbols = rankSymbols(hubProject());
+
+    expect(symbols[0].name).toBe('usedEverywhere');
+    expect(rankOf(symbols, 'featureA')).toBeLessThan(rankOf(symbols, 'neverUsedA'));
+  });
+
+  it('attributes references to the enclosing definition', () => {
+    const tagsByFile = new Map([
+      ['lib.ts', [defTag('target', 'lib.ts', 1), defTag('other', 'lib.ts', 5)]],
+      [
+        'app.ts',
+        [
+          defTag('main', 'app.ts', 1),
+          defTag('helper', 'app.ts', 10),
+          refTag('helper', 'app.ts', 3),
+          refTag('target', 'app.ts', 12),
+        ],
+      ],
+    ]);
+
+    const symbols = rankSymbols(tagsByFile);
+
+    // main → helper → target: rank flows down the call chain
+    expect(rankOf(symbols, 'target')).toBeLessThan(rankOf(symbols, 'other'));
+    expect(rankOf(symbols, 'helper')).toBeLessThan(rankOf(symbols, 'main'));
+  });
+
+  it('personalizes toward weighted files', () => {
+    const plain = rankSymbols(hubProject());
+    const personalized = rankSymbols(hubProject(), {
+      personalization: new Map([['c.ts', 1]]),
+    });
+
+    expect(rankOf(personalized, 'featureC')).toBeLessThan(rankOf(plain, 'featureC'));
+    expect(rankOf(personalized, 'featureC')).toBeLessThan(rankOf(personalized, 'featureA'));
+  });
+
+  it('produces a probability distribution', () => {
+    const symbols = rankSymbols(hubProject(), { personalization: new Map([['a.ts', 2]]) });
+    const total = symbols.reduce((sum, s) => sum + s.rank, 0);
+
+    // Module-scope nodes hold the remaining mass
+    expect(total).toBeGreaterThan(0.5);
+    expect(total).toBeLessThanOrEqual(1 + 1e-9);
+  });
+
+  it('groups repeated definitions of a name within a file', () => {
+    const tagsByFile = new Map([
+      ['a.ts', [defTag('Foo', 'a.ts', 5, 'export'), defTag('Foo', 'a.ts', 3, 'class')]],
+    ]);
+
+    const symbols = rankSymbols(tagsByFile);
+
+    expect(symbols).toHaveLength(1);
+    expect(symbols[0].definitions.map((d) => d.line)).toEqual([3, 5]);
+  });
+
+  it('handles empty input', () => {
+    expect(rankSymbols(new Map())).toEqual([]);
+  });
+});
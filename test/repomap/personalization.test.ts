@@ -0,0 +1,74 @@
+/**
+ * Tests for repo map ranking personalization.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type Database from 'better-sqlite3-multiple-ciphers';
+import { createTestDb, setupTestDb, teardownTestDb } from '../storage/test-utils.js';
+import { upsertSessionState } from '../../src/storage/session-state-store.js';
+import {
+  buildPersonalization,
+  getRecentlyTouchedFiles,
+} from '../../src/repomap/personalization.js';
+
+const PROJECT = '/work/my-app';
+
+function touch(sessionId: string, endedAt: string, files: string[], projectPath = PROJECT) {
+  upsertSessionState(sessionId, 'my-app', projectPath, endedAt, {
+    filesTouched: files,
+    errors: [],
+    outcomes: [],
+    tasks: [],
+  });
+}
+
+describe('getRecentlyTouchedFiles', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = createTestDb();
+    setupTestDb(db);
+  });
+
+  afterEach(() => {
+    teardownTestDb(db);
+  });
+
+  it('weights files by session recency, relative to the project', () => {
+    touch('old', '2026-03-01T00:00:00Z', [`${PROJECT}/src/a.ts`, `${PROJECT}/src/b.ts`]);
+    touch('new', '2026-03-02T00:00:00Z', [`${PROJECT}/src/b.ts`, 'src/c.ts']);
+    touch('elsewhere', '2026-03-03T00:00:00Z', ['/other/src/a.ts'], '/other');
+
+    const weights = getRecentlyTouchedFiles(PROJECT, new Set(['src/a.ts', 'src/b.ts', 'src/c.ts']));
+
+    expect(Object.fromEntries(weights)).toEqual({
+      'src/b.ts': 0.5,
+      'src/c.ts': 0.5,
+      'src/a.ts': 0.25,
+    });
+  });
+
+  it('ignores files outside the scanned file list', () => {
+    touch('s1', '2026-03-01T00:00:00Z', [`${PROJECT}/README.md`, '/etc/hosts']);
+
+    expect(getRecentlyTouchedFiles(PROJECT, new Set(['src/a.ts'])).size).toBe(0);
+  });
+});
+
+describe('buildPersonalization', () => {
+  it('adds focus files on top of recent-session weights', () => {
+    const weights = buildPersonalization(
+      ['src/a.ts', 'src/d.ts'],
+      new Map([
+        ['src/a.ts', 0.5],
+        ['src/b.ts', 0.25],
+      ]),
+    );
+
+    expect(Object.fromEntries(weights)).toEqual({
+      'src/a.ts': 1.5,
+      'src/b.ts': 0.25,
+      'src/d.ts': 1,
+    });
+  });
+});
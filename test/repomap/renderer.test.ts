@@ -3,8 +3,9 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { renderMap, renderMinimalSummary } from '../../src/repomap/renderer.js';
+import { renderMap, renderWorkspaceMap, renderMinimalSummary } from '../../src/repomap/renderer.js';
 import { buildGraph } from '../../src/repomap/graph.js';
+import { buildPackageEdges, type Workspace } from '../../src/repomap/workspace.js';
 import type { Tag } from '../../src/repomap/parser.js';
 import { approximateTokens } from '../../src/utils/token-counter.js';
 
@@ -108,6 +109,22 @@ describe('renderMap', () => {
     expect(utilsIdx).toBeLessThan(coreIdx);
   });
 
+  it('lists only the top-ranked symbols of a hub file under a tight budget', () => {
+    const hubDefs = Array.from({ length: 12 }, (_, i) =>
+      defTag(`rarelyUsedHelper${i}`, 'src/hub.ts', 'function', 10 + i * 10),
+    );
+    const tagsByFile = new Map([
+      ['src/hub.ts', [defTag('widelyUsedFunction', 'src/hub.ts', 'function', 500), ...hubDefs]],
+      ['src/a.ts', [defTag('featureA', 'src/a.ts'), refTag('widelyUsedFunction', 'src/a.ts')]],
+      ['src/b.ts', [defTag('featureB', 'src/b.ts'), refTag('widelyUsedFunction', 'src/b.ts')]],
+    ]);
+
+    const output = renderMap(buildGraph(tagsByFile), { maxTokens: 20 });
+
+    expect(output).toContain('fn widelyUsedFunction (500)');
+    expect(output).not.toContain('rarelyUsedHelper');
+  });
+
   it('handles empty graph', () => {
     const graph = buildGraph(new Map());
     const output = renderMap(graph);
@@ -122,6 +139,60 @@ describe('renderMap', () => {
   });
 });
 
+describe('renderWorkspaceMap', () => {
+  const workspace: Workspace = {
+    kind: 'pnpm',
+    packages: [
+      { name: '@acme/core', path: 'packages/core', dependencies: [] },
+      { name: '@acme/web', path: 'packages/web', dependencies: ['@acme/core'] },
+    ],
+  };
+
+  function buildWorkspaceGraph() {
+    const core = 'packages/core/src/client.ts';
+    const web = 'packages/web/src/app.ts';
+    const coreDefs = Array.from({ length: 30 }, (_, i) =>
+      defTag(`coreFunction${i}`, core, 'function', i + 1),
+    );
+    return buildGraph(
+      new Map([
+        [core, coreDefs],
+        [web, [defTag('WebApp', web, 'class', 3), ...coreDefs.map((d) => refTag(d.name, web))]],
+        ['scripts/dev.ts', [defTag('startDevServer', 'scripts/dev.ts', 'function', 1)]],
+      ]),
+    );
+  }
+
+  it('renders a package overview and a sub-map per package', () => {
+    const graph = buildWorkspaceGraph();
+
+    const text = renderWorkspaceMap(graph, workspace, buildPackageEdges(workspace, graph), {
+      maxTokens: 1024,
+    });
+
+    expect(text).toMatch(/^Workspace \(pnpm, 2 packages\):/);
+    expect(text).toContain('  @acme/core (packages/core, 1 files)');
+    expect(text).toContain('  @acme/web (packages/web, 1 files) → @acme/core');
+    expect(text).toContain('=== @acme/core (packages/core) ===');
+    expect(text).toContain(
+      '=== @acme/web (packages/web) ===\npackages/web/src/app.ts\n  class WebApp (3)',
+    );
+    expect(text).toContain('=== (root) ===\nscripts/dev.ts');
+  });
+
+  it('keeps a sub-map for each package within a tight budget', () => {
+    const graph = buildWorkspaceGraph();
+
+    const text = renderWorkspaceMap(graph, workspace, buildPackageEdges(workspace, graph), {
+      maxTokens: 300,
+    });
+
+    expect(approximateTokens(text)).toBeLessThanOrEqual(300);
+    expect(text).toContain('class WebApp');
+    expect(text).toContain('fn coreFunction');
+  });
+});
+
 describe('renderMinimalSummary', () => {
   it('produces compact file list', () => {
     const graph = buildTestGraph();
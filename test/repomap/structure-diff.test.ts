@@ -0,0 +1,142 @@
+/**
+ * Tests for structural diffs between repo map snapshots.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  snapshotFromGraph,
+  diffStructure,
+  hasStructuralChanges,
+  formatStructureDiff,
+} from '../../src/repomap/structure-diff.js';
+import { buildGraph } from '../../src/repomap/graph.js';
+import type { Tag } from '../../src/repomap/parser.js';
+import type { SnapshotDefinition } from '../../src/storage/repomap-snapshot-store.js';
+
+type Files = Map<string, SnapshotDefinition[]>;
+
+function fn(name: string): SnapshotDefinition {
+  return { name, type: 'function' };
+}
+
+function files(entries: Record<string, SnapshotDefinition[]>): Files {
+  return new Map(Object.entries(entries));
+}
+
+describe('snapshotFromGraph', () => {
+  it('records definitions per file without methods', () => {
+    const tag = (name: string, type: Tag['type'], file: string): Tag => ({
+      name,
+      kind: 'def',
+      line: 1,
+      file,
+      type,
+    });
+    const graph = buildGraph(
+      new Map([
+        ['src/a.ts', [tag('Store', 'class', 'src/a.ts'), tag('save', 'method', 'src/a.ts')]],
+        ['src/empty.ts', []],
+      ]),
+    );
+
+    expect(snapshotFromGraph(graph)).toEqual(
+      files({ 'src/a.ts': [{ name: 'Store', type: 'class' }], 'src/empty.ts': [] }),
+    );
+  });
+});
+
+describe('diffStructure', () => {
+  it('reports no changes for identical snapshots', () => {
+    const snapshot = files({ 'src/a.ts': [fn('foo')] });
+
+    expect(hasStructuralChanges(diffStructure(snapshot, snapshot))).toBe(false);
+  });
+
+  it('reports added and removed files and definitions', () => {
+    const delta = diffStructure(
+      files({ 'src/a.ts': [fn('foo'), fn('bar')], 'src/old.ts': [fn('gone')] }),
+      files({
+        'src/a.ts': [fn('foo'), { name: 'Bar', type: 'class' }, fn('baz')],
+        'src/new.ts': [],
+      }),
+    );
+
+    expect(delta.addedFiles).toEqual([{ file: 'src/new.ts', definitionCount: 0 }]);
+    expect(delta.removedFiles).toEqual([{ file: 'src/old.ts', definitionCount: 1 }]);
+    expect(delta.added).toEqual([{ file: 'src/a.ts', name: 'Bar', type: 'class' }]);
+    expect(delta.renamed).toEqual([{ file: 'src/a.ts', from: 'bar', to: 'baz', type: 'function' }]);
+    expect(delta.removed).toEqual([]);
+  });
+
+  it('does not guess renames among several changes of a type', () => {
+    const delta = diffStructure(
+      files({ 'src/a.ts': [fn('one'), fn('two')] }),
+      files({ 'src/a.ts': [fn('three'), fn('four')] }),
+    );
+
+    expect(delta.renamed).toEqual([]);
+    expect(delta.added.map((d) => d.name)).toEqual(['three', 'four']);
+    expect(delta.removed.map((d) => d.name)).toEqual(['one', 'two']);
+  });
+
+  it('reports definitions moved between files', () => {
+    const delta = diffStructure(
+      files({ 'src/a.ts': [fn('foo'), fn('helper')], 'src/b.ts': [] }),
+      files({ 'src/a.ts': [fn('foo')], 'src/b.ts': [fn('helper')] }),
+    );
+
+    expect(delta.moved).toEqual([
+      { name: 'helper', type: 'function', from: 'src/a.ts', to: 'src/b.ts' },
+    ]);
+    expect(delta.added).toEqual([]);
+    expect(delta.removed).toEqual([]);
+  });
+
+  it('reports files with heavy churn', () => {
+    const delta = diffStructure(
+      files({ 'src/a.ts': [fn('a1'), fn('a2'), fn('a3')], 'src/b.ts': [fn('b1')] }),
+      files({ 'src/a.ts': [fn('x1'), fn('x2'), fn('x3')], 'src/b.ts': [fn('b2')] }),
+    );
+
+    expect(delta.churned).toEqual([{ file: 'src/a.ts', added: 3, removed: 3, renamed: 0 }]);
+  });
+});
+
+describe('formatStructureDiff', () => {
+  const since = { sessionId: 'abcdef1234567890', createdAt: '2026-03-05T10:00:00.000Z' };
+
+  it('summarizes and lists changes', () => {
+    const delta = diffStructure(
+      files({ 'src/a.ts': [fn('bar')], 'src/old.ts': [fn('gone')] }),
+      files({ 'src/a.ts': [fn('baz')], 'src/new.ts': [fn('fresh')] }),
+    );
+
+    const text = formatStructureDiff({ since, delta });
+
+    expect(text.split('\n')[0]).toBe(
+      'Structural changes since session abcdef12 ended (2026-03-05): 1 files added, 1 removed, 0 definitions added, 0 removed, 1 renamed, 0 moved',
+    );
+    expect(text).toContain('Files added (1):\n  src/new.ts (1 definitions)');
+    expect(text).toContain('Files removed (1):\n  src/old.ts (1 definitions)');
+    expect(text).toContain('Renamed (1):\n  src/a.ts: bar → baz [function]');
+  });
+
+  it('caps long lists', () => {
+    const added = Array.from({ length: 20 }, (_, i) => fn(`added${i}`));
+    const delta = diffStructure(files({ 'src/a.ts': [] }), files({ 'src/a.ts': added }));
+
+    const text = formatStructureDiff({ since, delta });
+
+    expect(text).toContain('Added (20):');
+    expect(text).toContain('  ...and 5 more');
+    expect(text).toContain('High churn (1):\n  src/a.ts: +20 -0');
+  });
+
+  it('reports when nothing changed', () => {
+    const snapshot = files({ 'src/a.ts': [fn('foo')] });
+
+    expect(formatStructureDiff({ since, delta: diffStructure(snapshot, snapshot) })).toBe(
+      'No structural changes since session abcdef12 ended (2026-03-05).',
+    );
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Tests for symbol lookup over the repo map graph.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type Database from 'better-sqlite3-multiple-ciphers';
+import {
+  createTestDb,
+  setupTestDb,
+  teardownTestDb,
+  createSampleChunk,
+  insertTestChunk,
+} from '../storage/test-utils.js';
+import { buildRepoMap } from '../../src/repomap/index.js';
+import type { DependencyGraph } from '../../src/repomap/graph.js';
+import {
+  findSymbolInGraph,
+  findSymbolMentions,
+  suggestSymbols,
+  formatSymbolLookup,
+} from '../../src/repomap/symbol-lookup.js';
+
+let db: Database.Database;
+let projectPath: string;
+let graph: DependencyGraph;
+
+beforeAll(async () => {
+  db = createTestDb();
+  setupTestDb(db);
+
+  projectPath = mkdtempSync(join(tmpdir(), 'symbol-lookup-'));
+  mkdirSync(join(projectPath, 'src'));
+  writeFileSync(
+    join(projectPath, 'src/tokens.ts'),
+    [
+      'export function refreshToken(token: string): string {',
+      '  return token;',
+      '}',
+      '',
+      'export function revokeToken(token: string): void {}',
+    ].join('\n'),
+  );
+  writeFileSync(
+    join(projectPath, 'src/auth.ts'),
+    [
+      "import { refreshToken } from './tokens.js';",
+      '',
+      'export function login(token: string): string {',
+      '  return refreshToken(token);',
+      '}',
+    ].join('\n'),
+  );
+
+  graph = (await buildRepoMap(projectPath, { useRecentSessions: false })).graph;
+
+  insertTestChunk(
+    db,
+    createSampleChunk({
+      id: 'chunk-refresh-1',
+      sessionSlug: 'my-app',
+      projectPath,
+      startTime: '2026-03-05T09:00:00Z',
+      content: 'Looking at the auth flow.\nThe refreshToken call races with logout.',
+    }),
+  );
+  insertTestChunk(
+    db,
+    createSampleChunk({
+      id: 'chunk-other-1',
+      sessionSlug: 'other-app',
+      projectPath: '/elsewhere',
+      content: 'refreshToken in another project',
+    }),
+  );
+});
+
+afterAll(() => {
+  teardownTestDb(db);
+  rmSync(projectPath, { recursive: true, force: true });
+});
+
+describe('findSymbolInGraph', () => {
+  it('returns definitions with their signature lines', () => {
+    const { definitions } = findSymbolInGraph(graph, projectPath, 'refreshToken');
+
+    expect(definitions.map((d) => [d.file, d.line, d.signature])).toContainEqual([
+      'src/tokens.ts',
+      1,
+      'export function refreshToken(token: string): string {',
+    ]);
+    expect(definitions.every((d) => d.file === 'src/tokens.ts')).toBe(true);
+  });
+
+  it('returns referencing files and lines, excluding the definition site', () => {
+    const { references } = findSymbolInGraph(graph, projectPath, 'refreshToken');
+
+    const auth = references.find((r) => r.file === 'src/auth.ts');
+    expect(auth?.lines).toContain(4);
+    expect(references.find((r) => r.file === 'src/tokens.ts')?.lines ?? []).not.toContain(1);
+  });
+
+  it('returns nothing for unknown symbols', () => {
+    const result = findSymbolInGraph(graph, projectPath, 'nope');
+
+    expect(result).toEqual({ definitions: [], references: [] });
+  });
+});
+
+describe('suggestSymbols', () => {
+  it('suggests defined names containing the query', () => {
+    expect(suggestSymbols(graph, 'token').sort()).toEqual(['refreshToken', 'revokeToken']);
+  });
+});
+
+describe('findSymbolMentions', () => {
+  it('finds chunks of the project recorded for the directory', () => {
+    const mentions = findSymbolMentions(projectPath, 'refreshToken');
+
+    expect(mentions).toEqual([
+      {
+        chunkId: 'chunk-refresh-1',
+        sessionSlug: 'my-app',
+        startTime: '2026-03-05T09:00:00Z',
+        excerpt: 'The refreshToken call races with logout.',
+      },
+    ]);
+  });
+});
+
+describe('formatSymbolLookup', () => {
+  it('renders definitions, references and mentions', () => {
+    const text = formatSymbolLookup({
+      name: 'refreshToken',
+      ...findSymbolInGraph(graph, projectPath, 'refreshToken'),
+      mentions: findSymbolMentions(projectPath, 'refreshToken'),
+    });
+
+    expect(text).toContain('Symbol: refreshToken');
+    expect(text).toContain(
+      'src/tokens.ts:1 [function] — export function refreshToken(token: string): string {',
+    );
+    expect(text).toMatch(/src\/auth\.ts: .*4/);
+    expect(text).toContain(
+      '1. [2026-03-05] my-app: "The refreshToken call races with logout." (chunk chunk-re)',
+    );
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Tests for monorepo workspace detection.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import {
+  detectWorkspace,
+  parsePnpmWorkspace,
+  parseCargoWorkspace,
+  parseGoWork,
+  packageForFile,
+  findPackage,
+  buildPackageEdges,
+  type Workspace,
+} from '../../src/repomap/workspace.js';
+import { buildGraph } from '../../src/repomap/graph.js';
+import type { Tag } from '../../src/repomap/parser.js';
+
+describe('workspace', () => {
+  let root: string;
+
+  /** Write files relative to the project root. */
+  function write(files: Record<string, string>): void {
+    for (const [path, content] of Object.entries(files)) {
+      mkdirSync(dirname(join(root, path)), { recursive: true });
+      writeFileSync(join(root, path), content);
+    }
+  }
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'causantic-workspace-'));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('manifest parsing', () => {
+    it('parses pnpm-workspace.yaml packages', () => {
+      const yaml = `packages:\n  - 'packages/*'\n  - "apps/**" # apps\n  - '!**/test/**'\ncatalog:\n  - ignored\n`;
+
+      expect(parsePnpmWorkspace(yaml)).toEqual(['packages/*', 'apps/**', '!**/test/**']);
+    });
+
+    it('parses Cargo workspace members and excludes', () => {
+      const toml = `[workspace]\nmembers = [\n  "crates/*",\n  "tools/cli",\n]\nexclude = ["crates/legacy"]\n\n[workspace.dependencies]\nserde = "1"\n`;
+
+      expect(parseCargoWorkspace(toml)).toEqual(['crates/*', 'tools/cli', '!crates/legacy']);
+      expect(parseCargoWorkspace('[package]\nname = "solo"\n')).toBeNull();
+    });
+
+    it('parses go.work use directives', () => {
+      const goWork = `go 1.22\n\nuse (\n\t./api\n\t./lib // shared\n)\n\nuse ./tools\n`;
+
+      expect(parseGoWork(goWork)).toEqual(['./api', './lib', './tools']);
+    });
+  });
+
+  describe('detectWorkspace', () => {
+    it('detects npm workspaces with declared dependencies', () => {
+      write({
+        'package.json': JSON.stringify({ name: 'acme', workspaces: ['packages/*'] }),
+        'packages/core/package.json': JSON.stringify({ name: '@acme/core' }),
+        'packages/web/package.json': JSON.stringify({
+          name: '@acme/web',
+          dependencies: { '@acme/core': 'workspace:*', react: '^19.0.0' },
+        }),
+        'packages/docs/README.md': 'not a package',
+      });
+
+      expect(detectWorkspace(root)).toEqual({
+        kind: 'npm',
+        packages: [
+          { name: '@acme/core', path: 'packages/core', dependencies: [] },
+          { name: '@acme/web', path: 'packages/web', dependencies: ['@acme/core'] },
+        ],
+      });
+    });
+
+    it('detects pnpm workspaces and applies exclusions', () => {
+      write({
+        'pnpm-workspace.yaml': `packages:\n  - 'apps/**'\n  - '!apps/legacy'\n`,
+        'apps/web/package.json': JSON.stringify({ name: 'web' }),
+        'apps/admin/package.json': JSON.stringify({
+          name: 'admin',
+          devDependencies: { web: 'workspace:*' },
+        }),
+        'apps/legacy/package.json': JSON.stringify({ name: 'legacy' }),
+        'apps/node_modules/dep/package.json': JSON.stringify({ name: 'dep' }),
+      });
+
+      const workspace = detectWorkspace(root);
+
+      expect(workspace?.kind).toBe('pnpm');
+      expect(workspace?.packages.map((p) => p.name)).toEqual(['admin', 'web']);
+      expect(workspace?.packages[0].dependencies).toEqual(['web']);
+    });
+
+    it('detects Cargo workspaces', () => {
+      write({
+        'Cargo.toml': `[workspace]\nmembers = ["crates/*"]\n`,
+        'crates/core/Cargo.toml': `[package]\nname = "acme-core"\n`,
+        'crates/server/Cargo.toml': `[package]\nname = "acme-server"\n\n[dependencies]\nacme-core = { path = "../core" }\ntokio = "1"\n`,
+      });
+
+      expect(detectWorkspace(root)?.packages).toEqual([
+        { name: 'acme-core', path: 'crates/core', dependencies: [] },
+        { name: 'acme-server', path: 'crates/server', dependencies: ['acme-core'] },
+      ]);
+    });
+
+    it('detects Go workspaces', () => {
+      write({
+        'go.work': `go 1.22\n\nuse (\n\t./api\n\t./lib\n)\n`,
+        'api/go.mod': `module example.com/api\n\nrequire (\n\texample.com/lib v0.0.0\n\tgithub.com/pkg/errors v0.9.1\n)\n`,
+        'lib/go.mod': `module example.com/lib\n`,
+      });
+
+      const workspace = detectWorkspace(root);
+
+      expect(workspace?.kind).toBe('go');
+      expect(workspace?.packages).toEqual([
+        { name: 'example.com/api', path: 'api', dependencies: ['example.com/lib'] },
+        { name: 'example.com/lib', path: 'lib', dependencies: [] },
+      ]);
+    });
+
+    it('returns null without a workspace or with a single package', () => {
+      write({ 'package.json': JSON.stringify({ name: 'solo' }) });
+      expect(detectWorkspace(root)).toBeNull();
+
+      write({
+        'package.json': JSON.stringify({ workspaces: ['packages/*'] }),
+        'packages/only/package.json': JSON.stringify({ name: 'only' }),
+      });
+      expect(detectWorkspace(root)).toBeNull();
+    });
+  });
+
+  describe('package lookup and edges', () => {
+    const workspace: Workspace = {
+      kind: 'npm',
+      packages: [
+        { name: '@acme/core', path: 'packages/core', dependencies: [] },
+        { name: '@acme/core-utils', path: 'packages/core/utils', dependencies: [] },
+        {
+          name: '@acme/web',
+          path: 'packages/web',
+          dependencies: ['@acme/core', '@acme/core-utils'],
+        },
+      ],
+    };
+
+    it('finds the innermost package of a file', () => {
+      expect(packageForFile(workspace, 'packages/core/src/a.ts')?.name).toBe('@acme/core');
+      expect(packageForFile(workspace, 'packages/core/utils/b.ts')?.name).toBe('@acme/core-utils');
+      expect(packageForFile(workspace, 'packages/corex/c.ts')).toBeUndefined();
+      expect(packageForFile(workspace, 'scripts/build.ts')).toBeUndefined();
+    });
+
+    it('finds packages by name or path', () => {
+      expect(findPackage(workspace, '@acme/web')?.path).toBe('packages/web');
+      expect(findPackage(workspace, './packages/web/')?.name).toBe('@acme/web');
+      expect(findPackage(workspace, 'web')).toBeUndefined();
+    });
+
+    it('rolls file references up to package edges', () => {
+      const def = (name: string, file: string): Tag => ({
+        name,
+        kind: 'def',
+        line: 1,
+        file,
+        type: 'function',
+      });
+      const ref = (name: string, file: string): Tag => ({
+        name,
+        kind: 'ref',
+        line: 2,
+        file,
+        type: 'identifier',
+      });
+      const graph = buildGraph(
+        new Map([
+          ['packages/core/src/client.ts', [def('createClient', 'packages/core/src/client.ts')]],
+          [
+            'packages/web/src/app.ts',
+            [
+              def('renderApp', 'packages/web/src/app.ts'),
+              ref('createClient', 'packages/web/src/app.ts'),
+            ],
+          ],
+          ['scripts/dev.ts', [ref('renderApp', 'scripts/dev.ts')]],
+        ]),
+      );
+
+      const edges = buildPackageEdges(workspace, graph);
+
+      expect(edges.map(({ from, to, declared }) => ({ from, to, declared }))).toEqual([
+        { from: '@acme/web', to: '@acme/core', declared: true },
+        { from: '@acme/web', to: '@acme/core-utils', declared: true },
+      ]);
+      expect(edges[0].weight).toBeGreaterThan(0);
+      expect(edges[1].weight).toBe(0);
+    });
+  });
+});
@@ -8,6 +8,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import type { SearchResponse } from '../../src/retrieval/search-assembler.js';
 import type { Chain } from '../../src/retrieval/chain-walker.js';
 import type { StoredChunk } from '../../src/storage/types.js';
+import type { StoredCommit } from '../../src/storage/commit-store.js';
 
 // --- Mock data factories ---
 
@@ -62,6 +63,8 @@ function makeChain(chunkIds: string[], score: number): Chain {
 let mockSearchResult: SearchResponse = makeSearchResponse();
 let mockChains: Chain[] = [];
 let mockBestChain: Chain | null = null;
+let mockCommits: StoredCommit[] = [];
+let walkedSeedIds: string[] = [];
 
 vi.mock('../../src/retrieval/search-assembler.js', () => ({
   searchContext: async () => mockSearchResult,
@@ -69,7 +72,10 @@ vi.mock('../../src/retrieval/search-assembler.js', () => ({
 }));
 
 vi.mock('../../src/retrieval/chain-walker.js', () => ({
-  walkChains: async () => mockChains,
+  walkChains: async (seedIds: string[]) => {
+    walkedSeedIds = seedIds;
+    return mockChains;
+  },
   selectBestChain: () => mockBestChain,
 }));
 
@@ -77,6 +83,11 @@ vi.mock('../../src/storage/chunk-store.js', () => ({
   getChunkById: (id: string) => makeChunk(id),
 }));
 
+vi.mock('../../src/retrieval/commit-lookup.js', () => ({
+  findCommitsInQuery: () => mockCommits,
+  formatCommitSummary: (commit: StoredCommit) => `Commit ${commit.sha.slice(0, 7)}`,
+}));
+
 vi.mock('../../src/utils/token-counter.js', () => ({
   approximateTokens: (text: string) => Math.ceil(text.length / 4),
 }));
@@ -95,6 +106,8 @@ describe('chain-assembler', () => {
     mockSearchResult = makeSearchResponse();
     mockChains = [];
     mockBestChain = null;
+    mockCommits = [];
+    walkedSeedIds = [];
   });
 
   describe('recallContext', () => {
@@ -167,6 +180,43 @@ describe('chain-assembler', () => {
     });
   });
 
+  describe('commit seeds', () => {
+    const commit: StoredCommit = {
+      sha: '1a2b3c4d5e6f708192a3b4c5d6e7f8091a2b3c4d',
+      projectPath: '/test',
+      sessionId: 'session-1',
+      sessionSlug: 'test-project',
+      subject: 'Fix token refresh race',
+      committedAt: '2024-01-01T00:02:00Z',
+      files: [],
+      chunkIds: ['commit-chunk'],
+      createdAt: '2024-01-01T00:03:00Z',
+    };
+
+    it('walks from the chunks that made a commit named in the query', async () => {
+      mockCommits = [commit];
+      const chain = makeChain(['A', 'commit-chunk'], 2.0);
+      mockChains = [chain];
+      mockBestChain = chain;
+
+      const result = await recallContext({ query: 'why was 1a2b3c4 made?' });
+
+      expect(walkedSeedIds).toEqual(['commit-chunk']);
+      expect(result.text.startsWith('Commit 1a2b3c4\n\n')).toBe(true);
+      expect(result.diagnostics.seedCount).toBe(1);
+      expect(result.diagnostics.commits).toEqual(['1a2b3c4']);
+    });
+
+    it('ignores commits made after asOf', async () => {
+      mockCommits = [commit];
+
+      const result = await recallContext({ query: '1a2b3c4', asOf: '2024-01-01T00:00:00Z' });
+
+      expect(walkedSeedIds).toEqual(['seed-1', 'seed-2']);
+      expect(result.diagnostics.commits).toBeUndefined();
+    });
+  });
+
   describe('predictContext', () => {
     it('returns chain-based response when chain is found', async () => {
       const chain = makeChain(['A', 'B', 'C'], 2.0);
@@ -519,6 +519,66 @@ describe('chain-walker', () => {
     });
   });
 
+  describe('asOf', () => {
+    it('follows edges created after the cutoff between chunks that started before it', async () => {
+      mockChunks.set('A', makeChunk('A'));
+      mockChunks.set('B', makeChunk('B'));
+      mockChunks.set('C', makeChunk('C'));
+
+      mockForwardEdges.set('A', [makeEdge('A', 'B')]);
+      mockForwardEdges.set('B', [{ ...makeEdge('B', 'C'), createdAt: '2024-06-01T00:00:00.000Z' }]);
+
+      const qEmb = unitVec(1, 0, 0);
+      for (const id of ['A', 'B', 'C']) {
+        mockEmbeddings.set(id, unitVec(0.9, 0.1, 0));
+      }
+
+      const chains = await walkChains(['A'], {
+        direction: 'forward',
+        tokenBudget: 10000,
+        queryEmbedding: qEmb,
+        asOf: '2024-03-01T00:00:00.000Z',
+      });
+
+      expect(chains.length).toBe(1);
+      expect(chains[0].chunkIds).toEqual(['A', 'B', 'C']);
+    });
+
+    it('skips chunks that started at or after the cutoff', async () => {
+      mockChunks.set('A', makeChunk('A'));
+      mockChunks.set('B', makeChunk('B', { startTime: '2024-06-01T00:00:00.000Z' }));
+
+      mockForwardEdges.set('A', [makeEdge('A', 'B')]);
+
+      const qEmb = unitVec(1, 0, 0);
+      mockEmbeddings.set('A', unitVec(0.9, 0.1, 0));
+      mockEmbeddings.set('B', unitVec(0.9, 0.1, 0));
+
+      const chains = await walkChains(['A'], {
+        direction: 'forward',
+        tokenBudget: 10000,
+        queryEmbedding: qEmb,
+        asOf: '2024-03-01T00:00:00.000Z',
+      });
+
+      expect(chains.length).toBe(1);
+      expect(chains[0].chunkIds).toEqual(['A']);
+    });
+
+    it('returns nothing for a seed that started after the cutoff', async () => {
+      mockChunks.set('A', makeChunk('A', { startTime: '2024-06-01T00:00:00.000Z' }));
+
+      const chains = await walkChains(['A'], {
+        direction: 'forward',
+        tokenBudget: 10000,
+        queryEmbedding: unitVec(1, 0, 0),
+        asOf: '2024-03-01T00:00:00.000Z',
+      });
+
+      expect(chains).toEqual([]);
+    });
+  });
+
   describe('oversized chunk filtering', () => {
     it('traverses through oversized mid-chain chunk without including it', async () => {
       // A(100) → B(50000) → C(100), budget=20000
@@ -322,4 +322,42 @@ describe('cluster-expander', () => {
     // Original hit should always be included
     expect(result.some((r) => r.chunkId === 'c4')).toBe(true);
   });
+
+  it('as-of cutoff excludes siblings that started later', async () => {
+    insertTestChunk(
+      db,
+      createSampleChunk({ id: 't1', sessionSlug: 'proj-a', startTime: '2024-01-01T00:00:00.000Z' }),
+    );
+    insertTestChunk(
+      db,
+      createSampleChunk({ id: 't2', sessionSlug: 'proj-a', startTime: '2024-02-01T00:00:00.000Z' }),
+    );
+    insertTestChunk(
+      db,
+      createSampleChunk({ id: 't3', sessionSlug: 'proj-a', startTime: '2024-06-01T00:00:00.000Z' }),
+    );
+
+    // Reload vector store so it picks up start times from chunks table
+    vectorStore.reset();
+    await vectorStore.load();
+
+    insertTestCluster(db, { id: 'cluster-time', name: 'Time' });
+    assignChunkToCluster(db, 't1', 'cluster-time', 0.1);
+    assignChunkToCluster(db, 't2', 'cluster-time', 0.2);
+    assignChunkToCluster(db, 't3', 'cluster-time', 0.15);
+
+    const hits: RankedItem[] = [{ chunkId: 't1', score: 0.8, source: 'vector' }];
+    const result = expandViaClusters(
+      hits,
+      defaultConfig,
+      undefined,
+      undefined,
+      0,
+      '2024-03-01T00:00:00.000Z',
+    );
+
+    const ids = result.map((r) => r.chunkId);
+    expect(ids).toContain('t2');
+    expect(ids).not.toContain('t3');
+  });
 });
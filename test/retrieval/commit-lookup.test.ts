@@ -0,0 +1,106 @@
+/**
+ * Tests for commit lookups.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type Database from 'better-sqlite3-multiple-ciphers';
+import { createTestDb, setupTestDb, teardownTestDb } from '../storage/test-utils.js';
+import {
+  findCommitsInQuery,
+  resolveCommit,
+  formatCommitSummary,
+} from '../../src/retrieval/commit-lookup.js';
+import { upsertCommit } from '../../src/storage/commit-store.js';
+import type { CommitInput, StoredCommit } from '../../src/storage/commit-store.js';
+
+const SHA = '1a2b3c4d5e6f708192a3b4c5d6e7f8091a2b3c4d';
+
+function commit(overrides: Partial<CommitInput> = {}): CommitInput {
+  return {
+    sha: SHA,
+    projectPath: '/work/my-app',
+    sessionId: 'session-1',
+    sessionSlug: 'my-app',
+    subject: 'Fix token refresh race',
+    committedAt: '2026-03-05T10:00:00.000Z',
+    files: [],
+    chunkIds: [],
+    ...overrides,
+  };
+}
+
+let db: Database.Database;
+
+beforeEach(() => {
+  db = createTestDb();
+  setupTestDb(db);
+});
+
+afterEach(() => {
+  teardownTestDb(db);
+});
+
+describe('findCommitsInQuery', () => {
+  it('finds commits whose SHAs the query mentions', () => {
+    upsertCommit(commit());
+    upsertCommit(commit({ sha: 'abcdef0123456789' }));
+
+    expect(findCommitsInQuery('why was commit 1a2b3c4 made?').map((c) => c.sha)).toEqual([SHA]);
+    expect(findCommitsInQuery(`compare ${SHA} and abcdef01`)).toHaveLength(2);
+  });
+
+  it('ignores words without digits and other projects', () => {
+    upsertCommit(commit({ sha: 'deadbeefcafe' }));
+    upsertCommit(commit());
+
+    expect(findCommitsInQuery('the deadbeefcafe constant')).toEqual([]);
+    expect(findCommitsInQuery('1a2b3c4', ['other'])).toEqual([]);
+  });
+});
+
+describe('resolveCommit', () => {
+  it('resolves a unique prefix', () => {
+    upsertCommit(commit());
+
+    expect(resolveCommit('1a2b', 'my-app').sha).toBe(SHA);
+  });
+
+  it('throws for unknown and ambiguous prefixes', () => {
+    upsertCommit(commit());
+    upsertCommit(commit({ sha: '1a2b9999' }));
+
+    expect(() => resolveCommit('ffff', 'my-app')).toThrow('Commit not found in project "my-app"');
+    expect(() => resolveCommit('1a2b', 'my-app')).toThrow('ambiguous (2 matches)');
+  });
+});
+
+describe('formatCommitSummary', () => {
+  it('formats SHA, date, subject and files', () => {
+    const files = Array.from({ length: 12 }, (_, i) => ({
+      path: `src/f${i}.ts`,
+      insertions: i,
+      deletions: 1,
+    }));
+    const stored: StoredCommit = { ...commit({ files }), createdAt: '2026-03-05T11:00:00Z' };
+
+    const lines = formatCommitSummary(stored).split('\n');
+
+    expect(lines[0]).toBe('Commit 1a2b3c4 (2026-03-05): Fix token refresh race');
+    expect(lines[1]).toBe('  src/f0.ts +0 -1');
+    expect(lines).toHaveLength(12);
+    expect(lines[11]).toBe('  ...and 2 more files');
+  });
+
+  it('appends the patch when asked', () => {
+    const stored: StoredCommit = {
+      ...commit(),
+      patch: '+refresh();',
+      createdAt: '2026-03-05T11:00:00Z',
+    };
+
+    expect(formatCommitSummary(stored)).not.toContain('```diff');
+    expect(formatCommitSummary(stored, { includePatch: true })).toContain(
+      '```diff\n+refresh();\n```',
+    );
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Tests for file history lookups.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type Database from 'better-sqlite3-multiple-ciphers';
+import {
+  createTestDb,
+  setupTestDb,
+  teardownTestDb,
+  createSampleChunk,
+  insertTestChunk,
+} from '../storage/test-utils.js';
+import { getFileHistory, formatFileHistory } from '../../src/retrieval/file-history.js';
+import { insertCodeRefs } from '../../src/storage/code-ref-store.js';
+import { upsertSessionState } from '../../src/storage/session-state-store.js';
+
+const PROJECT = '/work/my-app';
+
+let db: Database.Database;
+
+beforeEach(() => {
+  db = createTestDb();
+  setupTestDb(db);
+
+  insertTestChunk(
+    db,
+    createSampleChunk({
+      id: 'chunk-tokens-1',
+      sessionId: 'session-1',
+      sessionSlug: 'my-app',
+      startTime: '2026-03-05T09:00:00Z',
+      projectPath: PROJECT,
+      content: '[User]\nWhy does logout fail?\n[Assistant]\nrefreshToken races with logout.',
+    }),
+  );
+  insertCodeRefs('chunk-tokens-1', [
+    { filePath: 'src/tokens.ts', symbol: 'refreshToken', source: 'symbol' },
+  ]);
+
+  upsertSessionState(
+    'session-1',
+    'my-app',
+    PROJECT,
+    '2026-03-05T10:00:00Z',
+    {
+      filesTouched: [`${PROJECT}/src/tokens.ts`, `${PROJECT}/src/auth.ts`],
+      errors: [
+        { tool: 'Bash', message: 'tokens.ts(4): type error', resolution: 'Narrowed the type.' },
+        { tool: 'Bash', message: 'auth.ts(9): lint error' },
+      ],
+      outcomes: ['git commit'],
+      tasks: [],
+    },
+    'Fixed the token refresh race.',
+  );
+});
+
+afterEach(() => {
+  teardownTestDb(db);
+});
+
+describe('getFileHistory', () => {
+  it('combines linked chunks, errors naming the file and sessions', () => {
+    const history = getFileHistory(PROJECT, `${PROJECT}/src/tokens.ts`);
+
+    expect(history.filePath).toBe('src/tokens.ts');
+    expect(history.chunks).toEqual([
+      {
+        chunkId: 'chunk-tokens-1',
+        sessionSlug: 'my-app',
+        startTime: '2026-03-05T09:00:00Z',
+        symbols: ['refreshToken'],
+        sources: ['symbol'],
+        excerpt: 'refreshToken races with logout.',
+      },
+    ]);
+    expect(history.errors).toEqual([
+      {
+        sessionId: 'session-1',
+        endedAt: '2026-03-05T10:00:00Z',
+        tool: 'Bash',
+        message: 'tokens.ts(4): type error',
+        resolution: 'Narrowed the type.',
+      },
+    ]);
+    expect(history.sessions).toEqual([
+      {
+        sessionId: 'session-1',
+        endedAt: '2026-03-05T10:00:00Z',
+        summary: 'Fixed the token refresh race.',
+      },
+    ]);
+  });
+
+  it('finds nothing for files memory never saw', () => {
+    const history = getFileHistory(PROJECT, 'src/billing.ts');
+
+    expect(history.chunks).toEqual([]);
+    expect(history.sessions).toEqual([]);
+  });
+});
+
+describe('formatFileHistory', () => {
+  it('renders each section', () => {
+    const text = formatFileHistory(getFileHistory(PROJECT, 'src/tokens.ts'));
+
+    expect(text).toContain('# File history: src/tokens.ts');
+    expect(text).toContain(
+      '1. [2026-03-05] my-app: "refreshToken races with logout." [refreshToken] (chunk chunk-to)',
+    );
+    expect(text).toContain('- [2026-03-05] `Bash`: tokens.ts(4): type error → Narrowed the type.');
+    expect(text).toContain('- session- (2026-03-05): Fixed the token refresh race.');
+  });
+
+  it('says so when there is no history', () => {
+    expect(formatFileHistory(getFileHistory(PROJECT, 'src/billing.ts'))).toBe(
+      'No history recorded for src/billing.ts in /work/my-app.',
+    );
+  });
+});
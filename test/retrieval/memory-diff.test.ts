@@ -0,0 +1,178 @@
+/**
+ * Tests for per-project memory diffs.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type Database from 'better-sqlite3-multiple-ciphers';
+import {
+  createTestDb,
+  setupTestDb,
+  teardownTestDb,
+  createSampleChunk,
+  insertTestChunk,
+  insertTestCluster,
+  assignChunkToCluster,
+} from '../storage/test-utils.js';
+import {
+  computeMemoryDiff,
+  formatMemoryDiff,
+  parseSince,
+} from '../../src/retrieval/memory-diff.js';
+import { upsertSessionState } from '../../src/storage/session-state-store.js';
+import { resolveEntity, insertEntityMention } from '../../src/storage/entity-store.js';
+
+const SINCE = '2026-03-01T00:00:00.000Z';
+
+let db: Database.Database;
+
+function chunk(id: string, sessionId: string, startTime: string, project = 'my-app'): string {
+  return insertTestChunk(
+    db,
+    createSampleChunk({ id, sessionId, sessionSlug: project, startTime, endTime: startTime }),
+  );
+}
+
+beforeEach(() => {
+  db = createTestDb();
+  setupTestDb(db);
+
+  // Before the cutoff
+  chunk('old-1', 'old-session', '2026-02-10T10:00:00Z');
+  chunk('old-2', 'old-session', '2026-02-10T11:00:00Z');
+  upsertSessionState('old-session', 'my-app', null, '2026-02-10T12:00:00Z', {
+    filesTouched: ['/src/auth.ts'],
+    errors: [{ tool: 'Bash', message: 'old failure' }],
+    outcomes: ['git commit'],
+    tasks: [],
+  });
+
+  // After the cutoff
+  chunk('new-1', 'new-session', '2026-03-05T09:00:00Z');
+  chunk('new-2', 'new-session', '2026-03-05T10:00:00Z');
+  chunk('new-3', 'later-session', '2026-03-07T09:00:00Z');
+  upsertSessionState(
+    'new-session',
+    'my-app',
+    null,
+    '2026-03-05T11:00:00Z',
+    {
+      filesTouched: ['/src/auth.ts', '/src/billing.ts'],
+      errors: [
+        { tool: 'Bash', message: 'npm test failed', resolution: 'Fixed the mock.' },
+        { tool: 'Edit', message: 'old_string not found' },
+      ],
+      outcomes: ['git commit', 'gh pr create'],
+      tasks: [],
+    },
+    'Added billing webhooks.',
+  );
+  upsertSessionState('later-session', 'my-app', null, '2026-03-07T10:00:00Z', {
+    filesTouched: ['/src/invoice.ts'],
+    errors: [{ tool: 'Edit', message: 'old_string not found' }],
+    outcomes: ['git commit'],
+    tasks: [],
+  });
+
+  // Other project noise
+  chunk('other-1', 'other-session', '2026-03-06T09:00:00Z', 'other-app');
+
+  // Clusters: one existing topic that grew, one new topic
+  insertTestCluster(db, { id: 'cl-auth', name: 'Auth flow' });
+  assignChunkToCluster(db, 'old-1', 'cl-auth');
+  assignChunkToCluster(db, 'new-1', 'cl-auth');
+  insertTestCluster(db, { id: 'cl-billing', name: 'Billing' });
+  assignChunkToCluster(db, 'new-2', 'cl-billing');
+  assignChunkToCluster(db, 'new-3', 'cl-billing');
+  assignChunkToCluster(db, 'other-1', 'cl-billing');
+  insertTestCluster(db, { id: 'cl-stale', name: 'Stale' });
+  assignChunkToCluster(db, 'old-2', 'cl-stale');
+
+  // Entities: one mentioned before and after, one only after
+  const alice = resolveEntity('alice', 'person', '@alice', 'my-app');
+  insertEntityMention('old-1', alice, '@alice', 1);
+  insertEntityMention('new-1', alice, '@alice', 1);
+  const stripe = resolveEntity('stripe', 'organization', 'Stripe', 'my-app');
+  insertEntityMention('new-2', stripe, 'Stripe', 1);
+  insertEntityMention('new-3', stripe, 'Stripe', 1);
+});
+
+afterEach(() => {
+  teardownTestDb(db);
+});
+
+describe('computeMemoryDiff', () => {
+  it('lists sessions with activity since the cutoff', () => {
+    const diff = computeMemoryDiff('my-app', SINCE);
+
+    expect(diff.sessions.map((s) => [s.sessionId, s.summary])).toEqual([
+      ['later-session', null],
+      ['new-session', 'Added billing webhooks.'],
+    ]);
+  });
+
+  it('separates new topics from clusters that gained chunks', () => {
+    const diff = computeMemoryDiff('my-app', SINCE);
+
+    expect(diff.newClusters).toEqual([
+      { clusterId: 'cl-billing', name: 'Billing', newMembers: 2, priorMembers: 0 },
+    ]);
+    expect(diff.shiftedClusters).toEqual([
+      { clusterId: 'cl-auth', name: 'Auth flow', newMembers: 1, priorMembers: 1 },
+    ]);
+  });
+
+  it('reports only entities first mentioned since the cutoff', () => {
+    const diff = computeMemoryDiff('my-app', SINCE);
+
+    expect(diff.newEntities).toEqual([{ name: 'stripe', type: 'organization', mentions: 2 }]);
+  });
+
+  it('reports files no earlier session touched', () => {
+    const diff = computeMemoryDiff('my-app', SINCE);
+
+    expect(diff.newFiles).toEqual(['/src/billing.ts', '/src/invoice.ts']);
+  });
+
+  it('splits errors into resolved and open, and counts outcomes', () => {
+    const diff = computeMemoryDiff('my-app', SINCE);
+
+    expect(diff.resolvedErrors).toEqual([
+      { tool: 'Bash', message: 'npm test failed', resolution: 'Fixed the mock.', occurrences: 1 },
+    ]);
+    expect(diff.openErrors).toEqual([
+      { tool: 'Edit', message: 'old_string not found', occurrences: 2 },
+    ]);
+    expect(diff.outcomes).toEqual([
+      { outcome: 'git commit', count: 2 },
+      { outcome: 'gh pr create', count: 1 },
+    ]);
+  });
+});
+
+describe('formatMemoryDiff', () => {
+  it('renders each non-empty section', () => {
+    const text = formatMemoryDiff(computeMemoryDiff('my-app', SINCE));
+
+    expect(text).toContain('# Memory diff: my-app since 2026-03-01');
+    expect(text).toContain('## New topics (1)');
+    expect(text).toContain('- Billing (2 chunks)');
+    expect(text).toContain('- Auth flow (+1 chunks, 1 before)');
+    expect(text).toContain('- stripe [organization] (2 mentions)');
+    expect(text).toContain('- Bash: npm test failed → Fixed the mock.');
+    expect(text).toContain('- Edit: old_string not found (×2)');
+    expect(text).toContain('- git commit ×2');
+  });
+
+  it('says so when nothing changed', () => {
+    const text = formatMemoryDiff(computeMemoryDiff('my-app', '2026-04-01T00:00:00.000Z'));
+
+    expect(text).toContain('No changes in memory for "my-app"');
+  });
+});
+
+describe('parseSince', () => {
+  it('normalizes dates and rejects garbage', () => {
+    expect(parseSince('2026-03-01')).toBe(SINCE);
+    expect(() => parseSince('last week')).toThrow('Invalid since date: last week');
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Tests for natural-language query parsing into search filters.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseQuery,
+  hasFilters,
+  formatInterpretation,
+  type QueryParserContext,
+} from '../../src/retrieval/query-parser.js';
+
+// Wednesday, 13 March 2024, 15:00 local time
+const NOW = new Date(2024, 2, 13, 15, 0);
+
+const CONTEXT: QueryParserContext = {
+  projects: ['api', 'web-app', 'causantic'],
+  agents: ['reviewer', 'researcher'],
+  now: NOW,
+};
+
+/** ISO string of a local date. */
+function local(year: number, month: number, day: number): string {
+  return new Date(year, month - 1, day).toISOString();
+}
+
+describe('parseQuery', () => {
+  it('leaves plain queries untouched', () => {
+    const result = parseQuery('how does the session reconstructor work', CONTEXT);
+
+    expect(result.searchText).toBe('how does the session reconstructor work');
+    expect(result.filters).toEqual({});
+    expect(result.phrases).toEqual([]);
+    expect(hasFilters(result)).toBe(false);
+  });
+
+  describe('date phrases', () => {
+    const cases: Array<[string, { after?: string; before?: string }]> = [
+      ['today', { after: local(2024, 3, 13), before: local(2024, 3, 14) }],
+      ['yesterday', { after: local(2024, 3, 12), before: local(2024, 3, 13) }],
+      ['this week', { after: local(2024, 3, 11) }],
+      ['last week', { after: local(2024, 3, 4), before: local(2024, 3, 11) }],
+      ['this month', { after: local(2024, 3, 1) }],
+      ['last month', { after: local(2024, 2, 1), before: local(2024, 3, 1) }],
+      ['last Tuesday', { after: local(2024, 3, 12), before: local(2024, 3, 13) }],
+      ['last Wednesday', { after: local(2024, 3, 6), before: local(2024, 3, 7) }],
+      ['on friday', { after: local(2024, 3, 8), before: local(2024, 3, 9) }],
+      ['on Wednesday', { after: local(2024, 3, 13), before: local(2024, 3, 14) }],
+      ['3 days ago', { after: local(2024, 3, 10), before: local(2024, 3, 11) }],
+      ['2 weeks ago', { after: local(2024, 2, 28), before: local(2024, 3, 6) }],
+      ['in the past 10 days', { after: local(2024, 3, 3) }],
+      ['over the last 2 months', { after: local(2024, 1, 13) }],
+      ['in the past week', { after: local(2024, 3, 6) }],
+      ['since 2024-02-20', { after: local(2024, 2, 20) }],
+      ['before 2024-02-20', { before: local(2024, 2, 20) }],
+      ['on 2024-02-20', { after: local(2024, 2, 20), before: local(2024, 2, 21) }],
+      ['in January', { after: local(2024, 1, 1), before: local(2024, 2, 1) }],
+      ['in November', { after: local(2023, 11, 1), before: local(2023, 12, 1) }],
+      ['in May 2022', { after: local(2022, 5, 1), before: local(2022, 6, 1) }],
+    ];
+
+    for (const [phrase, expected] of cases) {
+      it(`parses "${phrase}"`, () => {
+        const result = parseQuery(`auth bug fix ${phrase}`, CONTEXT);
+
+        expect(result.filters).toEqual(expected);
+        expect(result.searchText).toBe('auth bug fix');
+        expect(result.phrases).toEqual([phrase]);
+      });
+    }
+
+    it('uses only the first date phrase', () => {
+      const result = parseQuery('yesterday or last week', CONTEXT);
+
+      expect(result.filters.after).toBe(local(2024, 3, 12));
+      expect(result.searchText).toBe('or last week');
+    });
+
+    it('ignores lowercase "may" and invalid dates', () => {
+      const result = parseQuery('this may fail in may on 2024-02-31', CONTEXT);
+
+      expect(result.filters).toEqual({});
+    });
+  });
+
+  describe('projects and agents', () => {
+    it('matches known projects introduced as a project', () => {
+      const result = parseQuery('what did we change in the web-app project?', CONTEXT);
+
+      expect(result.filters.projects).toEqual(['web-app']);
+      expect(result.searchText).toBe('what did we change?');
+    });
+
+    it('matches "project <name>" and several projects', () => {
+      const result = parseQuery('rate limiting in project API and in the causantic repo', CONTEXT);
+
+      expect(result.filters.projects).toEqual(['api', 'causantic']);
+    });
+
+    it('ignores project names without a cue and unknown projects', () => {
+      expect(parseQuery('the api returns 500', CONTEXT).filters).toEqual({});
+      expect(parseQuery('in the billing project', CONTEXT).filters).toEqual({});
+    });
+
+    it('matches known agents introduced as an agent', () => {
+      const result = parseQuery('findings by the researcher agent', CONTEXT);
+
+      expect(result.filters.agent).toBe('researcher');
+      expect(result.searchText).toBe('findings');
+    });
+  });
+
+  describe('files and tools', () => {
+    it('extracts file paths and keeps them in the search text', () => {
+      const result = parseQuery('why did we edit src/storage/db.ts and auth.py', CONTEXT);
+
+      expect(result.filters.files).toEqual(['src/storage/db.ts', 'auth.py']);
+      expect(result.searchText).toBe('why did we edit src/storage/db.ts and auth.py');
+    });
+
+    it('ignores abbreviations, versions and URLs', () => {
+      const result = parseQuery('see e.g. https://example.com/page.html in v1.2', CONTEXT);
+
+      expect(result.filters.files).toBeUndefined();
+    });
+
+    it('matches distinctive tool names anywhere', () => {
+      const result = parseQuery('docs we read with WebFetch', CONTEXT);
+
+      expect(result.filters.tools).toEqual(['WebFetch']);
+      expect(result.searchText).toBe('docs we read with WebFetch');
+    });
+
+    it('matches common tool names only next to a cue', () => {
+      expect(parseQuery('Bash commands that failed', CONTEXT).filters.tools).toEqual(['Bash']);
+      expect(parseQuery('searched using Grep', CONTEXT).filters.tools).toEqual(['Grep']);
+      expect(parseQuery('read the docs and edit the task', CONTEXT).filters).toEqual({});
+    });
+  });
+
+  it('combines filters and strips only filter phrases', () => {
+    const result = parseQuery(
+      'what did we do about the migration last Tuesday in the api project',
+      CONTEXT,
+    );
+
+    expect(result.searchText).toBe('what did we do about the migration');
+    expect(result.filters).toEqual({
+      projects: ['api'],
+      after: local(2024, 3, 12),
+      before: local(2024, 3, 13),
+    });
+    expect(result.phrases).toEqual(['last Tuesday', 'in the api project']);
+  });
+
+  it('drops the filters of phrases that overlap an earlier phrase', () => {
+    const result = parseQuery('bugs in the today-app project', {
+      ...CONTEXT,
+      projects: [...CONTEXT.projects, 'today-app'],
+    });
+
+    expect(result.filters).toEqual({ projects: ['today-app'] });
+    expect(result.searchText).toBe('bugs');
+    expect(result.phrases).toEqual(['in the today-app project']);
+  });
+
+  it('falls back to the query when only filter phrases remain', () => {
+    const result = parseQuery('yesterday', CONTEXT);
+
+    expect(result.searchText).toBe('yesterday');
+    expect(result.filters.after).toBe(local(2024, 3, 12));
+  });
+});
+
+describe('formatInterpretation', () => {
+  it('renders applied filters on one line', () => {
+    const line = formatInterpretation({
+      searchText: 'migration',
+      filters: { projects: ['api'], after: '2024-03-12T00:00:00.000Z', tools: ['Bash'] },
+      phrases: [],
+    });
+
+    expect(line).toBe(
+      '[Query interpreted: project=api; time=2024-03-12T00:00:00.000Z to now; tools=Bash; searched for "migration"]',
+    );
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Tests for cross-encoder reranking of fused candidates.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { RankedItem } from '../../src/retrieval/rrf.js';
+
+// --- Mocks ---
+
+const mockRelevance = new Map<string, number>();
+const loadCalls: string[] = [];
+const scoreCalls: string[][] = [];
+let failLoad = false;
+let failScore = false;
+let msPerBatch = 0;
+let clock = 0;
+
+vi.mock('../../src/models/cross-encoder.js', () => ({
+  CrossEncoder: class MockCrossEncoder {
+    async load(modelId: string) {
+      loadCalls.push(modelId);
+      if (failLoad) throw new Error('model not found');
+    }
+    async score(_query: string, passages: string[]) {
+      if (failScore) throw new Error('inference failed');
+      scoreCalls.push(passages);
+      clock += msPerBatch;
+      return passages.map((p) => mockRelevance.get(p) ?? 0);
+    }
+    async dispose() {}
+  },
+}));
+
+vi.mock('../../src/utils/logger.js', () => ({
+  createLogger: () => ({ info: vi.fn(), warn: vi.fn(), debug: vi.fn(), error: vi.fn() }),
+}));
+
+import {
+  rerankCandidates,
+  disposeReranker,
+  type RerankerConfig,
+} from '../../src/retrieval/reranker.js';
+
+// --- Helpers ---
+
+const CONFIG: RerankerConfig = {
+  enabled: true,
+  model: 'mock-model',
+  topN: 30,
+  latencyBudgetMs: 500,
+};
+
+/** Candidates c0..c{n-1} with descending fused scores; content is "text <id>". */
+function makeCandidates(n: number): RankedItem[] {
+  return Array.from({ length: n }, (_, i) => ({
+    chunkId: `c${i}`,
+    score: 1 / (i + 1),
+    source: 'vector' as const,
+  }));
+}
+
+const contentOf = (id: string) => `text ${id}`;
+
+describe('rerankCandidates', () => {
+  beforeEach(() => {
+    mockRelevance.clear();
+    loadCalls.length = 0;
+    scoreCalls.length = 0;
+    failLoad = false;
+    failScore = false;
+    msPerBatch = 0;
+    clock = 0;
+    vi.spyOn(Date, 'now').mockImplementation(() => clock);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await disposeReranker();
+  });
+
+  it('returns candidates unchanged when disabled', async () => {
+    const candidates = makeCandidates(5);
+
+    const result = await rerankCandidates(
+      'q',
+      candidates,
+      { ...CONFIG, enabled: false },
+      contentOf,
+    );
+
+    expect(result.items).toBe(candidates);
+    expect(result.stats).toBeNull();
+    expect(loadCalls).toEqual([]);
+  });
+
+  it('reorders the top N by relevance, keeping the score distribution', async () => {
+    const candidates = makeCandidates(5);
+    mockRelevance.set('text c2', 9);
+    mockRelevance.set('text c0', 5);
+    mockRelevance.set('text c1', -1);
+
+    const result = await rerankCandidates('q', candidates, { ...CONFIG, topN: 3 }, contentOf);
+
+    expect(result.items.map((i) => i.chunkId)).toEqual(['c2', 'c0', 'c1', 'c3', 'c4']);
+    expect(result.items.map((i) => i.score)).toEqual(candidates.map((c) => c.score));
+    expect(result.items[0].source).toBe('vector');
+    expect(result.stats).toMatchObject({ candidates: 3, scored: 3, budgetExhausted: false });
+  });
+
+  it('loads the model once across searches', async () => {
+    await rerankCandidates('q', makeCandidates(3), CONFIG, contentOf);
+    await rerankCandidates('q', makeCandidates(3), CONFIG, contentOf);
+
+    expect(loadCalls).toEqual(['mock-model']);
+  });
+
+  it('scores in batches and reorders only the scored prefix once the budget runs out', async () => {
+    const candidates = makeCandidates(30);
+    mockRelevance.set('text c7', 10);
+    mockRelevance.set('text c8', 20);
+    msPerBatch = 300;
+
+    const result = await rerankCandidates('q', candidates, CONFIG, contentOf);
+
+    // Two batches of 8 fit in 500ms; the third is skipped
+    expect(scoreCalls).toHaveLength(2);
+    expect(result.stats).toMatchObject({ candidates: 30, scored: 16, budgetExhausted: true });
+    expect(result.items.slice(0, 2).map((i) => i.chunkId)).toEqual(['c8', 'c7']);
+    expect(result.items.slice(16).map((i) => i.chunkId)).toEqual(
+      candidates.slice(16).map((c) => c.chunkId),
+    );
+  });
+
+  it('sinks candidates without content to the end of the reranked prefix', async () => {
+    const result = await rerankCandidates('q', makeCandidates(3), CONFIG, (id) =>
+      id === 'c0' ? undefined : contentOf(id),
+    );
+
+    expect(result.items.map((i) => i.chunkId)).toEqual(['c1', 'c2', 'c0']);
+    expect(scoreCalls[0]).toEqual(['text c1', 'text c2']);
+  });
+
+  it('keeps fused order and stops retrying when the model fails to load', async () => {
+    failLoad = true;
+    const candidates = makeCandidates(4);
+
+    const first = await rerankCandidates('q', candidates, CONFIG, contentOf);
+    const second = await rerankCandidates('q', candidates, CONFIG, contentOf);
+
+    expect(first.items).toBe(candidates);
+    expect(second.stats).toBeNull();
+    expect(loadCalls).toEqual(['mock-model']);
+  });
+
+  it('keeps fused order when scoring fails', async () => {
+    failScore = true;
+    const candidates = makeCandidates(4);
+
+    const result = await rerankCandidates('q', candidates, CONFIG, contentOf);
+
+    expect(result.items).toBe(candidates);
+    expect(result.stats).toBeNull();
+  });
+});
@@ -13,15 +13,43 @@ const mockChunks = new Map<string, StoredChunk>();
 let mockVectorResults: Array<{ id: string; distance: number }> = [];
 let mockKeywordResults: Array<{ id: string; score: number }> = [];
 let mockEmbedding: number[] = [1, 0, 0];
+let lastVectorArgs: unknown[] = [];
+let lastKeywordArgs: unknown[] = [];
+let mockRerankerEnabled = false;
+const mockRelevance = new Map<string, number>();
+let mockQueryParsing = false;
+let mockFacetIds: string[] = [];
+let lastFacetArgs: unknown[] = [];
 
 vi.mock('../../src/storage/chunk-store.js', () => ({
   getChunkById: (id: string) => mockChunks.get(id) ?? null,
+  getDistinctProjects: () => [{ slug: 'api' }, { slug: 'web' }],
+  getDistinctAgents: () => ['reviewer'],
+}));
+
+vi.mock('../../src/storage/chunk-facets.js', async (importOriginal) => ({
+  ...(await importOriginal<Record<string, unknown>>()),
+  queryChunkIdsByFacets: (...args: unknown[]) => {
+    lastFacetArgs = args;
+    return new Set(mockFacetIds);
+  },
 }));
 
 vi.mock('../../src/storage/vector-store.js', () => ({
   vectorStore: {
-    search: async () => mockVectorResults,
-    searchByProject: async () => mockVectorResults,
+    search: async (...args: unknown[]) => {
+      lastVectorArgs = args;
+      return mockVectorResults;
+    },
+    searchByProject: async (...args: unknown[]) => {
+      lastVectorArgs = args;
+      return mockVectorResults;
+    },
+    searchWithinIds: async (...args: unknown[]) => {
+      lastVectorArgs = args;
+      const ids = args[1] as string[];
+      return mockVectorResults.filter((r) => ids.includes(r.id));
+    },
     get: async () => null,
     setModelId: () => {},
   },
@@ -34,6 +62,10 @@ vi.mock('../../src/storage/vector-store.js', () => ({
   },
 }));
 
+vi.mock('../../src/storage/embedding-migration.js', () => ({
+  resolveServingModel: (model: string) => model,
+}));
+
 vi.mock('../../src/storage/index-entry-store.js', () => ({
   getIndexEntryCount: () => 0, // fallback to chunk-based search in tests
   dereferenceToChunkIds: () => [],
@@ -43,10 +75,12 @@ vi.mock('../../src/storage/index-entry-store.js', () => ({
 vi.mock('../../src/storage/keyword-store.js', () => {
   return {
     KeywordStore: class MockKeywordStore {
-      search() {
+      search(...args: unknown[]) {
+        lastKeywordArgs = args;
         return mockKeywordResults;
       }
-      searchByProject() {
+      searchByProject(...args: unknown[]) {
+        lastKeywordArgs = args;
         return mockKeywordResults;
       }
     },
@@ -65,6 +99,16 @@ vi.mock('../../src/models/embedder.js', () => {
   };
 });
 
+vi.mock('../../src/models/cross-encoder.js', () => ({
+  CrossEncoder: class MockCrossEncoder {
+    async load() {}
+    async score(_query: string, passages: string[]) {
+      return passages.map((p) => mockRelevance.get(p) ?? 0);
+    }
+    async dispose() {}
+  },
+}));
+
 vi.mock('../../src/models/model-registry.js', () => ({
   getModel: () => ({ name: 'mock-model', path: '/mock' }),
 }));
@@ -102,6 +146,13 @@ vi.mock('../../src/config/loader.js', () => ({
       targetDescriptionTokens: 130,
       batchRefreshLimit: 500,
     },
+    queryParsing: mockQueryParsing,
+    reranker: {
+      enabled: mockRerankerEnabled,
+      model: 'mock-cross-encoder',
+      topN: 30,
+      latencyBudgetMs: 500,
+    },
   }),
 }));
 
@@ -152,6 +203,11 @@ describe('search-assembler', () => {
     mockVectorResults = [];
     mockKeywordResults = [];
     mockEmbedding = [1, 0, 0];
+    mockRerankerEnabled = false;
+    mockRelevance.clear();
+    mockQueryParsing = false;
+    mockFacetIds = [];
+    lastFacetArgs = [];
   });
 
   afterEach(async () => {
@@ -171,6 +227,30 @@ describe('search-assembler', () => {
       expect(result.durationMs).toBeGreaterThanOrEqual(0);
     });
 
+    it('passes the asOf cutoff to vector and keyword search', async () => {
+      await searchContext({ query: 'test', asOf: '2024-03-01T00:00:00.000Z' });
+      expect(lastVectorArgs[2]).toBe('2024-03-01T00:00:00.000Z');
+      expect(lastKeywordArgs[2]).toBe('2024-03-01T00:00:00.000Z');
+
+      await searchContext({ query: 'test', projectFilter: 'p', asOf: '2024-03-01T00:00:00.000Z' });
+      expect(lastVectorArgs[4]).toBe('2024-03-01T00:00:00.000Z');
+      expect(lastKeywordArgs[4]).toBe('2024-03-01T00:00:00.000Z');
+    });
+
+    it('measures recency decay from the asOf cutoff', async () => {
+      mockChunks.set('old', makeChunk('old', { startTime: '2024-01-01T00:00:00Z' }));
+      mockChunks.set('older', makeChunk('older', { startTime: '2023-06-01T00:00:00Z' }));
+      mockVectorResults = [
+        { id: 'older', distance: 0.1 },
+        { id: 'old', distance: 0.1 },
+      ];
+
+      // Relative to a cutoff just after 'old', its recency boost is near-maximal
+      const result = await searchContext({ query: 'test', asOf: '2024-01-01T06:00:00.000Z' });
+
+      expect(result.chunks[0].id).toBe('old');
+    });
+
     it('returns chunks from vector search', async () => {
       mockChunks.set('c1', makeChunk('c1'));
       mockChunks.set('c2', makeChunk('c2'));
@@ -190,6 +270,31 @@ describe('search-assembler', () => {
       expect(result.tokenCount).toBeGreaterThan(0);
     });
 
+    it('reorders candidates by cross-encoder relevance when the reranker is enabled', async () => {
+      mockChunks.set('c1', makeChunk('c1', { content: 'loosely related' }));
+      mockChunks.set('c2', makeChunk('c2', { content: 'exact answer' }));
+      mockVectorResults = [
+        { id: 'c1', distance: 0.1 },
+        { id: 'c2', distance: 0.3 },
+      ];
+      mockRelevance.set('exact answer', 8);
+      mockRelevance.set('loosely related', -2);
+
+      const baseline = await searchContext({ query: 'test' });
+      mockRerankerEnabled = true;
+      const reranked = await searchContext({ query: 'test' });
+
+      expect(baseline.chunks.map((c) => c.id)).toEqual(['c1', 'c2']);
+      expect(baseline.rerank).toBeUndefined();
+      expect(reranked.chunks.map((c) => c.id)).toEqual(['c2', 'c1']);
+      expect(reranked.seedIds[0]).toBe('c2');
+      expect(reranked.rerank).toMatchObject({
+        model: 'mock-cross-encoder',
+        candidates: 2,
+        scored: 2,
+      });
+    });
+
     it('includes keyword results via RRF fusion', async () => {
       mockChunks.set('v1', makeChunk('v1'));
       mockChunks.set('k1', makeChunk('k1'));
@@ -253,6 +358,21 @@ describe('search-assembler', () => {
       expect(currentChunk).toBeDefined();
     });
 
+    it('boosts pinned chunks above equally recent unpinned ones', async () => {
+      mockChunks.set('plain', makeChunk('plain'));
+      mockChunks.set('note', makeChunk('note', { pinned: true }));
+
+      // plain has the better base score
+      mockVectorResults = [
+        { id: 'plain', distance: 0.1 },
+        { id: 'note', distance: 0.15 },
+      ];
+
+      const result = await searchContext({ query: 'test' });
+
+      expect(result.chunks.map((c) => c.id)).toEqual(['note', 'plain']);
+    });
+
     it('respects token budget', async () => {
       // Each chunk is ~50 tokens. Budget = 80 → only 1 full chunk + maybe truncated
       mockChunks.set('c1', makeChunk('c1', { approxTokens: 50 }));
@@ -461,6 +581,148 @@ describe('search-assembler', () => {
 
       expect(result.chunks.length).toBe(1);
     });
+
+    describe('query parsing', () => {
+      beforeEach(() => {
+        mockQueryParsing = true;
+      });
+
+      it('searches the remaining text within the parsed project and date range', async () => {
+        mockChunks.set('early', makeChunk('early', { startTime: '2024-01-01T00:00:00Z' }));
+        mockChunks.set('late', makeChunk('late', { startTime: '2024-01-05T00:00:00Z' }));
+        mockVectorResults = [
+          { id: 'early', distance: 0.1 },
+          { id: 'late', distance: 0.2 },
+        ];
+        mockFacetIds = ['late'];
+        const after = new Date(2024, 0, 3).toISOString();
+
+        const result = await searchContext({
+          query: 'migration fixes in the api project since 2024-01-03',
+        });
+
+        expect(lastKeywordArgs[0]).toBe('migration fixes');
+        expect(lastKeywordArgs[1]).toBe('api');
+        expect(lastKeywordArgs[5]).toMatchObject({ after });
+        expect(lastFacetArgs[1]).toEqual({
+          projects: 'api',
+          agentId: undefined,
+          before: undefined,
+        });
+        expect(lastVectorArgs[1]).toEqual(['late']);
+        expect(result.chunks.map((c) => c.id)).toEqual(['late']);
+        expect(result.interpretation).toMatchObject({
+          searchText: 'migration fixes',
+          filters: { projects: ['api'], after },
+        });
+      });
+
+      it('passes a parsed upper bound as the as-of cutoff', async () => {
+        await searchContext({ query: 'auth work before 2024-01-03' });
+
+        expect(lastVectorArgs[1]).toBe(20);
+        expect(lastVectorArgs[2]).toBe(new Date(2024, 0, 3).toISOString());
+      });
+
+      it('turns parsed tools and files into facets', async () => {
+        mockChunks.set('bash', makeChunk('bash'));
+        mockVectorResults = [{ id: 'bash', distance: 0.1 }];
+        mockFacetIds = ['bash'];
+
+        await searchContext({ query: 'Bash commands that failed' });
+        expect(lastFacetArgs[0]).toMatchObject({ tools: ['Bash'] });
+
+        await searchContext({ query: 'changes to src/db.ts' });
+        expect(lastFacetArgs[0]).toMatchObject({ files: ['src/db.ts'] });
+      });
+
+      it('lets requested facets override parsed ones', async () => {
+        mockFacetIds = ['bash'];
+
+        const result = await searchContext({
+          query: 'Bash commands that failed',
+          facets: { tools: ['Edit'] },
+        });
+
+        expect(lastFacetArgs[0]).toMatchObject({ tools: ['Edit'] });
+        expect(result.interpretation).toBeUndefined();
+      });
+
+      it('lets explicit filters win and can be turned off per request', async () => {
+        await searchContext({ query: 'bugs in the api project', projectFilter: 'web' });
+        expect(lastVectorArgs[1]).toBe('web');
+        expect(lastKeywordArgs[0]).toBe('bugs');
+
+        const result = await searchContext({ query: 'bugs in the api project', parseQuery: false });
+        expect(lastKeywordArgs[0]).toBe('bugs in the api project');
+        expect(result.interpretation).toBeUndefined();
+      });
+    });
+
+    describe('facets', () => {
+      it('scores vectors only within facet-matching chunks and passes facets to keyword search', async () => {
+        mockChunks.set('failed', makeChunk('failed'));
+        mockChunks.set('clean', makeChunk('clean'));
+        mockVectorResults = [
+          { id: 'failed', distance: 0.1 },
+          { id: 'clean', distance: 0.1 },
+        ];
+        mockKeywordResults = [{ id: 'failed', score: 2 }];
+        mockFacetIds = ['failed'];
+
+        const result = await searchContext({
+          query: 'deploy',
+          projectFilter: 'api',
+          agentFilter: 'reviewer',
+          asOf: '2024-06-01T00:00:00.000Z',
+          facets: { hasErrors: true, minToolUses: 2 },
+        });
+
+        expect(lastFacetArgs).toEqual([
+          { hasErrors: true, minToolUses: 2 },
+          { projects: 'api', agentId: 'reviewer', before: '2024-06-01T00:00:00.000Z' },
+        ]);
+        expect(lastVectorArgs[1]).toEqual(['failed']);
+        expect(lastKeywordArgs[5]).toEqual({ hasErrors: true, minToolUses: 2 });
+        expect(result.chunks.map((c) => c.id)).toEqual(['failed']);
+      });
+
+      it('over-fetches from the ANN search and keeps matches when many chunks match', async () => {
+        mockChunks.set('match', makeChunk('match'));
+        mockChunks.set('other', makeChunk('other'));
+        mockVectorResults = [
+          { id: 'other', distance: 0.05 },
+          { id: 'match', distance: 0.1 },
+        ];
+        mockFacetIds = ['match', ...Array.from({ length: 2500 }, (_, i) => `m${i}`)];
+
+        const result = await searchContext({ query: 'deploy', facets: { after: '2024-01-01' } });
+
+        // search(query, limit * overfetch, asOf)
+        expect(lastVectorArgs[1]).toBe(100);
+        expect(result.chunks.map((c) => c.id)).toEqual(['match']);
+      });
+
+      it('returns empty without searching when no chunk matches', async () => {
+        mockVectorResults = [{ id: 'c1', distance: 0.1 }];
+        lastVectorArgs = [];
+
+        const result = await searchContext({ query: 'deploy', facets: { team: 'nobody' } });
+
+        expect(result.chunks).toEqual([]);
+        expect(lastVectorArgs).toEqual([]);
+      });
+
+      it('ignores empty facets', async () => {
+        mockChunks.set('c1', makeChunk('c1'));
+        mockVectorResults = [{ id: 'c1', distance: 0.1 }];
+
+        await searchContext({ query: 'deploy', facets: { tools: [] } });
+
+        expect(lastFacetArgs).toEqual([]);
+        expect(lastVectorArgs[1]).toBe(20);
+      });
+    });
   });
 
   describe('findSimilarChunkIds', () => {
@@ -7,6 +7,7 @@ import type Database from 'better-sqlite3-multiple-ciphers';
 import { createTestDb, setupTestDb, teardownTestDb } from '../storage/test-utils.js';
 import { buildBriefing } from '../../src/retrieval/session-reconstructor.js';
 import { upsertSessionState } from '../../src/storage/session-state-store.js';
+import { upsertCommit, upsertPullRequest } from '../../src/storage/commit-store.js';
 import type { SessionState } from '../../src/ingest/session-state.js';
 
 let db: Database.Database;
@@ -73,6 +74,45 @@ describe('buildBriefing', () => {
     expect(result.text).toContain('Outcomes');
   });
 
+  it('includes commits made in the session', () => {
+    upsertSessionState('sess-1', 'proj', null, '2025-01-01T12:00:00Z', sampleState);
+    upsertCommit({
+      sha: '1a2b3c4d5e6f708192a3b4c5d6e7f8091a2b3c4d',
+      projectPath: '/path',
+      sessionId: 'sess-1',
+      sessionSlug: 'proj',
+      subject: 'Fix auth bug',
+      committedAt: '2025-01-01T11:00:00Z',
+      files: [
+        { path: 'src/auth.ts', insertions: 10, deletions: 2 },
+        { path: 'src/login.ts', insertions: 1, deletions: 1 },
+      ],
+      chunkIds: [],
+    });
+
+    const result = buildBriefing({ project: 'proj' });
+    expect(result.text).toContain('**Commits:**');
+    expect(result.text).toContain('- `1a2b3c4` Fix auth bug (2 files, +11 -3)');
+  });
+
+  it('includes pull requests opened in the session', () => {
+    upsertSessionState('sess-1', 'proj', null, '2025-01-01T12:00:00Z', sampleState);
+    upsertPullRequest({
+      url: 'https://github.com/acme/proj/pull/7',
+      number: 7,
+      projectPath: '/path',
+      sessionId: 'sess-1',
+      sessionSlug: 'proj',
+      title: 'Fix auth bug',
+      openedAt: '2025-01-01T11:30:00Z',
+      chunkIds: [],
+    });
+
+    const result = buildBriefing({ project: 'proj' });
+    expect(result.text).toContain('**Pull requests:**');
+    expect(result.text).toContain('- #7 Fix auth bug (https://github.com/acme/proj/pull/7)');
+  });
+
   it('includes errors with resolution', () => {
     upsertSessionState('sess-1', 'proj', null, '2025-01-01T12:00:00Z', sampleState);
 
@@ -142,6 +182,42 @@ describe('buildBriefing', () => {
     expect(result.text).toContain('AuthService');
   });
 
+  it('includes structural changes after the repo map', () => {
+    const result = buildBriefing({
+      project: 'proj',
+      repoMapText: 'src/auth.ts\n  fn signIn (20)\n',
+      structureDiffText: 'Renamed (1):\n  src/auth.ts: login → signIn [function]',
+      maxTokens: 4096,
+    });
+
+    const structureIdx = result.text.indexOf('## Project Structure');
+    const changesIdx = result.text.indexOf('## Structural Changes');
+    expect(changesIdx).toBeGreaterThan(structureIdx);
+    expect(result.text).toContain('login → signIn');
+  });
+
+  it('includes history for requested files', () => {
+    upsertSessionState(
+      'sess-1',
+      'proj',
+      '/work/proj',
+      '2025-01-01T12:00:00Z',
+      { ...sampleState, filesTouched: ['/work/proj/src/auth.ts'] },
+      'Fixed the authentication bug in the login flow.',
+    );
+
+    const result = buildBriefing({
+      project: 'proj',
+      projectPath: '/work/proj',
+      files: ['src/auth.ts', 'src/untouched.ts'],
+    });
+
+    expect(result.text).toContain('## File History');
+    expect(result.text).toContain('### src/auth.ts');
+    expect(result.text).toContain('**Sessions that touched it** (1):');
+    expect(result.text).not.toContain('src/untouched.ts');
+  });
+
   it('reports token count', () => {
     upsertSessionState('sess-1', 'proj', null, '2025-01-01T12:00:00Z', sampleState);
 
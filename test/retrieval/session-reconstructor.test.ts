@@ -13,6 +13,7 @@ import {
   applyTokenBudget,
   formatReconstruction,
 } from '../../src/retrieval/session-reconstructor.js';
+import { upsertCommit } from '../../src/storage/commit-store.js';
 import type { StoredChunk } from '../../src/storage/types.js';
 import type { ReconstructResult } from '../../src/retrieval/session-reconstructor.js';
 
@@ -548,6 +549,49 @@ describe('reconstructSession (integration)', () => {
     expect(result.chunks[0].sessionId).toBe('s1');
   });
 
+  it('reconstructs the session that made a commit, up to the commit', () => {
+    for (const [id, minute] of [
+      ['c1', '00'],
+      ['c2', '10'],
+      ['c3', '20'],
+    ]) {
+      insertTestChunk(
+        db,
+        createSampleChunk({
+          id,
+          sessionId: 's1',
+          sessionSlug: 'proj',
+          startTime: `2024-01-15T10:${minute}:00Z`,
+          endTime: `2024-01-15T10:${minute}:30Z`,
+        }),
+      );
+    }
+    upsertCommit({
+      sha: '1a2b3c4d5e6f708192a3b4c5d6e7f8091a2b3c4d',
+      projectPath: '/test/project',
+      sessionId: 's1',
+      sessionSlug: 'proj',
+      subject: 'Fix token refresh race',
+      committedAt: '2024-01-15T10:10:20Z',
+      files: [{ path: 'src/tokens.ts', insertions: 12, deletions: 3 }],
+      chunkIds: ['c2'],
+    });
+
+    const result = reconstructSession({ project: 'proj', commit: '1a2b3c4', maxTokens: 10000 });
+
+    expect(result.chunks.map((c) => c.id)).toEqual(['c1', 'c2']);
+    expect(result.commit?.subject).toBe('Fix token refresh race');
+    expect(formatReconstruction(result)).toMatch(
+      /^Commit 1a2b3c4 \(2024-01-15\): Fix token refresh race\n  src\/tokens.ts \+12 -3\n\n/,
+    );
+  });
+
+  it('throws for an unknown commit', () => {
+    expect(() => reconstructSession({ project: 'proj', commit: 'deadbeef' })).toThrow(
+      'Commit not found in project "proj": deadbeef',
+    );
+  });
+
   it('reconstructs previous session', () => {
     insertTestChunk(
       db,
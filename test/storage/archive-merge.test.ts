@@ -0,0 +1,547 @@
+/**
+ * Tests for reconciling archive merges.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type Database from 'better-sqlite3-multiple-ciphers';
+import {
+  createTestDb,
+  setupTestDb,
+  teardownTestDb,
+  createSampleChunk,
+  insertTestChunk,
+  insertTestEdge,
+  insertTestCluster,
+  assignChunkToCluster,
+} from './test-utils.js';
+import { reconcileArchive } from '../../src/storage/archive-merge.js';
+import { resolveEntity, insertEntityMention } from '../../src/storage/entity-store.js';
+import type { Archive, ExportedChunk } from '../../src/storage/archive.js';
+import { serializeEmbedding, deserializeEmbedding } from '../../src/utils/embedding-utils.js';
+
+function archiveChunk(id: string, content: string): ExportedChunk {
+  return {
+    id,
+    sessionId: 'remote-session',
+    sessionSlug: 'shared',
+    projectPath: null,
+    content,
+    startTime: '2024-02-01T00:00:00Z',
+    endTime: '2024-02-01T00:01:00Z',
+    turnIndices: [0],
+  };
+}
+
+function makeArchive(overrides: Partial<Archive> = {}): Archive {
+  return {
+    format: 'causantic-archive',
+    version: '1.2',
+    created: '2024-02-02T00:00:00Z',
+    metadata: {
+      version: '1.2',
+      created: '2024-02-02T00:00:00Z',
+      chunkCount: 0,
+      edgeCount: 0,
+      clusterCount: 0,
+      vectorCount: 0,
+      embeddingDimensions: null,
+      projects: ['shared'],
+    },
+    chunks: [],
+    edges: [],
+    clusters: [],
+    vectors: [],
+    entities: [],
+    ...overrides,
+  };
+}
+
+function insertLocal(db: Database.Database, id: string, content: string): void {
+  insertTestChunk(db, createSampleChunk({ id, content, sessionSlug: 'shared' }));
+}
+
+function ids(db: Database.Database, sql: string): string[] {
+  return (db.prepare(sql).all() as Array<{ id: string }>).map((r) => r.id);
+}
+
+describe('reconcileArchive', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = createTestDb();
+    setupTestDb(db);
+  });
+
+  afterEach(() => {
+    teardownTestDb(db);
+  });
+
+  describe('chunks and edges', () => {
+    it('deduplicates chunks by content and remaps edge endpoints', () => {
+      insertLocal(db, 'local-1', 'Fixed the auth bug');
+
+      const report = reconcileArchive(
+        makeArchive({
+          chunks: [
+            archiveChunk('remote-1', 'Fixed the auth bug'),
+            archiveChunk('remote-2', 'Added a regression test'),
+          ],
+          edges: [
+            {
+              id: 'edge-r',
+              source: 'remote-1',
+              target: 'remote-2',
+              type: 'forward',
+              referenceType: 'within-chain',
+              weight: 1,
+              linkCount: 1,
+            },
+          ],
+        }),
+      );
+
+      expect(report.counts).toMatchObject({ chunksAdded: 1, chunksDeduplicated: 1, edgesAdded: 1 });
+      expect(report.remappedChunks).toEqual({ 'remote-1': 'local-1' });
+      expect(ids(db, 'SELECT id FROM chunks ORDER BY id')).toEqual(['local-1', 'remote-2']);
+      expect(db.prepare('SELECT source_chunk_id, target_chunk_id FROM edges').get()).toEqual({
+        source_chunk_id: 'local-1',
+        target_chunk_id: 'remote-2',
+      });
+      expect(report.conflicts).toEqual([]);
+    });
+
+    it('re-keys chunks whose ID exists locally with different content', () => {
+      insertLocal(db, 'same-id', 'Local content');
+
+      const report = reconcileArchive(
+        makeArchive({ chunks: [archiveChunk('same-id', 'Remote content')] }),
+      );
+
+      const newId = report.remappedChunks['same-id'];
+      expect(newId).toBeDefined();
+      expect(newId).not.toBe('same-id');
+      expect(report.counts.chunksRekeyed).toBe(1);
+      expect(report.conflicts).toEqual([
+        expect.objectContaining({ kind: 'chunk-id-collision', archiveId: 'same-id' }),
+      ]);
+      expect(
+        db.prepare('SELECT content FROM chunks WHERE id = ?').get('same-id') as { content: string },
+      ).toEqual({ content: 'Local content' });
+    });
+
+    it('merges edges that already exist between the same chunks', () => {
+      insertLocal(db, 'a', 'Chunk A');
+      insertLocal(db, 'b', 'Chunk B');
+      insertTestEdge(db, {
+        id: 'local-edge',
+        sourceChunkId: 'a',
+        targetChunkId: 'b',
+        edgeType: 'forward',
+        referenceType: 'within-chain',
+        initialWeight: 0.5,
+        linkCount: 1,
+      });
+
+      const report = reconcileArchive(
+        makeArchive({
+          chunks: [archiveChunk('ra', 'Chunk A'), archiveChunk('rb', 'Chunk B')],
+          edges: [
+            {
+              id: 'remote-edge',
+              source: 'ra',
+              target: 'rb',
+              type: 'forward',
+              referenceType: 'within-chain',
+              weight: 0.8,
+              linkCount: 3,
+            },
+          ],
+        }),
+      );
+
+      expect(report.counts).toMatchObject({ edgesAdded: 0, edgesMerged: 1 });
+      expect(db.prepare('SELECT id, initial_weight, link_count FROM edges').all()).toEqual([
+        { id: 'local-edge', initial_weight: 0.8, link_count: 3 },
+      ]);
+    });
+
+    it('drops edges with missing endpoints or that collapse into self-loops', () => {
+      insertLocal(db, 'a', 'Same text');
+
+      const report = reconcileArchive(
+        makeArchive({
+          chunks: [archiveChunk('r1', 'Same text'), archiveChunk('r2', 'Same text')],
+          edges: [
+            {
+              id: 'e1',
+              source: 'r1',
+              target: 'r2',
+              type: 'forward',
+              referenceType: null,
+              weight: 1,
+              linkCount: 1,
+            },
+            {
+              id: 'e2',
+              source: 'r1',
+              target: 'gone',
+              type: 'forward',
+              referenceType: null,
+              weight: 1,
+              linkCount: 1,
+            },
+          ],
+        }),
+      );
+
+      expect(report.counts).toMatchObject({ chunksDeduplicated: 2, edgesDropped: 2 });
+      expect(db.prepare('SELECT COUNT(*) as n FROM edges').get()).toEqual({ n: 0 });
+    });
+
+    it('keeps notes pinned and tagged', () => {
+      const report = reconcileArchive(
+        makeArchive({
+          chunks: [{ ...archiveChunk('note', 'Use JWT'), pinned: true, tags: ['decision'] }],
+        }),
+      );
+
+      expect(report.counts.chunksAdded).toBe(1);
+      expect(db.prepare("SELECT pinned, tags FROM chunks WHERE id = 'note'").get()).toEqual({
+        pinned: 1,
+        tags: '["decision"]',
+      });
+    });
+  });
+
+  describe('clusters', () => {
+    it('matches a cluster by member overlap and adds new members', () => {
+      insertLocal(db, 'a', 'Chunk A');
+      insertLocal(db, 'b', 'Chunk B');
+      insertTestCluster(db, { id: 'local-cluster', name: 'Auth work' });
+      assignChunkToCluster(db, 'a', 'local-cluster', 0.1);
+      assignChunkToCluster(db, 'b', 'local-cluster', 0.2);
+
+      const report = reconcileArchive(
+        makeArchive({
+          chunks: [
+            archiveChunk('ra', 'Chunk A'),
+            archiveChunk('rb', 'Chunk B'),
+            archiveChunk('rc', 'Chunk C'),
+          ],
+          clusters: [
+            {
+              id: 'remote-cluster',
+              name: 'Authentication',
+              description: null,
+              centroid: null,
+              exemplarIds: null,
+              membershipHash: null,
+              members: [
+                { chunkId: 'ra', distance: 0.1 },
+                { chunkId: 'rb', distance: 0.2 },
+                { chunkId: 'rc', distance: 0.3 },
+              ],
+            },
+          ],
+        }),
+      );
+
+      expect(report.counts).toMatchObject({
+        clustersAdded: 0,
+        clustersMatched: 1,
+        membershipsAdded: 1,
+      });
+      expect(ids(db, 'SELECT id FROM clusters')).toEqual(['local-cluster']);
+      expect(
+        db.prepare("SELECT cluster_id FROM chunk_clusters WHERE chunk_id = 'rc'").get(),
+      ).toEqual({ cluster_id: 'local-cluster' });
+      expect(db.prepare("SELECT name FROM clusters WHERE id = 'local-cluster'").get()).toEqual({
+        name: 'Auth work',
+      });
+      expect(report.conflicts).toEqual([
+        expect.objectContaining({ kind: 'cluster-metadata', localId: 'local-cluster' }),
+      ]);
+    });
+
+    it('keeps local assignments of deduplicated chunks in an unmatched cluster', () => {
+      insertLocal(db, 'a', 'Chunk A');
+      insertTestCluster(db, { id: 'local-cluster', name: 'Local' });
+      assignChunkToCluster(db, 'a', 'local-cluster');
+      insertLocal(db, 'b', 'Chunk B');
+      insertLocal(db, 'c', 'Chunk C');
+      insertTestCluster(db, { id: 'other', name: 'Other' });
+      assignChunkToCluster(db, 'b', 'other');
+      assignChunkToCluster(db, 'c', 'other');
+
+      const report = reconcileArchive(
+        makeArchive({
+          chunks: [
+            archiveChunk('ra', 'Chunk A'),
+            archiveChunk('rb', 'Chunk B'),
+            archiveChunk('rc', 'Chunk C'),
+            archiveChunk('rd', 'Chunk D'),
+          ],
+          clusters: [
+            {
+              id: 'remote-cluster',
+              name: 'Other',
+              description: null,
+              centroid: null,
+              exemplarIds: null,
+              membershipHash: null,
+              members: ['ra', 'rb', 'rc', 'rd'].map((chunkId) => ({ chunkId, distance: 0.2 })),
+            },
+          ],
+        }),
+      );
+
+      // Matched to "other" by majority; "a" stays in its local cluster
+      expect(report.counts.clustersMatched).toBe(1);
+      expect(report.conflicts).toEqual([
+        expect.objectContaining({ kind: 'cluster-assignment', localId: 'local-cluster' }),
+      ]);
+      expect(ids(db, "SELECT cluster_id AS id FROM chunk_clusters WHERE chunk_id = 'a'")).toEqual([
+        'local-cluster',
+      ]);
+      expect(
+        ids(
+          db,
+          "SELECT chunk_id AS id FROM chunk_clusters WHERE cluster_id = 'other' ORDER BY chunk_id",
+        ),
+      ).toEqual(['b', 'c', 'rd']);
+    });
+
+    it('adds clusters with no local counterpart', () => {
+      const report = reconcileArchive(
+        makeArchive({
+          chunks: [archiveChunk('r1', 'New work')],
+          clusters: [
+            {
+              id: 'remote-cluster',
+              name: 'New',
+              description: 'New topic',
+              centroid: [0.1, 0.2],
+              exemplarIds: ['r1'],
+              membershipHash: 'stale',
+              members: [{ chunkId: 'r1', distance: 0.1 }],
+            },
+          ],
+        }),
+      );
+
+      expect(report.counts).toMatchObject({ clustersAdded: 1, membershipsAdded: 1 });
+      const row = db.prepare('SELECT name, exemplar_ids, membership_hash FROM clusters').get() as {
+        name: string;
+        exemplar_ids: string;
+        membership_hash: string;
+      };
+      expect(row.name).toBe('New');
+      expect(JSON.parse(row.exemplar_ids)).toEqual(['r1']);
+      expect(row.membership_hash).not.toBe('stale');
+    });
+  });
+
+  describe('entities', () => {
+    it('unions aliases and remaps mentions onto the matched entity', () => {
+      insertLocal(db, 'a', 'Talked to Alice');
+      const localId = resolveEntity('alice', 'person', 'Alice', 'shared');
+      insertEntityMention('a', localId, 'Alice', 1);
+
+      const report = reconcileArchive(
+        makeArchive({
+          chunks: [archiveChunk('ra', 'Talked to Alice'), archiveChunk('rb', 'Asked @al')],
+          entities: [
+            {
+              id: 'remote-entity',
+              entityType: 'person',
+              canonicalName: 'alice',
+              projectSlug: 'shared',
+              aliases: ['alice', '@al'],
+              mentions: [
+                { chunkId: 'ra', mentionForm: 'Alice', confidence: 1 },
+                { chunkId: 'rb', mentionForm: '@al', confidence: 0.9 },
+              ],
+            },
+          ],
+        }),
+      );
+
+      expect(report.counts).toMatchObject({
+        entitiesAdded: 0,
+        entitiesMerged: 1,
+        aliasesAdded: 1,
+        mentionsAdded: 1,
+      });
+      expect(ids(db, 'SELECT id FROM entities')).toEqual([localId]);
+      expect(
+        (
+          db.prepare('SELECT alias FROM entity_aliases ORDER BY alias').all() as Array<{
+            alias: string;
+          }>
+        ).map((r) => r.alias),
+      ).toEqual(['@al', 'alice']);
+      expect(
+        ids(
+          db,
+          `SELECT chunk_id AS id FROM entity_mentions WHERE entity_id = '${localId}' ORDER BY chunk_id`,
+        ),
+      ).toEqual(['a', 'rb']);
+      expect(report.conflicts).toEqual([]);
+    });
+
+    it('reports differing canonical names and ambiguous matches', () => {
+      const alice = resolveEntity('alice', 'person', 'alice', 'shared');
+      const bob = resolveEntity('bob', 'person', 'bob', 'shared');
+
+      const report = reconcileArchive(
+        makeArchive({
+          entities: [
+            {
+              id: 'r-alice',
+              entityType: 'person',
+              canonicalName: 'alice smith',
+              projectSlug: 'shared',
+              aliases: ['alice'],
+              mentions: [],
+            },
+            {
+              id: 'r-both',
+              entityType: 'person',
+              canonicalName: 'bob',
+              projectSlug: 'shared',
+              aliases: ['alice', 'bob'],
+              mentions: [],
+            },
+          ],
+        }),
+      );
+
+      expect(report.conflicts).toEqual([
+        expect.objectContaining({ kind: 'entity-name', localId: alice }),
+        expect.objectContaining({ kind: 'entity-ambiguous', localId: bob }),
+      ]);
+      // "alice smith" becomes an alias of the local entity
+      expect(
+        db.prepare("SELECT entity_id FROM entity_aliases WHERE alias = 'alice smith'").get(),
+      ).toEqual({ entity_id: alice });
+    });
+
+    it('adds entities with no matching alias', () => {
+      const report = reconcileArchive(
+        makeArchive({
+          entities: [
+            {
+              id: 'r-carol',
+              entityType: 'person',
+              canonicalName: 'carol',
+              projectSlug: 'shared',
+              aliases: ['carol'],
+              mentions: [{ chunkId: 'not-imported', mentionForm: 'Carol', confidence: 1 }],
+            },
+          ],
+        }),
+      );
+
+      expect(report.counts).toMatchObject({ entitiesAdded: 1, aliasesAdded: 1, mentionsAdded: 0 });
+      expect(ids(db, 'SELECT id FROM entities')).toEqual(['r-carol']);
+    });
+  });
+
+  describe('vectors', () => {
+    it('skips archive vectors whose dimensions differ from stored vectors', () => {
+      db.exec(
+        "CREATE TABLE IF NOT EXISTS vectors (id TEXT PRIMARY KEY, embedding BLOB NOT NULL, orphaned_at TEXT, last_accessed TEXT, model_id TEXT DEFAULT 'jina-small')",
+      );
+      insertLocal(db, 'a', 'Chunk A');
+      db.prepare('INSERT INTO vectors (id, embedding) VALUES (?, ?)').run(
+        'a',
+        serializeEmbedding([0.1, 0.2, 0.3]),
+      );
+
+      const report = reconcileArchive(
+        makeArchive({
+          chunks: [archiveChunk('r1', 'Chunk R')],
+          vectors: [{ chunkId: 'r1', embedding: [0.1, 0.2] }],
+        }),
+      );
+
+      expect(report.counts.vectorsAdded).toBe(0);
+      expect(report.conflicts).toEqual([expect.objectContaining({ kind: 'vector-dimensions' })]);
+    });
+
+    it('adds vectors for new chunks and for duplicates without one', () => {
+      insertLocal(db, 'a', 'Chunk A');
+
+      const report = reconcileArchive(
+        makeArchive({
+          chunks: [archiveChunk('ra', 'Chunk A'), archiveChunk('rb', 'Chunk B')],
+          vectors: [
+            { chunkId: 'ra', embedding: [0.1, 0.2] },
+            { chunkId: 'rb', embedding: [0.3, 0.4] },
+          ],
+        }),
+      );
+
+      expect(report.counts.vectorsAdded).toBe(2);
+      expect(ids(db, 'SELECT id FROM vectors ORDER BY id')).toEqual(['a', 'rb']);
+    });
+
+    it('replaces orphaned vectors left under the ID of a new chunk', () => {
+      db.exec(
+        "CREATE TABLE IF NOT EXISTS vectors (id TEXT PRIMARY KEY, embedding BLOB NOT NULL, orphaned_at TEXT, last_accessed TEXT, model_id TEXT DEFAULT 'jina-small')",
+      );
+      db.prepare(
+        "INSERT INTO vectors (id, embedding, orphaned_at) VALUES (?, ?, '2024-01-01')",
+      ).run('rb', serializeEmbedding([0.9, 0.9]));
+
+      const report = reconcileArchive(
+        makeArchive({
+          chunks: [archiveChunk('rb', 'Chunk B')],
+          vectors: [{ chunkId: 'rb', embedding: [0.3, 0.4] }],
+        }),
+      );
+
+      expect(report.counts.vectorsAdded).toBe(1);
+      const row = db
+        .prepare("SELECT embedding, orphaned_at FROM vectors WHERE id = 'rb'")
+        .get() as {
+        embedding: Buffer;
+        orphaned_at: string | null;
+      };
+      expect(row.orphaned_at).toBeNull();
+      expect(deserializeEmbedding(row.embedding)[0]).toBeCloseTo(0.3);
+    });
+
+    it('stores vectors under their archived model, defaulting to jina-small', () => {
+      reconcileArchive(
+        makeArchive({
+          chunks: [archiveChunk('ra', 'Chunk A'), archiveChunk('rb', 'Chunk B')],
+          vectors: [
+            { chunkId: 'ra', embedding: [0.1, 0.2], modelId: 'hash:2' },
+            { chunkId: 'rb', embedding: [0.3, 0.4] },
+          ],
+        }),
+      );
+
+      expect(db.prepare('SELECT id, model_id FROM vectors ORDER BY id').all()).toEqual([
+        { id: 'ra', model_id: 'hash:2' },
+        { id: 'rb', model_id: 'jina-small' },
+      ]);
+    });
+  });
+
+  it('reports without writing in dry-run mode', () => {
+    insertLocal(db, 'local-1', 'Shared text');
+
+    const report = reconcileArchive(
+      makeArchive({
+        chunks: [archiveChunk('r1', 'Shared text'), archiveChunk('r2', 'Only remote')],
+      }),
+      { dryRun: true },
+    );
+
+    expect(report.dryRun).toBe(true);
+    expect(report.counts).toMatchObject({ chunksAdded: 1, chunksDeduplicated: 1 });
+    expect(ids(db, 'SELECT id FROM chunks')).toEqual(['local-1']);
+  });
+});
@@ -0,0 +1,479 @@
+/**
+ * Integration tests for streaming NDJSON export/import.
+ *
+ * Uses real in-memory databases and temp files to verify round-trips,
+ * incremental exports, and resumable imports.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { writeFileSync, readFileSync, unlinkSync, existsSync } from 'node:fs';
+import { gunzipSync } from 'node:zlib';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type Database from 'better-sqlite3-multiple-ciphers';
+import {
+  createTestDb,
+  setupTestDb,
+  teardownTestDb,
+  createSampleChunk,
+  insertTestChunk,
+  insertTestEdge,
+  insertTestCluster,
+  assignChunkToCluster,
+} from './test-utils.js';
+import {
+  exportNdjsonArchive,
+  importNdjsonArchive,
+  isNdjsonArchive,
+  readArchiveHeader,
+} from '../../src/storage/archive-stream.js';
+import { exportArchive } from '../../src/storage/archive.js';
+import { serializeEmbedding, deserializeEmbedding } from '../../src/utils/embedding-utils.js';
+
+function tempPath(suffix = '.ndjson'): string {
+  return join(
+    tmpdir(),
+    `causantic-stream-test-${Date.now()}-${Math.random().toString(36).slice(2)}${suffix}`,
+  );
+}
+
+function createVectorsTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS vectors (
+      id TEXT PRIMARY KEY,
+      embedding BLOB NOT NULL,
+      orphaned_at TEXT DEFAULT NULL,
+      last_accessed TEXT DEFAULT CURRENT_TIMESTAMP,
+      model_id TEXT DEFAULT 'jina-small'
+    )
+  `);
+}
+
+function seedTestData(db: Database.Database): void {
+  for (let i = 1; i <= 3; i++) {
+    insertTestChunk(
+      db,
+      createSampleChunk({
+        id: `chunk-${i}`,
+        sessionId: 'session-1',
+        sessionSlug: i === 3 ? 'project-b' : 'project-a',
+        content: `Chunk ${i} touching /src/file-${i}.ts`,
+        startTime: `2024-01-01T00:0${i}:00Z`,
+        endTime: `2024-01-01T00:0${i}:30Z`,
+      }),
+    );
+  }
+  insertTestEdge(db, {
+    id: 'edge-1',
+    sourceChunkId: 'chunk-1',
+    targetChunkId: 'chunk-2',
+    edgeType: 'forward',
+    referenceType: 'within-chain',
+    initialWeight: 0.9,
+    linkCount: 2,
+  });
+  insertTestCluster(db, { id: 'cluster-1', name: 'Auth', exemplarIds: ['chunk-1'] });
+  assignChunkToCluster(db, 'chunk-1', 'cluster-1', 0.3);
+  assignChunkToCluster(db, 'chunk-2', 'cluster-1', 0.5);
+
+  createVectorsTable(db);
+  db.prepare('INSERT INTO vectors (id, embedding, model_id) VALUES (?, ?, ?)').run(
+    'chunk-1',
+    serializeEmbedding([0.1, 0.2, 0.3, 0.4]),
+    'hash:4',
+  );
+}
+
+function readLines(path: string): Array<Record<string, unknown>> {
+  let raw = readFileSync(path);
+  if (raw[0] === 0x1f && raw[1] === 0x8b) raw = gunzipSync(raw);
+  return raw
+    .toString('utf-8')
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => JSON.parse(line));
+}
+
+function count(db: Database.Database, table: string): number {
+  return (db.prepare(`SELECT COUNT(*) as n FROM ${table}`).get() as { n: number }).n;
+}
+
+describe('archive-stream', () => {
+  let db: Database.Database;
+  const tempFiles: string[] = [];
+
+  function temp(suffix?: string): string {
+    const path = tempPath(suffix);
+    tempFiles.push(path);
+    return path;
+  }
+
+  beforeEach(() => {
+    db = createTestDb();
+    setupTestDb(db);
+  });
+
+  afterEach(() => {
+    teardownTestDb(db);
+    for (const path of tempFiles.splice(0)) {
+      if (existsSync(path)) unlinkSync(path);
+    }
+  });
+
+  describe('exportNdjsonArchive', () => {
+    it('writes a header, typed records, and a footer', async () => {
+      seedTestData(db);
+      const path = temp();
+
+      const result = await exportNdjsonArchive({ outputPath: path });
+
+      const lines = readLines(path);
+      expect(lines[0]).toMatchObject({
+        type: 'header',
+        format: 'causantic-archive',
+        version: '2.0',
+        since: null,
+        projects: ['project-a', 'project-b'],
+        embeddingDimensions: 4,
+      });
+      expect(lines[0].watermark).toBe(result.watermark);
+      expect(lines.map((l) => l.type)).toEqual([
+        'header',
+        'chunk',
+        'chunk',
+        'chunk',
+        'vector',
+        'edge',
+        'cluster',
+        'footer',
+      ]);
+      expect(lines.find((l) => l.type === 'edge')).toMatchObject({
+        edgeType: 'forward',
+        referenceType: 'within-chain',
+        weight: 0.9,
+      });
+      expect(lines[lines.length - 1]).toEqual({
+        type: 'footer',
+        counts: { chunks: 3, vectors: 1, edges: 1, clusters: 1 },
+      });
+      expect(result).toMatchObject({ chunkCount: 3, edgeCount: 1, clusterCount: 1 });
+    });
+
+    it('gzips output when requested', async () => {
+      seedTestData(db);
+      const path = temp('.ndjson.gz');
+
+      const result = await exportNdjsonArchive({ outputPath: path, gzip: true });
+
+      expect(result.compressed).toBe(true);
+      expect(readFileSync(path).subarray(0, 2)).toEqual(Buffer.from([0x1f, 0x8b]));
+      expect(readLines(path)).toHaveLength(8);
+    });
+
+    it('filters by project and redacts content', async () => {
+      seedTestData(db);
+      const path = temp();
+
+      await exportNdjsonArchive({ outputPath: path, projects: ['project-b'], redactPaths: true });
+
+      const chunks = readLines(path).filter((l) => l.type === 'chunk');
+      expect(chunks.map((c) => c.id)).toEqual(['chunk-3']);
+      expect(chunks[0].content).not.toContain('/src/file-3.ts');
+    });
+
+    it('exports only records created since the watermark', async () => {
+      seedTestData(db);
+      db.prepare("UPDATE chunks SET created_at = '2024-01-01 00:00:00'").run();
+      db.prepare("UPDATE edges SET created_at = '2024-01-01T00:00:00.000Z'").run();
+      insertTestChunk(db, createSampleChunk({ id: 'chunk-new', sessionSlug: 'project-a' }));
+      assignChunkToCluster(db, 'chunk-new', 'cluster-1', 0.2);
+      const path = temp();
+
+      const result = await exportNdjsonArchive({
+        outputPath: path,
+        since: '2025-01-01T00:00:00.000Z',
+      });
+
+      const lines = readLines(path);
+      expect(lines[0].since).toBe('2025-01-01T00:00:00.000Z');
+      expect(lines.filter((l) => l.type === 'chunk').map((l) => l.id)).toEqual(['chunk-new']);
+      expect(lines.filter((l) => l.type === 'edge')).toHaveLength(0);
+      // The cluster gained a new member, so it is exported
+      expect(result.clusterCount).toBe(1);
+    });
+  });
+
+  describe('isNdjsonArchive / readArchiveHeader', () => {
+    it('detects NDJSON archives, plain or gzipped', async () => {
+      seedTestData(db);
+      const plain = temp();
+      const gzipped = temp('.ndjson.gz');
+      await exportNdjsonArchive({ outputPath: plain });
+      await exportNdjsonArchive({ outputPath: gzipped, gzip: true });
+
+      expect(await isNdjsonArchive(plain)).toBe(true);
+      expect(await isNdjsonArchive(gzipped)).toBe(true);
+      expect((await readArchiveHeader(gzipped)).format).toBe('causantic-archive');
+    });
+
+    it('returns false for v1 JSON archives and missing files', async () => {
+      seedTestData(db);
+      const legacy = temp('.json');
+      await exportArchive({ outputPath: legacy });
+
+      expect(await isNdjsonArchive(legacy)).toBe(false);
+      expect(await isNdjsonArchive(temp())).toBe(false);
+    });
+
+    it('rejects headers with an unsupported version', async () => {
+      const path = temp();
+      writeFileSync(
+        path,
+        '{"type":"header","format":"causantic-archive","version":"9.0","archiveId":"x"}\n',
+      );
+
+      await expect(readArchiveHeader(path)).rejects.toThrow('Unsupported archive version: 9.0');
+    });
+  });
+
+  describe('importNdjsonArchive', () => {
+    it('round-trips through a gzipped archive', async () => {
+      seedTestData(db);
+      const path = temp('.ndjson.gz');
+      await exportNdjsonArchive({ outputPath: path, gzip: true });
+
+      teardownTestDb(db);
+      db = createTestDb();
+      setupTestDb(db);
+
+      const result = await importNdjsonArchive({ inputPath: path });
+
+      expect(result).toMatchObject({
+        chunkCount: 3,
+        vectorCount: 1,
+        edgeCount: 1,
+        clusterCount: 1,
+        skippedCount: 0,
+        complete: true,
+      });
+      expect(count(db, 'chunks')).toBe(3);
+      const edge = db.prepare('SELECT * FROM edges').get() as Record<string, unknown>;
+      expect(edge).toMatchObject({ edge_type: 'forward', initial_weight: 0.9, link_count: 2 });
+      const vector = db
+        .prepare("SELECT embedding, model_id FROM vectors WHERE id = 'chunk-1'")
+        .get() as { embedding: Buffer; model_id: string };
+      expect(deserializeEmbedding(vector.embedding)).toHaveLength(4);
+      expect(vector.model_id).toBe('hash:4');
+      expect(count(db, 'chunk_clusters')).toBe(2);
+      expect(db.prepare('SELECT completed_at FROM archive_imports').get()).toEqual({
+        completed_at: expect.any(String),
+      });
+    });
+
+    it('replaces existing data unless merging', async () => {
+      seedTestData(db);
+      const path = temp();
+      await exportNdjsonArchive({ outputPath: path, projects: ['project-b'] });
+
+      await importNdjsonArchive({ inputPath: path, merge: true });
+      expect(count(db, 'chunks')).toBe(3);
+
+      await importNdjsonArchive({ inputPath: path });
+      expect(count(db, 'chunks')).toBe(1);
+    });
+
+    it('keeps edges and memberships when merging over existing chunks', async () => {
+      seedTestData(db);
+      const path = temp();
+      await exportNdjsonArchive({ outputPath: path });
+
+      await importNdjsonArchive({ inputPath: path, merge: true });
+
+      expect(count(db, 'edges')).toBe(1);
+      expect(count(db, 'chunk_clusters')).toBe(2);
+    });
+
+    it('counts records without writing in dry-run mode', async () => {
+      seedTestData(db);
+      const path = temp();
+      await exportNdjsonArchive({ outputPath: path });
+      db.prepare('DELETE FROM chunks').run();
+
+      const result = await importNdjsonArchive({ inputPath: path, dryRun: true });
+
+      expect(result).toMatchObject({ dryRun: true, chunkCount: 3, edgeCount: 1 });
+      expect(count(db, 'chunks')).toBe(0);
+      expect(count(db, 'archive_imports')).toBe(0);
+    });
+
+    it('requires merge for incremental archives', async () => {
+      seedTestData(db);
+      const path = temp();
+      await exportNdjsonArchive({ outputPath: path, since: '2000-01-01T00:00:00.000Z' });
+
+      await expect(importNdjsonArchive({ inputPath: path })).rejects.toThrow(
+        'must be imported with merge',
+      );
+    });
+
+    it('carries search facets through export and import', async () => {
+      seedTestData(db);
+      db.prepare(
+        "UPDATE chunks SET tool_use_count = 2, tool_error_count = 1, spawn_depth = 1, team_name = 'ops' WHERE id = 'chunk-1'",
+      ).run();
+      db.prepare("INSERT INTO chunk_tools (chunk_id, tool_name) VALUES ('chunk-1', 'Bash')").run();
+      const path = temp();
+      await exportNdjsonArchive({ outputPath: path });
+
+      teardownTestDb(db);
+      db = createTestDb();
+      setupTestDb(db);
+      await importNdjsonArchive({ inputPath: path });
+
+      expect(
+        db
+          .prepare(
+            "SELECT tool_use_count, tool_error_count, spawn_depth, team_name FROM chunks WHERE id = 'chunk-1'",
+          )
+          .get(),
+      ).toEqual({ tool_use_count: 2, tool_error_count: 1, spawn_depth: 1, team_name: 'ops' });
+      expect(db.prepare('SELECT chunk_id, tool_name FROM chunk_tools').all()).toEqual([
+        { chunk_id: 'chunk-1', tool_name: 'Bash' },
+      ]);
+    });
+
+    it('keeps notes pinned and tagged through export and import', async () => {
+      seedTestData(db);
+      db.prepare(
+        `UPDATE chunks SET pinned = 1, tags = '["decision","auth"]' WHERE id = 'chunk-1'`,
+      ).run();
+      const path = temp();
+      await exportNdjsonArchive({ outputPath: path });
+
+      teardownTestDb(db);
+      db = createTestDb();
+      setupTestDb(db);
+      await importNdjsonArchive({ inputPath: path });
+
+      expect(db.prepare('SELECT id, pinned, tags FROM chunks ORDER BY id').all()).toEqual([
+        { id: 'chunk-1', pinned: 1, tags: '["decision","auth"]' },
+        { id: 'chunk-2', pinned: 0, tags: null },
+        { id: 'chunk-3', pinned: 0, tags: null },
+      ]);
+    });
+
+    it('derives tool facets from content for archives without them', async () => {
+      seedTestData(db);
+      const path = temp();
+      await exportNdjsonArchive({ outputPath: path });
+      const legacy = readLines(path).map((l) => {
+        if (l.type !== 'chunk') return l;
+        const chunk = { ...l };
+        for (const key of ['codeBlockCount', 'toolUseCount', 'toolErrorCount', 'toolNames']) {
+          delete chunk[key];
+        }
+        if (l.id === 'chunk-1') chunk.content = '[Tool:Read]\nsrc/a.ts\n[Tool:Read]\nsrc/b.ts';
+        return chunk;
+      });
+      writeFileSync(path, legacy.map((l) => JSON.stringify(l)).join('\n') + '\n');
+
+      teardownTestDb(db);
+      db = createTestDb();
+      setupTestDb(db);
+      await importNdjsonArchive({ inputPath: path });
+
+      expect(db.prepare("SELECT tool_use_count FROM chunks WHERE id = 'chunk-1'").get()).toEqual({
+        tool_use_count: 2,
+      });
+      expect(db.prepare('SELECT chunk_id, tool_name FROM chunk_tools').all()).toEqual([
+        { chunk_id: 'chunk-1', tool_name: 'Read' },
+      ]);
+    });
+
+    it('skips edges whose endpoints are missing', async () => {
+      seedTestData(db);
+      const path = temp();
+      await exportNdjsonArchive({ outputPath: path });
+      // Drop chunk-2 from the archive, leaving the edge and membership dangling
+      const kept = readLines(path).filter((l) => l.id !== 'chunk-2' && l.chunkId !== 'chunk-2');
+      writeFileSync(path, kept.map((l) => JSON.stringify(l)).join('\n') + '\n');
+
+      teardownTestDb(db);
+      db = createTestDb();
+      setupTestDb(db);
+      const result = await importNdjsonArchive({ inputPath: path });
+
+      expect(result.edgeCount).toBe(0);
+      // One dangling edge and one dangling cluster member
+      expect(result.skippedCount).toBe(2);
+      expect(count(db, 'edges')).toBe(0);
+    });
+
+    it('resumes an interrupted import after the committed records', async () => {
+      seedTestData(db);
+      const path = temp();
+      await exportNdjsonArchive({ outputPath: path });
+      const lines = readLines(path);
+      const header = lines[0] as { archiveId: string };
+
+      teardownTestDb(db);
+      db = createTestDb();
+      setupTestDb(db);
+
+      // A truncated copy: header plus the first two chunks, no footer
+      const truncated = temp();
+      writeFileSync(
+        truncated,
+        lines
+          .slice(0, 3)
+          .map((l) => JSON.stringify(l))
+          .join('\n') + '\n',
+      );
+      const partial = await importNdjsonArchive({ inputPath: truncated, batchSize: 1 });
+      expect(partial).toMatchObject({ chunkCount: 2, complete: false });
+      expect(
+        db.prepare('SELECT records_committed, completed_at FROM archive_imports').get(),
+      ).toEqual({ records_committed: 2, completed_at: null });
+
+      // Remove an imported chunk: a resumed import must not re-apply it
+      db.prepare("DELETE FROM chunks WHERE id = 'chunk-1'").run();
+
+      const resumed = await importNdjsonArchive({ inputPath: path, batchSize: 2 });
+
+      expect(resumed).toMatchObject({ resumedFrom: 2, chunkCount: 1, complete: true });
+      expect(
+        (db.prepare('SELECT id FROM chunks ORDER BY id').all() as Array<{ id: string }>).map(
+          (r) => r.id,
+        ),
+      ).toEqual(['chunk-2', 'chunk-3']);
+      expect(
+        db
+          .prepare('SELECT completed_at FROM archive_imports WHERE archive_id = ?')
+          .get(header.archiveId),
+      ).toEqual({ completed_at: expect.any(String) });
+    });
+
+    it('starts over when the same archive is imported again after completing', async () => {
+      seedTestData(db);
+      const path = temp();
+      await exportNdjsonArchive({ outputPath: path });
+
+      await importNdjsonArchive({ inputPath: path, merge: true });
+      const again = await importNdjsonArchive({ inputPath: path, merge: true });
+
+      expect(again).toMatchObject({ resumedFrom: 0, chunkCount: 3 });
+    });
+
+    it('throws on malformed lines', async () => {
+      const path = temp();
+      writeFileSync(
+        path,
+        '{"type":"header","format":"causantic-archive","version":"2.0","archiveId":"x"}\nnot json\n',
+      );
+
+      await expect(importNdjsonArchive({ inputPath: path })).rejects.toThrow(
+        'malformed JSON on line 2',
+      );
+    });
+  });
+});
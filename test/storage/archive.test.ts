@@ -26,6 +26,7 @@ import {
   type Archive,
 } from '../../src/storage/archive.js';
 import { serializeEmbedding, deserializeEmbedding } from '../../src/utils/embedding-utils.js';
+import { resolveEntity, insertEntityMention } from '../../src/storage/entity-store.js';
 
 // Helper to create a temp file path
 function tempPath(suffix = '.json'): string {
@@ -42,7 +43,8 @@ function createVectorsTable(db: Database.Database): void {
       id TEXT PRIMARY KEY,
       embedding BLOB NOT NULL,
       orphaned_at TEXT DEFAULT NULL,
-      last_accessed TEXT DEFAULT CURRENT_TIMESTAMP
+      last_accessed TEXT DEFAULT CURRENT_TIMESTAMP,
+      model_id TEXT DEFAULT 'jina-small'
     )
   `);
 }
@@ -271,6 +273,33 @@ describe('archive', () => {
     });
   });
 
+  describe('pinned notes', () => {
+    it('keeps pinned flags and tags through export and import', async () => {
+      seedTestData(db);
+      db.prepare(
+        `UPDATE chunks SET pinned = 1, tags = '["decision","auth"]' WHERE id = 'chunk-1'`,
+      ).run();
+
+      await exportArchive({ outputPath });
+
+      teardownTestDb(db);
+      db = createTestDb();
+      setupTestDb(db);
+      createVectorsTable(db);
+
+      await importArchive({ inputPath: outputPath });
+
+      expect(db.prepare("SELECT pinned, tags FROM chunks WHERE id = 'chunk-1'").get()).toEqual({
+        pinned: 1,
+        tags: '["decision","auth"]',
+      });
+      expect(db.prepare("SELECT pinned, tags FROM chunks WHERE id = 'chunk-2'").get()).toEqual({
+        pinned: 0,
+        tags: null,
+      });
+    });
+  });
+
   describe('vector round-trip', () => {
     it('preserves vector embeddings through serialize/JSON/deserialize', async () => {
       const { embedding } = seedTestData(db);
@@ -298,6 +327,25 @@ describe('archive', () => {
       }
     });
 
+    it("keeps each vector's embedding model", async () => {
+      seedTestData(db);
+      db.prepare("UPDATE vectors SET model_id = 'hash:8' WHERE id = 'chunk-1'").run();
+
+      await exportArchive({ outputPath });
+
+      teardownTestDb(db);
+      db = createTestDb();
+      setupTestDb(db);
+
+      await importArchive({ inputPath: outputPath });
+
+      const models = db.prepare('SELECT id, model_id FROM vectors ORDER BY id').all();
+      expect(models).toEqual([
+        { id: 'chunk-1', model_id: 'hash:8' },
+        { id: 'chunk-2', model_id: 'jina-small' },
+      ]);
+    });
+
     it('skips vectors with --no-vectors', async () => {
       seedTestData(db);
 
@@ -517,6 +565,46 @@ describe('archive', () => {
     });
   });
 
+  describe('entity round-trip', () => {
+    it('exports entities with aliases and mentions (v1.2)', async () => {
+      seedTestData(db);
+      const entityId = resolveEntity('alice', 'person', 'Alice', 'project-a');
+      insertEntityMention('chunk-1', entityId, 'Alice', 0.9);
+
+      await exportArchive({ outputPath });
+      teardownTestDb(db);
+      db = createTestDb();
+      setupTestDb(db);
+      const result = await importArchive({ inputPath: outputPath });
+
+      expect(result.entityCount).toBe(1);
+      expect(db.prepare('SELECT id, canonical_name FROM entities').all()).toEqual([
+        { id: entityId, canonical_name: 'alice' },
+      ]);
+      expect(db.prepare('SELECT chunk_id, confidence FROM entity_mentions').all()).toEqual([
+        { chunk_id: 'chunk-1', confidence: 0.9 },
+      ]);
+    });
+  });
+
+  describe('reconciling import', () => {
+    it('deduplicates re-imported chunks and returns a merge report', async () => {
+      seedTestData(db);
+      await exportArchive({ outputPath });
+
+      const result = await importArchive({ inputPath: outputPath, reconcile: true });
+
+      expect(result.report?.counts).toMatchObject({
+        chunksAdded: 0,
+        chunksDeduplicated: 3,
+        edgesMerged: 1,
+        clustersMatched: 1,
+      });
+      expect(result.report?.conflicts).toEqual([]);
+      expect(db.prepare('SELECT COUNT(*) as n FROM chunks').get()).toEqual({ n: 3 });
+    });
+  });
+
   describe('dry-run import', () => {
     it('reports counts without modifying database', async () => {
       seedTestData(db);
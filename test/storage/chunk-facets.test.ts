@@ -0,0 +1,174 @@
+/**
+ * Tests for faceted chunk filters.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type Database from 'better-sqlite3-multiple-ciphers';
+import { createTestDb, setupTestDb, teardownTestDb } from './test-utils.js';
+import { insertChunk } from '../../src/storage/chunk-store.js';
+import { insertCodeRefs } from '../../src/storage/code-ref-store.js';
+import { upsertSessionState } from '../../src/storage/session-state-store.js';
+import { KeywordStore } from '../../src/storage/keyword-store.js';
+import {
+  hasFacets,
+  buildFacetConditions,
+  queryChunkIdsByFacets,
+} from '../../src/storage/chunk-facets.js';
+import type { ChunkInput } from '../../src/storage/types.js';
+
+function makeChunk(id: string, overrides: Partial<ChunkInput> = {}): ChunkInput {
+  return {
+    id,
+    sessionId: 'sess-1',
+    sessionSlug: 'my-app',
+    turnIndices: [0],
+    startTime: '2024-03-01T00:00:00Z',
+    endTime: '2024-03-01T00:01:00Z',
+    content: `migration work in ${id}`,
+    codeBlockCount: 0,
+    toolUseCount: 0,
+    approxTokens: 10,
+    ...overrides,
+  };
+}
+
+describe('chunk-facets', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = createTestDb();
+    setupTestDb(db);
+
+    insertChunk(
+      makeChunk('bash-fail', {
+        toolUseCount: 3,
+        toolNames: ['Bash', 'Read'],
+        toolErrorCount: 1,
+        startTime: '2024-03-05T00:00:00Z',
+      }),
+    );
+    insertChunk(
+      makeChunk('edit-code', {
+        toolUseCount: 1,
+        toolNames: ['Edit'],
+        codeBlockCount: 2,
+        teamName: 'platform',
+      }),
+    );
+    insertChunk(makeChunk('talk'));
+    insertChunk(
+      makeChunk('sub-agent', {
+        sessionSlug: 'other-app',
+        agentId: 'researcher',
+        spawnDepth: 1,
+        toolUseCount: 1,
+        toolNames: ['Bash'],
+      }),
+    );
+    insertCodeRefs('edit-code', [{ filePath: 'src/storage/db.ts', source: 'tool' }]);
+    insertCodeRefs('bash-fail', [{ filePath: 'src/storage/mydb.ts', source: 'tool' }]);
+  });
+
+  afterEach(() => {
+    teardownTestDb(db);
+  });
+
+  const ids = (set: Set<string>) => [...set].sort();
+
+  it('treats empty facets as unset', () => {
+    expect(hasFacets(undefined)).toBe(false);
+    expect(hasFacets({ tools: [], team: undefined })).toBe(false);
+    expect(hasFacets({ hasErrors: false })).toBe(true);
+  });
+
+  it('builds conditions with parameters in order', () => {
+    const { conditions, params } = buildFacetConditions({ minToolUses: 1, team: 't' }, 'c');
+
+    expect(conditions).toEqual(['c.tool_use_count >= ?', 'c.team_name = ?']);
+    expect(params).toEqual([1, 't']);
+  });
+
+  it('filters by tools used', () => {
+    expect(ids(queryChunkIdsByFacets({ tools: ['Bash'] }))).toEqual(['bash-fail', 'sub-agent']);
+    expect(ids(queryChunkIdsByFacets({ tools: ['Edit', 'Read'] }))).toEqual([
+      'bash-fail',
+      'edit-code',
+    ]);
+  });
+
+  it('filters by tool use count', () => {
+    expect(ids(queryChunkIdsByFacets({ minToolUses: 2 }))).toEqual(['bash-fail']);
+    expect(ids(queryChunkIdsByFacets({ maxToolUses: 0 }))).toEqual(['talk']);
+  });
+
+  it('filters by files touched, matching trailing segments', () => {
+    expect(ids(queryChunkIdsByFacets({ files: ['db.ts'] }))).toEqual(['edit-code']);
+    expect(ids(queryChunkIdsByFacets({ files: ['/work/my-app/src/storage/db.ts'] }))).toEqual([
+      'edit-code',
+    ]);
+    expect(ids(queryChunkIdsByFacets({ files: ['db.ts', 'mydb.ts'] }))).toEqual([
+      'bash-fail',
+      'edit-code',
+    ]);
+  });
+
+  it("filters by files touched in the chunk's session state", () => {
+    insertChunk(makeChunk('state-chunk', { sessionId: 'sess-2' }));
+    upsertSessionState('sess-2', 'my-app', '/work/my-app', '2024-03-01T01:00:00Z', {
+      filesTouched: ['/work/my-app/src/auth/login.ts'],
+      errors: [],
+      outcomes: [],
+      tasks: [],
+    });
+
+    expect(ids(queryChunkIdsByFacets({ files: ['auth/login.ts'] }))).toEqual(['state-chunk']);
+    expect(ids(queryChunkIdsByFacets({ files: ['login.ts', 'db.ts'] }))).toEqual([
+      'edit-code',
+      'state-chunk',
+    ]);
+  });
+
+  it('filters by tool errors and code blocks', () => {
+    expect(ids(queryChunkIdsByFacets({ hasErrors: true }))).toEqual(['bash-fail']);
+    expect(ids(queryChunkIdsByFacets({ hasCode: true }))).toEqual(['edit-code']);
+    expect(ids(queryChunkIdsByFacets({ hasErrors: false, hasCode: false }))).toEqual([
+      'sub-agent',
+      'talk',
+    ]);
+  });
+
+  it('filters by team, spawn depth and start time', () => {
+    expect(ids(queryChunkIdsByFacets({ team: 'platform' }))).toEqual(['edit-code']);
+    expect(ids(queryChunkIdsByFacets({ spawnDepth: 1 }))).toEqual(['sub-agent']);
+    expect(ids(queryChunkIdsByFacets({ after: '2024-03-02T00:00:00Z' }))).toEqual(['bash-fail']);
+  });
+
+  it('applies project, agent and cutoff scope', () => {
+    expect(ids(queryChunkIdsByFacets({ tools: ['Bash'] }, { projects: 'my-app' }))).toEqual([
+      'bash-fail',
+    ]);
+    expect(ids(queryChunkIdsByFacets({ tools: ['Bash'] }, { agentId: 'researcher' }))).toEqual([
+      'sub-agent',
+    ]);
+    expect(
+      ids(queryChunkIdsByFacets({ tools: ['Bash'] }, { before: '2024-03-02T00:00:00Z' })),
+    ).toEqual(['sub-agent']);
+    expect(queryChunkIdsByFacets({ tools: ['Bash'] }, { projects: [] }).size).toBe(0);
+  });
+
+  it('narrows keyword search in the same query', () => {
+    const store = new KeywordStore();
+
+    expect(
+      store
+        .search('migration', 10, undefined, { tools: ['Bash'] })
+        .map((r) => r.id)
+        .sort(),
+    ).toEqual(['bash-fail', 'sub-agent']);
+    expect(
+      store
+        .searchByProject('migration', 'my-app', 10, undefined, undefined, { hasCode: true })
+        .map((r) => r.id),
+    ).toEqual(['edit-code']);
+  });
+});
@@ -14,7 +14,18 @@ import {
   setupTestDb,
   teardownTestDb,
 } from './test-utils.js';
-import { getRecentChunksBySessionSlug } from '../../src/storage/chunk-store.js';
+import {
+  getRecentChunksBySessionSlug,
+  insertChunks,
+  getChunkById,
+  getPinnedChunkIds,
+  setChunkPinned,
+  getProjectPathForSlug,
+  getIngestionWatermark,
+  getSessionsIngestedAfter,
+  getDistinctAgents,
+  deleteChunk,
+} from '../../src/storage/chunk-store.js';
 
 describe('chunk-store', () => {
   let db: Database.Database;
@@ -581,3 +592,150 @@ describe('getRecentChunksBySessionSlug', () => {
     expect(chunks).toEqual([]);
   });
 });
+
+describe('project paths and ingestion watermarks', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = createTestDb();
+    setupTestDb(db);
+  });
+
+  afterEach(() => {
+    teardownTestDb(db);
+  });
+
+  it('returns the most recent project path for a slug', () => {
+    insertTestChunk(
+      db,
+      createSampleChunk({
+        id: 'c1',
+        sessionSlug: 'proj',
+        startTime: '2025-01-01T00:00:00Z',
+        projectPath: '/old/proj',
+      }),
+    );
+    insertTestChunk(
+      db,
+      createSampleChunk({
+        id: 'c2',
+        sessionSlug: 'proj',
+        startTime: '2025-02-01T00:00:00Z',
+        projectPath: '/work/proj',
+      }),
+    );
+    insertTestChunk(
+      db,
+      createSampleChunk({ id: 'c3', sessionSlug: 'proj', startTime: '2025-03-01T00:00:00Z' }),
+    );
+
+    expect(getProjectPathForSlug('proj')).toBe('/work/proj');
+    expect(getProjectPathForSlug('other')).toBeNull();
+  });
+
+  it('lists sessions with chunks inserted after a watermark', () => {
+    expect(getIngestionWatermark()).toBe(0);
+
+    insertTestChunk(db, createSampleChunk({ id: 'c1', sessionId: 's1', sessionSlug: 'proj' }));
+    const watermark = getIngestionWatermark();
+
+    insertTestChunk(db, createSampleChunk({ id: 'c2', sessionId: 's2', sessionSlug: 'proj' }));
+    insertTestChunk(db, createSampleChunk({ id: 'c3', sessionId: 's3', sessionSlug: 'lib' }));
+    insertTestChunk(db, createSampleChunk({ id: 'c4', sessionId: 's2', sessionSlug: 'proj' }));
+
+    expect(getIngestionWatermark()).toBeGreaterThan(watermark);
+    expect(getSessionsIngestedAfter(watermark)).toEqual([
+      { sessionId: 's2', sessionSlug: 'proj' },
+      { sessionId: 's3', sessionSlug: 'lib' },
+    ]);
+    expect(getSessionsIngestedAfter(getIngestionWatermark())).toEqual([]);
+  });
+
+  it('keeps the watermark moving forward after the newest chunk is deleted', () => {
+    insertTestChunk(db, createSampleChunk({ id: 'c1', sessionId: 's1', sessionSlug: 'proj' }));
+    insertTestChunk(db, createSampleChunk({ id: 'c2', sessionId: 's1', sessionSlug: 'proj' }));
+    const watermark = getIngestionWatermark();
+
+    deleteChunk('c2');
+    expect(getIngestionWatermark()).toBe(watermark);
+
+    // SQLite hands the deleted chunk's rowid to the next insert
+    insertTestChunk(db, createSampleChunk({ id: 'c3', sessionId: 's2', sessionSlug: 'proj' }));
+
+    expect(getIngestionWatermark()).toBeGreaterThan(watermark);
+    expect(getSessionsIngestedAfter(watermark)).toEqual([{ sessionId: 's2', sessionSlug: 'proj' }]);
+  });
+});
+
+describe('pinned chunks', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = createTestDb();
+    setupTestDb(db);
+  });
+
+  afterEach(() => {
+    teardownTestDb(db);
+  });
+
+  it('round-trips pinned flag and tags through insertChunks', () => {
+    const [id] = insertChunks([
+      { ...createSampleChunk({ id: 'note-1' }), pinned: true, tags: ['auth', 'decision'] },
+    ]);
+
+    const chunk = getChunkById(id)!;
+    expect(chunk.pinned).toBe(true);
+    expect(chunk.tags).toEqual(['auth', 'decision']);
+  });
+
+  it('defaults to unpinned with no tags', () => {
+    insertTestChunk(db, createSampleChunk({ id: 'c1' }));
+
+    const chunk = getChunkById('c1')!;
+    expect(chunk.pinned).toBe(false);
+    expect(chunk.tags).toEqual([]);
+  });
+
+  it('getPinnedChunkIds returns only pinned IDs from the given set', () => {
+    insertTestChunk(db, createSampleChunk({ id: 'c1' }));
+    insertTestChunk(db, createSampleChunk({ id: 'c2' }));
+    insertTestChunk(db, createSampleChunk({ id: 'c3' }));
+    setChunkPinned('c2', true);
+    setChunkPinned('c3', true);
+
+    expect(getPinnedChunkIds(['c1', 'c2'])).toEqual(new Set(['c2']));
+    expect(getPinnedChunkIds([])).toEqual(new Set());
+  });
+
+  it('setChunkPinned clears the flag and reports missing chunks', () => {
+    insertTestChunk(db, createSampleChunk({ id: 'c1' }));
+    setChunkPinned('c1', true);
+    setChunkPinned('c1', false);
+
+    expect(getChunkById('c1')!.pinned).toBe(false);
+    expect(setChunkPinned('missing', true)).toBe(false);
+  });
+});
+
+describe('getDistinctAgents', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = createTestDb();
+    setupTestDb(db);
+  });
+
+  afterEach(() => {
+    teardownTestDb(db);
+  });
+
+  it('returns sorted agent ids, skipping main-agent chunks', () => {
+    insertTestChunk(db, createSampleChunk({ id: 'c1', agentId: 'reviewer' }));
+    insertTestChunk(db, createSampleChunk({ id: 'c2', agentId: 'researcher' }));
+    insertTestChunk(db, createSampleChunk({ id: 'c3', agentId: 'reviewer' }));
+    insertTestChunk(db, createSampleChunk({ id: 'c4' }));
+
+    expect(getDistinctAgents()).toEqual(['researcher', 'reviewer']);
+  });
+});
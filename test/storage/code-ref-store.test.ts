@@ -0,0 +1,94 @@
+/**
+ * Tests for chunk-to-code links.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type Database from 'better-sqlite3-multiple-ciphers';
+import {
+  createTestDb,
+  setupTestDb,
+  teardownTestDb,
+  createSampleChunk,
+  insertTestChunk,
+} from './test-utils.js';
+import {
+  insertCodeRefs,
+  getCodeRefsForChunk,
+  getChunksForFile,
+} from '../../src/storage/code-ref-store.js';
+
+describe('code-ref-store', () => {
+  let db: Database.Database;
+
+  function chunk(id: string, startTime: string, projectPath = '/work/my-app'): void {
+    insertTestChunk(
+      db,
+      createSampleChunk({ id, sessionSlug: 'my-app', startTime, projectPath, content: id }),
+    );
+  }
+
+  beforeEach(() => {
+    db = createTestDb();
+    setupTestDb(db);
+  });
+
+  afterEach(() => {
+    teardownTestDb(db);
+  });
+
+  it('stores refs once per file and symbol', () => {
+    chunk('c1', '2026-03-01T00:00:00Z');
+    insertCodeRefs('c1', [
+      { filePath: 'src/auth.ts', source: 'tool' },
+      { filePath: 'src/auth.ts', source: 'mention' },
+      { filePath: 'src/auth.ts', symbol: 'login', source: 'symbol' },
+    ]);
+
+    expect(getCodeRefsForChunk('c1')).toEqual([
+      { filePath: 'src/auth.ts', source: 'tool' },
+      { filePath: 'src/auth.ts', symbol: 'login', source: 'symbol' },
+    ]);
+  });
+
+  it('lists chunks for a file newest first with their symbols', () => {
+    chunk('old', '2026-03-01T00:00:00Z');
+    chunk('new', '2026-03-05T00:00:00Z');
+    chunk('unrelated', '2026-03-06T00:00:00Z');
+    insertCodeRefs('old', [{ filePath: 'src/auth.ts', source: 'tool' }]);
+    insertCodeRefs('new', [
+      { filePath: 'src/auth.ts', symbol: 'refreshToken', source: 'symbol' },
+      { filePath: 'src/auth.ts', symbol: 'login', source: 'symbol' },
+    ]);
+    insertCodeRefs('unrelated', [{ filePath: 'src/billing.ts', source: 'tool' }]);
+
+    const chunks = getChunksForFile('/work/my-app', 'src/auth.ts');
+
+    expect(chunks.map((c) => [c.chunkId, c.symbols, c.sources])).toEqual([
+      ['new', ['login', 'refreshToken'], ['symbol']],
+      ['old', [], ['tool']],
+    ]);
+    expect(getChunksForFile('/work/my-app', 'src/auth.ts', 1).map((c) => c.chunkId)).toEqual([
+      'new',
+    ]);
+  });
+
+  it('scopes lookups to the project directory', () => {
+    chunk('mine', '2026-03-01T00:00:00Z');
+    chunk('theirs', '2026-03-02T00:00:00Z', '/work/other-app');
+    insertCodeRefs('mine', [{ filePath: 'src/index.ts', source: 'tool' }]);
+    insertCodeRefs('theirs', [{ filePath: 'src/index.ts', source: 'tool' }]);
+
+    expect(getChunksForFile('/work/my-app', 'src/index.ts').map((c) => c.chunkId)).toEqual([
+      'mine',
+    ]);
+  });
+
+  it('drops refs when their chunk is deleted', () => {
+    chunk('c1', '2026-03-01T00:00:00Z');
+    insertCodeRefs('c1', [{ filePath: 'src/auth.ts', source: 'tool' }]);
+
+    db.prepare('DELETE FROM chunks WHERE id = ?').run('c1');
+
+    expect(getCodeRefsForChunk('c1')).toEqual([]);
+  });
+});
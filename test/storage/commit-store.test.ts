@@ -0,0 +1,133 @@
+/**
+ * Tests for commit-to-chunk links.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type Database from 'better-sqlite3-multiple-ciphers';
+import {
+  createTestDb,
+  setupTestDb,
+  teardownTestDb,
+  createSampleChunk,
+  insertTestChunk,
+} from './test-utils.js';
+import {
+  upsertCommit,
+  getCommitsByPrefix,
+  getCommitsForSession,
+  upsertPullRequest,
+  getPullRequestsForSession,
+} from '../../src/storage/commit-store.js';
+import type { CommitInput } from '../../src/storage/commit-store.js';
+
+const SHA = '1a2b3c4d5e6f708192a3b4c5d6e7f8091a2b3c4d';
+
+function commit(overrides: Partial<CommitInput> = {}): CommitInput {
+  return {
+    sha: SHA,
+    projectPath: '/work/my-app',
+    sessionId: 'session-1',
+    sessionSlug: 'my-app',
+    subject: 'Fix token refresh race',
+    committedAt: '2026-03-05T10:00:00.000Z',
+    files: [{ path: 'src/tokens.ts', insertions: 12, deletions: 3 }],
+    chunkIds: ['c1'],
+    ...overrides,
+  };
+}
+
+describe('commit-store', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = createTestDb();
+    setupTestDb(db);
+    for (const id of ['c1', 'c2']) {
+      insertTestChunk(db, createSampleChunk({ id, sessionId: 'session-1', sessionSlug: 'my-app' }));
+    }
+  });
+
+  afterEach(() => {
+    teardownTestDb(db);
+  });
+
+  it('stores a commit with its files and chunk links', () => {
+    upsertCommit(commit());
+
+    const [stored] = getCommitsByPrefix('1a2b3c4');
+    expect(stored).toMatchObject({
+      sha: SHA,
+      sessionId: 'session-1',
+      subject: 'Fix token refresh race',
+      files: [{ path: 'src/tokens.ts', insertions: 12, deletions: 3 }],
+      chunkIds: ['c1'],
+    });
+  });
+
+  it('adds links and keeps known details on re-ingestion', () => {
+    upsertCommit(commit());
+    upsertCommit(commit({ committedAt: null, files: [], chunkIds: ['c2'] }));
+
+    const [stored] = getCommitsByPrefix(SHA);
+    expect(stored.chunkIds).toEqual(['c1', 'c2']);
+    expect(stored.committedAt).toBe('2026-03-05T10:00:00.000Z');
+    expect(stored.files).toHaveLength(1);
+  });
+
+  it('stores patches and keeps them when re-ingested without one', () => {
+    upsertCommit(commit({ patch: '+refresh();' }));
+    upsertCommit(commit({ patch: null }));
+
+    expect(getCommitsByPrefix(SHA)[0].patch).toBe('+refresh();');
+  });
+
+  it('stores pull requests with their chunk links', () => {
+    const pr = {
+      url: 'https://github.com/acme/my-app/pull/42',
+      number: 42,
+      projectPath: '/work/my-app',
+      sessionId: 'session-1',
+      sessionSlug: 'my-app',
+      title: 'Fix race',
+      openedAt: '2026-03-05T11:00:00.000Z',
+      chunkIds: ['c1'],
+    };
+    upsertPullRequest(pr);
+    upsertPullRequest({ ...pr, title: '', chunkIds: ['c2'] });
+
+    expect(getPullRequestsForSession('session-1')).toEqual([
+      expect.objectContaining({ number: 42, title: 'Fix race', chunkIds: ['c1', 'c2'] }),
+    ]);
+    expect(getPullRequestsForSession('session-2')).toEqual([]);
+  });
+
+  it('matches prefixes case-insensitively and filters by project', () => {
+    upsertCommit(commit());
+
+    expect(getCommitsByPrefix('1A2B3C')).toHaveLength(1);
+    expect(getCommitsByPrefix('1a2b3c', ['my-app'])).toHaveLength(1);
+    expect(getCommitsByPrefix('1a2b3c', ['other'])).toEqual([]);
+  });
+
+  it('ignores short or non-hex prefixes', () => {
+    upsertCommit(commit());
+
+    expect(getCommitsByPrefix('1a2')).toEqual([]);
+    expect(getCommitsByPrefix('1a2b%')).toEqual([]);
+  });
+
+  it('lists commits for a session oldest first', () => {
+    upsertCommit(commit({ sha: 'bbbb1111', committedAt: '2026-03-05T12:00:00.000Z' }));
+    upsertCommit(commit({ sha: 'aaaa2222', committedAt: '2026-03-05T11:00:00.000Z' }));
+
+    expect(getCommitsForSession('session-1').map((c) => c.sha)).toEqual(['aaaa2222', 'bbbb1111']);
+    expect(getCommitsForSession('session-2')).toEqual([]);
+  });
+
+  it('removes links when a chunk is deleted', () => {
+    upsertCommit(commit({ chunkIds: ['c1', 'c2'] }));
+    db.prepare('DELETE FROM chunks WHERE id = ?').run('c1');
+
+    expect(getCommitsByPrefix(SHA)[0].chunkIds).toEqual(['c2']);
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Tests for zero-downtime embedding model migration.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type Database from 'better-sqlite3-multiple-ciphers';
+import {
+  createTestDb,
+  setupTestDb,
+  teardownTestDb,
+  createSampleChunk,
+  insertTestChunk,
+} from './test-utils.js';
+import {
+  resolveServingModel,
+  startEmbeddingMigration,
+  getEmbeddingMigrationStatus,
+  getPendingEmbeddings,
+  storeShadowEmbeddings,
+  compareMigrationRecall,
+  flipEmbeddingMigration,
+  abandonEmbeddingMigration,
+} from '../../src/storage/embedding-migration.js';
+import { serializeEmbedding, deserializeEmbedding } from '../../src/utils/embedding-utils.js';
+
+const SOURCE = 'hash:4';
+const TARGET = 'hash:8';
+
+function createVectorTables(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS index_entries (
+      id TEXT PRIMARY KEY,
+      chunk_ids TEXT NOT NULL,
+      session_slug TEXT NOT NULL,
+      start_time TEXT NOT NULL,
+      description TEXT NOT NULL
+    )
+  `);
+  for (const table of ['vectors', 'index_vectors']) {
+    db.exec(`
+      CREATE TABLE ${table} (
+        id TEXT PRIMARY KEY,
+        embedding BLOB NOT NULL,
+        orphaned_at TEXT DEFAULT NULL,
+        last_accessed TEXT DEFAULT CURRENT_TIMESTAMP,
+        model_id TEXT DEFAULT 'jina-small'
+      )
+    `);
+  }
+}
+
+function insertVector(
+  db: Database.Database,
+  id: string,
+  embedding: number[],
+  modelId: string,
+  table = 'vectors',
+): void {
+  db.prepare(
+    `INSERT INTO ${table} (id, embedding, last_accessed, model_id) VALUES (?, ?, '2026-01-01T00:00:00Z', ?)`,
+  ).run(id, serializeEmbedding(embedding), modelId);
+}
+
+function insertIndexEntry(db: Database.Database, id: string, description: string): void {
+  db.prepare(
+    `INSERT INTO index_entries (id, chunk_ids, session_slug, start_time, description)
+     VALUES (?, '[]', 'test-project', '2024-01-01T00:00:00Z', ?)`,
+  ).run(id, description);
+}
+
+/** Embed every pending item with a constant target-width vector. */
+function migrateAll(): void {
+  const pending = getPendingEmbeddings(TARGET, 1000);
+  storeShadowEmbeddings(
+    TARGET,
+    pending.map((p) => ({ table: p.table, id: p.id, embedding: new Array(8).fill(0.5) })),
+  );
+}
+
+describe('embedding-migration', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = createTestDb();
+    createVectorTables(db);
+    setupTestDb(db);
+  });
+
+  afterEach(() => {
+    teardownTestDb(db);
+  });
+
+  describe('resolveServingModel', () => {
+    it('serves the configured model when nothing is stored', () => {
+      expect(resolveServingModel(TARGET)).toBe(TARGET);
+    });
+
+    it('keeps serving the stored model until the configured model has vectors', () => {
+      insertTestChunk(db, createSampleChunk({ id: 'c1' }));
+      insertVector(db, 'c1', [1, 0, 0, 0], SOURCE);
+
+      expect(resolveServingModel(TARGET)).toBe(SOURCE);
+      expect(resolveServingModel(SOURCE)).toBe(SOURCE);
+    });
+
+    it('serves the source model while a migration is unflipped', () => {
+      insertTestChunk(db, createSampleChunk({ id: 'c1' }));
+      insertVector(db, 'c1', [1, 0, 0, 0], SOURCE);
+      startEmbeddingMigration(SOURCE, TARGET);
+      // A stray target vector (e.g. from a note) must not end the shadow period
+      insertTestChunk(db, createSampleChunk({ id: 'c2' }));
+      insertVector(db, 'c2', new Array(8).fill(0.1), TARGET);
+
+      expect(resolveServingModel(TARGET)).toBe(SOURCE);
+    });
+  });
+
+  describe('progress', () => {
+    beforeEach(() => {
+      for (const id of ['c1', 'c2', 'c3']) {
+        insertTestChunk(db, createSampleChunk({ id, content: `content ${id}` }));
+        insertVector(db, id, [1, 0, 0, 0], SOURCE);
+      }
+      insertIndexEntry(db, 'e1', 'entry description');
+      insertVector(db, 'e1', [0, 1, 0, 0], SOURCE, 'index_vectors');
+      // Orphaned vector: no chunk text to re-embed from
+      insertVector(db, 'gone', [0, 0, 1, 0], SOURCE);
+      startEmbeddingMigration(SOURCE, TARGET);
+    });
+
+    it('counts source vectors that have text as the migration total', () => {
+      const status = getEmbeddingMigrationStatus(TARGET)!;
+      expect(status.sourceModel).toBe(SOURCE);
+      expect(status.total).toBe(4);
+      expect(status.done).toBe(0);
+      expect(status.coverage).toBe(0);
+    });
+
+    it('returns pending texts in batches, chunks before index entries', () => {
+      const first = getPendingEmbeddings(TARGET, 2);
+      expect(first.map((p) => [p.table, p.id, p.text])).toEqual([
+        ['vectors', 'c1', 'content c1'],
+        ['vectors', 'c2', 'content c2'],
+      ]);
+
+      storeShadowEmbeddings(
+        TARGET,
+        first.map((p) => ({ table: p.table, id: p.id, embedding: new Array(8).fill(0.5) })),
+      );
+
+      // Resumes where the previous batch stopped
+      const second = getPendingEmbeddings(TARGET, 10);
+      expect(second.map((p) => p.id)).toEqual(['c3', 'e1']);
+      expect(getEmbeddingMigrationStatus(TARGET)!.done).toBe(2);
+    });
+
+    it('continues an existing migration instead of restarting it', () => {
+      storeShadowEmbeddings(TARGET, [
+        { table: 'vectors', id: 'c1', embedding: new Array(8).fill(0.5) },
+      ]);
+      startEmbeddingMigration(SOURCE, TARGET);
+
+      expect(getEmbeddingMigrationStatus(TARGET)!.done).toBe(1);
+    });
+
+    it('refuses to flip before coverage reaches 100%', () => {
+      expect(() => flipEmbeddingMigration(TARGET)).toThrow(/incomplete \(0\/4\)/);
+      expect(resolveServingModel(TARGET)).toBe(SOURCE);
+    });
+
+    it('flips shadow vectors into the live tables atomically', () => {
+      migrateAll();
+      expect(getEmbeddingMigrationStatus(TARGET)!.coverage).toBe(1);
+
+      const result = flipEmbeddingMigration(TARGET);
+
+      expect(result).toEqual({ vectorsFlipped: 3, indexVectorsFlipped: 1, orphansDropped: 1 });
+      const rows = db
+        .prepare('SELECT id, embedding, model_id, last_accessed FROM vectors')
+        .all() as Array<{
+        id: string;
+        embedding: Buffer;
+        model_id: string;
+        last_accessed: string;
+      }>;
+      expect(rows.map((r) => r.id).sort()).toEqual(['c1', 'c2', 'c3']);
+      for (const row of rows) {
+        expect(row.model_id).toBe(TARGET);
+        expect(deserializeEmbedding(row.embedding)).toHaveLength(8);
+        expect(row.last_accessed).toBe('2026-01-01T00:00:00Z');
+      }
+      expect(db.prepare('SELECT COUNT(*) AS n FROM vectors_shadow').get()).toEqual({ n: 0 });
+      expect(getEmbeddingMigrationStatus(TARGET)!.flippedAt).not.toBeNull();
+      expect(resolveServingModel(TARGET)).toBe(TARGET);
+    });
+
+    it('rejects a flip when new source vectors arrived after the last batch', () => {
+      migrateAll();
+      insertTestChunk(db, createSampleChunk({ id: 'c4' }));
+      insertVector(db, 'c4', [1, 0, 0, 0], SOURCE);
+
+      expect(() => flipEmbeddingMigration(TARGET)).toThrow(/incomplete \(4\/5\)/);
+    });
+
+    it('abandons an unflipped migration and its shadow vectors', () => {
+      migrateAll();
+
+      expect(abandonEmbeddingMigration()).toBe(true);
+      expect(getEmbeddingMigrationStatus(TARGET)).toBeNull();
+      expect(db.prepare('SELECT COUNT(*) AS n FROM vectors_shadow').get()).toEqual({ n: 0 });
+      expect(abandonEmbeddingMigration()).toBe(false);
+    });
+  });
+
+  describe('compareMigrationRecall', () => {
+    it('records recall@k of both models on usable probes', () => {
+      // Source: c1's nearest neighbour is c3; target: c1's nearest neighbour is c2
+      const source: Record<string, number[]> = {
+        c1: [1, 0, 0, 0],
+        c2: [0, 1, 0, 0],
+        c3: [0.9, 0.1, 0, 0],
+      };
+      const target: Record<string, number[]> = {
+        c1: [1, 0, 0, 0, 0, 0, 0, 0],
+        c2: [0.9, 0.1, 0, 0, 0, 0, 0, 0],
+        c3: [0, 0, 1, 0, 0, 0, 0, 0],
+      };
+      for (const id of Object.keys(source)) {
+        insertTestChunk(db, createSampleChunk({ id }));
+        insertVector(db, id, source[id], SOURCE);
+      }
+      startEmbeddingMigration(SOURCE, TARGET);
+      storeShadowEmbeddings(
+        TARGET,
+        Object.keys(target).map((id) => ({ table: 'vectors', id, embedding: target[id] })),
+      );
+
+      const recall = compareMigrationRecall(
+        TARGET,
+        [
+          { queryChunkId: 'c1', adjacentChunkId: 'c2' },
+          { queryChunkId: 'c1', adjacentChunkId: 'missing' },
+        ],
+        1,
+      );
+
+      expect(recall).toEqual({ k: 1, sampledQueries: 1, source: 0, target: 1 });
+      expect(getEmbeddingMigrationStatus(TARGET)!.recall).toEqual(recall);
+    });
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Tests for the HNSW approximate nearest-neighbour graph.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { HnswIndex } from '../../src/storage/hnsw-index.js';
+import { angularDistance } from '../../src/utils/angular-distance.js';
+
+const DIMS = 16;
+
+/** Deterministic pseudo-random source (mulberry32). */
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomVector(random: () => number): number[] {
+  return Array.from({ length: DIMS }, () => random() * 2 - 1);
+}
+
+function exactTopK(vectors: Map<string, number[]>, query: number[], k: number): string[] {
+  return [...vectors]
+    .map(([id, v]) => ({ id, distance: angularDistance(query, v) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, k)
+    .map((r) => r.id);
+}
+
+function recallAt(
+  index: HnswIndex,
+  vectors: Map<string, number[]>,
+  queries: number[][],
+  k: number,
+): number {
+  let hits = 0;
+  for (const query of queries) {
+    const expected = new Set(exactTopK(vectors, query, k));
+    hits += index
+      .search(query, 64)
+      .slice(0, k)
+      .filter((h) => expected.has(h.id)).length;
+  }
+  return hits / (queries.length * k);
+}
+
+describe('HnswIndex', () => {
+  let random: () => number;
+  let vectors: Map<string, number[]>;
+  let index: HnswIndex;
+  let queries: number[][];
+
+  beforeEach(() => {
+    random = seededRandom(42);
+    vectors = new Map();
+    index = new HnswIndex((id) => vectors.get(id), { m: 8, efConstruction: 64, random });
+    for (let i = 0; i < 600; i++) {
+      vectors.set(`v${i}`, randomVector(random));
+      index.add(`v${i}`);
+    }
+    queries = Array.from({ length: 20 }, () => randomVector(random));
+  });
+
+  it('finds nearly the same neighbours as an exact scan', () => {
+    expect(index.size).toBe(600);
+    expect(recallAt(index, vectors, queries, 10)).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it('returns hits sorted by distance', () => {
+    const hits = index.search(queries[0], 20);
+
+    expect(hits).toHaveLength(20);
+    for (let i = 1; i < hits.length; i++) {
+      expect(hits[i].distance).toBeGreaterThanOrEqual(hits[i - 1].distance);
+    }
+  });
+
+  it('keeps neighbour lists within the link limits', () => {
+    for (let i = 0; i < 600; i++) {
+      const node = index.getNode(`v${i}`)!;
+      expect(node.neighbors[0].length).toBeLessThanOrEqual(16);
+      for (let lc = 1; lc <= node.level; lc++) {
+        expect(node.neighbors[lc].length).toBeLessThanOrEqual(8);
+      }
+    }
+  });
+
+  it('repairs the graph when nodes are removed', () => {
+    for (let i = 0; i < 300; i++) {
+      const touched = index.remove(`v${i}`);
+      expect(touched.has(`v${i}`)).toBe(false);
+      vectors.delete(`v${i}`);
+    }
+
+    expect(index.size).toBe(300);
+    expect(index.has('v0')).toBe(false);
+    for (const query of queries) {
+      expect(index.search(query, 10).every((h) => vectors.has(h.id))).toBe(true);
+    }
+    expect(recallAt(index, vectors, queries, 10)).toBeGreaterThanOrEqual(0.85);
+  });
+
+  it('replaces a node re-added under the same id', () => {
+    vectors.set('v5', queries[0]);
+    index.add('v5');
+
+    expect(index.size).toBe(600);
+    expect(index.search(queries[0], 10)[0].id).toBe('v5');
+  });
+
+  it('restores persisted nodes without relinking', () => {
+    const restored = new HnswIndex((id) => vectors.get(id), { m: 8, efConstruction: 64 });
+    for (const id of vectors.keys()) {
+      restored.restore(index.getNode(id)!);
+    }
+
+    expect(restored.dropDanglingLinks().size).toBe(0);
+    for (const query of queries) {
+      expect(restored.search(query, 10)).toEqual(index.search(query, 10));
+    }
+  });
+
+  it('drops links to nodes that were not restored', () => {
+    const restored = new HnswIndex((id) => vectors.get(id), { m: 8, efConstruction: 64 });
+    for (const id of [...vectors.keys()].slice(0, 500)) {
+      restored.restore(index.getNode(id)!);
+    }
+
+    const touched = restored.dropDanglingLinks();
+
+    expect(touched.size).toBeGreaterThan(0);
+    for (const id of touched) {
+      const node = restored.getNode(id)!;
+      expect(node.neighbors.flat().every((n) => restored.has(n))).toBe(true);
+    }
+  });
+
+  it('handles an empty graph and a removed entry point', () => {
+    const empty = new HnswIndex((id) => vectors.get(id), { m: 8, efConstruction: 64 });
+    expect(empty.search(queries[0], 10)).toEqual([]);
+
+    empty.add('v1');
+    empty.remove('v1');
+    expect(empty.size).toBe(0);
+    expect(empty.search(queries[0], 10)).toEqual([]);
+
+    empty.add('v2');
+    expect(empty.search(queries[0], 10).map((h) => h.id)).toEqual(['v2']);
+  });
+
+  it('throws when a vector is missing', () => {
+    expect(() => index.add('unknown')).toThrow(/No vector/);
+  });
+});
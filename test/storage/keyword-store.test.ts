@@ -20,8 +20,13 @@ describe('keyword-store', () => {
     db.close();
   });
 
-  function insertChunkWithContent(id: string, content: string, sessionSlug = 'test-project') {
-    insertTestChunk(db, createSampleChunk({ id, content, sessionSlug }));
+  function insertChunkWithContent(
+    id: string,
+    content: string,
+    sessionSlug = 'test-project',
+    startTime?: string,
+  ) {
+    insertTestChunk(db, createSampleChunk({ id, content, sessionSlug, startTime }));
   }
 
   describe('search', () => {
@@ -106,6 +111,15 @@ describe('keyword-store', () => {
       // Should not throw and should find something
       expect(results.length).toBeGreaterThanOrEqual(0);
     });
+
+    it('excludes chunks at or after the before cutoff', () => {
+      insertChunkWithContent('old', 'authentication flow', 'p', '2024-01-01T00:00:00.000Z');
+      insertChunkWithContent('new', 'authentication tokens', 'p', '2024-06-01T00:00:00.000Z');
+
+      const results = store.search('authentication', 10, '2024-03-01T00:00:00.000Z');
+
+      expect(results.map((r) => r.id)).toEqual(['old']);
+    });
   });
 
   describe('searchByProject', () => {
@@ -141,6 +155,37 @@ describe('keyword-store', () => {
       expect(results).toEqual([]);
     });
 
+    it('applies the before cutoff alongside the project filter', () => {
+      insertChunkWithContent(
+        'a-old',
+        'authentication flow',
+        'project-a',
+        '2024-01-01T00:00:00.000Z',
+      );
+      insertChunkWithContent(
+        'a-new',
+        'authentication tokens',
+        'project-a',
+        '2024-06-01T00:00:00.000Z',
+      );
+      insertChunkWithContent(
+        'b-old',
+        'authentication setup',
+        'project-b',
+        '2024-01-01T00:00:00.000Z',
+      );
+
+      const results = store.searchByProject(
+        'authentication',
+        'project-a',
+        10,
+        undefined,
+        '2024-03-01T00:00:00.000Z',
+      );
+
+      expect(results.map((r) => r.id)).toEqual(['a-old']);
+    });
+
     it('returns empty for empty project list', () => {
       insertChunkWithContent('c1', 'authentication flow', 'project-a');
       const results = store.searchByProject('authentication', [], 10);
@@ -171,18 +171,18 @@ describe('migration v11', () => {
     const db = createV10Database();
     runMigrations(db);
 
-    expect(getSchemaVersion(db)).toBe(16);
+    expect(getSchemaVersion(db)).toBe(24);
     db.close();
   });
 
   it('is idempotent', () => {
     const db = createV10Database();
     runMigrations(db);
-    expect(getSchemaVersion(db)).toBe(16);
+    expect(getSchemaVersion(db)).toBe(24);
 
     // Run again — should not fail
     runMigrations(db);
-    expect(getSchemaVersion(db)).toBe(16);
+    expect(getSchemaVersion(db)).toBe(24);
     db.close();
   });
 
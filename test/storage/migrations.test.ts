@@ -136,7 +136,7 @@ describe('runMigrations', () => {
       // Reset version to 0 to simulate a completely fresh database
       db.exec('DELETE FROM schema_version');
       runMigrations(db);
-      expect(getSchemaVersion(db)).toBe(16);
+      expect(getSchemaVersion(db)).toBe(24);
       db.close();
     });
   });
@@ -148,7 +148,7 @@ describe('runMigrations', () => {
 
       runMigrations(db);
 
-      expect(getSchemaVersion(db)).toBe(16);
+      expect(getSchemaVersion(db)).toBe(24);
       db.close();
     });
 
@@ -273,17 +273,144 @@ describe('runMigrations', () => {
       expect(cols).toContain('chunk_count');
       db.close();
     });
+
+    it('adds pinned and tags columns to chunks (v17)', () => {
+      const db = createV1Database();
+      runMigrations(db);
+
+      const cols = getColumnNames(db, 'chunks');
+      expect(cols).toContain('pinned');
+      expect(cols).toContain('tags');
+      expect(indexExists(db, 'idx_chunks_pinned')).toBe(true);
+      db.close();
+    });
+
+    it('creates archive_imports table (v18)', () => {
+      const db = createV1Database();
+      runMigrations(db);
+
+      expect(tableExists(db, 'archive_imports')).toBe(true);
+      expect(getColumnNames(db, 'archive_imports')).toContain('records_committed');
+      db.close();
+    });
+
+    it('creates chunk_code_refs table (v19)', () => {
+      const db = createV1Database();
+      runMigrations(db);
+
+      expect(tableExists(db, 'chunk_code_refs')).toBe(true);
+      expect(getColumnNames(db, 'chunk_code_refs')).toEqual(
+        expect.arrayContaining(['chunk_id', 'file_path', 'symbol', 'source']),
+      );
+      expect(indexExists(db, 'idx_chunk_code_refs_file')).toBe(true);
+      db.close();
+    });
+
+    it('creates git_commits and commit_chunks tables (v20)', () => {
+      const db = createV1Database();
+      runMigrations(db);
+
+      expect(tableExists(db, 'git_commits')).toBe(true);
+      expect(getColumnNames(db, 'git_commits')).toContain('files');
+      expect(tableExists(db, 'commit_chunks')).toBe(true);
+      expect(indexExists(db, 'idx_commit_chunks_chunk')).toBe(true);
+      db.close();
+    });
+
+    it('adds commit patches and pull request tables (v23)', () => {
+      const db = createV1Database();
+      runMigrations(db);
+
+      expect(getColumnNames(db, 'git_commits')).toContain('patch');
+      expect(tableExists(db, 'pull_requests')).toBe(true);
+      expect(tableExists(db, 'pull_request_chunks')).toBe(true);
+      expect(indexExists(db, 'idx_pull_request_chunks_chunk')).toBe(true);
+      db.close();
+    });
+
+    it('adds quantized blob columns to existing vector tables (v21)', () => {
+      const db = createV1Database();
+      db.exec('CREATE TABLE vectors (id TEXT PRIMARY KEY, embedding BLOB NOT NULL)');
+      runMigrations(db);
+
+      expect(getColumnNames(db, 'vectors')).toEqual(
+        expect.arrayContaining(['model_id', 'embedding_quantized', 'quantization']),
+      );
+      expect(tableExists(db, 'index_vectors')).toBe(false);
+      db.close();
+    });
+
+    it('adds search facets and backfills tool names from content (v22)', () => {
+      const db = createV1Database();
+      db.exec(`
+        INSERT INTO chunks (id, session_id, session_slug, turn_indices, start_time, end_time, content)
+        VALUES ('c1', 's1', 'proj', '[0]', '2024-01-01T00:00:00Z', '2024-01-01T00:00:00Z',
+                '[Tool:Bash]\nnpm test\n\n[Tool:Edit]\nsrc/a.ts\n\n[Tool:Bash]\nnpm test')
+      `);
+      runMigrations(db);
+
+      expect(getColumnNames(db, 'chunks')).toContain('tool_error_count');
+      expect(indexExists(db, 'idx_chunk_tools_tool')).toBe(true);
+      expect(indexExists(db, 'idx_chunks_spawn_depth')).toBe(true);
+      const tools = db
+        .prepare('SELECT tool_name FROM chunk_tools WHERE chunk_id = ? ORDER BY tool_name')
+        .all('c1');
+      expect(tools).toEqual([{ tool_name: 'Bash' }, { tool_name: 'Edit' }]);
+      db.close();
+    });
+
+    it('backfills tool names across batches (v22)', () => {
+      const db = createV1Database();
+      const insert = db.prepare(
+        `INSERT INTO chunks (id, session_id, session_slug, turn_indices, start_time, end_time, content)
+         VALUES (?, 's1', 'proj', '[0]', '2024-01-01T00:00:00Z', '2024-01-01T00:00:00Z', ?)`,
+      );
+      for (let i = 0; i < 1200; i++) {
+        insert.run(`c${i}`, i % 2 === 0 ? '[Tool:Read]\nsrc/a.ts' : 'no tools here');
+      }
+      runMigrations(db);
+
+      const row = db.prepare('SELECT COUNT(*) as cnt FROM chunk_tools').get() as { cnt: number };
+      expect(row.cnt).toBe(600);
+      db.close();
+    });
+
+    it('numbers existing chunks and new inserts by ingestion sequence (v24)', () => {
+      const db = createV1Database();
+      const insert = db.prepare(
+        `INSERT INTO chunks (id, session_id, session_slug, turn_indices, start_time, end_time, content)
+         VALUES (?, 's1', 'proj', '[0]', '2024-01-01T00:00:00Z', '2024-01-01T00:00:00Z', 'text')`,
+      );
+      insert.run('c1');
+      insert.run('c2');
+      runMigrations(db);
+
+      expect(indexExists(db, 'idx_chunks_ingest_seq')).toBe(true);
+      const counter = () =>
+        (db.prepare('SELECT value FROM ingestion_sequence WHERE id = 1').get() as { value: number })
+          .value;
+      expect(counter()).toBe(2);
+
+      db.prepare('DELETE FROM chunks WHERE id = ?').run('c2');
+      insert.run('c3');
+
+      expect(counter()).toBe(3);
+      expect(db.prepare('SELECT ingest_seq FROM chunks WHERE id = ?').get('c3')).toEqual({
+        ingest_seq: 3,
+      });
+      db.close();
+    });
   });
 
   describe('idempotency', () => {
     it('can run migrations multiple times without error', () => {
       const db = createV1Database();
       runMigrations(db);
-      expect(getSchemaVersion(db)).toBe(16);
+      expect(getSchemaVersion(db)).toBe(24);
 
       // Run again — should be a no-op
       runMigrations(db);
-      expect(getSchemaVersion(db)).toBe(16);
+      expect(getSchemaVersion(db)).toBe(24);
       db.close();
     });
 
@@ -357,7 +484,7 @@ describe('runMigrations', () => {
 
       runMigrations(db);
 
-      expect(getSchemaVersion(db)).toBe(16);
+      expect(getSchemaVersion(db)).toBe(24);
       expect(getColumnNames(db, 'chunks')).toContain('project_path');
       expect(getColumnNames(db, 'chunks')).toContain('team_name');
       expect(getColumnNames(db, 'chunks')).not.toContain('vector_clock');
@@ -394,7 +521,7 @@ describe('runMigrations', () => {
 
       runMigrations(db);
 
-      expect(getSchemaVersion(db)).toBe(16);
+      expect(getSchemaVersion(db)).toBe(24);
       expect(indexExists(db, 'idx_chunks_slug_start_time')).toBe(true);
       expect(indexExists(db, 'idx_chunks_agent_id')).toBe(true);
       expect(getColumnNames(db, 'chunks')).toContain('team_name');
@@ -0,0 +1,77 @@
+/**
+ * Tests for the persistent repo map tag cache.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type Database from 'better-sqlite3-multiple-ciphers';
+import { createTestDb, setupTestDb, teardownTestDb } from './test-utils.js';
+import {
+  loadRepoMapTags,
+  saveRepoMapTags,
+  getRepoMapCacheProjects,
+  deleteRepoMapCache,
+  type PersistedFileTags,
+} from '../../src/storage/repomap-cache-store.js';
+
+function entry(relativePath: string, name: string, mtimeMs = 1000): PersistedFileTags {
+  return {
+    relativePath,
+    mtimeMs,
+    contentHash: `hash-${relativePath}`,
+    tags: [{ name, kind: 'def', line: 1, file: relativePath, type: 'function' }],
+  };
+}
+
+describe('repomap-cache-store', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = createTestDb();
+    setupTestDb(db);
+  });
+
+  afterEach(() => {
+    teardownTestDb(db);
+  });
+
+  it('round-trips tags per project', () => {
+    saveRepoMapTags('/proj/a', 1, [entry('src/a.ts', 'foo'), entry('src/b.ts', 'bar')]);
+    saveRepoMapTags('/proj/b', 1, [entry('main.ts', 'main')]);
+
+    const loaded = loadRepoMapTags('/proj/a', 1);
+
+    expect([...loaded.keys()].sort()).toEqual(['src/a.ts', 'src/b.ts']);
+    expect(loaded.get('src/a.ts')).toEqual(entry('src/a.ts', 'foo'));
+  });
+
+  it('overwrites existing entries and removes deleted paths', () => {
+    saveRepoMapTags('/proj/a', 1, [entry('a.ts', 'foo'), entry('b.ts', 'bar')]);
+    saveRepoMapTags('/proj/a', 1, [entry('a.ts', 'renamed', 2000)], ['b.ts']);
+
+    const loaded = loadRepoMapTags('/proj/a', 1);
+
+    expect([...loaded.keys()]).toEqual(['a.ts']);
+    expect(loaded.get('a.ts')!.mtimeMs).toBe(2000);
+    expect(loaded.get('a.ts')!.tags[0].name).toBe('renamed');
+  });
+
+  it('discards rows from another parser version', () => {
+    saveRepoMapTags('/proj/a', 1, [entry('a.ts', 'foo')]);
+
+    expect(loadRepoMapTags('/proj/a', 2).size).toBe(0);
+    expect(loadRepoMapTags('/proj/a', 1).size).toBe(0);
+  });
+
+  it('lists and deletes cached projects', () => {
+    saveRepoMapTags('/proj/a', 1, [entry('a.ts', 'foo'), entry('b.ts', 'bar')]);
+    saveRepoMapTags('/proj/b', 1, [entry('main.ts', 'main')]);
+
+    expect(getRepoMapCacheProjects().map((p) => [p.projectPath, p.fileCount])).toEqual([
+      ['/proj/a', 2],
+      ['/proj/b', 1],
+    ]);
+
+    expect(deleteRepoMapCache('/proj/a')).toBe(2);
+    expect(getRepoMapCacheProjects().map((p) => p.projectPath)).toEqual(['/proj/b']);
+  });
+});
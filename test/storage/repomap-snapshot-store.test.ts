@@ -0,0 +1,69 @@
+/**
+ * Tests for repo map snapshots.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type Database from 'better-sqlite3-multiple-ciphers';
+import { createTestDb, setupTestDb, teardownTestDb } from './test-utils.js';
+import {
+  saveRepoMapSnapshot,
+  getLatestRepoMapSnapshot,
+  deleteRepoMapSnapshots,
+  type SnapshotDefinition,
+} from '../../src/storage/repomap-snapshot-store.js';
+
+function files(name: string): Map<string, SnapshotDefinition[]> {
+  return new Map([['src/a.ts', [{ name, type: 'function' }]]]);
+}
+
+describe('repomap-snapshot-store', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = createTestDb();
+    setupTestDb(db);
+  });
+
+  afterEach(() => {
+    teardownTestDb(db);
+  });
+
+  it('returns the latest snapshot of a project', () => {
+    saveRepoMapSnapshot('/proj/a', 'sess-1', files('first'));
+    saveRepoMapSnapshot('/proj/a', 'sess-2', files('second'));
+    saveRepoMapSnapshot('/proj/b', 'sess-3', files('other'));
+
+    const snapshot = getLatestRepoMapSnapshot('/proj/a');
+    expect(snapshot?.sessionId).toBe('sess-2');
+    expect(snapshot?.files).toEqual(files('second'));
+  });
+
+  it('returns null for projects without snapshots', () => {
+    expect(getLatestRepoMapSnapshot('/proj/none')).toBeNull();
+  });
+
+  it('keeps only the most recent snapshots per project', () => {
+    for (let i = 0; i < 7; i++) {
+      saveRepoMapSnapshot('/proj/a', `sess-${i}`, files(`v${i}`));
+    }
+    saveRepoMapSnapshot('/proj/b', 'sess-b', files('other'));
+
+    const count = (project: string) =>
+      (
+        db
+          .prepare('SELECT COUNT(*) AS n FROM repomap_snapshots WHERE project_path = ?')
+          .get(project) as { n: number }
+      ).n;
+    expect(count('/proj/a')).toBe(5);
+    expect(count('/proj/b')).toBe(1);
+    expect(getLatestRepoMapSnapshot('/proj/a')?.sessionId).toBe('sess-6');
+  });
+
+  it('deletes all snapshots of a project', () => {
+    saveRepoMapSnapshot('/proj/a', 'sess-1', files('first'));
+    saveRepoMapSnapshot('/proj/a', 'sess-2', files('second'));
+
+    expect(deleteRepoMapSnapshots('/proj/a')).toBe(2);
+    expect(getLatestRepoMapSnapshot('/proj/a')).toBeNull();
+  });
+});
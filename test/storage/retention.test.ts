@@ -0,0 +1,252 @@
+/**
+ * Tests for retention planning and pruning.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type Database from 'better-sqlite3-multiple-ciphers';
+import {
+  createTestDb,
+  setupTestDb,
+  teardownTestDb,
+  createSampleChunk,
+  insertTestChunk,
+  insertTestEdge,
+  insertTestCluster,
+  assignChunkToCluster,
+} from './test-utils.js';
+
+const mockDeleteBatch = vi.fn(async (ids: string[]) => ids.length);
+const mockDeleteIndexEntries = vi.fn(async () => 0);
+
+vi.mock('../../src/storage/vector-store.js', () => ({
+  vectorStore: { deleteBatch: (ids: string[]) => mockDeleteBatch(ids) },
+}));
+
+vi.mock('../../src/storage/index-entry-store.js', () => ({
+  deleteIndexEntriesForChunks: () => mockDeleteIndexEntries(),
+}));
+
+import {
+  resolveRetentionLimits,
+  planRetention,
+  deleteDanglingEdges,
+  pruneChunks,
+  type RetentionPolicy,
+} from '../../src/storage/retention.js';
+
+const NOW = Date.parse('2026-06-01T00:00:00Z');
+const DAY = 24 * 60 * 60 * 1000;
+
+function daysAgo(days: number): string {
+  return new Date(NOW - days * DAY).toISOString();
+}
+
+function policy(overrides: Partial<RetentionPolicy> = {}): RetentionPolicy {
+  return {
+    maxAgeDays: 0,
+    maxChunks: 0,
+    keepRetrievedWithinDays: 30,
+    maxDbSizeMb: 0,
+    includePinned: false,
+    projects: {},
+    ...overrides,
+  };
+}
+
+function recordRetrieval(db: Database.Database, chunkId: string, returnedAt: string): void {
+  db.prepare(
+    "INSERT INTO retrieval_feedback (chunk_id, query_hash, returned_at, tool_name) VALUES (?, 'q', ?, 'search')",
+  ).run(chunkId, returnedAt);
+}
+
+describe('retention', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = createTestDb();
+    setupTestDb(db);
+    mockDeleteBatch.mockClear();
+    mockDeleteIndexEntries.mockClear();
+  });
+
+  afterEach(() => {
+    teardownTestDb(db);
+  });
+
+  describe('resolveRetentionLimits', () => {
+    it('applies project overrides over defaults', () => {
+      const limits = resolveRetentionLimits(
+        policy({ maxAgeDays: 90, projects: { app: { maxChunks: 10 } } }),
+        'app',
+      );
+      expect(limits).toEqual({ maxAgeDays: 90, maxChunks: 10, keepRetrievedWithinDays: 30 });
+    });
+  });
+
+  describe('planRetention', () => {
+    it('selects nothing when all limits are unlimited', () => {
+      insertTestChunk(db, createSampleChunk({ id: 'a', startTime: daysAgo(1000) }));
+
+      const plan = planRetention(policy(), NOW);
+
+      expect(plan.chunkIds).toEqual([]);
+      expect(plan.projects).toHaveLength(1);
+      expect(plan.projects[0].totalChunks).toBe(1);
+    });
+
+    it('selects chunks older than maxAgeDays', () => {
+      insertTestChunk(db, createSampleChunk({ id: 'old', startTime: daysAgo(100) }));
+      insertTestChunk(db, createSampleChunk({ id: 'new', startTime: daysAgo(10) }));
+
+      const plan = planRetention(policy({ maxAgeDays: 30 }), NOW);
+
+      expect(plan.chunkIds).toEqual(['old']);
+      expect(plan.projects[0].byAge).toBe(1);
+    });
+
+    it('selects the oldest chunks beyond maxChunks', () => {
+      for (let i = 0; i < 5; i++) {
+        insertTestChunk(db, createSampleChunk({ id: `c${i}`, startTime: daysAgo(10 - i) }));
+      }
+
+      const plan = planRetention(policy({ maxChunks: 3 }), NOW);
+
+      expect(plan.chunkIds).toEqual(['c0', 'c1']);
+      expect(plan.projects[0].byCount).toBe(2);
+    });
+
+    it('does not double count chunks already selected by age', () => {
+      insertTestChunk(db, createSampleChunk({ id: 'old', startTime: daysAgo(100) }));
+      insertTestChunk(db, createSampleChunk({ id: 'mid', startTime: daysAgo(20) }));
+      insertTestChunk(db, createSampleChunk({ id: 'new', startTime: daysAgo(1) }));
+
+      const plan = planRetention(policy({ maxAgeDays: 30, maxChunks: 1 }), NOW);
+
+      expect(plan.chunkIds).toEqual(['old', 'mid']);
+      expect(plan.projects[0].byAge).toBe(1);
+      expect(plan.projects[0].byCount).toBe(1);
+    });
+
+    it('protects pinned chunks unless includePinned is set', () => {
+      insertTestChunk(db, createSampleChunk({ id: 'pinned', startTime: daysAgo(100) }));
+      db.prepare("UPDATE chunks SET pinned = 1 WHERE id = 'pinned'").run();
+
+      const kept = planRetention(policy({ maxAgeDays: 30 }), NOW);
+      expect(kept.chunkIds).toEqual([]);
+      expect(kept.projects[0].protectedChunks).toBe(1);
+
+      const pruned = planRetention(policy({ maxAgeDays: 30, includePinned: true }), NOW);
+      expect(pruned.chunkIds).toEqual(['pinned']);
+    });
+
+    it('protects chunks retrieved within the keep window', () => {
+      insertTestChunk(db, createSampleChunk({ id: 'recent', startTime: daysAgo(100) }));
+      insertTestChunk(db, createSampleChunk({ id: 'stale', startTime: daysAgo(100) }));
+      recordRetrieval(db, 'recent', daysAgo(5));
+      recordRetrieval(db, 'stale', daysAgo(60));
+
+      const plan = planRetention(policy({ maxAgeDays: 30 }), NOW);
+
+      expect(plan.chunkIds).toEqual(['stale']);
+      expect(plan.projects[0].protectedChunks).toBe(1);
+    });
+
+    it('ignores retrievals when keepRetrievedWithinDays is 0', () => {
+      insertTestChunk(db, createSampleChunk({ id: 'recent', startTime: daysAgo(100) }));
+      recordRetrieval(db, 'recent', daysAgo(1));
+
+      const plan = planRetention(policy({ maxAgeDays: 30, keepRetrievedWithinDays: 0 }), NOW);
+
+      expect(plan.chunkIds).toEqual(['recent']);
+    });
+
+    it('applies per-project overrides', () => {
+      insertTestChunk(
+        db,
+        createSampleChunk({ id: 'a', sessionSlug: 'alpha', startTime: daysAgo(60) }),
+      );
+      insertTestChunk(
+        db,
+        createSampleChunk({ id: 'b', sessionSlug: 'beta', startTime: daysAgo(60) }),
+      );
+
+      const plan = planRetention(
+        policy({ maxAgeDays: 30, projects: { beta: { maxAgeDays: 365 } } }),
+        NOW,
+      );
+
+      expect(plan.chunkIds).toEqual(['a']);
+      expect(plan.projects.map((p) => p.project)).toEqual(['alpha', 'beta']);
+      expect(plan.projects[1].limits.maxAgeDays).toBe(365);
+    });
+
+    it('selects the oldest chunks across projects when over the size limit', () => {
+      for (let i = 0; i < 4; i++) {
+        insertTestChunk(
+          db,
+          createSampleChunk({
+            id: `c${i}`,
+            sessionSlug: i % 2 === 0 ? 'alpha' : 'beta',
+            startTime: daysAgo(10 - i),
+            content: 'x'.repeat(50_000),
+          }),
+        );
+      }
+
+      const { dbSizeBytes } = planRetention(policy(), NOW);
+      const maxDbSizeMb = (dbSizeBytes * 0.6) / (1024 * 1024);
+
+      const plan = planRetention(policy({ maxDbSizeMb }), NOW);
+
+      // 40% over the limit at ~25% of the size per chunk: the two oldest go
+      expect(plan.chunkIds).toEqual(['c0', 'c1']);
+      expect(plan.projects.map((p) => p.bySize)).toEqual([1, 1]);
+    });
+  });
+
+  describe('deleteDanglingEdges', () => {
+    it('removes edges whose endpoints no longer exist', () => {
+      insertTestChunk(db, createSampleChunk({ id: 'a' }));
+      insertTestChunk(db, createSampleChunk({ id: 'b' }));
+      insertTestEdge(db, { id: 'e1', sourceChunkId: 'a', targetChunkId: 'b', edgeType: 'forward' });
+      db.pragma('foreign_keys = OFF');
+      insertTestEdge(db, {
+        id: 'e2',
+        sourceChunkId: 'a',
+        targetChunkId: 'missing',
+        edgeType: 'forward',
+      });
+      db.pragma('foreign_keys = ON');
+
+      expect(deleteDanglingEdges()).toBe(1);
+      const remaining = db.prepare('SELECT id FROM edges').all() as Array<{ id: string }>;
+      expect(remaining.map((r) => r.id)).toEqual(['e1']);
+    });
+  });
+
+  describe('pruneChunks', () => {
+    it('returns zero counts for an empty list', async () => {
+      const result = await pruneChunks([]);
+      expect(result.chunksDeleted).toBe(0);
+      expect(mockDeleteBatch).not.toHaveBeenCalled();
+    });
+
+    it('deletes chunks, vectors, edges and empty clusters', async () => {
+      insertTestChunk(db, createSampleChunk({ id: 'a' }));
+      insertTestChunk(db, createSampleChunk({ id: 'b' }));
+      insertTestEdge(db, { id: 'e1', sourceChunkId: 'a', targetChunkId: 'b', edgeType: 'forward' });
+      insertTestCluster(db, { id: 'cl1', name: 'Cluster' });
+      assignChunkToCluster(db, 'a', 'cl1');
+
+      const result = await pruneChunks(['a']);
+
+      expect(result.chunksDeleted).toBe(1);
+      expect(result.vectorsDeleted).toBe(1);
+      expect(result.clustersDeleted).toBe(1);
+      expect(mockDeleteBatch).toHaveBeenCalledWith(['a']);
+      expect(mockDeleteIndexEntries).toHaveBeenCalledOnce();
+      expect(db.prepare('SELECT COUNT(*) as n FROM edges').get()).toEqual({ n: 0 });
+      expect(db.prepare('SELECT id FROM chunks').all()).toEqual([{ id: 'b' }]);
+    });
+  });
+});
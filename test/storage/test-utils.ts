@@ -52,14 +52,30 @@ export function createTestDb(): Database.Database {
       content TEXT NOT NULL,
       code_block_count INTEGER DEFAULT 0,
       tool_use_count INTEGER DEFAULT 0,
+      tool_error_count INTEGER DEFAULT 0,
       approx_tokens INTEGER DEFAULT 0,
       created_at TEXT DEFAULT CURRENT_TIMESTAMP,
       agent_id TEXT,
       spawn_depth INTEGER DEFAULT 0,
       project_path TEXT,
-      team_name TEXT
+      team_name TEXT,
+      pinned INTEGER DEFAULT 0,
+      tags TEXT,
+      ingest_seq INTEGER
     );
 
+    CREATE TABLE IF NOT EXISTS ingestion_sequence (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      value INTEGER NOT NULL
+    );
+    INSERT OR IGNORE INTO ingestion_sequence (id, value) VALUES (1, 0);
+
+    CREATE TRIGGER IF NOT EXISTS chunks_ingest_seq AFTER INSERT ON chunks BEGIN
+      UPDATE ingestion_sequence SET value = value + 1 WHERE id = 1;
+      UPDATE chunks SET ingest_seq = (SELECT value FROM ingestion_sequence WHERE id = 1)
+      WHERE rowid = new.rowid;
+    END;
+
     CREATE INDEX IF NOT EXISTS idx_chunks_session ON chunks(session_id);
     CREATE INDEX IF NOT EXISTS idx_chunks_slug ON chunks(session_slug);
     CREATE INDEX IF NOT EXISTS idx_chunks_time ON chunks(start_time);
@@ -68,6 +84,7 @@ export function createTestDb(): Database.Database {
     CREATE INDEX IF NOT EXISTS idx_chunks_team_name ON chunks(team_name);
     CREATE INDEX IF NOT EXISTS idx_chunks_agent_start ON chunks(agent_id, start_time);
     CREATE INDEX IF NOT EXISTS idx_chunks_team_start ON chunks(team_name, start_time);
+    CREATE INDEX IF NOT EXISTS idx_chunks_pinned ON chunks(pinned);
 
     -- Edges table
     CREATE TABLE IF NOT EXISTS edges (
@@ -185,8 +202,81 @@ export function createTestDb(): Database.Database {
     CREATE INDEX IF NOT EXISTS idx_entity_mentions_entity ON entity_mentions(entity_id);
     CREATE INDEX IF NOT EXISTS idx_entity_mentions_chunk ON entity_mentions(chunk_id);
 
+    -- Streaming archive import progress
+    CREATE TABLE IF NOT EXISTS archive_imports (
+      archive_id TEXT PRIMARY KEY,
+      source_path TEXT NOT NULL,
+      records_committed INTEGER NOT NULL DEFAULT 0,
+      started_at TEXT DEFAULT CURRENT_TIMESTAMP,
+      updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+      completed_at TEXT
+    );
+
+    -- Chunk-to-code links
+    CREATE TABLE IF NOT EXISTS chunk_code_refs (
+      chunk_id TEXT NOT NULL,
+      file_path TEXT NOT NULL,
+      symbol TEXT NOT NULL DEFAULT '',
+      source TEXT NOT NULL,
+      PRIMARY KEY (chunk_id, file_path, symbol),
+      FOREIGN KEY (chunk_id) REFERENCES chunks(id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_chunk_code_refs_file ON chunk_code_refs(file_path);
+    CREATE INDEX IF NOT EXISTS idx_chunk_code_refs_chunk ON chunk_code_refs(chunk_id);
+
+    -- Tools used per chunk (search facets)
+    CREATE TABLE IF NOT EXISTS chunk_tools (
+      chunk_id TEXT NOT NULL,
+      tool_name TEXT NOT NULL,
+      PRIMARY KEY (chunk_id, tool_name),
+      FOREIGN KEY (chunk_id) REFERENCES chunks(id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_chunk_tools_tool ON chunk_tools(tool_name);
+
+    -- Git commits and their chunk links
+    CREATE TABLE IF NOT EXISTS git_commits (
+      sha TEXT PRIMARY KEY,
+      project_path TEXT NOT NULL,
+      session_id TEXT NOT NULL,
+      session_slug TEXT NOT NULL,
+      subject TEXT NOT NULL,
+      committed_at TEXT,
+      files TEXT NOT NULL DEFAULT '[]',
+      patch TEXT,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE INDEX IF NOT EXISTS idx_git_commits_session ON git_commits(session_id);
+    CREATE TABLE IF NOT EXISTS commit_chunks (
+      sha TEXT NOT NULL,
+      chunk_id TEXT NOT NULL,
+      PRIMARY KEY (sha, chunk_id),
+      FOREIGN KEY (sha) REFERENCES git_commits(sha) ON DELETE CASCADE,
+      FOREIGN KEY (chunk_id) REFERENCES chunks(id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_commit_chunks_chunk ON commit_chunks(chunk_id);
+
+    -- Pull requests and their chunk links
+    CREATE TABLE IF NOT EXISTS pull_requests (
+      url TEXT PRIMARY KEY,
+      number INTEGER NOT NULL,
+      project_path TEXT NOT NULL,
+      session_id TEXT NOT NULL,
+      session_slug TEXT NOT NULL,
+      title TEXT NOT NULL DEFAULT '',
+      opened_at TEXT NOT NULL,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE INDEX IF NOT EXISTS idx_pull_requests_session ON pull_requests(session_id);
+    CREATE TABLE IF NOT EXISTS pull_request_chunks (
+      url TEXT NOT NULL,
+      chunk_id TEXT NOT NULL,
+      PRIMARY KEY (url, chunk_id),
+      FOREIGN KEY (url) REFERENCES pull_requests(url) ON DELETE CASCADE,
+      FOREIGN KEY (chunk_id) REFERENCES chunks(id) ON DELETE CASCADE
+    );
+
     -- Set schema version
-    INSERT OR REPLACE INTO schema_version (version) VALUES (16);
+    INSERT OR REPLACE INTO schema_version (version) VALUES (20);
   `);
 
   // Create FTS5 table and sync triggers (separate exec for virtual table)
@@ -0,0 +1,125 @@
+/**
+ * Tests for int8 and binary vector quantization.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3-multiple-ciphers';
+import {
+  quantizeInt8,
+  quantizeBinary,
+  quantizedLength,
+  serializeQuantized,
+  deserializeQuantized,
+  hammingDistance,
+  quantizedDistance,
+  ensureQuantizationColumns,
+} from '../../src/storage/vector-quantization.js';
+import { angularDistance } from '../../src/utils/angular-distance.js';
+
+/** Deterministic pseudo-random source (mulberry32). */
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+describe('quantizeInt8', () => {
+  it('scales by the largest magnitude to [-127, 127]', () => {
+    expect(Array.from(quantizeInt8([0.5, -1, 0.25, 0]))).toEqual([64, -127, 32, 0]);
+  });
+
+  it('maps a zero vector to zeros', () => {
+    expect(Array.from(quantizeInt8([0, 0, 0]))).toEqual([0, 0, 0]);
+  });
+});
+
+describe('quantizeBinary', () => {
+  it('packs positive signs into bits, 8 dimensions per byte', () => {
+    const bits = quantizeBinary([1, -1, 0.5, 0, -2, 3, 1, 1, 0.1, -0.1]);
+
+    expect(bits).toHaveLength(2);
+    expect(bits[0]).toBe(0b11100101);
+    expect(bits[1]).toBe(0b00000001);
+    expect(quantizedLength(10, 'binary')).toBe(2);
+    expect(quantizedLength(10, 'int8')).toBe(10);
+  });
+});
+
+describe('serialization', () => {
+  it('round-trips int8 and binary vectors through blobs', () => {
+    const int8 = quantizeInt8([0.3, -0.9, 0.1]);
+    const bits = quantizeBinary([1, -1, 1, 1, -1, -1, 1, -1, 1]);
+
+    const int8Back = deserializeQuantized(serializeQuantized(int8), 'int8');
+    const bitsBack = deserializeQuantized(serializeQuantized(bits), 'binary');
+
+    expect(int8Back).toBeInstanceOf(Int8Array);
+    expect(Array.from(int8Back)).toEqual(Array.from(int8));
+    expect(bitsBack).toBeInstanceOf(Uint8Array);
+    expect(Array.from(bitsBack)).toEqual(Array.from(bits));
+  });
+});
+
+describe('distances', () => {
+  const random = seededRandom(11);
+  const randomVector = () => Array.from({ length: 256 }, () => random() * 2 - 1);
+
+  it('counts differing bits', () => {
+    expect(hammingDistance(Uint8Array.of(0b1010, 0xff), Uint8Array.of(0b0110, 0x0f))).toBe(6);
+  });
+
+  it('estimates angular distance from int8 vectors closely', () => {
+    for (let i = 0; i < 20; i++) {
+      const query = randomVector();
+      const vector = randomVector();
+      const estimate = quantizedDistance(query, 'int8')(quantizeInt8(vector));
+      expect(estimate).toBeCloseTo(angularDistance(query, vector), 2);
+    }
+  });
+
+  it('estimates angular distance from binary codes roughly', () => {
+    const query = randomVector();
+    const near = query.map((x) => x + (random() - 0.5) * 0.4);
+    const far = randomVector();
+    const distanceTo = quantizedDistance(query, 'binary');
+
+    expect(distanceTo(quantizeBinary(query))).toBe(0);
+    expect(distanceTo(quantizeBinary(near))).toBeLessThan(distanceTo(quantizeBinary(far)));
+    expect(Math.abs(distanceTo(quantizeBinary(far)) - angularDistance(query, far))).toBeLessThan(
+      0.1,
+    );
+  });
+});
+
+describe('ensureQuantizationColumns', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE vectors (
+        id TEXT PRIMARY KEY,
+        embedding BLOB NOT NULL,
+        model_id TEXT DEFAULT 'jina-small'
+      )
+    `);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('adds the quantized columns once', () => {
+    ensureQuantizationColumns(db, 'vectors');
+    ensureQuantizationColumns(db, 'vectors');
+
+    const columns = (db.prepare('PRAGMA table_info(vectors)').all() as { name: string }[]).map(
+      (c) => c.name,
+    );
+    expect(columns).toEqual(expect.arrayContaining(['embedding_quantized', 'quantization']));
+  });
+});
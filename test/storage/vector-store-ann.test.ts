@@ -0,0 +1,287 @@
+/**
+ * Tests for VectorStore approximate (HNSW) search, graph persistence and syncing.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3-multiple-ciphers';
+import { VectorStore } from '../../src/storage/vector-store.js';
+import { setDb, resetDb } from '../../src/storage/db.js';
+
+const MODEL = 'hash:16';
+const DIMS = 16;
+const ANN = { enabled: true, minVectors: 100, m: 8, efConstruction: 64, efSearch: 48 };
+
+/** Deterministic pseudo-random source (mulberry32). */
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+describe('VectorStore approximate search', () => {
+  let db: Database.Database;
+  let random: () => number;
+
+  function randomVector(): number[] {
+    return Array.from({ length: DIMS }, () => random() * 2 - 1);
+  }
+
+  function createStore(ann: Partial<typeof ANN> = ANN): VectorStore {
+    const store = new VectorStore({ ann });
+    store.setModelId(MODEL);
+    return store;
+  }
+
+  function insertChunk(id: string, slug: string, agentId: string | null = null): void {
+    db.prepare(
+      `INSERT INTO chunks (id, session_id, session_slug, turn_indices, start_time, end_time, content, agent_id)
+       VALUES (?, 's1', ?, '[0]', '2024-01-01T00:00:00.000Z', '2024-01-01T00:00:00.000Z', 'content', ?)`,
+    ).run(id, slug, agentId);
+  }
+
+  /** Insert chunks and vectors: `count` per project, every third chunk by agent "reviewer". */
+  async function populate(store: VectorStore, projects: string[], count: number): Promise<void> {
+    const items: Array<{ id: string; embedding: number[] }> = [];
+    for (const project of projects) {
+      for (let i = 0; i < count; i++) {
+        const id = `${project}-${i}`;
+        insertChunk(id, project, i % 3 === 0 ? 'reviewer' : null);
+        items.push({ id, embedding: randomVector() });
+      }
+    }
+    await store.insertBatch(items);
+  }
+
+  function nodeCount(): number {
+    return (db.prepare('SELECT COUNT(*) AS n FROM vector_hnsw_nodes').get() as { n: number }).n;
+  }
+
+  function graphTableExists(): boolean {
+    return (
+      db.prepare("SELECT name FROM sqlite_master WHERE name = 'vector_hnsw_nodes'").get() !==
+      undefined
+    );
+  }
+
+  async function recallAt10(store: VectorStore, queries: number[][]): Promise<number> {
+    let hits = 0;
+    for (const query of queries) {
+      const exact = new Set((await store.searchForEvaluation(query, 10, true)).map((r) => r.id));
+      const approximate = await store.searchForEvaluation(query, 10, false);
+      hits += approximate.filter((r) => exact.has(r.id)).length;
+    }
+    return hits / (queries.length * 10);
+  }
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS chunks (
+        id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL,
+        session_slug TEXT NOT NULL,
+        turn_indices TEXT NOT NULL,
+        start_time TEXT NOT NULL,
+        end_time TEXT NOT NULL,
+        content TEXT NOT NULL,
+        approx_tokens INTEGER DEFAULT 0,
+        agent_id TEXT,
+        team_name TEXT
+      );
+    `);
+    setDb(db);
+    random = seededRandom(7);
+  });
+
+  afterEach(() => {
+    db.close();
+    resetDb();
+  });
+
+  it('searches exactly while the store is below the threshold', async () => {
+    const store = createStore();
+    await populate(store, ['alpha'], 50);
+
+    expect(await store.isAnnActive()).toBe(false);
+    await store.search(randomVector(), 5);
+    expect(graphTableExists()).toBe(false);
+  });
+
+  it('matches exact search closely once graphs are built', async () => {
+    const store = createStore();
+    await populate(store, ['alpha', 'beta'], 300);
+    const queries = Array.from({ length: 10 }, () => randomVector());
+
+    expect(await store.isAnnActive()).toBe(true);
+    expect(await recallAt10(store, queries)).toBeGreaterThanOrEqual(0.9);
+    expect(nodeCount()).toBe(600);
+  });
+
+  it('reports exact angular distances for graph hits', async () => {
+    const store = createStore();
+    await populate(store, ['alpha'], 300);
+    const query = randomVector();
+
+    const [best] = await store.search(query, 1);
+    const [exact] = await store.searchForEvaluation(query, 1, true);
+
+    expect(best.distance).toBeCloseTo(exact.distance, 10);
+  });
+
+  it('searches only the requested project partitions', async () => {
+    const store = createStore();
+    await populate(store, ['alpha', 'beta', 'gamma'], 150);
+
+    const results = await store.searchByProject(randomVector(), ['alpha', 'gamma'], 20);
+
+    expect(results).toHaveLength(20);
+    expect(results.every((r) => /^(alpha|gamma)-/.test(r.id))).toBe(true);
+    // Only the searched partitions' graphs were built
+    const partitions = db
+      .prepare('SELECT DISTINCT partition FROM vector_hnsw_nodes ORDER BY partition')
+      .all() as Array<{ partition: string }>;
+    expect(partitions.map((p) => p.partition)).toEqual(['alpha', 'gamma']);
+  });
+
+  it('applies agent filters, widening or falling back to an exact scan', async () => {
+    const store = createStore();
+    await populate(store, ['alpha'], 300);
+    const query = randomVector();
+
+    const results = await store.searchByProject(query, 'alpha', 10, 'reviewer');
+
+    expect(results).toHaveLength(10);
+    expect(results.every((r) => Number(r.id.split('-')[1]) % 3 === 0)).toBe(true);
+  });
+
+  it('scans small partitions exactly when the store is large', async () => {
+    const store = createStore();
+    await populate(store, ['alpha'], 200);
+    await populate(store, ['tiny'], 5);
+
+    const results = await store.searchByProject(randomVector(), 'tiny', 10);
+
+    expect(results).toHaveLength(5);
+    expect(graphTableExists()).toBe(false);
+  });
+
+  it('keeps built graphs in step with inserts and deletes', async () => {
+    const store = createStore();
+    await populate(store, ['alpha'], 200);
+    await store.search(randomVector(), 5);
+    expect(nodeCount()).toBe(200);
+
+    const target = randomVector();
+    insertChunk('alpha-new', 'alpha');
+    await store.insert('alpha-new', target);
+    expect(nodeCount()).toBe(201);
+    expect((await store.search(target, 1))[0].id).toBe('alpha-new');
+
+    await store.deleteBatch(['alpha-new', 'alpha-0', 'alpha-1']);
+    expect(nodeCount()).toBe(198);
+    const results = await store.search(target, 10);
+    expect(results.map((r) => r.id)).not.toContain('alpha-new');
+    const neighbors = (
+      db.prepare('SELECT neighbors FROM vector_hnsw_nodes').all() as Array<{ neighbors: string }>
+    ).flatMap((row) => (JSON.parse(row.neighbors) as string[][]).flat());
+    expect(neighbors).not.toContain('alpha-new');
+  });
+
+  it('restores persisted graphs and repairs what changed since', async () => {
+    const first = createStore();
+    await populate(first, ['alpha'], 200);
+    await first.search(randomVector(), 5);
+
+    // Another process rewrites one vector and deletes another without a graph
+    const writer = createStore({ ...ANN, enabled: false });
+    await writer.insert('alpha-10', randomVector());
+    await writer.delete('alpha-11');
+
+    const second = createStore();
+    const queries = Array.from({ length: 10 }, () => randomVector());
+    expect(await recallAt10(second, queries)).toBeGreaterThanOrEqual(0.9);
+
+    const rows = db.prepare('SELECT id FROM vector_hnsw_nodes').all() as Array<{ id: string }>;
+    expect(rows).toHaveLength(199);
+    expect(rows.map((r) => r.id)).not.toContain('alpha-11');
+    const rewritten = db
+      .prepare("SELECT vector_rowid FROM vector_hnsw_nodes WHERE id = 'alpha-10'")
+      .get() as { vector_rowid: number };
+    const vectorRow = db.prepare("SELECT rowid FROM vectors WHERE id = 'alpha-10'").get() as {
+      rowid: number;
+    };
+    expect(rewritten.vector_rowid).toBe(vectorRow.rowid);
+  });
+
+  it('syncs with vectors written by other processes when the model is re-selected', async () => {
+    const reader = createStore();
+    await populate(reader, ['alpha'], 150);
+    await reader.search(randomVector(), 5);
+
+    const writer = createStore();
+    const target = randomVector();
+    insertChunk('alpha-late', 'alpha');
+    await writer.insert('alpha-late', target);
+    expect((await reader.search(target, 1))[0].id).not.toBe('alpha-late');
+
+    reader.setModelId(MODEL);
+    expect((await reader.search(target, 1))[0].id).toBe('alpha-late');
+    expect(await reader.count()).toBe(151);
+
+    await writer.delete('alpha-late');
+    reader.setModelId(MODEL);
+    expect(await reader.count()).toBe(150);
+    expect(await reader.has('alpha-late')).toBe(false);
+  });
+
+  it('keeps a separate persisted graph per quantization mode', async () => {
+    const float = createStore();
+    await populate(float, ['alpha'], 150);
+    await float.search(randomVector(), 5);
+
+    const binary = new VectorStore({ ann: ANN, quantization: { mode: 'binary' } });
+    binary.setModelId(MODEL);
+    await binary.search(randomVector(), 5);
+
+    expect(
+      db
+        .prepare(
+          'SELECT quantization, COUNT(*) AS n FROM vector_hnsw_nodes GROUP BY quantization ORDER BY quantization',
+        )
+        .all(),
+    ).toEqual([
+      { quantization: 'binary', n: 150 },
+      { quantization: 'none', n: 150 },
+    ]);
+  });
+
+  it('rebuilds graphs persisted before they were keyed by quantization mode', async () => {
+    db.exec(`
+      CREATE TABLE vector_hnsw_nodes (
+        vector_table TEXT NOT NULL, model_id TEXT NOT NULL, id TEXT NOT NULL,
+        partition TEXT NOT NULL, vector_rowid INTEGER NOT NULL, level INTEGER NOT NULL,
+        neighbors TEXT NOT NULL, PRIMARY KEY (vector_table, model_id, id)
+      )
+    `);
+    const store = createStore();
+    await populate(store, ['alpha'], 150);
+    await store.search(randomVector(), 5);
+
+    expect(nodeCount()).toBe(150);
+  });
+
+  it('clear removes persisted graph nodes', async () => {
+    const store = createStore();
+    await populate(store, ['alpha'], 150);
+    await store.search(randomVector(), 5);
+
+    await store.clear();
+
+    expect(nodeCount()).toBe(0);
+    expect(await store.search(randomVector(), 5)).toEqual([]);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Tests for VectorStore point-in-time (as-of) filtering.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3-multiple-ciphers';
+import { VectorStore } from '../../src/storage/vector-store.js';
+import { setDb, resetDb } from '../../src/storage/db.js';
+
+const DIMS = 512;
+
+function unitVector(hot: number): number[] {
+  const v = new Array(DIMS).fill(0);
+  v[hot] = 1;
+  return v;
+}
+
+describe('VectorStore as-of filtering', () => {
+  let db: Database.Database;
+  let store: VectorStore;
+
+  function insertChunk(id: string, startTime: string, slug = 'proj'): void {
+    db.prepare(
+      `INSERT INTO chunks (id, session_id, session_slug, turn_indices, start_time, end_time, content)
+       VALUES (?, 's1', ?, '[0]', ?, ?, 'content')`,
+    ).run(id, slug, startTime, startTime);
+  }
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS chunks (
+        id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL,
+        session_slug TEXT NOT NULL,
+        turn_indices TEXT NOT NULL,
+        start_time TEXT NOT NULL,
+        end_time TEXT NOT NULL,
+        content TEXT NOT NULL,
+        approx_tokens INTEGER DEFAULT 0,
+        agent_id TEXT,
+        team_name TEXT
+      );
+    `);
+    setDb(db);
+    store = new VectorStore();
+
+    insertChunk('old', '2024-01-01T00:00:00.000Z');
+    insertChunk('new', '2024-06-01T00:00:00.000Z');
+  });
+
+  afterEach(() => {
+    db.close();
+    resetDb();
+  });
+
+  it('search excludes vectors starting at or after the cutoff', async () => {
+    await store.insertBatch([
+      { id: 'old', embedding: unitVector(0) },
+      { id: 'new', embedding: unitVector(0) },
+    ]);
+
+    const results = await store.search(unitVector(0), 10, '2024-03-01T00:00:00.000Z');
+
+    expect(results.map((r) => r.id)).toEqual(['old']);
+  });
+
+  it('searchByProject applies the cutoff', async () => {
+    await store.insert('old', unitVector(0));
+    await store.insert('new', unitVector(0));
+
+    const results = await store.searchByProject(
+      unitVector(0),
+      'proj',
+      10,
+      undefined,
+      '2024-03-01T00:00:00.000Z',
+    );
+
+    expect(results.map((r) => r.id)).toEqual(['old']);
+  });
+
+  it('loads start times for vectors persisted before load', async () => {
+    await store.insert('old', unitVector(0));
+    await store.insert('new', unitVector(1));
+
+    const fresh = new VectorStore();
+    expect(await fresh.search(unitVector(0), 10, '2025-01-01T00:00:00.000Z')).toHaveLength(2);
+    expect(fresh.getChunkTime('old')).toBe('2024-01-01T00:00:00.000Z');
+  });
+
+  it('returns everything without a cutoff', async () => {
+    await store.insert('old', unitVector(0));
+    await store.insert('new', unitVector(0));
+
+    expect(await store.search(unitVector(0), 10)).toHaveLength(2);
+  });
+});
@@ -167,6 +167,19 @@ describe('VectorStore cleanup/eviction', () => {
       expect(countRows(db, 'vectors')).toBe(1);
     });
 
+    it('keeps expired vectors for pinned chunks', async () => {
+      insertVectorWithTimestamp(db, 'old-pinned', '2020-01-01T00:00:00Z');
+      insertVectorWithTimestamp(db, 'old-unpinned', '2020-01-01T00:00:00Z');
+      db.prepare("UPDATE chunks SET pinned = 1 WHERE id = 'old-pinned'").run();
+
+      await store.load();
+      const deleted = await store.cleanupExpired(30);
+
+      expect(deleted).toBe(1);
+      expect(await store.has('old-pinned')).toBe(true);
+      expect(countRows(db, 'chunks')).toBe(1);
+    });
+
     it('deletes associated chunks (cascade)', async () => {
       insertVectorWithTimestamp(db, 'expired-chunk', '2020-01-01T00:00:00Z');
       insertVectorWithTimestamp(db, 'kept-chunk', new Date().toISOString());
@@ -374,6 +387,20 @@ describe('VectorStore cleanup/eviction', () => {
       expect(countRows(db, 'index_vectors')).toBe(0);
     });
 
+    it('never evicts pinned chunks', async () => {
+      insertVectorWithTimestamp(db, 'pinned-old', '2024-01-01T00:00:00Z');
+      insertVectorWithTimestamp(db, 'v2', '2024-02-01T00:00:00Z');
+      insertVectorWithTimestamp(db, 'v3', '2024-03-01T00:00:00Z');
+      db.prepare("UPDATE chunks SET pinned = 1 WHERE id = 'pinned-old'").run();
+
+      await store.load();
+      const evicted = await store.evictOldest(2);
+
+      expect(evicted).toBe(1);
+      expect(await store.has('pinned-old')).toBe(true);
+      expect(await store.has('v2')).toBe(false);
+    });
+
     it('returns 0 when count is already within maxCount', async () => {
       insertVectorWithTimestamp(db, 'v1', '2024-01-01T00:00:00Z');
       insertVectorWithTimestamp(db, 'v2', '2024-02-01T00:00:00Z');
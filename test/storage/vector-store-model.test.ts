@@ -83,6 +83,23 @@ describe('VectorStore multi-model support', () => {
       // 512 should now be rejected
       await expect(store.insert('chunk-2', embedding512)).rejects.toThrow(/Dimension mismatch/);
     });
+
+    it('throws on load when stored vectors have different dimensions than the model', async () => {
+      // Simulate vectors written by an earlier configuration of the same model id
+      const other = new VectorStore();
+      other.setModelId('hash:8');
+      await other.insert('chunk-1', new Array(8).fill(0.1));
+      db.prepare("UPDATE vectors SET model_id = 'hash:16'").run();
+
+      store.setModelId('hash:16');
+      await expect(store.count()).rejects.toThrow(/Dimension mismatch.*hash:16.*8 dims.*16/);
+    });
+
+    it('accepts dynamic hash model ids', async () => {
+      store.setModelId('hash:32');
+      await expect(store.insert('chunk-1', new Array(32).fill(0.1))).resolves.not.toThrow();
+      expect(await store.count()).toBe(1);
+    });
   });
 
   describe('model_id column', () => {
@@ -0,0 +1,224 @@
+/**
+ * Tests for VectorStore int8 and binary quantization with full-precision re-ranking.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3-multiple-ciphers';
+import {
+  VectorStore,
+  type AnnOptions,
+  type QuantizationOptions,
+} from '../../src/storage/vector-store.js';
+import { setDb, resetDb } from '../../src/storage/db.js';
+import { angularDistance } from '../../src/utils/angular-distance.js';
+import { serializeEmbedding } from '../../src/utils/embedding-utils.js';
+
+const MODEL = 'hash:64';
+const DIMS = 64;
+
+/** Deterministic pseudo-random source (mulberry32). */
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+describe('VectorStore quantization', () => {
+  let db: Database.Database;
+  let random: () => number;
+  let embeddings: Map<string, number[]>;
+
+  function randomVector(): number[] {
+    return Array.from({ length: DIMS }, () => random() * 2 - 1);
+  }
+
+  function createStore(
+    mode: QuantizationOptions['mode'],
+    ann: Partial<AnnOptions> = { enabled: false },
+    rerankMultiplier = 4,
+  ): VectorStore {
+    const store = new VectorStore({ ann, quantization: { mode, rerankMultiplier } });
+    store.setModelId(MODEL);
+    return store;
+  }
+
+  async function populate(store: VectorStore, count: number): Promise<void> {
+    const items: Array<{ id: string; embedding: number[] }> = [];
+    for (let i = 0; i < count; i++) {
+      const id = `c${i}`;
+      const embedding = randomVector();
+      embeddings.set(id, embedding);
+      db.prepare(
+        `INSERT INTO chunks (id, session_id, session_slug, turn_indices, start_time, end_time, content)
+         VALUES (?, 's1', 'proj', '[0]', '2024-01-01T00:00:00.000Z', '2024-01-01T00:00:00.000Z', 'content')`,
+      ).run(id);
+      items.push({ id, embedding });
+    }
+    await store.insertBatch(items);
+  }
+
+  function exactTop(query: number[], k: number): string[] {
+    return [...embeddings]
+      .map(([id, embedding]) => ({ id, distance: angularDistance(query, embedding) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, k)
+      .map((r) => r.id);
+  }
+
+  function recallAt10(results: string[][], queries: number[][]): number {
+    let hits = 0;
+    queries.forEach((query, i) => {
+      const expected = new Set(exactTop(query, 10));
+      hits += results[i].filter((id) => expected.has(id)).length;
+    });
+    return hits / (queries.length * 10);
+  }
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS chunks (
+        id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL,
+        session_slug TEXT NOT NULL,
+        turn_indices TEXT NOT NULL,
+        start_time TEXT NOT NULL,
+        end_time TEXT NOT NULL,
+        content TEXT NOT NULL,
+        approx_tokens INTEGER DEFAULT 0,
+        agent_id TEXT,
+        team_name TEXT
+      );
+    `);
+    setDb(db);
+    random = seededRandom(5);
+    embeddings = new Map();
+  });
+
+  afterEach(() => {
+    db.close();
+    resetDb();
+  });
+
+  it('stores quantized blobs alongside the float embeddings', async () => {
+    const store = createStore('int8');
+    await populate(store, 3);
+
+    const row = db
+      .prepare("SELECT embedding, embedding_quantized, quantization FROM vectors WHERE id = 'c0'")
+      .get() as { embedding: Buffer; embedding_quantized: Buffer; quantization: string };
+
+    expect(row.quantization).toBe('int8');
+    expect(row.embedding.length).toBe(DIMS * 4);
+    expect(row.embedding_quantized.length).toBe(DIMS);
+    expect(await store.getQuantizationMode()).toBe('int8');
+  });
+
+  it('leaves quantized columns empty without quantization', async () => {
+    const store = createStore('none');
+    await populate(store, 3);
+
+    const row = db
+      .prepare("SELECT embedding_quantized, quantization FROM vectors WHERE id = 'c0'")
+      .get() as { embedding_quantized: Buffer | null; quantization: string | null };
+    expect(row).toEqual({ embedding_quantized: null, quantization: null });
+  });
+
+  for (const mode of ['int8', 'binary'] as const) {
+    it(`re-ranks ${mode} candidates with exact distances`, async () => {
+      const store = createStore(mode, { enabled: false }, mode === 'binary' ? 10 : 4);
+      await populate(store, 500);
+      const queries = Array.from({ length: 10 }, () => randomVector());
+
+      const results = [];
+      for (const query of queries) {
+        const hits = await store.search(query, 10);
+        expect(hits).toHaveLength(10);
+        for (const hit of hits) {
+          expect(hit.distance).toBeCloseTo(angularDistance(query, embeddings.get(hit.id)!), 6);
+        }
+        results.push(hits.map((h) => h.id));
+      }
+
+      expect(recallAt10(results, queries)).toBeGreaterThanOrEqual(mode === 'int8' ? 0.95 : 0.7);
+    });
+  }
+
+  it('searches binary codes through HNSW graphs', async () => {
+    const store = createStore('binary', { enabled: true, minVectors: 100 }, 10);
+    await populate(store, 400);
+    const queries = Array.from({ length: 10 }, () => randomVector());
+
+    const results = [];
+    for (const query of queries) {
+      results.push((await store.searchByProject(query, 'proj', 10)).map((h) => h.id));
+    }
+
+    expect(await store.isAnnActive()).toBe(true);
+    expect(recallAt10(results, queries)).toBeGreaterThanOrEqual(0.6);
+  });
+
+  it('returns full-precision vectors from get and getAllVectors', async () => {
+    const store = createStore('binary');
+    await populate(store, 5);
+
+    const vector = await store.get('c2');
+    const all = await store.getAllVectors();
+
+    expect(vector).toHaveLength(DIMS);
+    expect(vector![0]).toBeCloseTo(embeddings.get('c2')![0], 6);
+    expect(all).toHaveLength(5);
+    expect(all.find((v) => v.id === 'c4')!.embedding[3]).toBeCloseTo(embeddings.get('c4')![3], 6);
+    expect(await store.get('missing')).toBeNull();
+  });
+
+  it('quantizes rows written without quantized blobs when loading', async () => {
+    const writer = createStore('none');
+    await populate(writer, 20);
+    // A row imported by another code path
+    db.prepare('INSERT INTO vectors (id, embedding, model_id) VALUES (?, ?, ?)').run(
+      'imported',
+      serializeEmbedding(randomVector()),
+      MODEL,
+    );
+
+    const store = createStore('int8');
+    expect(await store.count()).toBe(21);
+
+    const unconverted = db
+      .prepare('SELECT COUNT(*) AS n FROM vectors WHERE quantization IS NOT ?')
+      .get('int8') as { n: number };
+    expect(unconverted.n).toBe(0);
+
+    // A later load reads the stored blobs
+    const query = embeddings.get('c7')!;
+    const reloaded = createStore('int8');
+    expect((await reloaded.search(query, 1))[0].id).toBe('c7');
+  });
+
+  it('re-quantizes rows stored with a different encoding', async () => {
+    await populate(createStore('int8'), 10);
+
+    const store = createStore('binary');
+    await store.count();
+
+    const modes = db.prepare('SELECT DISTINCT quantization FROM vectors').all();
+    expect(modes).toEqual([{ quantization: 'binary' }]);
+  });
+
+  it('compares quantized search against exact search for evaluation', async () => {
+    const store = createStore('int8');
+    await populate(store, 200);
+    const query = randomVector();
+
+    const exact = await store.searchForEvaluation(query, 10, true);
+    const approximate = await store.searchForEvaluation(query, 10, false);
+
+    expect(exact.map((r) => r.id)).toEqual(exactTop(query, 10));
+    expect(approximate.map((r) => r.id)).toEqual(exactTop(query, 10));
+  });
+});